@@ -0,0 +1,18 @@
+// Alert notifications service worker
+// Shows alert notifications while the terminal tab is in the background and
+// brings the tab back to the front when one is clicked.
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const open = clients.find((client) => 'focus' in client);
+      return open ? open.focus() : self.clients.openWindow(url);
+    })
+  );
+});
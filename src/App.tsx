@@ -10,6 +10,7 @@ import { MCPProvider } from "@/contexts/MCPContext";
 import { PanelCommanderProvider } from "@/contexts/PanelCommanderContext";
 import { AgentProvider } from "@/contexts/AgentContext";
 import { AuthWrapper } from "@/components/AuthWrapper";
+import { alertEngine } from "@/services/AlertEngineService";
 
 // Lazy load page components to reduce initial bundle size
 const Index = lazy(() => import("./pages/Index"));
@@ -71,6 +72,8 @@ const AppContent = () => {
 const App = () => {
   useEffect(() => {
     initializeTheme();
+    // Alerts run app-wide, not only while a chart is open
+    alertEngine.start();
   }, []);
 
   return (
@@ -4,6 +4,7 @@ import { GeminiService } from '@/services/GeminiService';
 import { ClaudeService } from '@/services/ClaudeService';
 import { UniversalDataService } from '@/services/UniversalDataService';
 import { useMCP } from '@/contexts/MCPContext';
+import { MCPToolStatsPopover } from '@/components/agent/MCPToolStatsPopover';
 import { usePanelCommander, AVAILABLE_PANELS } from '@/contexts/PanelCommanderContext';
 import { useAgent } from '@/contexts/AgentContext';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -858,7 +859,7 @@ Revenue Growth YoY: ${fmtP(f.total_revenue_yoy_growth_fy)} | EPS Growth YoY: ${f
                     Not Connected
                   </span>
                 )}
-                {mcpReady && <span className="text-cyan-400"> • {tools.length} tools</span>}
+                {mcpReady && <MCPToolStatsPopover />}
               </span>
             </div>
           </CardTitle>
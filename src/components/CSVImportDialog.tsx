@@ -10,6 +10,14 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Upload, CheckCircle, Download, AlertTriangle } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import Papa from 'papaparse';
+import {
+  BROKER_FORMAT_LABELS,
+  STATEMENT_FILE_ACCEPT,
+  parseBrokerStatement,
+  readStatementFile,
+  splitDuplicates,
+  type BrokerFormat,
+} from '@/utils/brokerStatements';
 
 interface Trade {
   id: string;
@@ -82,6 +90,20 @@ const THAI_OANDA_MAPPING: Record<string, string> = {
   'P&L สุทธิ %': 'pnlPercentage',
 };
 
+type ImportFormat = 'able_v3' | 'thai_oanda' | 'generic' | BrokerFormat;
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  able_v3: 'ABLE v3.1',
+  thai_oanda: 'Thai OANDA',
+  generic: 'Generic',
+  ...BROKER_FORMAT_LABELS,
+};
+
+const isBrokerFormat = (format: ImportFormat): format is BrokerFormat => format in BROKER_FORMAT_LABELS;
+
+const isSupportedFile = (name: string) =>
+  STATEMENT_FILE_ACCEPT.split(',').some(ext => name.toLowerCase().endsWith(ext));
+
 const TRADE_FIELD_OPTIONS = [
   { value: 'id', label: 'Trade ID' },
   { value: 'date', label: 'Date' },
@@ -113,7 +135,12 @@ export default function CSVImportDialog({ open, onOpenChange, onImport, existing
   const [parsedTrades, setParsedTrades] = useState<Trade[]>([]);
   const [importProgress, setImportProgress] = useState(0);
   const [conflicts, setConflicts] = useState<{ existing: Trade; new: Trade }[]>([]);
-  const [detectedFormat, setDetectedFormat] = useState<'able_v3' | 'thai_oanda' | 'generic'>('generic');
+  // Open journal trades the file shows closed since; imported over the journal copy
+  const [updates, setUpdates] = useState<Trade[]>([]);
+  const [detectedFormat, setDetectedFormat] = useState<ImportFormat>('generic');
+  // Broker statements are paired into round trips on upload; rows are kept only for the preview
+  const [statementTrades, setStatementTrades] = useState<Trade[]>([]);
+  const [statementWarnings, setStatementWarnings] = useState<string[]>([]);
 
   useEffect(() => {
     if (currentStep === 'preview' && fullCsvData.length > 0 && parsedTrades.length === 0) {
@@ -141,11 +168,39 @@ export default function CSVImportDialog({ open, onOpenChange, onImport, existing
     return 'generic';
   };
 
-  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      toast({ title: "Invalid File", description: "Please upload a CSV file", variant: "destructive" });
+    if (!isSupportedFile(file.name)) {
+      toast({ title: "Invalid File", description: "Please upload a CSV, HTML or XML statement", variant: "destructive" });
+      return;
+    }
+
+    // Broker statements first, unless the CSV is one of the ABLE / OANDA layouts
+    try {
+      const source = await readStatementFile(file);
+      const firstRow = source.grid[0] || [];
+      const result = detectFormat(firstRow.map(h => h.trim())) === 'generic' ? parseBrokerStatement(source) : null;
+      if (result) {
+        const headers = Array.from(new Set(result.rows.flatMap(row => Object.keys(row))));
+        setCsvHeaders(headers);
+        setCsvData(result.rows.slice(0, 10));
+        setFullCsvData(result.rows);
+        setDetectedFormat(result.format);
+        setStatementTrades(result.trades);
+        setStatementWarnings(result.warnings);
+        setColumnMappings([]);
+        setParsedTrades([]);
+        setCurrentStep('preview');
+        toast({ title: "File Uploaded", description: `Loaded ${result.rows.length} rows • Format: ${FORMAT_LABELS[result.format]}` });
+        return;
+      }
+    } catch (e) {
+      console.error('Statement parse error:', e);
+    }
+
+    if (!file.name.toLowerCase().endsWith('.csv') && !file.name.toLowerCase().endsWith('.txt')) {
+      toast({ title: "Unrecognized Statement", description: "This file doesn't match a supported broker format", variant: "destructive" });
       return;
     }
 
@@ -165,6 +220,8 @@ export default function CSVImportDialog({ open, onOpenChange, onImport, existing
         setCsvData(data.slice(0, 10));
         setFullCsvData(data);
         setDetectedFormat(format);
+        setStatementTrades([]);
+        setStatementWarnings([]);
         
         // Auto-create mappings
         const mappings: ColumnMapping[] = headers.map(header => {
@@ -178,7 +235,7 @@ export default function CSVImportDialog({ open, onOpenChange, onImport, existing
         setColumnMappings(mappings);
         setCurrentStep('preview');
         
-        toast({ title: "File Uploaded", description: `Loaded ${data.length} rows • Format: ${format === 'able_v3' ? 'ABLE v3.1' : format === 'thai_oanda' ? 'Thai OANDA' : 'Generic'}` });
+        toast({ title: "File Uploaded", description: `Loaded ${data.length} rows • Format: ${FORMAT_LABELS[format]}` });
       }
     });
   }, [toast]);
@@ -187,7 +244,7 @@ export default function CSVImportDialog({ open, onOpenChange, onImport, existing
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     const files = Array.from(e.dataTransfer.files);
-    const csvFile = files.find(file => file.name.toLowerCase().endsWith('.csv'));
+    const csvFile = files.find(file => isSupportedFile(file.name));
     if (csvFile) {
       const event = { target: { files: [csvFile] } } as unknown as React.ChangeEvent<HTMLInputElement>;
       handleFileUpload(event);
@@ -362,7 +419,9 @@ export default function CSVImportDialog({ open, onOpenChange, onImport, existing
   const autoProcessData = () => {
     let trades: Trade[] = [];
     
-    if (detectedFormat === 'able_v3') {
+    if (isBrokerFormat(detectedFormat)) {
+      trades = statementTrades;
+    } else if (detectedFormat === 'able_v3') {
       trades = processAbleV3Format();
     } else if (detectedFormat === 'thai_oanda') {
       trades = processThaiOandaFormat();
@@ -371,24 +430,19 @@ export default function CSVImportDialog({ open, onOpenChange, onImport, existing
     }
     
     // Check conflicts
-    const newConflicts: { existing: Trade; new: Trade }[] = [];
-    const cleanTrades: Trade[] = [];
-    trades.forEach(trade => {
-      const existing = existingTrades.find(t => t.symbol === trade.symbol && t.date === trade.date && Math.abs((t.entryPrice || 0) - (trade.entryPrice || 0)) < 0.01);
-      if (existing) newConflicts.push({ existing, new: trade });
-      else cleanTrades.push(trade);
-    });
+    const { fresh: cleanTrades, updates: newUpdates, duplicates: newConflicts } = splitDuplicates(trades, existingTrades);
     
     setParsedTrades(cleanTrades);
+    setUpdates(newUpdates);
     setConflicts(newConflicts);
-    toast({ title: "Data Processed", description: `Found ${cleanTrades.length} valid trades (${detectedFormat === 'able_v3' ? 'ABLE v3.1' : detectedFormat === 'thai_oanda' ? 'Thai OANDA' : 'Generic'} format)` });
+    toast({ title: "Data Processed", description: `Found ${cleanTrades.length} valid trades (${FORMAT_LABELS[detectedFormat]} format)` });
   };
 
   const handleNextStep = () => {
     if (currentStep === 'preview') {
       if (parsedTrades.length === 0) autoProcessData();
       // For known formats, skip mapping and go to validation
-      if (detectedFormat === 'able_v3' || detectedFormat === 'thai_oanda') {
+      if (detectedFormat !== 'generic') {
         setCurrentStep('validation');
       } else {
         setCurrentStep('mapping');
@@ -411,11 +465,15 @@ export default function CSVImportDialog({ open, onOpenChange, onImport, existing
       setImportProgress(i);
       await new Promise(resolve => setTimeout(resolve, 50));
     }
-    onImport(parsedTrades, mode === 'replace');
-    toast({ title: mode === 'replace' ? "Trades Replaced" : "Import Successful", description: `${mode === 'replace' ? 'Replaced' : 'Added'} ${parsedTrades.length} trades` });
+    onImport([...parsedTrades, ...updates], mode === 'replace');
+    toast({
+      title: mode === 'replace' ? "Trades Replaced" : "Import Successful",
+      description: `${mode === 'replace' ? 'Replaced' : 'Added'} ${parsedTrades.length} trades${updates.length > 0 ? `, updated ${updates.length}` : ''}`
+    });
     // Reset
     setCsvData([]); setCsvHeaders([]); setColumnMappings([]); setParsedTrades([]);
-    setConflicts([]); setCurrentStep('upload'); setDetectedFormat('generic');
+    setConflicts([]); setUpdates([]); setCurrentStep('upload'); setDetectedFormat('generic');
+    setStatementTrades([]); setStatementWarnings([]);
     onOpenChange(false);
   };
 
@@ -437,7 +495,7 @@ export default function CSVImportDialog({ open, onOpenChange, onImport, existing
             CSV Import Wizard - Trading Journal
             {detectedFormat !== 'generic' && (
               <Badge variant="outline" className="ml-2 text-xs bg-terminal-green/10 text-terminal-green border-terminal-green/30">
-                {detectedFormat === 'able_v3' ? '✓ ABLE v3.1' : '✓ Thai OANDA'}
+                ✓ {FORMAT_LABELS[detectedFormat]}
               </Badge>
             )}
           </DialogTitle>
@@ -476,12 +534,12 @@ export default function CSVImportDialog({ open, onOpenChange, onImport, existing
                 <div className="border-2 border-dashed border-terminal-green/30 rounded-lg p-12 text-center hover:border-terminal-green/50 transition-colors w-full max-w-lg"
                   onDragOver={handleDragOver} onDrop={handleDrop}>
                   <Upload className="h-12 w-12 text-terminal-green mx-auto mb-4" />
-                  <h3 className="text-lg font-semibold mb-2">Drop your CSV file here</h3>
+                  <h3 className="text-lg font-semibold mb-2">Drop your CSV or broker statement here</h3>
                   <p className="text-muted-foreground mb-4 text-sm">
-                    Supports: ABLE v3.1, Thai OANDA, and generic CSV formats
+                    Supports: ABLE v3.1, Thai OANDA, MT4/MT5 reports, Tradovate, IBKR Flex XML, Binance, Settrade and generic CSV formats
                   </p>
                   <label>
-                    <input type="file" accept=".csv" onChange={handleFileUpload} className="hidden" />
+                    <input type="file" accept={STATEMENT_FILE_ACCEPT} onChange={handleFileUpload} className="hidden" />
                     <Button asChild><span>Browse Files</span></Button>
                   </label>
                 </div>
@@ -510,15 +568,25 @@ export default function CSVImportDialog({ open, onOpenChange, onImport, existing
                     </TableBody>
                   </Table>
                 </div>
-                {parsedTrades.length > 0 && (
+                {parsedTrades.length + updates.length > 0 && (
                   <Alert className="border-terminal-green/30 bg-terminal-green/5 mt-3">
                     <AlertDescription className="text-xs text-terminal-green">
-                      ✓ พบ {parsedTrades.length} เทรดจากข้อมูล ({detectedFormat === 'able_v3' ? 'ABLE v3.1' : detectedFormat === 'thai_oanda' ? 'Thai OANDA' : 'Generic'})
+                      ✓ พบ {parsedTrades.length} เทรดจากข้อมูล ({FORMAT_LABELS[detectedFormat]})
+                      {updates.length > 0 && ` • ${updates.length} open trades now closed`}
+                      {conflicts.length > 0 && ` • ${conflicts.length} already in journal`}
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {statementWarnings.length > 0 && (
+                  <Alert className="border-terminal-amber/30 bg-terminal-amber/5 mt-3">
+                    <AlertTriangle className="h-4 w-4 text-terminal-amber" />
+                    <AlertDescription className="text-xs text-terminal-amber space-y-0.5">
+                      {statementWarnings.map(w => <div key={w}>{w}</div>)}
                     </AlertDescription>
                   </Alert>
                 )}
                 <div className="flex justify-end gap-2 mt-4 pt-3 border-t border-border/30">
-                  <Button variant="outline" onClick={() => { setCurrentStep('upload'); setCsvData([]); setFullCsvData([]); setParsedTrades([]); }}>Back</Button>
+                  <Button variant="outline" onClick={() => { setCurrentStep('upload'); setCsvData([]); setFullCsvData([]); setParsedTrades([]); setStatementTrades([]); setStatementWarnings([]); }}>Back</Button>
                   <Button onClick={handleNextStep} size="lg" className="bg-terminal-green text-black font-bold px-6">
                     {detectedFormat !== 'generic' ? `🚀 Import ${parsedTrades.length} Trades` : 'Continue to Mapping →'}
                   </Button>
@@ -534,7 +602,7 @@ export default function CSVImportDialog({ open, onOpenChange, onImport, existing
                   {detectedFormat !== 'generic' && (
                     <Alert className="w-auto border-terminal-green/30 bg-terminal-green/5">
                       <AlertDescription className="text-xs text-terminal-green">
-                        ✓ Auto-detected {detectedFormat === 'able_v3' ? 'ABLE v3.1' : 'Thai OANDA'} format — {parsedTrades.length} trades found
+                        ✓ Auto-detected {FORMAT_LABELS[detectedFormat]} format — {parsedTrades.length} trades found
                       </AlertDescription>
                     </Alert>
                   )}
@@ -579,6 +647,7 @@ export default function CSVImportDialog({ open, onOpenChange, onImport, existing
                         <div className="flex justify-between"><span>Total Rows:</span><span>{fullCsvData.length}</span></div>
                         <div className="flex justify-between"><span>Valid Trades:</span><span className="text-terminal-green">{parsedTrades.length}</span></div>
                         <div className="flex justify-between"><span>Conflicts:</span><span className="text-terminal-amber">{conflicts.length}</span></div>
+                        {updates.length > 0 && <div className="flex justify-between"><span>Will Update:</span><span className="text-terminal-cyan">{updates.length}</span></div>}
                         <div className="flex justify-between"><span>Will Import:</span><span className="text-terminal-green font-bold">{parsedTrades.length}</span></div>
                       </div>
                     </CardContent>
@@ -610,10 +679,10 @@ export default function CSVImportDialog({ open, onOpenChange, onImport, existing
                 <div className="flex justify-between">
                   <Button variant="outline" onClick={handleBackStep}>Back to Mapping</Button>
                   <div className="flex gap-2">
-                    <Button onClick={() => handleImport('replace')} variant="destructive" disabled={parsedTrades.length === 0}>
+                    <Button onClick={() => handleImport('replace')} variant="destructive" disabled={parsedTrades.length + updates.length === 0}>
                       Replace All ({parsedTrades.length} trades)
                     </Button>
-                    <Button onClick={() => handleImport('append')} className="bg-terminal-green text-black" disabled={parsedTrades.length === 0}>
+                    <Button onClick={() => handleImport('append')} className="bg-terminal-green text-black" disabled={parsedTrades.length + updates.length === 0}>
                       Add to Existing ({parsedTrades.length} trades)
                     </Button>
                   </div>
@@ -5,6 +5,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
 import { RefreshCw, TrendingUp, TrendingDown, Settings } from 'lucide-react';
+import LinkGroupPicker from './LinkGroupPicker';
+import { useSymbolLink } from '@/hooks/useSymbolLink';
+import { toBinancePair } from '@/services/SymbolLinkService';
 import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, Cell } from 'recharts';
 
 interface CVDData {
@@ -16,6 +19,8 @@ interface CVDData {
   price: number;
 }
 
+const SYMBOL_OPTIONS = ['BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'SOLUSDT'];
+
 interface ExchangeConfig {
   enabled: boolean;
   symbol: string;
@@ -29,6 +34,17 @@ const CVDChart = () => {
   const [timeframe, setTimeframe] = useState('1h');
   const [cumulative, setCumulative] = useState(true);
   const [showSettings, setShowSettings] = useState(false);
+
+  // CVD comes from Binance klines, so only crypto symbols of the link group are followed
+  const symbolLink = useSymbolLink(linked => {
+    const pair = toBinancePair(linked.ticker);
+    if (pair) setSymbol(pair);
+  });
+
+  const handleSymbolChange = (value: string) => {
+    setSymbol(value);
+    symbolLink.publish(`BINANCE:${value}`);
+  };
   
   const [exchanges, setExchanges] = useState<ExchangeConfig[]>([
     { enabled: true, symbol: 'BINANCE:BTCUSDT', weight: 40 },
@@ -170,15 +186,16 @@ const CVDChart = () => {
           </div>
           
           <div className="flex items-center gap-1">
-            <Select value={symbol} onValueChange={setSymbol}>
+            <LinkGroupPicker value={symbolLink.group} onChange={symbolLink.setGroup} />
+
+            <Select value={symbol} onValueChange={handleSymbolChange}>
               <SelectTrigger className="w-24 h-7 border-accent/30 text-accent text-[10px]">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="BTCUSDT">BTC/USDT</SelectItem>
-                <SelectItem value="ETHUSDT">ETH/USDT</SelectItem>
-                <SelectItem value="BNBUSDT">BNB/USDT</SelectItem>
-                <SelectItem value="SOLUSDT">SOL/USDT</SelectItem>
+                {(SYMBOL_OPTIONS.includes(symbol) ? SYMBOL_OPTIONS : [...SYMBOL_OPTIONS, symbol]).map(option => (
+                  <SelectItem key={option} value={option}>{option.replace(/USDT$/, '/USDT')}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
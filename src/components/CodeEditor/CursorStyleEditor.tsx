@@ -536,7 +536,9 @@ def show_plot():
       
       if (criticalErrors.length > 0) {
         criticalErrors.forEach(err => {
-          addTerminalOutput('error', `❌ Line ${err.line}: ${err.message}`);
+          const location = err.column ? `${err.line}:${err.column}` : `${err.line}`;
+          addTerminalOutput('error', `❌ Line ${location}: ${err.message}`);
+          if (err.suggestion) addTerminalOutput('info', `💡 ${err.suggestion}`);
         });
         return;
       }
@@ -11,6 +11,13 @@ interface FloatingWindowProps {
   isMaximized?: boolean;
   initialPosition?: { x: number; y: number };
   initialSize?: { width: number; height: number };
+  /** Called once a drag or resize ends, with the window's new geometry */
+  onGeometryChange?: (geometry: WindowGeometry) => void;
+}
+
+export interface WindowGeometry {
+  position: { x: number; y: number };
+  size: { width: number; height: number };
 }
 
 const FloatingWindow = ({
@@ -22,7 +29,8 @@ const FloatingWindow = ({
   onMaximize,
   isMaximized = false,
   initialPosition = { x: 50, y: 50 },
-  initialSize = { width: 500, height: 400 }
+  initialSize = { width: 500, height: 400 },
+  onGeometryChange
 }: FloatingWindowProps) => {
   const [position, setPosition] = useState(initialPosition);
   const [size, setSize] = useState(initialSize);
@@ -31,19 +39,25 @@ const FloatingWindow = ({
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [resizeStart, setResizeStart] = useState({ x: 0, y: 0, width: 0, height: 0 });
   const windowRef = useRef<HTMLDivElement>(null);
+  const geometryRef = useRef<WindowGeometry>({ position, size });
+  const onGeometryChangeRef = useRef(onGeometryChange);
+  onGeometryChangeRef.current = onGeometryChange;
 
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
       if (isDragging) {
-        setPosition({
+        const newPosition = {
           x: e.clientX - dragStart.x,
           y: e.clientY - dragStart.y
-        });
+        };
+        geometryRef.current = { ...geometryRef.current, position: newPosition };
+        setPosition(newPosition);
       }
       
       if (isResizing) {
         const newWidth = Math.max(300, resizeStart.width + (e.clientX - resizeStart.x));
         const newHeight = Math.max(200, resizeStart.height + (e.clientY - resizeStart.y));
+        geometryRef.current = { ...geometryRef.current, size: { width: newWidth, height: newHeight } };
         setSize({ width: newWidth, height: newHeight });
       }
     };
@@ -51,6 +65,7 @@ const FloatingWindow = ({
     const handleMouseUp = () => {
       setIsDragging(false);
       setIsResizing(false);
+      onGeometryChangeRef.current?.(geometryRef.current);
     };
 
     if (isDragging || isResizing) {
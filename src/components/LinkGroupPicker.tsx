@@ -0,0 +1,54 @@
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Link2, Link2Off } from 'lucide-react';
+import { LINK_GROUPS, symbolLinkService, type LinkGroupId } from '@/services/SymbolLinkService';
+
+interface LinkGroupPickerProps {
+  value: LinkGroupId | null;
+  onChange: (group: LinkGroupId | null) => void;
+  className?: string;
+}
+
+/** Colored link button for panel headers; pick a group or unlink */
+const LinkGroupPicker = ({ value, onChange, className = '' }: LinkGroupPickerProps) => {
+  const active = LINK_GROUPS.find(g => g.id === value);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          title={active ? `Linked: ${active.label}` : 'Link symbol to other panels'}
+          className={`h-6 w-6 inline-flex items-center justify-center rounded hover:bg-muted/50 shrink-0 ${className}`}
+        >
+          <Link2 className="w-3.5 h-3.5" style={{ color: active?.color }} />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-44">
+        <DropdownMenuLabel className="text-xs">Link group</DropdownMenuLabel>
+        {LINK_GROUPS.map(group => (
+          <DropdownMenuItem key={group.id} onClick={() => onChange(group.id)} className="text-xs">
+            <span className="w-3 h-3 rounded-full mr-2 shrink-0" style={{ backgroundColor: group.color }} />
+            <span className="flex-1">{group.label}</span>
+            <span className="text-[10px] text-muted-foreground font-mono">
+              {symbolLinkService.getSymbol(group.id)?.ticker.split(':').pop() ?? ''}
+            </span>
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => onChange(null)} disabled={!value} className="text-xs">
+          <Link2Off className="w-3 h-3 mr-2" />
+          Unlink
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default LinkGroupPicker;
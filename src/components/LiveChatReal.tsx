@@ -5,12 +5,13 @@ import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { toast } from '@/hooks/use-toast';
-import { User, Friendship, ChatRoom, Message, Webhook as WebhookType, FriendNickname } from '@/types/chat';
+import { User, Friendship, ChatRoom, Message, Webhook as WebhookType, WebhookAuthMode, FriendNickname } from '@/types/chat';
 import { UserPlus, Users, Settings, Paperclip, Image as ImageIcon, Send, X, Copy, Check, Edit2, Video, Webhook, Trash2, Share2, Loader2, RefreshCw, Volume2, VolumeX, PlugZap, Forward, Zap } from 'lucide-react';
 import { useCurrentTheme } from '@/hooks/useCurrentTheme';
 import { getThemeColors } from '@/utils/themeColors';
 import { VideoCall } from './VideoCall';
 import { APIBridgePanel } from './chat/APIBridgePanel';
+import { WebhookHealthMonitor } from './WebhookHealthMonitor';
 import { useAuth } from '@/contexts/AuthContext';
 
 // Notification sounds - 5 options using Web Audio API
@@ -1470,6 +1471,35 @@ const LiveChatReal = () => {
     setTimeout(() => setCopiedWebhook(null), 2000);
   };
 
+  const handleWebhookAuthMode = async (webhook: WebhookType, authMode: WebhookAuthMode) => {
+    const { error } = await supabase
+      .from('webhooks')
+      .update({ auth_mode: authMode })
+      .eq('id', webhook.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    setWebhooks(prev => prev.map(w => w.id === webhook.id ? { ...w, auth_mode: authMode } : w));
+    toast({ title: '🔐 Webhook security updated', description: `Mode: ${authMode}` });
+  };
+
+  // Opt-in: drop repeats of an identical body within the window (explicit idempotency keys always apply)
+  const handleWebhookBodyDedupe = async (webhook: WebhookType, enabled: boolean) => {
+    const windowSeconds = enabled ? 600 : 0;
+    const { error } = await supabase
+      .from('webhooks')
+      .update({ idempotency_window_seconds: windowSeconds })
+      .eq('id', webhook.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    setWebhooks(prev => prev.map(w => w.id === webhook.id ? { ...w, idempotency_window_seconds: windowSeconds } : w));
+  };
+
   // Create webhook room
   const handleCreateWebhookRoom = async () => {
     if (!currentUser || !webhookRoomName.trim()) return;
@@ -2581,6 +2611,45 @@ const LiveChatReal = () => {
                         {copiedWebhook === webhook.id + '-secret' ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
                       </Button>
                     </div>
+                    <div className="text-xs text-terminal-green/60 mt-2 mb-1">Security:</div>
+                    <div className="flex gap-1">
+                      {(['none', 'secret', 'hmac'] as const).map(mode => (
+                        <Button
+                          key={mode}
+                          size="sm"
+                          variant={(webhook.auth_mode || 'none') === mode ? 'default' : 'outline'}
+                          className="h-6 px-2 text-[10px] border-terminal-green/30"
+                          onClick={() => handleWebhookAuthMode(webhook, mode)}
+                        >
+                          {mode === 'none' ? 'Open' : mode === 'secret' ? 'Shared secret' : 'HMAC signed'}
+                        </Button>
+                      ))}
+                    </div>
+                    <div className="text-[10px] text-terminal-green/50 mt-1">
+                      {webhook.auth_mode === 'hmac'
+                        ? 'X-Signature = HMAC-SHA256(secret, "<X-Timestamp>.<body>"); stale timestamps and reused nonces are rejected'
+                        : webhook.auth_mode === 'secret'
+                          ? 'Add "secret": "<secret>" to the alert JSON, or ?secret= to the URL'
+                          : 'Unsigned alerts accepted'}
+                    </div>
+                    <div className="flex items-center gap-2 mt-2">
+                      <Button
+                        size="sm"
+                        variant={(webhook.idempotency_window_seconds ?? 0) > 0 ? 'default' : 'outline'}
+                        className="h-6 px-2 text-[10px] border-terminal-green/30"
+                        onClick={() => handleWebhookBodyDedupe(webhook, !((webhook.idempotency_window_seconds ?? 0) > 0))}
+                      >
+                        Drop identical alerts (10 min)
+                      </Button>
+                      <span className="text-[10px] text-terminal-green/50">
+                        Idempotency-Key / nonce senders are always de-duplicated
+                      </span>
+                    </div>
+                    {webhook.room_id && (
+                      <div className="mt-2">
+                        <WebhookHealthMonitor roomId={webhook.room_id} />
+                      </div>
+                    )}
                   </div>
                 ))
               )}
@@ -2655,6 +2724,8 @@ const LiveChatReal = () => {
   "action": "{{strategy.order.action}}",
   "price": "{{close}}",
   "time": "{{time}}",
+  "timestamp": "{{timenow}}",
+  "secret": "${currentWebhookSecret}",
   "message": "Your custom message"
 }`}
               </pre>
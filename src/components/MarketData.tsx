@@ -4,11 +4,16 @@ import TabManager from './TabManager';
 import TabSelector from './TabSelector';
 import ThemeSwitcher from './ThemeSwitcher';
 import DesignSwitcher from './DesignSwitcher';
+import WorkspaceMenu from './WorkspaceMenu';
+import TerminalCommandBar from './TerminalCommandBar';
+import type { WindowGeometry } from './FloatingWindow';
 import { Button } from '@/components/ui/button';
 import { Expand, Minimize, LogOut, TrendingUp, Brain, Wrench, MessageSquare, Gamepad2, Globe, Search } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useResponsiveContext } from '@/contexts/ResponsiveContext';
 import { usePanelCommander } from '@/contexts/PanelCommanderContext';
+import { PanelSettingsProvider, type PanelSettings } from '@/contexts/PanelSettingsContext';
+import { workspaceService, type Workspace, type WorkspacePanel } from '@/services/WorkspaceService';
 import { MobileLayout } from './mobile/MobileLayout';
 import { TabletLayout } from './tablet/TabletLayout';
 import StockdioCharts from './StockdioCharts';
@@ -57,9 +62,7 @@ import ScreenerMain from './Screeners/ScreenerMain';
 import { Network } from 'lucide-react';
 import PolymarketHub from './PolymarketHub';
 
-interface PanelData {
-  id: string;
-  title: string;
+interface PanelData extends WorkspacePanel {
   component: React.ReactNode;
 }
 
@@ -73,19 +76,85 @@ interface TabOption {
   tags?: string[];
 }
 
+const AUTOSAVE_DELAY = 500;
 
+/** Next free `<componentId>-<n>` suffix for a restored layout */
+const nextPanelIdAfter = (panels: WorkspacePanel[]) =>
+  panels.reduce((max, p) => Math.max(max, parseInt(p.id.slice(p.id.lastIndexOf('-') + 1), 10) || 0), 0) + 1;
 
 const MarketData = () => {
   const navigate = useNavigate();
-  const { user, signOut } = useAuth();
+  const { user, loading: authLoading, signOut } = useAuth();
+  const userId = user?.id ?? null;
   const { isMobile, isTablet, isDesktop } = useResponsiveContext();
   const { registerPanelOpener, registerPanelCloser } = usePanelCommander();
   const [currentTime, setCurrentTime] = useState(new Date());
-  const [panels, setPanels] = useState<PanelData[]>([]);
+  const [panels, setPanels] = useState<WorkspacePanel[]>([]);
   const [showTabSelector, setShowTabSelector] = useState(false);
   const [nextPanelId, setNextPanelId] = useState(1);
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const [panelIdCounter, setPanelIdCounter] = useState(1);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  // Bumped on every workspace load so floating windows pick up the saved geometry
+  const [layoutVersion, setLayoutVersion] = useState(0);
+
+  const applyWorkspace = useCallback((workspace: Workspace) => {
+    workspaceService.setActiveId(workspace.id);
+    setActiveWorkspaceId(workspace.id);
+    setPanels(workspace.panels);
+    setNextPanelId(nextPanelIdAfter(workspace.panels));
+    setLayoutVersion(v => v + 1);
+  }, []);
+
+  // Each account, and signed-out use, has its own workspaces. Restore the last active one,
+  // pulling a signed-in user's desks saved from other devices first; a default desk on first run
+  useEffect(() => {
+    if (authLoading) return;
+    let cancelled = false;
+    workspaceService.setUser(userId);
+    const restore = () => {
+      if (cancelled) return;
+      const activeId = workspaceService.getActiveId();
+      const workspace = (activeId && workspaceService.get(activeId))
+        || workspaceService.list()[0]
+        || workspaceService.create('Default');
+      applyWorkspace(workspace);
+    };
+    if (userId) void workspaceService.syncFromCloud().then(restore);
+    else restore();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, authLoading, applyWorkspace]);
+
+  // Autosave the layout into the active workspace
+  useEffect(() => {
+    if (!activeWorkspaceId) return;
+    const timer = setTimeout(() => workspaceService.savePanels(activeWorkspaceId, panels), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [panels, activeWorkspaceId]);
+
+  const handleWorkspaceSelect = (id: string) => {
+    const workspace = workspaceService.get(id);
+    if (!workspace) return;
+    // Flush pending edits to the workspace being left
+    if (activeWorkspaceId) workspaceService.savePanels(activeWorkspaceId, panels);
+    applyWorkspace(workspace);
+  };
+
+  const handleWorkspaceNew = (name: string) => {
+    if (activeWorkspaceId) workspaceService.savePanels(activeWorkspaceId, panels);
+    applyWorkspace(workspaceService.create(name));
+  };
+
+  const handleWorkspaceSaveAs = (name: string) => {
+    applyWorkspace(workspaceService.create(name, structuredClone(panels)));
+  };
+
+  const handleWorkspaceDelete = (id: string) => {
+    workspaceService.remove(id);
+    if (id !== activeWorkspaceId) return;
+    applyWorkspace(workspaceService.list()[0] || workspaceService.create('Default'));
+  };
 
 
   useEffect(() => {
@@ -125,8 +194,8 @@ const MarketData = () => {
   const handlePanelMaximize = (id: string) => {
     const newPanels = panels.map(p => ({
       ...p,
-      isMaximized: p.id === id,
-      isMinimized: false
+      isMaximized: p.id === id ? !p.isMaximized : false,
+      isMinimized: p.id === id ? false : p.isMinimized
     }));
     setPanels(newPanels);
   };
@@ -146,9 +215,22 @@ const MarketData = () => {
   };
 
   const handlePanelReorder = (newPanels: PanelData[]) => {
-    setPanels(newPanels);
+    setPanels(newPanels.map(({ component: _component, ...panel }) => panel));
   };
 
+  const handlePanelGeometryChange = (id: string, { position, size }: WindowGeometry) => {
+    setPanels(prev => prev.map(p => (p.id === id ? { ...p, position, size } : p)));
+  };
+
+  // Settings a panel reports through usePanelSettings (chart symbol, timeframe, ...)
+  const handlePanelSettingsChange = useCallback((id: string, patch: PanelSettings) => {
+    setPanels(prev => prev.map(p => {
+      if (p.id !== id) return p;
+      const settings = { ...p.settings, ...patch };
+      return JSON.stringify(settings) === JSON.stringify(p.settings) ? p : { ...p, settings };
+    }));
+  }, []);
+
   const availableComponents: TabOption[] = [
     // Trading Tools
     { 
@@ -547,30 +629,31 @@ const MarketData = () => {
   };
 
   const handleTabSelect = (selectedComponent: TabOption) => {
-    const newPanel: PanelData = {
+    const newPanel: WorkspacePanel = {
       id: `${selectedComponent.id}-${nextPanelId}`,
-      title: selectedComponent.title,
-      component: selectedComponent.component
+      componentId: selectedComponent.id,
+      title: selectedComponent.title
     };
     setPanels([...panels, newPanel]);
     setNextPanelId(nextPanelId + 1);
     setShowTabSelector(false);
   };
 
-  // Open panel by ID (for AI control)
-  const openPanelById = useCallback((panelId: string) => {
+  // Open panel by ID (for AI control and the command bar, which preloads settings)
+  const openPanelById = useCallback((panelId: string, settings?: PanelSettings) => {
     const component = availableComponents.find(c => c.id === panelId);
     if (component) {
-      const newPanel: PanelData = {
-        id: `${component.id}-${panelIdCounter}`,
+      const newPanel: WorkspacePanel = {
+        id: `${component.id}-${nextPanelId}`,
+        componentId: component.id,
         title: component.title,
-        component: component.component
+        ...(settings && { settings })
       };
       setPanels(prev => [...prev, newPanel]);
-      setPanelIdCounter(prev => prev + 1);
+      setNextPanelId(prev => prev + 1);
       console.log(`✅ Panel opened via AI: ${component.title}`);
     }
-  }, [availableComponents, panelIdCounter]);
+  }, [availableComponents, nextPanelId]);
 
   // Close panel by ID pattern (for AI control)
   const closePanelById = useCallback((panelId: string) => {
@@ -584,6 +667,20 @@ const MarketData = () => {
     });
   }, []);
 
+  // Saved panels hold only component ids; build the live components here
+  const renderedPanels: PanelData[] = panels.map(panel => ({
+    ...panel,
+    component: (
+      <PanelSettingsProvider panelId={panel.id} settings={panel.settings} onChange={handlePanelSettingsChange}>
+        {availableComponents.find(c => c.id === panel.componentId)?.component ?? (
+          <div className="flex items-center justify-center h-full text-terminal-gray text-sm">
+            Unknown panel: {panel.componentId}
+          </div>
+        )}
+      </PanelSettingsProvider>
+    )
+  }));
+
   // Register panel controls with PanelCommander
   useEffect(() => {
     registerPanelOpener(openPanelById);
@@ -594,7 +691,7 @@ const MarketData = () => {
   if (isMobile) {
     return (
       <MobileLayout
-        panels={panels}
+        panels={renderedPanels}
         availableComponents={availableComponents}
         onPanelAdd={handleTabSelect}
         onPanelClose={handlePanelClose}
@@ -608,7 +705,7 @@ const MarketData = () => {
   if (isTablet) {
     return (
       <TabletLayout
-        panels={panels}
+        panels={renderedPanels}
         availableComponents={availableComponents}
         onPanelAdd={handleTabSelect}
         onPanelClose={handlePanelClose}
@@ -629,6 +726,7 @@ const MarketData = () => {
             <span className="text-lg sm:text-2xl font-bold text-terminal-green">ABLE TERMINAL</span>
             <span className="text-sm sm:text-base text-terminal-amber">PROFESSIONAL TRADING PLATFORM</span>
           </div>
+          <TerminalCommandBar className="flex-1 max-w-xl mx-4" />
           <div className="flex items-center gap-2">
             <Button
               variant="ghost"
@@ -638,6 +736,13 @@ const MarketData = () => {
             >
               {isFullscreen ? <Minimize className="h-4 w-4" /> : <Expand className="h-4 w-4" />}
             </Button>
+            <WorkspaceMenu
+              activeId={activeWorkspaceId}
+              onSelect={handleWorkspaceSelect}
+              onNew={handleWorkspaceNew}
+              onSaveAs={handleWorkspaceSaveAs}
+              onDelete={handleWorkspaceDelete}
+            />
             <ThemeSwitcher />
             <div className="text-sm sm:text-base text-terminal-green font-mono">
               {currentTime.toLocaleTimeString()} EST | LIVE
@@ -656,13 +761,15 @@ const MarketData = () => {
       </div>
 
       <TabManager
-        panels={panels}
+        key={layoutVersion}
+        panels={renderedPanels}
         onTabAdd={handleTabAdd}
         onPanelClose={handlePanelClose}
         onPanelMaximize={handlePanelMaximize}
         onPanelMinimize={handlePanelMinimize}
         onPanelRestore={handlePanelRestore}
         onPanelReorder={handlePanelReorder}
+        onPanelGeometryChange={handlePanelGeometryChange}
       />
 
       {showTabSelector && (
@@ -1,58 +1,117 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { BarChart3 } from 'lucide-react';
+import LinkGroupPicker from './LinkGroupPicker';
+import { useSymbolLink } from '@/hooks/useSymbolLink';
+import { usePanelSettings } from '@/hooks/usePanelSettings';
+import { bareTicker, toBinancePair } from '@/services/SymbolLinkService';
+
+interface DepthLevel {
+  price: number;
+  size: number;
+  total: number;
+}
+
+const LEVELS = 5;
+const REFRESH_MS = 5000;
+
+const withTotals = (levels: [string, string][]): DepthLevel[] => {
+  let total = 0;
+  return levels.slice(0, LEVELS).map(([price, size]) => {
+    total += parseFloat(size);
+    return { price: parseFloat(price), size: parseFloat(size), total };
+  });
+};
+
+const formatSize = (value: number) => (value >= 100 ? value.toFixed(0) : value.toFixed(3));
 
 const MarketDepth = () => {
-  const bids = [
-    { price: 5829.25, size: 125, total: 125 },
-    { price: 5829.00, size: 89, total: 214 },
-    { price: 5828.75, size: 156, total: 370 },
-    { price: 5828.50, size: 234, total: 604 },
-    { price: 5828.25, size: 187, total: 791 },
-  ];
-
-  const asks = [
-    { price: 5829.50, size: 98, total: 98 },
-    { price: 5829.75, size: 145, total: 243 },
-    { price: 5830.00, size: 203, total: 446 },
-    { price: 5830.25, size: 167, total: 613 },
-    { price: 5830.50, size: 289, total: 902 },
-  ];
+  const [settings, updateSettings] = usePanelSettings<{ ticker: string }>();
+  const [ticker, setTicker] = useState(settings.ticker || 'BINANCE:BTCUSDT');
+  const [bids, setBids] = useState<DepthLevel[]>([]);
+  const [asks, setAsks] = useState<DepthLevel[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const symbolLink = useSymbolLink(linked => setTicker(linked.ticker));
+  const pair = toBinancePair(ticker);
+
+  useEffect(() => {
+    updateSettings({ ticker });
+  }, [ticker, updateSettings]);
+
+  useEffect(() => {
+    setBids([]);
+    setAsks([]);
+    setError(null);
+    if (!pair) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const response = await fetch(`https://api.binance.com/api/v3/depth?symbol=${pair}&limit=${LEVELS}`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const book = await response.json();
+        if (cancelled) return;
+        setBids(withTotals(book.bids));
+        setAsks(withTotals(book.asks));
+        setError(null);
+      } catch (e) {
+        console.error('Error fetching market depth:', e);
+        if (!cancelled) setError('Order book unavailable');
+      }
+    };
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [pair]);
 
   return (
     <div className="terminal-panel">
       <div className="panel-header flex items-center gap-2">
         <BarChart3 className="h-3 w-3" />
-        SPX MARKET DEPTH
+        <span className="flex-1">{bareTicker(ticker)} MARKET DEPTH</span>
+        <LinkGroupPicker value={symbolLink.group} onChange={symbolLink.setGroup} />
       </div>
       <div className="panel-content">
-        <div className="grid grid-cols-3 gap-2 text-xs mb-2">
-          <div className="text-terminal-amber">PRICE</div>
-          <div className="text-terminal-amber text-center">SIZE</div>
-          <div className="text-terminal-amber text-right">TOTAL</div>
-        </div>
-        
-        {/* Asks */}
-        {asks.reverse().map((ask, index) => (
-          <div key={index} className="grid grid-cols-3 gap-2 text-xs py-1">
-            <div className="text-terminal-red">{ask.price.toFixed(2)}</div>
-            <div className="text-terminal-white text-center">{ask.size}</div>
-            <div className="text-terminal-gray text-right">{ask.total}</div>
-          </div>
-        ))}
-        
-        <div className="border-t border-terminal-amber my-2"></div>
-        
-        {/* Bids */}
-        {bids.map((bid, index) => (
-          <div key={index} className="grid grid-cols-3 gap-2 text-xs py-1">
-            <div className="text-terminal-green">{bid.price.toFixed(2)}</div>
-            <div className="text-terminal-white text-center">{bid.size}</div>
-            <div className="text-terminal-gray text-right">{bid.total}</div>
+        {!pair ? (
+          <div className="text-xs text-terminal-gray py-4 text-center">
+            No order book feed for {bareTicker(ticker)} (crypto pairs only)
           </div>
-        ))}
+        ) : error ? (
+          <div className="text-xs text-terminal-red py-4 text-center">{error}</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-2 text-xs mb-2">
+              <div className="text-terminal-amber">PRICE</div>
+              <div className="text-terminal-amber text-center">SIZE</div>
+              <div className="text-terminal-amber text-right">TOTAL</div>
+            </div>
+
+            {/* Asks */}
+            {[...asks].reverse().map((ask, index) => (
+              <div key={index} className="grid grid-cols-3 gap-2 text-xs py-1">
+                <div className="text-terminal-red">{ask.price.toFixed(2)}</div>
+                <div className="text-terminal-white text-center">{formatSize(ask.size)}</div>
+                <div className="text-terminal-gray text-right">{formatSize(ask.total)}</div>
+              </div>
+            ))}
+
+            <div className="border-t border-terminal-amber my-2"></div>
+
+            {/* Bids */}
+            {bids.map((bid, index) => (
+              <div key={index} className="grid grid-cols-3 gap-2 text-xs py-1">
+                <div className="text-terminal-green">{bid.price.toFixed(2)}</div>
+                <div className="text-terminal-white text-center">{formatSize(bid.size)}</div>
+                <div className="text-terminal-gray text-right">{formatSize(bid.total)}</div>
+              </div>
+            ))}
+          </>
+        )}
       </div>
     </div>
   );
 };
 
-export default MarketDepth;
\ No newline at end of file
+export default MarketDepth;
@@ -33,7 +33,6 @@ import {
 import MonteCarloCSVImport from './MonteCarloCSVImport';
 import {
   AdvancedSimConfig,
-  AdvancedSimResult,
   AdvancedSimStats,
   SimScenario,
   MarketRegime,
@@ -43,8 +42,11 @@ import {
 import {
   runMonteCarloSimulations,
   calculateAdvancedStatistics,
-  calculateOptimalF
+  calculateOptimalF,
+  summarizeSamples
 } from '@/services/monteCarloService';
+import { randomSeed } from '@/utils/random';
+import { useMonteCarloStore } from '@/stores/MonteCarloStore';
 
 // ============================================
 // PRESETS
@@ -77,6 +79,12 @@ const PRESETS: Record<string, { name: string; icon: string; config: Partial<Adva
   }
 };
 
+const SAMPLING_LABELS: Record<AdvancedSimConfig['samplingMode'], string> = {
+  parametric: 'Standard',
+  bootstrap: 'Bootstrap',
+  blockBootstrap: 'Block Bootstrap'
+};
+
 const STORAGE_KEY_CONFIG = 'mc-config-v3';
 const STORAGE_KEY_SCENARIOS = 'mc-scenarios-v3';
 
@@ -94,7 +102,9 @@ const MonteCarloSimulator: React.FC = () => {
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [activeTab, setActiveTab] = useState('parameters');
   const [showCSVImport, setShowCSVImport] = useState(false);
-  const [dataSource, setDataSource] = useState<'manual' | 'csv'>('manual');
+  const [dataSource, setDataSource] = useState<'manual' | 'csv' | 'journal'>('manual');
+  const journalSource = useMonteCarloStore(state => state.journalSource);
+  const clearJournalSource = useMonteCarloStore(state => state.clearJournalSource);
   
   // Auto-save state
   const [isSaving, setIsSaving] = useState(false);
@@ -139,6 +149,24 @@ const MonteCarloSimulator: React.FC = () => {
     setLastSaved(new Date());
   }, []);
 
+  // Pick up trades sent from the Trading Journal
+  useEffect(() => {
+    if (!journalSource) return;
+    const summary = summarizeSamples(journalSource.pnls);
+    setConfig(prev => ({
+      ...prev,
+      samplingMode: prev.samplingMode === 'parametric' ? 'bootstrap' : prev.samplingMode,
+      bootstrapSource: journalSource,
+      winRate: Math.round(summary.winRate),
+      avgWin: +summary.avgWin.toFixed(2),
+      avgLoss: +summary.avgLoss.toFixed(2),
+      numTrades: journalSource.pnls.length
+    }));
+    setDataSource('journal');
+    clearJournalSource();
+    toast.success(`Loaded ${journalSource.pnls.length} trades from ${journalSource.label}`);
+  }, [journalSource, clearJournalSource]);
+
   // Auto-save scenarios whenever they change
   useEffect(() => {
     if (scenarios.length === 0 && !lastSaved) return;
@@ -182,16 +210,26 @@ const MonteCarloSimulator: React.FC = () => {
   // Run simulation
   const runSimulation = useCallback(async () => {
     if (isRunning) return;
+    if (config.samplingMode !== 'parametric' && !config.bootstrapSource) {
+      toast.error('Send trades from the Trading Journal to bootstrap from them');
+      return;
+    }
     setIsRunning(true);
     setProgress(0);
 
     const scenarioId = `scenario-${Date.now()}`;
     const colors = ['#22c55e', '#3b82f6', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#ec4899'];
+    // Record the seed actually used so the scenario can be replayed exactly
+    const runConfig: AdvancedSimConfig = { ...config, seed: config.seed ?? randomSeed() };
     const newScenario: SimScenario = {
       id: scenarioId,
       name: `Scenario ${scenarios.length + 1}`,
-      description: config.enableRegimes ? 'With Market Regimes' : 'Standard',
-      config: { ...config },
+      description: [
+        SAMPLING_LABELS[config.samplingMode],
+        config.enableRegimes ? 'With Market Regimes' : null,
+        `Seed ${runConfig.seed}`
+      ].filter(Boolean).join(' • '),
+      config: runConfig,
       results: null,
       stats: null,
       status: 'running',
@@ -205,14 +243,14 @@ const MonteCarloSimulator: React.FC = () => {
     setActiveTab('results');
 
     try {
-      const results = await runMonteCarloSimulations(config, (prog) => {
+      const results = await runMonteCarloSimulations(runConfig, (prog) => {
         setProgress(prog);
         setScenarios(prev => prev.map(s => 
           s.id === scenarioId ? { ...s, progress: prog } : s
         ));
       });
 
-      const stats = calculateAdvancedStatistics(results, config);
+      const stats = calculateAdvancedStatistics(results, runConfig);
 
       setScenarios(prev => prev.map(s => 
         s.id === scenarioId ? { ...s, results, stats, status: 'completed', progress: 100 } : s
@@ -259,7 +297,7 @@ const MonteCarloSimulator: React.FC = () => {
   const exportCSV = () => {
     if (!activeScenario?.results) return;
     const headers = ['Simulation', 'Final Capital', 'Return', 'Return %', 'Max DD %'];
-    const rows = activeScenario.results.map((r, i) => [
+    const rows = activeScenario.results.summaries.map((r, i) => [
       i + 1, r.finalCapital.toFixed(2), r.totalReturn.toFixed(2),
       r.returnPercent.toFixed(2), r.maxDrawdown.toFixed(2)
     ]);
@@ -317,25 +355,26 @@ const MonteCarloSimulator: React.FC = () => {
     return (wr * config.avgWin) - ((1 - wr) * config.avgLoss);
   }, [config.winRate, config.avgWin, config.avgLoss]);
 
-  // Sampled equity curves for chart
+  // Sampled equity curves for chart; the median line runs over every sampled path
   const equityCurves = useMemo(() => {
-    if (!activeScenario?.results) return [];
-    const sampleSize = Math.min(50, activeScenario.results.length);
+    const paths = activeScenario?.results?.samplePaths;
+    if (!paths || paths.length === 0) return [];
+    const sampleSize = Math.min(50, paths.length);
     const indices = Array.from({ length: sampleSize }, () => 
-      Math.floor(Math.random() * activeScenario.results!.length)
+      Math.floor(Math.random() * paths.length)
     );
     
-    const maxLen = Math.max(...activeScenario.results.map(r => r.equityCurve.length));
+    const maxLen = Math.max(...paths.map(r => r.equityCurve.length));
     const data: any[] = [];
     
     for (let i = 0; i < maxLen; i++) {
       const point: any = { trade: i };
       indices.forEach((idx, j) => {
-        const curve = activeScenario.results![idx].equityCurve;
+        const curve = paths[idx].equityCurve;
         point[`sim${j}`] = curve[i] || curve[curve.length - 1];
       });
       
-      const allValues = activeScenario.results!.map(r => 
+      const allValues = paths.map(r => 
         r.equityCurve[i] || r.equityCurve[r.equityCurve.length - 1]
       ).sort((a, b) => a - b);
       point.median = allValues[Math.floor(allValues.length / 2)];
@@ -473,6 +512,9 @@ const MonteCarloSimulator: React.FC = () => {
                   {dataSource === 'csv' && (
                     <Badge variant="outline" className="text-[10px] border-primary/30">📊 CSV Data</Badge>
                   )}
+                  {dataSource === 'journal' && (
+                    <Badge variant="outline" className="text-[10px] border-primary/30">📔 Journal Trades</Badge>
+                  )}
                 </div>
                 <div className="grid grid-cols-2 gap-2">
                   <Select onValueChange={applyPreset}>
@@ -587,6 +629,94 @@ const MonteCarloSimulator: React.FC = () => {
                 </CardContent>
               </Card>
 
+              {/* Outcome Model */}
+              <Card className="border-terminal-amber/20 bg-gradient-to-br from-card to-card/50 overflow-hidden">
+                <CardHeader className="py-3 px-4 bg-terminal-amber/5 border-b border-terminal-amber/10">
+                  <CardTitle className="text-sm text-terminal-amber flex items-center gap-2 font-mono">
+                    <Activity className="w-4 h-4" />
+                    OUTCOME MODEL
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4 p-4">
+                  <Select
+                    value={config.samplingMode}
+                    onValueChange={v => setConfig(prev => ({ ...prev, samplingMode: v as AdvancedSimConfig['samplingMode'] }))}
+                  >
+                    <SelectTrigger className="h-9 bg-background/50 border-terminal-amber/20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card border-terminal-amber/20">
+                      <SelectItem value="parametric">Parametric (win rate / avg)</SelectItem>
+                      <SelectItem value="bootstrap">Bootstrap journal trades</SelectItem>
+                      <SelectItem value="blockBootstrap">Block bootstrap (keeps streaks)</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  {config.samplingMode !== 'parametric' && (
+                    <>
+                      <div className="p-2 rounded-lg bg-background/30 border border-terminal-amber/10 text-xs font-mono">
+                        {config.bootstrapSource ? (
+                          <span>{config.bootstrapSource.label} • {config.bootstrapSource.pnls.length} trades</span>
+                        ) : (
+                          <span className="text-muted-foreground">Use Monte Carlo in the Trading Journal to send trades here</span>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-2">
+                          <Label className="text-xs text-muted-foreground">Resample</Label>
+                          <Select
+                            value={config.bootstrapUnit}
+                            onValueChange={v => setConfig(prev => ({ ...prev, bootstrapUnit: v as AdvancedSimConfig['bootstrapUnit'] }))}
+                          >
+                            <SelectTrigger className="h-9 bg-background/50 border-terminal-amber/20">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-card border-terminal-amber/20">
+                              <SelectItem value="r">R-multiples</SelectItem>
+                              <SelectItem value="pnl">$ P&L</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        {config.samplingMode === 'blockBootstrap' && (
+                          <div className="space-y-2">
+                            <Label className="text-xs text-muted-foreground">Block Size</Label>
+                            <Input
+                              type="number"
+                              min={1}
+                              value={config.blockSize}
+                              onChange={e => setConfig(prev => ({ ...prev, blockSize: Math.max(1, +e.target.value) }))}
+                              className="h-9 bg-background/50 border-terminal-amber/20 font-mono"
+                            />
+                          </div>
+                        )}
+                      </div>
+                    </>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label className="text-xs text-muted-foreground">Random Seed</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        value={config.seed ?? ''}
+                        placeholder="New seed every run"
+                        onChange={e => setConfig(prev => ({ ...prev, seed: e.target.value === '' ? null : Math.abs(Math.floor(+e.target.value)) >>> 0 }))}
+                        className="h-9 bg-background/50 border-terminal-amber/20 font-mono"
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Roll a seed"
+                        onClick={() => setConfig(prev => ({ ...prev, seed: randomSeed() }))}
+                        className="h-9 w-9 p-0 border-terminal-amber/20"
+                      >
+                        <Dice6 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
               {/* Account Setup */}
               <Card className="border-terminal-cyan/20 bg-gradient-to-br from-card to-card/50 overflow-hidden">
                 <CardHeader className="py-3 px-4 bg-terminal-cyan/5 border-b border-terminal-cyan/10">
@@ -664,6 +794,7 @@ const MonteCarloSimulator: React.FC = () => {
                         <SelectItem value="5000">5,000 runs</SelectItem>
                         <SelectItem value="10000">10,000 runs</SelectItem>
                         <SelectItem value="50000">50,000 runs</SelectItem>
+                        <SelectItem value="100000">100,000 runs</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -824,6 +955,17 @@ const MonteCarloSimulator: React.FC = () => {
                           {s.status === 'running' && (
                             <span className="text-xs text-terminal-amber font-mono animate-pulse">{s.progress.toFixed(0)}%</span>
                           )}
+                          {s.status === 'completed' && typeof s.config.seed === 'number' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title={`Load settings and seed ${s.config.seed} to replay`}
+                              className="h-6 w-6 p-0 hover:bg-primary/10"
+                              onClick={(e) => { e.stopPropagation(); setConfig({ ...s.config }); toast.success(`Seed ${s.config.seed} loaded`); }}
+                            >
+                              <RotateCcw className="w-3 h-3" />
+                            </Button>
+                          )}
                           {s.status === 'completed' && s.stats && (
                             <span className={`text-xs font-mono font-bold ${s.stats.meanReturn >= 0 ? 'text-primary' : 'text-destructive'}`}>
                               {s.stats.meanReturn >= 0 ? '+' : ''}{(s.stats.meanReturn / s.config.startingCapital * 100).toFixed(1)}%
@@ -9,6 +9,7 @@ import {
   LineChart, Line, ComposedChart, Area,
 } from 'recharts';
 import { supabase } from '@/integrations/supabase/client';
+import { bareTicker, toBinancePair, type LinkedSymbol } from '@/services/SymbolLinkService';
 // FinancialStatementsView is defined inline below
 
 // ─── Types ────────────────────────────────────────────────────────────────────
@@ -103,6 +104,8 @@ const getExchangeFlag = (exchange: string) => {
 
 type StatementTab = 'overview' | 'income' | 'balance' | 'cashflow' | 'ratios' | 'revenue';
 
+const STATEMENT_TABS: StatementTab[] = ['overview', 'income', 'balance', 'cashflow', 'ratios', 'revenue'];
+
 const PIE_COLORS = ['#d4a843', '#4ade80', '#38bdf8', '#f87171', '#a78bfa'];
 
 const CustomTooltip = ({ active, payload, label }: any) => {
@@ -148,8 +151,12 @@ const MetricRow = ({ label, value, format = 'number' }: { label: string; value:
   );
 };
 
-const FinancialStatementsView = ({ financials, symbol }: { financials: Financials; symbol: SymbolSuggestion }) => {
-  const [tab, setTab] = useState<StatementTab>('overview');
+const FinancialStatementsView = ({ financials, symbol, initialTab = 'overview' }: {
+  financials: Financials;
+  symbol: SymbolSuggestion;
+  initialTab?: StatementTab;
+}) => {
+  const [tab, setTab] = useState<StatementTab>(initialTab);
 
   const chartData = useMemo(() => {
     if (!financials) return [];
@@ -668,7 +675,17 @@ const FinancialStatementsView = ({ financials, symbol }: { financials: Financial
 
 // ─── Main Component ──────────────────────────────────────────────────────────
 
-const ScreenerFilings = () => {
+interface ScreenerFilingsProps {
+  /** Symbol of the screener's link group; followed for stocks */
+  linkedSymbol?: LinkedSymbol | null;
+  /** A symbol picked from the search box, as 'EXCHANGE:SYMBOL' */
+  onSymbolSelect?: (ticker: string, name: string) => void;
+  /** View a linked symbol opens when none is open yet (command bar DES / FA / CF) */
+  defaultView?: 'statements' | 'filings';
+  defaultStatementTab?: string;
+}
+
+const ScreenerFilings = ({ linkedSymbol, onSymbolSelect, defaultView, defaultStatementTab }: ScreenerFilingsProps = {}) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [suggestions, setSuggestions] = useState<SymbolSuggestion[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -686,6 +703,13 @@ const ScreenerFilings = () => {
   const [loadingData, setLoadingData] = useState(false);
   const [expandedYears, setExpandedYears] = useState<Set<number>>(new Set());
   const [expandedFiling, setExpandedFiling] = useState<string | null>(null);
+  // View to reopen once a linked symbol has been selected
+  const followModeRef = useRef<ViewMode | null>(null);
+  // Read by effects that should not re-run when only the view changes
+  const viewModeRef = useRef(viewMode);
+  viewModeRef.current = viewMode;
+  const defaultViewRef = useRef(defaultView);
+  defaultViewRef.current = defaultView;
 
   // ─── Symbol Search ──────────────────────────────────────────────────────
 
@@ -739,6 +763,51 @@ const ScreenerFilings = () => {
     setStatementSeries(null);
   }, []);
 
+  const handlePickSuggestion = (sym: SymbolSuggestion) => {
+    handleSelectSymbol(sym);
+    onSymbolSelect?.(`${sym.exchange}:${sym.symbol}`, sym.description);
+  };
+
+  // ─── Linked symbol → select it, keeping the open view ───────────────────
+
+  useEffect(() => {
+    if (!linkedSymbol || toBinancePair(linkedSymbol.ticker)) return;
+    const [exchange, symbol] = linkedSymbol.ticker.includes(':')
+      ? linkedSymbol.ticker.split(':')
+      : ['', bareTicker(linkedSymbol.ticker)];
+    let cancelled = false;
+
+    const select = (sym: SymbolSuggestion) => {
+      if (cancelled) return;
+      const current = viewModeRef.current;
+      followModeRef.current = current === 'choose' && defaultViewRef.current ? defaultViewRef.current : current;
+      handleSelectSymbol(sym);
+    };
+
+    if (exchange) {
+      select({
+        symbol: symbol.replace(/\.BK$/, ''),
+        exchange,
+        description: linkedSymbol.name || symbol,
+        type: 'stock',
+        country: '',
+        logo_id: '',
+      });
+    } else {
+      // Bare ticker (e.g. from the agent): look up its exchange first
+      supabase.functions
+        .invoke('tv-symbol-search', { body: { text: symbol, lang: 'en' } })
+        .then(({ data }) => {
+          const match = (data?.symbols as SymbolSuggestion[] | undefined)?.find(s => s.symbol.toUpperCase() === symbol);
+          if (match) select(match);
+        })
+        .catch(err => console.error('Symbol search error:', err));
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [linkedSymbol, handleSelectSymbol]);
+
   // ─── Load data based on mode ────────────────────────────────────────────
 
   const loadStatements = useCallback(async () => {
@@ -781,15 +850,24 @@ const ScreenerFilings = () => {
     }
   }, [selectedSymbol, filingType]);
 
-  const handleChooseMode = (mode: 'statements' | 'filings') => {
+  const handleChooseMode = useCallback((mode: 'statements' | 'filings') => {
     setViewMode(mode);
     if (mode === 'statements') loadStatements();
     else loadFilings();
-  };
+  }, [loadStatements, loadFilings]);
+
+  // A new filing type rebuilds loadFilings: reload an open filings view. A new symbol
+  // rebuilds it too, but selecting one resets the view to 'choose' first
+  useEffect(() => {
+    if (viewModeRef.current === 'filings') loadFilings();
+  }, [loadFilings]);
 
+  // The loaders are rebuilt for each selected symbol; reopen the followed view with them
   useEffect(() => {
-    if (viewMode === 'filings' && selectedSymbol) loadFilings();
-  }, [filingType]);
+    const mode = followModeRef.current;
+    followModeRef.current = null;
+    if (mode === 'statements' || mode === 'filings') handleChooseMode(mode);
+  }, [handleChooseMode]);
 
   const handleClear = () => {
     setSelectedSymbol(null);
@@ -815,7 +893,8 @@ const ScreenerFilings = () => {
   const toggleYear = (year: number) => {
     setExpandedYears(prev => {
       const next = new Set(prev);
-      next.has(year) ? next.delete(year) : next.add(year);
+      if (next.has(year)) next.delete(year);
+      else next.add(year);
       return next;
     });
   };
@@ -887,7 +966,7 @@ const ScreenerFilings = () => {
               {suggestions.map((sym, i) => (
                 <button
                   key={`${sym.exchange}-${sym.symbol}-${i}`}
-                  onClick={() => handleSelectSymbol(sym)}
+                  onClick={() => handlePickSuggestion(sym)}
                   className="w-full flex items-center gap-3 px-3 py-2.5 hover:bg-muted/40 text-left border-b border-border/30 last:border-b-0 transition-colors"
                 >
                   <div className="w-7 h-7 rounded-full bg-muted/50 flex items-center justify-center shrink-0 text-[10px]">
@@ -1021,7 +1100,11 @@ const ScreenerFilings = () => {
 
         {/* Financial Statements View */}
         {viewMode === 'statements' && !loadingData && selectedSymbol && financials && (
-          <FinancialStatementsView financials={financials} symbol={selectedSymbol} />
+          <FinancialStatementsView
+            financials={financials}
+            symbol={selectedSymbol}
+            initialTab={STATEMENT_TABS.includes(defaultStatementTab as StatementTab) ? defaultStatementTab as StatementTab : undefined}
+          />
         )}
         {viewMode === 'statements' && !loadingData && selectedSymbol && !financials && (
           <div className="p-8 text-center text-muted-foreground text-[11px] font-mono">ไม่มีข้อมูลงบการเงิน</div>
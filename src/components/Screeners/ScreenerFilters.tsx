@@ -5,7 +5,7 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
-import { X, Plus, Search, Trash2, ChevronDown, ChevronRight, ArrowUp, ArrowDown } from 'lucide-react';
+import { X, Plus, Search, Trash2, ChevronDown, ChevronRight, ArrowUp, ArrowDown, Save } from 'lucide-react';
 import {
   ScreenerType,
   MarketScreener,
@@ -21,7 +21,12 @@ import {
   getPresetsForScreener,
   FieldPreset,
   TIME_INTERVALS,
+  FormulaColumn,
+  createFormulaColumn,
+  validateExpression,
+  saveCustomStrategy,
 } from '@/services/screener';
+import { toast } from '@/hooks/use-toast';
 import { MarketSelector } from './MarketSelector';
 
 interface ScreenerFiltersProps {
@@ -62,6 +67,12 @@ const OPERATORS: { value: FilterCondition['operator']; label: string }[] = [
   { value: 'between', label: 'Between' },
 ];
 
+const FORMULA_FORMATS: { value: FormulaColumn['format']; label: string }[] = [
+  { value: 'number', label: '123' },
+  { value: 'percent', label: '%' },
+  { value: 'currency', label: '$' },
+];
+
 const ScreenerFilters = ({ type, onSearch }: ScreenerFiltersProps) => {
   const [filters, setFilters] = useState<ActiveFilter[]>([]);
   const [selectedFieldName, setSelectedFieldName] = useState<string>('');
@@ -77,6 +88,14 @@ const ScreenerFilters = ({ type, onSearch }: ScreenerFiltersProps) => {
   const [sortField, setSortField] = useState('none');
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('desc');
   const [limit, setLimit] = useState(150);
+  const [expressions, setExpressions] = useState<string[]>([]);
+  const [expressionInput, setExpressionInput] = useState('');
+  const [formulas, setFormulas] = useState<FormulaColumn[]>([]);
+  const [formulaLabel, setFormulaLabel] = useState('');
+  const [formulaInput, setFormulaInput] = useState('');
+  const [formulaFormat, setFormulaFormat] = useState<FormulaColumn['format']>('number');
+  const [expressionError, setExpressionError] = useState<string | null>(null);
+  const [strategyName, setStrategyName] = useState('');
 
   const availableFields = useMemo(() => getNumericFields(type), [type]);
   const categories = useMemo(() => getCategoriesForScreener(type), [type]);
@@ -133,6 +152,49 @@ const ScreenerFilters = ({ type, onSearch }: ScreenerFiltersProps) => {
     setFilters(prev => prev.filter((_, i) => i !== index));
   };
 
+  const handleAddExpression = () => {
+    const source = expressionInput.trim();
+    const error = validateExpression(source);
+    setExpressionError(error);
+    if (error) return;
+    setExpressions(prev => prev.includes(source) ? prev : [...prev, source]);
+    setExpressionInput('');
+  };
+
+  const handleAddFormula = () => {
+    const source = formulaInput.trim();
+    const error = validateExpression(source);
+    setExpressionError(error);
+    if (error) return;
+    const column = createFormulaColumn(formulaLabel || source, source, formulaFormat);
+    setFormulas(prev => [...prev.filter(f => f.id !== column.id), column]);
+    setFormulaLabel('');
+    setFormulaInput('');
+  };
+
+  const handleSaveStrategy = () => {
+    const label = strategyName.trim();
+    if (!label) return;
+    const summary = [
+      ...filters.map(f => f.displayValue),
+      ...expressions,
+      ...formulas.map(f => `ƒ ${f.label} = ${f.formula}`),
+    ].join(' • ');
+    saveCustomStrategy({
+      label,
+      emoji: '⭐',
+      screeners: [type],
+      description: summary || 'Custom screen',
+      filters: filters.map(f => ({ field: f.fieldNameWithTF, operator: f.operator, value: f.value })),
+      columns: selectedColumns,
+      sort: sortField && sortField !== 'none' ? { field: sortField, direction: sortDir } : undefined,
+      expressions,
+      formulas,
+    });
+    setStrategyName('');
+    toast({ title: 'Screen saved', description: `"${label}" is available under Strategies → My Screens` });
+  };
+
   const handlePresetChange = (presetId: string) => {
     setSelectedPreset(presetId);
     const preset = presets.find(p => p.id === presetId);
@@ -147,6 +209,8 @@ const ScreenerFilters = ({ type, onSearch }: ScreenerFiltersProps) => {
     filters.forEach(f => {
       screener.where({ field: f.fieldNameWithTF, operator: f.operator, value: f.value });
     });
+    expressions.forEach(expression => screener.where({ expression }));
+    screener.compute(...formulas);
 
     if (selectedColumns.length > 0) {
       screener.select(...selectedColumns);
@@ -185,11 +249,11 @@ const ScreenerFilters = ({ type, onSearch }: ScreenerFiltersProps) => {
           )}
 
           {/* Active Filters */}
-          {filters.length > 0 && (
+          {(filters.length > 0 || expressions.length > 0) && (
             <div className="space-y-1">
               <div className="flex items-center justify-between">
-                <Label className="text-[9px] font-mono text-muted-foreground">Active Filters ({filters.length})</Label>
-                <Button variant="ghost" size="sm" onClick={() => setFilters([])} className="h-4 text-[9px] text-destructive hover:text-destructive px-1">
+                <Label className="text-[9px] font-mono text-muted-foreground">Active Filters ({filters.length + expressions.length})</Label>
+                <Button variant="ghost" size="sm" onClick={() => { setFilters([]); setExpressions([]); }} className="h-4 text-[9px] text-destructive hover:text-destructive px-1">
                   <Trash2 className="w-2.5 h-2.5 mr-0.5" /> Clear
                 </Button>
               </div>
@@ -200,6 +264,27 @@ const ScreenerFilters = ({ type, onSearch }: ScreenerFiltersProps) => {
                     <X className="w-2 h-2 cursor-pointer hover:text-destructive" onClick={() => handleRemoveFilter(index)} />
                   </Badge>
                 ))}
+                {expressions.map(expression => (
+                  <Badge key={expression} variant="outline" className="border-terminal-cyan/40 text-terminal-cyan font-mono text-[9px] gap-0.5 py-0 px-1">
+                    {expression}
+                    <X className="w-2 h-2 cursor-pointer hover:text-destructive" onClick={() => setExpressions(prev => prev.filter(e => e !== expression))} />
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Formula Columns */}
+          {formulas.length > 0 && (
+            <div className="space-y-1">
+              <Label className="text-[9px] font-mono text-muted-foreground">Formula Columns ({formulas.length})</Label>
+              <div className="flex flex-wrap gap-1">
+                {formulas.map(f => (
+                  <Badge key={f.id} variant="outline" className="border-terminal-amber/40 text-terminal-amber font-mono text-[9px] gap-0.5 py-0 px-1" title={f.formula}>
+                    ƒ {f.label}
+                    <X className="w-2 h-2 cursor-pointer hover:text-destructive" onClick={() => setFormulas(prev => prev.filter(p => p.id !== f.id))} />
+                  </Badge>
+                ))}
               </div>
             </div>
           )}
@@ -229,6 +314,9 @@ const ScreenerFilters = ({ type, onSearch }: ScreenerFiltersProps) => {
                 </SelectTrigger>
                 <SelectContent className="max-h-48">
                   <SelectItem value="none" className="text-[9px] font-mono">None</SelectItem>
+                  {formulas.map(f => (
+                    <SelectItem key={f.id} value={f.id} className="text-[9px] font-mono">ƒ {f.label}</SelectItem>
+                  ))}
                   {availableFields.slice(0, 40).map(f => (
                     <SelectItem key={f.name} value={f.name} className="text-[9px] font-mono">{f.label}</SelectItem>
                   ))}
@@ -391,6 +479,88 @@ const ScreenerFilters = ({ type, onSearch }: ScreenerFiltersProps) => {
               <Plus className="w-2.5 h-2.5 mr-1" /> Add Filter
             </Button>
           </div>
+
+          {/* Expressions & Formulas */}
+          <div className="space-y-1.5 border-t border-border/50 pt-2">
+            <Label className="text-[9px] font-mono text-muted-foreground">Expression Filter</Label>
+            <Input
+              placeholder="close > SMA50 AND NOT RSI > 70"
+              value={expressionInput}
+              onChange={e => setExpressionInput(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') handleAddExpression(); }}
+              className="border-border text-[9px] font-mono h-6"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAddExpression}
+              disabled={!expressionInput.trim()}
+              className="w-full border-terminal-cyan/30 text-terminal-cyan hover:bg-terminal-cyan/10 font-mono text-[9px] h-6"
+            >
+              <Plus className="w-2.5 h-2.5 mr-1" /> Add Expression
+            </Button>
+
+            <Label className="text-[9px] font-mono text-muted-foreground">Formula Column</Label>
+            <div className="flex gap-1">
+              <Input
+                placeholder="Label..."
+                value={formulaLabel}
+                onChange={e => setFormulaLabel(e.target.value)}
+                className="border-border text-[9px] font-mono h-6"
+              />
+              <Select value={formulaFormat} onValueChange={v => setFormulaFormat(v as FormulaColumn['format'])}>
+                <SelectTrigger className="border-border text-[9px] font-mono h-6 w-14">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORMULA_FORMATS.map(f => (
+                    <SelectItem key={f.value} value={f.value} className="text-[9px] font-mono">{f.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Input
+              placeholder="(close / 52_week_high - 1) * 100"
+              value={formulaInput}
+              onChange={e => setFormulaInput(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') handleAddFormula(); }}
+              className="border-border text-[9px] font-mono h-6"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAddFormula}
+              disabled={!formulaInput.trim()}
+              className="w-full border-terminal-amber/30 text-terminal-amber hover:bg-terminal-amber/10 font-mono text-[9px] h-6"
+            >
+              <Plus className="w-2.5 h-2.5 mr-1" /> Add Formula
+            </Button>
+            {expressionError && (
+              <p className="text-[9px] font-mono text-destructive">{expressionError}</p>
+            )}
+          </div>
+
+          {/* Save as Strategy */}
+          <div className="space-y-1 border-t border-border/50 pt-2">
+            <Label className="text-[9px] font-mono text-muted-foreground">Save Screen</Label>
+            <div className="flex gap-1">
+              <Input
+                placeholder="Screen name..."
+                value={strategyName}
+                onChange={e => setStrategyName(e.target.value)}
+                className="border-border text-[9px] font-mono h-6"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleSaveStrategy}
+                disabled={!strategyName.trim()}
+                className="h-6 w-8 p-0 border-border"
+              >
+                <Save className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
         </div>
       </ScrollArea>
 
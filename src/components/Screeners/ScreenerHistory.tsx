@@ -0,0 +1,321 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ArrowDown, ArrowUp, Cloud, HardDrive, History, Loader2, Trash2 } from 'lucide-react';
+import {
+  ScreenRef,
+  ScreenerSnapshot,
+  loadSnapshots,
+  deleteSnapshot,
+  diffSnapshots,
+  isScreenWatched,
+  setScreenWatched,
+  ALL_FIELDS,
+} from '@/services/screener';
+
+interface ScreenerHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Screen of the current results; preselected when it has history */
+  screen: ScreenRef | null;
+}
+
+const formatTime = (ts: number) =>
+  new Date(ts).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const fieldLabel = (name: string) => ALL_FIELDS.find(f => f.name === name)?.label || name;
+
+const formatNumber = (num: number) => {
+  const abs = Math.abs(num);
+  if (abs >= 1e9) return `${(num / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${(num / 1e6).toFixed(2)}M`;
+  if (abs >= 1e3) return `${(num / 1e3).toFixed(1)}K`;
+  return abs < 0.01 && num !== 0 ? num.toPrecision(3) : num.toFixed(2);
+};
+
+const ScreenerHistory = ({ isOpen, onClose, screen }: ScreenerHistoryProps) => {
+  const [snapshots, setSnapshots] = useState<ScreenerSnapshot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [screenId, setScreenId] = useState<string>('');
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+  const [metricField, setMetricField] = useState('all');
+  const [watched, setWatched] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSnapshots(await loadSnapshots());
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, refresh]);
+
+  const screens = useMemo(() => {
+    const map = new Map<string, ScreenRef>();
+    snapshots.forEach(s => { if (!map.has(s.screenId)) map.set(s.screenId, { id: s.screenId, label: s.screenLabel }); });
+    if (screen && !map.has(screen.id)) map.set(screen.id, screen);
+    return [...map.values()];
+  }, [snapshots, screen]);
+
+  // Prefer the current screen, otherwise the most recently snapshotted one
+  useEffect(() => {
+    if (!isOpen || screens.length === 0) return;
+    if (!screens.some(s => s.id === screenId)) setScreenId(screen?.id ?? screens[0].id);
+  }, [isOpen, screens, screen, screenId]);
+
+  const screenSnapshots = useMemo(
+    () => snapshots.filter(s => s.screenId === screenId),
+    [snapshots, screenId],
+  );
+
+  useEffect(() => {
+    setToId(screenSnapshots[0]?.id ?? '');
+    setFromId(screenSnapshots[1]?.id ?? '');
+    setWatched(screenId ? isScreenWatched(screenId) : false);
+  }, [screenSnapshots, screenId]);
+
+  const from = screenSnapshots.find(s => s.id === fromId);
+  const to = screenSnapshots.find(s => s.id === toId);
+  const diff = useMemo(() => (from && to ? diffSnapshots(from, to, Infinity) : null), [from, to]);
+
+  const metricChanges = useMemo(() => {
+    if (!diff) return [];
+    const changes = metricField === 'all' ? diff.metricChanges : diff.metricChanges.filter(c => c.field === metricField);
+    return changes.slice(0, 20);
+  }, [diff, metricField]);
+
+  const handleWatch = (checked: boolean) => {
+    const ref = screens.find(s => s.id === screenId);
+    if (!ref) return;
+    setScreenWatched(ref, checked);
+    setWatched(checked);
+  };
+
+  const handleDelete = async (snapshot: ScreenerSnapshot) => {
+    await deleteSnapshot(snapshot);
+    setSnapshots(prev => prev.filter(s => s.id !== snapshot.id));
+  };
+
+  const renderSnapshotSelect = (value: string, onChange: (v: string) => void, label: string) => (
+    <div className="flex-1 space-y-1">
+      <Label className="text-[9px] font-mono text-muted-foreground">{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="border-border text-[10px] font-mono h-7">
+          <SelectValue placeholder="Snapshot..." />
+        </SelectTrigger>
+        <SelectContent>
+          {screenSnapshots.map(s => (
+            <SelectItem key={s.id} value={s.id} className="text-[10px] font-mono">
+              {formatTime(s.createdAt)} • {s.rows.length} rows
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={() => onClose()}>
+      <DialogContent className="bg-card border-terminal-green/30 max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-terminal-green font-mono text-sm">
+            <History className="w-4 h-4" />
+            SCREENER HISTORY
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-terminal-green" />
+          </div>
+        ) : screens.length === 0 ? (
+          <div className="text-center text-muted-foreground py-12 text-xs font-mono">
+            No snapshots yet. Run a screen and press Snapshot to start its history.
+          </div>
+        ) : (
+          <div className="flex gap-3 h-[60vh]">
+            {/* Snapshot list */}
+            <div className="w-56 shrink-0 flex flex-col gap-2">
+              <Select value={screenId} onValueChange={setScreenId}>
+                <SelectTrigger className="border-border text-[10px] font-mono h-7">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {screens.map(s => (
+                    <SelectItem key={s.id} value={s.id} className="text-[10px] font-mono">{s.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center justify-between px-1">
+                <Label className="text-[9px] font-mono text-muted-foreground">Alert on new entries</Label>
+                <Switch checked={watched} onCheckedChange={handleWatch} />
+              </div>
+              <ScrollArea className="flex-1 border border-border/50 rounded">
+                <div className="p-1 space-y-0.5">
+                  {screenSnapshots.map(s => (
+                    <div
+                      key={s.id}
+                      className={`flex items-center gap-1.5 px-1.5 py-1 rounded text-[10px] font-mono ${
+                        s.id === toId ? 'bg-terminal-green/10 text-terminal-green' : s.id === fromId ? 'bg-muted/40' : 'text-foreground/70'
+                      }`}
+                    >
+                      {s.source === 'cloud'
+                        ? <Cloud className="w-3 h-3 shrink-0 text-terminal-cyan" />
+                        : <HardDrive className="w-3 h-3 shrink-0 text-muted-foreground" />}
+                      <span className="flex-1 truncate">{formatTime(s.createdAt)}</span>
+                      <span className="text-muted-foreground">{s.rows.length}</span>
+                      <Trash2
+                        className="w-3 h-3 shrink-0 cursor-pointer text-muted-foreground hover:text-destructive"
+                        onClick={() => handleDelete(s)}
+                      />
+                    </div>
+                  ))}
+                  {screenSnapshots.length === 0 && (
+                    <p className="text-[10px] font-mono text-muted-foreground p-2">No snapshots for this screen</p>
+                  )}
+                </div>
+              </ScrollArea>
+            </div>
+
+            {/* Diff */}
+            <div className="flex-1 flex flex-col gap-2 overflow-hidden">
+              <div className="flex gap-2">
+                {renderSnapshotSelect(fromId, setFromId, 'From')}
+                {renderSnapshotSelect(toId, setToId, 'To')}
+              </div>
+
+              {!diff ? (
+                <div className="flex-1 flex items-center justify-center text-xs font-mono text-muted-foreground">
+                  Take at least two snapshots of this screen to compare them.
+                </div>
+              ) : (
+                <ScrollArea className="flex-1">
+                  <div className="space-y-3 pr-2">
+                    {diff.topN !== null && (
+                      <p className="text-[10px] font-mono text-muted-foreground">
+                        Only the first page of matches was captured, so entries and exits are into and out of
+                        the top {diff.topN}.
+                      </p>
+                    )}
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-1">
+                        <Label className="text-[10px] font-mono text-terminal-green">▲ Entered ({diff.entered.length})</Label>
+                        <div className="flex flex-wrap gap-1">
+                          {diff.entered.map(r => (
+                            <Badge key={r.symbol} variant="outline" className="font-mono text-[9px] border-terminal-green/40 text-terminal-green">
+                              #{r.rank} {r.name}
+                            </Badge>
+                          ))}
+                          {diff.entered.length === 0 && <span className="text-[10px] font-mono text-muted-foreground">None</span>}
+                        </div>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-[10px] font-mono text-destructive">▼ Dropped ({diff.dropped.length})</Label>
+                        <div className="flex flex-wrap gap-1">
+                          {diff.dropped.map(r => (
+                            <Badge key={r.symbol} variant="outline" className="font-mono text-[9px] border-destructive/40 text-destructive">
+                              #{r.rank} {r.name}
+                            </Badge>
+                          ))}
+                          {diff.dropped.length === 0 && <span className="text-[10px] font-mono text-muted-foreground">None</span>}
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label className="text-[10px] font-mono text-muted-foreground">Biggest Rank Changes</Label>
+                      <Table>
+                        <TableHeader>
+                          <TableRow className="border-border hover:bg-transparent">
+                            <TableHead className="font-mono text-[10px] h-7">Symbol</TableHead>
+                            <TableHead className="font-mono text-[10px] h-7 text-right">From</TableHead>
+                            <TableHead className="font-mono text-[10px] h-7 text-right">To</TableHead>
+                            <TableHead className="font-mono text-[10px] h-7 text-right">Move</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {diff.rankChanges.slice(0, 10).map(c => (
+                            <TableRow key={c.symbol} className="border-border/50">
+                              <TableCell className="font-mono text-[10px] py-1">{c.name}</TableCell>
+                              <TableCell className="font-mono text-[10px] py-1 text-right">#{c.from}</TableCell>
+                              <TableCell className="font-mono text-[10px] py-1 text-right">#{c.to}</TableCell>
+                              <TableCell className={`font-mono text-[10px] py-1 text-right ${c.delta > 0 ? 'text-terminal-green' : 'text-destructive'}`}>
+                                <span className="inline-flex items-center gap-0.5">
+                                  {c.delta > 0 ? <ArrowUp className="w-2.5 h-2.5" /> : <ArrowDown className="w-2.5 h-2.5" />}
+                                  {Math.abs(c.delta)}
+                                </span>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                      {diff.rankChanges.length === 0 && (
+                        <p className="text-[10px] font-mono text-muted-foreground">Order unchanged</p>
+                      )}
+                    </div>
+
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-[10px] font-mono text-muted-foreground">Biggest Metric Changes</Label>
+                        <Select value={metricField} onValueChange={setMetricField}>
+                          <SelectTrigger className="border-border text-[9px] font-mono h-6 w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all" className="text-[9px] font-mono">All metrics</SelectItem>
+                            {(to?.columns || []).map(c => (
+                              <SelectItem key={c} value={c} className="text-[9px] font-mono">{fieldLabel(c)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <Table>
+                        <TableHeader>
+                          <TableRow className="border-border hover:bg-transparent">
+                            <TableHead className="font-mono text-[10px] h-7">Symbol</TableHead>
+                            <TableHead className="font-mono text-[10px] h-7">Metric</TableHead>
+                            <TableHead className="font-mono text-[10px] h-7 text-right">From</TableHead>
+                            <TableHead className="font-mono text-[10px] h-7 text-right">To</TableHead>
+                            <TableHead className="font-mono text-[10px] h-7 text-right">Δ%</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {metricChanges.map(c => (
+                            <TableRow key={`${c.symbol}-${c.field}`} className="border-border/50">
+                              <TableCell className="font-mono text-[10px] py-1">{c.name}</TableCell>
+                              <TableCell className="font-mono text-[10px] py-1 text-muted-foreground">{fieldLabel(c.field)}</TableCell>
+                              <TableCell className="font-mono text-[10px] py-1 text-right">{formatNumber(c.from)}</TableCell>
+                              <TableCell className="font-mono text-[10px] py-1 text-right">{formatNumber(c.to)}</TableCell>
+                              <TableCell className={`font-mono text-[10px] py-1 text-right ${c.change >= 0 ? 'text-terminal-green' : 'text-destructive'}`}>
+                                {c.changePct === null ? '—' : `${c.changePct >= 0 ? '+' : ''}${c.changePct.toFixed(1)}%`}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                      {metricChanges.length === 0 && (
+                        <p className="text-[10px] font-mono text-muted-foreground">No numeric changes</p>
+                      )}
+                    </div>
+                  </div>
+                </ScrollArea>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScreenerHistory;
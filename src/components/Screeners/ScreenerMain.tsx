@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -8,7 +8,24 @@ import ScreenerResults from './ScreenerResults';
 import ScreenerPresets from './ScreenerPresets';
 import ScreenerDetail from './ScreenerDetail';
 import ScreenerFilings from './ScreenerFilings';
-import { ScreenerType, MarketScreener, FilterCondition } from '@/services/screener';
+import ScreenerHistory from './ScreenerHistory';
+import {
+  ScreenerType,
+  MarketScreener,
+  ScreenerFilter,
+  FormulaColumn,
+  ScreenRef,
+  adhocScreen,
+  createSnapshot,
+  saveSnapshot,
+  recordWatchedRun,
+} from '@/services/screener';
+import { toast } from '@/hooks/use-toast';
+import { alertDispatcher } from '@/services/AlertDispatchService';
+import { bareTicker, type LinkedSymbol } from '@/services/SymbolLinkService';
+import { useSymbolLink } from '@/hooks/useSymbolLink';
+import { usePanelSettings } from '@/hooks/usePanelSettings';
+import LinkGroupPicker from '@/components/LinkGroupPicker';
 
 const SCREENER_TABS: { value: ScreenerType | 'filings'; label: string; color: string }[] = [
   { value: 'stock', label: '📈 STOCKS', color: 'data-[state=active]:text-terminal-green' },
@@ -22,17 +39,56 @@ const SCREENER_TABS: { value: ScreenerType | 'filings'; label: string; color: st
 
 const SCREENER_TYPES: ScreenerType[] = ['stock', 'crypto', 'forex', 'bond', 'futures', 'coin'];
 
+/** What a screener panel remembers in its workspace; the command bar opens it preloaded (DES, FA, CF) */
+type ScreenerPanelSettings = {
+  tab: string;
+  /** Filings symbol, 'EXCHANGE:SYMBOL' */
+  ticker: string;
+  view: 'statements' | 'filings';
+  statementTab: string;
+};
+
 const ScreenerMain = () => {
-  const [activeTab, setActiveTab] = useState<string>('stock');
+  const [panelSettings, updatePanelSettings] = usePanelSettings<ScreenerPanelSettings>();
+  const [activeTab, setActiveTab] = useState<string>(() => panelSettings.tab || 'stock');
   const [results, setResults] = useState<any[]>([]);
   const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(false);
   const [isFallback, setIsFallback] = useState(false);
   const [activeColumns, setActiveColumns] = useState<string[]>([]);
+  const [formulas, setFormulas] = useState<FormulaColumn[]>([]);
   const [lastScreener, setLastScreener] = useState<MarketScreener | null>(null);
   const [leftOpen, setLeftOpen] = useState(true);
   const [selectedItem, setSelectedItem] = useState<any | null>(null);
   const [sortConfig, setSortConfig] = useState<{ field: string; direction: 'asc' | 'desc' } | null>(null);
+  const [currentScreen, setCurrentScreen] = useState<ScreenRef | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [linkedSymbol, setLinkedSymbol] = useState<LinkedSymbol | null>(() =>
+    panelSettings.ticker ? { ticker: panelSettings.ticker, source: 'workspace', at: 0 } : null
+  );
+
+  // A linked symbol opens its row (when it is in the results) and the filings view
+  const symbolLink = useSymbolLink(linked => {
+    setLinkedSymbol(linked);
+    updatePanelSettings({ ticker: linked.ticker });
+    const bare = bareTicker(linked.ticker).replace(/\.BK$/, '');
+    const row = results.find(r => bareTicker(r.symbol || r.name || '') === bare);
+    if (row) setSelectedItem(row);
+  });
+
+  useEffect(() => {
+    updatePanelSettings({ tab: activeTab });
+  }, [activeTab, updatePanelSettings]);
+
+  const handleFilingsSymbolSelect = (ticker: string, name: string) => {
+    updatePanelSettings({ ticker });
+    symbolLink.publish(ticker, name);
+  };
+
+  const handleRowSelect = (item: any | null) => {
+    setSelectedItem(item);
+    if (item?.symbol) symbolLink.publish(item.symbol, item.description || item.name);
+  };
 
   const activeType: ScreenerType = SCREENER_TYPES.includes(activeTab as ScreenerType)
     ? (activeTab as ScreenerType)
@@ -40,15 +96,36 @@ const ScreenerMain = () => {
 
   const isFilings = activeTab === 'filings';
 
-  const handleSearch = useCallback(async (screener: MarketScreener) => {
+  const handleSearch = useCallback(async (screener: MarketScreener, screen?: ScreenRef) => {
+    const ref = screen ?? adhocScreen(screener);
     setLoading(true);
     setLastScreener(screener);
+    setCurrentScreen(ref);
     try {
       const result = await screener.get();
       setResults(result.data);
       setTotalCount(result.totalCount);
       setIsFallback(!!result.fallback);
       setActiveColumns(screener.getColumns());
+      setFormulas(screener.getFormulas());
+      if (result.error) toast({ title: 'Partial results', description: result.error });
+
+      // Mock data would report random entries, so only real runs are recorded
+      if (!result.fallback) {
+        const columns = [...screener.getColumns(), ...screener.getFormulas().map(f => f.id)];
+        recordWatchedRun(ref, screener.getType(), columns, result.data, result.totalCount)
+          .then(run => {
+            if (!run || run.entered.length === 0) return;
+            void alertDispatcher.dispatch({
+              id: `screener-${run.snapshot.id}`,
+              source: 'screener',
+              title: `${run.entered.length} new in ${run.topN ? `top ${run.topN} of ` : ''}${ref.label}`,
+              message: run.entered.slice(0, 8).map(r => r.name).join(', ') + (run.entered.length > 8 ? '…' : ''),
+              timestamp: run.snapshot.createdAt,
+            });
+          })
+          .catch(error => console.warn('Screener snapshot error:', error));
+      }
     } catch (error) {
       console.error('Screener error:', error);
       setResults([]);
@@ -59,15 +136,22 @@ const ScreenerMain = () => {
   }, []);
 
   const handleRefresh = useCallback(() => {
-    if (lastScreener) handleSearch(lastScreener);
-  }, [lastScreener, handleSearch]);
+    if (lastScreener) handleSearch(lastScreener, currentScreen ?? undefined);
+  }, [lastScreener, currentScreen, handleSearch]);
 
-  const handleStrategyApply = useCallback((filters: FilterCondition[], columns: string[], sort?: { field: string; direction: 'asc' | 'desc' }) => {
+  const handleStrategyApply = useCallback((
+    filters: ScreenerFilter[],
+    columns: string[],
+    sort?: { field: string; direction: 'asc' | 'desc' },
+    strategyFormulas: FormulaColumn[] = [],
+    screen?: ScreenRef,
+  ) => {
     const screener = new MarketScreener(activeType);
     filters.forEach(f => screener.where(f));
+    screener.compute(...strategyFormulas);
     if (columns.length > 0) screener.select(...columns);
     if (sort) screener.sortBy(sort.field, sort.direction);
-    handleSearch(screener);
+    handleSearch(screener, screen);
   }, [activeType, handleSearch]);
 
   const handleTabChange = (v: string) => {
@@ -76,6 +160,7 @@ const ScreenerMain = () => {
       setResults([]);
       setTotalCount(0);
       setActiveColumns([]);
+      setFormulas([]);
       setSelectedItem(null);
     }
   };
@@ -100,9 +185,22 @@ const ScreenerMain = () => {
     setResults(sorted);
   };
 
+  const handleSnapshot = async () => {
+    // Every search sets the screen, so results always have one
+    const screen = currentScreen;
+    if (results.length === 0 || !screen) return;
+    const columns = [...activeColumns, ...formulas.map(f => f.id).filter(id => !activeColumns.includes(id))];
+    const snapshot = await saveSnapshot(createSnapshot(screen, activeType, columns, results, totalCount));
+    toast({
+      title: 'Snapshot saved',
+      description: `${screen.label} • ${snapshot.rows.length} rows (${snapshot.source === 'cloud' ? 'cloud' : 'this device'})`,
+    });
+  };
+
   const handleExportCSV = () => {
     if (results.length === 0) return;
-    const cols = activeColumns.length > 0 ? activeColumns : Object.keys(results[0]);
+    const baseCols = activeColumns.length > 0 ? activeColumns : Object.keys(results[0]);
+    const cols = [...baseCols, ...formulas.map(f => f.id).filter(id => !baseCols.includes(id))];
     const header = ['symbol', ...cols].join(',');
     const rows = results.map(item => {
       const symbol = item.name || item.symbol || '';
@@ -141,6 +239,7 @@ const ScreenerMain = () => {
           </div>
         </div>
         <div className="flex items-center gap-1.5">
+          <LinkGroupPicker value={symbolLink.group} onChange={symbolLink.setGroup} />
           {isFallback && (
             <Badge variant="outline" className="font-mono text-[9px] border-terminal-amber/40 text-terminal-amber">
               MOCK
@@ -172,7 +271,12 @@ const ScreenerMain = () => {
         {/* Filings tab */}
         {isFilings ? (
           <TabsContent value="filings" className="flex-1 m-0 overflow-hidden">
-            <ScreenerFilings />
+            <ScreenerFilings
+              linkedSymbol={linkedSymbol}
+              onSymbolSelect={handleFilingsSymbolSelect}
+              defaultView={panelSettings.view}
+              defaultStatementTab={panelSettings.statementTab}
+            />
           </TabsContent>
         ) : (
           <div className="flex-1 flex overflow-hidden">
@@ -206,9 +310,12 @@ const ScreenerMain = () => {
                     onColumnsChange={handleColumnsChange}
                     onSortChange={handleSortChange}
                     sortConfig={sortConfig}
-                    onRowSelect={setSelectedItem}
+                    onRowSelect={handleRowSelect}
                     selectedItem={selectedItem}
                     onExportCSV={handleExportCSV}
+                    formulas={formulas}
+                    onSnapshot={isFallback ? undefined : handleSnapshot}
+                    onOpenHistory={() => setHistoryOpen(true)}
                     onRunScreener={() => {
                       const screener = new MarketScreener(activeType);
                       handleSearch(screener);
@@ -231,6 +338,12 @@ const ScreenerMain = () => {
           </div>
         )}
       </Tabs>
+
+      <ScreenerHistory
+        isOpen={historyOpen}
+        onClose={() => setHistoryOpen(false)}
+        screen={currentScreen}
+      />
     </div>
   );
 };
@@ -1,22 +1,34 @@
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
+import { Trash2 } from 'lucide-react';
 import {
   ScreenerType,
   FilterCondition,
+  ScreenerFilter,
+  FormulaColumn,
+  ScreenRef,
   getStrategiesForScreener,
   getStrategyCategories,
+  deleteCustomStrategy,
   StrategyPreset,
 } from '@/services/screener';
 
 interface ScreenerPresetsProps {
   type: ScreenerType;
-  onApply: (filters: FilterCondition[], columns: string[], sort?: { field: string; direction: 'asc' | 'desc' }) => void;
+  onApply: (
+    filters: ScreenerFilter[],
+    columns: string[],
+    sort?: { field: string; direction: 'asc' | 'desc' },
+    formulas?: FormulaColumn[],
+    screen?: ScreenRef,
+  ) => void;
 }
 
 const CATEGORY_LABELS: Record<string, { label: string; emoji: string }> = {
+  user: { label: 'My Screens', emoji: '⭐' },
   momentum: { label: 'Momentum', emoji: '🚀' },
   technical: { label: 'Technical Analysis', emoji: '📊' },
   volume: { label: 'Volume', emoji: '🌊' },
@@ -28,7 +40,11 @@ const CATEGORY_LABELS: Record<string, { label: string; emoji: string }> = {
 
 const ScreenerPresets = ({ type, onApply }: ScreenerPresetsProps) => {
   const [activeId, setActiveId] = useState<string | null>(null);
-  const strategies = useMemo(() => getStrategiesForScreener(type), [type]);
+  const [strategies, setStrategies] = useState<StrategyPreset[]>(() => getStrategiesForScreener(type));
+
+  useEffect(() => {
+    setStrategies(getStrategiesForScreener(type));
+  }, [type]);
 
   const groupedStrategies = useMemo(() => {
     const groups: Record<string, StrategyPreset[]> = {};
@@ -41,12 +57,20 @@ const ScreenerPresets = ({ type, onApply }: ScreenerPresetsProps) => {
 
   const handleApply = (strategy: StrategyPreset) => {
     setActiveId(strategy.id);
-    const filters: FilterCondition[] = strategy.filters.map(f => ({
+    const filters: ScreenerFilter[] = strategy.filters.map(f => ({
       field: f.field,
       operator: f.operator as FilterCondition['operator'],
       value: f.value,
     }));
-    onApply(filters, strategy.columns, strategy.sort);
+    (strategy.expressions || []).forEach(expression => filters.push({ expression }));
+    onApply(filters, strategy.columns, strategy.sort, strategy.formulas, { id: strategy.id, label: strategy.label });
+  };
+
+  const handleDelete = (e: React.MouseEvent, strategy: StrategyPreset) => {
+    e.stopPropagation();
+    deleteCustomStrategy(strategy.id);
+    if (activeId === strategy.id) setActiveId(null);
+    setStrategies(getStrategiesForScreener(type));
   };
 
   return (
@@ -81,8 +105,14 @@ const ScreenerPresets = ({ type, onApply }: ScreenerPresetsProps) => {
                         <span className="text-sm">{strategy.emoji}</span>
                         <span className="text-[11px] font-mono font-medium">{strategy.label}</span>
                         <Badge variant="outline" className="ml-auto text-[8px] font-mono border-border px-1 py-0">
-                          {strategy.filters.length} filters
+                          {strategy.filters.length + (strategy.expressions?.length || 0)} filters
                         </Badge>
+                        {strategy.category === 'user' && (
+                          <Trash2
+                            className="w-2.5 h-2.5 text-muted-foreground hover:text-destructive shrink-0"
+                            onClick={(e) => handleDelete(e, strategy)}
+                          />
+                        )}
                       </div>
                       <span className="text-[9px] font-mono text-muted-foreground pl-5 leading-tight">
                         {strategy.description}
@@ -3,8 +3,8 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Loader2, TrendingUp, TrendingDown, ArrowUp, ArrowDown, Download, Search } from 'lucide-react';
-import { ScreenerType, ALL_FIELDS, FieldDef } from '@/services/screener';
+import { Loader2, TrendingUp, TrendingDown, ArrowUp, ArrowDown, Download, Search, Camera, History } from 'lucide-react';
+import { ScreenerType, ALL_FIELDS, FieldDef, FormulaColumn } from '@/services/screener';
 import ColumnPicker from './ColumnPicker';
 
 interface ScreenerResultsProps {
@@ -19,6 +19,10 @@ interface ScreenerResultsProps {
   selectedItem?: any | null;
   onExportCSV?: () => void;
   onRunScreener?: () => void;
+  /** Computed columns of the last run, appended after the regular columns */
+  formulas?: FormulaColumn[];
+  onSnapshot?: () => void;
+  onOpenHistory?: () => void;
 }
 
 const DEFAULT_COLUMNS: Record<ScreenerType, string[]> = {
@@ -74,15 +78,19 @@ const MiniSparkline = ({ positive }: { positive: boolean }) => {
 const ScreenerResults = ({
   type, data, loading, columns,
   onColumnsChange, onSortChange, sortConfig,
-  onRowSelect, selectedItem, onExportCSV, onRunScreener
+  onRowSelect, selectedItem, onExportCSV, onRunScreener, formulas = [],
+  onSnapshot, onOpenHistory
 }: ScreenerResultsProps) => {
   const activeColumns = useMemo(() => {
     const cols = columns && columns.length > 0 ? columns : DEFAULT_COLUMNS[type];
-    return cols.map(colName => {
+    const withFormulas = [...cols, ...formulas.map(f => f.id).filter(id => !cols.includes(id))];
+    return withFormulas.map(colName => {
+      const formula = formulas.find(f => f.id === colName);
+      if (formula) return { name: formula.id, label: `ƒ ${formula.label}`, format: formula.format, category: 'info' as const, screeners: [] };
       const fieldDef = ALL_FIELDS.find(f => f.name === colName);
       return fieldDef || { name: colName, label: colName, format: 'number' as const, category: 'info' as const, screeners: [] };
     });
-  }, [columns, type]);
+  }, [columns, type, formulas]);
 
   const formatValue = (value: any, field: FieldDef | { format: string; name: string }) => {
     if (value === null || value === undefined) return <span className="text-muted-foreground/40">—</span>;
@@ -192,6 +200,29 @@ const ScreenerResults = ({
           <Download className="w-3 h-3" />
           CSV
         </Button>
+        {onSnapshot && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onSnapshot}
+            disabled={data.length === 0}
+            className="h-7 text-[10px] font-mono border-border gap-1"
+          >
+            <Camera className="w-3 h-3" />
+            Snapshot
+          </Button>
+        )}
+        {onOpenHistory && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onOpenHistory}
+            className="h-7 text-[10px] font-mono border-border gap-1"
+          >
+            <History className="w-3 h-3" />
+            History
+          </Button>
+        )}
         <div className="flex-1" />
         <span className="text-[9px] font-mono text-muted-foreground">{data.length} rows</span>
       </div>
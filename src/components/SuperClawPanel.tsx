@@ -21,10 +21,12 @@ import {
   Send,
   Trash2,
   Hash,
-  MousePointer
+  MousePointer,
+  CalendarClock
 } from 'lucide-react';
 import { OpenClawAgent, OpenClawService, AISnapshot, CommandResult } from '@/services/openclaw';
 import { useAuth } from '@/contexts/AuthContext';
+import { SkillsScheduleTab } from '@/components/agent/SkillsScheduleTab';
 import { toast } from '@/hooks/use-toast';
 
 interface LogEntry {
@@ -202,7 +204,7 @@ export const SuperClawPanel = () => {
 
       <CardContent className="p-0 flex-1 overflow-hidden">
         <Tabs defaultValue="command" className="h-full flex flex-col">
-          <TabsList className="w-full grid grid-cols-3 bg-muted/30 border-b border-border rounded-none flex-shrink-0">
+          <TabsList className="w-full grid grid-cols-4 bg-muted/30 border-b border-border rounded-none flex-shrink-0">
             <TabsTrigger value="command" className="font-mono text-xs">
               <Terminal className="h-3 w-3 mr-1" />
               Command
@@ -215,6 +217,10 @@ export const SuperClawPanel = () => {
               <Eye className="h-3 w-3 mr-1" />
               Snapshot
             </TabsTrigger>
+            <TabsTrigger value="skills" className="font-mono text-xs">
+              <CalendarClock className="h-3 w-3 mr-1" />
+              Skills
+            </TabsTrigger>
           </TabsList>
 
           {/* Command Tab */}
@@ -380,6 +386,11 @@ export const SuperClawPanel = () => {
               </div>
             </ScrollArea>
           </TabsContent>
+
+          {/* Skills Tab */}
+          <TabsContent value="skills" className="flex-1 m-0 overflow-hidden">
+            <SkillsScheduleTab userId={user?.id} />
+          </TabsContent>
         </Tabs>
       </CardContent>
     </Card>
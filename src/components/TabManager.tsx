@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { Plus } from 'lucide-react';
-import FloatingWindow from './FloatingWindow';
+import FloatingWindow, { type WindowGeometry } from './FloatingWindow';
 
 interface PanelData {
   id: string;
@@ -20,6 +20,7 @@ interface TabManagerProps {
   onPanelMinimize: (panelId: string) => void;
   onPanelRestore: (panelId: string) => void;
   onPanelReorder: (panels: PanelData[]) => void;
+  onPanelGeometryChange?: (panelId: string, geometry: WindowGeometry) => void;
 }
 
 const TabManager = ({
@@ -29,7 +30,8 @@ const TabManager = ({
   onPanelMaximize,
   onPanelMinimize,
   onPanelRestore,
-  onPanelReorder
+  onPanelReorder,
+  onPanelGeometryChange
 }: TabManagerProps) => {
   const [draggedPanel, setDraggedPanel] = useState<string | null>(null);
   const maximizedPanel = panels.find(p => p.isMaximized);
@@ -112,6 +114,7 @@ const TabManager = ({
               isMaximized={panel.isMaximized}
               initialPosition={panel.position || { x: 50 + index * 30, y: 50 + index * 30 }}
               initialSize={panel.size || { width: 500, height: 400 }}
+              onGeometryChange={geometry => onPanelGeometryChange?.(panel.id, geometry)}
             >
               {panel.component}
             </FloatingWindow>
@@ -0,0 +1,270 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { HelpCircle, Loader2, X } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { usePanelCommander } from '@/contexts/PanelCommanderContext';
+import { terminalCommandService } from '@/services/TerminalCommandService';
+import {
+  MARKET_CODES,
+  MNEMONICS,
+  YELLOW_KEYS,
+  buildPanelSettings,
+  describeSecurity,
+  parseTerminalCommand,
+  type ResolvedSecurity,
+} from '@/utils/terminalCommands';
+
+interface TerminalCommandBarProps {
+  className?: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * Bloomberg-style command line: `AAPL US <GO>` loads a security, a function
+ * mnemonic (`GP`, `DES`, `FA`, `CN`, `DOM`) opens its panel preloaded with it.
+ * Up/Down walks the command history; ALIAS/UNALIAS manage user shorthands.
+ */
+const TerminalCommandBar = ({ className = '' }: TerminalCommandBarProps) => {
+  const { openPanel, findPanelsByKeyword } = usePanelCommander();
+  const [input, setInput] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [focused, setFocused] = useState(false);
+  const [showHelp, setShowHelp] = useState(false);
+  const [loaded, setLoaded] = useState<ResolvedSecurity | null>(() => terminalCommandService.getLoaded());
+  const [aliases, setAliases] = useState<Record<string, string>>(() => terminalCommandService.getAliases());
+  // Position while walking history with Up/Down; null = editing a new line
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => terminalCommandService.subscribe(() => {
+    setLoaded(terminalCommandService.getLoaded());
+    setAliases(terminalCommandService.getAliases());
+  }), []);
+
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setShowHelp(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  // Functions and aliases completing the word being typed; recent commands on an empty line
+  const suggestions = useMemo(() => {
+    if (!focused || showHelp) return [];
+    const word = input.split(/\s+/).pop()?.toUpperCase() ?? '';
+    if (!input.trim()) {
+      return [...terminalCommandService.getHistory()].reverse().slice(0, MAX_SUGGESTIONS)
+        .map(command => ({ label: command, detail: 'recent', value: command }));
+    }
+    if (!word) return [];
+    const head = input.slice(0, input.length - word.length);
+    return [
+      ...MNEMONICS.filter(m => m.code.startsWith(word) && m.code !== word)
+        .map(m => ({ label: m.code, detail: m.description, value: `${head}${m.code}` })),
+      ...Object.entries(aliases).filter(([name]) => name.startsWith(word) && name !== word)
+        .map(([name, expansion]) => ({ label: name, detail: expansion, value: `${head}${name}` })),
+    ].slice(0, MAX_SUGGESTIONS);
+  }, [input, focused, showHelp, aliases]);
+
+  const fail = (title: string, description?: string) =>
+    toast({ title, description, variant: 'destructive' });
+
+  // Panel names the agent understands ('market depth', 'cot data') work here too
+  const openByKeyword = (text: string): boolean => {
+    const match = findPanelsByKeyword(text)[0];
+    return match ? openPanel(match.id) : false;
+  };
+
+  const run = async (line: string) => {
+    const text = line.trim();
+    if (!text) return;
+    terminalCommandService.addHistory(text);
+    setHistoryIndex(null);
+    setInput('');
+
+    const result = parseTerminalCommand(text, aliases);
+    if ('error' in result) {
+      if (!openByKeyword(text)) fail(result.error);
+      return;
+    }
+
+    const { command } = result;
+    switch (command.kind) {
+      case 'help':
+        setShowHelp(true);
+        return;
+      case 'alias':
+        terminalCommandService.setAlias(command.name, command.expansion);
+        toast({ title: `Alias ${command.name}`, description: command.expansion });
+        return;
+      case 'unalias':
+        if (!terminalCommandService.removeAlias(command.name)) fail(`No alias ${command.name}`);
+        return;
+      case 'panel':
+        openPanel(command.panelId);
+        return;
+    }
+
+    setBusy(true);
+    try {
+      let security = terminalCommandService.getLoaded();
+      if (command.security) {
+        security = await terminalCommandService.resolve(command.security);
+        if (!security) {
+          // 'NEWS <GO>' is more likely a panel than a ticker
+          if (command.kind === 'load' && openByKeyword(text)) return;
+          fail(`No security matches ${describeSecurity(command.security)}`);
+          return;
+        }
+        terminalCommandService.setLoaded(security);
+      }
+      if (command.kind === 'load') return;
+
+      if (!security) {
+        fail(`${command.mnemonic.code} needs a security`, 'Load one first, e.g. AAPL US <GO>');
+        return;
+      }
+      openPanel(command.mnemonic.panelId, undefined, buildPanelSettings(command.mnemonic, security, command.timeframe));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const history = terminalCommandService.getHistory();
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      void run(input);
+    } else if (e.key === 'ArrowUp' && history.length > 0) {
+      e.preventDefault();
+      const next = historyIndex === null ? history.length - 1 : Math.max(0, historyIndex - 1);
+      setHistoryIndex(next);
+      setInput(history[next]);
+    } else if (e.key === 'ArrowDown' && historyIndex !== null) {
+      e.preventDefault();
+      const next = historyIndex + 1;
+      setHistoryIndex(next < history.length ? next : null);
+      setInput(next < history.length ? history[next] : '');
+    } else if (e.key === 'Tab' && suggestions.length > 0) {
+      e.preventDefault();
+      setInput(`${suggestions[0].value} `);
+    } else if (e.key === 'Escape') {
+      setInput('');
+      setHistoryIndex(null);
+      setShowHelp(false);
+      inputRef.current?.blur();
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <div className="flex items-center gap-2 h-8 px-2 rounded border border-border bg-muted/20 font-mono text-xs focus-within:border-terminal-amber">
+        <span className="text-terminal-amber shrink-0">&gt;</span>
+        {loaded && (
+          <span
+            className="shrink-0 px-1.5 py-0.5 rounded bg-terminal-amber/15 text-terminal-amber"
+            title={loaded.name}
+          >
+            {loaded.ticker}
+          </span>
+        )}
+        <input
+          ref={inputRef}
+          value={input}
+          onChange={e => {
+            setInput(e.target.value);
+            setHistoryIndex(null);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          placeholder={loaded ? 'GP 4h <GO>, DES, FA, CN, DOM...' : 'AAPL US <GO>, then GP / DES / FA / CN / DOM'}
+          spellCheck={false}
+          className="flex-1 min-w-0 bg-transparent outline-none text-terminal-green placeholder:text-muted-foreground"
+        />
+        {busy && <Loader2 className="w-3.5 h-3.5 animate-spin text-terminal-amber shrink-0" />}
+        <button
+          type="button"
+          onClick={() => setShowHelp(prev => !prev)}
+          title="Functions and aliases"
+          className="shrink-0 text-muted-foreground hover:text-terminal-amber"
+        >
+          <HelpCircle className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 top-full mt-1 z-50 rounded border border-border bg-background shadow-lg py-1 font-mono text-xs">
+          {suggestions.map(s => (
+            <button
+              key={`${s.label}-${s.value}`}
+              type="button"
+              // mousedown so the pick lands before the input blurs
+              onMouseDown={e => {
+                e.preventDefault();
+                setInput(`${s.value} `);
+              }}
+              className="w-full flex items-center gap-3 px-3 py-1 text-left hover:bg-muted/50"
+            >
+              <span className="text-terminal-amber truncate">{s.label}</span>
+              <span className="ml-auto text-muted-foreground truncate">{s.detail}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {showHelp && (
+        <div className="absolute left-0 right-0 top-full mt-1 z-50 rounded border border-border bg-background shadow-lg p-3 font-mono text-xs space-y-3 max-h-[70vh] overflow-y-auto">
+          <div>
+            <div className="text-terminal-amber mb-1">FUNCTIONS</div>
+            {MNEMONICS.map(m => (
+              <div key={m.code} className="flex gap-3">
+                <span className="w-10 text-terminal-green">{m.code}</span>
+                <span className="flex-1">{m.description}</span>
+                <span className="text-muted-foreground">{m.panelId}</span>
+              </div>
+            ))}
+          </div>
+          <div>
+            <div className="text-terminal-amber mb-1">SECURITIES</div>
+            <div className="text-muted-foreground">
+              TICKER [MARKET] [{YELLOW_KEYS.join(' | ')}] &lt;GO&gt; — markets: {Object.keys(MARKET_CODES).join(' ')}
+            </div>
+            <div className="text-muted-foreground">
+              e.g. AAPL US &lt;GO&gt; · PTT TB DES · BTCUSDT CRYPTO GP 4h · BINANCE:ETHUSDT DOM
+            </div>
+          </div>
+          <div>
+            <div className="text-terminal-amber mb-1">PANELS</div>
+            <div className="text-muted-foreground">Type a panel id or name: cot, heatmap, market depth...</div>
+          </div>
+          <div>
+            <div className="text-terminal-amber mb-1">ALIASES</div>
+            {Object.keys(aliases).length === 0 ? (
+              <div className="text-muted-foreground">None yet — ALIAS CH4 = GP 4h</div>
+            ) : (
+              Object.entries(aliases).map(([name, expansion]) => (
+                <div key={name} className="flex items-center gap-3">
+                  <span className="w-16 text-terminal-green truncate">{name}</span>
+                  <span className="flex-1 truncate">{expansion}</span>
+                  <button
+                    type="button"
+                    onClick={() => terminalCommandService.removeAlias(name)}
+                    title={`Remove ${name}`}
+                    className="text-muted-foreground hover:text-terminal-red"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TerminalCommandBar;
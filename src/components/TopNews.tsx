@@ -16,6 +16,10 @@ import { RelationshipDiagram } from './TopNews/RelationshipDiagram';
 import { FlowchartDiagram } from './TopNews/FlowchartDiagram';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator, DropdownMenuLabel } from "@/components/ui/dropdown-menu";
 import { fetchRealTimePrice, fetchCryptoPrice } from '@/services/realTimePriceService';
+import { LINK_GROUPS, bareTicker, toBinancePair } from '@/services/SymbolLinkService';
+import { useSymbolLink } from '@/hooks/useSymbolLink';
+import { usePanelSettings } from '@/hooks/usePanelSettings';
+import LinkGroupPicker from './LinkGroupPicker';
 
 // ABLE-HF 3.0 Analysis Result from Backend
 interface AbleAnalysisResult {
@@ -130,6 +134,17 @@ const ASSET_CATEGORIES = {
     assets: ['US500', 'US100', 'US30', 'DE40', 'UK100', 'JP225']
   }
 };
+
+// Pinned assets are quoted vs USD; link groups carry Binance pairs for crypto
+const assetToTicker = (asset: string) =>
+  ASSET_CATEGORIES.crypto.assets.includes(asset) ? `BINANCE:${asset.replace(/USD$/, 'USDT')}` : asset;
+
+const tickerToAsset = (ticker: string): string | null => {
+  const pair = toBinancePair(ticker);
+  const asset = pair ? pair.replace(/USDT$/, 'USD') : bareTicker(ticker);
+  return Object.values(ASSET_CATEGORIES).some(c => c.assets.includes(asset)) ? asset : null;
+};
+
 export const TopNews = () => {
   const {
     toast
@@ -168,6 +183,25 @@ export const TopNews = () => {
     addedAt: Date.now()
   }]);
   const [assetPrices, setAssetPrices] = useState<Record<string, AssetPrice>>({});
+  const [linkedAsset, setLinkedAsset] = useState<string | null>(null);
+
+  // Linked symbols we cover get pinned and highlighted; clicking a pin drives the group
+  const focusTicker = useCallback((ticker: string) => {
+    const asset = tickerToAsset(ticker);
+    if (!asset) return;
+    setLinkedAsset(asset);
+    setPinnedAssets(prev => prev.some(p => p.symbol === asset) || prev.length >= 8
+      ? prev
+      : [...prev, { symbol: asset, addedAt: Date.now() }]);
+  }, []);
+  const symbolLink = useSymbolLink(linked => focusTicker(linked.ticker));
+
+  // Opened from the command bar (CN) with a security
+  const [panelSettings] = usePanelSettings<{ ticker: string }>();
+  useEffect(() => {
+    if (panelSettings.ticker) focusTicker(panelSettings.ticker);
+  }, [panelSettings.ticker, focusTicker]);
+  const linkColor = LINK_GROUPS.find(g => g.id === symbolLink.group)?.color;
 
   // ✅ NEW: Metadata และ component active state
   const [newsMetadata, setNewsMetadata] = useState<NewsMetadata | null>(null);
@@ -415,6 +449,7 @@ export const TopNews = () => {
                 </div>}
             </div>
             <div className="flex items-center gap-2 md:gap-4">
+              <LinkGroupPicker value={symbolLink.group} onChange={symbolLink.setGroup} className="text-zinc-400" />
               {/* ✅ NEW: แสดง next refresh time */}
               {lastUpdated && <div className="flex flex-col items-end">
                   <span className="text-xs md:text-sm text-zinc-600 hidden sm:block">
@@ -751,7 +786,12 @@ export const TopNews = () => {
               return <Card 
                 key={asset.symbol} 
                 className={`p-4 border-zinc-800 hover:border-zinc-700 transition-colors cursor-pointer bg-black relative group ${!hasAnalysis ? 'opacity-75' : ''}`} 
-                onClick={() => hasAnalysis ? setSelectedAssetForModal(asset.symbol) : null}
+                style={linkColor && linkedAsset === asset.symbol ? { borderColor: linkColor } : undefined}
+                onClick={() => {
+                  setLinkedAsset(asset.symbol);
+                  symbolLink.publish(assetToTicker(asset.symbol), ASSET_DISPLAY_NAMES[asset.symbol]);
+                  if (hasAnalysis) setSelectedAssetForModal(asset.symbol);
+                }}
               >
                         {/* DELETE BUTTON */}
                         <button
@@ -10,6 +10,7 @@ import {
   TrendingUp, TrendingDown, Newspaper, Clock, Database
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { alertDispatcher } from '@/services/AlertDispatchService';
 
 export interface Alert {
   id: string;
@@ -99,6 +100,25 @@ const AlertItem: React.FC<{
   );
 };
 
+/** DB alerts older than this are shown but not pushed to delivery channels */
+const NOTIFY_MAX_AGE = 3600000;
+
+// Hand alerts to the delivery layer; ids it has already delivered are skipped there
+const notifyAlerts = (items: Alert[]) => {
+  items
+    .filter(a => Date.now() - a.timestamp < NOTIFY_MAX_AGE)
+    .forEach(a => void alertDispatcher.dispatch({
+      id: `news-${a.id}`,
+      source: 'news',
+      title: a.title,
+      message: a.message,
+      symbol: a.asset,
+      value: a.value,
+      severity: a.severity,
+      timestamp: a.timestamp,
+    }));
+};
+
 export const AlertSystem: React.FC<AlertSystemProps> = ({
   rawNews,
   pinnedAssets,
@@ -141,6 +161,7 @@ export const AlertSystem: React.FC<AlertSystemProps> = ({
             metadata: a.data as any || {},
           }));
           setAlerts(mapped);
+          notifyAlerts(mapped);
           console.log(`🚨 Loaded ${mapped.length} alerts from DB`);
         }
       } catch (err) {
@@ -185,6 +206,7 @@ export const AlertSystem: React.FC<AlertSystemProps> = ({
     }
     
     if (localAlerts.length > 0) {
+      notifyAlerts(localAlerts);
       setAlerts(prev => {
         const existingIds = new Set(prev.map(a => a.id));
         const newOnes = localAlerts.filter(a => !existingIds.has(a.id));
@@ -5,15 +5,22 @@ import { ChartInteraction, InteractionCallbacks } from './ChartInteraction';
 import { DOMRenderer } from './DOMRenderer';
 import { FullscreenDOMRenderer, DEFAULT_ENHANCED_DOM_CONFIG } from './FullscreenDOMRenderer';
 import { Candle, ChartViewport, ChartThemeColors, ChartDimensions, CrosshairState, DrawingObject, ChartMode, DrawingType, IndicatorData, DOMConfig } from './types';
-import { OHLCVData } from '@/services/ChartDataService';
+import { chartDataService, OHLCVData, Timeframe } from '@/services/ChartDataService';
+import { applyBarType, BarTypeConfig } from '@/utils/barTypes';
+import { bucketStart, timeframeToMs } from '@/utils/pine/security';
 import { ChartTheme } from '../ChartThemes';
-import { binanceWS } from '@/services/BinanceWebSocketService';
+import { binanceWS, TradeUpdate } from '@/services/BinanceWebSocketService';
 import { binanceOrderBook, OrderBookData } from '@/services/BinanceOrderBookService';
 import { syntheticDOM } from '@/services/SyntheticDOMService';
+import { orderBookRecorder, orderBookReplay } from '@/services/OrderBookRecorderService';
+import { chartDrawings } from '@/services/ChartDrawingsService';
 import { DeepChartsConfig, DEFAULT_DEEPCHARTS_CONFIG, computeDeepCharts } from '../indicators/DeepChartsEngine';
 import { DeepChartsRenderer } from '../indicators/DeepChartsRenderer';
+import { FootprintConfig, FootprintAccumulator, computeFootprint } from '../indicators/FootprintEngine';
+import { FootprintRenderer } from '../indicators/FootprintRenderer';
 
 import DrawingToolbar from '../DrawingToolbar';
+import ReplayControls from './ReplayControls';
 
 
 interface ABLEChartCanvasProps {
@@ -28,6 +35,9 @@ interface ABLEChartCanvasProps {
   drawingMode?: DrawingType | null;
   domConfig?: DOMConfig;
   deepChartsConfig?: DeepChartsConfig;
+  footprintConfig?: FootprintConfig;
+  /** Heikin-Ashi, Renko, range, Kagi or line-break bars built from the data */
+  barType?: BarTypeConfig | null;
   
   onCrosshairMove?: (data: { price: number; time: number; visible: boolean }) => void;
   onLoadMoreHistory?: () => void;
@@ -35,6 +45,18 @@ interface ABLEChartCanvasProps {
   onDOMFullscreenChange?: (isFullscreen: boolean) => void;
 }
 
+// Candle period in ms for a chart timeframe, custom intervals included
+const periodMsFor = (timeframe: string) => timeframeToMs(timeframe) || 60_000;
+const DAY_MS = 86_400_000;
+
+// Bars as displayed: regular candles, or the derived bar type built from them
+const displayBars = (candles: Candle[], barType?: BarTypeConfig | null): Candle[] =>
+  barType && barType.type !== 'candles' ? applyBarType(candles, barType) : candles;
+
+// Footprint redraws are batched; a busy aggTrade stream would otherwise re-render per trade
+const FOOTPRINT_REFRESH_MS = 250;
+const FOOTPRINT_BACKFILL_PAGES = 5;
+
 const convertToCandles = (data: OHLCVData[]): Candle[] => {
   return data.map(d => ({
     timestamp: d.timestamp,
@@ -58,6 +80,8 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
   drawingMode,
   domConfig,
   deepChartsConfig,
+  footprintConfig,
+  barType,
   onCrosshairMove,
   onLoadMoreHistory,
   domFullscreen: domFullscreenProp,
@@ -68,10 +92,20 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
   const domRendererRef = useRef<DOMRenderer | null>(null);
   const fullscreenDOMRef = useRef<FullscreenDOMRenderer | null>(null);
   const deepChartsRendererRef = useRef<DeepChartsRenderer | null>(null);
+  const footprintRendererRef = useRef<FootprintRenderer | null>(null);
+  const footprintAccRef = useRef<FootprintAccumulator | null>(null);
   const interactionRef = useRef<ChartInteraction | null>(null);
+  // Identifies this pane so it ignores its own drawing saves when they echo back
+  const paneIdRef = useRef(`pane_${Math.random().toString(36).slice(2, 10)}`);
+  const symbolRef = useRef(symbol);
+  symbolRef.current = symbol;
   const animationFrameRef = useRef<number | null>(null);
   
-  const [candles, setCandles] = useState<Candle[]>([]);
+  // Raw time bars (live-updated); `candles` below is what is displayed
+  const [rawCandles, setCandles] = useState<Candle[]>([]);
+  const candles = useMemo(() => displayBars(rawCandles, barType), [rawCandles, barType]);
+  const barTypeRef = useRef(barType);
+  barTypeRef.current = barType;
   const [viewport, setViewport] = useState<ChartViewport>({
     startIndex: 0,
     endIndex: 0,
@@ -93,6 +127,9 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
   const [mode, setMode] = useState<ChartMode>('normal');
   const [orderBook, setOrderBook] = useState<OrderBookData | null>(null);
   const [domConnected, setDomConnected] = useState(false);
+  const [replayActive, setReplayActive] = useState(orderBookReplay.isActive());
+  const replayActiveRef = useRef(replayActive);
+  const [footprintVersion, setFootprintVersion] = useState(0);
   
   const [selectedDrawing, setSelectedDrawing] = useState<DrawingObject | null>(null);
   const [toolbarPos, setToolbarPos] = useState<{ x: number; y: number } | null>(null);
@@ -146,36 +183,42 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
     isInitialLoadRef.current = true;
   }, [symbol, timeframe]);
 
+  // Show the last 100 candles with padded price range
+  const fitToLatest = useCallback((newCandles: Candle[]) => {
+    const visibleCount = Math.min(100, newCandles.length);
+    const startIdx = Math.max(0, newCandles.length - visibleCount);
+
+    let min = Infinity, max = -Infinity;
+    for (let i = startIdx; i < newCandles.length; i++) {
+      min = Math.min(min, newCandles[i].low);
+      max = Math.max(max, newCandles[i].high);
+    }
+
+    const padding = (max - min) * 0.05;
+
+    setViewport(prev => ({
+      ...prev,
+      startIndex: startIdx,
+      endIndex: newCandles.length - 1,
+      priceMin: min - padding,
+      priceMax: max + padding,
+    }));
+  }, []);
+
   useEffect(() => {
-    if (data.length > 0) {
+    if (data.length > 0 && !replayActiveRef.current) {
       const newCandles = convertToCandles(data);
+      const shown = displayBars(newCandles, barTypeRef.current);
       const prevCount = prevCandleCountRef.current;
-      const prepended = prevCount > 0 ? newCandles.length - prevCount : 0;
+      const prepended = prevCount > 0 ? shown.length - prevCount : 0;
       
       setCandles(newCandles);
-      prevCandleCountRef.current = newCandles.length;
+      prevCandleCountRef.current = shown.length;
       
       if (isInitialLoadRef.current || prepended <= 0) {
         // Initial load or new data appended: show last 100 candles
         isInitialLoadRef.current = false;
-        const visibleCount = Math.min(100, newCandles.length);
-        const startIdx = Math.max(0, newCandles.length - visibleCount);
-        
-        let min = Infinity, max = -Infinity;
-        for (let i = startIdx; i < newCandles.length; i++) {
-          min = Math.min(min, newCandles[i].low);
-          max = Math.max(max, newCandles[i].high);
-        }
-        
-        const padding = (max - min) * 0.05;
-        
-        setViewport(prev => ({
-          ...prev,
-          startIndex: startIdx,
-          endIndex: newCandles.length - 1,
-          priceMin: min - padding,
-          priceMax: max + padding,
-        }));
+        fitToLatest(shown);
       } else {
         // History prepended: shift viewport indices so user stays at same position
         setViewport(prev => ({
@@ -185,7 +228,60 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
         }));
       }
     }
-  }, [data]);
+  }, [data, fitToLatest]);
+
+  // Replay mode: recorded candles and order book replace the live feeds
+  useEffect(() => orderBookReplay.subscribeToState(state => {
+    const active = state.session !== null;
+    if (active !== replayActiveRef.current) {
+      replayActiveRef.current = active;
+      setReplayActive(active);
+    }
+  }), []);
+
+  useEffect(() => {
+    if (!replayActive) {
+      // Back to live: restore the chart's own data
+      if (data.length > 0) {
+        const liveCandles = convertToCandles(data);
+        const shown = displayBars(liveCandles, barTypeRef.current);
+        setCandles(liveCandles);
+        prevCandleCountRef.current = shown.length;
+        fitToLatest(shown);
+      }
+      return;
+    }
+
+    // Refit only when a bar is added (or after a seek), not on every tick of the forming bar
+    let lastCount = -1;
+    return orderBookReplay.subscribeToCandles(recorded => {
+      const replayCandles = convertToCandles(recorded);
+      const shown = displayBars(replayCandles, barTypeRef.current);
+      setCandles(replayCandles);
+      if (shown.length !== lastCount) fitToLatest(shown);
+      lastCount = shown.length;
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [replayActive, fitToLatest]);
+
+  // Switching bar type changes the bar count entirely: refit
+  const barTypeMountedRef = useRef(false);
+  useEffect(() => {
+    if (!barTypeMountedRef.current) {
+      barTypeMountedRef.current = true;
+      return;
+    }
+    if (candles.length === 0) return;
+    prevCandleCountRef.current = candles.length;
+    fitToLatest(candles);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [barType]);
+
+  // While recording this symbol, capture the forming candle alongside the book
+  useEffect(() => {
+    if (replayActive || rawCandles.length === 0 || !orderBookRecorder.isRecording(symbol)) return;
+    orderBookRecorder.recordCandle(rawCandles[rawCandles.length - 1]);
+  }, [rawCandles, symbol, replayActive]);
 
   // Real-time updates for crypto
   const candlesReadyRef = useRef(false);
@@ -194,39 +290,66 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
   useEffect(() => {
     if (symbolType !== 'crypto') return;
 
-    const interval = timeframe === '1D' ? '1d' : timeframe === '1W' ? '1w' : timeframe === '1M' ? '1M' : timeframe.toLowerCase();
-
-    // Determine the candle period in ms for proper bucketing
-    const periodMs: Record<string, number> = {
-      '1m': 60_000, '3m': 180_000, '5m': 300_000, '15m': 900_000,
-      '30m': 1_800_000, '1h': 3_600_000, '4h': 14_400_000,
-      '1d': 86_400_000, '1w': 604_800_000, '1M': 2_592_000_000,
-    };
-    const bucket = periodMs[interval] || 60_000;
+    const tf = timeframe as Timeframe;
+    const interval = chartDataService.binanceStreamInterval(tf);
+    // Custom timeframes stream a finer source interval and fold it into the current bar
+    const resampled = chartDataService.binanceInterval(tf) !== interval;
+    let source: { timestamp: number; volumeBefore: number } | null = null;
 
     const unsubscribe = binanceWS.subscribeToKline(symbol, interval, (update) => {
-      if (!candlesReadyRef.current) return;
+      if (!candlesReadyRef.current || replayActiveRef.current) return;
 
       setCandles(prev => {
         const newCandles = [...prev];
         const lastCandle = newCandles[newCandles.length - 1];
-
-        const updateCandle: Candle = {
-          timestamp: update.kline.timestamp,
-          open: update.kline.open,
-          high: update.kline.high,
-          low: update.kline.low,
-          close: update.kline.close,
-          volume: update.kline.volume,
-        };
-
-        // Same candle period → update in place; new period → append
-        if (lastCandle && Math.floor(lastCandle.timestamp / bucket) === Math.floor(update.kline.timestamp / bucket)) {
-          newCandles[newCandles.length - 1] = updateCandle;
-        } else {
-          newCandles.push(updateCandle);
+        const { kline } = update;
+        const start = bucketStart(kline.timestamp, timeframe);
+
+        if (!resampled) {
+          const updateCandle: Candle = {
+            timestamp: kline.timestamp,
+            open: kline.open,
+            high: kline.high,
+            low: kline.low,
+            close: kline.close,
+            volume: kline.volume,
+          };
+
+          // Same candle period → update in place; new period → append
+          if (lastCandle && bucketStart(lastCandle.timestamp, timeframe) === start) {
+            newCandles[newCandles.length - 1] = updateCandle;
+          } else {
+            newCandles.push(updateCandle);
+          }
+          return newCandles;
         }
 
+        if (lastCandle && lastCandle.timestamp === start) {
+          if (source?.timestamp !== kline.timestamp) {
+            // New source kline: the bar already holds the volume of the ones before it
+            source = {
+              timestamp: kline.timestamp,
+              volumeBefore: source ? lastCandle.volume : Math.max(0, lastCandle.volume - kline.volume),
+            };
+          }
+          newCandles[newCandles.length - 1] = {
+            ...lastCandle,
+            high: Math.max(lastCandle.high, kline.high),
+            low: Math.min(lastCandle.low, kline.low),
+            close: kline.close,
+            volume: source.volumeBefore + kline.volume,
+          };
+        } else if (!lastCandle || start > lastCandle.timestamp) {
+          source = { timestamp: kline.timestamp, volumeBefore: 0 };
+          newCandles.push({
+            timestamp: start,
+            open: kline.open,
+            high: kline.high,
+            low: kline.low,
+            close: kline.close,
+            volume: kline.volume,
+          });
+        }
         return newCandles;
       });
     });
@@ -234,10 +357,120 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
     return unsubscribe;
   }, [symbol, symbolType, timeframe]);
 
+  // Footprint trades — live aggTrades for crypto, recorded trades while replaying.
+  // Other assets (and weekly/monthly bars, which Binance does not align to epoch
+  // buckets) have no trade feed and are estimated from candles + synthetic DOM.
+  useEffect(() => {
+    if (!footprintConfig?.enabled) {
+      footprintAccRef.current = null;
+      return;
+    }
+
+    const periodMs = periodMsFor(timeframe);
+    const acc = new FootprintAccumulator(periodMs);
+    footprintAccRef.current = acc;
+
+    let dirty = true;
+    const refreshTimer = setInterval(() => {
+      if (!dirty) return;
+      dirty = false;
+      setFootprintVersion(v => v + 1);
+    }, FOOTPRINT_REFRESH_MS);
+
+    if (replayActive) {
+      // Seeks rebuild the replay without emitting trades, so reload the retained ones
+      const rebuild = () => {
+        acc.reset();
+        for (const t of orderBookReplay.getTrades()) {
+          acc.addTrade({ price: t.price, quantity: t.quantity, timestamp: t.time, isBuyerMaker: t.isBuyerMaker });
+        }
+        dirty = true;
+      };
+      rebuild();
+
+      let lastTime = orderBookReplay.getState().currentTime;
+      const unsubState = orderBookReplay.subscribeToState(state => {
+        const step = state.currentTime - lastTime;
+        lastTime = state.currentTime;
+        // Playback moves forward by about speed × wall time; anything else was a seek
+        if (step < 0 || step > state.speed * 1000) rebuild();
+      });
+      const unsubTrades = orderBookReplay.subscribeToTrades(t => {
+        acc.addTrade({ price: t.price, quantity: t.quantity, timestamp: t.time, isBuyerMaker: t.isBuyerMaker });
+        dirty = true;
+      });
+
+      return () => { clearInterval(refreshTimer); unsubState(); unsubTrades(); };
+    }
+
+    if (symbolType !== 'crypto' || periodMs > DAY_MS) {
+      return () => clearInterval(refreshTimer);
+    }
+
+    // Stream trades are held back until the forming bar has been backfilled over REST
+    let cancelled = false;
+    let backfilled = false;
+    let lastTradeId = -1;
+    const pending: TradeUpdate[] = [];
+    const unsubTrades = binanceWS.subscribeToTrades(symbol, trade => {
+      if (!backfilled) {
+        pending.push(trade);
+        return;
+      }
+      acc.addTrade(trade);
+      dirty = true;
+    });
+
+    (async () => {
+      const barStart = Math.floor(Date.now() / periodMs) * periodMs;
+      let from = barStart;
+      let complete = false;
+      for (let page = 0; page < FOOTPRINT_BACKFILL_PAGES && !cancelled; page++) {
+        const trades = await binanceWS.fetchRecentTrades(symbol, from);
+        for (const trade of trades) {
+          if (trade.tradeId <= lastTradeId) continue;
+          acc.addTrade(trade);
+          lastTradeId = trade.tradeId;
+        }
+        // An empty first page means the request failed, not a quiet market
+        if (trades.length < 1000) {
+          complete = page > 0 || trades.length > 0;
+          break;
+        }
+        from = trades[trades.length - 1].timestamp;
+      }
+      if (cancelled) return;
+
+      // Without a full backfill only bars opening after now are fully covered
+      acc.setCoverageStart(complete ? barStart : barStart + periodMs);
+      for (const trade of pending) {
+        if (trade.tradeId > lastTradeId) acc.addTrade(trade);
+      }
+      pending.length = 0;
+      backfilled = true;
+      dirty = true;
+    })();
+
+    return () => {
+      cancelled = true;
+      clearInterval(refreshTimer);
+      unsubTrades();
+    };
+  }, [symbol, symbolType, timeframe, footprintConfig?.enabled, replayActive]);
+
+  // DOM connection — crypto uses Binance, other assets use synthetic DOM from volume.
+  // Footprint on non-crypto also needs the synthetic book for its estimates.
+  const needsSyntheticBook = !!footprintConfig?.enabled && symbolType !== 'crypto';
+  const bookEnabled = !!domConfig?.enabled || needsSyntheticBook;
 
-  // DOM connection — crypto uses Binance, other assets use synthetic DOM from volume
   useEffect(() => {
-    if (!domConfig?.enabled) {
+    if (replayActive) {
+      const unsubReplay = orderBookReplay.subscribe((data) => setOrderBook(data));
+      const unsubConnection = orderBookReplay.subscribeToConnection((connected) => setDomConnected(connected));
+      return () => { unsubReplay(); unsubConnection(); setOrderBook(null); };
+    }
+
+    if (!bookEnabled) {
       binanceOrderBook.disconnect();
       syntheticDOM.disconnect();
       setOrderBook(null);
@@ -249,7 +482,7 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
     if (symbolType === 'crypto') {
       // Crypto: use real Binance order book
       syntheticDOM.disconnect();
-      binanceOrderBook.connect(symbol, domConfig.rows || 20);
+      binanceOrderBook.connect(symbol, domConfig?.rows || 20);
 
       const unsubOrderBook = binanceOrderBook.subscribe((data) => setOrderBook(data));
       const unsubConnection = binanceOrderBook.subscribeToConnection((connected) => setDomConnected(connected));
@@ -265,13 +498,13 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
 
       return () => { unsubSynthetic(); unsubConnection(); };
     }
-  }, [symbol, symbolType, domConfig?.enabled, domConfig?.rows]);
+  }, [symbol, symbolType, bookEnabled, domConfig?.rows, replayActive]);
 
   // Update synthetic DOM whenever candles change (for non-crypto assets)
   useEffect(() => {
-    if (symbolType === 'crypto' || !domConfig?.enabled || candles.length < 5) return;
+    if (symbolType === 'crypto' || !bookEnabled || candles.length < 5 || replayActive) return;
     syntheticDOM.updateFromCandles(symbol, data, domConfig?.rows || 20);
-  }, [symbol, symbolType, domConfig?.enabled, data, candles.length]);
+  }, [symbol, symbolType, bookEnabled, data, candles.length, replayActive]);
 
   // Initialize canvas and renderer
   useEffect(() => {
@@ -304,6 +537,7 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
     });
 
     deepChartsRendererRef.current = new DeepChartsRenderer(ctx, dpr);
+    footprintRendererRef.current = new FootprintRenderer(ctx, dpr);
   }, [width, height, domConfig]);
 
   // Handle click to toggle fullscreen DOM
@@ -341,6 +575,7 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
         onCrosshairMove?.({ price: ch.price, time: ch.time, visible: ch.visible });
       },
       onDrawingUpdate: setDrawings,
+      onDrawingsCommit: (next) => chartDrawings.save(symbolRef.current, next, paneIdRef.current),
       onModeChange: setMode,
       onDrawingSelect: (drawing, pos) => {
         setSelectedDrawing(drawing);
@@ -355,12 +590,22 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
       candles,
       callbacks
     );
+    interactionRef.current.setDrawings(chartDrawings.load(symbolRef.current));
+    if (drawingMode) interactionRef.current.setMode('drawing', drawingMode);
 
     return () => {
       interactionRef.current?.destroy();
     };
   }, [candles.length > 0]);
 
+  // Drawings are stored per symbol and shared by every pane showing it
+  useEffect(() => {
+    interactionRef.current?.setDrawings(chartDrawings.load(symbol));
+    return chartDrawings.subscribe(symbol, (next, sourceId) => {
+      if (sourceId !== paneIdRef.current) interactionRef.current?.setDrawings(next);
+    });
+  }, [symbol]);
+
   // Update interaction state
   useEffect(() => {
     interactionRef.current?.updateState(dimensions, viewport, candles);
@@ -401,12 +646,33 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
     }
   }, [candles, deepChartsConfig, orderBook, viewport.startIndex, viewport.endIndex]);
 
+  // Compute footprint bars for the visible range
+  const footprintResult = useMemo(() => {
+    if (!footprintConfig?.enabled || candles.length === 0) return null;
+    try {
+      return computeFootprint(
+        candles,
+        footprintConfig,
+        footprintAccRef.current,
+        orderBook,
+        viewport.startIndex,
+        viewport.endIndex
+      );
+    } catch (e) {
+      console.warn('[Footprint] Computation error:', e);
+      return null;
+    }
+    // footprintVersion stands in for the accumulator ref, which mutates in place
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [candles, footprintConfig, orderBook, viewport.startIndex, viewport.endIndex, footprintVersion]);
+
   // Render loop
   const render = useCallback(() => {
     const renderer = rendererRef.current;
     const domRenderer = domRendererRef.current;
     const fullscreenDOM = fullscreenDOMRef.current;
     const deepChartsRenderer = deepChartsRendererRef.current;
+    const footprintRenderer = footprintRendererRef.current;
     if (!renderer || candles.length === 0) return;
 
     // If fullscreen DOM is active, render only the DOM overlay
@@ -419,7 +685,11 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
     // Normal chart rendering
     renderer.clear(dimensions, colors);
     renderer.drawGrid(dimensions, viewport, colors);
-    renderer.drawCandles(candles, viewport, dimensions, colors);
+    if (footprintConfig?.enabled && footprintResult && footprintRenderer) {
+      footprintRenderer.drawFootprint(footprintResult, footprintConfig, candles, viewport, dimensions, colors);
+    } else {
+      renderer.drawCandles(candles, viewport, dimensions, colors);
+    }
     
     const volumeIndicatorActive = indicators.some(ind => ind.name.toLowerCase() === 'volume' && ind.visible);
     if (volumeIndicatorActive) {
@@ -436,7 +706,7 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
     }
     
     if (drawings.length > 0) {
-      renderer.drawDrawings(drawings, viewport, dimensions, colors);
+      renderer.drawDrawings(drawings, candles, viewport, dimensions, colors);
     }
     
     renderer.drawPriceAxis(viewport, dimensions, colors);
@@ -450,7 +720,7 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
     renderer.drawWatermark(dimensions);
     renderer.drawCrosshair(crosshair, dimensions, colors);
     renderer.drawTooltip(crosshair, dimensions, colors);
-  }, [candles, viewport, dimensions, colors, crosshair, drawings, indicators, orderBook, domConfig, domFullscreen, deepChartsConfig, deepChartsResult]);
+  }, [candles, viewport, dimensions, colors, crosshair, drawings, indicators, orderBook, domConfig, domFullscreen, deepChartsConfig, deepChartsResult, footprintConfig, footprintResult]);
 
   // Animation frame for rendering
   useEffect(() => {
@@ -486,6 +756,15 @@ export const ABLEChartCanvas: React.FC<ABLEChartCanvasProps> = ({
                 : 'default',
         }}
       />
+      {(domConfig?.enabled || deepChartsConfig?.enabled || footprintConfig?.enabled || replayActive) && !domFullscreen && (
+        <ReplayControls
+          symbol={symbol}
+          timeframe={timeframe}
+          source={symbolType === 'crypto' ? 'binance' : 'synthetic'}
+          canRecord={!!domConfig?.enabled && !replayActive}
+          getHistory={() => data}
+        />
+      )}
       {selectedDrawing && toolbarPos && (
         <DrawingToolbar
           drawing={selectedDrawing}
@@ -1,5 +1,15 @@
 // ABLE Chart Engine - Interaction Handler (TradingView-style Scrolling & Zoom)
-import { Candle, ChartViewport, ChartDimensions, DrawingObject, CrosshairState, DrawingType, ChartMode } from './types';
+import { Candle, ChartViewport, ChartDimensions, DrawingObject, DrawingPoint, CrosshairState, DrawingType, ChartMode, DRAWING_POINT_COUNT } from './types';
+import {
+  buildDrawingShape,
+  hitTestHandles,
+  hitTestShape,
+  indexToTime,
+  screenToDrawingPoint,
+  screenXToIndex,
+  screenYToPrice,
+  timeToIndex,
+} from './DrawingGeometry';
 
 export interface InteractionCallbacks {
   onViewportChange: (viewport: ChartViewport) => void;
@@ -7,6 +17,8 @@ export interface InteractionCallbacks {
   onDrawingUpdate: (drawings: DrawingObject[]) => void;
   onModeChange: (mode: ChartMode) => void;
   onDrawingSelect?: (drawing: DrawingObject | null, screenPos: { x: number; y: number } | null) => void;
+  /** Fired when drawings change in a way worth persisting (create, edit, move, delete) */
+  onDrawingsCommit?: (drawings: DrawingObject[]) => void;
 }
 
 export class ChartInteraction {
@@ -51,6 +63,22 @@ export class ChartInteraction {
   private currentDrawing: DrawingObject | null = null;
   private selectedDrawingId: string | null = null;
 
+  // Drawing creation: drag to place the next point, or click-click
+  private drawingPressStart: { x: number; y: number } | null = null;
+  private drawingPressCreated = false;
+
+  // Dragging a selected drawing by a handle (handleIndex >= 0) or by its body
+  private dragState: {
+    id: string;
+    handleIndex: number;
+    startX: number;
+    startY: number;
+    origin: DrawingPoint[];
+    moved: boolean;
+  } | null = null;
+  private readonly HIT_TOLERANCE = 8; // pixels
+  private readonly HANDLE_TOLERANCE = 8;
+
   constructor(
     canvas: HTMLCanvasElement,
     dimensions: ChartDimensions,
@@ -74,6 +102,10 @@ export class ChartInteraction {
   }
 
   setMode(mode: ChartMode, drawingType?: DrawingType) {
+    if (this.currentDrawing) {
+      this.currentDrawing = null;
+      this.callbacks.onDrawingUpdate([...this.drawings]);
+    }
     this.mode = mode;
     if (drawingType) this.drawingType = drawingType;
     this.canvas.style.cursor = mode === 'drawing' ? 'crosshair' : 'default';
@@ -84,14 +116,20 @@ export class ChartInteraction {
     return this.drawings;
   }
 
+  /** Replace drawings from outside (load/sync); keeps the current selection, does not commit */
   setDrawings(drawings: DrawingObject[]) {
-    this.drawings = drawings;
-    this.callbacks.onDrawingUpdate(drawings);
+    if (this.selectedDrawingId && !drawings.some(d => d.id === this.selectedDrawingId)) {
+      this.selectedDrawingId = null;
+      this.callbacks.onDrawingSelect?.(null, null);
+    }
+    this.drawings = drawings.map(d => ({ ...d, selected: d.id === this.selectedDrawingId }));
+    this.callbacks.onDrawingUpdate([...this.drawings]);
   }
 
   updateDrawingById(id: string, updates: Partial<DrawingObject>) {
     this.drawings = this.drawings.map(d => d.id === id ? { ...d, ...updates } : d);
     this.callbacks.onDrawingUpdate([...this.drawings]);
+    this.commitDrawings();
   }
 
   deleteDrawingById(id: string) {
@@ -99,6 +137,7 @@ export class ChartInteraction {
     this.selectedDrawingId = null;
     this.callbacks.onDrawingSelect?.(null, null);
     this.callbacks.onDrawingUpdate([...this.drawings]);
+    this.commitDrawings();
   }
 
   duplicateDrawingById(id: string) {
@@ -107,11 +146,12 @@ export class ChartInteraction {
     const clone: DrawingObject = {
       ...drawing,
       id: `drawing_${Date.now()}`,
-      points: drawing.points.map(p => ({ ...p, y: p.y + 20, price: p.price * 0.999 })),
+      points: drawing.points.map(p => ({ ...p, price: p.price * 0.999 })),
       selected: false,
     };
     this.drawings.push(clone);
     this.callbacks.onDrawingUpdate([...this.drawings]);
+    this.commitDrawings();
   }
 
   deselectAll() {
@@ -123,7 +163,14 @@ export class ChartInteraction {
   clearDrawings() {
     this.drawings = [];
     this.currentDrawing = null;
+    this.selectedDrawingId = null;
+    this.callbacks.onDrawingSelect?.(null, null);
     this.callbacks.onDrawingUpdate([]);
+    this.commitDrawings();
+  }
+
+  private commitDrawings() {
+    this.callbacks.onDrawingsCommit?.(this.drawings.filter(d => d.isComplete));
   }
 
   private bindEvents() {
@@ -193,16 +240,26 @@ export class ChartInteraction {
     }
 
     if (this.mode === 'drawing') {
-      this.startDrawing(x, y);
+      this.pressDrawing(x, y);
     } else {
+      // Grab a handle of the selected drawing
+      const selected = this.drawings.find(d => d.id === this.selectedDrawingId);
+      if (selected && !selected.locked) {
+        const handleIndex = hitTestHandles(this.shapeOf(selected), { x, y }, this.HANDLE_TOLERANCE);
+        if (handleIndex >= 0) {
+          this.beginDrag(selected, handleIndex, x, y);
+          return;
+        }
+      }
+
       // Try to select a drawing first
       const hitDrawing = this.hitTestDrawings(x, y);
       if (hitDrawing) {
         this.drawings = this.drawings.map(d => ({ ...d, selected: d.id === hitDrawing.id }));
         this.selectedDrawingId = hitDrawing.id;
-        const rect = this.canvas.getBoundingClientRect();
-        this.callbacks.onDrawingSelect?.(hitDrawing, { x: e.clientX - rect.left, y: e.clientY - rect.top });
+        this.callbacks.onDrawingSelect?.({ ...hitDrawing, selected: true }, { x, y });
         this.callbacks.onDrawingUpdate([...this.drawings]);
+        if (!hitDrawing.locked) this.beginDrag(hitDrawing, -1, x, y);
         return;
       }
       
@@ -240,7 +297,9 @@ export class ChartInteraction {
       return;
     }
 
-    if (this.isPanning) {
+    if (this.dragState) {
+      this.dragDrawing(x, y);
+    } else if (this.isPanning) {
       const deltaX = x - this.lastMouseX;
       const deltaY = y - this.lastMouseY;
       
@@ -268,7 +327,7 @@ export class ChartInteraction {
     }
 
     // Update cursor based on position
-    if (!this.isPanning && !this.isPriceAxisDragging && this.mode !== 'drawing') {
+    if (!this.isPanning && !this.isPriceAxisDragging && !this.dragState && this.mode !== 'drawing') {
       this.canvas.style.cursor = this.isOnPriceAxis(x) ? 'ns-resize' : 'default';
     }
 
@@ -280,13 +339,18 @@ export class ChartInteraction {
     }
   };
 
-  private handleMouseUp = (_e: MouseEvent) => {
+  private handleMouseUp = (e: MouseEvent) => {
     if (this.isPriceAxisDragging) {
       this.isPriceAxisDragging = false;
       this.canvas.style.cursor = 'default';
       return;
     }
 
+    if (this.dragState) {
+      this.endDrag();
+      return;
+    }
+
     if (this.isPanning) {
       this.isPanning = false;
       this.canvas.style.cursor = this.mode === 'drawing' ? 'crosshair' : 'default';
@@ -299,7 +363,8 @@ export class ChartInteraction {
     }
     
     if (this.mode === 'drawing' && this.currentDrawing) {
-      this.finishDrawing();
+      const { x, y } = this.getCanvasCoords(e);
+      this.releaseDrawing(x, y);
     }
   };
 
@@ -307,6 +372,9 @@ export class ChartInteraction {
     if (this.isPriceAxisDragging) {
       this.isPriceAxisDragging = false;
     }
+    if (this.dragState) {
+      this.endDrag();
+    }
     if (this.isPanning) {
       this.isPanning = false;
       this.canvas.style.cursor = 'default';
@@ -723,147 +791,145 @@ export class ChartInteraction {
   // DRAWING TOOLS
   // =========================================================================
 
-  private startDrawing(x: number, y: number) {
-    const { chartArea } = this.dimensions;
-    const price = this.viewport.priceMax - (y - chartArea.y) / chartArea.height * (this.viewport.priceMax - this.viewport.priceMin);
-    const indexRange = this.viewport.endIndex - this.viewport.startIndex;
-    const index = this.viewport.startIndex + (x - chartArea.x) / chartArea.width * indexRange;
-    const time = this.candles[Math.floor(index)]?.timestamp || Date.now();
+  private toDrawingPoint(x: number, y: number): DrawingPoint {
+    return screenToDrawingPoint(x, y, this.candles, this.viewport, this.dimensions.chartArea);
+  }
+
+  private pressDrawing(x: number, y: number) {
+    this.drawingPressStart = { x, y };
+    this.drawingPressCreated = false;
+    if (this.currentDrawing) return;
 
+    const point = this.toDrawingPoint(x, y);
+    const needed = DRAWING_POINT_COUNT[this.drawingType];
     this.currentDrawing = {
       id: `drawing_${Date.now()}`,
       type: this.drawingType,
-      points: [{ x, y, price, time }],
+      // The trailing point follows the cursor until it is placed
+      points: needed > 1 ? [point, { ...point }] : [point],
       color: '#ffb000',
       lineWidth: 2,
       lineStyle: 'solid',
       isComplete: false,
+      text: this.drawingType === 'text' ? 'Text' : this.drawingType === 'callout' ? 'Callout' : undefined,
     };
+    this.drawingPressCreated = true;
+    this.callbacks.onDrawingUpdate([...this.drawings, this.currentDrawing]);
   }
 
   private updateDrawing(x: number, y: number) {
-    if (!this.currentDrawing) return;
-    
-    const { chartArea } = this.dimensions;
-    const price = this.viewport.priceMax - (y - chartArea.y) / chartArea.height * (this.viewport.priceMax - this.viewport.priceMin);
-    const indexRange = this.viewport.endIndex - this.viewport.startIndex;
-    const index = this.viewport.startIndex + (x - chartArea.x) / chartArea.width * indexRange;
-    const time = this.candles[Math.floor(index)]?.timestamp || Date.now();
+    if (!this.currentDrawing || this.currentDrawing.points.length < 2) return;
 
-    if (this.currentDrawing.points.length === 1) {
-      this.currentDrawing.points.push({ x, y, price, time });
-    } else {
-      this.currentDrawing.points[1] = { x, y, price, time };
+    const points = [...this.currentDrawing.points];
+    points[points.length - 1] = this.toDrawingPoint(x, y);
+    this.currentDrawing = { ...this.currentDrawing, points };
+    this.callbacks.onDrawingUpdate([...this.drawings, this.currentDrawing]);
+  }
+
+  private releaseDrawing(x: number, y: number) {
+    const drawing = this.currentDrawing;
+    if (!drawing) return;
+
+    const needed = DRAWING_POINT_COUNT[drawing.type];
+    const start = this.drawingPressStart;
+    const dragged = !!start && Math.hypot(x - start.x, y - start.y) > 4;
+    this.drawingPressStart = null;
+
+    // A plain click on the first point switches to click-click placement
+    if (needed > 1 && this.drawingPressCreated && !dragged) return;
+
+    if (needed === 1 || drawing.points.length >= needed) {
+      this.finishDrawing();
+      return;
     }
-    
+
+    // Place the trailing point and start a new one for the next click
+    const point = this.toDrawingPoint(x, y);
+    const points = [...drawing.points];
+    points[points.length - 1] = point;
+    this.currentDrawing = { ...drawing, points: [...points, { ...point }] };
     this.callbacks.onDrawingUpdate([...this.drawings, this.currentDrawing]);
   }
 
   private finishDrawing() {
     if (!this.currentDrawing) return;
-    
-    if (this.currentDrawing.points.length >= 2 || 
-        this.currentDrawing.type === 'horizontal' || 
-        this.currentDrawing.type === 'vertical') {
-      this.currentDrawing.isComplete = true;
-      this.drawings.push(this.currentDrawing);
+
+    const drawing: DrawingObject = { ...this.currentDrawing, isComplete: true };
+    if (drawing.type === 'longPosition' || drawing.type === 'shortPosition') {
+      // Default stop at 1:2 risk/reward, draggable afterwards
+      const [entry, target] = drawing.points;
+      drawing.points = [entry, target, { time: target.time, price: entry.price - (target.price - entry.price) / 2 }];
     }
-    
+
+    this.drawings.push(drawing);
     this.currentDrawing = null;
     this.callbacks.onDrawingUpdate([...this.drawings]);
+    this.commitDrawings();
   }
 
   // =========================================================================
-  // HIT TESTING - detect clicks on existing drawings
+  // EDITING - drag handles or move the whole drawing
   // =========================================================================
 
-  private hitTestDrawings(x: number, y: number): DrawingObject | null {
+  private beginDrag(drawing: DrawingObject, handleIndex: number, x: number, y: number) {
+    this.dragState = {
+      id: drawing.id,
+      handleIndex,
+      startX: x,
+      startY: y,
+      origin: drawing.points.map(p => ({ ...p })),
+      moved: false,
+    };
+    this.canvas.style.cursor = handleIndex >= 0 ? 'crosshair' : 'move';
+  }
+
+  private dragDrawing(x: number, y: number) {
+    const drag = this.dragState;
+    if (!drag) return;
+    if (!drag.moved && Math.hypot(x - drag.startX, y - drag.startY) < 3) return;
+    drag.moved = true;
+
     const { chartArea } = this.dimensions;
-    const HIT_TOLERANCE = 8; // pixels
+    let points: DrawingPoint[];
+    if (drag.handleIndex >= 0) {
+      points = drag.origin.map((p, i) => (i === drag.handleIndex ? this.toDrawingPoint(x, y) : p));
+    } else {
+      const deltaIndex = Math.round(
+        screenXToIndex(x, this.viewport, chartArea) - screenXToIndex(drag.startX, this.viewport, chartArea)
+      );
+      const deltaPrice = screenYToPrice(y, this.viewport, chartArea) - screenYToPrice(drag.startY, this.viewport, chartArea);
+      points = drag.origin.map(p => ({
+        time: indexToTime(Math.round(timeToIndex(p.time, this.candles)) + deltaIndex, this.candles),
+        price: p.price + deltaPrice,
+      }));
+    }
+
+    this.drawings = this.drawings.map(d => (d.id === drag.id ? { ...d, points } : d));
+    this.callbacks.onDrawingUpdate([...this.drawings]);
+  }
 
+  private endDrag() {
+    const moved = this.dragState?.moved;
+    this.dragState = null;
+    this.canvas.style.cursor = 'default';
+    if (moved) this.commitDrawings();
+  }
+
+  // =========================================================================
+  // HIT TESTING - detect clicks on existing drawings
+  // =========================================================================
+
+  private shapeOf(drawing: DrawingObject) {
+    return buildDrawingShape(drawing, this.candles, this.viewport, this.dimensions.chartArea);
+  }
+
+  private hitTestDrawings(x: number, y: number): DrawingObject | null {
     // Test in reverse order (topmost first)
     for (let i = this.drawings.length - 1; i >= 0; i--) {
       const drawing = this.drawings[i];
       if (!drawing.isComplete || drawing.points.length === 0) continue;
-
-      switch (drawing.type) {
-        case 'horizontal': {
-          const dy = this.priceToScreenY(drawing.points[0].price);
-          if (Math.abs(y - dy) < HIT_TOLERANCE && x >= chartArea.x && x <= chartArea.x + chartArea.width) {
-            return drawing;
-          }
-          break;
-        }
-        case 'vertical': {
-          // Use time-based positioning
-          const dx = drawing.points[0].x;
-          if (Math.abs(x - dx) < HIT_TOLERANCE && y >= chartArea.y && y <= chartArea.y + chartArea.height) {
-            return drawing;
-          }
-          break;
-        }
-        case 'trendline': {
-          if (drawing.points.length >= 2) {
-            const x1 = drawing.points[0].x;
-            const y1 = this.priceToScreenY(drawing.points[0].price);
-            const x2 = drawing.points[1].x;
-            const y2 = this.priceToScreenY(drawing.points[1].price);
-            if (this.distToSegment(x, y, x1, y1, x2, y2) < HIT_TOLERANCE) {
-              return drawing;
-            }
-          }
-          break;
-        }
-        case 'rectangle': {
-          if (drawing.points.length >= 2) {
-            const x1 = drawing.points[0].x;
-            const y1 = this.priceToScreenY(drawing.points[0].price);
-            const x2 = drawing.points[1].x;
-            const y2 = this.priceToScreenY(drawing.points[1].price);
-            const minX = Math.min(x1, x2), maxX = Math.max(x1, x2);
-            const minY = Math.min(y1, y2), maxY = Math.max(y1, y2);
-            // Check edges
-            const onEdge = (
-              (Math.abs(x - minX) < HIT_TOLERANCE || Math.abs(x - maxX) < HIT_TOLERANCE) && y >= minY - HIT_TOLERANCE && y <= maxY + HIT_TOLERANCE
-            ) || (
-              (Math.abs(y - minY) < HIT_TOLERANCE || Math.abs(y - maxY) < HIT_TOLERANCE) && x >= minX - HIT_TOLERANCE && x <= maxX + HIT_TOLERANCE
-            );
-            if (onEdge) return drawing;
-          }
-          break;
-        }
-        case 'fibonacci': {
-          if (drawing.points.length >= 2) {
-            const y1 = this.priceToScreenY(drawing.points[0].price);
-            const y2 = this.priceToScreenY(drawing.points[1].price);
-            const range = y2 - y1;
-            const levels = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
-            for (const level of levels) {
-              const ly = y1 + range * level;
-              if (Math.abs(y - ly) < HIT_TOLERANCE && x >= chartArea.x && x <= chartArea.x + chartArea.width) {
-                return drawing;
-              }
-            }
-          }
-          break;
-        }
-      }
+      if (hitTestShape(this.shapeOf(drawing), { x, y }, this.HIT_TOLERANCE)) return drawing;
     }
     return null;
   }
-
-  private priceToScreenY(price: number): number {
-    const { chartArea } = this.dimensions;
-    return chartArea.y + (this.viewport.priceMax - price) / (this.viewport.priceMax - this.viewport.priceMin) * chartArea.height;
-  }
-
-  private distToSegment(px: number, py: number, x1: number, y1: number, x2: number, y2: number): number {
-    const dx = x2 - x1;
-    const dy = y2 - y1;
-    const lenSq = dx * dx + dy * dy;
-    if (lenSq === 0) return Math.hypot(px - x1, py - y1);
-    let t = ((px - x1) * dx + (py - y1) * dy) / lenSq;
-    t = Math.max(0, Math.min(1, t));
-    return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
-  }
 }
@@ -1,5 +1,6 @@
 // ABLE Chart Engine - Canvas Renderer
 import { Candle, ChartViewport, ChartThemeColors, ChartDimensions, DrawingObject, CrosshairState, IndicatorData } from './types';
+import { buildDrawingShape, labelBounds } from './DrawingGeometry';
 
 
 export class ChartRenderer {
@@ -414,152 +415,105 @@ export class ChartRenderer {
     });
   }
 
-  drawDrawings(drawings: DrawingObject[], viewport: ChartViewport, dimensions: ChartDimensions, colors: ChartThemeColors) {
+  drawDrawings(drawings: DrawingObject[], candles: Candle[], viewport: ChartViewport, dimensions: ChartDimensions, colors: ChartThemeColors) {
     const { chartArea } = dimensions;
     const ctx = this.ctx;
 
+    // Work in CSS pixels and keep drawings (rays, extended lines) inside the plot
+    ctx.save();
+    ctx.scale(this.dpr, this.dpr);
+    ctx.beginPath();
+    ctx.rect(chartArea.x, chartArea.y, chartArea.width, chartArea.height);
+    ctx.clip();
+
+    const dashMap: Record<string, number[]> = {
+      solid: [],
+      dashed: [8, 4],
+      dotted: [2, 4],
+    };
+
     drawings.forEach(drawing => {
-      if (drawing.points.length === 0) return;
+      const shape = buildDrawingShape(drawing, candles, viewport, chartArea);
+
+      shape.fills.forEach(fill => {
+        if (fill.points.length < 3) return;
+        ctx.globalAlpha = fill.alpha;
+        ctx.fillStyle = fill.color || drawing.color;
+        ctx.beginPath();
+        ctx.moveTo(fill.points[0].x, fill.points[0].y);
+        fill.points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+        ctx.closePath();
+        ctx.fill();
+      });
+      ctx.globalAlpha = 1;
+
+      ctx.lineWidth = drawing.lineWidth;
+      shape.segments.forEach(segment => {
+        ctx.strokeStyle = segment.color || drawing.color;
+        ctx.setLineDash(segment.dashed ? [4, 4] : dashMap[drawing.lineStyle || 'solid'] || []);
+        ctx.beginPath();
+        ctx.moveTo(segment.from.x, segment.from.y);
+        ctx.lineTo(segment.to.x, segment.to.y);
+        ctx.stroke();
+      });
 
       ctx.strokeStyle = drawing.color;
-      ctx.lineWidth = drawing.lineWidth * this.dpr;
-      
-      // Apply line style
-      const dashMap: Record<string, number[]> = {
-        solid: [],
-        dashed: [8 * this.dpr, 4 * this.dpr],
-        dotted: [2 * this.dpr, 4 * this.dpr],
-      };
       ctx.setLineDash(dashMap[drawing.lineStyle || 'solid'] || []);
-      ctx.beginPath();
+      shape.polylines.forEach(line => {
+        ctx.beginPath();
+        ctx.moveTo(line[0].x, line[0].y);
+        line.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+        ctx.stroke();
+      });
+      ctx.setLineDash([]);
 
-      switch (drawing.type) {
-        case 'horizontal': {
-          const y = this.priceToY(drawing.points[0].price, viewport, chartArea);
-          ctx.moveTo(chartArea.x * this.dpr, y * this.dpr);
-          ctx.lineTo((chartArea.x + chartArea.width) * this.dpr, y * this.dpr);
-          ctx.stroke();
-          break;
-        }
-        case 'vertical': {
-          const x = drawing.points[0].x;
-          ctx.moveTo(x * this.dpr, chartArea.y * this.dpr);
-          ctx.lineTo(x * this.dpr, (chartArea.y + chartArea.height) * this.dpr);
-          ctx.stroke();
-          break;
-        }
-        case 'trendline': {
-          if (drawing.points.length >= 2) {
-            const x1 = drawing.points[0].x;
-            const y1 = this.priceToY(drawing.points[0].price, viewport, chartArea);
-            const x2 = drawing.points[1].x;
-            const y2 = this.priceToY(drawing.points[1].price, viewport, chartArea);
-            
-            ctx.moveTo(x1 * this.dpr, y1 * this.dpr);
-            ctx.lineTo(x2 * this.dpr, y2 * this.dpr);
-            ctx.stroke();
-          }
-          break;
-        }
-        case 'rectangle': {
-          if (drawing.points.length >= 2) {
-            const x1 = drawing.points[0].x;
-            const y1 = this.priceToY(drawing.points[0].price, viewport, chartArea);
-            const x2 = drawing.points[1].x;
-            const y2 = this.priceToY(drawing.points[1].price, viewport, chartArea);
-            
-            ctx.strokeRect(
-              Math.min(x1, x2) * this.dpr,
-              Math.min(y1, y2) * this.dpr,
-              Math.abs(x2 - x1) * this.dpr,
-              Math.abs(y2 - y1) * this.dpr
-            );
-          }
-          break;
-        }
-        case 'fibonacci': {
-          if (drawing.points.length >= 2) {
-            const y1 = this.priceToY(drawing.points[0].price, viewport, chartArea);
-            const y2 = this.priceToY(drawing.points[1].price, viewport, chartArea);
-            const range = y2 - y1;
-            const levels = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
-            
-            levels.forEach((level, i) => {
-              const y = y1 + range * level;
-              ctx.beginPath();
-              ctx.moveTo(chartArea.x * this.dpr, y * this.dpr);
-              ctx.lineTo((chartArea.x + chartArea.width) * this.dpr, y * this.dpr);
-              ctx.stroke();
-              
-              ctx.fillStyle = drawing.color;
-              ctx.font = `${9 * this.dpr}px 'JetBrains Mono', monospace`;
-              ctx.fillText(
-                `${(level * 100).toFixed(1)}%`,
-                (chartArea.x + 5) * this.dpr,
-                (y - 3) * this.dpr
-              );
-            });
-          }
-          break;
+      ctx.font = `11px 'JetBrains Mono', monospace`;
+      ctx.textBaseline = 'middle';
+      shape.labels.forEach(label => {
+        if (label.boxed) {
+          const box = labelBounds(label);
+          ctx.fillStyle = colors.background;
+          ctx.globalAlpha = 0.85;
+          ctx.fillRect(box.x, box.y, box.width, box.height);
+          ctx.globalAlpha = 1;
+          ctx.strokeStyle = label.color || drawing.color;
+          ctx.lineWidth = 1;
+          ctx.strokeRect(box.x, box.y, box.width, box.height);
+          ctx.fillStyle = label.color || colors.text;
+          ctx.textAlign = 'left';
+          ctx.fillText(label.text, box.x + 4, label.y);
+        } else {
+          ctx.fillStyle = label.color || drawing.color;
+          ctx.textAlign = label.align;
+          ctx.fillText(label.text, label.x, label.y);
         }
-      }
-
-      ctx.setLineDash([]);
+      });
 
       // Draw selection handles
       if (drawing.selected) {
-        this.drawSelectionHandles(drawing, viewport, chartArea);
+        this.drawSelectionHandles(shape.handles, !!drawing.locked);
       }
     });
+
+    ctx.restore();
   }
 
-  private drawSelectionHandles(drawing: DrawingObject, viewport: ChartViewport, chartArea: ChartDimensions['chartArea']) {
+  private drawSelectionHandles(handles: { x: number; y: number }[], locked: boolean) {
     const ctx = this.ctx;
-    const HANDLE_SIZE = 5 * this.dpr;
-
-    const handlePoints: { x: number; y: number }[] = [];
-    
-    drawing.points.forEach(p => {
-      const screenY = this.priceToY(p.price, viewport, chartArea);
-      handlePoints.push({ x: p.x * this.dpr, y: screenY * this.dpr });
-    });
+    const HANDLE_SIZE = 5;
 
-    handlePoints.forEach(hp => {
-      // Blue circle handles like TradingView
+    handles.forEach(hp => {
+      // Blue circle handles like TradingView (grey when locked)
       ctx.beginPath();
       ctx.arc(hp.x, hp.y, HANDLE_SIZE, 0, Math.PI * 2);
-      ctx.fillStyle = '#007aff';
+      ctx.fillStyle = locked ? '#71717a' : '#007aff';
       ctx.fill();
       ctx.strokeStyle = '#ffffff';
-      ctx.lineWidth = 1.5 * this.dpr;
+      ctx.lineWidth = 1.5;
       ctx.stroke();
     });
-
-    // For rectangles, also draw corner & edge midpoints
-    if (drawing.type === 'rectangle' && drawing.points.length >= 2) {
-      const x1 = drawing.points[0].x * this.dpr;
-      const y1 = this.priceToY(drawing.points[0].price, viewport, chartArea) * this.dpr;
-      const x2 = drawing.points[1].x * this.dpr;
-      const y2 = this.priceToY(drawing.points[1].price, viewport, chartArea) * this.dpr;
-      
-      const midPoints = [
-        { x: (x1 + x2) / 2, y: y1 },
-        { x: (x1 + x2) / 2, y: y2 },
-        { x: x1, y: (y1 + y2) / 2 },
-        { x: x2, y: (y1 + y2) / 2 },
-      ];
-      
-      midPoints.forEach(mp => {
-        ctx.beginPath();
-        ctx.rect(mp.x - HANDLE_SIZE / 2, mp.y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
-        ctx.fillStyle = '#007aff';
-        ctx.fill();
-        ctx.strokeStyle = '#ffffff';
-        ctx.lineWidth = 1.5 * this.dpr;
-        ctx.stroke();
-      });
-    }
   }
+
   drawWatermark(dimensions: ChartDimensions) {
     const ctx = this.ctx;
     const { chartArea, volumeHeight, timeAxisHeight } = dimensions;
@@ -0,0 +1,467 @@
+// ABLE Chart Engine - Drawing geometry
+// Projects time/price anchored drawings to screen shapes. The renderer paints
+// these shapes and the interaction handler hit-tests the very same ones, so what
+// you see is exactly what you can grab.
+import { Candle, ChartDimensions, ChartViewport, DrawingObject, DrawingPoint } from './types';
+
+type ChartArea = ChartDimensions['chartArea'];
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+export interface ShapeSegment {
+  from: ScreenPoint;
+  to: ScreenPoint;
+  color?: string;
+  dashed?: boolean;
+}
+
+export interface ShapeFill {
+  points: ScreenPoint[];
+  color?: string;
+  alpha: number;
+}
+
+export interface ShapeLabel {
+  x: number;
+  y: number;
+  text: string;
+  color?: string;
+  align: 'left' | 'center' | 'right';
+  /** Boxed labels get a background and are grabbable */
+  boxed?: boolean;
+}
+
+export interface DrawingShape {
+  segments: ShapeSegment[];
+  polylines: ScreenPoint[][];
+  fills: ShapeFill[];
+  labels: ShapeLabel[];
+  /** One handle per drawing point, in the same order */
+  handles: ScreenPoint[];
+}
+
+export const FIB_RETRACEMENT_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+export const FIB_EXTENSION_LEVELS = [0, 0.618, 1, 1.272, 1.618, 2, 2.618];
+export const FIB_TIME_ZONES = [0, 1, 2, 3, 5, 8, 13, 21, 34, 55, 89];
+
+const PROFIT_COLOR = '#22c55e';
+const LOSS_COLOR = '#ef4444';
+const LABEL_CHAR_WIDTH = 6.6;
+const LABEL_HEIGHT = 16;
+
+// ---- Time <-> index mapping ----
+
+const barInterval = (candles: Candle[], atEnd: boolean): number => {
+  if (candles.length < 2) return 60_000;
+  const n = candles.length;
+  const interval = atEnd
+    ? candles[n - 1].timestamp - candles[n - 2].timestamp
+    : candles[1].timestamp - candles[0].timestamp;
+  return interval > 0 ? interval : 60_000;
+};
+
+/** Fractional candle index for a timestamp; extrapolates past either end of the data */
+export const timeToIndex = (time: number, candles: Candle[]): number => {
+  const n = candles.length;
+  if (n === 0) return 0;
+  if (time <= candles[0].timestamp) {
+    return (time - candles[0].timestamp) / barInterval(candles, false);
+  }
+  if (time >= candles[n - 1].timestamp) {
+    return n - 1 + (time - candles[n - 1].timestamp) / barInterval(candles, true);
+  }
+
+  let lo = 0;
+  let hi = n - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (candles[mid].timestamp <= time) lo = mid;
+    else hi = mid;
+  }
+  const span = candles[hi].timestamp - candles[lo].timestamp;
+  return span > 0 ? lo + (time - candles[lo].timestamp) / span : lo;
+};
+
+/** Inverse of timeToIndex */
+export const indexToTime = (index: number, candles: Candle[]): number => {
+  const n = candles.length;
+  if (n === 0) return Date.now();
+  if (index <= 0) return candles[0].timestamp + index * barInterval(candles, false);
+  if (index >= n - 1) return candles[n - 1].timestamp + (index - (n - 1)) * barInterval(candles, true);
+
+  const lo = Math.floor(index);
+  const frac = index - lo;
+  return candles[lo].timestamp + frac * (candles[lo + 1].timestamp - candles[lo].timestamp);
+};
+
+// ---- Screen mapping (mirrors ChartRenderer.indexToX / priceToY) ----
+
+export const indexToScreenX = (index: number, viewport: ChartViewport, chartArea: ChartArea): number => {
+  const indexRange = viewport.endIndex - viewport.startIndex;
+  if (indexRange === 0) return chartArea.x + chartArea.width / 2;
+  return chartArea.x + chartArea.width * ((index - viewport.startIndex) / indexRange) + chartArea.width / indexRange / 2;
+};
+
+export const screenXToIndex = (x: number, viewport: ChartViewport, chartArea: ChartArea): number => {
+  const indexRange = viewport.endIndex - viewport.startIndex;
+  if (indexRange === 0 || chartArea.width === 0) return viewport.startIndex;
+  return viewport.startIndex + ((x - chartArea.x - chartArea.width / indexRange / 2) / chartArea.width) * indexRange;
+};
+
+export const priceToScreenY = (price: number, viewport: ChartViewport, chartArea: ChartArea): number => {
+  const priceRange = viewport.priceMax - viewport.priceMin;
+  if (priceRange === 0) return chartArea.y + chartArea.height / 2;
+  return chartArea.y + chartArea.height * (1 - (price - viewport.priceMin) / priceRange);
+};
+
+export const screenYToPrice = (y: number, viewport: ChartViewport, chartArea: ChartArea): number => {
+  const priceRange = viewport.priceMax - viewport.priceMin;
+  return viewport.priceMax - ((y - chartArea.y) / chartArea.height) * priceRange;
+};
+
+/** Screen position to a drawing anchor, snapped to the nearest bar */
+export const screenToDrawingPoint = (
+  x: number,
+  y: number,
+  candles: Candle[],
+  viewport: ChartViewport,
+  chartArea: ChartArea
+): DrawingPoint => ({
+  time: indexToTime(Math.round(screenXToIndex(x, viewport, chartArea)), candles),
+  price: screenYToPrice(y, viewport, chartArea),
+});
+
+// ---- Helpers ----
+
+export const formatDrawingPrice = (price: number): string => {
+  const abs = Math.abs(price);
+  if (abs >= 1000) return price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  if (abs >= 1) return price.toFixed(4);
+  if (abs >= 0.01) return price.toFixed(6);
+  return price.toFixed(8);
+};
+
+const formatSpan = (ms: number): string => {
+  const minutes = Math.round(Math.abs(ms) / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+/** Push `to` far past itself along from→to so the canvas clip trims it at the chart edge */
+const extendBeyond = (from: ScreenPoint, to: ScreenPoint, chartArea: ChartArea): ScreenPoint => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const len = Math.hypot(dx, dy);
+  if (len < 1e-6) return to;
+  const reach = (chartArea.width + chartArea.height) * 2;
+  return { x: to.x + (dx / len) * reach, y: to.y + (dy / len) * reach };
+};
+
+const offset = (p: ScreenPoint, dx: number, dy: number): ScreenPoint => ({ x: p.x + dx, y: p.y + dy });
+
+// ---- Shape builder ----
+
+/**
+ * Build the screen-space shape of a drawing. Works for in-progress drawings too:
+ * tools that need more points than placed so far degrade to a simpler preview.
+ */
+export const buildDrawingShape = (
+  drawing: DrawingObject,
+  candles: Candle[],
+  viewport: ChartViewport,
+  chartArea: ChartArea
+): DrawingShape => {
+  const shape: DrawingShape = { segments: [], polylines: [], fills: [], labels: [], handles: [] };
+  if (drawing.points.length === 0) return shape;
+
+  const indices = drawing.points.map(p => timeToIndex(p.time, candles));
+  const pts = drawing.points.map((p, i) => ({
+    x: indexToScreenX(indices[i], viewport, chartArea),
+    y: priceToScreenY(p.price, viewport, chartArea),
+  }));
+  shape.handles = pts;
+
+  const left = chartArea.x;
+  const right = chartArea.x + chartArea.width;
+  const top = chartArea.y;
+  const bottom = chartArea.y + chartArea.height;
+  const [a, b, c] = pts;
+  const [pa, pb, pc] = drawing.points;
+
+  switch (drawing.type) {
+    case 'trendline': {
+      if (b) shape.segments.push({ from: a, to: b });
+      break;
+    }
+    case 'ray': {
+      if (b) shape.segments.push({ from: a, to: extendBeyond(a, b, chartArea) });
+      break;
+    }
+    case 'extended': {
+      if (b) shape.segments.push({ from: extendBeyond(b, a, chartArea), to: extendBeyond(a, b, chartArea) });
+      break;
+    }
+    case 'horizontal': {
+      shape.segments.push({ from: { x: left, y: a.y }, to: { x: right, y: a.y } });
+      shape.labels.push({ x: right - 4, y: a.y - 8, text: formatDrawingPrice(pa.price), align: 'right' });
+      break;
+    }
+    case 'vertical': {
+      shape.segments.push({ from: { x: a.x, y: top }, to: { x: a.x, y: bottom } });
+      break;
+    }
+    case 'parallelChannel': {
+      if (!b) break;
+      shape.segments.push({ from: a, to: b });
+      if (!c) break;
+      // Offset of the third point from the base line, measured vertically
+      const t = Math.abs(b.x - a.x) < 1e-6 ? 0 : (c.x - a.x) / (b.x - a.x);
+      const dy = c.y - (a.y + (b.y - a.y) * t);
+      const a2 = offset(a, 0, dy);
+      const b2 = offset(b, 0, dy);
+      shape.segments.push({ from: a2, to: b2 });
+      shape.segments.push({ from: offset(a, 0, dy / 2), to: offset(b, 0, dy / 2), dashed: true });
+      shape.fills.push({ points: [a, b, b2, a2], alpha: 0.08 });
+      break;
+    }
+    case 'pitchfork': {
+      if (!b) break;
+      if (!c) {
+        shape.segments.push({ from: a, to: b });
+        break;
+      }
+      const mid = { x: (b.x + c.x) / 2, y: (b.y + c.y) / 2 };
+      const dir = { x: mid.x - a.x, y: mid.y - a.y };
+      const medianEnd = extendBeyond(a, mid, chartArea);
+      const upperEnd = extendBeyond(b, offset(b, dir.x, dir.y), chartArea);
+      const lowerEnd = extendBeyond(c, offset(c, dir.x, dir.y), chartArea);
+      shape.segments.push({ from: a, to: medianEnd });
+      shape.segments.push({ from: b, to: upperEnd });
+      shape.segments.push({ from: c, to: lowerEnd });
+      shape.segments.push({ from: b, to: c, dashed: true });
+      shape.fills.push({ points: [b, upperEnd, lowerEnd, c], alpha: 0.06 });
+      break;
+    }
+    case 'fibonacci': {
+      if (!b) break;
+      const startX = Math.min(a.x, b.x);
+      FIB_RETRACEMENT_LEVELS.forEach(level => {
+        const price = pa.price + (pb.price - pa.price) * level;
+        const y = priceToScreenY(price, viewport, chartArea);
+        shape.segments.push({ from: { x: startX, y }, to: { x: right, y } });
+        shape.labels.push({
+          x: startX + 4,
+          y: y - 7,
+          text: `${(level * 100).toFixed(1)}% (${formatDrawingPrice(price)})`,
+          align: 'left',
+        });
+      });
+      shape.segments.push({ from: a, to: b, dashed: true });
+      break;
+    }
+    case 'fibExtension': {
+      if (!b) break;
+      shape.segments.push({ from: a, to: b, dashed: true });
+      if (!c) break;
+      shape.segments.push({ from: b, to: c, dashed: true });
+      const move = pb.price - pa.price;
+      FIB_EXTENSION_LEVELS.forEach(level => {
+        const price = pc.price + move * level;
+        const y = priceToScreenY(price, viewport, chartArea);
+        shape.segments.push({ from: { x: c.x, y }, to: { x: right, y } });
+        shape.labels.push({ x: c.x + 4, y: y - 7, text: `${level} (${formatDrawingPrice(price)})`, align: 'left' });
+      });
+      break;
+    }
+    case 'fibTimeZones': {
+      if (!b) break;
+      const unit = indices[1] - indices[0];
+      if (Math.abs(unit) < 0.5) {
+        shape.segments.push({ from: { x: a.x, y: top }, to: { x: a.x, y: bottom } });
+        break;
+      }
+      FIB_TIME_ZONES.forEach(fib => {
+        const x = indexToScreenX(indices[0] + unit * fib, viewport, chartArea);
+        shape.segments.push({ from: { x, y: top }, to: { x, y: bottom } });
+        shape.labels.push({ x: x + 3, y: top + 10, text: String(fib), align: 'left' });
+      });
+      break;
+    }
+    case 'rectangle': {
+      if (!b) break;
+      const corners = [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }];
+      corners.forEach((p, i) => shape.segments.push({ from: p, to: corners[(i + 1) % 4] }));
+      shape.fills.push({ points: corners, alpha: 0.08 });
+      break;
+    }
+    case 'longPosition':
+    case 'shortPosition': {
+      if (!b) break;
+      const entry = pa.price;
+      const target = pb.price;
+      const stop = pc ? pc.price : entry - (target - entry) / 2;
+      const stopY = priceToScreenY(stop, viewport, chartArea);
+      const x1 = Math.min(a.x, b.x);
+      const x2 = Math.max(a.x, b.x, a.x + 40);
+      const box = (y1: number, y2: number) => [
+        { x: x1, y: y1 },
+        { x: x2, y: y1 },
+        { x: x2, y: y2 },
+        { x: x1, y: y2 },
+      ];
+      shape.fills.push({ points: box(a.y, b.y), color: PROFIT_COLOR, alpha: 0.18 });
+      shape.fills.push({ points: box(a.y, stopY), color: LOSS_COLOR, alpha: 0.18 });
+      shape.segments.push({ from: { x: x1, y: a.y }, to: { x: x2, y: a.y } });
+
+      const pct = (price: number) => (entry !== 0 ? ((price - entry) / entry) * 100 : 0);
+      const reward = Math.abs(target - entry);
+      const risk = Math.abs(entry - stop);
+      const centerX = (x1 + x2) / 2;
+      const targetAbove = b.y < a.y;
+      shape.labels.push({
+        x: centerX,
+        y: b.y + (targetAbove ? -10 : 10),
+        text: `Target ${formatDrawingPrice(target)} (${pct(target).toFixed(2)}%)`,
+        color: PROFIT_COLOR,
+        align: 'center',
+        boxed: true,
+      });
+      shape.labels.push({
+        x: centerX,
+        y: stopY + (targetAbove ? 10 : -10),
+        text: `Stop ${formatDrawingPrice(stop)} (${pct(stop).toFixed(2)}%)`,
+        color: LOSS_COLOR,
+        align: 'center',
+        boxed: true,
+      });
+      shape.labels.push({
+        x: centerX,
+        y: a.y,
+        text: `${drawing.type === 'longPosition' ? 'Long' : 'Short'} · R:R ${risk > 0 ? (reward / risk).toFixed(2) : '∞'}`,
+        align: 'center',
+        boxed: true,
+      });
+      // The stop handle sits on the box edge regardless of its stored time
+      shape.handles = pc ? [a, { x: x2, y: b.y }, { x: x2, y: stopY }] : [a, b];
+      break;
+    }
+    case 'measure': {
+      if (!b) break;
+      const delta = pb.price - pa.price;
+      const color = delta >= 0 ? '#3b82f6' : LOSS_COLOR;
+      const corners = [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }];
+      shape.fills.push({ points: corners, color, alpha: 0.12 });
+      shape.segments.push({ from: { x: (a.x + b.x) / 2, y: a.y }, to: { x: (a.x + b.x) / 2, y: b.y }, color });
+      shape.segments.push({ from: { x: a.x, y: (a.y + b.y) / 2 }, to: { x: b.x, y: (a.y + b.y) / 2 }, color });
+      const pct = pa.price !== 0 ? (delta / pa.price) * 100 : 0;
+      const bars = Math.round(indices[1] - indices[0]);
+      shape.labels.push({
+        x: (a.x + b.x) / 2,
+        y: Math.max(a.y, b.y) + 14,
+        text: `${delta >= 0 ? '+' : ''}${formatDrawingPrice(delta)} (${pct.toFixed(2)}%) · ${bars} bars · ${formatSpan(pb.time - pa.time)}`,
+        color,
+        align: 'center',
+        boxed: true,
+      });
+      break;
+    }
+    case 'text': {
+      shape.labels.push({ x: a.x, y: a.y, text: drawing.text || 'Text', color: drawing.color, align: 'left', boxed: true });
+      break;
+    }
+    case 'callout': {
+      if (!b) break;
+      shape.segments.push({ from: a, to: b });
+      shape.labels.push({ x: b.x, y: b.y, text: drawing.text || 'Callout', color: drawing.color, align: 'center', boxed: true });
+      break;
+    }
+    case 'anchoredVwap': {
+      const anchor = Math.max(0, Math.ceil(indices[0] - 1e-6));
+      const line: ScreenPoint[] = [];
+      let cumPV = 0;
+      let cumV = 0;
+      let lastVwap = NaN;
+      for (let i = anchor; i < candles.length; i++) {
+        const candle = candles[i];
+        const typical = (candle.high + candle.low + candle.close) / 3;
+        const volume = candle.volume > 0 ? candle.volume : 1;
+        cumPV += typical * volume;
+        cumV += volume;
+        lastVwap = cumPV / cumV;
+        if (i < viewport.startIndex - 1 || i > viewport.endIndex + 1) continue;
+        line.push({ x: indexToScreenX(i, viewport, chartArea), y: priceToScreenY(lastVwap, viewport, chartArea) });
+      }
+      if (line.length > 1) shape.polylines.push(line);
+      shape.segments.push({ from: { x: a.x, y: a.y - 8 }, to: { x: a.x, y: a.y + 8 }, dashed: true });
+      if (line.length > 0 && isFinite(lastVwap)) {
+        const end = line[line.length - 1];
+        shape.labels.push({ x: end.x + 4, y: end.y - 8, text: `AVWAP ${formatDrawingPrice(lastVwap)}`, align: 'left' });
+      }
+      // Snap the handle onto the line at the anchor bar
+      if (anchor < candles.length) {
+        const c0 = candles[anchor];
+        shape.handles = [{
+          x: indexToScreenX(anchor, viewport, chartArea),
+          y: priceToScreenY((c0.high + c0.low + c0.close) / 3, viewport, chartArea),
+        }];
+      }
+      break;
+    }
+  }
+
+  return shape;
+};
+
+// ---- Hit testing ----
+
+const distToSegment = (p: ScreenPoint, s1: ScreenPoint, s2: ScreenPoint): number => {
+  const dx = s2.x - s1.x;
+  const dy = s2.y - s1.y;
+  const lenSq = dx * dx + dy * dy;
+  if (lenSq === 0) return Math.hypot(p.x - s1.x, p.y - s1.y);
+  const t = Math.max(0, Math.min(1, ((p.x - s1.x) * dx + (p.y - s1.y) * dy) / lenSq));
+  return Math.hypot(p.x - (s1.x + t * dx), p.y - (s1.y + t * dy));
+};
+
+const insidePolygon = (p: ScreenPoint, polygon: ScreenPoint[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const pi = polygon[i];
+    const pj = polygon[j];
+    if ((pi.y > p.y) !== (pj.y > p.y) && p.x < ((pj.x - pi.x) * (p.y - pi.y)) / (pj.y - pi.y) + pi.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/** Approximate box of a label, matching the renderer's 11px monospace font */
+export const labelBounds = (label: ShapeLabel) => {
+  const width = label.text.length * LABEL_CHAR_WIDTH + 8;
+  const x = label.align === 'left' ? label.x : label.align === 'right' ? label.x - width : label.x - width / 2;
+  return { x, y: label.y - LABEL_HEIGHT / 2, width, height: LABEL_HEIGHT };
+};
+
+export const hitTestShape = (shape: DrawingShape, p: ScreenPoint, tolerance: number): boolean => {
+  if (shape.segments.some(s => distToSegment(p, s.from, s.to) < tolerance)) return true;
+  for (const line of shape.polylines) {
+    for (let i = 1; i < line.length; i++) {
+      if (distToSegment(p, line[i - 1], line[i]) < tolerance) return true;
+    }
+  }
+  if (shape.fills.some(f => insidePolygon(p, f.points))) return true;
+  return shape.labels.some(label => {
+    if (!label.boxed) return false;
+    const box = labelBounds(label);
+    return p.x >= box.x && p.x <= box.x + box.width && p.y >= box.y && p.y <= box.y + box.height;
+  });
+};
+
+/** Index of the handle under `p`, or -1 */
+export const hitTestHandles = (shape: DrawingShape, p: ScreenPoint, tolerance: number): number =>
+  shape.handles.findIndex(h => Math.hypot(p.x - h.x, p.y - h.y) <= tolerance);
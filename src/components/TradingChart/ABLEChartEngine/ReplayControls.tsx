@@ -0,0 +1,188 @@
+// ABLE Chart Engine - Order book recorder / replay controls (chart overlay)
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  orderBookRecorder,
+  orderBookReplay,
+  RecordingSession,
+  RecordingSource,
+  ReplayState,
+  REPLAY_SPEEDS,
+} from '@/services/OrderBookRecorderService';
+import { OHLCVData } from '@/services/ChartDataService';
+import { Circle, History, Pause, Play, Square, Trash2, X } from 'lucide-react';
+
+interface ReplayControlsProps {
+  symbol: string;
+  timeframe: string;
+  source: RecordingSource;
+  /** Recording needs a live book; replay also works for DeepCharts-only charts */
+  canRecord: boolean;
+  getHistory: () => OHLCVData[];
+}
+
+const formatClock = (ms: number) => new Date(ms).toLocaleTimeString();
+
+const formatDuration = (ms: number) => {
+  const totalSec = Math.max(0, Math.round(ms / 1000));
+  const h = Math.floor(totalSec / 3600);
+  const m = Math.floor((totalSec % 3600) / 60);
+  const s = totalSec % 60;
+  return h > 0 ? `${h}h ${m}m` : `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ symbol, timeframe, source, canRecord, getHistory }) => {
+  const [replay, setReplay] = useState<ReplayState>(orderBookReplay.getState());
+  const [recording, setRecording] = useState<RecordingSession | null>(orderBookRecorder.getActiveSession());
+  const [sessions, setSessions] = useState<RecordingSession[]>([]);
+  const [, setNow] = useState(Date.now());
+
+  useEffect(() => orderBookReplay.subscribeToState(setReplay), []);
+  useEffect(() => orderBookRecorder.subscribe(() => setRecording(orderBookRecorder.getActiveSession())), []);
+
+  // Tick the elapsed-time label while recording
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await orderBookRecorder.listSessions(symbol));
+    } catch (e) {
+      console.error('[Replay] Failed to list sessions:', e);
+    }
+  }, [symbol]);
+
+  const toggleRecording = async () => {
+    if (recording) {
+      await orderBookRecorder.stop();
+      refreshSessions();
+    } else {
+      await orderBookRecorder.start({ symbol, source, timeframe, history: getHistory() });
+    }
+  };
+
+  const isReplaying = replay.session !== null;
+  const isRecordingHere = recording?.symbol === symbol.toUpperCase();
+
+  if (isReplaying) {
+    const span = Math.max(1, replay.endTime - replay.startTime);
+    return (
+      <div className="absolute top-2 left-2 z-10 flex items-center gap-2 rounded border border-amber-500/40 bg-black/80 px-2 py-1 text-[10px] font-mono text-amber-400">
+        <span className="font-bold">REPLAY {replay.session!.symbol}</span>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-5 w-5 text-amber-400"
+          onClick={() => (replay.status === 'playing' ? orderBookReplay.pause() : orderBookReplay.play())}
+        >
+          {replay.status === 'playing' ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+        </Button>
+        <div className="flex gap-0.5">
+          {REPLAY_SPEEDS.map(speed => (
+            <button
+              key={speed}
+              onClick={() => orderBookReplay.setSpeed(speed)}
+              className={`px-1 rounded ${replay.speed === speed ? 'bg-amber-500 text-black' : 'hover:bg-amber-500/20'}`}
+            >
+              {speed}x
+            </button>
+          ))}
+        </div>
+        <Slider
+          className="w-40"
+          min={0}
+          max={span}
+          step={1000}
+          value={[replay.currentTime - replay.startTime]}
+          onValueChange={([offset]) => orderBookReplay.seek(replay.startTime + offset)}
+        />
+        <span>{formatClock(replay.currentTime)}</span>
+        <span className="text-amber-400/60">{formatDuration(replay.currentTime - replay.startTime)} / {formatDuration(span)}</span>
+        <Button size="icon" variant="ghost" className="h-5 w-5 text-amber-400" onClick={() => orderBookReplay.unload()}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute top-2 left-2 z-10 flex items-center gap-1 text-[10px] font-mono">
+      {canRecord && (
+        <Button
+          size="sm"
+          variant="ghost"
+          className={`h-6 px-2 text-[10px] bg-black/70 ${isRecordingHere ? 'text-red-400' : 'text-zinc-400'}`}
+          onClick={toggleRecording}
+          disabled={!!recording && !isRecordingHere}
+          title={recording && !isRecordingHere ? `Recording ${recording.symbol}` : 'Record order book'}
+        >
+          {isRecordingHere ? (
+            <>
+              <Square className="h-3 w-3 mr-1 fill-current" />
+              {formatDuration(Date.now() - recording!.startedAt)} · {recording!.bookFrames}f · {recording!.tradeCount}t
+            </>
+          ) : (
+            <>
+              <Circle className="h-3 w-3 mr-1 fill-red-500 text-red-500" />
+              REC
+            </>
+          )}
+        </Button>
+      )}
+
+      <Popover onOpenChange={open => open && refreshSessions()}>
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="ghost" className="h-6 px-2 text-[10px] bg-black/70 text-zinc-400">
+            <History className="h-3 w-3 mr-1" />
+            Replay
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 p-2 bg-zinc-950 border-zinc-800" align="start">
+          <div className="text-xs font-semibold text-zinc-300 mb-2">Recorded sessions · {symbol}</div>
+          {sessions.length === 0 ? (
+            <div className="text-[11px] text-zinc-500 py-2">No recordings yet. Press REC while the DOM is streaming.</div>
+          ) : (
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+              {sessions.map(session => (
+                <div key={session.id} className="flex items-center justify-between gap-2 text-[11px] p-1.5 rounded bg-zinc-900">
+                  <button
+                    className="flex-1 text-left"
+                    disabled={session.id === recording?.id}
+                    onClick={() => orderBookReplay.load(session.id)}
+                  >
+                    <div className="text-zinc-300">
+                      {new Date(session.startedAt).toLocaleString()}
+                      {session.id === recording?.id && <span className="text-red-400"> · recording</span>}
+                    </div>
+                    <div className="text-zinc-500">
+                      {formatDuration((session.endedAt ?? Date.now()) - session.startedAt)} · {session.timeframe} · {session.source} ·{' '}
+                      {session.bookFrames} frames · {session.tradeCount} trades
+                    </div>
+                  </button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-5 w-5 text-zinc-500 hover:text-red-400"
+                    onClick={async () => {
+                      await orderBookRecorder.deleteSession(session.id);
+                      refreshSessions();
+                    }}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -29,15 +29,24 @@ export interface ChartThemeColors {
   volumeDown: string;
 }
 
+/** Drawings are anchored in time/price so they survive panning, zooming and reloads */
+export interface DrawingPoint {
+  time: number;
+  price: number;
+}
+
 export interface DrawingObject {
   id: string;
-  type: 'trendline' | 'horizontal' | 'vertical' | 'fibonacci' | 'rectangle';
-  points: { x: number; y: number; price: number; time: number }[];
+  type: DrawingType;
+  points: DrawingPoint[];
   color: string;
   lineWidth: number;
   lineStyle: 'solid' | 'dashed' | 'dotted';
   isComplete: boolean;
   selected?: boolean;
+  locked?: boolean;
+  /** Label for text and callout drawings */
+  text?: string;
 }
 
 export interface CrosshairState {
@@ -84,4 +93,42 @@ export interface DOMConfig {
 }
 
 export type ChartMode = 'normal' | 'drawing' | 'measuring';
-export type DrawingType = 'trendline' | 'horizontal' | 'vertical' | 'fibonacci' | 'rectangle';
+export type DrawingType =
+  | 'trendline'
+  | 'ray'
+  | 'extended'
+  | 'horizontal'
+  | 'vertical'
+  | 'parallelChannel'
+  | 'pitchfork'
+  | 'fibonacci'
+  | 'fibExtension'
+  | 'fibTimeZones'
+  | 'rectangle'
+  | 'longPosition'
+  | 'shortPosition'
+  | 'measure'
+  | 'text'
+  | 'callout'
+  | 'anchoredVwap';
+
+/** Clicks (or drag ends) needed to place each drawing */
+export const DRAWING_POINT_COUNT: Record<DrawingType, number> = {
+  trendline: 2,
+  ray: 2,
+  extended: 2,
+  horizontal: 1,
+  vertical: 1,
+  parallelChannel: 3,
+  pitchfork: 3,
+  fibonacci: 2,
+  fibExtension: 3,
+  fibTimeZones: 2,
+  rectangle: 2,
+  longPosition: 2,
+  shortPosition: 2,
+  measure: 2,
+  text: 1,
+  callout: 2,
+  anchoredVwap: 1,
+};
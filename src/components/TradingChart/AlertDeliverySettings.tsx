@@ -0,0 +1,266 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Send, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  ALERT_CHANNELS,
+  CHANNEL_LABELS,
+  SOURCE_LABELS,
+  alertDispatcher,
+} from '@/services/AlertDispatchService';
+import type {
+  AlertChannelId,
+  AlertChannelSettings,
+  AlertDispatchSettings,
+  AlertSource,
+  DeliveryRecord,
+  DeliveryStatus,
+} from '@/types/alerts';
+
+const STATUS_STYLES: Record<DeliveryStatus, string> = {
+  sent: 'text-green-500 border-green-500/40',
+  failed: 'text-red-500 border-red-500/40',
+  rate_limited: 'text-yellow-500 border-yellow-500/40',
+  skipped: 'text-muted-foreground border-muted',
+};
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/** Toggle chips for picking channels; shared with the new-alert form */
+export const ChannelPicker: React.FC<{
+  value: AlertChannelId[];
+  onChange: (channels: AlertChannelId[]) => void;
+}> = ({ value, onChange }) => (
+  <div className="flex flex-wrap gap-1">
+    {ALERT_CHANNELS.map(channel => {
+      const active = value.includes(channel);
+      return (
+        <Badge
+          key={channel}
+          variant="outline"
+          className={`cursor-pointer text-[10px] ${active ? 'border-terminal-amber text-terminal-amber' : 'text-muted-foreground'}`}
+          onClick={() => onChange(active ? value.filter(c => c !== channel) : [...value, channel])}
+        >
+          {CHANNEL_LABELS[channel]}
+        </Badge>
+      );
+    })}
+  </div>
+);
+
+const AlertDeliverySettings: React.FC = () => {
+  const [settings, setSettings] = useState<AlertDispatchSettings>(() => alertDispatcher.getSettings());
+  const [log, setLog] = useState<DeliveryRecord[]>(() => alertDispatcher.getLog());
+  const [testing, setTesting] = useState<AlertChannelId | null>(null);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+  );
+
+  useEffect(() => {
+    const sync = () => {
+      setSettings(alertDispatcher.getSettings());
+      setLog(alertDispatcher.getLog());
+    };
+    sync();
+    return alertDispatcher.subscribe(sync);
+  }, []);
+
+  const update = <K extends AlertChannelId>(id: K, patch: Partial<AlertChannelSettings[K]>) =>
+    alertDispatcher.updateChannel(id, patch);
+
+  const handleTest = async (channel: AlertChannelId) => {
+    setTesting(channel);
+    const status = await alertDispatcher.sendTest(channel);
+    setTesting(null);
+    const detail = alertDispatcher.getLog()[0]?.detail;
+    toast({
+      title: `${CHANNEL_LABELS[channel]} test ${status === 'sent' ? 'sent' : status.replace('_', ' ')}`,
+      description: detail,
+      variant: status === 'failed' ? 'destructive' : 'default',
+    });
+  };
+
+  const handleAllowNotifications = async () => {
+    setPermission(await alertDispatcher.requestBrowserPermission());
+  };
+
+  const { channels } = settings;
+
+  const renderChannelFields = (channel: AlertChannelId) => {
+    switch (channel) {
+      case 'browser':
+        return (
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">Permission: {permission}</span>
+            {permission === 'default' && (
+              <Button size="sm" variant="outline" className="h-6 text-[10px]" onClick={handleAllowNotifications}>
+                Allow notifications
+              </Button>
+            )}
+          </div>
+        );
+      case 'webhook':
+        return (
+          <>
+            <Input
+              value={channels.webhook.url}
+              onChange={e => update('webhook', { url: e.target.value })}
+              className="h-7 text-xs"
+              placeholder="https://example.com/hooks/alerts"
+            />
+            <Textarea
+              value={channels.webhook.template}
+              onChange={e => update('webhook', { template: e.target.value })}
+              className="text-[10px] font-mono min-h-[110px]"
+            />
+            <p className="text-[10px] text-muted-foreground">
+              {'{{title}} {{message}} {{symbol}} {{timeframe}} {{price}} {{value}} {{severity}} {{source}} {{time}} {{id}}'}
+            </p>
+          </>
+        );
+      case 'telegram':
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="password"
+              value={channels.telegram.botToken}
+              onChange={e => update('telegram', { botToken: e.target.value })}
+              className="h-7 text-xs"
+              placeholder="Bot token (blank = server, verified chats)"
+            />
+            <Input
+              value={channels.telegram.chatId}
+              onChange={e => update('telegram', { chatId: e.target.value })}
+              className="h-7 text-xs"
+              placeholder="Chat id"
+            />
+          </div>
+        );
+      case 'line':
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="password"
+              value={channels.line.channelAccessToken}
+              onChange={e => update('line', { channelAccessToken: e.target.value })}
+              className="h-7 text-xs"
+              placeholder="Access token (blank = server, verified ids)"
+            />
+            <Input
+              value={channels.line.to}
+              onChange={e => update('line', { to: e.target.value })}
+              className="h-7 text-xs"
+              placeholder="User or group id"
+            />
+          </div>
+        );
+      case 'email':
+        return <p className="text-[10px] text-muted-foreground">Sent to your account email</p>;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Default routes */}
+      <div className="p-3 border border-terminal-amber/30 rounded-lg space-y-2">
+        <h4 className="text-sm font-medium">Default Routes</h4>
+        {(Object.keys(SOURCE_LABELS) as AlertSource[]).map(source => (
+          <div key={source} className="space-y-1">
+            <Label className="text-xs text-muted-foreground">{SOURCE_LABELS[source]}</Label>
+            <ChannelPicker value={settings.routes[source]} onChange={c => alertDispatcher.setRoute(source, c)} />
+          </div>
+        ))}
+      </div>
+
+      {/* Channels */}
+      {ALERT_CHANNELS.map(channel => (
+        <div key={channel} className="p-3 border border-muted rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">{CHANNEL_LABELS[channel]}</span>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 text-[10px]"
+                disabled={testing !== null}
+                onClick={() => handleTest(channel)}
+              >
+                <Send className="w-3 h-3 mr-1" />
+                Test
+              </Button>
+              <Switch checked={channels[channel].enabled} onCheckedChange={enabled => update(channel, { enabled })} />
+            </div>
+          </div>
+          {renderChannelFields(channel)}
+          <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+            <span>Max</span>
+            <Input
+              type="number"
+              min="1"
+              value={channels[channel].maxPerWindow}
+              onChange={e => update(channel, { maxPerWindow: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className="h-6 w-14 text-[10px]"
+            />
+            <span>per</span>
+            <Input
+              type="number"
+              min="1"
+              value={channels[channel].windowMinutes}
+              onChange={e => update(channel, { windowMinutes: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className="h-6 w-14 text-[10px]"
+            />
+            <span>min</span>
+          </div>
+        </div>
+      ))}
+
+      {/* Delivery log */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-muted-foreground">Delivery Log ({log.length})</h4>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 text-xs"
+            disabled={log.length === 0}
+            onClick={() => alertDispatcher.clearLog()}
+          >
+            <Trash2 className="w-3 h-3 mr-1" />
+            Clear
+          </Button>
+        </div>
+        {log.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-4">Nothing delivered yet</p>
+        ) : (
+          <div className="space-y-1">
+            {log.slice(0, 100).map(record => (
+              <div key={record.id} className="p-2 rounded border border-muted text-xs">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant="outline" className={`text-[10px] ${STATUS_STYLES[record.status]}`}>
+                      {record.status.replace('_', ' ')}
+                    </Badge>
+                    <span className="text-[10px] text-muted-foreground">{CHANNEL_LABELS[record.channel]}</span>
+                  </div>
+                  <span className="text-[10px] text-muted-foreground">{formatTime(record.at)}</span>
+                </div>
+                <p className="truncate mt-1">{record.title}</p>
+                {record.detail && <p className="text-[10px] text-muted-foreground">{record.detail}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertDeliverySettings;
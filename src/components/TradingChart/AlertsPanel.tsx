@@ -1,10 +1,11 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Sheet,
   SheetContent,
@@ -18,263 +19,659 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Bell, Plus, Trash2, BellRing, Volume2 } from 'lucide-react';
-import { ChartAlert } from './types';
+import { Bell, Plus, Trash2, BellRing, Volume2, History, Send } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { alertEngine } from '@/services/AlertEngineService';
+import { CHANNEL_LABELS, alertDispatcher } from '@/services/AlertDispatchService';
+import { chartDrawings } from '@/services/ChartDrawingsService';
+import type { ChartSymbol, Timeframe } from '@/services/ChartDataService';
+import { PineScriptRunner, type OHLCData, type PineScriptRunOptions } from '@/utils/PineScriptRunner';
+import { loadAllScripts } from '@/utils/PineScriptStorage';
+import type { PineInputValue } from '@/utils/pine';
+import {
+  ALERTABLE_DRAWING_TYPES,
+  FREQUENCY_LABELS,
+  OPERATOR_LABELS,
+  describeCondition,
+} from '@/utils/alertRules';
+import type {
+  AlertCondition,
+  AlertChannelId,
+  AlertConditionKind,
+  AlertEvent,
+  AlertFrequency,
+  AlertOperator,
+  AlertRule,
+  CrossOperator,
+} from '@/types/alerts';
+import AlertDeliverySettings, { ChannelPicker } from './AlertDeliverySettings';
 
 interface AlertsPanelProps {
   isOpen: boolean;
   onClose: () => void;
-  alerts: ChartAlert[];
-  onAddAlert: (alert: ChartAlert) => void;
-  onRemoveAlert: (id: string) => void;
-  onToggleAlert: (id: string) => void;
-  currentSymbol: string;
+  symbol: ChartSymbol;
+  timeframe: Timeframe;
   currentPrice: number;
+  /** Bars on the chart, used to list a Pine script's alertcondition() titles */
+  chartData: OHLCData[];
+  runOptions?: PineScriptRunOptions;
+  /** Input overrides of Pine scripts applied to the chart, by script id */
+  scriptInputValues?: Record<string, Record<string, PineInputValue>>;
 }
 
+const CONDITION_KIND_LABELS: Record<AlertConditionKind, string> = {
+  price: 'Price',
+  indicator: 'Indicator',
+  pine: 'Pine alertcondition()',
+  drawing: 'Drawing',
+  percent_move: '% Move',
+  volume_spike: 'Volume Spike',
+};
+
+const DRAWING_NAMES: Record<string, string> = {
+  trendline: 'Trendline',
+  ray: 'Ray',
+  extended: 'Extended line',
+  horizontal: 'Horizontal line',
+};
+
+const CROSS_OPERATORS: CrossOperator[] = ['crosses', 'crosses_above', 'crosses_below'];
+
+const EXPIRY_OPTIONS: { value: string; label: string; ms: number | null }[] = [
+  { value: 'never', label: 'Never', ms: null },
+  { value: '1h', label: '1 hour', ms: 60 * 60 * 1000 },
+  { value: '1d', label: '1 day', ms: 24 * 60 * 60 * 1000 },
+  { value: '1w', label: '1 week', ms: 7 * 24 * 60 * 60 * 1000 },
+  { value: '1mo', label: '1 month', ms: 30 * 24 * 60 * 60 * 1000 },
+];
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
 const AlertsPanel: React.FC<AlertsPanelProps> = ({
   isOpen,
   onClose,
-  alerts,
-  onAddAlert,
-  onRemoveAlert,
-  onToggleAlert,
-  currentSymbol,
+  symbol,
+  timeframe,
   currentPrice,
+  chartData,
+  runOptions,
+  scriptInputValues,
 }) => {
-  const [newAlert, setNewAlert] = useState({
-    condition: 'crosses_above' as ChartAlert['condition'],
-    value: currentPrice,
-    message: '',
-  });
-  const [soundEnabled, setSoundEnabled] = useState(true);
+  const [rules, setRules] = useState<AlertRule[]>(() => alertEngine.getRules());
+  const [history, setHistory] = useState<AlertEvent[]>(() => alertEngine.getHistory());
+  const [soundEnabled, setSoundEnabled] = useState(() => alertEngine.getSettings().soundEnabled);
+
+  const [kind, setKind] = useState<AlertConditionKind>('price');
+  const [operator, setOperator] = useState<AlertOperator>('crosses_above');
+  const [value, setValue] = useState(currentPrice);
+  const [expression, setExpression] = useState('ta.rsi(close, 14)');
+  const [scriptId, setScriptId] = useState('');
+  const [conditionTitles, setConditionTitles] = useState<string[]>([]);
+  const [conditionTitle, setConditionTitle] = useState('');
+  const [loadingTitles, setLoadingTitles] = useState(false);
+  const [drawingId, setDrawingId] = useState('');
+  const [percent, setPercent] = useState(2);
+  const [lookback, setLookback] = useState(5);
+  const [multiplier, setMultiplier] = useState(3);
+  const [volumeLength, setVolumeLength] = useState(20);
+  const [frequency, setFrequency] = useState<AlertFrequency>('once');
+  const [expiry, setExpiry] = useState('never');
+  const [message, setMessage] = useState('');
+  /** Null follows the default route for chart alerts */
+  const [channels, setChannels] = useState<AlertChannelId[] | null>(null);
+  const [defaultChannels, setDefaultChannels] = useState<AlertChannelId[]>(() => alertDispatcher.getRoute('chart'));
+
+  useEffect(() => {
+    alertEngine.start();
+    const sync = () => {
+      setRules(alertEngine.getRules());
+      setHistory(alertEngine.getHistory());
+      setSoundEnabled(alertEngine.getSettings().soundEnabled);
+    };
+    sync();
+    const unsubscribeRoutes = alertDispatcher.subscribe(() => setDefaultChannels(alertDispatcher.getRoute('chart')));
+    const unsubscribe = alertEngine.subscribe(sync);
+    return () => {
+      unsubscribe();
+      unsubscribeRoutes();
+    };
+  }, []);
+
+  // Start price alerts at the last price each time the panel opens
+  useEffect(() => {
+    if (isOpen && kind === 'price') setValue(currentPrice);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, symbol.symbol]);
+
+  const scripts = useMemo(() => (isOpen ? loadAllScripts() : []), [isOpen]);
+
+  const drawings = useMemo(
+    () => (isOpen ? chartDrawings.load(symbol.symbol).filter(d => ALERTABLE_DRAWING_TYPES.includes(d.type)) : []),
+    [isOpen, symbol.symbol]
+  );
+
+  const drawingLabel = (id: string) => {
+    const drawing = drawings.find(d => d.id === id);
+    if (!drawing) return 'drawing';
+    const index = drawings.filter(d => d.type === drawing.type).indexOf(drawing) + 1;
+    return `${DRAWING_NAMES[drawing.type] ?? drawing.type} ${index} (${drawing.points[0].price.toLocaleString()})`;
+  };
+
+  // List the alertcondition() titles of the chosen script by running it on the chart's bars
+  useEffect(() => {
+    const script = scripts.find(s => s.id === scriptId);
+    if (kind !== 'pine' || !script || chartData.length === 0) {
+      setConditionTitles([]);
+      return;
+    }
+    let cancelled = false;
+    setLoadingTitles(true);
+    PineScriptRunner.run(script.code, chartData, { ...runOptions, inputs: scriptInputValues?.[script.id] })
+      .then(output => {
+        if (cancelled) return;
+        const titles = output.alertConditions.map(c => c.title);
+        setConditionTitles(titles);
+        setConditionTitle(titles[0] ?? '');
+      })
+      .catch(() => {
+        if (!cancelled) setConditionTitles([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingTitles(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [kind, scriptId, scripts]);
+
+  const handleKindChange = (next: AlertConditionKind) => {
+    setKind(next);
+    if (next === 'drawing' && !CROSS_OPERATORS.includes(operator as CrossOperator)) setOperator('crosses');
+    if (next === 'price') setValue(currentPrice);
+    if (next === 'indicator') setValue(50);
+  };
+
+  const buildCondition = (): AlertCondition | string => {
+    switch (kind) {
+      case 'price':
+        return Number.isFinite(value) ? { kind, operator, value } : 'Please enter a price value';
+      case 'indicator':
+        if (!expression.trim()) return 'Please enter an indicator expression';
+        return Number.isFinite(value) ? { kind, expression: expression.trim(), operator, value } : 'Please enter a value';
+      case 'pine': {
+        const script = scripts.find(s => s.id === scriptId);
+        if (!script) return 'Please choose a Pine script';
+        if (!conditionTitle) return 'This script has no alertcondition() to watch';
+        return {
+          kind,
+          scriptId: script.id,
+          scriptName: script.name,
+          code: script.code,
+          conditionTitle,
+          inputValues: scriptInputValues?.[script.id],
+        };
+      }
+      case 'drawing':
+        if (!drawingId) return 'Please choose a drawing';
+        return { kind, drawingId, drawingLabel: drawingLabel(drawingId), operator: operator as CrossOperator };
+      case 'percent_move':
+        return percent > 0 && lookback >= 1 ? { kind, percent, bars: Math.round(lookback) } : 'Enter a percent and a bar count';
+      case 'volume_spike':
+        return multiplier > 0 && volumeLength >= 1
+          ? { kind, multiplier, length: Math.round(volumeLength) }
+          : 'Enter a multiplier and an average length';
+    }
+  };
 
   const handleAddAlert = () => {
-    if (!newAlert.value) {
+    const condition = buildCondition();
+    if (typeof condition === 'string') {
       toast({
         title: 'Invalid Alert',
-        description: 'Please enter a price value',
+        description: condition,
         variant: 'destructive',
       });
       return;
     }
 
-    const alert: ChartAlert = {
-      id: `alert-${Date.now()}`,
-      symbol: currentSymbol,
-      condition: newAlert.condition,
-      value: newAlert.value,
-      message: newAlert.message || `${currentSymbol} ${newAlert.condition.replace('_', ' ')} ${newAlert.value}`,
-      triggered: false,
-      createdAt: Date.now(),
-    };
-
-    onAddAlert(alert);
-    setNewAlert({
-      condition: 'crosses_above',
-      value: currentPrice,
-      message: '',
+    const expiryMs = EXPIRY_OPTIONS.find(o => o.value === expiry)?.ms ?? null;
+    const rule = alertEngine.addRule({
+      symbol,
+      timeframe,
+      condition,
+      frequency,
+      message,
+      expiresAt: expiryMs === null ? null : Date.now() + expiryMs,
+      channels: channels ?? undefined,
     });
+    setMessage('');
 
     toast({
       title: 'Alert Created',
-      description: alert.message,
+      description: rule.message,
     });
   };
 
-  const getConditionLabel = (condition: ChartAlert['condition']) => {
-    const labels: Record<ChartAlert['condition'], string> = {
-      crosses_above: 'Crosses Above',
-      crosses_below: 'Crosses Below',
-      greater_than: 'Greater Than',
-      less_than: 'Less Than',
-    };
-    return labels[condition];
+  const getStatusBadge = (rule: AlertRule) => {
+    if (rule.status === 'triggered') return <Badge className="bg-green-500/20 text-green-500 text-[10px]">Triggered</Badge>;
+    if (rule.status === 'expired') return <Badge variant="outline" className="text-muted-foreground text-[10px]">Expired</Badge>;
+    if (!rule.enabled) return <Badge variant="outline" className="text-muted-foreground text-[10px]">Paused</Badge>;
+    return null;
   };
 
-  const getConditionColor = (condition: ChartAlert['condition']) => {
-    return condition.includes('above') || condition.includes('greater')
-      ? 'text-green-500'
-      : 'text-red-500';
-  };
+  const renderRule = (rule: AlertRule, showSymbol: boolean) => (
+    <div
+      key={rule.id}
+      className={`p-3 rounded border ${
+        rule.status === 'triggered'
+          ? 'border-green-500/50 bg-green-500/10'
+          : rule.enabled
+            ? 'border-terminal-amber/30'
+            : 'border-muted opacity-70'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-1 gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          {showSymbol && (
+            <Badge variant="outline" className="text-[10px]">
+              {rule.symbol.symbol}
+            </Badge>
+          )}
+          <Badge variant="outline" className="text-[10px] text-terminal-amber">
+            {CONDITION_KIND_LABELS[rule.condition.kind]}
+          </Badge>
+          <span className="text-[10px] font-mono text-muted-foreground">{rule.timeframe}</span>
+          {getStatusBadge(rule)}
+        </div>
+        <div className="flex items-center gap-1">
+          <Switch
+            checked={rule.enabled}
+            onCheckedChange={checked => alertEngine.setRuleEnabled(rule.id, checked)}
+            className="scale-75"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0 text-red-500"
+            onClick={() => alertEngine.removeRule(rule.id)}
+          >
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+      <p className="text-xs font-mono">{describeCondition(rule.condition)}</p>
+      {rule.message && rule.message !== `${rule.symbol.symbol} ${describeCondition(rule.condition)}` && (
+        <p className="text-xs text-muted-foreground">{rule.message}</p>
+      )}
+      <div className="flex flex-wrap gap-x-3 text-[10px] text-muted-foreground mt-1">
+        <span>{FREQUENCY_LABELS[rule.frequency]}</span>
+        {rule.channels && <span>→ {rule.channels.map(c => CHANNEL_LABELS[c]).join(', ') || 'no channels'}</span>}
+        {rule.expiresAt !== null && <span>Expires {formatTime(rule.expiresAt)}</span>}
+        {rule.triggerCount > 0 && (
+          <span>
+            Fired {rule.triggerCount}× · last {formatTime(rule.lastTriggeredAt ?? rule.createdAt)}
+          </span>
+        )}
+      </div>
+    </div>
+  );
 
-  const symbolAlerts = alerts.filter(a => a.symbol === currentSymbol);
-  const otherAlerts = alerts.filter(a => a.symbol !== currentSymbol);
+  const symbolRules = rules.filter(r => r.symbol.symbol === symbol.symbol);
+  const otherRules = rules.filter(r => r.symbol.symbol !== symbol.symbol);
+  const operatorOptions: AlertOperator[] = kind === 'drawing'
+    ? CROSS_OPERATORS
+    : ['crosses', 'crosses_above', 'crosses_below', 'greater_than', 'less_than'];
 
   return (
     <Sheet open={isOpen} onOpenChange={onClose}>
-      <SheetContent side="right" className="w-[350px] bg-card border-l border-terminal-amber/30">
+      <SheetContent side="right" className="w-[380px] bg-card border-l border-terminal-amber/30">
         <SheetHeader>
           <SheetTitle className="text-terminal-amber font-mono flex items-center gap-2">
             <Bell className="w-5 h-5" />
-            Price Alerts
+            Alerts
           </SheetTitle>
         </SheetHeader>
 
-        <ScrollArea className="h-[calc(100vh-100px)] mt-4 pr-4">
-          {/* Settings */}
-          <div className="flex items-center justify-between p-3 bg-muted/30 rounded mb-4">
-            <div className="flex items-center gap-2">
-              <Volume2 className="w-4 h-4 text-terminal-amber" />
-              <span className="text-sm">Sound Notifications</span>
-            </div>
-            <Switch checked={soundEnabled} onCheckedChange={setSoundEnabled} />
-          </div>
-
-          {/* Create new alert */}
-          <div className="p-4 border border-terminal-amber/30 rounded-lg mb-6">
-            <h4 className="text-sm font-medium mb-3 flex items-center gap-2">
-              <Plus className="w-4 h-4" />
-              New Alert for {currentSymbol}
-            </h4>
-
-            <div className="space-y-3">
-              <div className="grid grid-cols-2 gap-2">
-                <div>
-                  <Label className="text-xs">Condition</Label>
-                  <Select
-                    value={newAlert.condition}
-                    onValueChange={(v: ChartAlert['condition']) =>
-                      setNewAlert({ ...newAlert, condition: v })
-                    }
-                  >
-                    <SelectTrigger className="h-8 text-xs">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="crosses_above">Crosses Above</SelectItem>
-                      <SelectItem value="crosses_below">Crosses Below</SelectItem>
-                      <SelectItem value="greater_than">Greater Than</SelectItem>
-                      <SelectItem value="less_than">Less Than</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div>
-                  <Label className="text-xs">Price</Label>
-                  <Input
-                    type="number"
-                    value={newAlert.value}
-                    onChange={e => setNewAlert({ ...newAlert, value: parseFloat(e.target.value) })}
-                    className="h-8 text-xs"
-                    step="0.01"
-                  />
+        <Tabs defaultValue="alerts" className="mt-4">
+          <TabsList className="grid grid-cols-3 w-full">
+            <TabsTrigger value="alerts" className="text-xs">
+              <Bell className="w-3 h-3 mr-1" />
+              Alerts ({rules.length})
+            </TabsTrigger>
+            <TabsTrigger value="history" className="text-xs">
+              <History className="w-3 h-3 mr-1" />
+              History ({history.length})
+            </TabsTrigger>
+            <TabsTrigger value="delivery" className="text-xs">
+              <Send className="w-3 h-3 mr-1" />
+              Delivery
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="alerts">
+            <ScrollArea className="h-[calc(100vh-150px)] pr-4">
+              {/* Settings */}
+              <div className="flex items-center justify-between p-3 bg-muted/30 rounded mb-4">
+                <div className="flex items-center gap-2">
+                  <Volume2 className="w-4 h-4 text-terminal-amber" />
+                  <span className="text-sm">Sound Notifications</span>
                 </div>
+                <Switch checked={soundEnabled} onCheckedChange={enabled => alertEngine.setSoundEnabled(enabled)} />
               </div>
 
-              <div>
-                <Label className="text-xs">Message (optional)</Label>
-                <Input
-                  value={newAlert.message}
-                  onChange={e => setNewAlert({ ...newAlert, message: e.target.value })}
-                  className="h-8 text-xs"
-                  placeholder="Custom alert message..."
-                />
-              </div>
+              {/* Create new alert */}
+              <div className="p-4 border border-terminal-amber/30 rounded-lg mb-6">
+                <h4 className="text-sm font-medium mb-3 flex items-center gap-2">
+                  <Plus className="w-4 h-4" />
+                  New Alert for {symbol.symbol} · {timeframe}
+                </h4>
 
-              <Button
-                onClick={handleAddAlert}
-                className="w-full bg-terminal-amber text-black hover:bg-terminal-amber/80"
-              >
-                <BellRing className="w-4 h-4 mr-2" />
-                Create Alert
-              </Button>
-            </div>
-          </div>
-
-          {/* Current symbol alerts */}
-          {symbolAlerts.length > 0 && (
-            <div className="mb-6">
-              <h4 className="text-sm font-medium text-muted-foreground mb-2">
-                {currentSymbol} Alerts ({symbolAlerts.length})
-              </h4>
-              <div className="space-y-2">
-                {symbolAlerts.map(alert => (
-                  <div
-                    key={alert.id}
-                    className={`p-3 rounded border ${
-                      alert.triggered
-                        ? 'border-green-500/50 bg-green-500/10'
-                        : 'border-terminal-amber/30'
-                    }`}
-                  >
-                    <div className="flex items-center justify-between mb-1">
-                      <div className="flex items-center gap-2">
-                        <Badge
-                          variant="outline"
-                          className={getConditionColor(alert.condition)}
-                        >
-                          {getConditionLabel(alert.condition)}
-                        </Badge>
-                        <span className="font-mono font-medium">
-                          {alert.value.toLocaleString()}
-                        </span>
-                      </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="h-6 w-6 p-0 text-red-500"
-                        onClick={() => onRemoveAlert(alert.id)}
-                      >
-                        <Trash2 className="w-3 h-3" />
-                      </Button>
-                    </div>
-                    {alert.message && (
-                      <p className="text-xs text-muted-foreground">{alert.message}</p>
-                    )}
-                    {alert.triggered && (
-                      <Badge className="mt-2 bg-green-500/20 text-green-500">
-                        Triggered
-                      </Badge>
-                    )}
+                <div className="space-y-3">
+                  <div>
+                    <Label className="text-xs">Condition Type</Label>
+                    <Select value={kind} onValueChange={(v: AlertConditionKind) => handleKindChange(v)}>
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(CONDITION_KIND_LABELS) as AlertConditionKind[]).map(k => (
+                          <SelectItem key={k} value={k}>{CONDITION_KIND_LABELS[k]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
-                ))}
-              </div>
-            </div>
-          )}
 
-          {/* Other alerts */}
-          {otherAlerts.length > 0 && (
-            <div>
-              <h4 className="text-sm font-medium text-muted-foreground mb-2">
-                Other Alerts ({otherAlerts.length})
-              </h4>
-              <div className="space-y-2">
-                {otherAlerts.map(alert => (
-                  <div
-                    key={alert.id}
-                    className="p-2 rounded border border-muted flex items-center justify-between"
-                  >
+                  {kind === 'indicator' && (
                     <div>
-                      <div className="flex items-center gap-2">
-                        <Badge variant="outline" className="text-[10px]">
-                          {alert.symbol}
-                        </Badge>
-                        <span className="text-xs font-mono">{alert.value.toLocaleString()}</span>
+                      <Label className="text-xs">Pine Expression</Label>
+                      <Input
+                        value={expression}
+                        onChange={e => setExpression(e.target.value)}
+                        className="h-8 text-xs font-mono"
+                        placeholder="ta.rsi(close, 14)"
+                      />
+                    </div>
+                  )}
+
+                  {kind === 'pine' && (
+                    <>
+                      <div>
+                        <Label className="text-xs">Script</Label>
+                        <Select value={scriptId} onValueChange={setScriptId}>
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue placeholder={scripts.length ? 'Choose a saved script' : 'No saved scripts'} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {scripts.map(s => (
+                              <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </div>
+                      {scriptId && (
+                        <div>
+                          <Label className="text-xs">alertcondition()</Label>
+                          {conditionTitles.length > 0 ? (
+                            <Select value={conditionTitle} onValueChange={setConditionTitle}>
+                              <SelectTrigger className="h-8 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {conditionTitles.map(title => (
+                                  <SelectItem key={title} value={title}>{title}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <p className="text-xs text-muted-foreground">
+                              {loadingTitles ? 'Running script…' : 'This script declares no alertcondition()'}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </>
+                  )}
+
+                  {kind === 'drawing' && (
+                    <div>
+                      <Label className="text-xs">Line</Label>
+                      <Select value={drawingId} onValueChange={setDrawingId}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue placeholder={drawings.length ? 'Choose a line' : 'No lines drawn on this symbol'} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {drawings.map(d => (
+                            <SelectItem key={d.id} value={d.id}>{drawingLabel(d.id)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {(kind === 'price' || kind === 'indicator' || kind === 'drawing') && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className={kind === 'drawing' ? 'col-span-2' : ''}>
+                        <Label className="text-xs">Operator</Label>
+                        <Select value={operator} onValueChange={(v: AlertOperator) => setOperator(v)}>
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {operatorOptions.map(op => (
+                              <SelectItem key={op} value={op}>{OPERATOR_LABELS[op]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {kind !== 'drawing' && (
+                        <div>
+                          <Label className="text-xs">{kind === 'price' ? 'Price' : 'Value'}</Label>
+                          <Input
+                            type="number"
+                            value={value}
+                            onChange={e => setValue(parseFloat(e.target.value))}
+                            className="h-8 text-xs"
+                            step="0.01"
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {kind === 'percent_move' && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <Label className="text-xs">Move (%)</Label>
+                        <Input
+                          type="number"
+                          value={percent}
+                          onChange={e => setPercent(parseFloat(e.target.value))}
+                          className="h-8 text-xs"
+                          step="0.1"
+                          min="0"
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs">Over Bars</Label>
+                        <Input
+                          type="number"
+                          value={lookback}
+                          onChange={e => setLookback(parseInt(e.target.value, 10))}
+                          className="h-8 text-xs"
+                          min="1"
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {kind === 'volume_spike' && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <Label className="text-xs">× Average</Label>
+                        <Input
+                          type="number"
+                          value={multiplier}
+                          onChange={e => setMultiplier(parseFloat(e.target.value))}
+                          className="h-8 text-xs"
+                          step="0.5"
+                          min="0"
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs">Average Length</Label>
+                        <Input
+                          type="number"
+                          value={volumeLength}
+                          onChange={e => setVolumeLength(parseInt(e.target.value, 10))}
+                          className="h-8 text-xs"
+                          min="1"
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label className="text-xs">Trigger</Label>
+                      <Select value={frequency} onValueChange={(v: AlertFrequency) => setFrequency(v)}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(FREQUENCY_LABELS) as AlertFrequency[]).map(f => (
+                            <SelectItem key={f} value={f}>{FREQUENCY_LABELS[f]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-xs">Expires</Label>
+                      <Select value={expiry} onValueChange={setExpiry}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {EXPIRY_OPTIONS.map(o => (
+                            <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="h-6 w-6 p-0 text-red-500"
-                      onClick={() => onRemoveAlert(alert.id)}
-                    >
-                      <Trash2 className="w-3 h-3" />
-                    </Button>
                   </div>
-                ))}
+
+                  <div>
+                    <div className="flex items-center justify-between">
+                      <Label className="text-xs">Notify Via</Label>
+                      {channels && (
+                        <button className="text-[10px] text-muted-foreground hover:text-foreground" onClick={() => setChannels(null)}>
+                          Use default
+                        </button>
+                      )}
+                    </div>
+                    <ChannelPicker value={channels ?? defaultChannels} onChange={setChannels} />
+                  </div>
+
+                  <div>
+                    <Label className="text-xs">Message (optional)</Label>
+                    <Input
+                      value={message}
+                      onChange={e => setMessage(e.target.value)}
+                      className="h-8 text-xs"
+                      placeholder="Custom alert message..."
+                    />
+                  </div>
+
+                  <Button
+                    onClick={handleAddAlert}
+                    className="w-full bg-terminal-amber text-black hover:bg-terminal-amber/80"
+                  >
+                    <BellRing className="w-4 h-4 mr-2" />
+                    Create Alert
+                  </Button>
+                </div>
               </div>
-            </div>
-          )}
 
-          {alerts.length === 0 && (
-            <div className="text-center py-12 text-muted-foreground">
-              <Bell className="w-12 h-12 mx-auto mb-4 opacity-30" />
-              <p>No alerts set</p>
-              <p className="text-sm">Create alerts to get notified of price movements</p>
+              {/* Current symbol alerts */}
+              {symbolRules.length > 0 && (
+                <div className="mb-6">
+                  <h4 className="text-sm font-medium text-muted-foreground mb-2">
+                    {symbol.symbol} Alerts ({symbolRules.length})
+                  </h4>
+                  <div className="space-y-2">{symbolRules.map(rule => renderRule(rule, false))}</div>
+                </div>
+              )}
+
+              {/* Other alerts */}
+              {otherRules.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-muted-foreground mb-2">
+                    Other Alerts ({otherRules.length})
+                  </h4>
+                  <div className="space-y-2">{otherRules.map(rule => renderRule(rule, true))}</div>
+                </div>
+              )}
+
+              {rules.length === 0 && (
+                <div className="text-center py-12 text-muted-foreground">
+                  <Bell className="w-12 h-12 mx-auto mb-4 opacity-30" />
+                  <p>No alerts set</p>
+                  <p className="text-sm">Alerts keep running in the background after the chart closes</p>
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs text-muted-foreground">Most recent first</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 text-xs"
+                disabled={history.length === 0}
+                onClick={() => alertEngine.clearHistory()}
+              >
+                <Trash2 className="w-3 h-3 mr-1" />
+                Clear
+              </Button>
             </div>
-          )}
-        </ScrollArea>
+            <ScrollArea className="h-[calc(100vh-180px)] pr-4">
+              {history.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <History className="w-12 h-12 mx-auto mb-4 opacity-30" />
+                  <p>No alerts have fired yet</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {history.map(event => (
+                    <div key={event.id} className="p-2 rounded border border-muted">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className="text-[10px]">{event.symbol}</Badge>
+                          <span className="text-[10px] font-mono text-muted-foreground">{event.timeframe}</span>
+                        </div>
+                        <span className="text-[10px] text-muted-foreground">{formatTime(event.triggeredAt)}</span>
+                      </div>
+                      <p className="text-xs mt-1">{event.message}</p>
+                      <p className="text-[10px] font-mono text-muted-foreground">
+                        Price {event.price.toLocaleString()}
+                        {event.value !== null && ` · value ${event.value.toLocaleString(undefined, { maximumFractionDigits: 4 })}`}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="delivery">
+            <ScrollArea className="h-[calc(100vh-150px)] pr-4">
+              <AlertDeliverySettings />
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
       </SheetContent>
     </Sheet>
   );
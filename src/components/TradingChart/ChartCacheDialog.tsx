@@ -0,0 +1,181 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Database, Trash2, RefreshCw } from 'lucide-react';
+import { ohlcvCache, OHLCVCacheStats, OHLCVCacheLimits } from '@/services/OHLCVCacheService';
+import { toast } from '@/hooks/use-toast';
+
+interface ChartCacheDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${bytes} B`;
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { year: '2-digit', month: 'short', day: 'numeric' });
+
+const LIMIT_FIELDS: { key: keyof OHLCVCacheLimits; label: string }[] = [
+  { key: 'maxTotalBars', label: 'Max bars (total)' },
+  { key: 'maxBarsPerSeries', label: 'Max bars per series' },
+  { key: 'maxAgeDays', label: 'Drop unused after (days)' },
+];
+
+const ChartCacheDialog: React.FC<ChartCacheDialogProps> = ({ isOpen, onClose }) => {
+  const [stats, setStats] = useState<OHLCVCacheStats | null>(null);
+  const [limits, setLimits] = useState<OHLCVCacheLimits>(ohlcvCache.getLimits());
+
+  const refresh = useCallback(async () => {
+    const next = await ohlcvCache.getStats();
+    setStats(next);
+    setLimits(next.limits);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    void refresh();
+    return ohlcvCache.subscribe(() => void refresh());
+  }, [isOpen, refresh]);
+
+  const handleEvict = async (key: string) => {
+    await ohlcvCache.evict(key);
+  };
+
+  const handleClear = async () => {
+    await ohlcvCache.clear();
+    toast({ title: 'Cache cleared', description: 'Cached chart data was removed' });
+  };
+
+  const handleSaveLimits = async () => {
+    await ohlcvCache.setLimits(limits);
+    toast({ title: 'Cache limits saved' });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={() => onClose()}>
+      <DialogContent className="bg-card border-terminal-green/30 max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-terminal-green">
+            <Database className="w-5 h-5" />
+            Offline Bar Cache
+          </DialogTitle>
+        </DialogHeader>
+
+        {!ohlcvCache.available ? (
+          <p className="text-sm text-muted-foreground">IndexedDB is not available in this browser.</p>
+        ) : (
+          <div className="space-y-4">
+            {/* Totals */}
+            <div className="grid grid-cols-4 gap-2 text-xs font-mono">
+              {[
+                { label: 'Series', value: stats?.series.length ?? 0 },
+                { label: 'Bars', value: (stats?.totalBars ?? 0).toLocaleString() },
+                { label: 'Size', value: formatBytes(stats?.totalBytes ?? 0) },
+                { label: 'Hits / Misses', value: `${stats?.hits ?? 0} / ${stats?.misses ?? 0}` },
+              ].map(item => (
+                <div key={item.label} className="p-2 rounded bg-muted/30">
+                  <div className="text-muted-foreground">{item.label}</div>
+                  <div className="text-foreground text-sm">{item.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Series */}
+            <ScrollArea className="h-64 border border-border rounded">
+              <table className="w-full text-xs font-mono">
+                <thead className="sticky top-0 bg-card text-muted-foreground">
+                  <tr>
+                    <th className="text-left p-2">Symbol</th>
+                    <th className="text-left p-2">TF</th>
+                    <th className="text-right p-2">Bars</th>
+                    <th className="text-left p-2">Range</th>
+                    <th className="text-left p-2">Last opened</th>
+                    <th className="p-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats?.series.map(series => (
+                    <tr key={series.key} className="border-t border-border/50">
+                      <td className="p-2 text-foreground">
+                        {series.symbol}
+                        <span className="ml-1 text-muted-foreground">{series.source}</span>
+                      </td>
+                      <td className="p-2">{series.timeframe}</td>
+                      <td className="p-2 text-right">{series.bars.toLocaleString()}</td>
+                      <td className="p-2 text-muted-foreground">
+                        {formatDate(series.firstTimestamp)} – {formatDate(series.lastTimestamp)}
+                      </td>
+                      <td className="p-2 text-muted-foreground">{new Date(series.lastAccess).toLocaleString()}</td>
+                      <td className="p-2 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0 text-muted-foreground hover:text-red-500"
+                          onClick={() => handleEvict(series.key)}
+                          title="Evict"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                  {stats && stats.series.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="p-4 text-center text-muted-foreground">
+                        Nothing cached yet
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </ScrollArea>
+
+            {/* Limits */}
+            <div className="grid grid-cols-3 gap-2">
+              {LIMIT_FIELDS.map(field => (
+                <label key={field.key} className="text-xs text-muted-foreground space-y-1">
+                  <span>{field.label}</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={limits[field.key]}
+                    onChange={(e) => setLimits(prev => ({ ...prev, [field.key]: Math.max(1, Number(e.target.value) || 1) }))}
+                    className="h-7 text-xs font-mono"
+                  />
+                </label>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleSaveLimits}>
+                Apply Limits
+              </Button>
+              <Button variant="ghost" size="sm" className="h-7 text-xs gap-1" onClick={() => void refresh()}>
+                <RefreshCw className="w-3 h-3" />
+                Refresh
+              </Button>
+              <div className="flex-1" />
+              <Button variant="ghost" size="sm" className="h-7 text-xs gap-1 text-red-500" onClick={handleClear}>
+                <Trash2 className="w-3 h-3" />
+                Clear All
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChartCacheDialog;
@@ -1,5 +1,5 @@
-import React, { useRef, useEffect, useCallback, useState } from 'react';
-import { OHLCVData } from '@/services/ChartDataService';
+import React, { useRef, useEffect, useCallback, useState, useMemo } from 'react';
+import { BarTypeConfig, chartDataService, OHLCVData } from '@/services/ChartDataService';
 import { DrawingTool, ChartIndicator, CrosshairData } from './types';
 import { ChartTheme } from './ChartThemes';
 import { PineScriptResult } from '@/utils/PineScriptRunner';
@@ -19,10 +19,12 @@ interface ChartCanvasProps {
   onPan: (delta: number) => void;
   theme: ChartTheme;
   customIndicators?: { results: PineScriptResult[]; visible: boolean }[];
+  /** Derived bar type (Heikin-Ashi, Renko, ...) drawn instead of the raw bars */
+  barType?: BarTypeConfig | null;
 }
 
 const ChartCanvas: React.FC<ChartCanvasProps> = ({
-  data,
+  data: sourceData,
   width,
   height,
   indicators,
@@ -31,12 +33,25 @@ const ChartCanvas: React.FC<ChartCanvasProps> = ({
   onAddDrawing,
   crosshair,
   onCrosshairMove,
-  visibleRange,
+  visibleRange: sourceRange,
   onZoom,
   onPan,
   theme,
   customIndicators = [],
+  barType,
 }) => {
+  const data = useMemo(
+    () => (barType && barType.type !== 'candles' ? chartDataService.applyBarType(sourceData, barType) : sourceData),
+    [sourceData, barType]
+  );
+  // Price-driven bar types change the bar count: keep the window size, pinned to the latest bars
+  const visibleRange = data.length === sourceData.length
+    ? sourceRange
+    : {
+        start: Math.max(0, data.length - (sourceRange.end - sourceRange.start)),
+        end: data.length,
+      };
+
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isPanning, setIsPanning] = useState(false);
   const [lastPanX, setLastPanX] = useState(0);
@@ -1,11 +1,13 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
   DropdownMenuSeparator,
+  DropdownMenuLabel,
 } from '@/components/ui/dropdown-menu';
 import {
   TrendingUp,
@@ -13,8 +15,18 @@ import {
   Hash,
   ArrowUpRight,
   Square,
-  Triangle,
   Type,
+  MoveUpRight,
+  MoveDiagonal,
+  BetweenHorizontalStart,
+  GitFork,
+  Percent,
+  Columns3,
+  ArrowUpFromLine,
+  ArrowDownToLine,
+  Ruler,
+  MessageSquare,
+  Activity,
   Trash2,
   BarChart2,
   Maximize,
@@ -27,8 +39,20 @@ import {
   Palette,
   Puzzle,
   Keyboard,
+  CandlestickChart,
+  Database,
+  Check,
 } from 'lucide-react';
-import { Timeframe } from '@/services/ChartDataService';
+import {
+  Timeframe,
+  BarType,
+  BarTypeConfig,
+  BAR_TYPE_LABELS,
+  DEFAULT_BAR_TYPE_CONFIG,
+  isTimeBasedBarType,
+  parseTimeframe,
+} from '@/services/ChartDataService';
+import { DrawingType } from './ABLEChartEngine/types';
 import ZoomControls from './ZoomControls';
 
 interface ChartToolbarProps {
@@ -36,6 +60,8 @@ interface ChartToolbarProps {
   onSelectDrawingTool: (tool: string | null) => void;
   timeframe: Timeframe;
   onTimeframeChange: (tf: Timeframe) => void;
+  barType?: BarTypeConfig;
+  onBarTypeChange?: (config: BarTypeConfig) => void;
   onToggleIndicators: () => void;
   onTogglePineScript: () => void;
   onToggleAlerts: () => void;
@@ -43,6 +69,7 @@ interface ChartToolbarProps {
   onToggleTheme: () => void;
   onToggleCustomIndicators: () => void;
   onToggleKeyboardHelp: () => void;
+  onToggleCache?: () => void;
   zoomLevel: number;
   onZoomIn: () => void;
   onZoomOut: () => void;
@@ -56,14 +83,25 @@ interface ChartToolbarProps {
 
 const TIMEFRAMES: Timeframe[] = ['1m', '5m', '15m', '30m', '1h', '4h', '1D', '1W', '1M'];
 
-const DRAWING_TOOLS = [
-  { id: 'trendline', icon: TrendingUp, label: 'Trend Line' },
-  { id: 'horizontal', icon: Minus, label: 'Horizontal Line' },
-  { id: 'vertical', icon: Hash, label: 'Vertical Line' },
-  { id: 'fibonacci', icon: ArrowUpRight, label: 'Fibonacci' },
-  { id: 'rectangle', icon: Square, label: 'Rectangle' },
-  { id: 'triangle', icon: Triangle, label: 'Triangle' },
-  { id: 'text', icon: Type, label: 'Text' },
+// Grouped in the menu by `group`; order matches the TradingView toolbar
+const DRAWING_TOOLS: { id: DrawingType; icon: typeof TrendingUp; label: string; group: string }[] = [
+  { id: 'trendline', icon: TrendingUp, label: 'Trend Line', group: 'lines' },
+  { id: 'ray', icon: MoveUpRight, label: 'Ray', group: 'lines' },
+  { id: 'extended', icon: MoveDiagonal, label: 'Extended Line', group: 'lines' },
+  { id: 'horizontal', icon: Minus, label: 'Horizontal Line', group: 'lines' },
+  { id: 'vertical', icon: Hash, label: 'Vertical Line', group: 'lines' },
+  { id: 'parallelChannel', icon: BetweenHorizontalStart, label: 'Parallel Channel', group: 'channels' },
+  { id: 'pitchfork', icon: GitFork, label: 'Pitchfork', group: 'channels' },
+  { id: 'fibonacci', icon: ArrowUpRight, label: 'Fib Retracement', group: 'fib' },
+  { id: 'fibExtension', icon: Percent, label: 'Fib Extension', group: 'fib' },
+  { id: 'fibTimeZones', icon: Columns3, label: 'Fib Time Zones', group: 'fib' },
+  { id: 'rectangle', icon: Square, label: 'Rectangle', group: 'shapes' },
+  { id: 'longPosition', icon: ArrowUpFromLine, label: 'Long Position', group: 'shapes' },
+  { id: 'shortPosition', icon: ArrowDownToLine, label: 'Short Position', group: 'shapes' },
+  { id: 'measure', icon: Ruler, label: 'Measure', group: 'shapes' },
+  { id: 'anchoredVwap', icon: Activity, label: 'Anchored VWAP', group: 'shapes' },
+  { id: 'text', icon: Type, label: 'Text', group: 'notes' },
+  { id: 'callout', icon: MessageSquare, label: 'Callout', group: 'notes' },
 ];
 
 const ChartToolbar: React.FC<ChartToolbarProps> = ({
@@ -71,6 +109,8 @@ const ChartToolbar: React.FC<ChartToolbarProps> = ({
   onSelectDrawingTool,
   timeframe,
   onTimeframeChange,
+  barType = DEFAULT_BAR_TYPE_CONFIG,
+  onBarTypeChange,
   onToggleIndicators,
   onTogglePineScript,
   onToggleAlerts,
@@ -78,6 +118,7 @@ const ChartToolbar: React.FC<ChartToolbarProps> = ({
   onToggleTheme,
   onToggleCustomIndicators,
   onToggleKeyboardHelp,
+  onToggleCache,
   zoomLevel,
   onZoomIn,
   onZoomOut,
@@ -88,6 +129,20 @@ const ChartToolbar: React.FC<ChartToolbarProps> = ({
   onSaveChart,
   onScreenshot,
 }) => {
+  const [customTimeframe, setCustomTimeframe] = useState('');
+  const isCustomTimeframe = !TIMEFRAMES.includes(timeframe);
+
+  const applyCustomTimeframe = () => {
+    const parsed = parseTimeframe(customTimeframe);
+    if (parsed) {
+      onTimeframeChange(parsed);
+      setCustomTimeframe('');
+    }
+  };
+
+  const updateBarType = (patch: Partial<BarTypeConfig>) => onBarTypeChange?.({ ...barType, ...patch });
+  const usesBoxSize = !isTimeBasedBarType(barType.type) && barType.type !== 'lineBreak';
+
   return (
     <div className="flex items-center gap-1 p-2 bg-card/50 border-b border-terminal-green/20 flex-wrap">
       {/* Timeframe selector */}
@@ -107,8 +162,110 @@ const ChartToolbar: React.FC<ChartToolbarProps> = ({
             {tf}
           </Button>
         ))}
+        {isCustomTimeframe && (
+          <Button
+            variant="default"
+            size="sm"
+            className="h-7 px-2 text-xs font-mono bg-terminal-green text-black"
+          >
+            {timeframe}
+          </Button>
+        )}
+        {/* Any interval (3m, 2h, 45m, 3D) - resampled locally when the exchange has no native one */}
+        <Input
+          value={customTimeframe}
+          onChange={(e) => setCustomTimeframe(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && applyCustomTimeframe()}
+          onBlur={applyCustomTimeframe}
+          placeholder="TF"
+          title="Custom timeframe, e.g. 3m, 2h, 45m, 3D"
+          className={`h-7 w-12 px-1 text-xs font-mono text-center bg-transparent border-terminal-green/30 ${
+            customTimeframe && !parseTimeframe(customTimeframe) ? 'border-red-500' : ''
+          }`}
+        />
       </div>
 
+      {/* Bar type */}
+      {onBarTypeChange && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 gap-1 text-terminal-green">
+              <CandlestickChart className="w-4 h-4" />
+              <span className="text-xs hidden sm:inline">{BAR_TYPE_LABELS[barType.type]}</span>
+              <ChevronDown className="w-3 h-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent className="bg-card border-terminal-green/30 w-52">
+            {(Object.keys(BAR_TYPE_LABELS) as BarType[]).map(type => (
+              <DropdownMenuItem key={type} onClick={() => updateBarType({ type })} className="gap-2">
+                <Check className={`w-4 h-4 ${barType.type === type ? '' : 'opacity-0'}`} />
+                {BAR_TYPE_LABELS[type]}
+              </DropdownMenuItem>
+            ))}
+            {usesBoxSize && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs text-muted-foreground">Box size</DropdownMenuLabel>
+                <DropdownMenuItem
+                  onSelect={(e) => e.preventDefault()}
+                  onClick={() => updateBarType({ sizing: 'atr' })}
+                  className="gap-2"
+                >
+                  <Check className={`w-4 h-4 ${barType.sizing === 'atr' ? '' : 'opacity-0'}`} />
+                  ATR
+                  <Input
+                    type="number"
+                    min={1}
+                    value={barType.atrLength}
+                    onClick={(e) => e.stopPropagation()}
+                    onKeyDown={(e) => e.stopPropagation()}
+                    onChange={(e) => updateBarType({ sizing: 'atr', atrLength: Math.max(1, Number(e.target.value) || 1) })}
+                    className="h-6 w-16 ml-auto text-xs font-mono"
+                  />
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onSelect={(e) => e.preventDefault()}
+                  onClick={() => updateBarType({ sizing: 'fixed' })}
+                  className="gap-2"
+                >
+                  <Check className={`w-4 h-4 ${barType.sizing === 'fixed' ? '' : 'opacity-0'}`} />
+                  Fixed
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={barType.boxSize || ''}
+                    placeholder="price"
+                    onClick={(e) => e.stopPropagation()}
+                    onKeyDown={(e) => e.stopPropagation()}
+                    onChange={(e) => updateBarType({ sizing: 'fixed', boxSize: Math.max(0, Number(e.target.value) || 0) })}
+                    className="h-6 w-16 ml-auto text-xs font-mono"
+                  />
+                </DropdownMenuItem>
+              </>
+            )}
+            {barType.type === 'lineBreak' && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={(e) => e.preventDefault()} className="gap-2">
+                  Lines to reverse
+                  <Input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={barType.lineBreakCount}
+                    onClick={(e) => e.stopPropagation()}
+                    onKeyDown={(e) => e.stopPropagation()}
+                    onChange={(e) => updateBarType({ lineBreakCount: Math.max(1, Number(e.target.value) || 1) })}
+                    className="h-6 w-16 ml-auto text-xs font-mono"
+                  />
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
       <div className="w-px h-6 bg-terminal-green/20" />
 
       {/* Drawing tools */}
@@ -130,16 +287,18 @@ const ChartToolbar: React.FC<ChartToolbarProps> = ({
             <ChevronDown className="w-3 h-3" />
           </Button>
         </DropdownMenuTrigger>
-        <DropdownMenuContent className="bg-card border-terminal-green/30">
-          {DRAWING_TOOLS.map(tool => (
-            <DropdownMenuItem
-              key={tool.id}
-              onClick={() => onSelectDrawingTool(selectedDrawingTool === tool.id ? null : tool.id)}
-              className={`gap-2 ${selectedDrawingTool === tool.id ? 'bg-terminal-green/20' : ''}`}
-            >
-              <tool.icon className="w-4 h-4" />
-              {tool.label}
-            </DropdownMenuItem>
+        <DropdownMenuContent className="bg-card border-terminal-green/30 max-h-[70vh] overflow-y-auto">
+          {DRAWING_TOOLS.map((tool, i) => (
+            <React.Fragment key={tool.id}>
+              {i > 0 && DRAWING_TOOLS[i - 1].group !== tool.group && <DropdownMenuSeparator />}
+              <DropdownMenuItem
+                onClick={() => onSelectDrawingTool(selectedDrawingTool === tool.id ? null : tool.id)}
+                className={`gap-2 ${selectedDrawingTool === tool.id ? 'bg-terminal-green/20' : ''}`}
+              >
+                <tool.icon className="w-4 h-4" />
+                {tool.label}
+              </DropdownMenuItem>
+            </React.Fragment>
           ))}
           <DropdownMenuSeparator />
           <DropdownMenuItem onClick={onClearDrawings} className="gap-2 text-red-500">
@@ -209,6 +368,19 @@ const ChartToolbar: React.FC<ChartToolbarProps> = ({
         <Keyboard className="w-4 h-4" />
       </Button>
 
+      {/* Offline bar cache */}
+      {onToggleCache && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0 text-muted-foreground hover:text-terminal-green"
+          onClick={onToggleCache}
+          title="Offline Bar Cache"
+        >
+          <Database className="w-4 h-4" />
+        </Button>
+      )}
+
       {/* Actions */}
       <Button 
         variant="ghost" 
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
@@ -25,9 +25,14 @@ import { toast } from '@/hooks/use-toast';
 import { 
   SavedScript, 
   loadAllScripts, 
+  loadScript,
+  getScriptInputs,
+  saveScriptInputs,
   PINE_TEMPLATES 
 } from '@/utils/PineScriptStorage';
-import { PineScriptRunner, OHLCData, PineScriptResult } from '@/utils/PineScriptRunner';
+import { PineScriptRunner, OHLCData, PineScriptResult, PineScriptRunOptions } from '@/utils/PineScriptRunner';
+import type { PineInput, PineInputValue } from '@/utils/pine';
+import PineInputsDialog from './PineInputsDialog';
 
 interface ActiveIndicator {
   id: string;
@@ -36,14 +41,21 @@ interface ActiveIndicator {
   visible: boolean;
   color: string;
   results: PineScriptResult[];
+  isTemplate?: boolean;
+  inputs?: PineInput[];
+  inputValues?: Record<string, PineInputValue>;
 }
 
 interface CustomIndicatorsPanelProps {
   isOpen: boolean;
   onClose: () => void;
   chartData: OHLCData[];
+  runOptions?: PineScriptRunOptions;
+  /** Chart the indicators run on; saved scripts keep their input values per chart */
+  chartKey?: string;
   activeIndicators: ActiveIndicator[];
   onAddIndicator: (indicator: ActiveIndicator) => void;
+  onUpdateIndicator: (id: string, updates: Partial<ActiveIndicator>) => void;
   onRemoveIndicator: (id: string) => void;
   onToggleIndicator: (id: string) => void;
   onOpenPineEditor: () => void;
@@ -53,8 +65,11 @@ const CustomIndicatorsPanel: React.FC<CustomIndicatorsPanelProps> = ({
   isOpen,
   onClose,
   chartData,
+  runOptions,
+  chartKey = 'main',
   activeIndicators,
   onAddIndicator,
+  onUpdateIndicator,
   onRemoveIndicator,
   onToggleIndicator,
   onOpenPineEditor,
@@ -63,6 +78,10 @@ const CustomIndicatorsPanel: React.FC<CustomIndicatorsPanelProps> = ({
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [isLoading, setIsLoading] = useState(false);
+  const [settingsId, setSettingsId] = useState<string | null>(null);
+  const rerunTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const settingsIndicator = activeIndicators.find(i => i.id === settingsId);
 
   useEffect(() => {
     if (isOpen) {
@@ -70,6 +89,8 @@ const CustomIndicatorsPanel: React.FC<CustomIndicatorsPanelProps> = ({
     }
   }, [isOpen]);
 
+  useEffect(() => () => clearTimeout(rerunTimer.current), []);
+
   const filteredScripts = savedScripts.filter(script => {
     const matchesSearch = script.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
       script.description.toLowerCase().includes(searchQuery.toLowerCase());
@@ -85,7 +106,8 @@ const CustomIndicatorsPanel: React.FC<CustomIndicatorsPanelProps> = ({
 
     setIsLoading(true);
     try {
-      const results = await PineScriptRunner.runPineScript(script.code, chartData);
+      const inputValues = getScriptInputs(script, chartKey);
+      const { results, inputs } = await PineScriptRunner.run(script.code, chartData, { ...runOptions, inputs: inputValues });
       
       const indicator: ActiveIndicator = {
         id: `custom-${Date.now()}`,
@@ -94,6 +116,8 @@ const CustomIndicatorsPanel: React.FC<CustomIndicatorsPanelProps> = ({
         visible: true,
         color: results[0]?.color || '#f97316',
         results,
+        inputs,
+        inputValues,
       };
 
       onAddIndicator(indicator);
@@ -117,7 +141,7 @@ const CustomIndicatorsPanel: React.FC<CustomIndicatorsPanelProps> = ({
 
     setIsLoading(true);
     try {
-      const results = await PineScriptRunner.runPineScript(template.code, chartData);
+      const { results, inputs } = await PineScriptRunner.run(template.code, chartData, runOptions);
       
       const indicator: ActiveIndicator = {
         id: `template-${Date.now()}`,
@@ -126,6 +150,9 @@ const CustomIndicatorsPanel: React.FC<CustomIndicatorsPanelProps> = ({
         visible: true,
         color: results[0]?.color || '#3b82f6',
         results,
+        isTemplate: true,
+        inputs,
+        inputValues: {},
       };
 
       onAddIndicator(indicator);
@@ -141,6 +168,33 @@ const CustomIndicatorsPanel: React.FC<CustomIndicatorsPanelProps> = ({
     }
   };
 
+  // Settings changes show immediately in the form; the script re-runs once typing settles
+  const handleInputsChange = (indicator: ActiveIndicator, values: Record<string, PineInputValue>) => {
+    onUpdateIndicator(indicator.id, { inputValues: values });
+    if (!indicator.isTemplate) {
+      const updated = saveScriptInputs(indicator.scriptId, chartKey, values);
+      if (updated) setSavedScripts(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+    }
+
+    clearTimeout(rerunTimer.current);
+    rerunTimer.current = setTimeout(async () => {
+      const code = indicator.isTemplate
+        ? PINE_TEMPLATES.find(t => t.id === indicator.scriptId)?.code
+        : loadScript(indicator.scriptId)?.code;
+      if (!code) return;
+      try {
+        const { results, inputs } = await PineScriptRunner.run(code, chartData, { ...runOptions, inputs: values });
+        onUpdateIndicator(indicator.id, { results, inputs });
+      } catch (error) {
+        toast({
+          title: 'Script Error',
+          description: error instanceof Error ? error.message : String(error),
+          variant: 'destructive',
+        });
+      }
+    }, 300);
+  };
+
   const categories = ['all', 'indicator', 'oscillator', 'strategy'];
 
   return (
@@ -194,6 +248,16 @@ const CustomIndicatorsPanel: React.FC<CustomIndicatorsPanelProps> = ({
                           <span className="font-medium">{indicator.name}</span>
                         </div>
                         <div className="flex items-center gap-2">
+                          {indicator.inputs && indicator.inputs.length > 0 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 w-7 p-0"
+                              onClick={() => setSettingsId(indicator.id)}
+                            >
+                              <Settings className="w-4 h-4 text-muted-foreground" />
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="sm"
@@ -354,6 +418,17 @@ const CustomIndicatorsPanel: React.FC<CustomIndicatorsPanelProps> = ({
             </ScrollArea>
           </TabsContent>
         </Tabs>
+
+        {settingsIndicator && (
+          <PineInputsDialog
+            isOpen
+            onClose={() => setSettingsId(null)}
+            title={settingsIndicator.name}
+            inputs={settingsIndicator.inputs ?? []}
+            values={settingsIndicator.inputValues ?? {}}
+            onChange={(values) => handleInputsChange(settingsIndicator, values)}
+          />
+        )}
       </SheetContent>
     </Sheet>
   );
@@ -1,5 +1,6 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import {
   Popover,
   PopoverContent,
@@ -45,7 +46,8 @@ const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
   onDelete,
   onDuplicate,
 }) => {
-  const [locked, setLocked] = useState(false);
+  const locked = !!drawing.locked;
+  const hasText = drawing.type === 'text' || drawing.type === 'callout';
 
   return (
     <div
@@ -58,6 +60,20 @@ const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
         transform: 'translateX(-50%)',
       }}
     >
+      {/* Label text */}
+      {hasText && (
+        <>
+          <Input
+            value={drawing.text ?? ''}
+            onChange={e => onUpdate({ text: e.target.value })}
+            placeholder="Text"
+            className="h-7 w-36 text-xs font-mono"
+            disabled={locked}
+          />
+          <div className="w-px h-5 bg-border mx-0.5" />
+        </>
+      )}
+
       {/* Color picker */}
       <Popover>
         <PopoverTrigger asChild>
@@ -146,7 +162,7 @@ const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
         variant="ghost"
         size="sm"
         className="h-8 w-8 p-0"
-        onClick={() => setLocked(!locked)}
+        onClick={() => onUpdate({ locked: !locked })}
         title={locked ? 'Unlock' : 'Lock'}
       >
         {locked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
@@ -21,6 +21,7 @@ import { BarChart2, X, Layers, MousePointerClick, Grid3X3, Monitor, Zap, Activit
 import { ChartIndicator } from './types';
 import { DeepChartsConfig } from './indicators/DeepChartsEngine';
 import DeepChartsSettingsPanel from './indicators/DeepChartsSettingsPanel';
+import { DEFAULT_FOOTPRINT_CONFIG } from './indicators/FootprintEngine';
 
 interface ChartPanel {
   id: string;
@@ -87,6 +88,40 @@ const IndicatorsPanel: React.FC<IndicatorsPanelProps> = ({
     });
   };
 
+  const footprintIndicator = indicators.find(i => i.name === 'Footprint');
+  const isFootprintActive = footprintIndicator?.visible ?? false;
+  const footprintSettings = footprintIndicator?.settings ?? {};
+
+  const handleFootprintToggle = () => {
+    if (footprintIndicator) {
+      onToggleIndicator(footprintIndicator.id);
+      return;
+    }
+
+    onAddCustomIndicator({
+      id: `footprint-${Date.now()}`,
+      name: 'Footprint',
+      type: 'overlay',
+      visible: true,
+      settings: {
+        display: DEFAULT_FOOTPRINT_CONFIG.display,
+        rowsPerBar: DEFAULT_FOOTPRINT_CONFIG.rowsPerBar,
+        rowSize: DEFAULT_FOOTPRINT_CONFIG.rowSize,
+        imbalanceRatio: DEFAULT_FOOTPRINT_CONFIG.imbalanceRatio,
+        stackedCount: DEFAULT_FOOTPRINT_CONFIG.stackedCount,
+        showPOC: true,
+        showImbalances: true,
+        showStacked: true,
+      },
+      color: DEFAULT_FOOTPRINT_CONFIG.buyColor,
+    });
+  };
+
+  const updateFootprint = (key: string, value: number | string | boolean) => {
+    if (!footprintIndicator) return;
+    onUpdateIndicator(footprintIndicator.id, { ...footprintIndicator.settings, [key]: value });
+  };
+
   const handleRowsChange = (value: number[]) => {
     setDomRows(value[0]);
     if (domIndicator) {
@@ -146,6 +181,103 @@ const IndicatorsPanel: React.FC<IndicatorsPanelProps> = ({
               <p className="text-xs text-muted-foreground mt-1">แสดง Volume bars ด้านล่างกราฟ</p>
             </div>
 
+            {/* Footprint Indicator Card */}
+            <div className="p-4 rounded-lg border border-orange-500/30 bg-muted/20">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                  <Grid3X3 className="w-5 h-5 text-orange-400" />
+                  <span className="text-lg font-mono font-bold text-orange-400">Footprint</span>
+                  <Badge variant="outline" className="text-[10px] border-orange-500/50">Order Flow</Badge>
+                </div>
+                <Switch
+                  checked={isFootprintActive}
+                  onCheckedChange={handleFootprintToggle}
+                  className="data-[state=checked]:bg-orange-500"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground mb-3">
+                Bid×Ask volume per price level, imbalances, POC per bar and stacked imbalance zones.
+                Crypto uses Binance aggTrades; other assets are estimated from the synthetic DOM.
+              </p>
+              {isFootprintActive && (
+                <div className="space-y-3 pt-3 border-t border-border">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-muted-foreground">Display</span>
+                    <Select
+                      value={String(footprintSettings.display ?? DEFAULT_FOOTPRINT_CONFIG.display)}
+                      onValueChange={(v) => updateFootprint('display', v)}
+                    >
+                      <SelectTrigger className="h-7 w-32 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="bidAsk">Bid × Ask</SelectItem>
+                        <SelectItem value="delta">Delta</SelectItem>
+                        <SelectItem value="volume">Volume</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-muted-foreground">Rows per bar (auto row size)</span>
+                      <span className="text-xs font-mono text-orange-400">{Number(footprintSettings.rowsPerBar ?? DEFAULT_FOOTPRINT_CONFIG.rowsPerBar)}</span>
+                    </div>
+                    <Slider
+                      value={[Number(footprintSettings.rowsPerBar ?? DEFAULT_FOOTPRINT_CONFIG.rowsPerBar)]}
+                      onValueChange={([v]) => updateFootprint('rowsPerBar', v)}
+                      min={4}
+                      max={40}
+                      step={1}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-muted-foreground">Imbalance ratio</span>
+                      <span className="text-xs font-mono text-orange-400">{Number(footprintSettings.imbalanceRatio ?? DEFAULT_FOOTPRINT_CONFIG.imbalanceRatio) * 100}%</span>
+                    </div>
+                    <Slider
+                      value={[Number(footprintSettings.imbalanceRatio ?? DEFAULT_FOOTPRINT_CONFIG.imbalanceRatio)]}
+                      onValueChange={([v]) => updateFootprint('imbalanceRatio', v)}
+                      min={1.5}
+                      max={6}
+                      step={0.5}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-muted-foreground">Stacked imbalance levels</span>
+                      <span className="text-xs font-mono text-orange-400">{Number(footprintSettings.stackedCount ?? DEFAULT_FOOTPRINT_CONFIG.stackedCount)}+</span>
+                    </div>
+                    <Slider
+                      value={[Number(footprintSettings.stackedCount ?? DEFAULT_FOOTPRINT_CONFIG.stackedCount)]}
+                      onValueChange={([v]) => updateFootprint('stackedCount', v)}
+                      min={2}
+                      max={8}
+                      step={1}
+                    />
+                  </div>
+
+                  {([
+                    ['showPOC', 'POC per bar'],
+                    ['showImbalances', 'Highlight imbalances'],
+                    ['showStacked', 'Stacked imbalance zones'],
+                  ] as const).map(([key, label]) => (
+                    <div key={key} className="flex items-center justify-between">
+                      <span className="text-xs text-muted-foreground">{label}</span>
+                      <Switch
+                        checked={footprintSettings[key] !== false}
+                        onCheckedChange={(v) => updateFootprint(key, v)}
+                        className="data-[state=checked]:bg-orange-500"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {/* DeepCharts Pro Indicator Card */}
             <div className="p-4 rounded-lg border border-purple-500/30 bg-muted/20">
               <div className="flex items-center justify-between mb-2">
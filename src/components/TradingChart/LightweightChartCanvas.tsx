@@ -1,11 +1,12 @@
 // LightweightChartCanvas - Now uses ABLE Chart Engine (custom canvas-based chart)
-import React from 'react';
+import React, { useMemo } from 'react';
 import { ABLEChartCanvas, DOMConfig } from './ABLEChartEngine';
-import { OHLCVData } from '@/services/ChartDataService';
+import { BarTypeConfig, OHLCVData } from '@/services/ChartDataService';
 import { ChartTheme } from './ChartThemes';
 import { ChartIndicator, DrawingTool } from './types';
 import { IndicatorData } from './ABLEChartEngine/types';
 import { DeepChartsConfig } from './indicators/DeepChartsEngine';
+import { DEFAULT_FOOTPRINT_CONFIG, FootprintConfig, FootprintDisplay } from './indicators/FootprintEngine';
 
 interface LightweightChartCanvasProps {
   data: OHLCVData[];
@@ -22,6 +23,7 @@ interface LightweightChartCanvasProps {
   onCrosshairMove?: (data: { price: number; time: number; visible: boolean }) => void;
   onLoadMoreHistory?: () => void;
   deepChartsConfig?: DeepChartsConfig;
+  barType?: BarTypeConfig | null;
 }
 
 export const LightweightChartCanvas: React.FC<LightweightChartCanvasProps> = ({
@@ -39,6 +41,7 @@ export const LightweightChartCanvas: React.FC<LightweightChartCanvasProps> = ({
   onCrosshairMove,
   onLoadMoreHistory,
   deepChartsConfig,
+  barType,
 }) => {
   // Filter for DOM indicator
   const domIndicator = indicators.find(ind => ind.name === 'DOM');
@@ -54,9 +57,29 @@ export const LightweightChartCanvas: React.FC<LightweightChartCanvasProps> = ({
     opacity: 0.95,
   };
 
+  // Footprint replaces candles with bid×ask rows
+  const footprintIndicator = indicators.find(ind => ind.name === 'Footprint');
+  const footprintVisible = footprintIndicator?.visible === true;
+  const footprintSettings = footprintIndicator?.settings;
+  const footprintConfig: FootprintConfig = useMemo(() => {
+    const settings = footprintSettings ?? {};
+    return {
+      ...DEFAULT_FOOTPRINT_CONFIG,
+      enabled: footprintVisible,
+      display: (settings.display as FootprintDisplay) || DEFAULT_FOOTPRINT_CONFIG.display,
+      rowSize: Number(settings.rowSize) || 0,
+      rowsPerBar: Number(settings.rowsPerBar) || DEFAULT_FOOTPRINT_CONFIG.rowsPerBar,
+      imbalanceRatio: Number(settings.imbalanceRatio) || DEFAULT_FOOTPRINT_CONFIG.imbalanceRatio,
+      stackedCount: Number(settings.stackedCount) || DEFAULT_FOOTPRINT_CONFIG.stackedCount,
+      showPOC: settings.showPOC !== false,
+      showImbalances: settings.showImbalances !== false,
+      showStacked: settings.showStacked !== false,
+    };
+  }, [footprintVisible, footprintSettings]);
+
   // Convert other indicators
   const indicatorData: IndicatorData[] = indicators
-    .filter(ind => ind.visible && ind.name !== 'DOM' && ind.name !== 'DeepCharts')
+    .filter(ind => ind.visible && ind.name !== 'DOM' && ind.name !== 'DeepCharts' && ind.name !== 'Footprint')
     .map(ind => ({
       id: ind.id,
       name: ind.name,
@@ -90,6 +113,8 @@ export const LightweightChartCanvas: React.FC<LightweightChartCanvasProps> = ({
       drawingMode={drawingMode as any}
       domConfig={domConfig}
       deepChartsConfig={deepChartsConfig}
+      footprintConfig={footprintConfig}
+      barType={barType}
       domFullscreen={domFullscreen}
       onDOMFullscreenChange={onDOMFullscreenChange}
       onCrosshairMove={onCrosshairMove}
@@ -10,7 +10,16 @@ import {
   BarChart2, Settings, X, ChevronDown, 
   Maximize, ZoomIn, ZoomOut, Bell, Palette, Menu
 } from 'lucide-react';
-import { chartDataService, ChartSymbol, Timeframe, OHLCVData } from '@/services/ChartDataService';
+import {
+  chartDataService,
+  ChartSymbol,
+  Timeframe,
+  OHLCVData,
+  BarType,
+  BarTypeConfig,
+  BAR_TYPE_LABELS,
+  DEFAULT_BAR_TYPE_CONFIG,
+} from '@/services/ChartDataService';
 import { ChartIndicator, DEFAULT_INDICATORS } from './types';
 import { ChartTheme, loadTheme, PRESET_THEMES } from './ChartThemes';
 import ChartCanvas from './ChartCanvas';
@@ -33,6 +42,7 @@ const MobileTradingChart: React.FC<MobileTradingChartProps> = ({
   });
   const [timeframe, setTimeframe] = useState<Timeframe>('1h');
   const [data, setData] = useState<OHLCVData[]>([]);
+  const [barType, setBarType] = useState<BarTypeConfig>(DEFAULT_BAR_TYPE_CONFIG);
   const [isLoading, setIsLoading] = useState(true);
 
   // Panels - mobile bottom sheets
@@ -255,6 +265,7 @@ const MobileTradingChart: React.FC<MobileTradingChartProps> = ({
             onPan={handlePan}
             theme={theme}
             customIndicators={[]}
+            barType={barType}
           />
         )}
 
@@ -381,6 +392,29 @@ const MobileTradingChart: React.FC<MobileTradingChartProps> = ({
                 </div>
               </div>
 
+              {/* Bar Type */}
+              <div className="p-3 rounded-lg bg-muted/30">
+                <div className="flex items-center gap-2 mb-3">
+                  <BarChart2 className="w-4 h-4 text-terminal-green" />
+                  <span className="font-mono text-sm">Bar Type</span>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(BAR_TYPE_LABELS) as BarType[]).map(type => (
+                    <button
+                      key={type}
+                      onClick={() => setBarType(prev => ({ ...prev, type }))}
+                      className={`p-2 rounded text-xs font-mono transition-colors ${
+                        barType.type === type
+                          ? 'bg-terminal-green/20 border border-terminal-green'
+                          : 'bg-muted/50 border border-transparent'
+                      }`}
+                    >
+                      {BAR_TYPE_LABELS[type]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               {/* Fullscreen */}
               <Button
                 variant="outline"
@@ -1,5 +1,5 @@
 import React, { useMemo, useRef, useEffect, useState } from 'react';
-import { ChartSymbol, Timeframe } from '@/services/ChartDataService';
+import { BarTypeConfig, ChartSymbol, Timeframe } from '@/services/ChartDataService';
 import { ChartTheme } from './ChartThemes';
 import MultiChartPanel from './MultiChartPanel';
 import type { ChartIndicator } from './types';
@@ -140,6 +140,9 @@ interface MultiChartLayoutProps {
   syncCrosshair: boolean;
   onMainSymbolChange: (symbol: ChartSymbol) => void;
   indicatorsByPanel?: Record<string, ChartIndicator[]>;
+  /** Active drawing tool; applies to whichever pane is clicked */
+  drawingMode?: string | null;
+  barType?: BarTypeConfig;
   domFullscreenByPanel?: Record<string, boolean>;
   onDOMFullscreenChangeForPanel?: (panelId: string, isFullscreen: boolean) => void;
   onFocusPanel?: (panelId: string) => void;
@@ -155,6 +158,8 @@ const MultiChartLayout: React.FC<MultiChartLayoutProps> = ({
   syncCrosshair,
   onMainSymbolChange,
   indicatorsByPanel = {},
+  drawingMode,
+  barType,
   domFullscreenByPanel = {},
   onDOMFullscreenChangeForPanel,
   onFocusPanel,
@@ -249,6 +254,8 @@ const MultiChartLayout: React.FC<MultiChartLayoutProps> = ({
               timeframe={timeframe}
               theme={theme}
               indicators={indicatorsByPanel[panelConfig.id] ?? []}
+              drawingMode={drawingMode}
+              barType={barType}
               domFullscreen={domFullscreenByPanel[panelConfig.id] ?? false}
               onDOMFullscreenChange={(next) => onDOMFullscreenChangeForPanel?.(panelConfig.id, next)}
               onFocus={onFocusPanel}
@@ -2,7 +2,7 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Search, X, RefreshCw, TrendingUp, TrendingDown } from 'lucide-react';
-import { chartDataService, ChartSymbol, Timeframe, OHLCVData } from '@/services/ChartDataService';
+import { BarTypeConfig, chartDataService, ChartSymbol, Timeframe, OHLCVData } from '@/services/ChartDataService';
 import { ChartTheme } from './ChartThemes';
 import LightweightChartCanvas from './LightweightChartCanvas';
 import { ChartIndicator } from './types';
@@ -13,6 +13,8 @@ interface MultiChartPanelProps {
   timeframe: Timeframe;
   theme: ChartTheme;
   indicators?: ChartIndicator[];
+  drawingMode?: string | null;
+  barType?: BarTypeConfig;
   domFullscreen?: boolean;
   onDOMFullscreenChange?: (isFullscreen: boolean) => void;
   onFocus?: (panelId: string) => void;
@@ -30,6 +32,8 @@ const MultiChartPanel: React.FC<MultiChartPanelProps> = ({
   timeframe: initialTimeframe,
   theme,
   indicators = [],
+  drawingMode,
+  barType,
   domFullscreen,
   onDOMFullscreenChange,
   onFocus,
@@ -205,7 +209,8 @@ const MultiChartPanel: React.FC<MultiChartPanelProps> = ({
             onChange={(e) => setTimeframe(e.target.value as Timeframe)}
             className="h-5 px-0.5 text-[9px] bg-muted rounded border-none focus:outline-none text-muted-foreground"
           >
-            {['1m', '5m', '15m', '1h', '4h', '1D'].map(tf => (
+            {/* A synced custom timeframe (e.g. 2h) shows up alongside the quick picks */}
+            {Array.from(new Set(['1m', '5m', '15m', '1h', '4h', '1D', timeframe])).map(tf => (
               <option key={tf} value={tf}>{tf}</option>
             ))}
           </select>
@@ -252,6 +257,8 @@ const MultiChartPanel: React.FC<MultiChartPanelProps> = ({
             height={dimensions.height}
             theme={theme}
             indicators={indicators}
+            drawingMode={drawingMode}
+            barType={barType}
             domFullscreen={domFullscreen}
             onDOMFullscreenChange={onDOMFullscreenChange}
           />
@@ -0,0 +1,184 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RotateCcw, Settings } from 'lucide-react';
+import type { PineInput, PineInputValue } from '@/utils/pine';
+
+interface PineInputsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  inputs: PineInput[];
+  /** Overrides only; inputs without one show their default */
+  values: Record<string, PineInputValue>;
+  onChange: (values: Record<string, PineInputValue>) => void;
+}
+
+// Settings form generated from the input.*() calls of a script
+const PineInputsDialog: React.FC<PineInputsDialogProps> = ({
+  isOpen,
+  onClose,
+  title,
+  inputs,
+  values,
+  onChange,
+}) => {
+  const groups = inputs.reduce<Map<string, PineInput[]>>((map, input) => {
+    const group = input.group ?? '';
+    map.set(group, [...(map.get(group) ?? []), input]);
+    return map;
+  }, new Map());
+
+  const setValue = (input: PineInput, value: PineInputValue) => {
+    const next = { ...values };
+    if (value === input.defval) delete next[input.id];
+    else next[input.id] = value;
+    onChange(next);
+  };
+
+  const renderField = (input: PineInput) => {
+    const value = values[input.id] ?? input.defval;
+
+    if (input.type === 'bool') {
+      return (
+        <Switch
+          checked={value === true}
+          onCheckedChange={(checked) => setValue(input, checked)}
+        />
+      );
+    }
+
+    if (input.options && input.options.length > 0) {
+      return (
+        <Select
+          value={String(value)}
+          onValueChange={(selected) => {
+            const option = input.options!.find(o => String(o) === selected);
+            setValue(input, option ?? selected);
+          }}
+        >
+          <SelectTrigger className="h-8 w-40 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {input.options.map(option => (
+              <SelectItem key={String(option)} value={String(option)} className="text-xs">
+                {String(option)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (input.type === 'color') {
+      return (
+        <input
+          type="color"
+          value={String(value).slice(0, 7)}
+          onChange={(e) => setValue(input, e.target.value.toUpperCase())}
+          className="h-8 w-12 cursor-pointer rounded border border-border bg-transparent"
+        />
+      );
+    }
+
+    if (input.type === 'int' || input.type === 'float' || input.type === 'price') {
+      return (
+        <Input
+          type="number"
+          value={Number.isFinite(Number(value)) ? String(value) : ''}
+          min={input.minval}
+          max={input.maxval}
+          step={input.step ?? (input.type === 'int' ? 1 : 'any')}
+          onChange={(e) => {
+            if (e.target.value === '') return;
+            setValue(input, Number(e.target.value));
+          }}
+          className="h-8 w-28 text-xs font-mono"
+        />
+      );
+    }
+
+    return (
+      <Input
+        value={String(value)}
+        onChange={(e) => setValue(input, e.target.value)}
+        className="h-8 w-40 text-xs"
+      />
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={() => onClose()}>
+      <DialogContent className="bg-card border-terminal-green/30 max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-terminal-green">
+            <Settings className="w-5 h-5" />
+            {title} Settings
+          </DialogTitle>
+        </DialogHeader>
+
+        {inputs.length === 0 ? (
+          <div className="text-center text-muted-foreground py-8 text-sm">
+            This script has no inputs.
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-2">
+            <div className="space-y-4">
+              {[...groups.entries()].map(([group, items]) => (
+                <div key={group || 'inputs'}>
+                  {group && (
+                    <h4 className="text-sm font-medium text-terminal-cyan mb-2">{group}</h4>
+                  )}
+                  <div className="space-y-2">
+                    {items.map(input => (
+                      <div key={input.id} className="flex items-center justify-between gap-3">
+                        <Label className="text-xs text-muted-foreground" title={input.tooltip}>
+                          {input.title}
+                        </Label>
+                        {renderField(input)}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="flex justify-between pt-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({})}
+            disabled={Object.keys(values).length === 0}
+          >
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Defaults
+          </Button>
+          <Button size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PineInputsDialog;
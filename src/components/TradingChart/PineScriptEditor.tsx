@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
@@ -15,15 +15,20 @@ import {
   TabsList,
   TabsTrigger,
 } from '@/components/ui/tabs';
-import { Code, Play, Save, FileCode, Trash2, Plus, AlertCircle, CheckCircle } from 'lucide-react';
+import { Code, Play, Save, FileCode, Trash2, Plus, AlertCircle, CheckCircle, Target } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { pineScriptTemplates, PineScriptTemplate } from '@/utils/PineScriptTemplates';
-import { PineScriptRunner, PineScriptResult, OHLCData } from '@/utils/PineScriptRunner';
+import { PineScriptRunner, PineScriptResult, OHLCData, PineScriptRunOptions } from '@/utils/PineScriptRunner';
+import type { PineInput, StrategyReport } from '@/utils/pine';
+import { calculateMetrics, formatCurrency } from '@/utils/tradingMetrics';
+import StrategyOptimizerDialog from './StrategyOptimizerDialog';
 
 interface PineScriptEditorProps {
   isOpen: boolean;
   onClose: () => void;
   chartData: OHLCData[];
+  /** Chart symbol/timeframe and the request.security() data provider */
+  runOptions?: PineScriptRunOptions;
   onApplyIndicator: (results: PineScriptResult[], name: string) => void;
 }
 
@@ -38,6 +43,7 @@ const PineScriptEditor: React.FC<PineScriptEditorProps> = ({
   isOpen,
   onClose,
   chartData,
+  runOptions,
   onApplyIndicator,
 }) => {
   const [code, setCode] = useState(pineScriptTemplates[0]?.code || '');
@@ -45,6 +51,9 @@ const PineScriptEditor: React.FC<PineScriptEditorProps> = ({
   const [isRunning, setIsRunning] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [results, setResults] = useState<PineScriptResult[] | null>(null);
+  const [report, setReport] = useState<StrategyReport | null>(null);
+  const [inputs, setInputs] = useState<PineInput[]>([]);
+  const [showOptimizer, setShowOptimizer] = useState(false);
   const [savedScripts, setSavedScripts] = useState<SavedScript[]>(() => {
     const saved = localStorage.getItem('pine-scripts');
     return saved ? JSON.parse(saved) : [];
@@ -63,13 +72,18 @@ const PineScriptEditor: React.FC<PineScriptEditorProps> = ({
     setIsRunning(true);
     setError(null);
     setResults(null);
+    setReport(null);
 
     try {
-      const result = await PineScriptRunner.runPineScript(code, chartData);
-      setResults(result);
+      const output = await PineScriptRunner.run(code, chartData, runOptions);
+      setResults(output.results);
+      setReport(output.strategy ?? null);
+      setInputs(output.inputs);
       toast({
         title: 'Script Executed',
-        description: `Generated ${result.length} indicator(s)`,
+        description: output.strategy
+          ? `${output.strategy.closedTrades.length} trade(s), net ${formatCurrency(output.strategy.netProfit)}`
+          : `Generated ${output.results.length} indicator(s)`,
       });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
@@ -82,7 +96,7 @@ const PineScriptEditor: React.FC<PineScriptEditorProps> = ({
     } finally {
       setIsRunning(false);
     }
-  }, [code, chartData]);
+  }, [code, chartData, runOptions]);
 
   const applyToChart = useCallback(() => {
     if (results && results.length > 0) {
@@ -115,6 +129,7 @@ const PineScriptEditor: React.FC<PineScriptEditorProps> = ({
     setScriptName(script.name);
     setError(null);
     setResults(null);
+    setReport(null);
   }, []);
 
   const deleteScript = useCallback((id: string) => {
@@ -128,8 +143,14 @@ const PineScriptEditor: React.FC<PineScriptEditorProps> = ({
     setScriptName(template.name);
     setError(null);
     setResults(null);
+    setReport(null);
   }, []);
 
+  const metrics = useMemo(
+    () => (report ? calculateMetrics(report.trades, report.initialCapital) : null),
+    [report]
+  );
+
   return (
     <Sheet open={isOpen} onOpenChange={onClose}>
       <SheetContent side="right" className="w-[500px] sm:w-[600px] bg-card border-l border-terminal-cyan/30">
@@ -199,6 +220,52 @@ indicator('My Indicator', overlay=true)
               </div>
             )}
 
+            {/* Strategy backtest */}
+            {report && metrics && (
+              <div className="p-3 rounded border border-terminal-cyan/30 bg-terminal-cyan/5">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-sm text-terminal-cyan font-mono">Strategy Tester · {report.title}</p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-6 text-xs"
+                    onClick={() => setShowOptimizer(true)}
+                  >
+                    <Target className="w-3 h-3 mr-1" />
+                    Optimize
+                  </Button>
+                </div>
+                <div className="grid grid-cols-3 gap-2 text-xs font-mono">
+                  <div>
+                    <div className="text-muted-foreground">Net Profit</div>
+                    <div className={report.netProfit >= 0 ? 'text-green-400' : 'text-red-400'}>
+                      {formatCurrency(report.netProfit)} ({((report.netProfit / report.initialCapital) * 100).toFixed(2)}%)
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Closed Trades</div>
+                    <div>{metrics.closedTrades}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Win Rate</div>
+                    <div>{metrics.winRate.toFixed(1)}%</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Profit Factor</div>
+                    <div>{Number.isFinite(metrics.profitFactor) ? metrics.profitFactor.toFixed(2) : '∞'}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Max Drawdown</div>
+                    <div className="text-red-400">-{report.maxDrawdown.toFixed(2)}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Open P&L</div>
+                    <div>{formatCurrency(report.openProfit)}</div>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Actions */}
             <div className="flex gap-2">
               <Button
@@ -288,6 +355,15 @@ indicator('My Indicator', overlay=true)
             </ScrollArea>
           </TabsContent>
         </Tabs>
+
+        <StrategyOptimizerDialog
+          isOpen={showOptimizer}
+          onClose={() => setShowOptimizer(false)}
+          code={code}
+          chartData={chartData}
+          runOptions={runOptions}
+          inputs={inputs}
+        />
       </SheetContent>
     </Sheet>
   );
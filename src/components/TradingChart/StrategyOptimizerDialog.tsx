@@ -0,0 +1,523 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowDown, ArrowUp, Play, Square, Target } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { PineScriptRunner, OHLCData, PineScriptRunOptions } from '@/utils/PineScriptRunner';
+import type { PineInput } from '@/utils/pine';
+import {
+  OBJECTIVE_LABELS,
+  OptimizationResult,
+  OptimizationRun,
+  OptimizeMethod,
+  OptimizeObjective,
+  OptimizerProgress,
+  ParameterRange,
+  gridSize,
+  runOptimizerInWorker,
+} from '@/utils/StrategyOptimizer';
+import { formatCurrency } from '@/utils/tradingMetrics';
+
+interface StrategyOptimizerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  code: string;
+  chartData: OHLCData[];
+  runOptions?: PineScriptRunOptions;
+  /** Inputs of the last run; numeric ones can be optimized */
+  inputs: PineInput[];
+}
+
+interface RangeSetting extends ParameterRange {
+  enabled: boolean;
+}
+
+type SortKey = 'score' | 'netProfit' | 'sharpe' | 'sqn' | 'maxDrawdown' | 'winRate' | 'trades' | `param:${string}`;
+
+const OPTIMIZABLE_TYPES = ['int', 'float', 'price'];
+
+const defaultRange = (input: PineInput, index: number): RangeSetting => {
+  const value = Number(input.defval);
+  const integer = input.type === 'int';
+  const base = Number.isFinite(value) && value !== 0 ? Math.abs(value) : 10;
+  const round = (n: number) => (integer ? Math.round(n) : Number(n.toPrecision(3)));
+  const min = Math.max(input.minval ?? -Infinity, round(base / 2));
+  const max = Math.min(input.maxval ?? Infinity, Math.max(min + (integer ? 1 : 0.1), round(base * 2)));
+  const step = input.step ?? (integer ? Math.max(1, Math.round((max - min) / 10)) : round((max - min) / 10));
+  return { id: input.id, min, max, step, enabled: index < 2 };
+};
+
+const metricValue = (run: OptimizationRun, key: SortKey): number => {
+  if (key === 'score') return run.score;
+  if (key.startsWith('param:')) return run.params[key.slice(6)] ?? NaN;
+  return run.metrics[key as keyof OptimizationRun['metrics']];
+};
+
+const formatMetric = (objective: OptimizeObjective, value: number) => {
+  if (!Number.isFinite(value)) return '—';
+  if (objective === 'netProfit') return formatCurrency(value);
+  if (objective === 'maxDrawdown') return `-${Math.abs(value).toFixed(2)}`;
+  return value.toFixed(2);
+};
+
+// Grid / random / genetic search over a strategy's numeric inputs, with walk-forward validation
+const StrategyOptimizerDialog: React.FC<StrategyOptimizerDialogProps> = ({
+  isOpen,
+  onClose,
+  code,
+  chartData,
+  runOptions,
+  inputs,
+}) => {
+  const numericInputs = useMemo(() => inputs.filter(i => OPTIMIZABLE_TYPES.includes(i.type)), [inputs]);
+  const [ranges, setRanges] = useState<RangeSetting[]>([]);
+  const [method, setMethod] = useState<OptimizeMethod>('grid');
+  const [objective, setObjective] = useState<OptimizeObjective>('netProfit');
+  const [maxRuns, setMaxRuns] = useState(200);
+  const [walkForward, setWalkForward] = useState(false);
+  const [windows, setWindows] = useState(4);
+  const [inSamplePercent, setInSamplePercent] = useState(70);
+  const [progress, setProgress] = useState<OptimizerProgress | null>(null);
+  const [result, setResult] = useState<OptimizationResult | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'score', desc: true });
+  const [heatmapX, setHeatmapX] = useState('');
+  const [heatmapY, setHeatmapY] = useState('');
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    setRanges(numericInputs.map(defaultRange));
+  }, [numericInputs]);
+
+  useEffect(() => () => cancelRef.current?.(), []);
+
+  const enabled = ranges.filter(r => r.enabled);
+  const combinations = gridSize(enabled);
+  const isRunning = progress !== null;
+
+  const updateRange = (id: string, updates: Partial<RangeSetting>) => {
+    setRanges(prev => prev.map(r => (r.id === id ? { ...r, ...updates } : r)));
+  };
+
+  const startOptimization = async () => {
+    if (enabled.length === 0) {
+      toast({ title: 'Select at least one input to optimize', variant: 'destructive' });
+      return;
+    }
+
+    setResult(null);
+    setProgress({ done: 0, total: 1 });
+    try {
+      // The worker can't call the chart's data provider: load request.security() series up front
+      const resolved = await PineScriptRunner.resolveRunOptions(code, chartData, runOptions);
+      const job = runOptimizerInWorker(
+        {
+          code,
+          data: chartData,
+          runOptions: resolved,
+          parameters: enabled.map(({ id, min, max, step }) => ({ id, min, max, step })),
+          method,
+          objective,
+          maxRuns,
+          walkForward: walkForward ? { windows, inSampleRatio: inSamplePercent / 100 } : undefined,
+          seed: Date.now() % 2147483647,
+        },
+        setProgress
+      );
+      cancelRef.current = job.cancel;
+      const optimization = await job.promise;
+      setResult(optimization);
+      setSort({ key: 'score', desc: true });
+      setHeatmapX(enabled[0]?.id ?? '');
+      setHeatmapY(enabled[1]?.id ?? enabled[0]?.id ?? '');
+      toast({
+        title: 'Optimization Complete',
+        description: `${optimization.runs.length} parameter set(s) in ${(optimization.elapsedMs / 1000).toFixed(1)}s`,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message !== 'Optimization cancelled') {
+        toast({ title: 'Optimization Failed', description: message, variant: 'destructive' });
+      }
+    } finally {
+      cancelRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const sortedRuns = useMemo(() => {
+    if (!result) return [];
+    const direction = sort.desc ? -1 : 1;
+    return [...result.runs].sort((a, b) => {
+      const av = metricValue(a, sort.key);
+      const bv = metricValue(b, sort.key);
+      return (av === bv ? 0 : av > bv ? 1 : -1) * direction;
+    });
+  }, [result, sort]);
+
+  // Best objective value for each (x, y) pair, over all values of the other inputs
+  const heatmap = useMemo(() => {
+    if (!result || !heatmapX || !heatmapY) return null;
+    const xs = [...new Set(result.runs.map(r => r.params[heatmapX]))].sort((a, b) => a - b);
+    const ys = [...new Set(result.runs.map(r => r.params[heatmapY]))].sort((a, b) => a - b);
+    const cells = new Map<string, OptimizationRun>();
+    result.runs.forEach(run => {
+      const key = `${run.params[heatmapX]}|${run.params[heatmapY]}`;
+      const current = cells.get(key);
+      if (!current || run.score > current.score) cells.set(key, run);
+    });
+    const scores = [...cells.values()].map(r => r.score).filter(Number.isFinite);
+    return { xs, ys, cells, min: Math.min(...scores), max: Math.max(...scores) };
+  }, [result, heatmapX, heatmapY]);
+
+  const cellColor = (score: number) => {
+    if (!heatmap || !Number.isFinite(score)) return 'transparent';
+    const t = heatmap.max > heatmap.min ? (score - heatmap.min) / (heatmap.max - heatmap.min) : 1;
+    return `hsla(${Math.round(t * 120)}, 70%, 40%, 0.85)`;
+  };
+
+  const sortHeader = (key: SortKey, label: string) => (
+    <TableHead
+      className="cursor-pointer select-none whitespace-nowrap text-xs"
+      onClick={() => setSort(prev => ({ key, desc: prev.key === key ? !prev.desc : true }))}
+    >
+      <span className="inline-flex items-center gap-1">
+        {label}
+        {sort.key === key && (sort.desc ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+      </span>
+    </TableHead>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={() => onClose()}>
+      <DialogContent className="bg-card border-terminal-cyan/30 max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-terminal-cyan font-mono">
+            <Target className="w-5 h-5" />
+            Strategy Optimizer
+          </DialogTitle>
+        </DialogHeader>
+
+        {numericInputs.length === 0 ? (
+          <div className="text-center text-muted-foreground py-8 text-sm">
+            Run a strategy with numeric input.int() / input.float() parameters to optimize it.
+          </div>
+        ) : (
+          <Tabs defaultValue="setup">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="setup">Setup</TabsTrigger>
+              <TabsTrigger value="results" disabled={!result}>Results</TabsTrigger>
+              <TabsTrigger value="walkforward" disabled={!result || result.windows.length === 0}>
+                Walk-Forward
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="setup" className="space-y-4">
+              <div className="space-y-2">
+                <div className="grid grid-cols-[24px_1fr_90px_90px_90px] gap-2 text-xs text-muted-foreground">
+                  <span />
+                  <span>Input</span>
+                  <span>Min</span>
+                  <span>Max</span>
+                  <span>Step</span>
+                </div>
+                {ranges.map(range => (
+                  <div key={range.id} className="grid grid-cols-[24px_1fr_90px_90px_90px] gap-2 items-center">
+                    <Checkbox
+                      checked={range.enabled}
+                      onCheckedChange={(checked) => updateRange(range.id, { enabled: checked === true })}
+                    />
+                    <span className="text-sm truncate">{range.id}</span>
+                    {(['min', 'max', 'step'] as const).map(field => (
+                      <Input
+                        key={field}
+                        type="number"
+                        value={range[field]}
+                        disabled={!range.enabled}
+                        onChange={(e) => updateRange(range.id, { [field]: Number(e.target.value) })}
+                        className="h-8 text-xs font-mono"
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Search</Label>
+                  <Select value={method} onValueChange={(v) => setMethod(v as OptimizeMethod)}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="grid">Grid</SelectItem>
+                      <SelectItem value="random">Random</SelectItem>
+                      <SelectItem value="genetic">Genetic</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Rank by</Label>
+                  <Select value={objective} onValueChange={(v) => setObjective(v as OptimizeObjective)}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(OBJECTIVE_LABELS) as OptimizeObjective[]).map(key => (
+                        <SelectItem key={key} value={key}>{OBJECTIVE_LABELS[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Max runs</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={maxRuns}
+                    onChange={(e) => setMaxRuns(Math.max(1, Number(e.target.value) || 1))}
+                    className="h-8 text-xs font-mono"
+                  />
+                </div>
+              </div>
+
+              <p className={`text-xs ${method === 'grid' && combinations > maxRuns ? 'text-amber-400' : 'text-muted-foreground'}`}>
+                {combinations.toLocaleString()} combination(s)
+                {method === 'grid' && combinations > maxRuns && ` — only the first ${maxRuns} will run; use a larger step or random/genetic search`}
+              </p>
+
+              <div className="flex items-center gap-4 p-3 rounded border border-border">
+                <div className="flex items-center gap-2">
+                  <Switch checked={walkForward} onCheckedChange={setWalkForward} />
+                  <Label className="text-xs">Walk-forward</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label className="text-xs text-muted-foreground">Windows</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={windows}
+                    disabled={!walkForward}
+                    onChange={(e) => setWindows(Math.min(20, Math.max(1, Number(e.target.value) || 1)))}
+                    className="h-8 w-16 text-xs font-mono"
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label className="text-xs text-muted-foreground">In-sample %</Label>
+                  <Input
+                    type="number"
+                    min={10}
+                    max={95}
+                    value={inSamplePercent}
+                    disabled={!walkForward}
+                    onChange={(e) => setInSamplePercent(Math.min(95, Math.max(10, Number(e.target.value) || 70)))}
+                    className="h-8 w-16 text-xs font-mono"
+                  />
+                </div>
+              </div>
+
+              {progress && (
+                <div className="space-y-1">
+                  <Progress value={(progress.done / Math.max(1, progress.total)) * 100} />
+                  <p className="text-xs text-muted-foreground font-mono">
+                    {progress.done} / {progress.total} runs
+                  </p>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button
+                  onClick={startOptimization}
+                  disabled={isRunning || enabled.length === 0}
+                  className="flex-1 bg-terminal-cyan text-black hover:bg-terminal-cyan/80"
+                >
+                  <Play className="w-4 h-4 mr-2" />
+                  {isRunning ? 'Optimizing...' : 'Optimize'}
+                </Button>
+                {isRunning && (
+                  <Button variant="outline" onClick={() => cancelRef.current?.()}>
+                    <Square className="w-4 h-4 mr-1" />
+                    Stop
+                  </Button>
+                )}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="results" className="space-y-4">
+              {result && (
+                <>
+                  <ScrollArea className="h-[260px] border border-border rounded">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          {enabled.map(r => sortHeader(`param:${r.id}`, r.id))}
+                          {sortHeader('netProfit', 'Net Profit')}
+                          {sortHeader('sharpe', 'Sharpe')}
+                          {sortHeader('sqn', 'SQN')}
+                          {sortHeader('maxDrawdown', 'Max DD')}
+                          {sortHeader('winRate', 'Win %')}
+                          {sortHeader('trades', 'Trades')}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {sortedRuns.map((run, i) => (
+                          <TableRow key={i} className="font-mono text-xs">
+                            {enabled.map(r => (
+                              <TableCell key={r.id} className="py-1">{run.params[r.id]}</TableCell>
+                            ))}
+                            <TableCell className={`py-1 ${run.metrics.netProfit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                              {formatCurrency(run.metrics.netProfit)}
+                            </TableCell>
+                            <TableCell className="py-1">{run.metrics.sharpe.toFixed(2)}</TableCell>
+                            <TableCell className="py-1">{run.metrics.sqn.toFixed(2)}</TableCell>
+                            <TableCell className="py-1 text-red-400">-{run.metrics.maxDrawdown.toFixed(2)}</TableCell>
+                            <TableCell className="py-1">{run.metrics.winRate.toFixed(1)}</TableCell>
+                            <TableCell className="py-1">{run.metrics.trades}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </ScrollArea>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="text-muted-foreground">Heatmap of {OBJECTIVE_LABELS[result.objective]}:</span>
+                      {[
+                        { value: heatmapX, set: setHeatmapX, label: 'X' },
+                        { value: heatmapY, set: setHeatmapY, label: 'Y' },
+                      ].map(axis => (
+                        <Select key={axis.label} value={axis.value} onValueChange={axis.set}>
+                          <SelectTrigger className="h-7 w-36 text-xs">
+                            <SelectValue placeholder={axis.label} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {enabled.map(r => (
+                              <SelectItem key={r.id} value={r.id}>{axis.label}: {r.id}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ))}
+                    </div>
+                    {heatmap && (
+                      <ScrollArea className="max-h-[220px]">
+                        <div
+                          className="grid gap-px text-[10px] font-mono"
+                          style={{ gridTemplateColumns: `48px repeat(${heatmap.xs.length}, minmax(36px, 1fr))` }}
+                        >
+                          <div />
+                          {heatmap.xs.map(x => (
+                            <div key={x} className="text-center text-muted-foreground">{x}</div>
+                          ))}
+                          {heatmap.ys.map(y => (
+                            <React.Fragment key={y}>
+                              <div className="text-right pr-1 text-muted-foreground">{y}</div>
+                              {heatmap.xs.map(x => {
+                                const run = heatmap.cells.get(`${x}|${y}`);
+                                return (
+                                  <div
+                                    key={x}
+                                    className="h-6 flex items-center justify-center rounded-sm"
+                                    style={{ backgroundColor: run ? cellColor(run.score) : undefined }}
+                                    title={run ? `${heatmapX}=${x}, ${heatmapY}=${y}` : undefined}
+                                  >
+                                    {run ? formatMetric(result.objective, run.metrics[result.objective]) : ''}
+                                  </div>
+                                );
+                              })}
+                            </React.Fragment>
+                          ))}
+                        </div>
+                      </ScrollArea>
+                    )}
+                  </div>
+                </>
+              )}
+            </TabsContent>
+
+            <TabsContent value="walkforward" className="space-y-3">
+              {result && result.windows.length > 0 && (
+                <>
+                  <div className="grid grid-cols-2 gap-2 text-xs font-mono">
+                    <div className="p-2 rounded border border-border">
+                      <div className="text-muted-foreground">Out-of-sample net profit</div>
+                      <div className={result.walkForwardNetProfit >= 0 ? 'text-green-400' : 'text-red-400'}>
+                        {formatCurrency(result.walkForwardNetProfit)}
+                      </div>
+                    </div>
+                    <div className="p-2 rounded border border-border">
+                      <div className="text-muted-foreground">Walk-forward efficiency</div>
+                      <div>{(result.walkForwardEfficiency * 100).toFixed(0)}%</div>
+                    </div>
+                  </div>
+                  <ScrollArea className="h-[300px] border border-border rounded">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="text-xs">#</TableHead>
+                          <TableHead className="text-xs">Out-of-sample</TableHead>
+                          <TableHead className="text-xs">Best params</TableHead>
+                          <TableHead className="text-xs">IS {OBJECTIVE_LABELS[result.objective]}</TableHead>
+                          <TableHead className="text-xs">OOS {OBJECTIVE_LABELS[result.objective]}</TableHead>
+                          <TableHead className="text-xs">OOS Trades</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {result.windows.map(window => (
+                          <TableRow key={window.index} className="font-mono text-xs">
+                            <TableCell className="py-1">{window.index + 1}</TableCell>
+                            <TableCell className="py-1 whitespace-nowrap">
+                              {new Date(window.outOfSampleRange.from).toLocaleDateString()} – {new Date(window.outOfSampleRange.to).toLocaleDateString()}
+                            </TableCell>
+                            <TableCell className="py-1">
+                              {Object.entries(window.params).map(([k, v]) => `${k}=${v}`).join(', ')}
+                            </TableCell>
+                            <TableCell className="py-1">
+                              {formatMetric(result.objective, window.inSample[result.objective])}
+                            </TableCell>
+                            <TableCell className="py-1">
+                              {formatMetric(result.objective, window.outOfSample[result.objective])}
+                            </TableCell>
+                            <TableCell className="py-1">{window.outOfSample.trades}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </ScrollArea>
+                </>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StrategyOptimizerDialog;
@@ -1,12 +1,21 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { DeepChartsConfig, DEFAULT_DEEPCHARTS_CONFIG } from './indicators/DeepChartsEngine';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { toast } from '@/hooks/use-toast';
 import { Search, TrendingUp, TrendingDown, RefreshCw, PanelRightClose, PanelRight } from 'lucide-react';
-import { chartDataService, ChartSymbol, Timeframe, OHLCVData } from '@/services/ChartDataService';
-import { ChartIndicator, ChartAlert, DrawingTool, CrosshairData, DEFAULT_INDICATORS } from './types';
-import { PineScriptResult, OHLCData } from '@/utils/PineScriptRunner';
+import {
+  chartDataService,
+  ChartSymbol,
+  Timeframe,
+  OHLCVData,
+  BarTypeConfig,
+  DEFAULT_BAR_TYPE_CONFIG,
+} from '@/services/ChartDataService';
+import { chartDrawings } from '@/services/ChartDrawingsService';
+import { ChartIndicator, CrosshairData, DEFAULT_INDICATORS } from './types';
+import { PineScriptResult, OHLCData, PineScriptRunOptions } from '@/utils/PineScriptRunner';
+import type { PineInput, PineInputValue } from '@/utils/pine';
 import { ChartTheme, loadTheme, saveTheme, PRESET_THEMES } from './ChartThemes';
 import LightweightChartCanvas from './LightweightChartCanvas';
 import ChartToolbar from './ChartToolbar';
@@ -19,17 +28,28 @@ import LayoutSelector from './LayoutSelector';
 import MultiChartLayout from './MultiChartLayout';
 import CustomIndicatorsPanel from './CustomIndicatorsPanel';
 import KeyboardShortcutsHelp from './KeyboardShortcutsHelp';
+import ChartCacheDialog from './ChartCacheDialog';
 import MobileTradingChart from './MobileTradingChart';
 import WatchlistSidebar from './WatchlistSidebar';
 import ChartIndicatorsList from './ChartIndicatorsList';
 import BrokerConnectButton from './BrokerConnectButton';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { usePanelSettings } from '@/hooks/usePanelSettings';
+import { useSymbolLink } from '@/hooks/useSymbolLink';
+import { toBinancePair } from '@/services/SymbolLinkService';
+import LinkGroupPicker from '@/components/LinkGroupPicker';
 
 interface TradingChartMainProps {
   className?: string;
   defaultSymbol?: string;
 }
 
+/** What a chart panel remembers in its MarketData workspace */
+type ChartPanelSettings = {
+  symbol: ChartSymbol;
+  timeframe: Timeframe;
+};
+
 interface ActiveCustomIndicator {
   id: string;
   name: string;
@@ -37,6 +57,9 @@ interface ActiveCustomIndicator {
   visible: boolean;
   color: string;
   results: PineScriptResult[];
+  isTemplate?: boolean;
+  inputs?: PineInput[];
+  inputValues?: Record<string, PineInputValue>;
 }
 
 const TradingChartMain: React.FC<TradingChartMainProps> = ({
@@ -58,12 +81,16 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
   className = '',
   defaultSymbol = 'BTCUSDT',
 }) => {
+  const [panelSettings, updatePanelSettings] = usePanelSettings<ChartPanelSettings>();
+
   // State
   const [symbol, setSymbol] = useState<ChartSymbol>(() => {
+    if (panelSettings.symbol) return panelSettings.symbol;
     const symbols = chartDataService.getSymbolsList();
     return symbols.find(s => s.symbol === defaultSymbol) || symbols[0];
   });
-  const [timeframe, setTimeframe] = useState<Timeframe>('1h');
+  const [timeframe, setTimeframe] = useState<Timeframe>(() => panelSettings.timeframe || '1h');
+  const [barType, setBarType] = useState<BarTypeConfig>(DEFAULT_BAR_TYPE_CONFIG);
   const [data, setData] = useState<OHLCVData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -76,6 +103,7 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
   const [showTheme, setShowTheme] = useState(false);
   const [showCustomIndicators, setShowCustomIndicators] = useState(false);
   const [showKeyboardHelp, setShowKeyboardHelp] = useState(false);
+  const [showCache, setShowCache] = useState(false);
   const [showWatchlist, setShowWatchlist] = useState(true);
   const [showLayoutSelector, setShowLayoutSelector] = useState(false);
   const [currentLayout, setCurrentLayout] = useState('1');
@@ -100,8 +128,6 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
   const activeIndicators = panelIndicators[activePanelId] ?? [];
   const isDOMFullscreen = domFullscreenByPanel[activePanelId] ?? false;
 
-  const [drawings, setDrawings] = useState<DrawingTool[]>([]);
-  const [alerts, setAlerts] = useState<ChartAlert[]>([]);
   const [selectedDrawingTool, setSelectedDrawingTool] = useState<string | null>(null);
   const [favorites, setFavorites] = useState<string[]>(() => {
     const saved = localStorage.getItem('chart-favorites');
@@ -122,6 +148,17 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
     x: 0, y: 0, price: 0, time: 0, visible: false,
   });
 
+  // Follow the panel's link group; picking a symbol here drives the group
+  const symbolLink = useSymbolLink(linked => {
+    const pair = toBinancePair(linked.ticker);
+    setSymbol(chartDataService.resolveTicker(pair ? `BINANCE:${pair}` : linked.ticker));
+  });
+
+  // Remember symbol/timeframe in the workspace this chart panel belongs to
+  useEffect(() => {
+    updatePanelSettings({ symbol, timeframe });
+  }, [symbol, timeframe, updatePanelSettings]);
+
   // Refs
   const containerRef = useRef<HTMLDivElement>(null);
   const chartContainerRef = useRef<HTMLDivElement>(null);
@@ -156,17 +193,30 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
-  // Fetch data - 1000 candles for crypto, 500 for others
+  // Fetch data - 1000 candles for crypto, 500 for others.
+  // Bars cached on disk are drawn first; the network result replaces them when it lands.
+  const fetchIdRef = useRef(0);
   const fetchData = useCallback(async () => {
+    const fetchId = ++fetchIdRef.current;
     setIsLoading(true);
     setError(null);
 
     try {
       // Crypto: fetch maximum 3000 candles from Binance for deep historical view
       const limit = symbol.type === 'crypto' ? 3000 : 500;
+      const cached = await chartDataService.getCachedData(symbol, timeframe, limit);
+      if (fetchId !== fetchIdRef.current) return;
+      if (cached.length > 0) {
+        setData(cached);
+        setVisibleRange({ start: Math.max(0, cached.length - 200), end: cached.length });
+      }
+
       const chartData = await chartDataService.fetchData(symbol, timeframe, limit);
+      if (fetchId !== fetchIdRef.current) return;
       setData(chartData);
-      setVisibleRange({ start: Math.max(0, chartData.length - 200), end: chartData.length });
+      if (cached.length === 0) {
+        setVisibleRange({ start: Math.max(0, chartData.length - 200), end: chartData.length });
+      }
     } catch (err) {
       setError('Failed to fetch data');
       toast({
@@ -175,7 +225,7 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
         variant: 'destructive',
       });
     } finally {
-      setIsLoading(false);
+      if (fetchId === fetchIdRef.current) setIsLoading(false);
     }
   }, [symbol, timeframe]);
 
@@ -208,6 +258,12 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
     }
   }, [symbol, timeframe, data]);
 
+  // Keep the offline cache current with closed live klines while the chart is open
+  useEffect(() => {
+    if (symbol.type !== 'crypto') return;
+    return chartDataService.cacheLiveKlines(symbol.symbol, timeframe);
+  }, [symbol, timeframe]);
+
   // Auto refresh - crypto uses WebSocket for real-time updates, only do full refresh for non-crypto
   useEffect(() => {
     if (symbol.type === 'crypto') return; // Crypto gets real-time via WebSocket in ABLEChartCanvas
@@ -215,54 +271,6 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
     return () => clearInterval(interval);
   }, [fetchData, symbol.type]);
 
-  // Check alerts
-  useEffect(() => {
-    if (data.length === 0) return;
-
-    const currentPrice = data[data.length - 1]?.close || 0;
-    const prevPrice = data[data.length - 2]?.close || currentPrice;
-
-    alerts.forEach(alert => {
-      if (alert.triggered || alert.symbol !== symbol.symbol) return;
-
-      let shouldTrigger = false;
-
-      switch (alert.condition) {
-        case 'crosses_above':
-          shouldTrigger = prevPrice < alert.value && currentPrice >= alert.value;
-          break;
-        case 'crosses_below':
-          shouldTrigger = prevPrice > alert.value && currentPrice <= alert.value;
-          break;
-        case 'greater_than':
-          shouldTrigger = currentPrice > alert.value;
-          break;
-        case 'less_than':
-          shouldTrigger = currentPrice < alert.value;
-          break;
-      }
-
-      if (shouldTrigger) {
-        setAlerts(prev =>
-          prev.map(a => (a.id === alert.id ? { ...a, triggered: true } : a))
-        );
-        toast({
-          title: '🔔 Alert Triggered!',
-          description: alert.message,
-        });
-        const audio = new AudioContext();
-        const oscillator = audio.createOscillator();
-        const gain = audio.createGain();
-        oscillator.connect(gain);
-        gain.connect(audio.destination);
-        oscillator.frequency.value = 880;
-        gain.gain.value = 0.3;
-        oscillator.start();
-        setTimeout(() => oscillator.stop(), 200);
-      }
-    });
-  }, [data, alerts, symbol]);
-
   // Handlers
   const handleZoom = (delta: number, center: number) => {
     const range = visibleRange.end - visibleRange.start;
@@ -303,6 +311,7 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
 
   const handleSelectSymbol = (newSymbol: ChartSymbol) => {
     setSymbol(newSymbol);
+    symbolLink.publish(`${newSymbol.exchange.toUpperCase()}:${newSymbol.symbol}`, newSymbol.name);
   };
 
   const handleToggleFavorite = (sym: string) => {
@@ -343,6 +352,19 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
     updatePanelIndicators(panelId, prev => [...prev, indicator]);
   };
 
+  // request.security() on other symbols/timeframes loads through the chart data service
+  const pineRunOptions = useMemo<PineScriptRunOptions>(() => ({
+    symbol: symbol.symbol,
+    timeframe,
+    dataProvider: request => chartDataService.fetchSecurityBars(request.symbol, request.timeframe),
+    barType,
+  }), [symbol.symbol, timeframe, barType]);
+
+  // Alerts on a script use the inputs it has on this chart
+  const scriptInputValues = useMemo(() => Object.fromEntries(
+    customIndicators.filter(ind => ind.inputValues).map(ind => [ind.scriptId, ind.inputValues!])
+  ), [customIndicators]);
+
   const handleApplyPineScript = (results: PineScriptResult[], name: string) => {
     results.forEach((result, i) => {
       const newIndicator: ChartIndicator = {
@@ -367,6 +389,10 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
     setCustomIndicators(prev => [...prev, indicator]);
   };
 
+  const handleUpdateCustomIndicator = (id: string, updates: Partial<ActiveCustomIndicator>) => {
+    setCustomIndicators(prev => prev.map(i => (i.id === id ? { ...i, ...updates } : i)));
+  };
+
   const handleRemoveCustomIndicator = (id: string) => {
     setCustomIndicators(prev => prev.filter(i => i.id !== id));
   };
@@ -397,7 +423,7 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
   const handleSaveChart = () => {
     localStorage.setItem(
       `chart-${symbol.symbol}`,
-      JSON.stringify({ drawings, indicators: activeIndicators })
+      JSON.stringify({ drawings: chartDrawings.load(symbol.symbol), indicators: activeIndicators })
     );
     toast({ title: 'Chart Saved' });
   };
@@ -467,6 +493,8 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
           </div>
 
           <div className="flex items-center gap-2">
+            <LinkGroupPicker value={symbolLink.group} onChange={symbolLink.setGroup} />
+
             {/* Broker Connect Button */}
             <BrokerConnectButton 
               symbol={symbol.symbol} 
@@ -498,6 +526,8 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
           onSelectDrawingTool={setSelectedDrawingTool}
           timeframe={timeframe}
           onTimeframeChange={setTimeframe}
+          barType={barType}
+          onBarTypeChange={setBarType}
           onToggleIndicators={() => setShowIndicators(true)}
           onTogglePineScript={() => setShowPineScript(true)}
           onToggleAlerts={() => setShowAlerts(true)}
@@ -505,13 +535,14 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
           onToggleTheme={() => setShowTheme(true)}
           onToggleCustomIndicators={() => setShowCustomIndicators(true)}
           onToggleKeyboardHelp={() => setShowKeyboardHelp(true)}
+          onToggleCache={() => setShowCache(true)}
           zoomLevel={zoomLevel}
           onZoomIn={() => handleZoom(-1, dimensions.width / 2)}
           onZoomOut={() => handleZoom(1, dimensions.width / 2)}
           onZoomReset={handleZoomReset}
           onZoomChange={handleZoomChange}
           onFullscreen={() => containerRef.current?.requestFullscreen?.()}
-          onClearDrawings={() => setDrawings([])}
+          onClearDrawings={() => chartDrawings.clear(symbol.symbol)}
           onSaveChart={handleSaveChart}
           onScreenshot={handleScreenshot}
         />
@@ -545,6 +576,7 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
                   onCrosshairMove={(data) => setCrosshair({ ...crosshair, ...data, x: 0, y: 0 })}
                   deepChartsConfig={deepChartsConfig}
                   onLoadMoreHistory={handleLoadMoreHistory}
+                  barType={barType}
                 />
               )}
 
@@ -586,6 +618,8 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
               syncCrosshair={layoutSyncCrosshair}
               onMainSymbolChange={handleSelectSymbol}
               indicatorsByPanel={panelIndicators}
+              drawingMode={selectedDrawingTool}
+              barType={barType}
               domFullscreenByPanel={domFullscreenByPanel}
               onDOMFullscreenChangeForPanel={setPanelDomFullscreen}
               onFocusPanel={(panelId) => setActivePanelId(panelId)}
@@ -631,20 +665,19 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
           isOpen={showPineScript}
           onClose={() => setShowPineScript(false)}
           chartData={ohlcData}
+          runOptions={pineRunOptions}
           onApplyIndicator={handleApplyPineScript}
         />
 
         <AlertsPanel
           isOpen={showAlerts}
           onClose={() => setShowAlerts(false)}
-          alerts={alerts}
-          onAddAlert={(alert) => setAlerts(prev => [...prev, alert])}
-          onRemoveAlert={(id) => setAlerts(prev => prev.filter(a => a.id !== id))}
-          onToggleAlert={(id) => setAlerts(prev =>
-            prev.map(a => (a.id === id ? { ...a, triggered: !a.triggered } : a))
-          )}
-          currentSymbol={symbol.symbol}
+          symbol={symbol}
+          timeframe={timeframe}
           currentPrice={currentPrice}
+          chartData={ohlcData}
+          runOptions={pineRunOptions}
+          scriptInputValues={scriptInputValues}
         />
 
         <ThemePanel
@@ -658,8 +691,11 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
           isOpen={showCustomIndicators}
           onClose={() => setShowCustomIndicators(false)}
           chartData={ohlcData}
+          runOptions={pineRunOptions}
+          chartKey={activePanelId}
           activeIndicators={customIndicators}
           onAddIndicator={handleAddCustomIndicator}
+          onUpdateIndicator={handleUpdateCustomIndicator}
           onRemoveIndicator={handleRemoveCustomIndicator}
           onToggleIndicator={handleToggleCustomIndicator}
           onOpenPineEditor={() => {
@@ -673,6 +709,11 @@ const DesktopTradingChart: React.FC<TradingChartMainProps> = ({
           onClose={() => setShowKeyboardHelp(false)}
         />
 
+        <ChartCacheDialog
+          isOpen={showCache}
+          onClose={() => setShowCache(false)}
+        />
+
         <LayoutSelector
           isOpen={showLayoutSelector}
           onClose={() => setShowLayoutSelector(false)}
@@ -0,0 +1,403 @@
+// Footprint / Order-Flow Engine
+// Bid×ask volume per price row for every bar, diagonal imbalances, POC per bar
+// and stacked-imbalance zones. Crypto bars are built from Binance aggTrades;
+// bars without full trade coverage fall back to candle + synthetic DOM estimates.
+
+import { Candle } from '../ABLEChartEngine/types';
+import { OrderBookData } from '@/services/BinanceOrderBookService';
+
+// ==================== CONFIG ====================
+export type FootprintDisplay = 'bidAsk' | 'delta' | 'volume';
+
+export interface FootprintConfig {
+  enabled: boolean;
+  display: FootprintDisplay;
+  /** Target rows per bar when rowSize is auto */
+  rowsPerBar: number;
+  /** Price height of one row; 0 = auto from the visible bar ranges */
+  rowSize: number;
+  /** Diagonal ratio that counts as an imbalance (3 = 300%) */
+  imbalanceRatio: number;
+  /** Skip imbalances against an empty diagonal level */
+  ignoreZero: boolean;
+  /** Consecutive same-side imbalances that form a stacked zone */
+  stackedCount: number;
+  showPOC: boolean;
+  showImbalances: boolean;
+  showStacked: boolean;
+  buyColor: string;
+  sellColor: string;
+  pocColor: string;
+}
+
+export const DEFAULT_FOOTPRINT_CONFIG: FootprintConfig = {
+  enabled: false,
+  display: 'bidAsk',
+  rowsPerBar: 12,
+  rowSize: 0,
+  imbalanceRatio: 3,
+  ignoreZero: true,
+  stackedCount: 3,
+  showPOC: true,
+  showImbalances: true,
+  showStacked: true,
+  buyColor: '#00BCD4',
+  sellColor: '#E91E63',
+  pocColor: '#FF6B00',
+};
+
+// ==================== DATA STRUCTURES ====================
+export interface FootprintTrade {
+  price: number;
+  quantity: number;
+  timestamp: number;
+  /** true = seller was the aggressor (volume traded at the bid) */
+  isBuyerMaker: boolean;
+}
+
+export interface FootprintLevel {
+  /** Bottom of the row */
+  price: number;
+  /** Aggressive sell volume (hit the bid) */
+  bid: number;
+  /** Aggressive buy volume (lifted the ask) */
+  ask: number;
+  buyImbalance: boolean;
+  sellImbalance: boolean;
+}
+
+export type FootprintSource = 'trades' | 'synthetic';
+
+export interface FootprintBar {
+  barIndex: number;
+  timestamp: number;
+  /** Ascending by price */
+  levels: FootprintLevel[];
+  pocPrice: number;
+  delta: number;
+  volume: number;
+  maxLevelVolume: number;
+  source: FootprintSource;
+}
+
+export interface StackedImbalanceZone {
+  side: 'buy' | 'sell';
+  startIndex: number;
+  endIndex: number;
+  priceLow: number;
+  priceHigh: number;
+  levels: number;
+}
+
+export interface FootprintResult {
+  bars: FootprintBar[];
+  zones: StackedImbalanceZone[];
+  rowSize: number;
+  tradeBars: number;
+  syntheticBars: number;
+}
+
+// ==================== TRADE ACCUMULATOR ====================
+const MAX_ACCUMULATED_BARS = 500;
+
+/**
+ * Raw traded volume per bar and exact price. Rows are only formed at compute
+ * time, so changing the row size does not need the trades again.
+ */
+export class FootprintAccumulator {
+  private bars = new Map<number, Map<number, { bid: number; ask: number }>>();
+  private periodMs: number;
+  private coverageStart: number | null = null;
+
+  constructor(periodMs: number) {
+    this.periodMs = periodMs;
+  }
+
+  reset(periodMs: number = this.periodMs) {
+    this.bars.clear();
+    this.periodMs = periodMs;
+    this.coverageStart = null;
+  }
+
+  /** Trades are known to be complete from this time on */
+  setCoverageStart(time: number) {
+    this.coverageStart = time;
+  }
+
+  getCoverageStart(): number | null {
+    return this.coverageStart;
+  }
+
+  addTrade(trade: FootprintTrade) {
+    if (!(trade.quantity > 0)) return;
+    if (this.coverageStart === null) this.coverageStart = trade.timestamp;
+
+    const bucket = this.bucketOf(trade.timestamp);
+    let levels = this.bars.get(bucket);
+    if (!levels) {
+      levels = new Map();
+      this.bars.set(bucket, levels);
+      this.prune();
+    }
+
+    const level = levels.get(trade.price) ?? { bid: 0, ask: 0 };
+    if (trade.isBuyerMaker) level.bid += trade.quantity;
+    else level.ask += trade.quantity;
+    levels.set(trade.price, level);
+  }
+
+  /** Raw levels for the bar that opens at `timestamp`, if its trades are complete */
+  getBar(timestamp: number, allowPartial = false): Map<number, { bid: number; ask: number }> | null {
+    const bucket = this.bucketOf(timestamp);
+    const levels = this.bars.get(bucket);
+    if (!levels || this.coverageStart === null) return null;
+    if (!allowPartial && bucket < this.coverageStart) return null;
+    return levels;
+  }
+
+  get size(): number {
+    return this.bars.size;
+  }
+
+  private bucketOf(time: number): number {
+    return Math.floor(time / this.periodMs) * this.periodMs;
+  }
+
+  private prune() {
+    if (this.bars.size <= MAX_ACCUMULATED_BARS) return;
+    const oldest = Array.from(this.bars.keys()).sort((a, b) => a - b);
+    for (const key of oldest.slice(0, this.bars.size - MAX_ACCUMULATED_BARS)) {
+      this.bars.delete(key);
+    }
+    // Anything older than the retained bars is no longer covered
+    this.coverageStart = Math.max(this.coverageStart ?? 0, oldest[oldest.length - MAX_ACCUMULATED_BARS]);
+  }
+}
+
+// ==================== UTILITY FUNCTIONS ====================
+/** Round a raw step to 1/2/2.5/5 × 10^n so rows line up with readable prices */
+function niceStep(raw: number): number {
+  if (!(raw > 0)) return 0;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const normalized = raw / magnitude;
+  if (normalized <= 1) return magnitude;
+  if (normalized <= 2) return 2 * magnitude;
+  if (normalized <= 2.5) return 2.5 * magnitude;
+  if (normalized <= 5) return 5 * magnitude;
+  return 10 * magnitude;
+}
+
+export function resolveRowSize(candles: Candle[], config: FootprintConfig, start: number, end: number): number {
+  if (config.rowSize > 0) return config.rowSize;
+
+  const ranges: number[] = [];
+  for (let i = start; i <= end; i++) {
+    const c = candles[i];
+    if (c && c.high > c.low) ranges.push(c.high - c.low);
+  }
+  if (ranges.length === 0) return 0;
+  ranges.sort((a, b) => a - b);
+  const median = ranges[Math.floor(ranges.length / 2)];
+  return niceStep(median / Math.max(1, config.rowsPerBar));
+}
+
+// Integer row index avoids float keys drifting between bars
+const rowOf = (price: number, rowSize: number) => Math.floor(price / rowSize + 1e-9);
+
+function buildLevelsFromTrades(raw: Map<number, { bid: number; ask: number }>, rowSize: number): Map<number, { bid: number; ask: number }> {
+  const rows = new Map<number, { bid: number; ask: number }>();
+  raw.forEach((vol, price) => {
+    const row = rowOf(price, rowSize);
+    const level = rows.get(row) ?? { bid: 0, ask: 0 };
+    level.bid += vol.bid;
+    level.ask += vol.ask;
+    rows.set(row, level);
+  });
+  return rows;
+}
+
+/**
+ * Estimate bid/ask volume per row from the candle alone: volume peaks around
+ * the typical price and the buy share follows where the bar closed in its range.
+ * A synthetic (or real) book tilts both towards where liquidity is resting.
+ */
+function buildLevelsSynthetic(candle: Candle, rowSize: number, orderBook: OrderBookData | null): Map<number, { bid: number; ask: number }> {
+  const rows = new Map<number, { bid: number; ask: number }>();
+  const lowRow = rowOf(candle.low, rowSize);
+  const highRow = rowOf(candle.high, rowSize);
+  const range = candle.high - candle.low;
+  const typical = (candle.high + candle.low + candle.close) / 3;
+
+  const closeLocation = range > 0 ? (candle.close - candle.low) / range : 0.5;
+  const bookTilt = orderBook ? Math.max(-1, Math.min(1, orderBook.imbalance / 100)) : 0;
+  const baseBuyShare = 0.5 + (closeLocation - 0.5) * 0.3 + bookTilt * 0.1;
+
+  const bookQty = new Map<number, number>();
+  let maxBookQty = 0;
+  if (orderBook) {
+    for (const level of [...orderBook.bids, ...orderBook.asks]) {
+      const row = rowOf(level.price, rowSize);
+      const qty = (bookQty.get(row) ?? 0) + level.quantity;
+      bookQty.set(row, qty);
+      maxBookQty = Math.max(maxBookQty, qty);
+    }
+  }
+
+  const weights: number[] = [];
+  let weightSum = 0;
+  for (let row = lowRow; row <= highRow; row++) {
+    const mid = (row + 0.5) * rowSize;
+    const distance = range > 0 ? Math.abs(mid - typical) / range : 0;
+    let weight = Math.max(0.15, 1 - distance * 1.4);
+    if (maxBookQty > 0) weight *= 1 + ((bookQty.get(row) ?? 0) / maxBookQty) * 0.5;
+    weights.push(weight);
+    weightSum += weight;
+  }
+
+  for (let row = lowRow; row <= highRow; row++) {
+    const volume = weightSum > 0 ? (candle.volume * weights[row - lowRow]) / weightSum : 0;
+    // Buyers dominate the rows the bar moved up into, sellers the rows it fell into
+    const position = highRow > lowRow ? (row - lowRow) / (highRow - lowRow) : 0.5;
+    const drift = candle.close >= candle.open ? (position - 0.5) * 0.1 : (0.5 - position) * 0.1;
+    const buyShare = Math.max(0.1, Math.min(0.9, baseBuyShare + drift));
+    rows.set(row, { bid: volume * (1 - buyShare), ask: volume * buyShare });
+  }
+  return rows;
+}
+
+// ==================== MAIN COMPUTATION ====================
+export function computeFootprint(
+  candles: Candle[],
+  config: FootprintConfig,
+  accumulator: FootprintAccumulator | null,
+  orderBook: OrderBookData | null,
+  visibleStart: number,
+  visibleEnd: number
+): FootprintResult {
+  const start = Math.max(0, Math.floor(visibleStart));
+  const end = Math.min(candles.length - 1, Math.ceil(visibleEnd));
+  const rowSize = resolveRowSize(candles, config, start, end);
+  const bars: FootprintBar[] = [];
+  const zones: StackedImbalanceZone[] = [];
+  let tradeBars = 0;
+  let syntheticBars = 0;
+
+  if (rowSize <= 0 || start > end) {
+    return { bars, zones, rowSize, tradeBars, syntheticBars };
+  }
+
+  const lastIndex = candles.length - 1;
+  for (let i = start; i <= end; i++) {
+    const candle = candles[i];
+    // The forming bar uses whatever trades arrived, even if it opened before coverage
+    const raw = accumulator?.getBar(candle.timestamp, i === lastIndex) ?? null;
+    const source: FootprintSource = raw && raw.size > 0 ? 'trades' : 'synthetic';
+    const rows = source === 'trades'
+      ? buildLevelsFromTrades(raw!, rowSize)
+      : buildLevelsSynthetic(candle, rowSize, orderBook);
+
+    const bar = buildBar(i, candle.timestamp, rows, rowSize, config, source);
+    if (!bar) continue;
+    bars.push(bar);
+    if (source === 'trades') tradeBars++;
+    else syntheticBars++;
+
+    if (config.showStacked) {
+      zones.push(...findStackedZones(bar, rowSize, config.stackedCount));
+    }
+  }
+
+  // Zones stay open until a later bar closes through them
+  for (const zone of zones) {
+    zone.endIndex = lastIndex;
+    for (let j = zone.startIndex + 1; j <= lastIndex; j++) {
+      const close = candles[j].close;
+      if ((zone.side === 'buy' && close < zone.priceLow) || (zone.side === 'sell' && close > zone.priceHigh)) {
+        zone.endIndex = j;
+        break;
+      }
+    }
+  }
+
+  return { bars, zones, rowSize, tradeBars, syntheticBars };
+}
+
+function buildBar(
+  barIndex: number,
+  timestamp: number,
+  rows: Map<number, { bid: number; ask: number }>,
+  rowSize: number,
+  config: FootprintConfig,
+  source: FootprintSource
+): FootprintBar | null {
+  if (rows.size === 0) return null;
+
+  const lowRow = Math.min(...rows.keys());
+  const highRow = Math.max(...rows.keys());
+  const levels: FootprintLevel[] = [];
+  for (let row = lowRow; row <= highRow; row++) {
+    const vol = rows.get(row) ?? { bid: 0, ask: 0 };
+    levels.push({ price: row * rowSize, bid: vol.bid, ask: vol.ask, buyImbalance: false, sellImbalance: false });
+  }
+
+  // Diagonal comparison: buyers at a price vs sellers one row below, and vice versa
+  for (let k = 0; k < levels.length; k++) {
+    const level = levels[k];
+    const below = levels[k - 1];
+    const above = levels[k + 1];
+    const bidBelow = below?.bid ?? 0;
+    const askAbove = above?.ask ?? 0;
+
+    if (level.ask > 0 && (bidBelow > 0 || (!config.ignoreZero && below))) {
+      level.buyImbalance = level.ask >= config.imbalanceRatio * bidBelow;
+    }
+    if (level.bid > 0 && (askAbove > 0 || (!config.ignoreZero && above))) {
+      level.sellImbalance = level.bid >= config.imbalanceRatio * askAbove;
+    }
+  }
+
+  let volume = 0;
+  let delta = 0;
+  let maxLevelVolume = 0;
+  let pocPrice = levels[0].price;
+  for (const level of levels) {
+    const total = level.bid + level.ask;
+    volume += total;
+    delta += level.ask - level.bid;
+    if (total > maxLevelVolume) {
+      maxLevelVolume = total;
+      pocPrice = level.price;
+    }
+  }
+
+  return { barIndex, timestamp, levels, pocPrice, delta, volume, maxLevelVolume, source };
+}
+
+function findStackedZones(bar: FootprintBar, rowSize: number, stackedCount: number): StackedImbalanceZone[] {
+  const zones: StackedImbalanceZone[] = [];
+  const minRun = Math.max(2, stackedCount);
+
+  for (const side of ['buy', 'sell'] as const) {
+    let runStart = -1;
+    for (let k = 0; k <= bar.levels.length; k++) {
+      const level = bar.levels[k];
+      const flagged = level ? (side === 'buy' ? level.buyImbalance : level.sellImbalance) : false;
+      if (flagged && runStart < 0) runStart = k;
+      if (!flagged && runStart >= 0) {
+        const runLength = k - runStart;
+        if (runLength >= minRun) {
+          zones.push({
+            side,
+            startIndex: bar.barIndex,
+            endIndex: bar.barIndex,
+            priceLow: bar.levels[runStart].price,
+            priceHigh: bar.levels[k - 1].price + rowSize,
+            levels: runLength,
+          });
+        }
+        runStart = -1;
+      }
+    }
+  }
+  return zones;
+}
@@ -0,0 +1,299 @@
+// Footprint / Order-Flow Renderer
+// Draws footprint bars in place of candles: bid×ask (or delta / volume) per row,
+// imbalance highlighting, POC per bar and stacked-imbalance zones
+
+import { ChartViewport, ChartDimensions, ChartThemeColors, Candle } from '../ABLEChartEngine/types';
+import { FootprintConfig, FootprintResult, FootprintBar, StackedImbalanceZone } from './FootprintEngine';
+
+// Below these sizes numbers no longer fit and the bar falls back to a histogram
+const MIN_TEXT_ROW_HEIGHT = 9;
+const MIN_TEXT_BAR_WIDTH = 56;
+
+export class FootprintRenderer {
+  private ctx: CanvasRenderingContext2D;
+  private dpr: number;
+
+  constructor(ctx: CanvasRenderingContext2D, dpr: number = 1) {
+    this.ctx = ctx;
+    this.dpr = dpr;
+  }
+
+  drawFootprint(
+    result: FootprintResult,
+    config: FootprintConfig,
+    candles: Candle[],
+    viewport: ChartViewport,
+    dimensions: ChartDimensions,
+    colors: ChartThemeColors
+  ) {
+    const ctx = this.ctx;
+    const { chartArea } = dimensions;
+    const visibleRange = viewport.endIndex - viewport.startIndex;
+    if (visibleRange <= 0 || result.rowSize <= 0) return;
+
+    ctx.save();
+    ctx.scale(this.dpr, this.dpr);
+    ctx.beginPath();
+    ctx.rect(chartArea.x, chartArea.y, chartArea.width, chartArea.height);
+    ctx.clip();
+
+    const slotWidth = chartArea.width / visibleRange;
+    const rowHeight = Math.abs(this.priceToY(0, viewport, dimensions) - this.priceToY(result.rowSize, viewport, dimensions));
+
+    // 1. Stacked imbalance zones (behind the bars)
+    if (config.showStacked) {
+      for (const zone of result.zones) {
+        this.drawStackedZone(zone, config, viewport, dimensions, slotWidth);
+      }
+    }
+
+    // 2. Bars
+    const maxVolume = result.bars.reduce((max, bar) => Math.max(max, bar.maxLevelVolume), 0);
+    const showText = rowHeight >= MIN_TEXT_ROW_HEIGHT && slotWidth >= MIN_TEXT_BAR_WIDTH;
+    for (const bar of result.bars) {
+      const candle = candles[bar.barIndex];
+      if (!candle) continue;
+      this.drawBar(bar, candle, config, viewport, dimensions, colors, slotWidth, rowHeight, maxVolume, showText, result.rowSize);
+    }
+
+    ctx.restore();
+
+    // 3. Legend (outside the clip)
+    ctx.save();
+    ctx.scale(this.dpr, this.dpr);
+    this.drawLegend(result, config, dimensions, colors);
+    ctx.restore();
+  }
+
+  // ==================== BAR ====================
+  private drawBar(
+    bar: FootprintBar,
+    candle: Candle,
+    config: FootprintConfig,
+    viewport: ChartViewport,
+    dimensions: ChartDimensions,
+    colors: ChartThemeColors,
+    slotWidth: number,
+    rowHeight: number,
+    maxVolume: number,
+    showText: boolean,
+    rowSize: number
+  ) {
+    const ctx = this.ctx;
+    const centerX = this.indexToX(bar.barIndex, viewport, dimensions);
+    const barWidth = Math.max(3, slotWidth * 0.9);
+    const left = centerX - barWidth / 2;
+
+    // Thin OHLC strip on the left edge keeps the candle readable
+    const isBullish = candle.close >= candle.open;
+    const candleColor = isBullish ? colors.bullCandle : colors.bearCandle;
+    const stripWidth = Math.max(2, Math.min(6, barWidth * 0.08));
+    const stripX = left + stripWidth / 2;
+    ctx.strokeStyle = candleColor.border;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(stripX, this.priceToY(candle.high, viewport, dimensions));
+    ctx.lineTo(stripX, this.priceToY(candle.low, viewport, dimensions));
+    ctx.stroke();
+    const openY = this.priceToY(candle.open, viewport, dimensions);
+    const closeY = this.priceToY(candle.close, viewport, dimensions);
+    ctx.fillStyle = candleColor.fill;
+    ctx.fillRect(left, Math.min(openY, closeY), stripWidth, Math.max(1, Math.abs(closeY - openY)));
+
+    const cellsLeft = left + stripWidth + 1;
+    const cellsWidth = barWidth - stripWidth - 1;
+    const cellHeight = Math.max(1, rowHeight - (rowHeight > 4 ? 1 : 0));
+    const alphaScale = bar.source === 'synthetic' ? 0.6 : 1;
+
+    for (const level of bar.levels) {
+      const total = level.bid + level.ask;
+      const top = this.priceToY(level.price + rowSize, viewport, dimensions);
+      const intensity = maxVolume > 0 ? total / maxVolume : 0;
+
+      if (showText) {
+        // Half cells shaded by intensity: sellers left, buyers right
+        const half = cellsWidth / 2;
+        ctx.fillStyle = this.hexToRgba(config.sellColor, (0.08 + 0.45 * (level.bid / (maxVolume || 1))) * alphaScale);
+        ctx.fillRect(cellsLeft, top, half, cellHeight);
+        ctx.fillStyle = this.hexToRgba(config.buyColor, (0.08 + 0.45 * (level.ask / (maxVolume || 1))) * alphaScale);
+        ctx.fillRect(cellsLeft + half, top, half, cellHeight);
+        this.drawLevelText(bar, level.bid, level.ask, level.sellImbalance, level.buyImbalance, config, colors, cellsLeft, cellsWidth, top, cellHeight);
+      } else {
+        // Zoomed out: horizontal histogram coloured by the row's delta
+        const width = Math.max(1, cellsWidth * (maxVolume > 0 ? total / bar.maxLevelVolume : 0));
+        const color = level.ask >= level.bid ? config.buyColor : config.sellColor;
+        ctx.fillStyle = this.hexToRgba(color, (0.25 + 0.55 * intensity) * alphaScale);
+        ctx.fillRect(cellsLeft, top, width, cellHeight);
+      }
+
+      if (config.showImbalances && !showText && (level.buyImbalance || level.sellImbalance)) {
+        ctx.fillStyle = level.buyImbalance ? config.buyColor : config.sellColor;
+        ctx.fillRect(cellsLeft + cellsWidth - 2, top, 2, cellHeight);
+      }
+    }
+
+    // POC outline
+    if (config.showPOC) {
+      const pocTop = this.priceToY(bar.pocPrice + rowSize, viewport, dimensions);
+      ctx.strokeStyle = config.pocColor;
+      ctx.lineWidth = 1;
+      ctx.strokeRect(cellsLeft + 0.5, pocTop + 0.5, cellsWidth - 1, Math.max(1, cellHeight - 1));
+    }
+
+    // Bar delta / volume under the low
+    if (showText) {
+      const lowY = this.priceToY(bar.levels[0].price, viewport, dimensions);
+      ctx.font = '9px monospace';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+      ctx.fillStyle = bar.delta >= 0 ? config.buyColor : config.sellColor;
+      ctx.fillText(`Δ ${this.formatSigned(bar.delta)}`, centerX, lowY + 2);
+      ctx.fillStyle = colors.text;
+      ctx.fillText(this.formatVol(bar.volume), centerX, lowY + 12);
+    }
+  }
+
+  private drawLevelText(
+    bar: FootprintBar,
+    bid: number,
+    ask: number,
+    sellImbalance: boolean,
+    buyImbalance: boolean,
+    config: FootprintConfig,
+    colors: ChartThemeColors,
+    x: number,
+    width: number,
+    top: number,
+    height: number
+  ) {
+    const ctx = this.ctx;
+    const fontSize = Math.min(11, Math.max(8, Math.floor(height * 0.8)));
+    const italic = bar.source === 'synthetic' ? 'italic ' : '';
+    ctx.textBaseline = 'middle';
+    const y = top + height / 2;
+
+    if (config.display === 'bidAsk') {
+      const highlightSell = config.showImbalances && sellImbalance;
+      const highlightBuy = config.showImbalances && buyImbalance;
+      ctx.font = `${italic}${highlightSell ? 'bold ' : ''}${fontSize}px monospace`;
+      ctx.textAlign = 'right';
+      ctx.fillStyle = highlightSell ? config.sellColor : colors.text;
+      ctx.fillText(this.formatVol(bid), x + width / 2 - 3, y);
+
+      ctx.font = `${italic}${highlightBuy ? 'bold ' : ''}${fontSize}px monospace`;
+      ctx.textAlign = 'left';
+      ctx.fillStyle = highlightBuy ? config.buyColor : colors.text;
+      ctx.fillText(this.formatVol(ask), x + width / 2 + 3, y);
+
+      ctx.fillStyle = this.hexToRgba('#FFFFFF', 0.25);
+      ctx.textAlign = 'center';
+      ctx.fillText('×', x + width / 2, y);
+    } else {
+      const value = config.display === 'delta' ? ask - bid : ask + bid;
+      ctx.font = `${italic}${fontSize}px monospace`;
+      ctx.textAlign = 'center';
+      ctx.fillStyle = config.display === 'delta'
+        ? (value >= 0 ? config.buyColor : config.sellColor)
+        : colors.text;
+      ctx.fillText(config.display === 'delta' ? this.formatSigned(value) : this.formatVol(value), x + width / 2, y);
+    }
+
+    if (config.showImbalances && (buyImbalance || sellImbalance)) {
+      ctx.strokeStyle = buyImbalance ? config.buyColor : config.sellColor;
+      ctx.lineWidth = 1;
+      const half = width / 2;
+      ctx.strokeRect((buyImbalance ? x + half : x) + 0.5, top + 0.5, half - 1, height - 1);
+    }
+  }
+
+  // ==================== STACKED IMBALANCES ====================
+  private drawStackedZone(
+    zone: StackedImbalanceZone,
+    config: FootprintConfig,
+    viewport: ChartViewport,
+    dimensions: ChartDimensions,
+    slotWidth: number
+  ) {
+    const ctx = this.ctx;
+    const color = zone.side === 'buy' ? config.buyColor : config.sellColor;
+    const x1 = this.indexToX(zone.startIndex, viewport, dimensions) - slotWidth / 2;
+    const x2 = this.indexToX(zone.endIndex, viewport, dimensions) + slotWidth / 2;
+    const yTop = this.priceToY(zone.priceHigh, viewport, dimensions);
+    const yBottom = this.priceToY(zone.priceLow, viewport, dimensions);
+
+    ctx.fillStyle = this.hexToRgba(color, 0.12);
+    ctx.fillRect(x1, yTop, x2 - x1, yBottom - yTop);
+    ctx.strokeStyle = this.hexToRgba(color, 0.6);
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 3]);
+    ctx.beginPath();
+    ctx.moveTo(x1, yTop);
+    ctx.lineTo(x2, yTop);
+    ctx.moveTo(x1, yBottom);
+    ctx.lineTo(x2, yBottom);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  // ==================== LEGEND ====================
+  private drawLegend(result: FootprintResult, config: FootprintConfig, dimensions: ChartDimensions, colors: ChartThemeColors) {
+    const ctx = this.ctx;
+    const source = result.tradeBars > 0
+      ? result.syntheticBars > 0
+        ? `aggTrades ${result.tradeBars} · est. ${result.syntheticBars}`
+        : 'aggTrades'
+      : 'estimated';
+    const text = `FOOTPRINT ${config.display === 'bidAsk' ? 'BID×ASK' : config.display.toUpperCase()} · row ${this.formatPrice(result.rowSize)} · ${source}`;
+
+    ctx.font = '10px monospace';
+    const width = ctx.measureText(text).width + 12;
+    const x = dimensions.chartArea.x + 8;
+    const y = dimensions.chartArea.y + dimensions.chartArea.height - 22;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(x, y, width, 16);
+    ctx.fillStyle = colors.text;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, x + 6, y + 8);
+  }
+
+  // ==================== HELPERS ====================
+  private priceToY(price: number, viewport: ChartViewport, dimensions: ChartDimensions): number {
+    const priceRange = viewport.priceMax - viewport.priceMin;
+    if (priceRange === 0) return dimensions.chartArea.y + dimensions.chartArea.height / 2;
+    return dimensions.chartArea.y + dimensions.chartArea.height * (1 - (price - viewport.priceMin) / priceRange);
+  }
+
+  // Same mapping as ChartRenderer so footprint bars sit exactly where candles would
+  private indexToX(index: number, viewport: ChartViewport, dimensions: ChartDimensions): number {
+    const indexRange = viewport.endIndex - viewport.startIndex;
+    const { chartArea } = dimensions;
+    if (indexRange === 0) return chartArea.x + chartArea.width / 2;
+    return chartArea.x + chartArea.width * ((index - viewport.startIndex) / indexRange) + (chartArea.width / indexRange / 2);
+  }
+
+  private hexToRgba(hex: string, alpha: number): string {
+    const r = parseInt(hex.slice(1, 3), 16);
+    const g = parseInt(hex.slice(3, 5), 16);
+    const b = parseInt(hex.slice(5, 7), 16);
+    return `rgba(${r}, ${g}, ${b}, ${Math.max(0, Math.min(1, alpha))})`;
+  }
+
+  private formatVol(vol: number): string {
+    if (vol >= 1e9) return (vol / 1e9).toFixed(1) + 'B';
+    if (vol >= 1e6) return (vol / 1e6).toFixed(1) + 'M';
+    if (vol >= 1e3) return (vol / 1e3).toFixed(1) + 'K';
+    if (vol >= 10) return vol.toFixed(0);
+    if (vol > 0) return vol.toFixed(vol >= 1 ? 1 : 2);
+    return '0';
+  }
+
+  private formatSigned(value: number): string {
+    return (value > 0 ? '+' : value < 0 ? '-' : '') + this.formatVol(Math.abs(value));
+  }
+
+  private formatPrice(price: number): string {
+    if (price >= 1) return String(Number(price.toFixed(4)));
+    return String(Number(price.toPrecision(3)));
+  }
+}
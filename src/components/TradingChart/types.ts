@@ -18,16 +18,6 @@ export interface ChartIndicator {
   color: string;
 }
 
-export interface ChartAlert {
-  id: string;
-  symbol: string;
-  condition: 'crosses_above' | 'crosses_below' | 'greater_than' | 'less_than';
-  value: number;
-  message: string;
-  triggered: boolean;
-  createdAt: number;
-}
-
 export interface ChartLayout {
   id: string;
   name: string;
@@ -12,6 +12,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/components/ui/use-toast';
 import CSVImportDialog from './CSVImportDialog';
+import { mergeImportedTrades } from '@/utils/brokerStatements';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
 import OverviewTab from './TradingJournal/OverviewTab';
@@ -188,7 +189,7 @@ export default function TradingJournal() {
         description: `Replaced trades with ${importedTrades.length} new trades`
       });
     } else {
-      setTrades(prev => [...prev, ...tradesWithFolder]);
+      setTrades(prev => mergeImportedTrades(prev, tradesWithFolder));
       toast({
         title: "Import Successful!",
         description: `Added ${importedTrades.length} trades`
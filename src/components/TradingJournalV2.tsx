@@ -1,10 +1,11 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Plus, Trash2, Upload, Folder, Settings2, ChevronRight, Image, PanelLeftClose, PanelLeftOpen } from 'lucide-react';
+import { Plus, Trash2, Upload, Folder, Settings2, ChevronRight, Image, PanelLeftClose, PanelLeftOpen, Dice6 } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useToast } from '@/components/ui/use-toast';
 import CSVImportDialog from './CSVImportDialog';
+import { mergeImportedTrades } from '@/utils/brokerStatements';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
 import { Input } from '@/components/ui/input';
@@ -16,6 +17,9 @@ import { Checkbox } from '@/components/ui/checkbox';
 import JournalTabs from './TradingJournal/JournalTabs';
 import { Trade } from '@/utils/tradingMetrics';
 import { supabase } from '@/integrations/supabase/client';
+import { usePanelCommander } from '@/contexts/PanelCommanderContext';
+import { useMonteCarloStore } from '@/stores/MonteCarloStore';
+import { journalBootstrapSource } from '@/services/monteCarloService';
 import { useRef, useCallback } from 'react';
 
 interface TradingFolder {
@@ -49,6 +53,8 @@ const SESSIONS = ['asian', 'london', 'new_york', 'pre_market', 'regular', 'after
 
 export default function TradingJournalV2() {
   const { toast } = useToast();
+  const { openPanel } = usePanelCommander();
+  const sendJournalTrades = useMonteCarloStore(state => state.sendJournalTrades);
   const [trades, setTrades] = useState<Trade[]>([]);
   const [showCSVImport, setShowCSVImport] = useState(false);
   const [isAddingTrade, setIsAddingTrade] = useState(false);
@@ -163,11 +169,23 @@ export default function TradingJournalV2() {
       if (selectedFolderId === 'default') setTrades(tradesWithFolder);
       else setTrades(prev => [...prev.filter(t => t.folderId !== selectedFolderId), ...tradesWithFolder]);
     } else {
-      setTrades(prev => [...prev, ...tradesWithFolder]);
+      setTrades(prev => mergeImportedTrades(prev, tradesWithFolder));
     }
     toast({ title: "Import Successful!", description: `Added ${importedTrades.length} trades` });
   };
 
+  // Hand the room's closed trades to the Monte Carlo simulator for bootstrap resampling
+  const simulateTrades = () => {
+    const folder = folders.find(f => f.id === selectedFolderId);
+    const source = journalBootstrapSource(filteredTrades, folder ? `${folder.icon} ${folder.name}` : 'Journal');
+    if (source.pnls.length < 5) {
+      toast({ title: "Not enough trades", description: "Monte Carlo needs at least 5 closed trades", variant: "destructive" });
+      return;
+    }
+    sendJournalTrades(source);
+    openPanel('monte-carlo');
+  };
+
   const clearAllTrades = () => {
     const count = selectedFolderId === 'default' ? trades.length : filteredTrades.length;
     if (window.confirm(`Delete all ${count} trades in this room?`)) {
@@ -363,6 +381,9 @@ export default function TradingJournalV2() {
                 <Trash2 className="h-3 w-3 mr-1" /> Clear
               </Button>
             )}
+            <Button onClick={simulateTrades} variant="outline" size="sm" title="Monte Carlo from closed trades" disabled={filteredTrades.length === 0}>
+              <Dice6 className="h-3 w-3 mr-1" /> Monte Carlo
+            </Button>
             <Button onClick={() => setShowCSVImport(true)} variant="outline" size="sm" className="bg-terminal-amber/20 text-terminal-amber">
               <Upload className="h-3 w-3 mr-1" /> CSV
             </Button>
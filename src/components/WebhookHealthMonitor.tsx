@@ -1,9 +1,10 @@
 import { useEffect, useState, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { AlertCircle, CheckCircle, RefreshCw, Activity } from 'lucide-react';
+import { AlertCircle, CheckCircle, RefreshCw, Activity, ShieldAlert, Copy } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 
 interface WebhookHealthMonitorProps {
   roomId: string;
@@ -13,8 +14,21 @@ interface WebhookHealth {
   totalWebhooks: number;
   successfulWebhooks: number;
   failedWebhooks: number;
+  /** Failed auth, stale timestamp or reused nonce */
+  rejectedWebhooks: number;
+  /** Retries dropped by idempotency key; nothing was posted */
+  duplicateWebhooks: number;
   lastWebhookTime: string | null;
   successRate: number;
+  recentIssues: WebhookIssue[];
+}
+
+interface WebhookIssue {
+  id: string;
+  status: 'rejected' | 'duplicate';
+  reason: string;
+  symbol: string | null;
+  created_at: string;
 }
 
 export function WebhookHealthMonitor({ roomId }: WebhookHealthMonitorProps) {
@@ -42,15 +56,30 @@ export function WebhookHealthMonitor({ roomId }: WebhookHealthMonitorProps) {
       if (!logsError && logs && logs.length > 0) {
         const successful = logs.filter((l: any) => l.status === 'success').length;
         const failed = logs.filter((l: any) => l.status === 'failed').length;
-        const total = logs.length;
+        const rejected = logs.filter((l: any) => l.status === 'rejected').length;
+        const duplicates = logs.filter((l: any) => l.status === 'duplicate').length;
+        // Duplicates are the sender retrying an already-delivered alert, not failures
+        const total = logs.length - duplicates;
         const successRate = total > 0 ? (successful / total) * 100 : 100;
 
         setHealth({
           totalWebhooks: total,
           successfulWebhooks: successful,
           failedWebhooks: failed,
+          rejectedWebhooks: rejected,
+          duplicateWebhooks: duplicates,
           lastWebhookTime: logs[0].created_at,
           successRate,
+          recentIssues: logs
+            .filter((l: any) => l.status === 'rejected' || l.status === 'duplicate')
+            .slice(0, 20)
+            .map((l: any) => ({
+              id: l.id,
+              status: l.status,
+              reason: l.error_message || l.status,
+              symbol: l.payload?.ticker || l.payload?.symbol || null,
+              created_at: l.created_at,
+            })),
         });
 
         if (successRate < 80 && failed > 0) {
@@ -79,8 +108,11 @@ export function WebhookHealthMonitor({ roomId }: WebhookHealthMonitorProps) {
           totalWebhooks: 0,
           successfulWebhooks: 0,
           failedWebhooks: 0,
+          rejectedWebhooks: 0,
+          duplicateWebhooks: 0,
           lastWebhookTime: null,
           successRate: 100,
+          recentIssues: [],
         });
         return;
       }
@@ -89,8 +121,11 @@ export function WebhookHealthMonitor({ roomId }: WebhookHealthMonitorProps) {
         totalWebhooks: messages.length,
         successfulWebhooks: messages.length,
         failedWebhooks: 0,
+        rejectedWebhooks: 0,
+        duplicateWebhooks: 0,
         lastWebhookTime: messages[0].created_at,
         successRate: 100,
+        recentIssues: [],
       });
 
     } catch (error: any) {
@@ -123,6 +158,13 @@ export function WebhookHealthMonitor({ roomId }: WebhookHealthMonitorProps) {
         },
         (payload: any) => {
           console.log('📊 New webhook log:', payload.new?.request_id);
+          if (payload.new?.status === 'rejected') {
+            toast({
+              title: '🛡️ Webhook Rejected',
+              description: payload.new.error_message || 'Signature or replay check failed',
+              variant: 'destructive',
+            });
+          }
           checkHealth();
         }
       )
@@ -146,7 +188,7 @@ export function WebhookHealthMonitor({ roomId }: WebhookHealthMonitorProps) {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [roomId, checkHealth]);
+  }, [roomId, checkHealth, toast]);
 
   if (!health || isLoading) {
     return (
@@ -191,6 +233,44 @@ export function WebhookHealthMonitor({ roomId }: WebhookHealthMonitorProps) {
         </span>
       </div>
 
+      {(health.rejectedWebhooks > 0 || health.duplicateWebhooks > 0) && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <button className="flex items-center gap-1">
+              {health.rejectedWebhooks > 0 && (
+                <Badge variant="outline" className="text-[10px] border-red-500/40 text-red-400 gap-1">
+                  <ShieldAlert className="w-3 h-3" />
+                  {health.rejectedWebhooks} rejected
+                </Badge>
+              )}
+              {health.duplicateWebhooks > 0 && (
+                <Badge variant="outline" className="text-[10px] border-zinc-700 text-zinc-400 gap-1">
+                  <Copy className="w-3 h-3" />
+                  {health.duplicateWebhooks} dup
+                </Badge>
+              )}
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80 p-2 bg-zinc-950 border-zinc-800" align="start">
+            <div className="text-xs font-semibold text-zinc-300 mb-2">Rejected & duplicate signals (24h)</div>
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+              {health.recentIssues.map(issue => (
+                <div key={issue.id} className="text-[11px] p-1.5 rounded bg-zinc-900">
+                  <div className="flex items-center justify-between">
+                    <span className={issue.status === 'rejected' ? 'text-red-400' : 'text-zinc-400'}>
+                      {issue.status === 'rejected' ? '🛡️ Rejected' : '♻️ Duplicate'}
+                      {issue.symbol && <span className="text-zinc-500"> · {issue.symbol}</span>}
+                    </span>
+                    <span className="text-zinc-600">{formatTimeAgo(issue.created_at)}</span>
+                  </div>
+                  <div className="text-zinc-500 break-words">{issue.reason}</div>
+                </div>
+              ))}
+            </div>
+          </PopoverContent>
+        </Popover>
+      )}
+
       {health.lastWebhookTime && (
         <Badge variant="outline" className="text-[10px] border-zinc-700 text-zinc-500">
           Last: {formatTimeAgo(health.lastWebhookTime)}
@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Check, ClipboardCopy, Copy, Download, LayoutGrid, Pencil, Plus, Save, Trash2, Upload } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { workspaceService, type Workspace } from '@/services/WorkspaceService';
+
+interface WorkspaceMenuProps {
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onNew: (name: string) => void;
+  onSaveAs: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const WorkspaceMenu = ({ activeId, onSelect, onNew, onSaveAs, onDelete }: WorkspaceMenuProps) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(() => workspaceService.list());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const active = workspaces.find(w => w.id === activeId);
+
+  useEffect(() => workspaceService.subscribe(() => setWorkspaces(workspaceService.list())), []);
+
+  const handleNew = () => {
+    const name = prompt('New workspace name:', 'Untitled');
+    if (name?.trim()) onNew(name.trim());
+  };
+
+  const handleSaveAs = () => {
+    const name = prompt('Save current layout as:', active ? `${active.name} copy` : 'My desk');
+    if (name?.trim()) onSaveAs(name.trim());
+  };
+
+  const handleRename = () => {
+    if (!active) return;
+    const name = prompt('Rename workspace:', active.name);
+    if (name?.trim()) workspaceService.rename(active.id, name.trim());
+  };
+
+  const handleDuplicate = () => {
+    if (!active) return;
+    const copy = workspaceService.duplicate(active.id);
+    if (copy) onSelect(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (!active || !window.confirm(`Delete workspace "${active.name}"?`)) return;
+    onDelete(active.id);
+  };
+
+  const handleExport = () => {
+    if (!active) return;
+    const blob = new Blob([workspaceService.exportJson(active.id)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `workspace-${active.name.replace(/[^\w-]+/g, '_')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopy = async () => {
+    if (!active) return;
+    try {
+      await navigator.clipboard.writeText(workspaceService.exportJson(active.id));
+      toast({ title: 'Workspace copied', description: 'Paste the JSON to share this desk' });
+    } catch (error) {
+      toast({ title: 'Copy failed', description: String(error), variant: 'destructive' });
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const workspace = workspaceService.importJson(await file.text());
+      onSelect(workspace.id);
+      toast({ title: 'Workspace imported', description: `${workspace.name} (${workspace.panels.length} panels)` });
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="text-terminal-amber hover:bg-terminal-amber/10 font-mono text-xs">
+            <LayoutGrid className="h-4 w-4 mr-1" />
+            {active?.name ?? 'Workspace'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel className="text-xs">Workspaces</DropdownMenuLabel>
+          {workspaces.map(workspace => (
+            <DropdownMenuItem key={workspace.id} onClick={() => onSelect(workspace.id)} className="text-xs">
+              <Check className={`w-4 h-4 mr-2 ${workspace.id === activeId ? '' : 'invisible'}`} />
+              <span className="truncate flex-1">{workspace.name}</span>
+              <span className="text-[10px] text-muted-foreground ml-2">{workspace.panels.length}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={handleNew} className="text-xs">
+            <Plus className="w-4 h-4 mr-2" />
+            New
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleSaveAs} className="text-xs">
+            <Save className="w-4 h-4 mr-2" />
+            Save As...
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleRename} disabled={!active} className="text-xs">
+            <Pencil className="w-4 h-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleDuplicate} disabled={!active} className="text-xs">
+            <Copy className="w-4 h-4 mr-2" />
+            Duplicate
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={handleExport} disabled={!active} className="text-xs">
+            <Download className="w-4 h-4 mr-2" />
+            Export JSON
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleCopy} disabled={!active} className="text-xs">
+            <ClipboardCopy className="w-4 h-4 mr-2" />
+            Copy JSON
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => fileInputRef.current?.click()} className="text-xs">
+            <Upload className="w-4 h-4 mr-2" />
+            Import JSON...
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={handleDelete} disabled={!active} className="text-xs text-terminal-red">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+    </>
+  );
+};
+
+export default WorkspaceMenu;
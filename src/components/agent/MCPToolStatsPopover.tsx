@@ -0,0 +1,74 @@
+// MCP tool usage popover for the agent header
+// Per-tool call counts, latency and the last error, read from MCPServer stats
+
+import React, { useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { RotateCcw } from 'lucide-react';
+import { useMCP } from '@/contexts/MCPContext';
+import { mcpServer } from '@/services/mcp/MCPServer';
+
+export const MCPToolStatsPopover: React.FC = () => {
+  const { tools, getToolsList } = useMCP();
+  const [list, setList] = useState(() => getToolsList());
+
+  const refresh = () => setList(getToolsList());
+  const handleReset = () => {
+    mcpServer.resetToolStats();
+    refresh();
+  };
+
+  // Used tools first, busiest on top
+  const sorted = [...list].sort((a, b) => b.stats.calls - a.stats.calls || a.name.localeCompare(b.name));
+  const totalCalls = list.reduce((sum, t) => sum + t.stats.calls, 0);
+  const totalFailures = list.reduce((sum, t) => sum + t.stats.errors + t.stats.invalidCalls, 0);
+
+  return (
+    <Popover onOpenChange={open => open && refresh()}>
+      <PopoverTrigger asChild>
+        <button className="text-cyan-400 hover:underline"> • {tools.length} tools</button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-96 p-0 font-mono">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+          <span className="text-xs">
+            MCP Tools <span className="text-muted-foreground">• {totalCalls} calls</span>
+            {totalFailures > 0 && <span className="text-terminal-red"> • {totalFailures} failed</span>}
+          </span>
+          <Button variant="ghost" size="sm" onClick={handleReset} className="h-6 px-2" title="Reset counters">
+            <RotateCcw className="h-3 w-3" />
+          </Button>
+        </div>
+        <ScrollArea className="h-72">
+          <table className="w-full text-[10px]">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="text-left px-3 py-1 font-normal">Tool</th>
+                <th className="text-right px-1 py-1 font-normal">Calls</th>
+                <th className="text-right px-1 py-1 font-normal">Err</th>
+                <th className="text-right px-1 py-1 font-normal">Bad args</th>
+                <th className="text-right px-3 py-1 font-normal">Avg</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map(({ name, description, stats }) => (
+                <tr key={name} className="border-t border-border/50 align-top" title={stats.lastError || description}>
+                  <td className="px-3 py-1">
+                    <div className={stats.calls > 0 ? 'text-foreground' : 'text-muted-foreground'}>{name}</div>
+                    {stats.lastError && (
+                      <div className="text-terminal-red truncate max-w-[180px]">{stats.lastError}</div>
+                    )}
+                  </td>
+                  <td className="text-right px-1 py-1">{stats.calls}</td>
+                  <td className={`text-right px-1 py-1 ${stats.errors > 0 ? 'text-terminal-red' : ''}`}>{stats.errors}</td>
+                  <td className={`text-right px-1 py-1 ${stats.invalidCalls > 0 ? 'text-terminal-amber' : ''}`}>{stats.invalidCalls}</td>
+                  <td className="text-right px-3 py-1">{stats.calls > stats.invalidCalls ? `${stats.avgMs}ms` : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,224 @@
+// Skills scheduling tab for SuperClaw
+// Cron editor with next-run preview, catch-up toggle and run state
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, Loader2, Play, RefreshCw, Save, Zap } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { SkillsManager, Skill } from '@/services/skills/SkillsManager';
+import { localTimezone, nextCronRuns, validateCron } from '@/services/skills/cron';
+
+interface SkillsScheduleTabProps {
+  userId?: string;
+}
+
+const TIMEZONES = ['UTC', 'Asia/Bangkok', 'Asia/Tokyo', 'Asia/Singapore', 'Europe/London', 'America/New_York', 'America/Chicago'];
+const PRESETS = [
+  { label: 'Every 15m', cron: '*/15 * * * *' },
+  { label: 'Hourly', cron: '0 * * * *' },
+  { label: 'Weekdays 09:30', cron: '30 9 * * MON-FRI' },
+  { label: 'Daily 00:00', cron: '@daily' },
+];
+
+const formatRun = (date: Date, timezone: string) =>
+  date.toLocaleString('th-TH', { timeZone: timezone, weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const SkillScheduleCard: React.FC<{ skill: Skill }> = ({ skill }) => {
+  const [schedule, setSchedule] = useState(skill.schedule || '');
+  const [timezone, setTimezone] = useState(skill.timezone || localTimezone());
+  const [catchUp, setCatchUp] = useState(!!skill.catchUp);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setSchedule(skill.schedule || '');
+    setTimezone(skill.timezone || localTimezone());
+    setCatchUp(!!skill.catchUp);
+  }, [skill.schedule, skill.timezone, skill.catchUp]);
+
+  const error = schedule.trim() ? validateCron(schedule) : null;
+  const preview = useMemo(
+    () => (schedule.trim() && !error ? nextCronRuns(schedule, 3, Date.now(), timezone) : []),
+    [schedule, timezone, error],
+  );
+  const dirty = schedule.trim() !== (skill.schedule || '') ||
+    timezone !== (skill.timezone || localTimezone()) ||
+    catchUp !== !!skill.catchUp;
+  const running = SkillsManager.isRunning(skill.id);
+
+  const handleSave = async () => {
+    if (error) return;
+    setSaving(true);
+    try {
+      await SkillsManager.updateSkill(skill.id, {
+        schedule: schedule.trim() || undefined,
+        timezone: timezone === localTimezone() ? undefined : timezone,
+        catchUp,
+      });
+      toast({ title: `Schedule saved: ${skill.name}` });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRun = async () => {
+    const result = await SkillsManager.executeSkill(skill.id);
+    toast({
+      title: result.success ? `✅ ${skill.name}` : `❌ ${skill.name}`,
+      description: result.success ? `Completed in ${result.executionTime}ms` : result.error,
+      variant: result.success ? 'default' : 'destructive',
+    });
+  };
+
+  return (
+    <div className="p-2 rounded bg-muted/30 border border-border space-y-2">
+      <div className="flex items-center gap-2">
+        <Zap className="h-3 w-3 text-terminal-amber shrink-0" />
+        <span className="font-mono text-xs font-medium truncate flex-1">{skill.name}</span>
+        {running && (
+          <Badge variant="outline" className="text-[10px] border-terminal-green text-terminal-green animate-pulse">
+            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+            Running
+          </Badge>
+        )}
+        <Switch checked={skill.enabled} onCheckedChange={(enabled) => SkillsManager.toggleSkill(skill.id, enabled)} />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleRun}
+          disabled={!skill.enabled || running}
+          className="h-6 px-2 text-terminal-green"
+          title="Run now"
+        >
+          <Play className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <div className="flex gap-1">
+        <Input
+          placeholder="m h dom mon dow  (e.g. 30 9 * * MON-FRI)"
+          value={schedule}
+          onChange={(e) => setSchedule(e.target.value)}
+          className={`flex-1 font-mono text-xs h-7 bg-muted/30 ${error ? 'border-destructive' : ''}`}
+        />
+        <Select value={timezone} onValueChange={setTimezone}>
+          <SelectTrigger className="w-36 h-7 font-mono text-[10px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {[...new Set([localTimezone(), ...TIMEZONES])].map(tz => (
+              <SelectItem key={tz} value={tz} className="font-mono text-[10px]">{tz}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {PRESETS.map(p => (
+          <Badge
+            key={p.cron}
+            variant="outline"
+            className="cursor-pointer text-[9px] font-mono hover:bg-muted/50"
+            onClick={() => setSchedule(p.cron)}
+          >
+            {p.label}
+          </Badge>
+        ))}
+      </div>
+
+      {error ? (
+        <p className="font-mono text-[10px] text-terminal-red">{error}</p>
+      ) : preview.length > 0 ? (
+        <div className="font-mono text-[10px] text-muted-foreground space-y-0.5">
+          <div className="flex items-center gap-1 text-terminal-cyan">
+            <CalendarClock className="h-3 w-3" /> Next runs
+          </div>
+          {preview.map(run => (
+            <div key={run.getTime()} className="pl-4">{formatRun(run, timezone)}</div>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Switch checked={catchUp} onCheckedChange={setCatchUp} />
+          <Label className="font-mono text-[10px] text-muted-foreground">Catch up missed runs</Label>
+        </div>
+        <span className="font-mono text-[10px] text-muted-foreground">
+          Last: {skill.lastRun ? new Date(skill.lastRun).toLocaleString('th-TH') : '—'}
+        </span>
+      </div>
+
+      {dirty && (
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={!!error || saving}
+          className="w-full h-7 bg-terminal-amber hover:bg-terminal-amber/80 text-black font-mono text-xs"
+        >
+          {saving ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Save className="h-3 w-3 mr-1" />}
+          Save Schedule
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export const SkillsScheduleTab: React.FC<SkillsScheduleTabProps> = ({ userId }) => {
+  const [skills, setSkills] = useState<Skill[]>(() => SkillsManager.listSkills());
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    // Copy the list so React sees run-state changes on the same skill objects
+    return SkillsManager.onChange(() => setSkills(SkillsManager.listSkills().map(s => ({ ...s }))));
+  }, []);
+
+  const handleReload = useCallback(async () => {
+    if (!userId) return;
+    setLoading(true);
+    try {
+      await SkillsManager.initialize(userId);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (SkillsManager.listSkills().length === 0) handleReload();
+  }, [handleReload]);
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-2 border-b border-border flex items-center justify-between flex-shrink-0">
+        <span className="font-mono text-xs text-muted-foreground">{skills.length} skills</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleReload}
+          disabled={!userId || loading}
+          className="h-6 px-2 text-terminal-cyan"
+          title="Reload skills"
+        >
+          <RefreshCw className={`h-3 w-3 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="p-3 space-y-2">
+          {skills.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <CalendarClock className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              <p className="font-mono text-sm">{userId ? 'No skills yet' : 'Sign in to manage skills'}</p>
+            </div>
+          ) : (
+            skills.map(skill => <SkillScheduleCard key={skill.id} skill={skill} />)
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
@@ -8,6 +8,7 @@ import { Badge } from '@/components/ui/badge';
 import { toast } from '@/hooks/use-toast';
 import { BrokerAPI, BrokerConnection, TradovateCredentials, SettradeCredentials, MT5Credentials } from '@/services/brokers/BrokerAPIClient';
 import { MT5CockpitDashboard } from './MT5CockpitDashboard';
+import { RiskLimitsPanel } from './RiskLimitsPanel';
 import { supabase } from '@/integrations/supabase/client';
 import { 
   Plug, 
@@ -38,6 +39,8 @@ export const APIBridgePanel: React.FC<APIBridgePanelProps> = ({ roomId, userId,
   const [isLoadingStatus, setIsLoadingStatus] = useState(false);
   const [forwardLogs, setForwardLogs] = useState<any[]>([]);
   const [expertsLog, setExpertsLog] = useState<any[]>([]);
+  // MT5 orders go through the EA, not broker-order, so its pre-trade limits don't apply
+  const hasRiskEngine = connection?.broker_type !== 'mt5';
   
   // Status
   const [status, setStatus] = useState<{
@@ -318,6 +321,7 @@ export const APIBridgePanel: React.FC<APIBridgePanelProps> = ({ roomId, userId,
         <TabsList className="mx-4 mt-2 flex-shrink-0">
           <TabsTrigger value="connect">Connect</TabsTrigger>
           <TabsTrigger value="status">Status</TabsTrigger>
+          {hasRiskEngine && <TabsTrigger value="risk">Risk</TabsTrigger>}
           <TabsTrigger value="logs">Logs</TabsTrigger>
           <TabsTrigger value="experts">Experts</TabsTrigger>
         </TabsList>
@@ -641,6 +645,22 @@ export const APIBridgePanel: React.FC<APIBridgePanelProps> = ({ roomId, userId,
           </div>
         </TabsContent>
 
+        {/* Risk Tab */}
+        {hasRiskEngine && (
+          <TabsContent value="risk" className="flex-1 min-h-0 p-4 overflow-y-auto overscroll-contain touch-pan-y">
+            {connection ? (
+              <RiskLimitsPanel
+                connection={connection}
+                onChange={patch => setConnection(prev => prev ? { ...prev, ...patch } : prev)}
+              />
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                <p>Set up a broker connection first</p>
+              </div>
+            )}
+          </TabsContent>
+        )}
+
         {/* Logs Tab */}
         <TabsContent value="logs" className="flex-1 min-h-0 p-4 overflow-y-auto overscroll-contain touch-pan-y">
           <div className="space-y-2">
@@ -686,7 +706,7 @@ export const APIBridgePanel: React.FC<APIBridgePanelProps> = ({ roomId, userId,
                         </div>
                         <Badge 
                           variant={log.status === 'success' ? 'default' : log.status === 'failed' ? 'destructive' : 'secondary'}
-                          className="text-[10px]"
+                          className={`text-[10px] ${log.status === 'rejected' ? 'bg-yellow-500/20 text-yellow-400' : ''}`}
                         >
                           {log.status}
                         </Badge>
@@ -699,8 +719,8 @@ export const APIBridgePanel: React.FC<APIBridgePanelProps> = ({ roomId, userId,
                         )}
                       </div>
                       {log.error_message && (
-                        <div className="mt-1 text-red-400 text-[10px]">
-                          ❌ {log.error_message}
+                        <div className={`mt-1 text-[10px] ${log.status === 'rejected' ? 'text-yellow-400' : 'text-red-400'}`}>
+                          {log.status === 'rejected' ? '🛡️' : '❌'} {log.error_message}
                         </div>
                       )}
                     </div>
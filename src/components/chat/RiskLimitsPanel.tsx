@@ -0,0 +1,270 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { BrokerAPI, BrokerConnection } from '@/services/brokers/BrokerAPIClient';
+import type { RiskLimits, RiskUsage } from '@/services/brokers/types';
+import { Loader2, OctagonX, RefreshCw, Save, ShieldCheck } from 'lucide-react';
+
+interface RiskLimitsPanelProps {
+  connection: BrokerConnection;
+  onChange: (patch: Partial<BrokerConnection>) => void;
+}
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// "ES=2, NQ=1" <-> { ES: 2, NQ: 1 }
+const formatOverrides = (map?: Record<string, number>) =>
+  Object.entries(map || {}).map(([s, v]) => `${s}=${v}`).join(', ');
+
+const parseOverrides = (text: string): Record<string, number> | undefined => {
+  const entries = text.split(',')
+    .map(part => part.split('=').map(s => s.trim()))
+    .filter(([s, v]) => s && Number(v) > 0)
+    .map(([s, v]) => [s.toUpperCase(), Number(v)] as const);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+const numberOrUndefined = (value: string) => (value.trim() && Number(value) > 0 ? Number(value) : undefined);
+
+const UsageRow: React.FC<{ label: string; used: number | null; limit?: number; format?: (n: number) => string }> = ({
+  label, used, limit, format = n => String(n),
+}) => {
+  const pct = limit && used !== null ? Math.min(100, (used / limit) * 100) : 0;
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span className="text-muted-foreground">{label}</span>
+        <span className={`font-mono ${pct >= 100 ? 'text-red-400' : pct >= 80 ? 'text-yellow-400' : ''}`}>
+          {used === null ? '—' : format(used)} / {limit ? format(limit) : '∞'}
+        </span>
+      </div>
+      {limit ? <Progress value={pct} className="h-1.5" /> : null}
+    </div>
+  );
+};
+
+export const RiskLimitsPanel: React.FC<RiskLimitsPanelProps> = ({ connection, onChange }) => {
+  const limits: RiskLimits = connection.risk_limits || {};
+  const [form, setForm] = useState({
+    maxDailyLoss: '',
+    maxOpenPositions: '',
+    maxSymbolExposure: '',
+    symbolExposure: '',
+    maxOrdersPerMinute: '',
+    duplicateWindowSec: '',
+    hoursEnabled: false,
+    timezone: 'America/New_York',
+    start: '09:30',
+    end: '16:00',
+    days: [1, 2, 3, 4, 5],
+  });
+  const [usage, setUsage] = useState<RiskUsage | null>(null);
+  const [loadingUsage, setLoadingUsage] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const l: RiskLimits = connection.risk_limits || {};
+    const window = l.tradingHours?.windows?.[0];
+    setForm({
+      maxDailyLoss: l.maxDailyLoss?.toString() ?? '',
+      maxOpenPositions: l.maxOpenPositions?.toString() ?? '',
+      maxSymbolExposure: l.maxSymbolExposure?.toString() ?? '',
+      symbolExposure: formatOverrides(l.symbolExposure),
+      maxOrdersPerMinute: l.maxOrdersPerMinute?.toString() ?? '',
+      duplicateWindowSec: l.duplicateWindowSec?.toString() ?? '',
+      hoursEnabled: !!window,
+      timezone: l.tradingHours?.timezone ?? 'America/New_York',
+      start: window?.start ?? '09:30',
+      end: window?.end ?? '16:00',
+      days: window?.days ?? [1, 2, 3, 4, 5],
+    });
+  }, [connection.risk_limits]);
+
+  const refreshUsage = useCallback(async () => {
+    if (!connection.is_connected) return;
+    setLoadingUsage(true);
+    try {
+      const result = await BrokerAPI.getRiskUsage(connection.id);
+      if (result.success && result.usage) setUsage(result.usage);
+    } catch (error) {
+      console.error('Failed to load risk usage:', error);
+    } finally {
+      setLoadingUsage(false);
+    }
+  }, [connection.id, connection.is_connected]);
+
+  useEffect(() => {
+    refreshUsage();
+  }, [refreshUsage]);
+
+  const handleKillSwitch = async (enabled: boolean) => {
+    try {
+      await BrokerAPI.setKillSwitch(connection.id, enabled);
+      onChange({ kill_switch: enabled });
+      toast({
+        title: enabled ? '🛑 Kill switch ON' : '✅ Kill switch OFF',
+        description: enabled ? 'All new orders will be rejected' : 'Orders are allowed again',
+        variant: enabled ? 'destructive' : 'default',
+      });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  const handleSave = async () => {
+    const next: RiskLimits = {
+      maxDailyLoss: numberOrUndefined(form.maxDailyLoss),
+      maxOpenPositions: numberOrUndefined(form.maxOpenPositions),
+      maxSymbolExposure: numberOrUndefined(form.maxSymbolExposure),
+      symbolExposure: parseOverrides(form.symbolExposure),
+      maxOrdersPerMinute: numberOrUndefined(form.maxOrdersPerMinute),
+      duplicateWindowSec: numberOrUndefined(form.duplicateWindowSec),
+      tradingHours: form.hoursEnabled && form.days.length > 0
+        ? { timezone: form.timezone, windows: [{ days: form.days, start: form.start, end: form.end }] }
+        : undefined,
+    };
+
+    setSaving(true);
+    try {
+      await BrokerAPI.updateRiskLimits(connection.id, next);
+      onChange({ risk_limits: next });
+      toast({ title: '✅ Risk limits saved' });
+      refreshUsage();
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleDay = (day: number) =>
+    setForm(f => ({ ...f, days: f.days.includes(day) ? f.days.filter(d => d !== day) : [...f.days, day].sort() }));
+
+  const field = (key: keyof typeof form, label: string, placeholder = 'off') => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        min={0}
+        placeholder={placeholder}
+        value={form[key] as string}
+        onChange={e => setForm(f => ({ ...f, [key]: e.target.value }))}
+        className="h-8 text-sm"
+      />
+    </div>
+  );
+
+  const symbolCap = (symbol: string) => limits.symbolExposure?.[symbol] ?? limits.maxSymbolExposure;
+
+  return (
+    <div className="space-y-4">
+      {/* Kill switch */}
+      <div className={`p-3 rounded-lg flex items-center justify-between ${connection.kill_switch ? 'bg-red-500/20 border border-red-500/40' : 'bg-muted/50'}`}>
+        <div className="flex items-center gap-2">
+          <OctagonX className={`w-5 h-5 ${connection.kill_switch ? 'text-red-400' : 'text-muted-foreground'}`} />
+          <div>
+            <div className="text-sm font-semibold">Kill Switch</div>
+            <div className="text-xs text-muted-foreground">Blocks every new order; close and cancel still work</div>
+          </div>
+        </div>
+        <Switch checked={!!connection.kill_switch} onCheckedChange={handleKillSwitch} />
+      </div>
+
+      {/* Usage */}
+      <div className="p-3 rounded-lg bg-muted/50 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4" /> Limit Usage
+          </h4>
+          <Button size="sm" variant="ghost" onClick={refreshUsage} disabled={loadingUsage || !connection.is_connected}>
+            <RefreshCw className={`w-4 h-4 ${loadingUsage ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        {!connection.is_connected ? (
+          <p className="text-xs text-muted-foreground">Connect to see live usage</p>
+        ) : (
+          <>
+            <UsageRow label="Daily loss" used={usage?.dailyLoss ?? null} limit={limits.maxDailyLoss} format={n => `$${n.toLocaleString()}`} />
+            <UsageRow label="Open positions" used={usage?.openPositions ?? null} limit={limits.maxOpenPositions} />
+            <UsageRow label="Orders / minute" used={usage?.ordersLastMinute ?? null} limit={limits.maxOrdersPerMinute} />
+            {Object.entries(usage?.exposure || {}).map(([symbol, size]) => (
+              <UsageRow key={symbol} label={`${symbol} exposure`} used={size} limit={symbolCap(symbol)} />
+            ))}
+            {usage?.withinTradingHours !== null && usage?.withinTradingHours !== undefined && (
+              <div className="flex justify-between text-xs">
+                <span className="text-muted-foreground">Trading hours</span>
+                <Badge variant={usage.withinTradingHours ? 'default' : 'secondary'} className="text-[10px]">
+                  {usage.withinTradingHours ? 'Open' : 'Closed'}
+                </Badge>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Limits form */}
+      <div className="p-3 rounded-lg bg-muted/50 space-y-3">
+        <h4 className="text-sm font-semibold">Pre-trade Limits</h4>
+        <div className="grid grid-cols-2 gap-2">
+          {field('maxDailyLoss', 'Max daily loss ($)')}
+          {field('maxOpenPositions', 'Max open positions')}
+          {field('maxSymbolExposure', 'Max size per symbol')}
+          {field('maxOrdersPerMinute', 'Max orders / minute')}
+          {field('duplicateWindowSec', 'Duplicate window (s)')}
+          <div className="space-y-1">
+            <Label className="text-xs">Max order size</Label>
+            <Input value={connection.max_position_size ?? 100} disabled className="h-8 text-sm" />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Per-symbol caps</Label>
+          <Input
+            placeholder="ES=2, NQ=1"
+            value={form.symbolExposure}
+            onChange={e => setForm(f => ({ ...f, symbolExposure: e.target.value }))}
+            className="h-8 text-sm font-mono"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Switch checked={form.hoursEnabled} onCheckedChange={hoursEnabled => setForm(f => ({ ...f, hoursEnabled }))} />
+            <Label className="text-xs">Trading hours only</Label>
+          </div>
+          {form.hoursEnabled && (
+            <>
+              <div className="grid grid-cols-3 gap-2">
+                <Input type="time" value={form.start} onChange={e => setForm(f => ({ ...f, start: e.target.value }))} className="h-8 text-sm" />
+                <Input type="time" value={form.end} onChange={e => setForm(f => ({ ...f, end: e.target.value }))} className="h-8 text-sm" />
+                <Input value={form.timezone} onChange={e => setForm(f => ({ ...f, timezone: e.target.value }))} className="h-8 text-xs" />
+              </div>
+              <div className="flex gap-1">
+                {DAYS.map((d, i) => (
+                  <Button
+                    key={d}
+                    size="sm"
+                    variant={form.days.includes(i) ? 'default' : 'outline'}
+                    onClick={() => toggleDay(i)}
+                    className="h-6 px-2 text-[10px]"
+                  >
+                    {d}
+                  </Button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <Button className="w-full" size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+          Save Limits
+        </Button>
+      </div>
+    </div>
+  );
+};
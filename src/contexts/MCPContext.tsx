@@ -1,11 +1,11 @@
 import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
-import { mcpServer, MCPTool } from '@/services/mcp/MCPServer';
+import { mcpServer, MCPTool, MCPToolStats } from '@/services/mcp/MCPServer';
 
 interface MCPContextType {
   isReady: boolean;
   tools: MCPTool[];
   executeTool: (name: string, params: any) => Promise<any>;
-  getToolsList: () => { name: string; description: string }[];
+  getToolsList: () => { name: string; description: string; stats: MCPToolStats }[];
 }
 
 const MCPContext = createContext<MCPContextType | null>(null);
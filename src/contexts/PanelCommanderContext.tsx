@@ -1,4 +1,6 @@
 import React, { createContext, useContext, useState, useCallback, useRef } from 'react';
+import { symbolLinkService, LINK_GROUPS, isLinkGroupId, type LinkGroupId } from '@/services/SymbolLinkService';
+import type { PanelSettings } from '@/contexts/PanelSettingsContext';
 
 // Panel configuration type - matches MarketData's availableComponents
 export interface PanelConfig {
@@ -79,8 +81,8 @@ export interface OpenPanelCommand {
 }
 
 interface PanelCommanderContextType {
-  // Open a panel by ID
-  openPanel: (panelId: string, arrange?: OpenPanelCommand['arrange']) => boolean;
+  // Open a panel by ID, optionally preloaded with its panel settings (symbol, timeframe, ...)
+  openPanel: (panelId: string, arrange?: OpenPanelCommand['arrange'], settings?: PanelSettings) => boolean;
   
   // Close a panel by ID
   closePanel: (panelId: string) => boolean;
@@ -91,16 +93,21 @@ interface PanelCommanderContextType {
   // Get all available panels
   getAvailablePanels: () => PanelConfig[];
   
+  // Set the symbol of a color link group (defaults to the most recently used group)
+  setLinkedSymbol: (ticker: string, group?: LinkGroupId) => boolean;
+  
   // Parse AI command and execute
   executeAICommand: (command: string) => { success: boolean; message: string; panelsOpened?: string[] };
   
   // Register panel opener from MarketData
-  registerPanelOpener: (opener: (panelId: string) => void) => void;
+  registerPanelOpener: (opener: PanelOpener) => void;
   
   // Register panel closer from MarketData
   registerPanelCloser: (closer: (panelId: string) => void) => void;
 }
 
+type PanelOpener = (panelId: string, settings?: PanelSettings) => void;
+
 const PanelCommanderContext = createContext<PanelCommanderContextType | null>(null);
 
 export const usePanelCommander = () => {
@@ -112,10 +119,10 @@ export const usePanelCommander = () => {
 };
 
 export const PanelCommanderProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const panelOpenerRef = useRef<((panelId: string) => void) | null>(null);
+  const panelOpenerRef = useRef<PanelOpener | null>(null);
   const panelCloserRef = useRef<((panelId: string) => void) | null>(null);
 
-  const registerPanelOpener = useCallback((opener: (panelId: string) => void) => {
+  const registerPanelOpener = useCallback((opener: PanelOpener) => {
     panelOpenerRef.current = opener;
   }, []);
 
@@ -142,7 +149,7 @@ export const PanelCommanderProvider: React.FC<{ children: React.ReactNode }> = (
 
   const getAvailablePanels = useCallback(() => AVAILABLE_PANELS, []);
 
-  const openPanel = useCallback((panelId: string, arrange?: OpenPanelCommand['arrange']): boolean => {
+  const openPanel = useCallback((panelId: string, arrange?: OpenPanelCommand['arrange'], settings?: PanelSettings): boolean => {
     if (!panelOpenerRef.current) {
       console.warn('Panel opener not registered');
       return false;
@@ -154,7 +161,7 @@ export const PanelCommanderProvider: React.FC<{ children: React.ReactNode }> = (
       return false;
     }
     
-    panelOpenerRef.current(panelId);
+    panelOpenerRef.current(panelId, settings);
     console.log(`✅ Opened panel: ${panel.title}`);
     return true;
   }, []);
@@ -170,10 +177,32 @@ export const PanelCommanderProvider: React.FC<{ children: React.ReactNode }> = (
     return true;
   }, []);
 
+  const setLinkedSymbol = useCallback((ticker: string, group?: LinkGroupId): boolean => {
+    if (!ticker.trim()) return false;
+    const recent = Object.entries(symbolLinkService.getAll())
+      .sort(([, a], [, b]) => (b?.at ?? 0) - (a?.at ?? 0))[0]?.[0];
+    const target = group ?? (isLinkGroupId(recent) ? recent : LINK_GROUPS[0].id);
+    symbolLinkService.setSymbol(target, ticker, 'agent');
+    console.log(`✅ Linked ${target} group to ${ticker.toUpperCase()}`);
+    return true;
+  }, []);
+
   const executeAICommand = useCallback((command: string): { success: boolean; message: string; panelsOpened?: string[] } => {
     const lowerCommand = command.toLowerCase();
     const panelsOpened: string[] = [];
     
+    // Parse link group commands: "link red AAPL", "symbol BINANCE:BTCUSDT"
+    const linkMatch = command.trim().match(/^(?:link|set symbol|symbol|ลิงก์)\s+(?:(red|green|blue|yellow|purple)\s+)?(?:to\s+)?([a-z0-9:._/-]+)$/i);
+    if (linkMatch) {
+      const group = linkMatch[1]?.toLowerCase() as LinkGroupId | undefined;
+      const ticker = linkMatch[2].toUpperCase();
+      setLinkedSymbol(ticker, group);
+      return {
+        success: true,
+        message: `🔗 ตั้ง symbol ของกลุ่ม **${group ?? 'ล่าสุด'}** เป็น **${ticker}** แล้ว`
+      };
+    }
+    
     // Parse "open" commands
     const openPatterns = [
       /(?:open|เปิด|show|แสดง|launch|run)\s+(.+?)(?:\s+panel|\s+function|\s+ฟังชัน)?$/i,
@@ -250,7 +279,7 @@ export const PanelCommanderProvider: React.FC<{ children: React.ReactNode }> = (
     }
     
     return { success: false, message: '' }; // Not a panel command
-  }, [openPanel, closePanel, findPanelsByKeyword]);
+  }, [openPanel, closePanel, findPanelsByKeyword, setLinkedSymbol]);
 
   return (
     <PanelCommanderContext.Provider
@@ -259,6 +288,7 @@ export const PanelCommanderProvider: React.FC<{ children: React.ReactNode }> = (
         closePanel,
         findPanelsByKeyword,
         getAvailablePanels,
+        setLinkedSymbol,
         executeAICommand,
         registerPanelOpener,
         registerPanelCloser
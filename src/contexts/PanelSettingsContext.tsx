@@ -0,0 +1,18 @@
+import React, { useCallback, useMemo } from 'react';
+import { PanelSettingsContext } from '@/hooks/usePanelSettings';
+
+// Per-panel settings saved with the MarketData workspace (chart symbol, timeframe, ...).
+// Panels read their saved values on mount through usePanelSettings and write changes back.
+
+export type PanelSettings = Record<string, unknown>;
+
+export const PanelSettingsProvider: React.FC<{
+  panelId: string;
+  settings: PanelSettings | undefined;
+  onChange: (panelId: string, patch: PanelSettings) => void;
+  children: React.ReactNode;
+}> = ({ panelId, settings, onChange, children }) => {
+  const updateSettings = useCallback((patch: PanelSettings) => onChange(panelId, patch), [panelId, onChange]);
+  const value = useMemo(() => ({ settings: settings ?? {}, updateSettings }), [settings, updateSettings]);
+  return <PanelSettingsContext.Provider value={value}>{children}</PanelSettingsContext.Provider>;
+};
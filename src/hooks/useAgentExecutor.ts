@@ -6,8 +6,9 @@ import { useState, useCallback, useRef, useEffect } from 'react';
 import { AgentService, AgentAction, AgentTask, PageContext } from '@/services/AgentService';
 
 // Extended actions for Vercept-like automation
-type ExtendedActionType = AgentAction['type'] | 'clickAddMenu' | 'searchInModal' | 'dragWindow' | 'resizeWindow' | 'focusWindow' | 'wheelScroll';
+type ExtendedActionType = AgentAction['type'] | 'clickAddMenu' | 'searchInModal' | 'dragWindow' | 'resizeWindow' | 'focusWindow' | 'wheelScroll' | 'setSymbol';
 import { usePanelCommander } from '@/contexts/PanelCommanderContext';
+import { isLinkGroupId } from '@/services/SymbolLinkService';
 import { toast } from '@/hooks/use-toast';
 
 const MAX_ACTIONS_PER_TASK = 20;
@@ -52,7 +53,7 @@ export function useAgentExecutor() {
   const [isRunning, setIsRunning] = useState(false);
   const [logs, setLogs] = useState<string[]>([]);
   const abortRef = useRef(false);
-  const { openPanel, closePanel } = usePanelCommander();
+  const { openPanel, closePanel, setLinkedSymbol } = usePanelCommander();
 
   // Subscribe to AgentService logs
   useEffect(() => {
@@ -289,6 +290,11 @@ export function useAgentExecutor() {
             const scrollDir = action.value === 'up' ? -1 : 1;
             return await AgentService.wheelScroll(action.target || 'body', scrollDir * 300);
 
+          case 'setSymbol' as ExtendedActionType:
+            // Drive a color link group: target = ticker, value = group color
+            if (!action.target) return false;
+            return setLinkedSymbol(action.target, isLinkGroupId(action.value) ? action.value : undefined);
+
           default:
             addLog(`❓ Unknown action type: ${action.type}`);
             return false;
@@ -308,7 +314,7 @@ export function useAgentExecutor() {
       addLog(`❌ Error: ${error}`);
       return false;
     }
-  }, [openPanel, closePanel, addLog]);
+  }, [openPanel, closePanel, setLinkedSymbol, addLog]);
 
   const executeTask = useCallback(async (task: AgentTask): Promise<void> => {
     setIsRunning(true);
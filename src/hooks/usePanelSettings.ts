@@ -0,0 +1,19 @@
+import { createContext, useCallback, useContext } from 'react';
+import type { PanelSettings } from '@/contexts/PanelSettingsContext';
+
+export interface PanelSettingsContextType {
+  settings: PanelSettings;
+  updateSettings: (patch: PanelSettings) => void;
+}
+
+/** Provided per workspace panel by PanelSettingsProvider */
+export const PanelSettingsContext = createContext<PanelSettingsContextType | null>(null);
+
+const noop = () => {};
+
+/** This panel's saved settings and a setter; empty settings and a no-op outside a workspace panel */
+export function usePanelSettings<T extends PanelSettings>(): [Partial<T>, (patch: Partial<T>) => void] {
+  const context = useContext(PanelSettingsContext);
+  const update = useCallback((patch: Partial<T>) => (context?.updateSettings ?? noop)(patch), [context]);
+  return [(context?.settings ?? {}) as Partial<T>, update];
+}
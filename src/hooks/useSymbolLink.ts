@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useId, useRef, useState } from 'react';
+import { usePanelSettings } from '@/hooks/usePanelSettings';
+import { symbolLinkService, isLinkGroupId, type LinkGroupId, type LinkedSymbol } from '@/services/SymbolLinkService';
+
+/**
+ * Join a panel to a color link group. The chosen group is kept in the panel's
+ * workspace settings; `onLinkedSymbol` runs whenever another member (or the
+ * agent) changes the group symbol, and `publish` drives the rest of the group.
+ */
+export function useSymbolLink(onLinkedSymbol: (linked: LinkedSymbol) => void) {
+  const [settings, updateSettings] = usePanelSettings<{ linkGroup: LinkGroupId | null }>();
+  const [group, setGroupState] = useState<LinkGroupId | null>(
+    isLinkGroupId(settings.linkGroup) ? settings.linkGroup : null
+  );
+  const sourceId = useId();
+  const callbackRef = useRef(onLinkedSymbol);
+  callbackRef.current = onLinkedSymbol;
+
+  // A group restored from the workspace adopts its current symbol, as joining one does
+  const initialGroupRef = useRef(group);
+  useEffect(() => {
+    const current = initialGroupRef.current ? symbolLinkService.getSymbol(initialGroupRef.current) : null;
+    if (current) callbackRef.current(current);
+  }, []);
+
+  useEffect(() => {
+    if (!group) return;
+    return symbolLinkService.subscribe((changed, linked) => {
+      if (changed === group && linked.source !== sourceId) callbackRef.current(linked);
+    });
+  }, [group, sourceId]);
+
+  const setGroup = useCallback((next: LinkGroupId | null) => {
+    setGroupState(next);
+    updateSettings({ linkGroup: next });
+    // Joining a group adopts its current symbol
+    const current = next ? symbolLinkService.getSymbol(next) : null;
+    if (current) callbackRef.current(current);
+  }, [updateSettings]);
+
+  const publish = useCallback((ticker: string, name?: string) => {
+    if (group) symbolLinkService.setSymbol(group, ticker, sourceId, name);
+  }, [group, sourceId]);
+
+  return { group, setGroup, publish };
+}
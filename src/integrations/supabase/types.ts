@@ -94,6 +94,7 @@ export type Database = {
       }
       agent_skills: {
         Row: {
+          catch_up: boolean | null
           category: string
           code: string
           created_at: string | null
@@ -107,11 +108,13 @@ export type Database = {
           run_count: number | null
           schedule: string | null
           success_rate: number | null
+          timezone: string | null
           updated_at: string | null
           user_id: string | null
           version: number | null
         }
         Insert: {
+          catch_up?: boolean | null
           category: string
           code: string
           created_at?: string | null
@@ -125,11 +128,13 @@ export type Database = {
           run_count?: number | null
           schedule?: string | null
           success_rate?: number | null
+          timezone?: string | null
           updated_at?: string | null
           user_id?: string | null
           version?: number | null
         }
         Update: {
+          catch_up?: boolean | null
           category?: string
           code?: string
           created_at?: string | null
@@ -143,12 +148,58 @@ export type Database = {
           run_count?: number | null
           schedule?: string | null
           success_rate?: number | null
+          timezone?: string | null
           updated_at?: string | null
           user_id?: string | null
           version?: number | null
         }
         Relationships: []
       }
+      alert_delivery_log: {
+        Row: {
+          channel: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          channel: string
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      alert_recipients: {
+        Row: {
+          address: string
+          channel: string
+          created_at: string
+          user_id: string
+          verified_at: string | null
+        }
+        Insert: {
+          address: string
+          channel: string
+          created_at?: string
+          user_id: string
+          verified_at?: string | null
+        }
+        Update: {
+          address?: string
+          channel?: string
+          created_at?: string
+          user_id?: string
+          verified_at?: string | null
+        }
+        Relationships: []
+      }
       alerts: {
         Row: {
           created_at: string | null
@@ -392,9 +443,12 @@ export type Database = {
           id: string
           is_active: boolean | null
           is_connected: boolean | null
+          kill_switch: boolean
           last_connected_at: string | null
           last_error: string | null
           max_position_size: number | null
+          risk_limits: Json
+          risk_state: Json | null
           room_id: string | null
           session_data: Json | null
           successful_orders: number | null
@@ -412,9 +466,12 @@ export type Database = {
           id?: string
           is_active?: boolean | null
           is_connected?: boolean | null
+          kill_switch?: boolean
           last_connected_at?: string | null
           last_error?: string | null
           max_position_size?: number | null
+          risk_limits?: Json
+          risk_state?: Json | null
           room_id?: string | null
           session_data?: Json | null
           successful_orders?: number | null
@@ -432,9 +489,12 @@ export type Database = {
           id?: string
           is_active?: boolean | null
           is_connected?: boolean | null
+          kill_switch?: boolean
           last_connected_at?: string | null
           last_error?: string | null
           max_position_size?: number | null
+          risk_limits?: Json
+          risk_state?: Json | null
           room_id?: string | null
           session_data?: Json | null
           successful_orders?: number | null
@@ -452,6 +512,27 @@ export type Database = {
           },
         ]
       }
+      chart_drawings: {
+        Row: {
+          drawings: Json
+          symbol: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          drawings?: Json
+          symbol: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          drawings?: Json
+          symbol?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       chat_rooms: {
         Row: {
           created_at: string | null
@@ -891,6 +972,42 @@ export type Database = {
           },
         ]
       }
+      screener_snapshots: {
+        Row: {
+          columns: string[] | null
+          created_at: string
+          id: string
+          rows: Json
+          screen_id: string
+          screen_label: string
+          screener_type: string
+          total_count: number | null
+          user_id: string
+        }
+        Insert: {
+          columns?: string[] | null
+          created_at?: string
+          id?: string
+          rows?: Json
+          screen_id: string
+          screen_label?: string
+          screener_type: string
+          total_count?: number | null
+          user_id: string
+        }
+        Update: {
+          columns?: string[] | null
+          created_at?: string
+          id?: string
+          rows?: Json
+          screen_id?: string
+          screen_label?: string
+          screener_type?: string
+          total_count?: number | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       sentiment_data: {
         Row: {
           created_at: string | null
@@ -1048,6 +1165,7 @@ export type Database = {
           error_stack: string | null
           execution_time_ms: number | null
           id: string
+          idempotency_key: string | null
           message_id: string | null
           payload: Json
           request_id: string
@@ -1062,6 +1180,7 @@ export type Database = {
           error_stack?: string | null
           execution_time_ms?: number | null
           id?: string
+          idempotency_key?: string | null
           message_id?: string | null
           payload?: Json
           request_id: string
@@ -1076,6 +1195,7 @@ export type Database = {
           error_stack?: string | null
           execution_time_ms?: number | null
           id?: string
+          idempotency_key?: string | null
           message_id?: string | null
           payload?: Json
           request_id?: string
@@ -1108,30 +1228,81 @@ export type Database = {
           },
         ]
       }
+      webhook_replay_keys: {
+        Row: {
+          created_at: string
+          expires_at: string
+          key: string
+          kind: string
+          message_id: string | null
+          room_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          key: string
+          kind: string
+          message_id?: string | null
+          room_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          key?: string
+          kind?: string
+          message_id?: string | null
+          room_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_replay_keys_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_replay_keys_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "chat_rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       webhooks: {
         Row: {
+          auth_mode: string
           created_at: string | null
           created_by: string | null
           id: string
+          idempotency_window_seconds: number
           is_active: boolean | null
+          replay_window_seconds: number
           room_id: string | null
           webhook_secret: string
           webhook_url: string
         }
         Insert: {
+          auth_mode?: string
           created_at?: string | null
           created_by?: string | null
           id?: string
+          idempotency_window_seconds?: number
           is_active?: boolean | null
+          replay_window_seconds?: number
           room_id?: string | null
           webhook_secret: string
           webhook_url: string
         }
         Update: {
+          auth_mode?: string
           created_at?: string | null
           created_by?: string | null
           id?: string
+          idempotency_window_seconds?: number
           is_active?: boolean | null
+          replay_window_seconds?: number
           room_id?: string | null
           webhook_secret?: string
           webhook_url?: string
@@ -1153,6 +1324,33 @@ export type Database = {
           },
         ]
       }
+      workspaces: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          panels: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          name: string
+          panels?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          panels?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       failed_webhooks: {
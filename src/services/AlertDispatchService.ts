@@ -0,0 +1,403 @@
+// ============================================
+// Alert Dispatch - notification delivery for triggered alerts
+// Chart alerts, TopNews alerts and screener watches hand their notifications
+// here. Each source routes to a set of channels (or a rule picks its own):
+// in-app toasts, browser notifications through a service worker, and - via
+// the send-alert-notification edge function - webhooks, Telegram, LINE and
+// email. Every channel has a sliding-window rate limit, and every attempt is
+// written to a delivery log. Server-side channels need a signed-in user; the
+// function applies its own per-user limits on top.
+// ============================================
+
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import type {
+  AlertChannelId,
+  AlertChannelSettings,
+  AlertDispatchSettings,
+  AlertNotification,
+  AlertSource,
+  DeliveryRecord,
+  DeliveryStatus,
+} from '@/types/alerts';
+
+const SETTINGS_KEY = 'able-alert-dispatch-settings';
+const LOG_KEY = 'able-alert-deliveries';
+const MAX_LOG = 500;
+const SERVICE_WORKER_URL = '/alert-sw.js';
+
+export const CHANNEL_LABELS: Record<AlertChannelId, string> = {
+  in_app: 'In-app',
+  browser: 'Browser',
+  webhook: 'Webhook',
+  telegram: 'Telegram',
+  line: 'LINE',
+  email: 'Email',
+};
+
+export const ALERT_CHANNELS = Object.keys(CHANNEL_LABELS) as AlertChannelId[];
+
+export const SOURCE_LABELS: Record<AlertSource, string> = {
+  chart: 'Chart alerts',
+  news: 'News alerts',
+  screener: 'Screener watches',
+};
+
+export const DEFAULT_WEBHOOK_TEMPLATE = `{
+  "title": "{{title}}",
+  "message": "{{message}}",
+  "symbol": "{{symbol}}",
+  "timeframe": "{{timeframe}}",
+  "price": {{price}},
+  "source": "{{source}}",
+  "time": "{{time}}"
+}`;
+
+const DEFAULT_SETTINGS: AlertDispatchSettings = {
+  channels: {
+    in_app: { enabled: true, maxPerWindow: 60, windowMinutes: 1 },
+    browser: { enabled: false, maxPerWindow: 20, windowMinutes: 1 },
+    webhook: { enabled: false, maxPerWindow: 30, windowMinutes: 1, url: '', template: DEFAULT_WEBHOOK_TEMPLATE },
+    telegram: { enabled: false, maxPerWindow: 20, windowMinutes: 1, botToken: '', chatId: '' },
+    line: { enabled: false, maxPerWindow: 10, windowMinutes: 1, channelAccessToken: '', to: '' },
+    email: { enabled: false, maxPerWindow: 10, windowMinutes: 60 },
+  },
+  routes: {
+    chart: ['in_app', 'browser'],
+    news: ['browser'],
+    screener: ['in_app', 'browser'],
+  },
+};
+
+type Listener = () => void;
+
+interface SendOutcome {
+  status: Extract<DeliveryStatus, 'sent' | 'skipped'>;
+  detail?: string;
+}
+
+const SENT: SendOutcome = { status: 'sent' };
+const skipped = (detail: string): SendOutcome => ({ status: 'skipped', detail });
+
+/**
+ * Fill a JSON webhook template. Placeholders are replaced with JSON-escaped text,
+ * so quote them for strings ("{{message}}") and leave numbers bare ({{price}}, null when absent).
+ * Throws when the result isn't valid JSON.
+ */
+export function renderWebhookTemplate(template: string, notification: AlertNotification): string {
+  const values: Record<string, string> = {
+    id: notification.id,
+    title: notification.title,
+    message: notification.message,
+    symbol: notification.symbol ?? '',
+    timeframe: notification.timeframe ?? '',
+    price: notification.price !== undefined ? String(notification.price) : 'null',
+    value: notification.value !== undefined && notification.value !== null ? String(notification.value) : 'null',
+    severity: notification.severity ?? 'info',
+    source: notification.source,
+    time: new Date(notification.timestamp).toISOString(),
+  };
+  const rendered = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    key in values ? JSON.stringify(values[key]).slice(1, -1) : match
+  );
+  try {
+    JSON.parse(rendered);
+  } catch {
+    throw new Error('Webhook template is not valid JSON once filled in');
+  }
+  return rendered;
+}
+
+function loadSettings(): AlertDispatchSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(saved) as Partial<AlertDispatchSettings>;
+    // Merge per channel so channels added later get their defaults
+    const channels = { ...DEFAULT_SETTINGS.channels } as Record<AlertChannelId, unknown>;
+    ALERT_CHANNELS.forEach(id => {
+      channels[id] = { ...DEFAULT_SETTINGS.channels[id], ...parsed.channels?.[id] };
+    });
+    return {
+      channels: channels as unknown as AlertChannelSettings,
+      routes: { ...DEFAULT_SETTINGS.routes, ...parsed.routes },
+    };
+  } catch (e) {
+    console.error('Failed to load alert delivery settings:', e);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+class AlertDispatchService {
+  private settings: AlertDispatchSettings = DEFAULT_SETTINGS;
+  private log: DeliveryRecord[] = [];
+  private loaded = false;
+  private listeners = new Set<Listener>();
+  /** Send times per channel inside the current rate-limit window */
+  private recentSends = new Map<AlertChannelId, number[]>();
+  private registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+  private ensureLoaded() {
+    if (this.loaded || typeof window === 'undefined') return;
+    this.loaded = true;
+    this.settings = loadSettings();
+    try {
+      const saved = localStorage.getItem(LOG_KEY);
+      this.log = saved ? JSON.parse(saved) : [];
+    } catch (e) {
+      console.error('Failed to load alert delivery log:', e);
+      this.log = [];
+    }
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getSettings(): AlertDispatchSettings {
+    this.ensureLoaded();
+    return this.settings;
+  }
+
+  getLog(): DeliveryRecord[] {
+    this.ensureLoaded();
+    return this.log;
+  }
+
+  /** Channels a notification from `source` goes to unless it names its own */
+  getRoute(source: AlertSource): AlertChannelId[] {
+    return this.getSettings().routes[source];
+  }
+
+  updateChannel<K extends AlertChannelId>(id: K, patch: Partial<AlertChannelSettings[K]>): void {
+    this.ensureLoaded();
+    this.settings = {
+      ...this.settings,
+      channels: { ...this.settings.channels, [id]: { ...this.settings.channels[id], ...patch } },
+    };
+    this.saveSettings();
+  }
+
+  setRoute(source: AlertSource, channels: AlertChannelId[]): void {
+    this.ensureLoaded();
+    this.settings = { ...this.settings, routes: { ...this.settings.routes, [source]: channels } };
+    this.saveSettings();
+  }
+
+  clearLog(): void {
+    this.log = [];
+    this.saveLog();
+  }
+
+  /** Ask for notification permission (needs a user gesture) and register the service worker */
+  async requestBrowserPermission(): Promise<NotificationPermission> {
+    if (typeof Notification === 'undefined') return 'denied';
+    const permission = await Notification.requestPermission();
+    if (permission === 'granted') void this.serviceWorker();
+    return permission;
+  }
+
+  /** Deliver to every routed, enabled channel. Notifications already in the log are ignored */
+  async dispatch(notification: AlertNotification): Promise<void> {
+    this.ensureLoaded();
+    if (this.log.some(r => r.notificationId === notification.id)) return;
+
+    const channels = notification.channels ?? this.settings.routes[notification.source];
+    await Promise.all(
+      [...new Set(channels)]
+        .filter(channel => this.settings.channels[channel]?.enabled)
+        .map(channel => this.deliverTo(channel, notification))
+    );
+  }
+
+  /** Send a sample notification through one channel, even when it is switched off */
+  async sendTest(channel: AlertChannelId): Promise<DeliveryStatus> {
+    this.ensureLoaded();
+    return this.deliverTo(channel, {
+      id: `test-${Date.now()}`,
+      source: 'chart',
+      title: 'Test alert',
+      message: `Test notification from ABLE Terminal via ${CHANNEL_LABELS[channel]}`,
+      symbol: 'BTCUSDT',
+      timeframe: '1h',
+      price: 0,
+      timestamp: Date.now(),
+    });
+  }
+
+  // ---- DELIVERY ----
+
+  private async deliverTo(channel: AlertChannelId, notification: AlertNotification): Promise<DeliveryStatus> {
+    if (!this.takeRateLimitSlot(channel)) {
+      const { maxPerWindow, windowMinutes } = this.settings.channels[channel];
+      this.record(channel, notification, 'rate_limited', `Over ${maxPerWindow} per ${windowMinutes} min`);
+      return 'rate_limited';
+    }
+    try {
+      const { status, detail } = await this.send(channel, notification);
+      this.record(channel, notification, status, detail);
+      return status;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[AlertDispatch] ${CHANNEL_LABELS[channel]} delivery failed:`, message);
+      this.record(channel, notification, 'failed', message);
+      return 'failed';
+    }
+  }
+
+  private takeRateLimitSlot(channel: AlertChannelId): boolean {
+    const { maxPerWindow, windowMinutes } = this.settings.channels[channel];
+    const now = Date.now();
+    const recent = (this.recentSends.get(channel) ?? []).filter(t => now - t < windowMinutes * 60_000);
+    if (recent.length >= maxPerWindow) {
+      this.recentSends.set(channel, recent);
+      return false;
+    }
+    recent.push(now);
+    this.recentSends.set(channel, recent);
+    return true;
+  }
+
+  private async send(channel: AlertChannelId, notification: AlertNotification): Promise<SendOutcome> {
+    const { channels } = this.settings;
+    switch (channel) {
+      case 'in_app':
+        toast({
+          title: `🔔 ${notification.title}`,
+          description: notification.message,
+          variant: notification.severity === 'critical' ? 'destructive' : 'default',
+        });
+        return SENT;
+
+      case 'browser':
+        return this.showBrowserNotification(notification);
+
+      case 'webhook':
+        if (!channels.webhook.url) return skipped('No webhook URL');
+        return this.invoke('webhook', notification, {
+          url: channels.webhook.url,
+          body: renderWebhookTemplate(channels.webhook.template, notification),
+        });
+
+      case 'telegram':
+        if (!channels.telegram.chatId) return skipped('No Telegram chat id');
+        return this.invoke('telegram', notification, {
+          botToken: channels.telegram.botToken || undefined,
+          chatId: channels.telegram.chatId,
+        });
+
+      case 'line':
+        if (!channels.line.to) return skipped('No LINE recipient');
+        return this.invoke('line', notification, {
+          channelAccessToken: channels.line.channelAccessToken || undefined,
+          to: channels.line.to,
+        });
+
+      // The function only mails the account's own address
+      case 'email':
+        return this.invoke('email', notification, {});
+    }
+  }
+
+  private async invoke(channel: AlertChannelId, notification: AlertNotification, target: Record<string, unknown>): Promise<SendOutcome> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return skipped('Sign in to deliver through this channel');
+
+    const { data, error } = await supabase.functions.invoke('send-alert-notification', {
+      body: {
+        channel,
+        alert: {
+          title: notification.title,
+          message: notification.message,
+          symbol: notification.symbol,
+          timeframe: notification.timeframe,
+          price: notification.price,
+          source: notification.source,
+          timestamp: notification.timestamp,
+        },
+        target,
+      },
+    });
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data?.demo ? { status: 'sent', detail: 'Simulated (email service not configured)' } : SENT;
+  }
+
+  private serviceWorker(): Promise<ServiceWorkerRegistration | null> {
+    if (!this.registration) {
+      this.registration = 'serviceWorker' in navigator
+        ? navigator.serviceWorker.register(SERVICE_WORKER_URL)
+          .then(() => navigator.serviceWorker.ready)
+          .catch(e => {
+            console.warn('[AlertDispatch] Service worker unavailable, using page notifications:', e);
+            return null;
+          })
+        : Promise.resolve(null);
+    }
+    return this.registration;
+  }
+
+  private async showBrowserNotification(notification: AlertNotification): Promise<SendOutcome> {
+    if (typeof Notification === 'undefined') throw new Error('Notifications are not supported in this browser');
+    if (Notification.permission !== 'granted') throw new Error(`Notification permission ${Notification.permission}`);
+
+    const title = `🔔 ${notification.title}`;
+    const options: NotificationOptions = {
+      body: notification.message,
+      tag: notification.id,
+      data: { url: window.location.href },
+    };
+    const registration = await this.serviceWorker();
+    if (registration) {
+      await registration.showNotification(title, options);
+      return SENT;
+    }
+    new Notification(title, options);
+    return { status: 'sent', detail: 'Page notification (no service worker)' };
+  }
+
+  // ---- PERSISTENCE ----
+
+  private record(channel: AlertChannelId, notification: AlertNotification, status: DeliveryStatus, detail?: string) {
+    const entry: DeliveryRecord = {
+      id: `delivery-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      notificationId: notification.id,
+      source: notification.source,
+      channel,
+      title: notification.title,
+      status,
+      detail,
+      at: Date.now(),
+    };
+    this.log = [entry, ...this.log].slice(0, MAX_LOG);
+    this.saveLog();
+  }
+
+  private saveSettings() {
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (e) {
+      console.error('Failed to save alert delivery settings:', e);
+    }
+    this.notify();
+  }
+
+  private saveLog() {
+    try {
+      localStorage.setItem(LOG_KEY, JSON.stringify(this.log));
+    } catch (e) {
+      console.error('Failed to save alert delivery log:', e);
+    }
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const alertDispatcher = new AlertDispatchService();
+export default alertDispatcher;
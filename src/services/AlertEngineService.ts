@@ -0,0 +1,573 @@
+// ============================================
+// Alert Engine - background alert evaluation
+// Rules live here rather than in a chart, so they keep running with every chart
+// panel closed. Each watched symbol/timeframe gets one bar feed: crypto follows
+// Binance ticker ticks between REST refreshes, everything else is polled through
+// ChartDataService. Rules, settings and the history log persist in localStorage;
+// triggered alerts go out through AlertDispatchService. With several tabs open only
+// the one holding the leader lock watches feeds and fires; the others follow the
+// rules and history through storage events and take over when it closes.
+// ============================================
+
+import { timeframeToMs } from '@/utils/pine/security';
+import {
+  describeCondition,
+  drawingLevel,
+  indicatorScript,
+  isCrossOperator,
+  operatorHolds,
+  percentMove,
+  volumeRatio,
+} from '@/utils/alertRules';
+import type { AlertEngineSettings, AlertEvent, AlertOperator, AlertRule, NewAlertRule } from '@/types/alerts';
+import type { DrawingObject } from '@/components/TradingChart/ABLEChartEngine/types';
+import { binanceWS } from './BinanceWebSocketService';
+import { chartDataService, type ChartSymbol, type OHLCVData, type Timeframe } from './ChartDataService';
+import { chartDrawings } from './ChartDrawingsService';
+import { alertDispatcher } from './AlertDispatchService';
+
+const RULES_KEY = 'able-alert-rules';
+const HISTORY_KEY = 'able-alert-history';
+const SETTINGS_KEY = 'able-alert-settings';
+const MAX_HISTORY = 500;
+const FEED_BARS = 300;
+const POLL_INTERVAL = 60_000;
+const EXPIRY_CHECK_INTERVAL = 15_000;
+/** Pine-based rules re-run at most this often within a bar */
+const SCRIPT_THROTTLE = 5_000;
+const LEADER_LOCK = 'able-alert-engine-leader';
+
+const DEFAULT_SETTINGS: AlertEngineSettings = { soundEnabled: true };
+
+interface Feed {
+  key: string;
+  symbol: ChartSymbol;
+  timeframe: Timeframe;
+  bars: OHLCVData[];
+  pollTimer: ReturnType<typeof setInterval>;
+  unsubscribeTicks: (() => void) | null;
+}
+
+/** Per-rule memory between evaluations; reset whenever the rule changes */
+interface RuleState {
+  prevDiff: number | null;
+  wasActive: boolean;
+  scriptRunning: boolean;
+  scriptRunAt: number;
+  scriptBarTime: number;
+  /** A script that failed waits for the next bar before running again */
+  scriptFailedBar: number | null;
+}
+
+interface DrawingWatch {
+  drawings: DrawingObject[];
+  unsubscribe: () => void;
+}
+
+type Listener = () => void;
+
+const feedKey = (symbol: ChartSymbol, timeframe: Timeframe) => `${symbol.type}:${symbol.symbol}:${timeframe}`;
+
+const isArmed = (rule: AlertRule) => rule.enabled && rule.status === 'active';
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch (e) {
+    console.error(`Failed to load ${key}:`, e);
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to save ${key}:`, e);
+  }
+}
+
+function playBeep() {
+  try {
+    const audio = new AudioContext();
+    const oscillator = audio.createOscillator();
+    const gain = audio.createGain();
+    oscillator.connect(gain);
+    gain.connect(audio.destination);
+    oscillator.frequency.value = 880;
+    gain.gain.value = 0.3;
+    oscillator.start();
+    setTimeout(() => {
+      oscillator.stop();
+      void audio.close();
+    }, 200);
+  } catch {
+    // Audio is unavailable until the page has had a user gesture
+  }
+}
+
+class AlertEngineService {
+  private rules: AlertRule[] = [];
+  private history: AlertEvent[] = [];
+  private settings: AlertEngineSettings = DEFAULT_SETTINGS;
+  private feeds = new Map<string, Feed>();
+  private states = new Map<string, RuleState>();
+  private drawingWatches = new Map<string, DrawingWatch>();
+  private listeners = new Set<Listener>();
+  private expiryTimer: ReturnType<typeof setInterval> | null = null;
+  private started = false;
+  private leader = false;
+  private leaderRequest: AbortController | null = null;
+  private releaseLeader: (() => void) | null = null;
+
+  /** Load saved rules and start watching; safe to call more than once */
+  start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+    this.rules = readJson<AlertRule[]>(RULES_KEY, []);
+    this.history = readJson<AlertEvent[]>(HISTORY_KEY, []);
+    this.settings = { ...DEFAULT_SETTINGS, ...readJson<Partial<AlertEngineSettings>>(SETTINGS_KEY, {}) };
+    window.addEventListener('storage', this.handleStorage);
+    this.claimLeadership();
+  }
+
+  stop(): void {
+    if (!this.started) return;
+    this.started = false;
+    window.removeEventListener('storage', this.handleStorage);
+    this.leaderRequest?.abort();
+    this.leaderRequest = null;
+    this.releaseLeader?.();
+    this.releaseLeader = null;
+    this.stopWatching();
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getRules(): AlertRule[] {
+    return this.rules;
+  }
+
+  getHistory(): AlertEvent[] {
+    return this.history;
+  }
+
+  getSettings(): AlertEngineSettings {
+    return this.settings;
+  }
+
+  // ---- RULES ----
+
+  addRule(input: NewAlertRule): AlertRule {
+    const rule: AlertRule = {
+      ...input,
+      id: `alert-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      message: input.message.trim() || `${input.symbol.symbol} ${describeCondition(input.condition)}`,
+      enabled: true,
+      status: 'active',
+      createdAt: Date.now(),
+      triggerCount: 0,
+      lastTriggeredAt: null,
+      lastTriggeredBar: null,
+    };
+    this.rules = [...this.rules, rule];
+    this.commitRules();
+    return rule;
+  }
+
+  updateRule(id: string, patch: Partial<Omit<AlertRule, 'id' | 'createdAt'>>): void {
+    this.rules = this.rules.map(r => (r.id === id ? { ...r, ...patch } : r));
+    this.states.delete(id);
+    this.commitRules();
+  }
+
+  /** Pause or resume a rule; resuming one that fired or expired re-arms it */
+  setRuleEnabled(id: string, enabled: boolean): void {
+    const rule = this.rules.find(r => r.id === id);
+    if (!rule) return;
+    if (!enabled) {
+      this.updateRule(id, { enabled: false });
+      return;
+    }
+    const expired = rule.expiresAt !== null && rule.expiresAt <= Date.now();
+    this.updateRule(id, { enabled: true, status: 'active', expiresAt: expired ? null : rule.expiresAt });
+  }
+
+  removeRule(id: string): void {
+    this.rules = this.rules.filter(r => r.id !== id);
+    this.states.delete(id);
+    this.commitRules();
+  }
+
+  clearHistory(): void {
+    this.history = [];
+    writeJson(HISTORY_KEY, this.history);
+    this.notify();
+  }
+
+  setSoundEnabled(soundEnabled: boolean): void {
+    this.settings = { ...this.settings, soundEnabled };
+    writeJson(SETTINGS_KEY, this.settings);
+    this.notify();
+  }
+
+  private commitRules() {
+    writeJson(RULES_KEY, this.rules);
+    this.syncWatches();
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private expireRules() {
+    const now = Date.now();
+    if (!this.rules.some(r => isArmed(r) && r.expiresAt !== null && r.expiresAt <= now)) return;
+    this.rules = this.rules.map(r =>
+      isArmed(r) && r.expiresAt !== null && r.expiresAt <= now ? { ...r, enabled: false, status: 'expired' } : r
+    );
+    this.commitRules();
+  }
+
+  // ---- LEADERSHIP ----
+
+  /**
+   * Queue for the leader lock; the browser grants it to one tab at a time and hands it
+   * to the next waiting tab when the holder closes. Without Web Locks, every tab leads.
+   */
+  private claimLeadership() {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    if (!locks) {
+      this.lead();
+      return;
+    }
+    const request = new AbortController();
+    this.leaderRequest = request;
+    locks
+      .request(LEADER_LOCK, { signal: request.signal }, () => {
+        if (!this.started || this.leaderRequest !== request) return;
+        this.lead();
+        // Held until stop() resolves it or the tab goes away
+        return new Promise<void>(resolve => {
+          this.releaseLeader = resolve;
+        });
+      })
+      .catch(error => {
+        if ((error as DOMException)?.name !== 'AbortError') console.warn('[AlertEngine] Leader lock failed:', error);
+      });
+  }
+
+  private lead() {
+    this.leader = true;
+    // Pick up whatever the previous leader last wrote
+    this.rules = readJson<AlertRule[]>(RULES_KEY, []);
+    this.history = readJson<AlertEvent[]>(HISTORY_KEY, []);
+    this.expiryTimer = setInterval(() => this.expireRules(), EXPIRY_CHECK_INTERVAL);
+    this.expireRules();
+    this.syncWatches();
+    this.notify();
+  }
+
+  private stopWatching() {
+    this.leader = false;
+    if (this.expiryTimer) clearInterval(this.expiryTimer);
+    this.expiryTimer = null;
+    [...this.feeds.values()].forEach(feed => this.closeFeed(feed));
+    this.drawingWatches.forEach(watch => watch.unsubscribe());
+    this.drawingWatches.clear();
+    this.states.clear();
+  }
+
+  // Another tab changed the rules or history: pick them up
+  private handleStorage = (e: StorageEvent) => {
+    if (e.key === RULES_KEY) {
+      this.rules = readJson<AlertRule[]>(RULES_KEY, []);
+      this.states.clear();
+      this.syncWatches();
+      this.notify();
+    } else if (e.key === HISTORY_KEY) {
+      this.history = readJson<AlertEvent[]>(HISTORY_KEY, []);
+      this.notify();
+    }
+  };
+
+  // ---- FEEDS ----
+
+  /** Open feeds and drawing subscriptions the armed rules need and close the rest */
+  private syncWatches() {
+    if (!this.started || !this.leader) return;
+    const armed = this.rules.filter(isArmed);
+
+    const wanted = new Map(armed.map(r => [feedKey(r.symbol, r.timeframe), r] as const));
+    wanted.forEach((rule, key) => {
+      if (!this.feeds.has(key)) this.openFeed(key, rule.symbol, rule.timeframe);
+    });
+    [...this.feeds.values()].forEach(feed => {
+      if (!wanted.has(feed.key)) this.closeFeed(feed);
+    });
+
+    const drawingSymbols = new Set(armed.filter(r => r.condition.kind === 'drawing').map(r => r.symbol.symbol));
+    this.drawingWatches.forEach((watch, symbol) => {
+      if (drawingSymbols.has(symbol)) return;
+      watch.unsubscribe();
+      this.drawingWatches.delete(symbol);
+    });
+  }
+
+  private openFeed(key: string, symbol: ChartSymbol, timeframe: Timeframe) {
+    const feed: Feed = {
+      key,
+      symbol,
+      timeframe,
+      bars: [],
+      pollTimer: setInterval(() => void this.refreshFeed(feed), POLL_INTERVAL),
+      unsubscribeTicks: null,
+    };
+    this.feeds.set(key, feed);
+    if (symbol.type === 'crypto') {
+      feed.unsubscribeTicks = binanceWS.subscribeToPrice(symbol.symbol, update => this.applyTick(feed, update.price));
+    }
+    void this.refreshFeed(feed);
+  }
+
+  private closeFeed(feed: Feed) {
+    clearInterval(feed.pollTimer);
+    feed.unsubscribeTicks?.();
+    this.feeds.delete(feed.key);
+  }
+
+  // Live bars only: when the source fails the feed keeps its last bars and skips this round
+  private async refreshFeed(feed: Feed) {
+    try {
+      const bars = await chartDataService.fetchLiveData(feed.symbol, feed.timeframe, FEED_BARS);
+      if (this.feeds.get(feed.key) !== feed || bars.length === 0) return;
+      // Copies: live ticks update the last bar in place, and the fetched bars may be cached
+      const fresh = bars.map(b => ({ ...b }));
+      const live = feed.bars[feed.bars.length - 1];
+      if (live && live.timestamp > fresh[fresh.length - 1].timestamp) fresh.push(live);
+      feed.bars = fresh;
+      this.evaluateFeed(feed);
+    } catch (error) {
+      console.warn(`[AlertEngine] Failed to refresh ${feed.key}:`, error);
+    }
+  }
+
+  /** Fold a ticker price into the live bar, opening a new bar when the period has passed */
+  private applyTick(feed: Feed, price: number) {
+    const last = feed.bars[feed.bars.length - 1];
+    if (!last || !(price > 0)) return;
+    const period = timeframeToMs(feed.timeframe);
+    const now = Date.now();
+    if (period > 0 && now >= last.timestamp + period) {
+      const timestamp = last.timestamp + Math.floor((now - last.timestamp) / period) * period;
+      feed.bars.push({ timestamp, open: price, high: price, low: price, close: price, volume: 0 });
+      if (feed.bars.length > FEED_BARS * 2) feed.bars.splice(0, feed.bars.length - FEED_BARS);
+    } else {
+      last.close = price;
+      last.high = Math.max(last.high, price);
+      last.low = Math.min(last.low, price);
+    }
+    this.evaluateFeed(feed);
+  }
+
+  private drawingsFor(symbol: string): DrawingObject[] {
+    let watch = this.drawingWatches.get(symbol);
+    if (!watch) {
+      const created: DrawingWatch = {
+        drawings: chartDrawings.load(symbol),
+        unsubscribe: chartDrawings.subscribe(symbol, drawings => {
+          created.drawings = drawings;
+        }),
+      };
+      this.drawingWatches.set(symbol, created);
+      watch = created;
+    }
+    return watch.drawings;
+  }
+
+  // ---- EVALUATION ----
+
+  private stateFor(id: string): RuleState {
+    let state = this.states.get(id);
+    if (!state) {
+      state = { prevDiff: null, wasActive: false, scriptRunning: false, scriptRunAt: 0, scriptBarTime: 0, scriptFailedBar: null };
+      this.states.set(id, state);
+    }
+    return state;
+  }
+
+  private evaluateFeed(feed: Feed) {
+    if (feed.bars.length === 0) return;
+    const now = Date.now();
+    this.rules.forEach(rule => {
+      if (!isArmed(rule) || feedKey(rule.symbol, rule.timeframe) !== feed.key) return;
+      if (rule.expiresAt !== null && rule.expiresAt <= now) return;
+      this.evaluateRule(rule, feed);
+    });
+  }
+
+  private evaluateRule(rule: AlertRule, feed: Feed) {
+    const state = this.stateFor(rule.id);
+    const { bars } = feed;
+    const last = bars[bars.length - 1];
+    const { condition } = rule;
+
+    switch (condition.kind) {
+      case 'price':
+        this.compare(rule, state, feed, condition.operator, last.close - condition.value, last.close);
+        break;
+      case 'drawing': {
+        const drawing = this.drawingsFor(rule.symbol.symbol).find(d => d.id === condition.drawingId);
+        const level = drawing ? drawingLevel(drawing, bars, bars.length - 1) : null;
+        if (level === null) {
+          // Deleted, or past the end of a trendline segment
+          state.prevDiff = null;
+          state.wasActive = false;
+          break;
+        }
+        this.compare(rule, state, feed, condition.operator, last.close - level, level);
+        break;
+      }
+      case 'percent_move': {
+        const move = percentMove(bars, condition.bars);
+        if (move !== null) this.settle(rule, state, feed, Math.abs(move) >= condition.percent, false, move);
+        break;
+      }
+      case 'volume_spike': {
+        const ratio = volumeRatio(bars, condition.length);
+        if (ratio !== null) this.settle(rule, state, feed, ratio >= condition.multiplier, false, ratio);
+        break;
+      }
+      case 'indicator':
+      case 'pine':
+        void this.evaluateScript(rule, state, feed);
+        break;
+    }
+  }
+
+  private compare(rule: AlertRule, state: RuleState, feed: Feed, operator: AlertOperator, diff: number, value: number) {
+    const active = operatorHolds(operator, state.prevDiff, diff);
+    state.prevDiff = diff;
+    this.settle(rule, state, feed, active, isCrossOperator(operator), value);
+  }
+
+  /** Apply the rule's frequency to the condition's current truth */
+  private settle(rule: AlertRule, state: RuleState, feed: Feed, active: boolean, isCross: boolean, value: number | null) {
+    const rising = active && (isCross || !state.wasActive);
+    state.wasActive = active;
+    if (!active) return;
+
+    const barTime = feed.bars[feed.bars.length - 1].timestamp;
+    const shouldFire =
+      rule.frequency === 'once' ||
+      (rule.frequency === 'once_per_bar' && rule.lastTriggeredBar !== barTime) ||
+      (rule.frequency === 'every_time' && rising);
+    if (shouldFire) this.fire(rule.id, feed, value);
+  }
+
+  /** Indicator and Pine rules run a script over the feed's bars, throttled within a bar */
+  private async evaluateScript(rule: AlertRule, state: RuleState, feed: Feed) {
+    const bars = feed.bars.map(b => ({ ...b }));
+    const barTime = bars[bars.length - 1].timestamp;
+    if (state.scriptRunning || state.scriptFailedBar === barTime) return;
+    if (barTime === state.scriptBarTime && Date.now() - state.scriptRunAt < SCRIPT_THROTTLE) return;
+
+    state.scriptRunning = true;
+    state.scriptRunAt = Date.now();
+    state.scriptBarTime = barTime;
+    const { condition } = rule;
+    try {
+      const { PineScriptRunner } = await import('@/utils/PineScriptRunner');
+      const code = condition.kind === 'indicator' ? indicatorScript(condition.expression) : condition.kind === 'pine' ? condition.code : '';
+      const output = await PineScriptRunner.run(code, bars, {
+        symbol: rule.symbol.symbol,
+        timeframe: rule.timeframe,
+        inputs: condition.kind === 'pine' ? condition.inputValues : undefined,
+        dataProvider: request => chartDataService.fetchSecurityBars(request.symbol, request.timeframe),
+      });
+
+      // The rule may have been edited, paused or removed while the script ran
+      const current = this.rules.find(r => r.id === rule.id);
+      if (!current || !isArmed(current) || this.states.get(rule.id) !== state) return;
+
+      if (condition.kind === 'indicator') {
+        const value = output.results[0]?.values[bars.length - 1];
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          state.prevDiff = null;
+          return;
+        }
+        this.compare(current, state, feed, condition.operator, value - condition.value, value);
+      } else if (condition.kind === 'pine') {
+        const alert = output.alertConditions.find(c => c.title === condition.conditionTitle);
+        this.settle(current, state, feed, alert?.fired[bars.length - 1] === true, false, null);
+      }
+    } catch (error) {
+      state.scriptFailedBar = barTime;
+      console.warn(`[AlertEngine] Script for alert "${rule.message}" failed:`, error);
+    } finally {
+      state.scriptRunning = false;
+    }
+  }
+
+  private fire(id: string, feed: Feed, value: number | null) {
+    const rule = this.rules.find(r => r.id === id);
+    if (!rule) return;
+    const last = feed.bars[feed.bars.length - 1];
+    const now = Date.now();
+
+    const event: AlertEvent = {
+      id: `alert-event-${now}-${Math.random().toString(36).slice(2, 7)}`,
+      ruleId: rule.id,
+      symbol: rule.symbol.symbol,
+      timeframe: rule.timeframe,
+      message: rule.message,
+      price: last.close,
+      value,
+      barTime: last.timestamp,
+      triggeredAt: now,
+    };
+    this.history = [event, ...this.history].slice(0, MAX_HISTORY);
+    writeJson(HISTORY_KEY, this.history);
+
+    const disarm = rule.frequency === 'once';
+    this.rules = this.rules.map(r =>
+      r.id === id
+        ? {
+            ...r,
+            triggerCount: r.triggerCount + 1,
+            lastTriggeredAt: now,
+            lastTriggeredBar: last.timestamp,
+            ...(disarm ? { enabled: false, status: 'triggered' as const } : {}),
+          }
+        : r
+    );
+    this.commitRules();
+    this.deliver(event, rule);
+  }
+
+  private deliver(event: AlertEvent, rule: AlertRule) {
+    void alertDispatcher.dispatch({
+      id: event.id,
+      source: 'chart',
+      title: `${event.symbol} · ${event.timeframe}`,
+      message: event.message,
+      symbol: event.symbol,
+      timeframe: event.timeframe,
+      price: event.price,
+      value: event.value,
+      timestamp: event.triggeredAt,
+      channels: rule.channels,
+    });
+    if (this.settings.soundEnabled) playBeep();
+  }
+}
+
+export const alertEngine = new AlertEngineService();
+export default alertEngine;
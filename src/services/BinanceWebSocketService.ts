@@ -18,8 +18,19 @@ interface KlineUpdate {
   isFinal: boolean;
 }
 
+interface TradeUpdate {
+  symbol: string;
+  tradeId: number;
+  price: number;
+  quantity: number;
+  timestamp: number;
+  /** true = seller was the aggressor (trade hit the bid) */
+  isBuyerMaker: boolean;
+}
+
 type PriceCallback = (update: PriceUpdate) => void;
 type KlineCallback = (update: KlineUpdate) => void;
+type TradeCallback = (update: TradeUpdate) => void;
 type StatusCallback = (connected: boolean) => void;
 
 class BinanceWebSocketService {
@@ -27,6 +38,7 @@ class BinanceWebSocketService {
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private priceSubscribers: Map<string, Set<PriceCallback>> = new Map();
   private klineSubscribers: Map<string, Set<KlineCallback>> = new Map();
+  private tradeSubscribers: Map<string, Set<TradeCallback>> = new Map();
   private statusSubscribers: Set<StatusCallback> = new Set();
   private subscribedSymbols: Set<string> = new Set();
   private subscribedKlines: Map<string, string> = new Map(); // symbol -> interval
@@ -98,6 +110,11 @@ class BinanceWebSocketService {
     this.subscribedKlines.forEach((interval, symbol) => {
       streams.push(`${symbol.toLowerCase()}@kline_${interval}`);
     });
+
+    // Add aggregated trade streams
+    this.tradeSubscribers.forEach((_, symbol) => {
+      streams.push(`${symbol.toLowerCase()}@aggTrade`);
+    });
     
     if (streams.length === 0) {
       // Default: subscribe to top cryptos
@@ -186,6 +203,19 @@ class BinanceWebSocketService {
         kline,
         isFinal: k.x,
       });
+    } else if (stream.endsWith('@aggTrade')) {
+      // Aggregated trade
+      const subscribers = this.tradeSubscribers.get(payload.s);
+      if (!subscribers) return;
+      const trade: TradeUpdate = {
+        symbol: payload.s,
+        tradeId: payload.a,
+        price: parseFloat(payload.p),
+        quantity: parseFloat(payload.q),
+        timestamp: payload.T,
+        isBuyerMaker: payload.m,
+      };
+      subscribers.forEach(callback => callback(trade));
     }
   }
   
@@ -229,7 +259,7 @@ class BinanceWebSocketService {
     
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = null;
-      if (this.subscribedSymbols.size > 0 || this.subscribedKlines.size > 0) {
+      if (this.subscribedSymbols.size > 0 || this.subscribedKlines.size > 0 || this.tradeSubscribers.size > 0) {
         this.connect();
       }
     }, delay);
@@ -287,6 +317,52 @@ class BinanceWebSocketService {
     };
   }
   
+  // Subscribe to aggregated trades (one event per taker order)
+  subscribeToTrades(symbol: string, callback: TradeCallback): () => void {
+    const key = symbol.toUpperCase();
+    const isNewStream = !this.tradeSubscribers.has(key);
+    if (isNewStream) {
+      this.tradeSubscribers.set(key, new Set());
+    }
+    this.tradeSubscribers.get(key)!.add(callback);
+
+    if (isNewStream) this.reconnectWithNewStreams();
+
+    return () => {
+      const subs = this.tradeSubscribers.get(key);
+      if (subs) {
+        subs.delete(callback);
+        if (subs.size === 0) {
+          this.tradeSubscribers.delete(key);
+        }
+      }
+    };
+  }
+
+  // Recent aggregated trades over REST (backfills what the stream has not delivered yet)
+  async fetchRecentTrades(symbol: string, startTime?: number, limit: number = 1000): Promise<TradeUpdate[]> {
+    const key = symbol.toUpperCase();
+    try {
+      let url = `https://api.binance.com/api/v3/aggTrades?symbol=${key}&limit=${Math.min(limit, 1000)}`;
+      if (startTime) url += `&startTime=${startTime}`;
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`aggTrades ${response.status}`);
+
+      const data = await response.json();
+      return data.map((t: any) => ({
+        symbol: key,
+        tradeId: t.a,
+        price: parseFloat(t.p),
+        quantity: parseFloat(t.q),
+        timestamp: t.T,
+        isBuyerMaker: t.m,
+      }));
+    } catch (error) {
+      console.error('[Binance] Failed to fetch aggTrades:', error);
+      return [];
+    }
+  }
+
   // Subscribe to connection status
   subscribeToStatus(callback: StatusCallback): () => void {
     this.statusSubscribers.add(callback);
@@ -339,4 +415,4 @@ class BinanceWebSocketService {
 }
 
 export const binanceWS = new BinanceWebSocketService();
-export type { PriceUpdate, KlineUpdate };
+export type { PriceUpdate, KlineUpdate, TradeUpdate };
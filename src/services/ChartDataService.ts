@@ -1,5 +1,12 @@
 // Chart Data Service - Universal Real-Time OHLCV Data for ALL Asset Classes
 import { supabase } from '@/integrations/supabase/client';
+import { baseTimeframeFor, normalizeSymbol, resampleBars, timeframeToMs, toPineTimeframe } from '@/utils/pine/security';
+import { applyBarType, BarTypeConfig } from '@/utils/barTypes';
+import { binanceWS } from './BinanceWebSocketService';
+import { CacheSource, findGaps, ohlcvCache, seriesKey } from './OHLCVCacheService';
+
+export type { BarType, BarTypeConfig } from '@/utils/barTypes';
+export { BAR_TYPE_LABELS, DEFAULT_BAR_TYPE_CONFIG, isTimeBasedBarType } from '@/utils/barTypes';
 
 export interface OHLCVData {
   timestamp: number;
@@ -17,9 +24,34 @@ export interface ChartSymbol {
   type: 'crypto' | 'stock' | 'forex' | 'futures' | 'bond' | 'index' | 'commodity' | 'set';
 }
 
-export type Timeframe = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1D' | '1W' | '1M';
+export type PresetTimeframe = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1D' | '1W' | '1M';
+
+/** A preset or any custom interval: minutes 'm', hours 'h', days 'D', weeks 'W', months 'M' ('3m', '45m', '2h', '3D') */
+export type Timeframe = PresetTimeframe | `${number}${'m' | 'h' | 'D' | 'W' | 'M'}`;
+
+export const PRESET_TIMEFRAMES: PresetTimeframe[] = ['1m', '5m', '15m', '30m', '1h', '4h', '1D', '1W', '1M'];
+
+// Intervals Binance serves directly; anything else is resampled from the coarsest one that divides it
+const BINANCE_TIMEFRAMES: Timeframe[] = ['1m', '3m', '5m', '15m', '30m', '1h', '2h', '4h', '6h', '8h', '12h', '1D', '3D', '1W', '1M'];
+
+const MAX_RESAMPLE_SOURCE_BARS = 3000;
+// Binance requests one gap backfill may make before giving up until the next load
+const MAX_BACKFILL_REQUESTS = 10;
+
+/** Parse user input ('3m', '2H', '3d', '1w') into a Timeframe, or null when it isn't one */
+export const parseTimeframe = (input: string): Timeframe | null => {
+  const match = input.trim().match(/^(\d+)\s*([mhHdDwWM])$/);
+  if (!match) return null;
+  const count = parseInt(match[1], 10);
+  if (!(count > 0)) return null;
+  const unit = match[2] === 'M' ? 'M' : match[2] === 'm' ? 'm' : match[2].toLowerCase() === 'h' ? 'h' : match[2].toUpperCase();
+  return `${count}${unit}` as Timeframe;
+};
+
+export const isPresetTimeframe = (timeframe: string): timeframe is PresetTimeframe =>
+  (PRESET_TIMEFRAMES as string[]).includes(timeframe);
 
-const TIMEFRAME_MS: Record<Timeframe, number> = {
+const TIMEFRAME_MS: Record<PresetTimeframe, number> = {
   '1m': 60 * 1000,
   '5m': 5 * 60 * 1000,
   '15m': 15 * 60 * 1000,
@@ -74,6 +106,9 @@ class ChartDataService {
   private allCryptoSymbols: ChartSymbol[] = [];
   private symbolsLoaded = false;
   private screenerCache: Map<string, { results: ChartSymbol[]; timestamp: number }> = new Map();
+  private backfilling = new Set<string>();
+  // Gaps Binance itself has no bars for (exchange downtime); not retried this session
+  private unfillableGaps = new Set<string>();
 
   // Load all crypto symbols from Binance
   async loadAllCryptoSymbols(): Promise<ChartSymbol[]> {
@@ -292,12 +327,19 @@ class ChartDataService {
 
   // Fetch crypto data from Binance (real-time, free, no key)
   // Supports fetching up to 3000 candles via pagination for deep history
-  async fetchCryptoData(symbol: string, timeframe: Timeframe, limit: number = 1000): Promise<OHLCVData[]> {
+  // strict: throw on failure instead of falling back to offline or mock bars
+  async fetchCryptoData(symbol: string, timeframe: Timeframe, limit: number = 1000, strict: boolean = false): Promise<OHLCVData[]> {
+    const interval = this.binanceInterval(timeframe);
+    if (!interval) {
+      return this.fetchResampled(timeframe, limit, BINANCE_TIMEFRAMES, (base, baseLimit) =>
+        this.fetchCryptoData(symbol, base, baseLimit, strict)
+      );
+    }
+
     const cacheKey = `crypto:${symbol}:${timeframe}:${limit}`;
     const cached = this.getFromCache(cacheKey);
     if (cached) return cached;
     try {
-      const interval = this.binanceInterval(timeframe);
       const totalLimit = Math.min(limit, 3000);
       const pages = Math.ceil(totalLimit / 1000);
       let allData: OHLCVData[] = [];
@@ -337,15 +379,28 @@ class ChartDataService {
 
       this.setCache(cacheKey, allData);
       console.log(`[ChartData] ✅ ${allData.length} candles for ${symbol} (${timeframe}) via Binance`);
+      void ohlcvCache.merge('crypto', symbol, timeframe, allData).then(() => this.backfillGaps(symbol, timeframe));
       return allData;
     } catch (error) {
       console.error('Crypto fetch error:', error);
+      if (strict) throw error;
+      const offline = await ohlcvCache.read('crypto', symbol, timeframe);
+      if (offline && offline.length > 0) {
+        console.log(`[ChartData] 📦 Offline: ${offline.length} cached candles for ${symbol} (${timeframe})`);
+        return offline.slice(-limit);
+      }
       return this.generateMockData(symbol, timeframe, limit);
     }
   }
 
   // Fetch ANY Yahoo Finance symbol — real OHLCV data for stocks, forex, commodities, indices, futures, bonds
-  async fetchYahooOHLCV(symbol: string, timeframe: Timeframe, limit: number = 500): Promise<OHLCVData[]> {
+  async fetchYahooOHLCV(symbol: string, timeframe: Timeframe, limit: number = 500, strict: boolean = false): Promise<OHLCVData[]> {
+    if (!isPresetTimeframe(timeframe)) {
+      return this.fetchResampled(timeframe, limit, PRESET_TIMEFRAMES, (base, baseLimit) =>
+        this.fetchYahooOHLCV(symbol, base, baseLimit, strict)
+      );
+    }
+
     const cacheKey = `yahoo:${symbol}:${timeframe}`;
     const cached = this.getFromCache(cacheKey);
     if (cached) return cached;
@@ -386,6 +441,7 @@ class ChartDataService {
         if (ohlcv.length > 0) {
           this.setCache(cacheKey, ohlcv);
           console.log(`[ChartData] ✅ ${ohlcv.length} candles for ${symbol} (${timeframe}) via Yahoo`);
+          void ohlcvCache.merge('yahoo', symbol, timeframe, ohlcv);
           return ohlcv.slice(-limit);
         }
       }
@@ -409,6 +465,12 @@ class ChartDataService {
       throw new Error('No usable data from proxy');
     } catch (error) {
       console.warn(`[ChartData] Yahoo fetch failed for ${symbol}:`, error);
+      if (strict) throw error;
+      const offline = await ohlcvCache.read('yahoo', symbol, timeframe);
+      if (offline && offline.length > 0) {
+        console.log(`[ChartData] 📦 Offline: ${offline.length} cached candles for ${symbol} (${timeframe})`);
+        return offline.slice(-limit);
+      }
       return this.generateMockData(symbol, timeframe, limit);
     }
   }
@@ -431,11 +493,141 @@ class ChartDataService {
     }
   }
 
+  /**
+   * Live bars only: rejects when the source fails instead of serving offline or generated
+   * bars, for callers that act on prices (alerts) rather than just drawing them.
+   */
+  async fetchLiveData(symbol: ChartSymbol, timeframe: Timeframe, limit: number = 500): Promise<OHLCVData[]> {
+    return symbol.type === 'crypto'
+      ? this.fetchCryptoData(symbol.symbol, timeframe, limit, true)
+      : this.fetchYahooOHLCV(symbol.symbol, timeframe, limit, true);
+  }
+
+  /**
+   * Bars already on disk for a symbol/timeframe, resampled from a cached source timeframe
+   * for custom intervals. Resolves quickly, so charts can draw before fetchData() returns.
+   */
+  async getCachedData(symbol: ChartSymbol, timeframe: Timeframe, limit: number = 500): Promise<OHLCVData[]> {
+    const source: CacheSource = symbol.type === 'crypto' ? 'crypto' : 'yahoo';
+    const native = source === 'crypto' ? !!this.binanceInterval(timeframe) : isPresetTimeframe(timeframe);
+    if (native) return (await ohlcvCache.read(source, symbol.symbol, timeframe))?.slice(-limit) ?? [];
+
+    const period = toPineTimeframe(timeframe);
+    const base = baseTimeframeFor(period, source === 'crypto' ? BINANCE_TIMEFRAMES : PRESET_TIMEFRAMES);
+    if (!base) return [];
+    const baseData = await ohlcvCache.read(source, symbol.symbol, base);
+    return baseData ? resampleBars(baseData, period).slice(-limit) : [];
+  }
+
+  /**
+   * Fill holes in a cached Binance series (e.g. the stretch between the last session
+   * and now) by paging fetchOlderCryptoData backwards from the bar after each gap.
+   * Returns the number of bars added.
+   */
+  async backfillGaps(symbol: string, timeframe: Timeframe): Promise<number> {
+    const key = seriesKey('crypto', symbol, timeframe);
+    if (!this.binanceInterval(timeframe) || this.backfilling.has(key)) return 0;
+    this.backfilling.add(key);
+    let added = 0;
+    try {
+      const cached = await ohlcvCache.read('crypto', symbol, timeframe);
+      if (!cached) return 0;
+      const gaps = findGaps(cached, timeframeToMs(timeframe))
+        .filter(gap => !this.unfillableGaps.has(`${key}:${gap.after}`))
+        .reverse(); // newest first: those are the bars a chart shows
+      let requests = 0;
+
+      for (const gap of gaps) {
+        let before = gap.before;
+        let remaining = gap.missingBars;
+        while (remaining > 0 && requests < MAX_BACKFILL_REQUESTS) {
+          requests++;
+          const older = await this.fetchOlderCryptoData(symbol, timeframe, before, Math.min(1000, remaining));
+          const inGap = older.filter(bar => bar.timestamp > gap.after);
+          added += inGap.length;
+          remaining -= inGap.length;
+          if (older.length === 0 || inGap.length < older.length) break;
+          before = older[0].timestamp;
+        }
+        if (remaining > 0 && requests < MAX_BACKFILL_REQUESTS) this.unfillableGaps.add(`${key}:${gap.after}`);
+        if (requests >= MAX_BACKFILL_REQUESTS) break;
+      }
+      if (added > 0) console.log(`[ChartData] 🩹 Backfilled ${added} candles for ${symbol} (${timeframe})`);
+    } catch (error) {
+      console.warn('[ChartData] Gap backfill failed:', error);
+    } finally {
+      this.backfilling.delete(key);
+    }
+    return added;
+  }
+
+  /**
+   * Persist closed live klines for a Binance symbol so the cache stays current while
+   * a chart is open. Custom timeframes store their source interval.
+   */
+  cacheLiveKlines(symbol: string, timeframe: Timeframe): () => void {
+    const streamTimeframe = this.streamTimeframe(timeframe);
+    return binanceWS.subscribeToKline(symbol, this.binanceStreamInterval(timeframe), update => {
+      if (update.isFinal) ohlcvCache.append('crypto', symbol, streamTimeframe, update.kline);
+    });
+  }
+
+  // Custom timeframes: fetch the coarsest source timeframe that divides it evenly, then resample
+  private async fetchResampled(
+    timeframe: Timeframe,
+    limit: number,
+    sources: readonly Timeframe[],
+    fetchBase: (base: Timeframe, baseLimit: number) => Promise<OHLCVData[]>
+  ): Promise<OHLCVData[]> {
+    const period = toPineTimeframe(timeframe);
+    const base = baseTimeframeFor(period, sources);
+    if (!base) {
+      console.warn(`[ChartData] No source timeframe builds ${timeframe}`);
+      return [];
+    }
+    const ratio = Math.max(1, Math.round(timeframeToMs(period) / timeframeToMs(base)));
+    const baseData = await fetchBase(base, Math.min(limit * ratio, MAX_RESAMPLE_SOURCE_BARS));
+    return resampleBars(baseData, period).slice(-limit);
+  }
+
+  /** Derived bar types (Heikin-Ashi, Renko, range, Kagi, line break) from regular bars */
+  applyBarType(data: OHLCVData[], config?: Partial<BarTypeConfig> | null): OHLCVData[] {
+    return applyBarType(data, config);
+  }
+
+  // 'BINANCE:BTCUSDT' / 'SET:PTT' / 'AAPL' → a chart symbol, preferring the built-in list
+  resolveTicker(ticker: string): ChartSymbol {
+    const exchange = ticker.includes(':') ? ticker.split(':')[0].toUpperCase() : '';
+    let bare = normalizeSymbol(ticker);
+    if (exchange === 'SET' && !bare.endsWith('.BK')) bare = `${bare}.BK`;
+
+    const known = this.getSymbolsList().find(s => s.symbol.toUpperCase() === bare);
+    return known ?? {
+      symbol: bare,
+      name: bare,
+      exchange: exchange || 'Unknown',
+      type: exchange === 'BINANCE' || /USDT$/.test(bare) ? 'crypto' : 'stock',
+    };
+  }
+
+  // Bars for a Pine request.security() call: 'BINANCE:BTCUSDT' / 'NASDAQ:AAPL' tickers and Pine
+  // timeframes ('60', '240', 'D', '3D'). Timeframes we can't fetch directly are built from the
+  // coarsest native one that divides them. Null when the ticker can't be fetched, never mock bars.
+  async fetchSecurityBars(ticker: string, timeframe: string, limit: number = 1000): Promise<OHLCVData[] | null> {
+    const symbol = this.resolveTicker(ticker);
+    const period = toPineTimeframe(timeframe);
+    const base = baseTimeframeFor(period, Object.keys(TIMEFRAME_MS) as Timeframe[]);
+    if (!base) return null;
+    const data = await this.fetchLiveData(symbol, base, limit).catch(() => [] as OHLCVData[]);
+    if (data.length === 0) return null;
+    return toPineTimeframe(base) === period ? data : resampleBars(data, period);
+  }
+
   // Generate realistic mock OHLCV data (fallback only)
   generateMockData(symbol: string, timeframe: Timeframe, limit: number): OHLCVData[] {
     const data: OHLCVData[] = [];
     const now = Date.now();
-    const tfMs = TIMEFRAME_MS[timeframe];
+    const tfMs = timeframeToMs(timeframe) || TIMEFRAME_MS['1h'];
 
     let basePrice = 100;
     if (symbol.includes('BTC')) basePrice = 95000;
@@ -473,22 +665,35 @@ class ChartDataService {
   }
 
   // Helpers
-  private binanceInterval(tf: Timeframe): string {
-    const map: Record<Timeframe, string> = {
-      '1m': '1m', '5m': '5m', '15m': '15m', '30m': '30m',
-      '1h': '1h', '4h': '4h', '1D': '1d', '1W': '1w', '1M': '1M',
-    };
-    return map[tf];
+
+  /** Binance kline interval for a timeframe, or null when Binance doesn't serve it natively */
+  binanceInterval(tf: Timeframe): string | null {
+    if (!BINANCE_TIMEFRAMES.includes(tf)) return null;
+    return tf.endsWith('D') || tf.endsWith('W') ? tf.toLowerCase() : tf;
+  }
+
+  /**
+   * Interval to stream live klines from for a timeframe: itself when native,
+   * otherwise the source interval it is resampled from
+   */
+  binanceStreamInterval(tf: Timeframe): string {
+    return this.binanceInterval(this.streamTimeframe(tf)) || '1m';
   }
-  private yahooInterval(tf: Timeframe): string {
-    const map: Record<Timeframe, string> = {
+
+  private streamTimeframe(tf: Timeframe): Timeframe {
+    if (this.binanceInterval(tf)) return tf;
+    return baseTimeframeFor(toPineTimeframe(tf), BINANCE_TIMEFRAMES) || '1m';
+  }
+
+  private yahooInterval(tf: PresetTimeframe): string {
+    const map: Record<PresetTimeframe, string> = {
       '1m': '1m', '5m': '5m', '15m': '15m', '30m': '30m',
       '1h': '1h', '4h': '1h', '1D': '1d', '1W': '1wk', '1M': '1mo',
     };
     return map[tf];
   }
-  private yahooRange(tf: Timeframe): string {
-    const map: Record<Timeframe, string> = {
+  private yahooRange(tf: PresetTimeframe): string {
+    const map: Record<PresetTimeframe, string> = {
       '1m': '1d', '5m': '5d', '15m': '5d', '30m': '1mo',
       '1h': '1mo', '4h': '3mo', '1D': '1y', '1W': '5y', '1M': '10y',
     };
@@ -505,9 +710,20 @@ class ChartDataService {
 
   // Fetch older crypto candles before a given timestamp (for infinite scroll-back)
   async fetchOlderCryptoData(symbol: string, timeframe: Timeframe, beforeTimestamp: number, limit: number = 1000): Promise<OHLCVData[]> {
+    const interval = this.binanceInterval(timeframe);
+    if (!interval) {
+      // Resampled timeframe: page the source interval, keep only whole buckets before the cutoff
+      const older = await this.fetchResampled(timeframe, limit, BINANCE_TIMEFRAMES, (base, baseLimit) =>
+        this.fetchOlderCryptoData(symbol, base, beforeTimestamp, Math.min(baseLimit, 1000))
+      );
+      return older.filter(bar => bar.timestamp < beforeTimestamp);
+    }
+
+    const effectiveLimit = Math.min(limit, 1000);
+    const cached = await this.cachedBarsBefore(symbol, timeframe, beforeTimestamp);
+    if (cached.length >= effectiveLimit) return cached.slice(-effectiveLimit);
+
     try {
-      const interval = this.binanceInterval(timeframe);
-      const effectiveLimit = Math.min(limit, 1000);
       const response = await fetch(
         `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=${interval}&limit=${effectiveLimit}&endTime=${beforeTimestamp - 1}`
       );
@@ -523,12 +739,25 @@ class ChartDataService {
         volume: parseFloat(k[5]),
       }));
       console.log(`[ChartData] ✅ Loaded ${ohlcv.length} older candles for ${symbol} before ${new Date(beforeTimestamp).toISOString()}`);
+      await ohlcvCache.merge('crypto', symbol, timeframe, ohlcv);
       return ohlcv;
     } catch (error) {
       console.error('Older crypto fetch error:', error);
-      return [];
+      return cached;
     }
   }
+
+  // Cached bars ending right at `before` with no holes; empty when the cache can't answer
+  private async cachedBarsBefore(symbol: string, timeframe: Timeframe, before: number): Promise<OHLCVData[]> {
+    const cached = await ohlcvCache.read('crypto', symbol, timeframe);
+    if (!cached) return [];
+    const periodMs = timeframeToMs(timeframe);
+    const older = cached.filter(bar => bar.timestamp < before);
+    const last = older[older.length - 1];
+    if (!last || before - last.timestamp > periodMs * 1.5) return [];
+    const gaps = findGaps(older, periodMs);
+    return gaps.length > 0 ? older.filter(bar => bar.timestamp >= gaps[gaps.length - 1].before) : older;
+  }
 }
 
 export const chartDataService = new ChartDataService();
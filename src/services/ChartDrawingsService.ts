@@ -0,0 +1,215 @@
+// ============================================
+// Chart Drawings - per-symbol drawing persistence
+// localStorage cache, synced to Supabase when signed in. Each account, and
+// signed-out use, keeps its own cache; signed-out drawings never sync. Every
+// chart pane showing a symbol subscribes here, so an edit in one pane (or
+// browser tab) appears in the others.
+// ============================================
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { DrawingObject } from '@/components/TradingChart/ABLEChartEngine/types';
+
+interface StoredDrawings {
+  drawings: DrawingObject[];
+  updatedAt: number;
+}
+
+/** `sourceId` is the pane that made the change, or null for cloud/other-tab updates */
+export type DrawingsListener = (drawings: DrawingObject[], sourceId: string | null) => void;
+
+const STORAGE_KEY = 'able-chart-drawings';
+const CLOUD_SAVE_DELAY = 1500;
+
+const normalizeSymbol = (symbol: string) => symbol.trim().toUpperCase();
+
+/** Selection is view state; only finished drawings are stored */
+const toStored = (drawings: DrawingObject[]): DrawingObject[] =>
+  drawings.filter(d => d.isComplete).map(({ selected: _selected, ...rest }) => rest);
+
+class ChartDrawingsService {
+  private cache: Record<string, StoredDrawings> | null = null;
+  /** Account whose drawings are loaded; null for signed-out use */
+  private userId: string | null = null;
+  private listeners = new Map<string, Set<DrawingsListener>>();
+  private pendingCloudSaves = new Map<string, ReturnType<typeof setTimeout>>();
+  private cloudChecked = new Set<string>();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', this.handleStorage);
+    }
+    supabase.auth.onAuthStateChange((_event, session) => {
+      // Deferred: supabase calls made inside this callback wait on the auth lock
+      setTimeout(() => this.setUser(session?.user?.id ?? null), 0);
+    });
+  }
+
+  /** Switch to the drawings of another account (or of signed-out use) */
+  private setUser(userId: string | null): void {
+    if (userId === this.userId) return;
+    // Saves still queued belong to the previous account's drawings
+    this.pendingCloudSaves.forEach(timer => clearTimeout(timer));
+    this.pendingCloudSaves.clear();
+    this.cloudChecked.clear();
+    this.userId = userId;
+    this.cache = null;
+    const local = this.readLocal();
+    this.listeners.forEach((_, key) => {
+      this.notify(key, local[key]?.drawings ?? [], null);
+      void this.syncFromCloud(key);
+    });
+  }
+
+  /** Returns the local copy now; a newer cloud copy is pushed to subscribers when it arrives */
+  load(symbol: string): DrawingObject[] {
+    const key = normalizeSymbol(symbol);
+    void this.syncFromCloud(key);
+    return this.readLocal()[key]?.drawings ?? [];
+  }
+
+  save(symbol: string, drawings: DrawingObject[], sourceId: string | null = null): void {
+    const key = normalizeSymbol(symbol);
+    const entry: StoredDrawings = { drawings: toStored(drawings), updatedAt: Date.now() };
+    this.writeLocal(key, entry);
+    this.notify(key, entry.drawings, sourceId);
+    this.scheduleCloudSave(key);
+  }
+
+  clear(symbol: string): void {
+    this.save(symbol, []);
+  }
+
+  subscribe(symbol: string, listener: DrawingsListener): () => void {
+    const key = normalizeSymbol(symbol);
+    if (!this.listeners.has(key)) this.listeners.set(key, new Set());
+    this.listeners.get(key)!.add(listener);
+    return () => {
+      this.listeners.get(key)?.delete(listener);
+    };
+  }
+
+  // ---- LOCAL ----
+
+  private storageKey(): string {
+    return this.userId ? `${STORAGE_KEY}:${this.userId}` : STORAGE_KEY;
+  }
+
+  private readLocal(): Record<string, StoredDrawings> {
+    if (this.cache) return this.cache;
+    try {
+      const saved = localStorage.getItem(this.storageKey());
+      this.cache = saved ? JSON.parse(saved) : {};
+    } catch (e) {
+      console.error('Failed to load chart drawings:', e);
+      this.cache = {};
+    }
+    return this.cache!;
+  }
+
+  private writeLocal(key: string, entry: StoredDrawings) {
+    const all = { ...this.readLocal(), [key]: entry };
+    this.cache = all;
+    try {
+      localStorage.setItem(this.storageKey(), JSON.stringify(all));
+    } catch (e) {
+      console.error('Failed to save chart drawings:', e);
+    }
+  }
+
+  private notify(key: string, drawings: DrawingObject[], sourceId: string | null) {
+    this.listeners.get(key)?.forEach(listener => listener(drawings, sourceId));
+  }
+
+  // Another tab wrote drawings: reload and push the symbols that changed
+  private handleStorage = (e: StorageEvent) => {
+    if (e.key !== this.storageKey()) return;
+    const previous = this.cache ?? {};
+    this.cache = null;
+    const current = this.readLocal();
+    this.listeners.forEach((_, key) => {
+      if (current[key] && current[key].updatedAt !== previous[key]?.updatedAt) {
+        this.notify(key, current[key].drawings, null);
+      }
+    });
+  };
+
+  // ---- CLOUD ----
+
+  /** The loaded account, if it is still the one signed in; signed-out drawings stay local */
+  private async getUserId(): Promise<string | null> {
+    const owner = this.userId;
+    if (!owner) return null;
+    try {
+      const { data } = await supabase.auth.getUser();
+      return data.user?.id === owner ? owner : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async syncFromCloud(key: string) {
+    if (this.cloudChecked.has(key)) return;
+    this.cloudChecked.add(key);
+
+    const userId = await this.getUserId();
+    if (!userId) return;
+
+    const { data, error } = await supabase
+      .from('chart_drawings')
+      .select('drawings, updated_at')
+      .eq('user_id', userId)
+      .eq('symbol', key)
+      .maybeSingle();
+    if (error) {
+      console.warn('[ChartDrawings] Cloud load failed, using local copy:', error.message);
+      return;
+    }
+    // Switched account while the request was out
+    if (this.userId !== userId) return;
+
+    const local = this.readLocal()[key];
+    const cloudUpdatedAt = data ? new Date(data.updated_at).getTime() : 0;
+    if (data && cloudUpdatedAt > (local?.updatedAt ?? 0)) {
+      const entry: StoredDrawings = {
+        drawings: (data.drawings as unknown as DrawingObject[]) || [],
+        updatedAt: cloudUpdatedAt,
+      };
+      this.writeLocal(key, entry);
+      this.notify(key, entry.drawings, null);
+    } else if (local && local.updatedAt > cloudUpdatedAt) {
+      // Drawn while offline
+      this.scheduleCloudSave(key);
+    }
+  }
+
+  private scheduleCloudSave(key: string) {
+    const pending = this.pendingCloudSaves.get(key);
+    if (pending) clearTimeout(pending);
+    this.pendingCloudSaves.set(key, setTimeout(() => {
+      this.pendingCloudSaves.delete(key);
+      void this.saveToCloud(key);
+    }, CLOUD_SAVE_DELAY));
+  }
+
+  private async saveToCloud(key: string) {
+    const entry = this.readLocal()[key];
+    if (!entry) return;
+    const userId = await this.getUserId();
+    if (!userId) return;
+
+    const { error } = await supabase.from('chart_drawings').upsert(
+      {
+        user_id: userId,
+        symbol: key,
+        drawings: entry.drawings as unknown as Json,
+        updated_at: new Date(entry.updatedAt).toISOString(),
+      },
+      { onConflict: 'user_id,symbol' }
+    );
+    if (error) console.warn('[ChartDrawings] Cloud save failed, kept locally:', error.message);
+  }
+}
+
+export const chartDrawings = new ChartDrawingsService();
+export default chartDrawings;
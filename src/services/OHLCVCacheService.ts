@@ -0,0 +1,348 @@
+// ============================================
+// OHLCV Cache - persistent bar store
+// Every series ChartDataService fetches is merged into IndexedDB keyed by
+// source, symbol and timeframe, so charts open from disk before the network
+// answers and keep working offline. Gaps in crypto series are found here and
+// backfilled by ChartDataService; eviction is least-recently-used.
+// ============================================
+
+import type { OHLCVData } from './ChartDataService';
+
+export type CacheSource = 'crypto' | 'yahoo';
+
+export interface CachedSeriesInfo {
+  key: string;
+  source: CacheSource;
+  symbol: string;
+  timeframe: string;
+  bars: number;
+  firstTimestamp: number;
+  lastTimestamp: number;
+  updatedAt: number;
+  lastAccess: number;
+}
+
+export interface OHLCVCacheStats {
+  series: CachedSeriesInfo[];
+  totalBars: number;
+  /** Approximate size on disk: six float64 per bar */
+  totalBytes: number;
+  hits: number;
+  misses: number;
+  limits: OHLCVCacheLimits;
+}
+
+export interface OHLCVCacheLimits {
+  /** Oldest bars beyond this are trimmed from a series */
+  maxBarsPerSeries: number;
+  /** Least recently opened series are dropped until the total fits */
+  maxTotalBars: number;
+  /** Series not opened for this long are dropped */
+  maxAgeDays: number;
+}
+
+/** Missing bars strictly between two cached bars */
+export interface BarGap {
+  after: number;
+  before: number;
+  missingBars: number;
+}
+
+type StoredBars = { key: string; bars: Float64Array };
+
+const DB_NAME = 'able-ohlcv-cache';
+const DB_VERSION = 1;
+const META = 'meta';
+const BARS = 'bars';
+const LIMITS_KEY = 'able-ohlcv-cache-limits';
+const BYTES_PER_BAR = 6 * 8;
+
+export const DEFAULT_CACHE_LIMITS: OHLCVCacheLimits = {
+  maxBarsPerSeries: 50000,
+  maxTotalBars: 1000000,
+  maxAgeDays: 30,
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(META)) db.createObjectStore(META, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(BARS)) db.createObjectStore(BARS, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function result<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function flattenBars(bars: OHLCVData[]): Float64Array {
+  const flat = new Float64Array(bars.length * 6);
+  bars.forEach((b, i) => flat.set([b.timestamp, b.open, b.high, b.low, b.close, b.volume], i * 6));
+  return flat;
+}
+
+function unflattenBars(flat: Float64Array): OHLCVData[] {
+  const bars: OHLCVData[] = [];
+  for (let i = 0; i + 5 < flat.length; i += 6) {
+    bars.push({ timestamp: flat[i], open: flat[i + 1], high: flat[i + 2], low: flat[i + 3], close: flat[i + 4], volume: flat[i + 5] });
+  }
+  return bars;
+}
+
+/** Union by timestamp, incoming bars replacing cached ones */
+export function mergeBars(existing: OHLCVData[], incoming: OHLCVData[]): OHLCVData[] {
+  if (existing.length === 0) return [...incoming].sort((a, b) => a.timestamp - b.timestamp);
+  const byTime = new Map<number, OHLCVData>();
+  existing.forEach(bar => byTime.set(bar.timestamp, bar));
+  incoming.forEach(bar => byTime.set(bar.timestamp, bar));
+  return Array.from(byTime.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Holes in a continuously traded series. A step longer than 1.5 bars counts,
+ * which tolerates 28-31 day months on monthly bars.
+ */
+export function findGaps(bars: OHLCVData[], periodMs: number): BarGap[] {
+  const gaps: BarGap[] = [];
+  if (!(periodMs > 0)) return gaps;
+  for (let i = 1; i < bars.length; i++) {
+    const step = bars[i].timestamp - bars[i - 1].timestamp;
+    if (step > periodMs * 1.5) {
+      gaps.push({
+        after: bars[i - 1].timestamp,
+        before: bars[i].timestamp,
+        missingBars: Math.round(step / periodMs) - 1,
+      });
+    }
+  }
+  return gaps;
+}
+
+export const seriesKey = (source: CacheSource, symbol: string, timeframe: string) =>
+  `${source}:${symbol.toUpperCase()}:${timeframe}`;
+
+class OHLCVCacheService {
+  private listeners = new Set<() => void>();
+  private hits = 0;
+  private misses = 0;
+  // Live klines arrive every second or two; they are batched per series
+  private pendingAppends = new Map<string, { source: CacheSource; symbol: string; timeframe: string; bars: OHLCVData[] }>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  get available(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /** Cached bars for a series (oldest first), or null when nothing is stored */
+  async read(source: CacheSource, symbol: string, timeframe: string): Promise<OHLCVData[] | null> {
+    if (!this.available) return null;
+    const key = seriesKey(source, symbol, timeframe);
+    try {
+      // Pending writes first, so a read after merge() sees the merged series
+      await this.writeQueue;
+      const db = await openDB();
+      const tx = db.transaction([META, BARS], 'readwrite');
+      const meta = await result(tx.objectStore(META).get(key) as IDBRequest<CachedSeriesInfo | undefined>);
+      const stored = await result(tx.objectStore(BARS).get(key) as IDBRequest<StoredBars | undefined>);
+      if (meta) tx.objectStore(META).put({ ...meta, lastAccess: Date.now() });
+      await done(tx);
+      if (!stored || stored.bars.length === 0) {
+        this.misses++;
+        return null;
+      }
+      this.hits++;
+      const pending = this.pendingAppends.get(key);
+      const bars = unflattenBars(stored.bars);
+      return pending ? mergeBars(bars, pending.bars) : bars;
+    } catch (error) {
+      console.warn('[OHLCVCache] Read failed:', error);
+      return null;
+    }
+  }
+
+  /** Merge bars into a series, trim it to the per-series limit, then enforce the global limits */
+  merge(source: CacheSource, symbol: string, timeframe: string, bars: OHLCVData[]): Promise<void> {
+    if (!this.available || bars.length === 0) return Promise.resolve();
+    const write = this.writeQueue.then(() => this.writeSeries(source, symbol, timeframe, bars));
+    this.writeQueue = write.catch(() => undefined);
+    return write.catch(error => console.warn('[OHLCVCache] Write failed:', error));
+  }
+
+  /** Queue a closed live bar; batches are written every few seconds */
+  append(source: CacheSource, symbol: string, timeframe: string, bar: OHLCVData) {
+    const key = seriesKey(source, symbol, timeframe);
+    const pending = this.pendingAppends.get(key) ?? { source, symbol, timeframe, bars: [] };
+    pending.bars.push(bar);
+    this.pendingAppends.set(key, pending);
+    if (!this.flushTimer) this.flushTimer = setTimeout(() => void this.flush(), 5000);
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    const batches = Array.from(this.pendingAppends.values());
+    this.pendingAppends.clear();
+    for (const batch of batches) {
+      await this.merge(batch.source, batch.symbol, batch.timeframe, batch.bars);
+    }
+  }
+
+  async getStats(): Promise<OHLCVCacheStats> {
+    const series = await this.readAllMeta();
+    series.sort((a, b) => b.lastAccess - a.lastAccess);
+    const totalBars = series.reduce((sum, s) => sum + s.bars, 0);
+    return {
+      series,
+      totalBars,
+      totalBytes: totalBars * BYTES_PER_BAR,
+      hits: this.hits,
+      misses: this.misses,
+      limits: this.getLimits(),
+    };
+  }
+
+  /** Drop one series by key, or every timeframe of a symbol when only the symbol is given */
+  async evict(keyOrSymbol: string): Promise<number> {
+    const target = keyOrSymbol.toUpperCase();
+    const keys = (await this.readAllMeta())
+      .filter(s => s.key.toUpperCase() === target || s.symbol.toUpperCase() === target)
+      .map(s => s.key);
+    await this.deleteKeys(keys);
+    return keys.length;
+  }
+
+  async clear(): Promise<void> {
+    this.pendingAppends.clear();
+    await this.deleteKeys((await this.readAllMeta()).map(s => s.key));
+  }
+
+  getLimits(): OHLCVCacheLimits {
+    try {
+      const saved = localStorage.getItem(LIMITS_KEY);
+      return saved ? { ...DEFAULT_CACHE_LIMITS, ...JSON.parse(saved) } : DEFAULT_CACHE_LIMITS;
+    } catch {
+      return DEFAULT_CACHE_LIMITS;
+    }
+  }
+
+  async setLimits(limits: Partial<OHLCVCacheLimits>): Promise<void> {
+    localStorage.setItem(LIMITS_KEY, JSON.stringify({ ...this.getLimits(), ...limits }));
+    await this.enforceLimits();
+    this.notify();
+  }
+
+  /** Drops expired series, then least recently opened ones until the total fits. Returns series removed. */
+  async enforceLimits(): Promise<number> {
+    const limits = this.getLimits();
+    const series = await this.readAllMeta();
+    const expiry = Date.now() - limits.maxAgeDays * 24 * 60 * 60 * 1000;
+    const evicted = new Set(series.filter(s => s.lastAccess < expiry).map(s => s.key));
+
+    let total = series.reduce((sum, s) => sum + (evicted.has(s.key) ? 0 : s.bars), 0);
+    const byAccess = series.filter(s => !evicted.has(s.key)).sort((a, b) => a.lastAccess - b.lastAccess);
+    for (const s of byAccess) {
+      if (total <= limits.maxTotalBars) break;
+      evicted.add(s.key);
+      total -= s.bars;
+    }
+    if (evicted.size > 0) await this.deleteKeys(Array.from(evicted));
+    return evicted.size;
+  }
+
+  /** Called whenever the stored series change */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ---- STORAGE ----
+
+  private async writeSeries(source: CacheSource, symbol: string, timeframe: string, incoming: OHLCVData[]) {
+    const key = seriesKey(source, symbol, timeframe);
+    const limits = this.getLimits();
+    const db = await openDB();
+    const tx = db.transaction([META, BARS], 'readwrite');
+    const stored = await result(tx.objectStore(BARS).get(key) as IDBRequest<StoredBars | undefined>);
+    const merged = mergeBars(stored ? unflattenBars(stored.bars) : [], incoming)
+      .slice(-limits.maxBarsPerSeries);
+    const now = Date.now();
+    const meta: CachedSeriesInfo = {
+      key,
+      source,
+      symbol: symbol.toUpperCase(),
+      timeframe,
+      bars: merged.length,
+      firstTimestamp: merged[0].timestamp,
+      lastTimestamp: merged[merged.length - 1].timestamp,
+      updatedAt: now,
+      lastAccess: now,
+    };
+    tx.objectStore(BARS).put({ key, bars: flattenBars(merged) } satisfies StoredBars);
+    tx.objectStore(META).put(meta);
+    await done(tx);
+
+    const series = await this.readAllMeta();
+    if (series.reduce((sum, s) => sum + s.bars, 0) > limits.maxTotalBars) await this.enforceLimits();
+    this.notify();
+  }
+
+  private async readAllMeta(): Promise<CachedSeriesInfo[]> {
+    if (!this.available) return [];
+    try {
+      const db = await openDB();
+      const tx = db.transaction(META, 'readonly');
+      const all = await result(tx.objectStore(META).getAll() as IDBRequest<CachedSeriesInfo[]>);
+      await done(tx);
+      return all;
+    } catch (error) {
+      console.warn('[OHLCVCache] Failed to read series list:', error);
+      return [];
+    }
+  }
+
+  private async deleteKeys(keys: string[]) {
+    if (keys.length === 0) return;
+    const db = await openDB();
+    const tx = db.transaction([META, BARS], 'readwrite');
+    keys.forEach(key => {
+      tx.objectStore(META).delete(key);
+      tx.objectStore(BARS).delete(key);
+    });
+    await done(tx);
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const ohlcvCache = new OHLCVCacheService();
+export default ohlcvCache;
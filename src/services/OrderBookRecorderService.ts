@@ -0,0 +1,646 @@
+// ============================================
+// Order Book Recorder & Replay
+// Records depth (keyframes + level diffs), aggregated trades and chart candles
+// to IndexedDB, then replays a session at 1x-50x through the same
+// subscribe/getOrderBook surface as BinanceOrderBookService, so the DOM
+// renderers and DeepCharts can run against it unchanged.
+// ============================================
+
+import { binanceOrderBook, OrderBookData, OrderBookLevel } from './BinanceOrderBookService';
+import { syntheticDOM } from './SyntheticDOMService';
+import { binanceWS, TradeUpdate } from './BinanceWebSocketService';
+import { OHLCVData } from './ChartDataService';
+
+export type RecordingSource = 'binance' | 'synthetic';
+
+export interface RecordingSession {
+  id: string;
+  symbol: string;
+  source: RecordingSource;
+  timeframe: string;
+  startedAt: number;
+  endedAt: number | null;
+  bookFrames: number;
+  tradeCount: number;
+  candleCount: number;
+}
+
+export interface RecordedTrade {
+  time: number;
+  price: number;
+  quantity: number;
+  isBuyerMaker: boolean;
+}
+
+export type ReplayFrame =
+  | { kind: 'book'; t: number; keyframe: boolean; lastUpdateId: number; bids: [number, number][]; asks: [number, number][] }
+  | { kind: 'trade'; t: number; trade: RecordedTrade }
+  | { kind: 'candle'; t: number; candle: OHLCVData }
+  | { kind: 'history'; t: number; candles: OHLCVData[] };
+
+export type ReplayStatus = 'idle' | 'loading' | 'paused' | 'playing' | 'ended';
+
+export interface ReplayState {
+  status: ReplayStatus;
+  session: RecordingSession | null;
+  speed: number;
+  currentTime: number;
+  startTime: number;
+  endTime: number;
+}
+
+// ---- STORAGE FORMAT ----
+// One row per frame, keyed by an auto-increment id so a session reads back in
+// insertion (= time) order. Levels are flat Float64Arrays [price, qty, ...];
+// a diff carries only changed levels, qty 0 meaning the level was removed.
+
+type StoredFrame =
+  | { s: string; t: number; k: 'b' | 'd'; u: number; b: Float64Array; a: Float64Array }
+  | { s: string; t: number; k: 't'; p: number; q: number; m: 0 | 1 }
+  | { s: string; t: number; k: 'c'; c: Float64Array }
+  | { s: string; t: number; k: 'h'; c: Float64Array };
+
+const DB_NAME = 'able-orderbook-recordings';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const FRAMES = 'frames';
+const KEYFRAME_EVERY = 60;
+const FLUSH_INTERVAL_MS = 2000;
+const HISTORY_BARS = 300;
+const REPLAY_TICK_MS = 50;
+const MAX_REPLAY_TRADES = 500;
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 25, 50];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS)) db.createObjectStore(SESSIONS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(FRAMES)) {
+          db.createObjectStore(FRAMES, { autoIncrement: true }).createIndex('session', 's');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function result<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const flattenLevels = (levels: [number, number][]) => Float64Array.from(levels.flat());
+
+function unflattenLevels(flat: Float64Array): [number, number][] {
+  const levels: [number, number][] = [];
+  for (let i = 0; i < flat.length; i += 2) levels.push([flat[i], flat[i + 1]]);
+  return levels;
+}
+
+const flattenCandle = (c: OHLCVData) => [c.timestamp, c.open, c.high, c.low, c.close, c.volume];
+
+function unflattenCandles(flat: Float64Array): OHLCVData[] {
+  const candles: OHLCVData[] = [];
+  for (let i = 0; i + 5 < flat.length; i += 6) {
+    candles.push({ timestamp: flat[i], open: flat[i + 1], high: flat[i + 2], low: flat[i + 3], close: flat[i + 4], volume: flat[i + 5] });
+  }
+  return candles;
+}
+
+function decodeFrame(frame: StoredFrame): ReplayFrame {
+  switch (frame.k) {
+    case 'b':
+    case 'd':
+      return {
+        kind: 'book',
+        t: frame.t,
+        keyframe: frame.k === 'b',
+        lastUpdateId: frame.u,
+        bids: unflattenLevels(frame.b),
+        asks: unflattenLevels(frame.a),
+      };
+    case 't':
+      return { kind: 'trade', t: frame.t, trade: { time: frame.t, price: frame.p, quantity: frame.q, isBuyerMaker: frame.m === 1 } };
+    case 'c':
+      return { kind: 'candle', t: frame.t, candle: unflattenCandles(frame.c)[0] };
+    case 'h':
+      return { kind: 'history', t: frame.t, candles: unflattenCandles(frame.c) };
+  }
+}
+
+/** Rebuild full OrderBookData (totals, spread, imbalance) from raw levels */
+function toOrderBookData(
+  symbol: string,
+  bidMap: Map<number, number>,
+  askMap: Map<number, number>,
+  lastUpdateId: number,
+  timestamp: number
+): OrderBookData {
+  const cumulate = (entries: [number, number][]): OrderBookLevel[] => {
+    let total = 0;
+    return entries.map(([price, quantity]) => {
+      total += quantity;
+      return { price, quantity, total };
+    });
+  };
+  const bids = cumulate([...bidMap.entries()].sort((a, b) => b[0] - a[0]));
+  const asks = cumulate([...askMap.entries()].sort((a, b) => a[0] - b[0]));
+
+  const bestBid = bids[0]?.price || 0;
+  const bestAsk = asks[0]?.price || 0;
+  const midPrice = bestBid && bestAsk ? (bestBid + bestAsk) / 2 : bestBid || bestAsk;
+  const spread = bestBid && bestAsk ? bestAsk - bestBid : 0;
+  const totalBidVolume = bids[bids.length - 1]?.total || 0;
+  const totalAskVolume = asks[asks.length - 1]?.total || 0;
+  const totalVolume = totalBidVolume + totalAskVolume;
+
+  return {
+    symbol,
+    lastUpdateId,
+    bids,
+    asks,
+    timestamp,
+    midPrice,
+    spread,
+    spreadPercent: midPrice > 0 ? (spread / midPrice) * 100 : 0,
+    totalBidVolume,
+    totalAskVolume,
+    imbalance: totalVolume > 0 ? ((totalBidVolume - totalAskVolume) / totalVolume) * 100 : 0,
+  };
+}
+
+function applyLevels(book: Map<number, number>, levels: [number, number][]) {
+  for (const [price, qty] of levels) {
+    if (qty > 0) book.set(price, qty);
+    else book.delete(price);
+  }
+}
+
+function upsertCandle(candles: OHLCVData[], candle: OHLCVData): OHLCVData[] {
+  const last = candles[candles.length - 1];
+  if (last && last.timestamp === candle.timestamp) return [...candles.slice(0, -1), candle];
+  if (last && candle.timestamp < last.timestamp) return candles;
+  return [...candles, candle];
+}
+
+// ============================================
+// Recorder
+// ============================================
+
+interface ActiveRecording {
+  session: RecordingSession;
+  bids: Map<number, number>;
+  asks: Map<number, number>;
+  framesSinceKey: number;
+  lastCandle: string;
+  buffer: StoredFrame[];
+  unsubscribers: (() => void)[];
+  flushTimer: ReturnType<typeof setInterval>;
+}
+
+class OrderBookRecorderService {
+  private active: ActiveRecording | null = null;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Start recording a symbol. `history` seeds the replay chart so DeepCharts
+   * has its 30-bar lookback from the first frame.
+   */
+  async start(options: { symbol: string; source: RecordingSource; timeframe: string; history?: OHLCVData[] }): Promise<RecordingSession> {
+    if (this.active) await this.stop();
+
+    const symbol = options.symbol.toUpperCase();
+    const session: RecordingSession = {
+      id: crypto.randomUUID(),
+      symbol,
+      source: options.source,
+      timeframe: options.timeframe,
+      startedAt: Date.now(),
+      endedAt: null,
+      bookFrames: 0,
+      tradeCount: 0,
+      candleCount: 0,
+    };
+
+    const db = await openDB();
+    const tx = db.transaction(SESSIONS, 'readwrite');
+    tx.objectStore(SESSIONS).put(session);
+    await done(tx);
+
+    const active: ActiveRecording = {
+      session,
+      bids: new Map(),
+      asks: new Map(),
+      framesSinceKey: KEYFRAME_EVERY,
+      lastCandle: '',
+      buffer: [],
+      unsubscribers: [],
+      flushTimer: setInterval(() => this.flush(), FLUSH_INTERVAL_MS),
+    };
+    this.active = active;
+
+    const history = (options.history || []).slice(-HISTORY_BARS);
+    if (history.length > 0) {
+      active.buffer.push({ s: session.id, t: session.startedAt, k: 'h', c: Float64Array.from(history.flatMap(flattenCandle)) });
+      session.candleCount += history.length;
+    }
+
+    const book = options.source === 'binance' ? binanceOrderBook : syntheticDOM;
+    active.unsubscribers.push(book.subscribe(data => this.captureBook(data)));
+    if (options.source === 'binance') {
+      active.unsubscribers.push(binanceWS.subscribeToTrades(symbol, trade => this.captureTrade(trade)));
+    }
+
+    console.log(`[Recorder] Recording ${symbol} (${options.source})`);
+    this.notify();
+    return session;
+  }
+
+  async stop(): Promise<RecordingSession | null> {
+    const active = this.active;
+    if (!active) return null;
+
+    this.active = null;
+    clearInterval(active.flushTimer);
+    active.unsubscribers.forEach(unsub => unsub());
+    active.session.endedAt = Date.now();
+    await this.writeFrames(active.buffer.splice(0), active.session);
+
+    console.log(`[Recorder] Stopped ${active.session.symbol}: ${active.session.bookFrames} book frames, ${active.session.tradeCount} trades`);
+    this.notify();
+    return active.session;
+  }
+
+  /** Feed the chart's latest candle; identical repeats are dropped */
+  recordCandle(candle: OHLCVData) {
+    const active = this.active;
+    if (!active) return;
+    const flat = flattenCandle(candle);
+    const key = flat.join(',');
+    if (key === active.lastCandle) return;
+    active.lastCandle = key;
+    active.buffer.push({ s: active.session.id, t: Date.now(), k: 'c', c: Float64Array.from(flat) });
+    active.session.candleCount++;
+  }
+
+  isRecording(symbol?: string): boolean {
+    return !!this.active && (!symbol || this.active.session.symbol === symbol.toUpperCase());
+  }
+
+  getActiveSession(): RecordingSession | null {
+    return this.active ? { ...this.active.session } : null;
+  }
+
+  async listSessions(symbol?: string): Promise<RecordingSession[]> {
+    const db = await openDB();
+    const sessions = await result(db.transaction(SESSIONS).objectStore(SESSIONS).getAll() as IDBRequest<RecordingSession[]>);
+    return sessions
+      .filter(s => !symbol || s.symbol === symbol.toUpperCase())
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  async loadSession(id: string): Promise<{ session: RecordingSession; frames: ReplayFrame[] } | null> {
+    const db = await openDB();
+    const tx = db.transaction([SESSIONS, FRAMES]);
+    const session = await result(tx.objectStore(SESSIONS).get(id) as IDBRequest<RecordingSession | undefined>);
+    if (!session) return null;
+    const stored = await result(tx.objectStore(FRAMES).index('session').getAll(IDBKeyRange.only(id)) as IDBRequest<StoredFrame[]>);
+    return { session, frames: stored.map(decodeFrame) };
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    if (this.active?.session.id === id) await this.stop();
+    const db = await openDB();
+    const tx = db.transaction([SESSIONS, FRAMES], 'readwrite');
+    tx.objectStore(SESSIONS).delete(id);
+    const cursorRequest = tx.objectStore(FRAMES).index('session').openKeyCursor(IDBKeyRange.only(id));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      tx.objectStore(FRAMES).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    await done(tx);
+    this.notify();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // =================== Private Methods ===================
+
+  private captureBook(data: OrderBookData) {
+    const active = this.active;
+    if (!active || data.symbol.toUpperCase() !== active.session.symbol) return;
+
+    const bids = new Map(data.bids.map(l => [l.price, l.quantity] as [number, number]));
+    const asks = new Map(data.asks.map(l => [l.price, l.quantity] as [number, number]));
+    // Frames are stamped on arrival so a session always replays in order
+    const base = { s: active.session.id, t: Date.now(), u: data.lastUpdateId };
+
+    if (active.framesSinceKey >= KEYFRAME_EVERY) {
+      active.buffer.push({ ...base, k: 'b', b: flattenLevels([...bids]), a: flattenLevels([...asks]) });
+      active.framesSinceKey = 0;
+    } else {
+      const bidDiff = this.diffLevels(active.bids, bids);
+      const askDiff = this.diffLevels(active.asks, asks);
+      // An unchanged book costs nothing
+      if (bidDiff.length === 0 && askDiff.length === 0) return;
+      active.buffer.push({ ...base, k: 'd', b: flattenLevels(bidDiff), a: flattenLevels(askDiff) });
+      active.framesSinceKey++;
+    }
+
+    active.bids = bids;
+    active.asks = asks;
+    active.session.bookFrames++;
+  }
+
+  private diffLevels(prev: Map<number, number>, next: Map<number, number>): [number, number][] {
+    const changes: [number, number][] = [];
+    next.forEach((qty, price) => {
+      if (prev.get(price) !== qty) changes.push([price, qty]);
+    });
+    prev.forEach((_, price) => {
+      if (!next.has(price)) changes.push([price, 0]);
+    });
+    return changes;
+  }
+
+  private captureTrade(trade: TradeUpdate) {
+    const active = this.active;
+    if (!active) return;
+    active.buffer.push({ s: active.session.id, t: Date.now(), k: 't', p: trade.price, q: trade.quantity, m: trade.isBuyerMaker ? 1 : 0 });
+    active.session.tradeCount++;
+  }
+
+  private async flush() {
+    const active = this.active;
+    if (!active || active.buffer.length === 0) return;
+    try {
+      await this.writeFrames(active.buffer.splice(0), active.session);
+      this.notify();
+    } catch (e) {
+      console.error('[Recorder] Failed to write frames:', e);
+    }
+  }
+
+  private async writeFrames(frames: StoredFrame[], session: RecordingSession) {
+    const db = await openDB();
+    const tx = db.transaction([SESSIONS, FRAMES], 'readwrite');
+    const store = tx.objectStore(FRAMES);
+    frames.forEach(frame => store.add(frame));
+    tx.objectStore(SESSIONS).put({ ...session });
+    await done(tx);
+  }
+
+  private notify() {
+    this.listeners.forEach(l => l());
+  }
+}
+
+// ============================================
+// Replay
+// ============================================
+
+type OrderBookCallback = (data: OrderBookData) => void;
+type ConnectionCallback = (connected: boolean) => void;
+
+class OrderBookReplayService {
+  private frames: ReplayFrame[] = [];
+  private cursor = 0;
+  private bids = new Map<number, number>();
+  private asks = new Map<number, number>();
+  private lastUpdateId = 0;
+  private orderBook: OrderBookData | null = null;
+  private candles: OHLCVData[] = [];
+  private trades: RecordedTrade[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastTick = 0;
+  private state: ReplayState = { status: 'idle', session: null, speed: 1, currentTime: 0, startTime: 0, endTime: 0 };
+
+  private subscribers = new Set<OrderBookCallback>();
+  private connectionSubscribers = new Set<ConnectionCallback>();
+  private candleSubscribers = new Set<(candles: OHLCVData[]) => void>();
+  private tradeSubscribers = new Set<(trade: RecordedTrade) => void>();
+  private stateSubscribers = new Set<(state: ReplayState) => void>();
+
+  async load(sessionId: string): Promise<boolean> {
+    this.unload();
+    this.setState({ status: 'loading' });
+
+    const recording = await orderBookRecorder.loadSession(sessionId);
+    if (!recording || recording.frames.length === 0) {
+      this.setState({ status: 'idle' });
+      return false;
+    }
+
+    const { session, frames } = recording;
+    this.frames = frames;
+    const startTime = session.startedAt;
+    const endTime = Math.max(session.endedAt ?? 0, frames[frames.length - 1].t);
+    this.setState({ session, startTime, endTime, currentTime: startTime });
+    this.seek(startTime);
+    this.setState({ status: 'paused' });
+    this.connectionSubscribers.forEach(cb => cb(true));
+    return true;
+  }
+
+  unload() {
+    this.stopTimer();
+    this.frames = [];
+    this.resetBook();
+    this.orderBook = null;
+    this.candles = [];
+    this.trades = [];
+    this.setState({ status: 'idle', session: null, currentTime: 0, startTime: 0, endTime: 0 });
+    this.connectionSubscribers.forEach(cb => cb(false));
+  }
+
+  play() {
+    if (!this.state.session) return;
+    if (this.state.status === 'ended') this.seek(this.state.startTime);
+    this.lastTick = performance.now();
+    this.stopTimer();
+    this.timer = setInterval(() => this.tick(), REPLAY_TICK_MS);
+    this.setState({ status: 'playing' });
+  }
+
+  pause() {
+    this.stopTimer();
+    if (this.state.session) this.setState({ status: 'paused' });
+  }
+
+  setSpeed(speed: number) {
+    this.setState({ speed: Math.min(50, Math.max(1, speed)) });
+  }
+
+  /** Jump to a point in the session; book and candles are rebuilt from the start */
+  seek(time: number) {
+    if (!this.state.session) return;
+    const target = Math.min(this.state.endTime, Math.max(this.state.startTime, time));
+    this.resetBook();
+    this.candles = [];
+    this.trades = [];
+    this.cursor = 0;
+    this.advanceTo(target, false);
+    this.setState({ currentTime: target, status: this.state.status === 'ended' ? 'paused' : this.state.status });
+    this.emitAll();
+  }
+
+  isActive(): boolean {
+    return this.state.session !== null;
+  }
+
+  getState(): ReplayState {
+    return this.state;
+  }
+
+  getOrderBook(): OrderBookData | null {
+    return this.orderBook;
+  }
+
+  getCandles(): OHLCVData[] {
+    return this.candles;
+  }
+
+  getTrades(): RecordedTrade[] {
+    return this.trades;
+  }
+
+  // Same shape as BinanceOrderBookService so callers can swap sources
+  subscribe(callback: OrderBookCallback): () => void {
+    this.subscribers.add(callback);
+    if (this.orderBook) callback(this.orderBook);
+    return () => { this.subscribers.delete(callback); };
+  }
+
+  subscribeToConnection(callback: ConnectionCallback): () => void {
+    this.connectionSubscribers.add(callback);
+    callback(this.isActive());
+    return () => { this.connectionSubscribers.delete(callback); };
+  }
+
+  subscribeToCandles(callback: (candles: OHLCVData[]) => void): () => void {
+    this.candleSubscribers.add(callback);
+    if (this.candles.length > 0) callback(this.candles);
+    return () => { this.candleSubscribers.delete(callback); };
+  }
+
+  subscribeToTrades(callback: (trade: RecordedTrade) => void): () => void {
+    this.tradeSubscribers.add(callback);
+    return () => { this.tradeSubscribers.delete(callback); };
+  }
+
+  subscribeToState(callback: (state: ReplayState) => void): () => void {
+    this.stateSubscribers.add(callback);
+    callback(this.state);
+    return () => { this.stateSubscribers.delete(callback); };
+  }
+
+  // =================== Private Methods ===================
+
+  private tick() {
+    const now = performance.now();
+    const elapsed = now - this.lastTick;
+    this.lastTick = now;
+
+    const target = Math.min(this.state.endTime, this.state.currentTime + elapsed * this.state.speed);
+    const changed = this.advanceTo(target, true);
+    const ended = target >= this.state.endTime;
+    if (ended) this.stopTimer();
+    this.setState({ currentTime: target, ...(ended ? { status: 'ended' as const } : {}) });
+
+    if (changed.book) this.emitBook();
+    if (changed.candles) this.emitCandles();
+  }
+
+  /** Apply frames up to `time`; trades are only emitted live, not while seeking */
+  private advanceTo(time: number, emitTrades: boolean): { book: boolean; candles: boolean } {
+    const changed = { book: false, candles: false };
+
+    while (this.cursor < this.frames.length && this.frames[this.cursor].t <= time) {
+      const frame = this.frames[this.cursor++];
+      switch (frame.kind) {
+        case 'book':
+          if (frame.keyframe) this.resetBook();
+          applyLevels(this.bids, frame.bids);
+          applyLevels(this.asks, frame.asks);
+          this.lastUpdateId = frame.lastUpdateId;
+          this.orderBook = toOrderBookData(this.state.session!.symbol, this.bids, this.asks, this.lastUpdateId, frame.t);
+          changed.book = true;
+          break;
+        case 'trade':
+          this.trades.push(frame.trade);
+          if (this.trades.length > MAX_REPLAY_TRADES) this.trades.splice(0, this.trades.length - MAX_REPLAY_TRADES);
+          if (emitTrades) this.tradeSubscribers.forEach(cb => cb(frame.trade));
+          break;
+        case 'history':
+          this.candles = frame.candles;
+          changed.candles = true;
+          break;
+        case 'candle':
+          this.candles = upsertCandle(this.candles, frame.candle);
+          changed.candles = true;
+          break;
+      }
+    }
+    return changed;
+  }
+
+  private resetBook() {
+    this.bids = new Map();
+    this.asks = new Map();
+    this.lastUpdateId = 0;
+  }
+
+  private stopTimer() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private emitBook() {
+    if (this.orderBook) this.subscribers.forEach(cb => cb(this.orderBook!));
+  }
+
+  private emitCandles() {
+    this.candleSubscribers.forEach(cb => cb(this.candles));
+  }
+
+  private emitAll() {
+    this.emitBook();
+    this.emitCandles();
+  }
+
+  private setState(patch: Partial<ReplayState>) {
+    this.state = { ...this.state, ...patch };
+    this.stateSubscribers.forEach(cb => cb(this.state));
+  }
+}
+
+export const orderBookRecorder = new OrderBookRecorderService();
+export const orderBookReplay = new OrderBookReplayService();
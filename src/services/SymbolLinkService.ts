@@ -0,0 +1,104 @@
+// ============================================
+// Symbol link groups - Bloomberg-style colored panel linking
+// Panels joined to the same color share one active symbol: whichever panel
+// (or the agent) sets it, every other panel in the group follows.
+// ============================================
+
+import { normalizeSymbol } from '@/utils/pine/security';
+
+export type LinkGroupId = 'red' | 'green' | 'blue' | 'yellow' | 'purple';
+
+export const LINK_GROUPS: { id: LinkGroupId; label: string; color: string }[] = [
+  { id: 'red', label: 'Red', color: '#ef4444' },
+  { id: 'green', label: 'Green', color: '#22c55e' },
+  { id: 'blue', label: 'Blue', color: '#3b82f6' },
+  { id: 'yellow', label: 'Yellow', color: '#eab308' },
+  { id: 'purple', label: 'Purple', color: '#a855f7' },
+];
+
+export const isLinkGroupId = (value: unknown): value is LinkGroupId =>
+  LINK_GROUPS.some(g => g.id === value);
+
+export interface LinkedSymbol {
+  /** 'NASDAQ:AAPL', 'BINANCE:BTCUSDT' or a bare 'AAPL' when the exchange is unknown */
+  ticker: string;
+  name?: string;
+  /** Who set it; panels ignore their own updates */
+  source: string;
+  at: number;
+}
+
+type Listener = (group: LinkGroupId, linked: LinkedSymbol) => void;
+
+const STORAGE_KEY = 'able-link-groups';
+
+const COMMON_CRYPTO_BASES = ['BTC', 'ETH', 'BNB', 'SOL', 'XRP', 'ADA', 'DOGE', 'AVAX', 'DOT', 'LINK', 'MATIC', 'LTC', 'TRX', 'TON', 'SHIB'];
+
+/** Symbol without exchange prefix, uppercased */
+export const bareTicker = (ticker: string): string => normalizeSymbol(ticker);
+
+/** Binance spot pair for a linked ticker, or null when it isn't a crypto instrument */
+export const toBinancePair = (ticker: string): string | null => {
+  const exchange = ticker.includes(':') ? ticker.split(':')[0].toUpperCase() : '';
+  const bare = bareTicker(ticker).replace(/[-/]/g, '');
+  if (/USDT$/.test(bare)) return bare;
+  if (/USD$/.test(bare) && (exchange === 'BINANCE' || exchange === 'COINBASE' || exchange === 'CRYPTO')) {
+    return `${bare.slice(0, -3)}USDT`;
+  }
+  if (exchange === 'BINANCE' || COMMON_CRYPTO_BASES.includes(bare)) return `${bare}USDT`;
+  return null;
+};
+
+class SymbolLinkService {
+  private groups: Partial<Record<LinkGroupId, LinkedSymbol>> = this.load();
+  private listeners = new Set<Listener>();
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getSymbol(group: LinkGroupId): LinkedSymbol | null {
+    return this.groups[group] ?? null;
+  }
+
+  getAll(): Partial<Record<LinkGroupId, LinkedSymbol>> {
+    return { ...this.groups };
+  }
+
+  /** Drive every panel in a group; repeats of the current symbol are ignored */
+  setSymbol(group: LinkGroupId, ticker: string, source: string, name?: string): void {
+    const trimmed = ticker.trim().toUpperCase();
+    if (!trimmed) return;
+    const current = this.groups[group];
+    if (current && current.ticker === trimmed) return;
+
+    const linked: LinkedSymbol = { ticker: trimmed, name, source, at: Date.now() };
+    this.groups = { ...this.groups, [group]: linked };
+    this.save();
+    this.listeners.forEach(listener => listener(group, linked));
+  }
+
+  private load(): Partial<Record<LinkGroupId, LinkedSymbol>> {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      return saved ? JSON.parse(saved) : {};
+    } catch (e) {
+      console.error('Failed to load link groups:', e);
+      return {};
+    }
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.groups));
+    } catch (e) {
+      console.error('Failed to save link groups:', e);
+    }
+  }
+}
+
+export const symbolLinkService = new SymbolLinkService();
+export default symbolLinkService;
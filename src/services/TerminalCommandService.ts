@@ -0,0 +1,178 @@
+// ============================================
+// Terminal command line - state behind the MarketData command bar
+// Keeps the loaded security, command history and user aliases in
+// localStorage, and resolves typed tickers through chart symbol search
+// and tv-symbol-search into 'EXCHANGE:SYMBOL' securities.
+// ============================================
+
+import { supabase } from '@/integrations/supabase/client';
+import { chartDataService } from '@/services/ChartDataService';
+import { bareTicker, toBinancePair } from '@/services/SymbolLinkService';
+import { MARKET_CODES, type ResolvedSecurity, type SecurityRef } from '@/utils/terminalCommands';
+
+interface StoredTerminalState {
+  history: string[];
+  aliases: Record<string, string>;
+  loaded: ResolvedSecurity | null;
+}
+
+interface TvSymbol {
+  symbol: string;
+  description: string;
+  exchange: string;
+}
+
+type Listener = () => void;
+
+const STORAGE_KEY = 'able-terminal-command';
+const MAX_HISTORY = 100;
+const EMPTY: StoredTerminalState = { history: [], aliases: {}, loaded: null };
+
+class TerminalCommandService {
+  private state: StoredTerminalState = this.load();
+  private listeners = new Set<Listener>();
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ---- HISTORY ----
+
+  /** Oldest first */
+  getHistory(): string[] {
+    return this.state.history;
+  }
+
+  addHistory(input: string): void {
+    const trimmed = input.trim();
+    if (!trimmed || this.state.history[this.state.history.length - 1] === trimmed) return;
+    this.update({ history: [...this.state.history, trimmed].slice(-MAX_HISTORY) });
+  }
+
+  clearHistory(): void {
+    this.update({ history: [] });
+  }
+
+  // ---- ALIASES ----
+
+  getAliases(): Record<string, string> {
+    return this.state.aliases;
+  }
+
+  setAlias(name: string, expansion: string): void {
+    this.update({ aliases: { ...this.state.aliases, [name.toUpperCase()]: expansion.trim() } });
+  }
+
+  removeAlias(name: string): boolean {
+    const key = name.toUpperCase();
+    if (!(key in this.state.aliases)) return false;
+    const { [key]: _removed, ...rest } = this.state.aliases;
+    this.update({ aliases: rest });
+    return true;
+  }
+
+  // ---- LOADED SECURITY ----
+
+  getLoaded(): ResolvedSecurity | null {
+    return this.state.loaded;
+  }
+
+  setLoaded(security: ResolvedSecurity): void {
+    this.update({ loaded: security });
+  }
+
+  // ---- SYMBOL RESOLUTION ----
+
+  /** Find the security a typed ticker refers to, or null when nothing matches */
+  async resolve(ref: SecurityRef): Promise<ResolvedSecurity | null> {
+    // Already qualified: 'NASDAQ:AAPL', 'BINANCE:BTCUSDT'
+    if (ref.symbol.includes(':')) return this.fromTicker(ref.symbol);
+
+    // Only an explicit CRYPTO key or a USDT quote goes straight to Binance: bare bases
+    // like LINK, DOT and TON are also stock tickers, and equities win those
+    const isCrypto = ref.yellowKey === 'CRYPTO' || (!ref.market && !ref.yellowKey && /USDT$/.test(ref.symbol));
+    if (isCrypto) {
+      const pair = toBinancePair(`BINANCE:${ref.symbol}`);
+      return pair ? this.fromTicker(`BINANCE:${pair}`) : null;
+    }
+
+    const exchanges = ref.market ? MARKET_CODES[ref.market].exchanges : null;
+    const inMarket = (exchange: string) => !exchanges || exchanges.includes(exchange.toUpperCase());
+
+    // Chart symbols cover defaults, Binance and the screener; tv-symbol-search adds exchanges worldwide
+    if (!exchanges) {
+      const chartMatch = (await chartDataService.searchSymbols(ref.symbol))
+        .find(s => bareTicker(s.symbol).replace(/\.BK$/, '') === ref.symbol);
+      if (chartMatch && chartMatch.exchange && chartMatch.exchange !== 'Unknown') {
+        return {
+          ticker: `${chartMatch.exchange.toUpperCase()}:${ref.symbol}`,
+          name: chartMatch.name,
+          chartSymbol: chartMatch,
+        };
+      }
+    }
+
+    const tvMatch = (await this.searchTv(ref.symbol))
+      .find(s => s.symbol.toUpperCase() === ref.symbol && inMarket(s.exchange));
+    if (tvMatch) return this.fromTicker(`${tvMatch.exchange.toUpperCase()}:${ref.symbol}`, tvMatch.description);
+
+    // No listed security by that name: a bare crypto base ('BTC') loads its Binance pair
+    const pair = !ref.market && !ref.yellowKey ? toBinancePair(ref.symbol) : null;
+    return pair ? this.fromTicker(`BINANCE:${pair}`) : null;
+  }
+
+  private fromTicker(ticker: string, name?: string): ResolvedSecurity {
+    const chartSymbol = chartDataService.resolveTicker(ticker);
+    const label = name || chartSymbol.name;
+    return {
+      ticker: ticker.toUpperCase(),
+      name: label,
+      chartSymbol: { ...chartSymbol, name: label },
+    };
+  }
+
+  private async searchTv(text: string): Promise<TvSymbol[]> {
+    try {
+      const { data, error } = await supabase.functions.invoke('tv-symbol-search', {
+        body: { text, lang: 'en' },
+      });
+      if (error) throw error;
+      return (data?.symbols as TvSymbol[] | undefined) ?? [];
+    } catch (e) {
+      console.error('Terminal symbol search error:', e);
+      return [];
+    }
+  }
+
+  // ---- STORAGE ----
+
+  private update(patch: Partial<StoredTerminalState>) {
+    this.state = { ...this.state, ...patch };
+    this.save();
+    this.listeners.forEach(listener => listener());
+  }
+
+  private load(): StoredTerminalState {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      return saved ? { ...EMPTY, ...JSON.parse(saved) } : EMPTY;
+    } catch (e) {
+      console.error('Failed to load terminal command state:', e);
+      return EMPTY;
+    }
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    } catch (e) {
+      console.error('Failed to save terminal command state:', e);
+    }
+  }
+}
+
+export const terminalCommandService = new TerminalCommandService();
+export default terminalCommandService;
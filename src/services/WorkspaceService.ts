@@ -0,0 +1,324 @@
+// ============================================
+// Workspaces - named MarketData desks
+// A workspace is the set of open panels with their window geometry,
+// maximized/minimized state and per-panel settings. Kept in localStorage, one
+// set per account plus one for signed-out use, and synced to Supabase when
+// signed in; exported as JSON to hand desks around.
+// ============================================
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { PanelSettings } from '@/contexts/PanelSettingsContext';
+
+export interface WorkspacePanel {
+  /** Panel instance id, `<componentId>-<n>` */
+  id: string;
+  /** MarketData component id ('trading-chart', 'topnews', ...) */
+  componentId: string;
+  title: string;
+  position?: { x: number; y: number };
+  size?: { width: number; height: number };
+  isMaximized?: boolean;
+  isMinimized?: boolean;
+  settings?: PanelSettings;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  panels: WorkspacePanel[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface StoredWorkspaces {
+  workspaces: Workspace[];
+  activeId: string | null;
+  /** Deleted while offline, still to be removed from the cloud */
+  pendingDeletes: string[];
+}
+
+/** Shape of an exported workspace file */
+interface WorkspaceFile {
+  format: 'able-workspace';
+  version: 1;
+  name: string;
+  panels: WorkspacePanel[];
+  exportedAt: string;
+}
+
+type Listener = () => void;
+
+const STORAGE_KEY = 'able-workspaces';
+const CLOUD_SAVE_DELAY = 1500;
+const EMPTY: StoredWorkspaces = { workspaces: [], activeId: null, pendingDeletes: [] };
+
+const newId = () => `ws-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+class WorkspaceService {
+  private cache: StoredWorkspaces | null = null;
+  /** Account whose workspaces are loaded; null for signed-out use, which never syncs */
+  private userId: string | null = null;
+  private listeners = new Set<Listener>();
+  private pendingCloudSaves = new Map<string, ReturnType<typeof setTimeout>>();
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Switch to the workspaces of another account (or of signed-out use) */
+  setUser(userId: string | null): void {
+    if (userId === this.userId) return;
+    // Saves still queued belong to the previous account's workspaces
+    this.pendingCloudSaves.forEach(timer => clearTimeout(timer));
+    this.pendingCloudSaves.clear();
+    this.userId = userId;
+    this.cache = null;
+    this.listeners.forEach(listener => listener());
+  }
+
+  list(): Workspace[] {
+    return this.read().workspaces;
+  }
+
+  get(id: string): Workspace | undefined {
+    return this.list().find(w => w.id === id);
+  }
+
+  getActiveId(): string | null {
+    const { activeId, workspaces } = this.read();
+    return activeId && workspaces.some(w => w.id === activeId) ? activeId : null;
+  }
+
+  setActiveId(id: string | null): void {
+    this.write({ ...this.read(), activeId: id });
+  }
+
+  create(name: string, panels: WorkspacePanel[] = []): Workspace {
+    const now = Date.now();
+    const workspace: Workspace = { id: newId(), name: this.uniqueName(name), panels, createdAt: now, updatedAt: now };
+    this.put(workspace);
+    return workspace;
+  }
+
+  /** Replace a workspace's panels (the layout autosave) */
+  savePanels(id: string, panels: WorkspacePanel[]): void {
+    const workspace = this.get(id);
+    if (!workspace || JSON.stringify(workspace.panels) === JSON.stringify(panels)) return;
+    this.put({ ...workspace, panels, updatedAt: Date.now() });
+  }
+
+  rename(id: string, name: string): void {
+    const workspace = this.get(id);
+    if (!workspace || !name.trim()) return;
+    this.put({ ...workspace, name: this.uniqueName(name.trim(), id), updatedAt: Date.now() });
+  }
+
+  duplicate(id: string): Workspace | null {
+    const workspace = this.get(id);
+    if (!workspace) return null;
+    return this.create(`${workspace.name} copy`, structuredClone(workspace.panels));
+  }
+
+  remove(id: string): void {
+    const stored = this.read();
+    this.write({
+      workspaces: stored.workspaces.filter(w => w.id !== id),
+      activeId: stored.activeId === id ? null : stored.activeId,
+      pendingDeletes: this.userId ? [...stored.pendingDeletes, id] : stored.pendingDeletes,
+    });
+    const pending = this.pendingCloudSaves.get(id);
+    if (pending) clearTimeout(pending);
+    this.pendingCloudSaves.delete(id);
+    void this.flushDeletes();
+  }
+
+  // ---- IMPORT / EXPORT ----
+
+  exportJson(id: string): string {
+    const workspace = this.get(id);
+    if (!workspace) throw new Error('Workspace not found');
+    const file: WorkspaceFile = {
+      format: 'able-workspace',
+      version: 1,
+      name: workspace.name,
+      panels: workspace.panels,
+      exportedAt: new Date().toISOString(),
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /** Add a workspace from an exported file; throws with a readable message for anything else */
+  importJson(text: string): Workspace {
+    let file: Partial<WorkspaceFile>;
+    try {
+      file = JSON.parse(text);
+    } catch {
+      throw new Error('Not a JSON file');
+    }
+    if (file.format !== 'able-workspace' || !Array.isArray(file.panels)) {
+      throw new Error('Not an ABLE workspace file');
+    }
+    const panels = file.panels.filter(
+      (p): p is WorkspacePanel => !!p && typeof p.id === 'string' && typeof p.componentId === 'string'
+    );
+    return this.create(typeof file.name === 'string' && file.name.trim() ? file.name.trim() : 'Imported workspace', panels);
+  }
+
+  // ---- LOCAL ----
+
+  private uniqueName(name: string, exceptId?: string): string {
+    const taken = new Set(this.list().filter(w => w.id !== exceptId).map(w => w.name));
+    if (!taken.has(name)) return name;
+    let n = 2;
+    while (taken.has(`${name} (${n})`)) n++;
+    return `${name} (${n})`;
+  }
+
+  private put(workspace: Workspace) {
+    const stored = this.read();
+    const exists = stored.workspaces.some(w => w.id === workspace.id);
+    this.write({
+      ...stored,
+      workspaces: exists
+        ? stored.workspaces.map(w => (w.id === workspace.id ? workspace : w))
+        : [...stored.workspaces, workspace],
+    });
+    this.scheduleCloudSave(workspace.id);
+  }
+
+  private storageKey(): string {
+    return this.userId ? `${STORAGE_KEY}:${this.userId}` : STORAGE_KEY;
+  }
+
+  private read(): StoredWorkspaces {
+    if (this.cache) return this.cache;
+    try {
+      const saved = localStorage.getItem(this.storageKey());
+      this.cache = saved ? { ...EMPTY, ...JSON.parse(saved) } : EMPTY;
+    } catch (e) {
+      console.error('Failed to load workspaces:', e);
+      this.cache = EMPTY;
+    }
+    return this.cache!;
+  }
+
+  private write(stored: StoredWorkspaces) {
+    this.cache = stored;
+    try {
+      localStorage.setItem(this.storageKey(), JSON.stringify(stored));
+    } catch (e) {
+      console.error('Failed to save workspaces:', e);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  // ---- CLOUD ----
+
+  /** The loaded account, if it is still the one signed in; signed-out workspaces stay local */
+  private async getUserId(): Promise<string | null> {
+    const owner = this.userId;
+    if (!owner) return null;
+    try {
+      const { data } = await supabase.auth.getUser();
+      return data.user?.id === owner ? owner : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Merge the loaded account's cloud workspaces into its local copy; newer edits win */
+  async syncFromCloud(): Promise<void> {
+    const userId = await this.getUserId();
+    if (!userId) return;
+    await this.flushDeletes();
+
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('id, name, panels, created_at, updated_at')
+      .eq('user_id', userId);
+    if (error) {
+      console.warn('[Workspaces] Cloud load failed, using local copy:', error.message);
+      return;
+    }
+    // Switched account while the request was out
+    if (this.userId !== userId) return;
+
+    const stored = this.read();
+    const local = new Map(stored.workspaces.map(w => [w.id, w]));
+    const merged = new Map(local);
+    (data ?? []).forEach(row => {
+      if (stored.pendingDeletes.includes(row.id)) return;
+      const cloud: Workspace = {
+        id: row.id,
+        name: row.name,
+        panels: (row.panels as unknown as WorkspacePanel[]) || [],
+        createdAt: new Date(row.created_at).getTime(),
+        updatedAt: new Date(row.updated_at).getTime(),
+      };
+      const mine = local.get(row.id);
+      if (!mine || cloud.updatedAt > mine.updatedAt) merged.set(row.id, cloud);
+    });
+    this.write({ ...stored, workspaces: [...merged.values()].sort((a, b) => a.createdAt - b.createdAt) });
+
+    // Created or edited while offline
+    const cloudUpdatedAt = new Map((data ?? []).map(row => [row.id, new Date(row.updated_at).getTime()]));
+    stored.workspaces
+      .filter(w => w.updatedAt > (cloudUpdatedAt.get(w.id) ?? 0))
+      .forEach(w => this.scheduleCloudSave(w.id));
+  }
+
+  private scheduleCloudSave(id: string) {
+    const pending = this.pendingCloudSaves.get(id);
+    if (pending) clearTimeout(pending);
+    this.pendingCloudSaves.set(id, setTimeout(() => {
+      this.pendingCloudSaves.delete(id);
+      void this.saveToCloud(id);
+    }, CLOUD_SAVE_DELAY));
+  }
+
+  private async saveToCloud(id: string) {
+    const workspace = this.get(id);
+    if (!workspace) return;
+    const userId = await this.getUserId();
+    if (!userId) return;
+
+    const { error } = await supabase.from('workspaces').upsert(
+      {
+        id: workspace.id,
+        user_id: userId,
+        name: workspace.name,
+        panels: workspace.panels as unknown as Json,
+        created_at: new Date(workspace.createdAt).toISOString(),
+        updated_at: new Date(workspace.updatedAt).toISOString(),
+      },
+      { onConflict: 'user_id,id' }
+    );
+    if (error) console.warn('[Workspaces] Cloud save failed, kept locally:', error.message);
+  }
+
+  private async flushDeletes() {
+    const { pendingDeletes } = this.read();
+    if (pendingDeletes.length === 0) return;
+    const userId = await this.getUserId();
+    if (!userId) return;
+
+    const { error } = await supabase
+      .from('workspaces')
+      .delete()
+      .eq('user_id', userId)
+      .in('id', pendingDeletes);
+    if (error) {
+      console.warn('[Workspaces] Cloud delete failed, will retry:', error.message);
+      return;
+    }
+    const stored = this.read();
+    this.write({ ...stored, pendingDeletes: stored.pendingDeletes.filter(id => !pendingDeletes.includes(id)) });
+  }
+}
+
+export const workspaceService = new WorkspaceService();
+export default workspaceService;
@@ -1,4 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
+import { paperBroker } from './PaperBroker';
+import type { BrokerAdapter, BrokerFill, BrokerOrderRequest, BrokerPosition, BrokerType, RiskLimits, RiskUsage } from './types';
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
@@ -16,6 +18,11 @@ async function callEdgeFunction(functionName: string, body: Record<string, unkno
   return response.json();
 }
 
+/** Connection id of the in-browser paper broker; never stored in broker_connections */
+export const PAPER_CONNECTION_ID = 'paper-local';
+
+const isPaper = (connectionId: string) => connectionId === PAPER_CONNECTION_ID;
+
 export interface BrokerConnection {
   id: string;
   room_id: string | null;
@@ -31,6 +38,8 @@ export interface BrokerConnection {
     account_spec?: string;
   } | null;
   max_position_size: number | null;
+  risk_limits?: RiskLimits | null;
+  kill_switch?: boolean;
   total_orders_sent: number | null;
   successful_orders: number | null;
   failed_orders: number | null;
@@ -65,6 +74,9 @@ export interface OrderResult {
   latency?: number;
   error?: string;
   logId?: string;
+  /** Set when the pre-trade risk engine blocked the order */
+  rejected?: boolean;
+  check?: string;
 }
 
 export interface TradovateCredentials {
@@ -91,15 +103,24 @@ export interface MT5Credentials {
   magic_number: number;
 }
 
+export interface PaperCredentials {
+  startingBalance?: number;
+  slippageBps?: number;
+  commission?: number;
+  /** Server-side paper accounts keep their book across reconnects unless this is set */
+  resetBook?: boolean;
+}
+
 export const BrokerAPI = {
   /**
    * Connect to broker
    */
   async connect(
     connectionId: string, 
-    credentials: TradovateCredentials | SettradeCredentials | MT5Credentials, 
-    brokerType: 'tradovate' | 'settrade' | 'mt5'
+    credentials: TradovateCredentials | SettradeCredentials | MT5Credentials | PaperCredentials, 
+    brokerType: BrokerType
   ): Promise<{ success: boolean; error?: string; session?: unknown }> {
+    if (isPaper(connectionId)) return paperBroker.connect(credentials as PaperCredentials);
     return callEdgeFunction('broker-connect', {
       connectionId,
       credentials,
@@ -111,6 +132,7 @@ export const BrokerAPI = {
    * Get connection status
    */
   async getStatus(connectionId: string): Promise<BrokerStatus> {
+    if (isPaper(connectionId)) return paperBroker.status();
     return callEdgeFunction('broker-status', { connectionId });
   },
 
@@ -128,13 +150,47 @@ export const BrokerAPI = {
     orderType?: 'Market' | 'Limit' | 'Stop';
     orderId?: string;
   }): Promise<OrderResult> {
+    if (isPaper(params.connectionId)) {
+      const { action, orderId, symbol = '', quantity, price, orderType } = params;
+      return action === 'cancel'
+        ? paperBroker.cancel(orderId || '')
+        : paperBroker.placeOrder({ action, symbol, quantity, price, orderType });
+    }
     return callEdgeFunction('broker-order', params);
   },
 
+  /**
+   * Open positions
+   */
+  async getPositions(connectionId: string): Promise<BrokerPosition[]> {
+    if (isPaper(connectionId)) return paperBroker.positions();
+    const result = await callEdgeFunction('broker-order', { connectionId, action: 'positions' });
+    if (!result.success) throw new Error(result.error || 'Failed to get positions');
+    return result.positions;
+  },
+
+  /**
+   * Executions, newest first
+   */
+  async getFills(connectionId: string): Promise<BrokerFill[]> {
+    if (isPaper(connectionId)) return paperBroker.fills();
+    const result = await callEdgeFunction('broker-order', { connectionId, action: 'fills' });
+    if (!result.success) throw new Error(result.error || 'Failed to get fills');
+    return result.fills;
+  },
+
+  /**
+   * Adapter for a connection: the local paper broker, or the edge functions
+   */
+  getAdapter(connectionId: string, brokerType: BrokerType): BrokerAdapter {
+    return isPaper(connectionId) ? paperBroker : new EdgeBrokerAdapter(connectionId, brokerType);
+  },
+
   /**
    * Disconnect from broker
    */
   async disconnect(connectionId: string): Promise<{ success: boolean; error?: string }> {
+    if (isPaper(connectionId)) return paperBroker.disconnect();
     return callEdgeFunction('broker-disconnect', { connectionId });
   },
 
@@ -144,7 +200,7 @@ export const BrokerAPI = {
   async getOrCreateConnection(
     roomId: string, 
     userId: string, 
-    brokerType: 'tradovate' | 'settrade' | 'mt5'
+    brokerType: BrokerType
   ): Promise<BrokerConnection> {
     // First, check for any CONNECTED connection for this room/broker type
     const { data: connectedList } = await supabase
@@ -234,6 +290,37 @@ export const BrokerAPI = {
     if (error) throw error;
   },
 
+  /**
+   * Replace the pre-trade risk limits
+   */
+  async updateRiskLimits(connectionId: string, limits: RiskLimits): Promise<void> {
+    const { error } = await supabase
+      .from('broker_connections')
+      .update({ risk_limits: JSON.parse(JSON.stringify(limits)) })
+      .eq('id', connectionId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Block (or re-allow) all new orders on a connection
+   */
+  async setKillSwitch(connectionId: string, enabled: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('broker_connections')
+      .update({ kill_switch: enabled })
+      .eq('id', connectionId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Current risk limits and how much of each is used
+   */
+  async getRiskUsage(connectionId: string): Promise<{ success: boolean; limits?: RiskLimits; usage?: RiskUsage; error?: string }> {
+    return callEdgeFunction('broker-order', { connectionId, action: 'risk' });
+  },
+
   /**
    * Get forward logs for a connection
    */
@@ -263,3 +350,39 @@ export const BrokerAPI = {
     return (data || []) as unknown as BrokerConnection[];
   }
 };
+
+/**
+ * Broker adapter backed by the broker-* edge functions (tradovate, settrade,
+ * and server-side paper connections used by webhooks)
+ */
+export class EdgeBrokerAdapter implements BrokerAdapter {
+  constructor(private connectionId: string, readonly type: BrokerType) {}
+
+  connect(credentials: TradovateCredentials | SettradeCredentials | MT5Credentials | PaperCredentials) {
+    return BrokerAPI.connect(this.connectionId, credentials, this.type);
+  }
+
+  status() {
+    return BrokerAPI.getStatus(this.connectionId);
+  }
+
+  placeOrder(order: BrokerOrderRequest) {
+    return BrokerAPI.placeOrder({ connectionId: this.connectionId, ...order });
+  }
+
+  cancel(orderId: string) {
+    return BrokerAPI.placeOrder({ connectionId: this.connectionId, action: 'cancel', orderId });
+  }
+
+  positions() {
+    return BrokerAPI.getPositions(this.connectionId);
+  }
+
+  fills() {
+    return BrokerAPI.getFills(this.connectionId);
+  }
+
+  disconnect() {
+    return BrokerAPI.disconnect(this.connectionId);
+  }
+}
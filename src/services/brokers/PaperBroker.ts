@@ -0,0 +1,346 @@
+// ============================================
+// Paper Broker - local simulated account
+// Fills against the live Binance order book when it is streaming the symbol,
+// otherwise against ChartDataService bars. Feed bars with onBar() to simulate
+// offline (replays, backtests) with no network at all.
+// ============================================
+
+import { chartDataService, ChartSymbol, OHLCVData } from '@/services/ChartDataService';
+import { binanceOrderBook } from '@/services/BinanceOrderBookService';
+import type { BrokerStatus, OrderResult } from './BrokerAPIClient';
+import type { BrokerAdapter, BrokerFill, BrokerOrderRequest, BrokerPosition, OrderType } from './types';
+
+export interface PaperBrokerSettings {
+  startingBalance: number;
+  /** Adverse slippage applied to every fill, in basis points */
+  slippageBps: number;
+  /** Per-fill commission in account currency */
+  commission: number;
+}
+
+export interface PaperOrder {
+  id: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  orderType: OrderType;
+  price?: number;
+  createdAt: number;
+}
+
+interface PaperState {
+  settings: PaperBrokerSettings;
+  connected: boolean;
+  realizedPnl: number;
+  commissions: number;
+  positions: Record<string, { quantity: number; avgPrice: number }>;
+  working: PaperOrder[];
+  fills: BrokerFill[];
+  marks: Record<string, number>;
+  seq: number;
+}
+
+const STORAGE_KEY = 'paper-broker-state';
+const MAX_FILLS = 500;
+
+const DEFAULT_SETTINGS: PaperBrokerSettings = {
+  startingBalance: 100000,
+  slippageBps: 0,
+  commission: 0,
+};
+
+const freshState = (settings: PaperBrokerSettings = DEFAULT_SETTINGS): PaperState => ({
+  settings,
+  connected: false,
+  realizedPnl: 0,
+  commissions: 0,
+  positions: {},
+  working: [],
+  fills: [],
+  marks: {},
+  seq: 0,
+});
+
+const CRYPTO_QUOTES = /(USDT|USDC|BUSD|FDUSD|BTC|ETH|BNB)$/;
+
+function toChartSymbol(symbol: string): ChartSymbol {
+  const crypto = CRYPTO_QUOTES.test(symbol) && symbol.length > 6;
+  return { symbol, name: symbol, exchange: crypto ? 'BINANCE' : '', type: crypto ? 'crypto' : 'stock' };
+}
+
+function crosses(order: PaperOrder, price: number): boolean {
+  if (order.orderType === 'Limit') return order.side === 'buy' ? price <= order.price! : price >= order.price!;
+  if (order.orderType === 'Stop') return order.side === 'buy' ? price >= order.price! : price <= order.price!;
+  return true;
+}
+
+export class PaperBroker implements BrokerAdapter {
+  readonly type = 'paper' as const;
+  private state: PaperState;
+  private listeners = new Set<() => void>();
+
+  constructor(private storageKey = STORAGE_KEY) {
+    this.state = this.load();
+  }
+
+  // ---- CONTRACT ----
+
+  async connect(settings?: Partial<PaperBrokerSettings>): Promise<{ success: boolean; error?: string }> {
+    if (settings) this.state.settings = { ...this.state.settings, ...settings };
+    this.state.connected = true;
+    this.save();
+    return { success: true };
+  }
+
+  async disconnect(): Promise<{ success: boolean; error?: string }> {
+    this.state.connected = false;
+    this.save();
+    return { success: true };
+  }
+
+  async status(): Promise<BrokerStatus> {
+    return {
+      success: true,
+      connected: this.state.connected,
+      latency: 0,
+      account: {
+        name: 'Paper',
+        balance: this.balance(),
+        equity: this.equity(),
+        positions: Object.keys(this.state.positions).length,
+      },
+    };
+  }
+
+  async placeOrder(order: BrokerOrderRequest): Promise<OrderResult> {
+    if (!this.state.connected) return { success: false, error: 'Paper broker not connected' };
+    const start = performance.now();
+    const symbol = order.symbol.toUpperCase();
+
+    let side: 'buy' | 'sell' = order.action === 'sell' ? 'sell' : 'buy';
+    let quantity = order.quantity ?? 0;
+    if (order.action === 'close') {
+      const position = this.state.positions[symbol];
+      if (!position) return { success: false, error: 'No position found' };
+      side = position.quantity > 0 ? 'sell' : 'buy';
+      quantity = Math.abs(position.quantity);
+    }
+    if (!(quantity > 0)) return { success: false, error: 'Quantity must be positive' };
+
+    const orderType: OrderType = order.action === 'close' ? 'Market' : order.orderType ?? 'Market';
+    if (orderType !== 'Market' && !order.price) return { success: false, error: `${orderType} order requires a price` };
+
+    this.state.seq += 1;
+    const paperOrder: PaperOrder = {
+      id: `PAPER-${this.state.seq}`,
+      symbol,
+      side,
+      quantity,
+      orderType,
+      price: orderType === 'Market' ? undefined : order.price,
+      createdAt: Date.now(),
+    };
+
+    const latency = () => Math.round(performance.now() - start);
+
+    if (orderType !== 'Market') {
+      const mark = this.state.marks[symbol];
+      if (mark !== undefined && crosses(paperOrder, mark)) {
+        this.fill(paperOrder, orderType === 'Limit' ? (side === 'buy' ? Math.min(mark, order.price!) : Math.max(mark, order.price!)) : mark);
+        return { success: true, orderId: paperOrder.id, orderStatus: 'Filled', latency: latency() };
+      }
+      this.state.working.push(paperOrder);
+      this.save();
+      return { success: true, orderId: paperOrder.id, orderStatus: 'Working', latency: latency() };
+    }
+
+    const price = order.price ?? await this.quote(symbol, side, quantity);
+    if (!price) return { success: false, error: `No price available for ${symbol}`, latency: latency() };
+
+    this.fill(paperOrder, price);
+    return { success: true, orderId: paperOrder.id, orderStatus: 'Filled', latency: latency() };
+  }
+
+  async cancel(orderId: string): Promise<OrderResult> {
+    const before = this.state.working.length;
+    this.state.working = this.state.working.filter(o => o.id !== orderId);
+    if (this.state.working.length === before) return { success: false, error: 'Order not found or already filled' };
+    this.save();
+    return { success: true, orderId, orderStatus: 'Cancelled', latency: 0 };
+  }
+
+  async positions(): Promise<BrokerPosition[]> {
+    return Object.entries(this.state.positions).map(([symbol, p]) => ({
+      symbol,
+      quantity: p.quantity,
+      avgPrice: p.avgPrice,
+      unrealizedPnl: this.state.marks[symbol] !== undefined ? (this.state.marks[symbol] - p.avgPrice) * p.quantity : undefined,
+    }));
+  }
+
+  async fills(): Promise<BrokerFill[]> {
+    return [...this.state.fills];
+  }
+
+  // ---- SIMULATION ----
+
+  /**
+   * Advance the simulation by one bar. Resting orders fill when the bar's
+   * range crosses them; gaps through the price fill at the open.
+   */
+  onBar(symbol: string, bar: OHLCVData): BrokerFill[] {
+    const key = symbol.toUpperCase();
+    const filled: BrokerFill[] = [];
+
+    this.state.working = this.state.working.filter(order => {
+      if (order.symbol !== key) return true;
+      const limit = order.price!;
+      let price: number | null = null;
+
+      if (order.orderType === 'Limit') {
+        if (order.side === 'buy' && bar.low <= limit) price = Math.min(bar.open, limit);
+        if (order.side === 'sell' && bar.high >= limit) price = Math.max(bar.open, limit);
+      } else if (order.orderType === 'Stop') {
+        if (order.side === 'buy' && bar.high >= limit) price = Math.max(bar.open, limit);
+        if (order.side === 'sell' && bar.low <= limit) price = Math.min(bar.open, limit);
+      }
+
+      if (price === null) return true;
+      filled.push(this.fill(order, price, false));
+      return false;
+    });
+
+    this.state.marks[key] = bar.close;
+    this.save();
+    return filled;
+  }
+
+  /** Update the mark price for a symbol (e.g. from a live ticker) and sweep resting orders */
+  onPrice(symbol: string, price: number): BrokerFill[] {
+    return this.onBar(symbol, { timestamp: Date.now(), open: price, high: price, low: price, close: price, volume: 0 });
+  }
+
+  getWorkingOrders(): PaperOrder[] {
+    return [...this.state.working];
+  }
+
+  getSettings(): PaperBrokerSettings {
+    return { ...this.state.settings };
+  }
+
+  isConnected(): boolean {
+    return this.state.connected;
+  }
+
+  /** Wipe positions, orders and fills; keeps settings */
+  reset(settings?: Partial<PaperBrokerSettings>): void {
+    this.state = { ...freshState({ ...this.state.settings, ...settings }), connected: this.state.connected };
+    this.save();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // =================== Private Methods ===================
+
+  /** Walk the streaming order book, or fall back to the latest 1m close */
+  private async quote(symbol: string, side: 'buy' | 'sell', quantity: number): Promise<number | null> {
+    const book = binanceOrderBook.getOrderBook();
+    if (book?.symbol === symbol) {
+      const levels = side === 'buy' ? book.asks : book.bids;
+      let remaining = quantity;
+      let cost = 0;
+      for (const level of levels) {
+        const take = Math.min(remaining, level.quantity);
+        cost += take * level.price;
+        remaining -= take;
+        if (remaining <= 0) break;
+      }
+      if (levels.length > 0) {
+        // Thin book: price the remainder at the last level
+        if (remaining > 0) cost += remaining * levels[levels.length - 1].price;
+        return cost / quantity;
+      }
+    }
+
+    try {
+      const bars = await chartDataService.fetchData(toChartSymbol(symbol), '1m', 2);
+      const last = bars[bars.length - 1];
+      if (last) return last.close;
+    } catch (e) {
+      console.warn('[PaperBroker] Bar fetch failed:', e);
+    }
+    return this.state.marks[symbol] ?? null;
+  }
+
+  private fill(order: PaperOrder, rawPrice: number, persist = true): BrokerFill {
+    const { slippageBps, commission } = this.state.settings;
+    const slip = rawPrice * slippageBps / 10000;
+    const price = order.side === 'buy' ? rawPrice + slip : rawPrice - slip;
+    const signed = order.side === 'buy' ? order.quantity : -order.quantity;
+    const position = this.state.positions[order.symbol] ?? { quantity: 0, avgPrice: 0 };
+
+    if (position.quantity === 0 || Math.sign(position.quantity) === Math.sign(signed)) {
+      const total = position.quantity + signed;
+      position.avgPrice = (position.avgPrice * Math.abs(position.quantity) + price * order.quantity) / Math.abs(total);
+      position.quantity = total;
+    } else {
+      const closing = Math.min(Math.abs(position.quantity), order.quantity);
+      this.state.realizedPnl += closing * (price - position.avgPrice) * Math.sign(position.quantity);
+      position.quantity += signed;
+      if (order.quantity > closing) position.avgPrice = price;
+    }
+
+    if (position.quantity === 0) delete this.state.positions[order.symbol];
+    else this.state.positions[order.symbol] = position;
+
+    const fill: BrokerFill = {
+      orderId: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      quantity: order.quantity,
+      price,
+      time: new Date().toISOString(),
+    };
+    this.state.commissions += commission;
+    this.state.fills = [fill, ...this.state.fills].slice(0, MAX_FILLS);
+    this.state.marks[order.symbol] = rawPrice;
+    if (persist) this.save();
+    return fill;
+  }
+
+  private balance(): number {
+    return this.state.settings.startingBalance + this.state.realizedPnl - this.state.commissions;
+  }
+
+  private equity(): number {
+    const unrealized = Object.entries(this.state.positions).reduce((sum, [symbol, p]) => {
+      const mark = this.state.marks[symbol];
+      return sum + (mark !== undefined ? (mark - p.avgPrice) * p.quantity : 0);
+    }, 0);
+    return this.balance() + unrealized;
+  }
+
+  private load(): PaperState {
+    try {
+      const saved = localStorage.getItem(this.storageKey);
+      if (saved) return { ...freshState(), ...JSON.parse(saved) };
+    } catch (e) {
+      console.error('Failed to load paper broker state:', e);
+    }
+    return freshState();
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.state));
+    } catch (e) {
+      console.error('Failed to save paper broker state:', e);
+    }
+    this.listeners.forEach(l => l());
+  }
+}
+
+export const paperBroker = new PaperBroker();
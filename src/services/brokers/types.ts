@@ -0,0 +1,76 @@
+// Broker adapter contract - mirrors supabase/functions/_shared/brokers/types.ts
+// Live brokers go through the edge functions; the paper broker runs in the browser.
+
+import type { BrokerStatus, OrderResult } from './BrokerAPIClient';
+
+export type BrokerType = 'tradovate' | 'settrade' | 'mt5' | 'paper';
+
+export type OrderType = 'Market' | 'Limit' | 'Stop';
+
+export interface BrokerOrderRequest {
+  action: 'buy' | 'sell' | 'close';
+  symbol: string;
+  quantity?: number;
+  /** Limit/stop price; for market orders an optional reference price */
+  price?: number;
+  orderType?: OrderType;
+}
+
+export interface BrokerPosition {
+  symbol: string;
+  /** Signed: positive long, negative short */
+  quantity: number;
+  avgPrice?: number;
+  unrealizedPnl?: number;
+}
+
+export interface BrokerFill {
+  orderId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  time: string;
+}
+
+export interface BrokerAdapter {
+  readonly type: BrokerType;
+  connect(credentials?: unknown): Promise<{ success: boolean; error?: string }>;
+  status(): Promise<BrokerStatus>;
+  placeOrder(order: BrokerOrderRequest): Promise<OrderResult>;
+  cancel(orderId: string): Promise<OrderResult>;
+  positions(): Promise<BrokerPosition[]>;
+  fills(): Promise<BrokerFill[]>;
+  disconnect(): Promise<{ success: boolean; error?: string }>;
+}
+
+// ---- RISK (mirrors supabase/functions/_shared/risk.ts) ----
+
+export interface TradingWindow {
+  /** 0 = Sunday ... 6 = Saturday */
+  days: number[];
+  /** "HH:MM"; a window with end < start runs overnight */
+  start: string;
+  end: string;
+}
+
+export interface RiskLimits {
+  maxDailyLoss?: number;
+  maxOpenPositions?: number;
+  /** Max absolute position size per symbol, in contracts/shares */
+  maxSymbolExposure?: number;
+  symbolExposure?: Record<string, number>;
+  maxOrdersPerMinute?: number;
+  tradingHours?: { timezone: string; windows: TradingWindow[] };
+  duplicateWindowSec?: number;
+}
+
+export interface RiskUsage {
+  killSwitch: boolean;
+  withinTradingHours: boolean | null;
+  ordersLastMinute: number;
+  dailyLoss: number | null;
+  openPositions: number | null;
+  /** Absolute position size per symbol */
+  exposure: Record<string, number>;
+}
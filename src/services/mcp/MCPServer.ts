@@ -1,5 +1,7 @@
 // MCP (Model Context Protocol) Server - Central hub for AI tool access
 
+import { formatIssues, validateToolInput, ValidationIssue } from './validation';
+
 export interface MCPTool {
   name: string;
   description: string;
@@ -11,8 +13,55 @@ export interface MCPTool {
   handler: (params: any) => Promise<any>;
 }
 
+export interface MCPToolStats {
+  calls: number;
+  /** Handler threw or returned success: false */
+  errors: number;
+  /** Rejected by inputSchema validation before reaching the handler */
+  invalidCalls: number;
+  avgMs: number;
+  lastMs: number;
+  maxMs: number;
+  lastError?: string;
+  lastCalledAt?: number;
+}
+
+/** Returned instead of calling the handler when arguments fail validation */
+export interface MCPToolErrorResult {
+  success: false;
+  code: 'INVALID_ARGUMENTS';
+  tool: string;
+  error: string;
+  issues: ValidationIssue[];
+}
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface MCPResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/** Serves every resource whose URI starts with `<scheme>://` */
+export interface MCPResourceProvider {
+  scheme: string;
+  /** RFC 6570 template advertised to clients, e.g. notes://{id} */
+  uriTemplate?: string;
+  description?: string;
+  list: () => Promise<MCPResource[]>;
+  read: (uri: string) => Promise<MCPResourceContents | null>;
+}
+
 export class MCPServer {
   private tools: Map<string, MCPTool> = new Map();
+  private resourceProviders: Map<string, MCPResourceProvider> = new Map();
+  private stats: Map<string, MCPToolStats & { totalMs: number }> = new Map();
   private isInitialized = false;
 
   async initialize(): Promise<void> {
@@ -26,6 +75,7 @@ export class MCPServer {
     this.registerOpenClawTools();
     this.registerNewsTools();
     this.registerScreenerTools();
+    this.registerResources();
 
     this.isInitialized = true;
     console.log('MCP Server initialized with', this.tools.size, 'tools');
@@ -40,20 +90,97 @@ export class MCPServer {
     if (!tool) {
       throw new Error(`Tool not found: ${name}`);
     }
-    return await tool.handler(params);
+
+    const stats = this.statsFor(name);
+    stats.calls++;
+    stats.lastCalledAt = Date.now();
+
+    const validation = validateToolInput(tool.inputSchema, params);
+    if (!validation.valid) {
+      const result: MCPToolErrorResult = {
+        success: false,
+        code: 'INVALID_ARGUMENTS',
+        tool: name,
+        error: `Invalid arguments for ${name}: ${formatIssues(validation.issues)}`,
+        issues: validation.issues,
+      };
+      stats.invalidCalls++;
+      stats.lastError = result.error;
+      return result;
+    }
+
+    const started = performance.now();
+    try {
+      const result = await tool.handler(validation.value);
+      if (result && typeof result === 'object' && result.success === false) {
+        stats.errors++;
+        stats.lastError = String(result.error ?? 'success: false');
+      }
+      return result;
+    } catch (error) {
+      stats.errors++;
+      stats.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      const elapsed = Math.round(performance.now() - started);
+      const completed = stats.calls - stats.invalidCalls;
+      stats.totalMs += elapsed;
+      stats.lastMs = elapsed;
+      stats.maxMs = Math.max(stats.maxMs, elapsed);
+      stats.avgMs = Math.round(stats.totalMs / Math.max(completed, 1));
+    }
   }
 
   getTools(): MCPTool[] {
     return Array.from(this.tools.values());
   }
 
-  getToolsList(): { name: string; description: string }[] {
+  getToolsList(): { name: string; description: string; stats: MCPToolStats }[] {
     return Array.from(this.tools.values()).map(t => ({
       name: t.name,
-      description: t.description
+      description: t.description,
+      stats: this.getToolStats(t.name)
     }));
   }
 
+  getToolStats(name: string): MCPToolStats {
+    const { totalMs, ...stats } = this.statsFor(name);
+    return stats;
+  }
+
+  resetToolStats(): void {
+    this.stats.clear();
+  }
+
+  private statsFor(name: string) {
+    let stats = this.stats.get(name);
+    if (!stats) {
+      stats = { calls: 0, errors: 0, invalidCalls: 0, avgMs: 0, lastMs: 0, maxMs: 0, totalMs: 0 };
+      this.stats.set(name, stats);
+    }
+    return stats;
+  }
+
+  registerResourceProvider(provider: MCPResourceProvider): void {
+    this.resourceProviders.set(provider.scheme, provider);
+  }
+
+  getResourceProviders(): MCPResourceProvider[] {
+    return Array.from(this.resourceProviders.values());
+  }
+
+  async listResources(): Promise<MCPResource[]> {
+    const lists = await Promise.all(this.getResourceProviders().map(p => p.list()));
+    return lists.flat();
+  }
+
+  /** Returns null when no provider knows the URI */
+  async readResource(uri: string): Promise<MCPResourceContents | null> {
+    const scheme = uri.split('://')[0];
+    const provider = this.resourceProviders.get(scheme);
+    return provider ? await provider.read(uri) : null;
+  }
+
   private async fetchCOTData(asset: string, startDate: Date, endDate: Date) {
     const start = startDate.toISOString().split('T')[0];
     const end = endDate.toISOString().split('T')[0];
@@ -962,6 +1089,66 @@ export class MCPServer {
     });
   }
 
+  // ═══════════════════════════════════════════
+  // Resources (notes & watchlists)
+  // ═══════════════════════════════════════════
+  private registerResources(): void {
+    const readJSON = (key: string): any[] => {
+      try {
+        return JSON.parse(localStorage.getItem(key) || '[]');
+      } catch {
+        return [];
+      }
+    };
+    // Notes app (useNotesSync cache) plus notes created through create_note
+    const allNotes = () => [...readJSON('able-notes'), ...readJSON('notes')];
+
+    this.registerResourceProvider({
+      scheme: 'notes',
+      uriTemplate: 'notes://{id}',
+      description: 'A single note by id',
+      list: async () => [
+        { uri: 'notes://all', name: 'All notes', description: 'Every note as a JSON array', mimeType: 'application/json' },
+        ...allNotes().map((n: any) => ({
+          uri: `notes://${encodeURIComponent(n.id)}`,
+          name: n.title || 'Untitled',
+          mimeType: 'text/markdown',
+        })),
+      ],
+      read: async (uri) => {
+        const id = decodeURIComponent(uri.slice('notes://'.length));
+        if (id === 'all') {
+          return { uri, mimeType: 'application/json', text: JSON.stringify(allNotes(), null, 2) };
+        }
+        const note = allNotes().find((n: any) => String(n.id) === id);
+        if (!note) return null;
+        const tags = note.tags?.length ? `\n\nTags: ${note.tags.join(', ')}` : '';
+        return { uri, mimeType: 'text/markdown', text: `# ${note.title || 'Untitled'}\n\n${note.content || ''}${tags}` };
+      }
+    });
+
+    const watchlists: Record<string, { name: string; key: string }> = {
+      favorites: { name: 'Favorites watchlist', key: 'trading-watchlist-favorites' },
+    };
+
+    this.registerResourceProvider({
+      scheme: 'watchlist',
+      uriTemplate: 'watchlist://{name}',
+      description: 'Symbols in a chart watchlist',
+      list: async () => Object.entries(watchlists).map(([id, w]) => ({
+        uri: `watchlist://${id}`,
+        name: w.name,
+        description: `${readJSON(w.key).length} symbols`,
+        mimeType: 'application/json',
+      })),
+      read: async (uri) => {
+        const list = watchlists[uri.slice('watchlist://'.length)];
+        if (!list) return null;
+        return { uri, mimeType: 'application/json', text: JSON.stringify(readJSON(list.key), null, 2) };
+      }
+    });
+  }
+
   private interpretCOT(index: number, latest: any): string {
     if (index > 70) return 'Large speculators are heavily long. Strong bullish sentiment, but could signal a potential market top.';
     if (index > 50) return 'Large speculators are moderately long. Market sentiment is bullish but not extreme.';
@@ -0,0 +1,72 @@
+// MCP server entry point for external agents and IDEs
+//
+//   npm run mcp                      stdio (for Claude Desktop, Cursor, ...)
+//   npm run mcp -- --ws --port 3333  WebSocket on ws://127.0.0.1:3333/?token=<printed at startup>
+//   npm run mcp -- --ws --allow-origin http://localhost:8080   also accept that browser origin
+//
+// The WebSocket token is random per start unless MCP_TOKEN is set.
+//   npm run mcp -- --data ./mcp.json file backing notes/trades/watchlists
+//
+// Only stderr is used for logging: on stdio, stdout carries the protocol.
+
+import { randomBytes } from 'node:crypto';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { FileStorage, installStorage } from './storage';
+
+interface CliOptions {
+  transport: 'stdio' | 'ws';
+  port: number;
+  host: string;
+  dataFile: string;
+  token: string;
+  allowedOrigins: string[];
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    transport: 'stdio',
+    port: Number(process.env.MCP_PORT) || 3333,
+    host: process.env.MCP_HOST || '127.0.0.1',
+    dataFile: process.env.MCP_DATA_FILE || join(homedir(), '.able-terminal', 'mcp-storage.json'),
+    token: process.env.MCP_TOKEN || randomBytes(24).toString('hex'),
+    allowedOrigins: (process.env.MCP_ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean),
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--ws') options.transport = 'ws';
+    else if (arg === '--stdio') options.transport = 'stdio';
+    else if (arg === '--port') options.port = Number(argv[++i]);
+    else if (arg === '--host') options.host = argv[++i];
+    else if (arg === '--data') options.dataFile = argv[++i];
+    else if (arg === '--allow-origin') options.allowedOrigins.push(argv[++i]);
+    else throw new Error(`Unknown option: ${arg}`);
+  }
+
+  if (!Number.isInteger(options.port) || options.port <= 0) throw new Error('--port must be a positive integer');
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  // Tools log with console.log; keep stdout clean for JSON-RPC
+  console.log = console.info = console.debug = console.error;
+
+  installStorage(new FileStorage(options.dataFile));
+  console.error(`[MCP] storage: ${options.dataFile}`);
+
+  // Loaded after localStorage exists, since services read it on import
+  const { serveStdio, serveWebSocket } = await import('./transports');
+  if (options.transport === 'ws') {
+    await serveWebSocket(options.port, options.host, { token: options.token, allowedOrigins: options.allowedOrigins });
+  } else {
+    await serveStdio();
+  }
+}
+
+main().catch(error => {
+  console.error('[MCP] fatal:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
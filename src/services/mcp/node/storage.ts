@@ -0,0 +1,58 @@
+// File-backed Web Storage for running the MCP tools under Node
+// Tools read trades, notes and watchlists from localStorage keys; this keeps
+// them in a JSON file so external clients see the same data between runs
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+export class FileStorage implements Storage {
+  private data: Record<string, string> = {};
+
+  constructor(private file: string) {
+    if (existsSync(file)) {
+      try {
+        this.data = JSON.parse(readFileSync(file, 'utf8'));
+      } catch (e) {
+        console.error(`[MCP] Could not read ${file}, starting empty:`, e);
+      }
+    }
+  }
+
+  get length(): number {
+    return Object.keys(this.data).length;
+  }
+
+  key(index: number): string | null {
+    return Object.keys(this.data)[index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return key in this.data ? this.data[key] : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.data[key] = String(value);
+    this.flush();
+  }
+
+  removeItem(key: string): void {
+    delete this.data[key];
+    this.flush();
+  }
+
+  clear(): void {
+    this.data = {};
+    this.flush();
+  }
+
+  private flush(): void {
+    mkdirSync(dirname(this.file), { recursive: true });
+    writeFileSync(this.file, JSON.stringify(this.data, null, 2));
+  }
+}
+
+/** Expose `storage` as globalThis.localStorage unless the runtime already has one */
+export function installStorage(storage: Storage): void {
+  if (typeof globalThis.localStorage !== 'undefined') return;
+  Object.defineProperty(globalThis, 'localStorage', { value: storage, configurable: true });
+}
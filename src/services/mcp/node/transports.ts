@@ -0,0 +1,79 @@
+// MCP transports for the Node entry point
+// stdio: newline-delimited JSON-RPC on stdin/stdout (logs must go to stderr)
+// WebSocket: one JSON-RPC message per text frame, one session per socket.
+// Browsers let any page open a socket to localhost, so upgrades need the
+// startup token (?token=...) and, when sent, an allowlisted Origin header.
+
+import { timingSafeEqual } from 'node:crypto';
+import { createInterface } from 'node:readline';
+import { WebSocketServer } from 'ws';
+import { MCPProtocolHandler } from '../protocol';
+
+export function serveStdio(): Promise<void> {
+  const handler = new MCPProtocolHandler();
+  const rl = createInterface({ input: process.stdin, crlfDelay: Infinity });
+  // Replies are written in arrival order even when a slow tool is still running
+  let queue = Promise.resolve();
+
+  rl.on('line', line => {
+    if (!line.trim()) return;
+    const reply = handler.handleRaw(line);
+    queue = queue.then(async () => {
+      const text = await reply;
+      if (text !== null) process.stdout.write(text + '\n');
+    });
+  });
+
+  return new Promise(resolve => rl.on('close', () => queue.then(resolve)));
+}
+
+export interface WebSocketAuth {
+  /** Required as ?token= on the connection URL */
+  token: string;
+  /** Origins allowed to connect; requests without an Origin header (non-browser clients) pass */
+  allowedOrigins: string[];
+}
+
+const sameToken = (given: string | null, expected: string) =>
+  given !== null && given.length === expected.length && timingSafeEqual(Buffer.from(given), Buffer.from(expected));
+
+export function serveWebSocket(port: number, host: string, auth: WebSocketAuth): Promise<void> {
+  const wss = new WebSocketServer({
+    port,
+    host,
+    verifyClient: ({ origin, req }, done) => {
+      if (origin && !auth.allowedOrigins.includes(origin)) {
+        console.error(`[MCP] rejected connection from origin ${origin}`);
+        return done(false, 403, 'Origin not allowed');
+      }
+      const token = new URL(req.url ?? '/', 'ws://localhost').searchParams.get('token');
+      if (!sameToken(token, auth.token)) {
+        console.error('[MCP] rejected connection without a valid token');
+        return done(false, 401, 'Invalid token');
+      }
+      done(true);
+    },
+  });
+
+  wss.on('connection', (socket, request) => {
+    const handler = new MCPProtocolHandler();
+    console.error(`[MCP] client connected from ${request.socket.remoteAddress}`);
+
+    socket.on('message', async (data, isBinary) => {
+      if (isBinary) return;
+      const text = await handler.handleRaw(data.toString());
+      if (text !== null && socket.readyState === socket.OPEN) socket.send(text);
+    });
+    socket.on('close', () => {
+      console.error(`[MCP] client disconnected${handler.client ? ` (${handler.client.name})` : ''}`);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    wss.on('listening', () => {
+      console.error(`[MCP] WebSocket transport listening on ws://${host}:${port}/?token=${auth.token}`);
+      resolve();
+    });
+    wss.on('error', reject);
+  });
+}
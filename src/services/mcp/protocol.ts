@@ -0,0 +1,202 @@
+// MCP JSON-RPC 2.0 protocol layer
+// Transport-agnostic: feed it parsed messages, write back whatever it returns
+
+import { MCPServer, mcpServer } from './MCPServer';
+
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+const SUPPORTED_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export const SERVER_INFO = { name: 'able-terminal', version: '1.0.0' };
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  method: string;
+  params?: any;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: any;
+  error?: JsonRpcError;
+}
+
+export const ErrorCodes = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  RESOURCE_NOT_FOUND: -32002,
+} as const;
+
+export class RpcError extends Error {
+  constructor(public code: number, message: string, public data?: unknown) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+const errorResponse = (id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse => ({
+  jsonrpc: '2.0',
+  id,
+  error: data === undefined ? { code, message } : { code, message, data },
+});
+
+/**
+ * One instance per client connection; tracks the initialize handshake.
+ * Requests before `initialize` are still answered so simple scripts work.
+ */
+export class MCPProtocolHandler {
+  private clientInfo: { name: string; version: string } | null = null;
+  private protocolVersion = MCP_PROTOCOL_VERSION;
+
+  constructor(private server: MCPServer = mcpServer) {}
+
+  get client() {
+    return this.clientInfo;
+  }
+
+  /** Handle one raw line/frame. Returns the serialized reply, or null for notifications */
+  async handleRaw(raw: string): Promise<string | null> {
+    let message: unknown;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return JSON.stringify(errorResponse(null, ErrorCodes.PARSE_ERROR, 'Parse error'));
+    }
+    const reply = await this.handleMessage(message);
+    return reply === null ? null : JSON.stringify(reply);
+  }
+
+  async handleMessage(message: unknown): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+    if (Array.isArray(message)) {
+      if (message.length === 0) return errorResponse(null, ErrorCodes.INVALID_REQUEST, 'Empty batch');
+      const replies = await Promise.all(message.map(m => this.handleSingle(m)));
+      const answered = replies.filter((r): r is JsonRpcResponse => r !== null);
+      return answered.length > 0 ? answered : null;
+    }
+    return this.handleSingle(message);
+  }
+
+  private async handleSingle(message: any): Promise<JsonRpcResponse | null> {
+    if (!message || typeof message !== 'object' || message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+      // Responses from the client (we never send requests) are ignored
+      if (message?.jsonrpc === '2.0' && ('result' in message || 'error' in message)) return null;
+      return errorResponse(message?.id ?? null, ErrorCodes.INVALID_REQUEST, 'Invalid Request');
+    }
+
+    const request = message as JsonRpcRequest;
+    const isNotification = !('id' in request);
+
+    try {
+      const result = await this.dispatch(request.method, request.params ?? {});
+      return isNotification ? null : { jsonrpc: '2.0', id: request.id ?? null, result };
+    } catch (error) {
+      if (isNotification) return null;
+      if (error instanceof RpcError) return errorResponse(request.id ?? null, error.code, error.message, error.data);
+      return errorResponse(request.id ?? null, ErrorCodes.INTERNAL_ERROR, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async dispatch(method: string, params: any): Promise<any> {
+    switch (method) {
+      case 'initialize':
+        return this.initialize(params);
+      case 'notifications/initialized':
+      case 'notifications/cancelled':
+        return {};
+      case 'ping':
+        return {};
+      case 'tools/list':
+        await this.server.initialize();
+        return {
+          tools: this.server.getTools().map(t => ({
+            name: t.name,
+            description: t.description,
+            inputSchema: t.inputSchema,
+          })),
+        };
+      case 'tools/call':
+        return this.callTool(params);
+      case 'resources/list':
+        await this.server.initialize();
+        return { resources: await this.server.listResources() };
+      case 'resources/templates/list':
+        await this.server.initialize();
+        return {
+          resourceTemplates: this.server.getResourceProviders()
+            .filter(p => p.uriTemplate)
+            .map(p => ({ uriTemplate: p.uriTemplate, name: p.scheme, description: p.description })),
+        };
+      case 'resources/read':
+        return this.readResource(params);
+      default:
+        throw new RpcError(ErrorCodes.METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private async initialize(params: any) {
+    await this.server.initialize();
+    const requested = params?.protocolVersion;
+    // Echo the client's version when we speak it, otherwise offer our latest
+    this.protocolVersion = SUPPORTED_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSION;
+    this.clientInfo = params?.clientInfo ?? null;
+
+    return {
+      protocolVersion: this.protocolVersion,
+      capabilities: {
+        tools: { listChanged: false },
+        resources: { subscribe: false, listChanged: false },
+      },
+      serverInfo: SERVER_INFO,
+      instructions: 'ABLE terminal tools: COT positioning, screeners, news, world monitor, trades and notes.',
+    };
+  }
+
+  private async callTool(params: any) {
+    if (typeof params?.name !== 'string') {
+      throw new RpcError(ErrorCodes.INVALID_PARAMS, 'tools/call requires a tool name');
+    }
+    await this.server.initialize();
+    if (!this.server.getTools().some(t => t.name === params.name)) {
+      throw new RpcError(ErrorCodes.INVALID_PARAMS, `Unknown tool: ${params.name}`);
+    }
+
+    // Tool failures are results, not protocol errors, so the model can see them
+    try {
+      const result = await this.server.executeTool(params.name, params.arguments ?? {});
+      const failed = result && typeof result === 'object' && result.success === false;
+      return {
+        content: [{ type: 'text', text: typeof result === 'string' ? result : JSON.stringify(result, null, 2) }],
+        isError: failed,
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+        isError: true,
+      };
+    }
+  }
+
+  private async readResource(params: any) {
+    if (typeof params?.uri !== 'string') {
+      throw new RpcError(ErrorCodes.INVALID_PARAMS, 'resources/read requires a uri');
+    }
+    await this.server.initialize();
+    const contents = await this.server.readResource(params.uri);
+    if (!contents) {
+      throw new RpcError(ErrorCodes.RESOURCE_NOT_FOUND, 'Resource not found', { uri: params.uri });
+    }
+    return { contents: [contents] };
+  }
+}
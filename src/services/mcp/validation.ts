@@ -0,0 +1,170 @@
+// JSON-schema checks for MCP tool arguments
+// Covers the subset the registered tools use: type, properties, required,
+// items, enum, minimum/maximum. Loose agent input is coerced where the intent
+// is unambiguous ("20" -> 20, "true" -> true, "XAUUSD" -> ["XAUUSD"]).
+
+export interface ValidationIssue {
+  /** Dotted path to the failing value, e.g. "filters[0].operator" ("" for the root) */
+  path: string;
+  message: string;
+  expected?: string;
+  received?: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  /** Arguments after coercion; pass these to the handler */
+  value: unknown;
+  issues: ValidationIssue[];
+}
+
+export interface JSONSchema {
+  type?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  description?: string;
+  default?: unknown;
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+  return typeof value;
+};
+
+const join = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+function coerce(value: unknown, type: string | undefined): unknown {
+  if (value === undefined || value === null || !type) return value;
+
+  switch (type) {
+    case 'number':
+    case 'integer':
+      if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+      return value;
+    case 'boolean':
+      if (value === 'true' || value === 1 || value === '1') return true;
+      if (value === 'false' || value === 0 || value === '0') return false;
+      return value;
+    case 'string':
+      if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+      return value;
+    case 'array':
+      if (Array.isArray(value)) return value;
+      if (typeof value === 'string') {
+        const text = value.trim();
+        if (text.startsWith('[')) {
+          try {
+            return JSON.parse(text);
+          } catch {
+            return value;
+          }
+        }
+        // "XAUUSD, BTCUSD" -> ["XAUUSD", "BTCUSD"]
+        return text.split(',').map(s => s.trim()).filter(Boolean);
+      }
+      return [value];
+    case 'object':
+      if (typeof value === 'string' && value.trim().startsWith('{')) {
+        try {
+          return JSON.parse(value);
+        } catch {
+          return value;
+        }
+      }
+      return value;
+    default:
+      return value;
+  }
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function check(schema: JSONSchema, input: unknown, path: string, issues: ValidationIssue[]): unknown {
+  const value = coerce(input, schema.type);
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    issues.push({
+      path,
+      message: `${path || 'arguments'} must be ${schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}`,
+      expected: schema.type,
+      received: describe(value),
+    });
+    return value;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({
+      path,
+      message: `${path || 'value'} must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`,
+      expected: schema.enum.join('|'),
+      received: JSON.stringify(value),
+    });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `${path} must be >= ${schema.minimum}`, received: String(value) });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `${path} must be <= ${schema.maximum}`, received: String(value) });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    return value.map((item, i) => check(schema.items, item, join(path, i), issues));
+  }
+
+  if (schema.type === 'object' && typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+    (schema.required || []).forEach(key => {
+      if (result[key] === undefined || result[key] === null || result[key] === '') {
+        issues.push({ path: join(path, key), message: `${join(path, key)} is required`, expected: schema.properties?.[key]?.type });
+      }
+    });
+    Object.entries(schema.properties || {}).forEach(([key, propSchema]) => {
+      if (result[key] === undefined || result[key] === null) return;
+      result[key] = check(propSchema, result[key], join(path, key), issues);
+    });
+    return result;
+  }
+
+  return value;
+}
+
+/** Validate and coerce tool arguments against the tool's inputSchema */
+export function validateToolInput(schema: JSONSchema, params: unknown): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  // Agents often send nothing for zero-argument tools
+  const value = check(schema, params ?? {}, '', issues);
+  return { valid: issues.length === 0, value, issues };
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map(i => i.message + (i.received && !i.message.includes(i.received) ? ` (got ${i.received})` : '')).join('; ');
+}
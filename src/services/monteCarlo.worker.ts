@@ -0,0 +1,19 @@
+// Monte Carlo worker - simulates one slice of a run's paths off the UI thread and
+// posts back per-path summaries plus the sampled curves
+
+import { runSimulationRange, type MonteCarloWorkerMessage, type MonteCarloWorkerRequest } from './monteCarloService';
+
+const post = (message: MonteCarloWorkerMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<MonteCarloWorkerRequest>) => {
+  const { config, seed, start, count } = event.data;
+  try {
+    const run = runSimulationRange(config, seed, start, count, done => {
+      if (done % 250 === 0 && done < count) post({ type: 'progress', done });
+    });
+    post({ type: 'progress', done: count });
+    post({ type: 'result', run });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
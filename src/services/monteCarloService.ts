@@ -2,23 +2,28 @@ import {
   AdvancedSimConfig, 
   AdvancedSimResult, 
   AdvancedSimStats, 
+  BootstrapSource,
   MarketRegime,
+  MonteCarloRun,
   RegimePerformance,
   PercentileData,
+  SimPathSummary,
   DEFAULT_REGIMES 
 } from '@/types/monteCarlo';
+import { createRng, deriveSeed, randomSeed } from '@/utils/random';
+import { calculateRMultiples, type Trade } from '@/utils/tradingMetrics';
 
 // ============ RISK METRICS ============
 
 // Value at Risk (VaR) - returns the loss at given confidence level
-export function calculateVaR(results: AdvancedSimResult[], confidence: number): number {
+export function calculateVaR(results: Pick<AdvancedSimResult, 'totalReturn'>[], confidence: number): number {
   const returns = results.map(r => r.totalReturn).sort((a, b) => a - b);
   const index = Math.floor(returns.length * (1 - confidence));
   return Math.abs(returns[Math.max(0, index)]);
 }
 
 // Conditional VaR (Expected Shortfall) - average of losses beyond VaR
-export function calculateCVaR(results: AdvancedSimResult[], confidence: number): number {
+export function calculateCVaR(results: Pick<AdvancedSimResult, 'totalReturn'>[], confidence: number): number {
   const returns = results.map(r => r.totalReturn).sort((a, b) => a - b);
   const varIndex = Math.floor(returns.length * (1 - confidence));
   const tailReturns = returns.slice(0, Math.max(1, varIndex));
@@ -136,11 +141,64 @@ export function analyzeDrawdownDurations(drawdownCurve: number[]): {
   };
 }
 
+// ============ BOOTSTRAP ============
+
+// Outcomes to resample, or null for the parametric win-rate model
+function bootstrapSamples(config: AdvancedSimConfig): number[] | null {
+  if (config.samplingMode === 'parametric' || !config.bootstrapSource) return null;
+  const samples = config.bootstrapUnit === 'r' ? config.bootstrapSource.rMultiples : config.bootstrapSource.pnls;
+  return samples.length > 0 ? samples : null;
+}
+
+// Closed journal trades as a bootstrap sample, oldest exit first
+export function journalBootstrapSource(trades: Trade[], label: string): BootstrapSource {
+  const closed = trades
+    .filter(t => t.status === 'CLOSED' && t.pnl !== undefined)
+    .sort((a, b) => (a.exitTime || a.date).localeCompare(b.exitTime || b.date));
+  return {
+    label,
+    rMultiples: calculateRMultiples(closed),
+    pnls: closed.map(t => t.pnl as number),
+  };
+}
+
+// Win rate and average win/loss of a sample, for Kelly sizing and the parameter display
+export function summarizeSamples(samples: number[]): { winRate: number; avgWin: number; avgLoss: number } {
+  const wins = samples.filter(s => s > 0);
+  const losses = samples.filter(s => s <= 0);
+  return {
+    winRate: samples.length > 0 ? (wins.length / samples.length) * 100 : 0,
+    avgWin: wins.length > 0 ? wins.reduce((a, b) => a + b, 0) / wins.length : 0,
+    avgLoss: losses.length > 0 ? Math.abs(losses.reduce((a, b) => a + b, 0) / losses.length) : 0,
+  };
+}
+
+// iid draws pick any trade each time; block draws copy runs of consecutive trades
+// (wrapping at the end) so winning and losing streaks survive the resampling
+function createSampler(samples: number[], config: AdvancedSimConfig, rng: () => number): () => number {
+  if (config.samplingMode !== 'blockBootstrap') {
+    return () => samples[Math.floor(rng() * samples.length)];
+  }
+  const blockSize = Math.max(1, Math.min(Math.round(config.blockSize), samples.length));
+  let position = 0;
+  let remaining = 0;
+  return () => {
+    if (remaining <= 0) {
+      position = Math.floor(rng() * samples.length);
+      remaining = blockSize;
+    }
+    remaining--;
+    const outcome = samples[position];
+    position = (position + 1) % samples.length;
+    return outcome;
+  };
+}
+
 // ============ REGIME SIMULATION ============
 
 // Regime selection based on probability
-function selectRegime(regimes: MarketRegime[]): MarketRegime {
-  const rand = Math.random() * 100;
+function selectRegime(regimes: MarketRegime[], rng: () => number): MarketRegime {
+  const rand = rng() * 100;
   let cumulative = 0;
   for (const regime of regimes) {
     cumulative += regime.probability;
@@ -149,8 +207,8 @@ function selectRegime(regimes: MarketRegime[]): MarketRegime {
   return regimes[0];
 }
 
-// Enhanced simulation with regimes
-export function runRegimeSimulation(config: AdvancedSimConfig): AdvancedSimResult {
+// Enhanced simulation with regimes. Pass a seeded rng to make the path reproducible.
+export function runRegimeSimulation(config: AdvancedSimConfig, rng: () => number = Math.random): AdvancedSimResult {
   let capital = config.startingCapital;
   let peak = capital;
   let maxDD = 0;
@@ -161,9 +219,18 @@ export function runRegimeSimulation(config: AdvancedSimConfig): AdvancedSimResul
   const timeInEachRegime: Record<string, number> = {};
   
   const regimes = config.enableRegimes ? config.regimes : DEFAULT_REGIMES;
-  let currentRegime = selectRegime(regimes);
+  let currentRegime = selectRegime(regimes, rng);
   let regimeTradesRemaining = config.regimeSwitchFrequency + 
-    Math.floor((Math.random() - 0.5) * config.regimeSwitchFrequency * 0.5);
+    Math.floor((rng() - 0.5) * config.regimeSwitchFrequency * 0.5);
+  
+  // Bootstrap mode draws real trade outcomes instead of win rate + average win/loss
+  const samples = bootstrapSamples(config);
+  const drawOutcome = samples ? createSampler(samples, config, rng) : null;
+  const sampleStats = samples ? summarizeSamples(samples) : null;
+  const losingSamples = samples ? samples.filter(s => s <= 0) : [];
+  const drawLoss = () => losingSamples.length > 0
+    ? losingSamples[Math.floor(rng() * losingSamples.length)]
+    : config.bootstrapUnit === 'r' ? -1 : -config.avgLoss;
   
   let wins = 0, losses = 0;
   let consecutiveWins = 0, consecutiveLosses = 0;
@@ -181,9 +248,9 @@ export function runRegimeSimulation(config: AdvancedSimConfig): AdvancedSimResul
     
     // Switch regime if needed
     if (regimeTradesRemaining <= 0 && config.enableRegimes) {
-      currentRegime = selectRegime(regimes);
+      currentRegime = selectRegime(regimes, rng);
       regimeTradesRemaining = config.regimeSwitchFrequency + 
-        Math.floor((Math.random() - 0.5) * config.regimeSwitchFrequency * 0.5);
+        Math.floor((rng() - 0.5) * config.regimeSwitchFrequency * 0.5);
     }
     regimeTradesRemaining--;
     regimeHistory.push(currentRegime.id);
@@ -204,16 +271,23 @@ export function runRegimeSimulation(config: AdvancedSimConfig): AdvancedSimResul
       : 1;
     
     // Determine win/loss (forced loss if in bad start mode)
-    const isWin = forcedLossesRemaining > 0 
-      ? false 
-      : Math.random() < (effectiveWinRate / 100);
+    const outcome = drawOutcome
+      ? (forcedLossesRemaining > 0 ? drawLoss() : drawOutcome())
+      : null;
+    const isWin = outcome !== null
+      ? outcome > 0
+      : forcedLossesRemaining > 0 
+        ? false 
+        : rng() < (effectiveWinRate / 100);
     
     if (forcedLossesRemaining > 0) forcedLossesRemaining--;
     
     // Calculate position size
     let positionSize: number;
     const baseCapital = config.enableCompounding ? capital : config.startingCapital;
-    const optimalF = calculateOptimalF(effectiveWinRate, effectiveAvgWin, effectiveAvgLoss);
+    const optimalF = sampleStats
+      ? calculateOptimalF(sampleStats.winRate, sampleStats.avgWin, sampleStats.avgLoss)
+      : calculateOptimalF(effectiveWinRate, effectiveAvgWin, effectiveAvgLoss);
     
     switch (config.positionSizing) {
       case 'kelly':
@@ -236,20 +310,31 @@ export function runRegimeSimulation(config: AdvancedSimConfig): AdvancedSimResul
         positionSize = baseCapital * (config.riskPerTrade / 100);
     }
     
-    // Calculate P&L with variance
-    const variance = 0.3 * volatility;
-    const randomMultiplier = 1 + (Math.random() - 0.5) * 2 * variance;
-    
     let pnl: number;
+    if (outcome !== null) {
+      // R-multiples scale with the amount risked; dollar P&L scales with account growth
+      const regimeMultiplier = config.enableRegimes
+        ? (isWin ? currentRegime.avgWinMultiplier : currentRegime.avgLossMultiplier)
+        : 1;
+      pnl = config.bootstrapUnit === 'r'
+        ? positionSize * outcome * regimeMultiplier
+        : outcome * (baseCapital / config.startingCapital) * regimeMultiplier;
+    } else {
+      // Calculate P&L with variance
+      const variance = 0.3 * volatility;
+      const randomMultiplier = 1 + (rng() - 0.5) * 2 * variance;
+      pnl = isWin
+        ? positionSize * (effectiveAvgWin / effectiveAvgLoss) * randomMultiplier
+        : -positionSize * randomMultiplier;
+    }
+    
     if (isWin) {
-      pnl = positionSize * (effectiveAvgWin / effectiveAvgLoss) * randomMultiplier;
       wins++;
       consecutiveWins++;
       consecutiveLosses = 0;
       largestWin = Math.max(largestWin, pnl);
       totalWinAmount += pnl;
     } else {
-      pnl = -positionSize * randomMultiplier;
       losses++;
       consecutiveLosses++;
       consecutiveWins = 0;
@@ -307,12 +392,40 @@ export function runRegimeSimulation(config: AdvancedSimConfig): AdvancedSimResul
   };
 }
 
+// ============ PATH SUMMARIES ============
+
+// Full curves kept per run, for the equity chart and the curve-based ratios
+const MAX_SAMPLE_PATHS = 500;
+
+// Every nth path is kept whole, so the sample spreads evenly over the run
+const sampleStride = (numSimulations: number) => Math.max(1, Math.ceil(numSimulations / MAX_SAMPLE_PATHS));
+
+export function summarizePath(result: AdvancedSimResult): SimPathSummary {
+  const ddAnalysis = analyzeDrawdownDurations(result.drawdownCurve);
+  return {
+    finalCapital: result.finalCapital,
+    totalReturn: result.totalReturn,
+    returnPercent: result.returnPercent,
+    maxDrawdown: result.maxDrawdown,
+    numWins: result.numWins,
+    numLosses: result.numLosses,
+    profitFactor: result.profitFactor,
+    trades: result.equityCurve.length - 1,
+    avgDDDuration: ddAnalysis.avgDuration,
+    maxDDDuration: ddAnalysis.maxDuration,
+    avgRecoveryTime: ddAnalysis.avgRecoveryTime,
+    timeInDrawdownPercent: ddAnalysis.timeInDrawdownPercent,
+    timeInEachRegime: result.timeInEachRegime || {}
+  };
+}
+
 // ============ STATISTICS CALCULATION ============
 
 export function calculateAdvancedStatistics(
-  results: AdvancedSimResult[], 
+  run: MonteCarloRun, 
   config: AdvancedSimConfig
 ): AdvancedSimStats {
+  const results = run.summaries;
   const returns = results.map(r => r.totalReturn).sort((a, b) => a - b);
   const returnPcts = results.map(r => r.returnPercent).sort((a, b) => a - b);
   const maxDDs = results.map(r => r.maxDrawdown).sort((a, b) => a - b);
@@ -349,9 +462,9 @@ export function calculateAdvancedStatistics(
   const cvar99 = calculateCVaR(results, 0.99);
 
   // Performance ratios
-  const avgEquityCurve = results[0]?.equityCurve || [];
+  const avgEquityCurve = run.samplePaths[0]?.equityCurve || [];
   const ulcerIndex = calculateUlcerIndex(avgEquityCurve);
-  const avgDrawdownCurve = results[0]?.drawdownCurve || [];
+  const avgDrawdownCurve = run.samplePaths[0]?.drawdownCurve || [];
   const painIndex = calculatePainIndex(avgDrawdownCurve);
   
   const medianMaxDD = getPercentile(maxDDs, 0.5);
@@ -369,11 +482,10 @@ export function calculateAdvancedStatistics(
   const quarterKelly = kellyFraction / 4;
 
   // Time analysis
-  const allDDAnalysis = results.map(r => analyzeDrawdownDurations(r.drawdownCurve));
-  const avgDDDuration = mean(allDDAnalysis.map(a => a.avgDuration));
-  const maxDrawdownDuration = Math.max(...allDDAnalysis.map(a => a.maxDuration));
-  const avgRecoveryTime = mean(allDDAnalysis.map(a => a.avgRecoveryTime));
-  const timeInDrawdownPercent = mean(allDDAnalysis.map(a => a.timeInDrawdownPercent));
+  const avgDDDuration = mean(results.map(r => r.avgDDDuration));
+  const maxDrawdownDuration = results.reduce((max, r) => Math.max(max, r.maxDDDuration), 0);
+  const avgRecoveryTime = mean(results.map(r => r.avgRecoveryTime));
+  const timeInDrawdownPercent = mean(results.map(r => r.timeInDrawdownPercent));
 
   // Projections
   const avgDailyReturn = avgReturn / config.numTrades;
@@ -392,41 +504,42 @@ export function calculateAdvancedStatistics(
 
   // Regime performance
   let regimePerformance: RegimePerformance[] | undefined;
-  if (config.enableRegimes && results[0]?.regimeHistory) {
-    const regimeStats: Record<string, { wins: number; losses: number; returns: number[]; dds: number[] }> = {};
+  if (config.enableRegimes && results.length > 0) {
+    const regimeStats: Record<string, { trades: number; returnSum: number; maxDD: number }> = {};
     
+    // Simplified tracking: each trade in a regime gets an equal share of its path's return
     results.forEach(result => {
-      if (result.regimeHistory) {
-        result.regimeHistory.forEach((regimeId, i) => {
-          if (!regimeStats[regimeId]) {
-            regimeStats[regimeId] = { wins: 0, losses: 0, returns: [], dds: [] };
-          }
-          // Simplified tracking
-          const regime = config.regimes.find(r => r.id === regimeId);
-          if (regime) {
-            regimeStats[regimeId].returns.push(result.returnPercent / result.regimeHistory!.length);
-            regimeStats[regimeId].dds.push(result.maxDrawdown);
-          }
-        });
-      }
+      if (result.trades === 0) return;
+      Object.entries(result.timeInEachRegime).forEach(([regimeId, trades]) => {
+        if (!regimeStats[regimeId]) {
+          regimeStats[regimeId] = { trades: 0, returnSum: 0, maxDD: 0 };
+        }
+        regimeStats[regimeId].trades += trades;
+        regimeStats[regimeId].returnSum += trades * result.returnPercent / result.trades;
+        regimeStats[regimeId].maxDD = Math.max(regimeStats[regimeId].maxDD, result.maxDrawdown);
+      });
     });
 
-    regimePerformance = config.regimes.map(regime => ({
-      regimeId: regime.id,
-      regimeName: regime.name,
-      totalTrades: regimeStats[regime.id]?.returns.length || 0,
-      winRate: config.winRate + regime.winRateModifier,
-      avgReturn: mean(regimeStats[regime.id]?.returns || []),
-      maxDrawdown: Math.max(...(regimeStats[regime.id]?.dds || [0])),
-      profitFactor: avgPF * regime.avgWinMultiplier / regime.avgLossMultiplier
-    }));
+    regimePerformance = config.regimes.map(regime => {
+      const stats = regimeStats[regime.id];
+      return {
+        regimeId: regime.id,
+        regimeName: regime.name,
+        totalTrades: stats?.trades || 0,
+        winRate: config.winRate + regime.winRateModifier,
+        avgReturn: stats?.trades ? stats.returnSum / stats.trades : 0,
+        maxDrawdown: stats?.maxDD || 0,
+        profitFactor: avgPF * regime.avgWinMultiplier / regime.avgLossMultiplier
+      };
+    });
   }
 
   // Distribution data
   const createHistogramData = (data: number[], bins: number) => {
     if (data.length === 0) return [];
-    const min = Math.min(...data);
-    const max = Math.max(...data);
+    // Sorted by the caller; spreading 100,000 values into Math.min would overflow the stack
+    const min = data[0];
+    const max = data[data.length - 1];
     const binWidth = (max - min) / bins || 1;
 
     const histogram = Array(bins).fill(0);
@@ -501,24 +614,125 @@ export function calculateAdvancedStatistics(
   };
 }
 
-// Run multiple simulations
+// ============ PARALLEL RUNS ============
+
+export interface MonteCarloWorkerRequest {
+  config: AdvancedSimConfig;
+  seed: number;
+  start: number;
+  count: number;
+}
+
+export type MonteCarloWorkerMessage =
+  | { type: 'progress'; done: number }
+  | { type: 'result'; run: MonteCarloRun }
+  | { type: 'error'; message: string };
+
+// Below this many paths, worker startup costs more than it saves
+const WORKER_THRESHOLD = 2000;
+const MAX_WORKERS = 8;
+
+// Simulate paths [start, start + count). Each path has its own seeded stream,
+// so a seed reproduces the same results however the range is split. Curves are
+// dropped as each path finishes unless it falls on the sample stride.
+export function runSimulationRange(
+  config: AdvancedSimConfig,
+  seed: number,
+  start: number,
+  count: number,
+  onPath?: (done: number) => void
+): MonteCarloRun {
+  const stride = sampleStride(config.numSimulations);
+  const run: MonteCarloRun = { summaries: [], samplePaths: [] };
+  for (let i = 0; i < count; i++) {
+    const path = runRegimeSimulation(config, createRng(deriveSeed(seed, start + i)));
+    run.summaries.push(summarizePath(path));
+    if ((start + i) % stride === 0) run.samplePaths.push(path);
+    onPath?.(i + 1);
+  }
+  return run;
+}
+
+// Chunks in path order
+const mergeRuns = (runs: MonteCarloRun[]): MonteCarloRun => ({
+  summaries: runs.flatMap(run => run.summaries),
+  samplePaths: runs.flatMap(run => run.samplePaths)
+});
+
+function runInWorkers(
+  config: AdvancedSimConfig,
+  seed: number,
+  workerCount: number,
+  onProgress?: (progress: number) => void
+): Promise<MonteCarloRun> {
+  const totalSims = config.numSimulations;
+  const chunk = Math.ceil(totalSims / workerCount);
+  const workers: Worker[] = [];
+  const done = new Array(workerCount).fill(0);
+
+  const runs = Array.from({ length: workerCount }, (_, index) => {
+    const start = index * chunk;
+    const count = Math.max(0, Math.min(chunk, totalSims - start));
+    return new Promise<MonteCarloRun>((resolve, reject) => {
+      const worker = new Worker(new URL('./monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+      workers.push(worker);
+      worker.onmessage = (event: MessageEvent<MonteCarloWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          done[index] = message.done;
+          onProgress?.((done.reduce((a, b) => a + b, 0) / totalSims) * 100);
+          return;
+        }
+        worker.terminate();
+        if (message.type === 'result') resolve(message.run);
+        else reject(new Error(message.message));
+      };
+      worker.onerror = (event) => {
+        worker.terminate();
+        reject(new Error(event.message || 'Monte Carlo worker failed'));
+      };
+      const request: MonteCarloWorkerRequest = { config, seed, start, count };
+      worker.postMessage(request);
+    });
+  });
+
+  return Promise.all(runs)
+    .then(mergeRuns)
+    .catch(error => {
+      workers.forEach(worker => worker.terminate());
+      throw error;
+    });
+}
+
+// Run multiple simulations, across Web Workers for large runs.
+// A null config.seed draws a fresh seed; resolve it first to be able to replay the run.
 export async function runMonteCarloSimulations(
   config: AdvancedSimConfig,
   onProgress?: (progress: number) => void
-): Promise<AdvancedSimResult[]> {
-  const results: AdvancedSimResult[] = [];
-  const batchSize = 500;
+): Promise<MonteCarloRun> {
+  const seed = config.seed ?? randomSeed();
   const totalSims = config.numSimulations;
 
+  if (typeof Worker !== 'undefined' && totalSims >= WORKER_THRESHOLD) {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 4 : 4;
+    const workerCount = Math.max(1, Math.min(cores - 1, MAX_WORKERS));
+    try {
+      return await runInWorkers(config, seed, workerCount, onProgress);
+    } catch (error) {
+      console.warn('Monte Carlo workers unavailable, running on the main thread:', error);
+    }
+  }
+
+  const batches: MonteCarloRun[] = [];
+  const batchSize = 500;
+
   for (let i = 0; i < totalSims; i += batchSize) {
     const batch = Math.min(batchSize, totalSims - i);
-    for (let j = 0; j < batch; j++) {
-      results.push(runRegimeSimulation(config));
-    }
+    batches.push(runSimulationRange(config, seed, i, batch));
     const progress = ((i + batch) / totalSims) * 100;
     onProgress?.(progress);
     await new Promise(resolve => setTimeout(resolve, 0));
   }
 
-  return results;
+  return mergeRuns(batches);
 }
@@ -0,0 +1,510 @@
+// ============================================
+// Screener Expressions - formula columns & boolean filters
+// Evaluated client-side on rows returned by tv-screener
+// ============================================
+
+import type { FilterCondition } from './service';
+
+export type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'field'; name: string }
+  | { kind: 'call'; fn: string; args: ExpressionNode[] }
+  | { kind: 'unary'; op: '-' | 'not'; arg: ExpressionNode }
+  | { kind: 'binary'; op: BinaryOperator; left: ExpressionNode; right: ExpressionNode };
+
+export type BinaryOperator =
+  | '+' | '-' | '*' | '/'
+  | '>' | '<' | '>=' | '<=' | '=' | '!='
+  | 'and' | 'or';
+
+export type ExpressionValue = number | string | boolean | null;
+
+/** Boolean filter combining fields, e.g. `close > SMA50 AND NOT (RSI > 70)` */
+export interface ExpressionFilter {
+  expression: string;
+}
+
+/** User-defined computed column, e.g. `close / 52_week_high - 1` */
+export interface FormulaColumn {
+  /** Row key the value is written to; other formulas may reference it */
+  id: string;
+  label: string;
+  formula: string;
+  format: 'number' | 'percent' | 'currency';
+}
+
+export type ScreenerFilter = FilterCondition | ExpressionFilter;
+
+export class ExpressionError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+export const FORMULA_PREFIX = 'fx_';
+
+const FUNCTIONS: Record<string, { arity: [number, number]; fn: (...args: number[]) => number }> = {
+  abs: { arity: [1, 1], fn: Math.abs },
+  sqrt: { arity: [1, 1], fn: Math.sqrt },
+  log: { arity: [1, 1], fn: Math.log },
+  round: { arity: [1, 2], fn: (v, digits = 0) => Number(v.toFixed(digits)) },
+  min: { arity: [2, 8], fn: Math.min },
+  max: { arity: [2, 8], fn: Math.max },
+};
+
+const KEYWORDS: Record<string, BinaryOperator | 'not'> = { and: 'and', or: 'or', not: 'not' };
+
+// Field names may start with a digit (52_week_high) and contain dots or a
+// timeframe suffix (Perf.W, RSI|60); anything else needs [brackets]
+const SIMPLE_NAME = /^[A-Za-z0-9_]+(?:[.|][A-Za-z0-9_]+)*$/;
+const NUMBER = /^\d+(?:\.\d+)?(?:e[+-]?\d+)?$/i;
+
+// ---- TOKENIZER ----
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'name'; value: string; pos: number }
+  | { type: 'op'; value: string; pos: number }
+  | { type: 'eof'; pos: number };
+
+const isNameChar = (c: string | undefined) => !!c && /[A-Za-z0-9_]/.test(c);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const c = source[i];
+    if (/\s/.test(c)) { i++; continue; }
+
+    if (c === '"' || c === "'") {
+      const end = source.indexOf(c, i + 1);
+      if (end < 0) throw new ExpressionError('Unterminated string', i);
+      tokens.push({ type: 'string', value: source.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    if (c === '[') {
+      const end = source.indexOf(']', i + 1);
+      if (end < 0) throw new ExpressionError('Unterminated [field]', i);
+      tokens.push({ type: 'name', value: source.slice(i + 1, end).trim(), pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    if (isNameChar(c)) {
+      let j = i;
+      while (j < source.length) {
+        if (isNameChar(source[j])) j++;
+        else if ((source[j] === '.' || source[j] === '|') && isNameChar(source[j + 1])) j++;
+        // exponent sign inside a number literal, e.g. 1e-6
+        else if ((source[j] === '-' || source[j] === '+') && /^\d+(?:\.\d+)?e$/i.test(source.slice(i, j))) j++;
+        else break;
+      }
+      const word = source.slice(i, j);
+      if (NUMBER.test(word)) tokens.push({ type: 'number', value: parseFloat(word), pos: i });
+      else tokens.push({ type: 'name', value: word, pos: i });
+      i = j;
+      continue;
+    }
+
+    const two = source.slice(i, i + 2);
+    if (['>=', '<=', '==', '!=', '<>', '&&', '||'].includes(two)) {
+      tokens.push({ type: 'op', value: two, pos: i });
+      i += 2;
+      continue;
+    }
+    if ('+-*/()<>=!,'.includes(c)) {
+      tokens.push({ type: 'op', value: c, pos: i });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${c}'`, i);
+  }
+
+  tokens.push({ type: 'eof', pos: source.length });
+  return tokens;
+}
+
+// ---- PARSER ----
+// or → and → not → comparison → additive → multiplicative → unary → primary
+
+const COMPARISON_OPS: Record<string, BinaryOperator> = {
+  '>': '>', '<': '<', '>=': '>=', '<=': '<=', '=': '=', '==': '=', '!=': '!=', '<>': '!=',
+};
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.or();
+    const token = this.peek();
+    if (token.type !== 'eof') throw new ExpressionError(`Unexpected '${this.text(token)}'`, token.pos);
+    return node;
+  }
+
+  private peek(): Token { return this.tokens[this.index]; }
+  private next(): Token { return this.tokens[this.index++]; }
+
+  private text(token: Token): string {
+    return token.type === 'eof' ? 'end of expression' : String(token.value);
+  }
+
+  private keyword(token: Token): string | undefined {
+    if (token.type === 'op') {
+      if (token.value === '&&') return 'and';
+      if (token.value === '||') return 'or';
+      if (token.value === '!') return 'not';
+    }
+    if (token.type === 'name') return KEYWORDS[token.value.toLowerCase()];
+    return undefined;
+  }
+
+  private expectOp(value: string): void {
+    const token = this.next();
+    if (token.type !== 'op' || token.value !== value) {
+      throw new ExpressionError(`Expected '${value}' but found '${this.text(token)}'`, token.pos);
+    }
+  }
+
+  private or(): ExpressionNode {
+    let left = this.and();
+    while (this.keyword(this.peek()) === 'or') {
+      this.next();
+      left = { kind: 'binary', op: 'or', left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): ExpressionNode {
+    let left = this.not();
+    while (this.keyword(this.peek()) === 'and') {
+      this.next();
+      left = { kind: 'binary', op: 'and', left, right: this.not() };
+    }
+    return left;
+  }
+
+  private not(): ExpressionNode {
+    if (this.keyword(this.peek()) === 'not') {
+      this.next();
+      return { kind: 'unary', op: 'not', arg: this.not() };
+    }
+    return this.comparison();
+  }
+
+  private comparison(): ExpressionNode {
+    const left = this.additive();
+    const token = this.peek();
+    if (token.type === 'op' && COMPARISON_OPS[token.value]) {
+      this.next();
+      return { kind: 'binary', op: COMPARISON_OPS[token.value], left, right: this.additive() };
+    }
+    return left;
+  }
+
+  private additive(): ExpressionNode {
+    let left = this.multiplicative();
+    for (let token = this.peek(); token.type === 'op' && (token.value === '+' || token.value === '-'); token = this.peek()) {
+      this.next();
+      left = { kind: 'binary', op: token.value as '+' | '-', left, right: this.multiplicative() };
+    }
+    return left;
+  }
+
+  private multiplicative(): ExpressionNode {
+    let left = this.unary();
+    for (let token = this.peek(); token.type === 'op' && (token.value === '*' || token.value === '/'); token = this.peek()) {
+      this.next();
+      left = { kind: 'binary', op: token.value as '*' | '/', left, right: this.unary() };
+    }
+    return left;
+  }
+
+  private unary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'op' && (token.value === '-' || token.value === '+')) {
+      this.next();
+      const arg = this.unary();
+      return token.value === '-' ? { kind: 'unary', op: '-', arg } : arg;
+    }
+    return this.primary();
+  }
+
+  private primary(): ExpressionNode {
+    const token = this.next();
+
+    if (token.type === 'number') return { kind: 'number', value: token.value };
+    if (token.type === 'string') return { kind: 'string', value: token.value };
+
+    if (token.type === 'op' && token.value === '(') {
+      const node = this.or();
+      this.expectOp(')');
+      return node;
+    }
+
+    if (token.type === 'name' && !this.keyword(token)) {
+      const open = this.peek();
+      if (open.type === 'op' && open.value === '(') {
+        const fn = token.value.toLowerCase();
+        const def = FUNCTIONS[fn];
+        if (!def) throw new ExpressionError(`Unknown function '${token.value}'`, token.pos);
+        this.next();
+        const args: ExpressionNode[] = [];
+        if (!(this.peek().type === 'op' && (this.peek() as { value: string }).value === ')')) {
+          args.push(this.or());
+          while (this.peek().type === 'op' && (this.peek() as { value: string }).value === ',') {
+            this.next();
+            args.push(this.or());
+          }
+        }
+        this.expectOp(')');
+        if (args.length < def.arity[0] || args.length > def.arity[1]) {
+          throw new ExpressionError(`${fn}() takes ${def.arity[0] === def.arity[1] ? def.arity[0] : `${def.arity[0]}-${def.arity[1]}`} argument(s)`, token.pos);
+        }
+        return { kind: 'call', fn, args };
+      }
+      if (!token.value) throw new ExpressionError('Empty [field]', token.pos);
+      return { kind: 'field', name: token.value };
+    }
+
+    throw new ExpressionError(`Unexpected '${this.text(token)}'`, token.pos);
+  }
+}
+
+const parseCache = new Map<string, ExpressionNode>();
+
+/** Parse an expression; throws ExpressionError with the offending position */
+export function parseExpression(source: string): ExpressionNode {
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+  if (!source.trim()) throw new ExpressionError('Expression is empty', 0);
+  const node = new Parser(tokenize(source)).parse();
+  parseCache.set(source, node);
+  return node;
+}
+
+/** Returns the error message, or null when the expression parses */
+export function validateExpression(source: string): string | null {
+  try {
+    parseExpression(source);
+    return null;
+  } catch (error) {
+    return error instanceof ExpressionError
+      ? `${error.message} (col ${error.position + 1})`
+      : String(error);
+  }
+}
+
+// ---- EVALUATION ----
+// Missing or non-numeric fields yield null, which propagates through
+// arithmetic and makes comparisons false — unlike FilterCondition, a row
+// without data never passes an expression filter.
+
+const toNumber = (value: ExpressionValue): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return null;
+};
+
+const truthy = (value: ExpressionValue): boolean =>
+  value === true || (typeof value === 'number' && value !== 0 && Number.isFinite(value));
+
+function compare(op: BinaryOperator, left: ExpressionValue, right: ExpressionValue): boolean {
+  if (left === null || right === null) return false;
+  const l = toNumber(left);
+  const r = toNumber(right);
+  if (l !== null && r !== null) {
+    switch (op) {
+      case '>': return l > r;
+      case '<': return l < r;
+      case '>=': return l >= r;
+      case '<=': return l <= r;
+      case '=': return l === r;
+      case '!=': return l !== r;
+    }
+  }
+  const a = String(left).toLowerCase();
+  const b = String(right).toLowerCase();
+  switch (op) {
+    case '=': return a === b;
+    case '!=': return a !== b;
+    case '>': return a > b;
+    case '<': return a < b;
+    case '>=': return a >= b;
+    case '<=': return a <= b;
+    default: return false;
+  }
+}
+
+export function evaluateExpression(node: ExpressionNode, row: Record<string, unknown>): ExpressionValue {
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+      return node.value;
+    case 'field': {
+      const value = row[node.name];
+      if (value === undefined || value === null) return null;
+      if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value;
+      return null;
+    }
+    case 'call': {
+      const args = node.args.map(arg => toNumber(evaluateExpression(arg, row)));
+      if (args.some(a => a === null)) return null;
+      const result = FUNCTIONS[node.fn].fn(...(args as number[]));
+      return Number.isFinite(result) ? result : null;
+    }
+    case 'unary': {
+      const value = evaluateExpression(node.arg, row);
+      if (node.op === 'not') return !truthy(value);
+      const num = toNumber(value);
+      return num === null ? null : -num;
+    }
+    case 'binary': {
+      if (node.op === 'and') return truthy(evaluateExpression(node.left, row)) && truthy(evaluateExpression(node.right, row));
+      if (node.op === 'or') return truthy(evaluateExpression(node.left, row)) || truthy(evaluateExpression(node.right, row));
+      const left = evaluateExpression(node.left, row);
+      const right = evaluateExpression(node.right, row);
+      if (node.op === '+' || node.op === '-' || node.op === '*' || node.op === '/') {
+        const l = toNumber(left);
+        const r = toNumber(right);
+        if (l === null || r === null) return null;
+        const result = node.op === '+' ? l + r : node.op === '-' ? l - r : node.op === '*' ? l * r : l / r;
+        return Number.isFinite(result) ? result : null;
+      }
+      return compare(node.op, left, right);
+    }
+  }
+}
+
+/** Field names referenced by an expression, in first-use order */
+export function expressionFields(node: ExpressionNode, out: string[] = []): string[] {
+  switch (node.kind) {
+    case 'field':
+      if (!out.includes(node.name)) out.push(node.name);
+      break;
+    case 'call':
+      node.args.forEach(arg => expressionFields(arg, out));
+      break;
+    case 'unary':
+      expressionFields(node.arg, out);
+      break;
+    case 'binary':
+      expressionFields(node.left, out);
+      expressionFields(node.right, out);
+      break;
+  }
+  return out;
+}
+
+// ---- FORMATTING ----
+
+const PRECEDENCE: Record<BinaryOperator, number> = {
+  or: 1, and: 2,
+  '>': 4, '<': 4, '>=': 4, '<=': 4, '=': 4, '!=': 4,
+  '+': 5, '-': 5, '*': 6, '/': 6,
+};
+
+export function formatFieldName(name: string): string {
+  return SIMPLE_NAME.test(name) && !NUMBER.test(name) && !KEYWORDS[name.toLowerCase()] ? name : `[${name}]`;
+}
+
+export function formatValue(value: unknown): string {
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  const text = String(value);
+  return text.includes("'") ? `"${text}"` : `'${text}'`;
+}
+
+/** Serialize a node back to source with minimal parentheses */
+export function formatExpression(node: ExpressionNode, parentPrecedence = 0): string {
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+      return formatValue(node.value);
+    case 'field':
+      return formatFieldName(node.name);
+    case 'call':
+      return `${node.fn}(${node.args.map(arg => formatExpression(arg)).join(', ')})`;
+    case 'unary':
+      return node.op === 'not'
+        ? wrap(`NOT ${formatExpression(node.arg, 3)}`, 3, parentPrecedence)
+        : `-${formatExpression(node.arg, 7)}`;
+    case 'binary': {
+      const precedence = PRECEDENCE[node.op];
+      const op = node.op === 'and' || node.op === 'or' ? node.op.toUpperCase() : node.op;
+      // Right operand binds tighter so a - (b - c) keeps its parentheses
+      const text = `${formatExpression(node.left, precedence)} ${op} ${formatExpression(node.right, precedence + 1)}`;
+      return wrap(text, precedence, parentPrecedence);
+    }
+  }
+}
+
+const wrap = (text: string, precedence: number, parentPrecedence: number) =>
+  precedence < parentPrecedence ? `(${text})` : text;
+
+// ---- FILTERS & FORMULAS ----
+
+export function isExpressionFilter(filter: ScreenerFilter): filter is ExpressionFilter {
+  return typeof (filter as ExpressionFilter).expression === 'string';
+}
+
+/** Express a fixed-operator condition in the expression language */
+export function conditionToExpression(condition: FilterCondition): string {
+  const field = formatFieldName(condition.field);
+  const value = condition.value;
+  switch (condition.operator) {
+    case 'between':
+      return `${field} >= ${formatValue(value[0])} AND ${field} <= ${formatValue(value[1])}`;
+    case 'not_between':
+      return `(${field} < ${formatValue(value[0])} OR ${field} > ${formatValue(value[1])})`;
+    case 'isin':
+      return `(${(value as unknown[]).map(v => `${field} = ${formatValue(v)}`).join(' OR ') || '0'})`;
+    default:
+      return `${field} ${condition.operator} ${formatValue(value)}`;
+  }
+}
+
+export function filterToExpression(filter: ScreenerFilter): string {
+  return isExpressionFilter(filter) ? filter.expression : conditionToExpression(filter);
+}
+
+export function matchesExpression(expression: string, row: Record<string, unknown>): boolean {
+  return truthy(evaluateExpression(parseExpression(expression), row));
+}
+
+/** Build a formula column; the id is derived from the label */
+export function createFormulaColumn(label: string, formula: string, format: FormulaColumn['format'] = 'number'): FormulaColumn {
+  const slug = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'formula';
+  return { id: `${FORMULA_PREFIX}${slug}`, label: label.trim() || formula, formula, format };
+}
+
+export function isFormulaColumn(name: string): boolean {
+  return name.startsWith(FORMULA_PREFIX);
+}
+
+/**
+ * Write each formula's value onto the row. Formulas run in order, so one
+ * may reference the id of an earlier one.
+ */
+export function applyFormulas<T extends Record<string, unknown>>(row: T, formulas: FormulaColumn[]): T {
+  if (formulas.length === 0) return row;
+  const out: Record<string, unknown> = { ...row };
+  for (const column of formulas) {
+    try {
+      const value = evaluateExpression(parseExpression(column.formula), out);
+      out[column.id] = typeof value === 'boolean' ? (value ? 1 : 0) : value;
+    } catch {
+      out[column.id] = null;
+    }
+  }
+  return out as T;
+}
@@ -4,6 +4,19 @@
 // ============================================
 
 import { FilterCondition } from './service';
+import {
+  ExpressionFilter,
+  ExpressionNode,
+  FormulaColumn,
+  ScreenerFilter,
+  BinaryOperator,
+  createFormulaColumn,
+  filterToExpression,
+  formatExpression,
+  parseExpression,
+} from './expressions';
+
+export type Operand = number | Field | Expression;
 
 export class Field {
   constructor(
@@ -12,28 +25,40 @@ export class Field {
     public format: string
   ) {}
 
-  gt(value: number): FilterCondition {
-    return { field: this.name, operator: '>', value };
+  gt(value: number): FilterCondition;
+  gt(value: Field | Expression): ExpressionFilter;
+  gt(value: Operand): FilterCondition | ExpressionFilter {
+    return typeof value === 'number' ? { field: this.name, operator: '>', value } : this.expr().gt(value);
   }
 
-  lt(value: number): FilterCondition {
-    return { field: this.name, operator: '<', value };
+  lt(value: number): FilterCondition;
+  lt(value: Field | Expression): ExpressionFilter;
+  lt(value: Operand): FilterCondition | ExpressionFilter {
+    return typeof value === 'number' ? { field: this.name, operator: '<', value } : this.expr().lt(value);
   }
 
-  gte(value: number): FilterCondition {
-    return { field: this.name, operator: '>=', value };
+  gte(value: number): FilterCondition;
+  gte(value: Field | Expression): ExpressionFilter;
+  gte(value: Operand): FilterCondition | ExpressionFilter {
+    return typeof value === 'number' ? { field: this.name, operator: '>=', value } : this.expr().gte(value);
   }
 
-  lte(value: number): FilterCondition {
-    return { field: this.name, operator: '<=', value };
+  lte(value: number): FilterCondition;
+  lte(value: Field | Expression): ExpressionFilter;
+  lte(value: Operand): FilterCondition | ExpressionFilter {
+    return typeof value === 'number' ? { field: this.name, operator: '<=', value } : this.expr().lte(value);
   }
 
-  eq(value: any): FilterCondition {
-    return { field: this.name, operator: '=', value };
+  eq(value: Field | Expression): ExpressionFilter;
+  eq(value: any): FilterCondition;
+  eq(value: any): FilterCondition | ExpressionFilter {
+    return isOperandRef(value) ? this.expr().eq(value) : { field: this.name, operator: '=', value };
   }
 
-  neq(value: any): FilterCondition {
-    return { field: this.name, operator: '!=', value };
+  neq(value: Field | Expression): ExpressionFilter;
+  neq(value: any): FilterCondition;
+  neq(value: any): FilterCondition | ExpressionFilter {
+    return isOperandRef(value) ? this.expr().neq(value) : { field: this.name, operator: '!=', value };
   }
 
   between(min: number, max: number): FilterCondition {
@@ -52,6 +77,86 @@ export class Field {
   withInterval(interval: string): Field {
     return new Field(`${this.name}|${interval}`, `${this.label} (${interval})`, this.format);
   }
+
+  // Arithmetic starts a computed expression, e.g. PRICE.div(WEEK_52_HIGH).sub(1)
+  expr(): Expression {
+    return new Expression({ kind: 'field', name: this.name });
+  }
+
+  add(other: Operand): Expression { return this.expr().add(other); }
+  sub(other: Operand): Expression { return this.expr().sub(other); }
+  mul(other: Operand): Expression { return this.expr().mul(other); }
+  div(other: Operand): Expression { return this.expr().div(other); }
+}
+
+const isOperandRef = (value: unknown): value is Field | Expression =>
+  value instanceof Field || value instanceof Expression;
+
+export class Expression {
+  constructor(public node: ExpressionNode) {}
+
+  static from(operand: Operand): Expression {
+    if (operand instanceof Expression) return operand;
+    if (operand instanceof Field) return operand.expr();
+    return new Expression({ kind: 'number', value: operand });
+  }
+
+  /** Parse user-entered source, e.g. `close / 52_week_high - 1` */
+  static parse(source: string): Expression {
+    return new Expression(parseExpression(source));
+  }
+
+  private binary(op: BinaryOperator, other: Operand): Expression {
+    return new Expression({ kind: 'binary', op, left: this.node, right: Expression.from(other).node });
+  }
+
+  private compare(op: BinaryOperator, other: Operand): ExpressionFilter {
+    return { expression: this.binary(op, other).toString() };
+  }
+
+  add(other: Operand): Expression { return this.binary('+', other); }
+  sub(other: Operand): Expression { return this.binary('-', other); }
+  mul(other: Operand): Expression { return this.binary('*', other); }
+  div(other: Operand): Expression { return this.binary('/', other); }
+
+  gt(other: Operand): ExpressionFilter { return this.compare('>', other); }
+  lt(other: Operand): ExpressionFilter { return this.compare('<', other); }
+  gte(other: Operand): ExpressionFilter { return this.compare('>=', other); }
+  lte(other: Operand): ExpressionFilter { return this.compare('<=', other); }
+  eq(other: Operand): ExpressionFilter { return this.compare('=', other); }
+  neq(other: Operand): ExpressionFilter { return this.compare('!=', other); }
+
+  /** Turn this expression into a named result column */
+  as(label: string, format: FormulaColumn['format'] = 'number'): FormulaColumn {
+    return createFormulaColumn(label, this.toString(), format);
+  }
+
+  toString(): string {
+    return formatExpression(this.node);
+  }
+}
+
+// ---- BOOLEAN COMBINATORS ----
+
+const combine = (op: 'and' | 'or', filters: ScreenerFilter[]): ExpressionFilter => {
+  const nodes = filters.map(f => parseExpression(filterToExpression(f)));
+  if (nodes.length === 0) return { expression: op === 'and' ? '1' : '0' };
+  const node = nodes.reduce((left, right) => ({ kind: 'binary', op, left, right }));
+  return { expression: formatExpression(node) };
+};
+
+/** All filters must match, e.g. and(PRICE.gt(SMA50), RSI.lt(70)) */
+export function and(...filters: ScreenerFilter[]): ExpressionFilter {
+  return combine('and', filters);
+}
+
+/** Any filter may match */
+export function or(...filters: ScreenerFilter[]): ExpressionFilter {
+  return combine('or', filters);
+}
+
+export function not(filter: ScreenerFilter): ExpressionFilter {
+  return { expression: formatExpression({ kind: 'unary', op: 'not', arg: parseExpression(filterToExpression(filter)) }) };
 }
 
 // ---- STOCK FIELDS ----
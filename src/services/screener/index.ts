@@ -5,4 +5,6 @@ export { MarketScreener, type FilterCondition } from './service';
 export * from './markets';
 export * from './financialFields';
 export { generateAllTechnicalFields, ALL_TIMEFRAME_TECHNICAL_FIELDS } from './technicalFields';
-export { Field, StockField, CryptoField, ForexField, FuturesField, BondField } from './fluentApi';
+export { Field, Expression, and, or, not, type Operand, StockField, CryptoField, ForexField, FuturesField, BondField } from './fluentApi';
+export * from './expressions';
+export * from './snapshots';
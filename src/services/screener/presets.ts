@@ -4,6 +4,7 @@
 // ============================================
 
 import { FieldDef, ALL_FIELDS, ScreenerType } from './fields';
+import type { FormulaColumn } from './expressions';
 
 // ---- FIELD PRESETS (curated column groups) ----
 
@@ -64,11 +65,15 @@ export interface StrategyPreset {
   label: string;
   emoji: string;
   screeners: ScreenerType[];
-  category: 'momentum' | 'value' | 'technical' | 'volume' | 'dividend' | 'financial' | 'custom';
+  category: 'momentum' | 'value' | 'technical' | 'volume' | 'dividend' | 'financial' | 'custom' | 'user';
   description: string;
   filters: { field: string; operator: string; value: any }[];
   columns: string[];
   sort?: { field: string; direction: 'asc' | 'desc' };
+  /** Boolean expression filters, e.g. `close > SMA50 AND RSI < 70` */
+  expressions?: string[];
+  /** Computed columns, referenced from `columns` by their id */
+  formulas?: FormulaColumn[];
 }
 
 export const STRATEGY_PRESETS: StrategyPreset[] = [
@@ -318,9 +323,41 @@ export function getPresetsForScreener(type: ScreenerType): FieldPreset[] {
 }
 
 export function getStrategiesForScreener(type: ScreenerType): StrategyPreset[] {
-  return STRATEGY_PRESETS.filter(s => s.screeners.includes(type));
+  return [...STRATEGY_PRESETS, ...loadCustomStrategies()].filter(s => s.screeners.includes(type));
 }
 
 export function getStrategyCategories(): string[] {
-  return [...new Set(STRATEGY_PRESETS.map(s => s.category))];
+  return [...new Set([...STRATEGY_PRESETS, ...loadCustomStrategies()].map(s => s.category))];
+}
+
+// ---- USER STRATEGIES (localStorage) ----
+
+const CUSTOM_STRATEGIES_KEY = 'screener-custom-strategies';
+
+export function loadCustomStrategies(): StrategyPreset[] {
+  try {
+    const saved = localStorage.getItem(CUSTOM_STRATEGIES_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error('Failed to load screener strategies:', e);
+  }
+  return [];
+}
+
+export function saveCustomStrategy(strategy: Omit<StrategyPreset, 'id' | 'category'> & { id?: string }): StrategyPreset {
+  const strategies = loadCustomStrategies();
+  const saved: StrategyPreset = {
+    ...strategy,
+    id: strategy.id || `user_${Date.now()}`,
+    category: 'user',
+  };
+  const existing = strategies.findIndex(s => s.id === saved.id);
+  if (existing >= 0) strategies[existing] = saved;
+  else strategies.push(saved);
+  localStorage.setItem(CUSTOM_STRATEGIES_KEY, JSON.stringify(strategies));
+  return saved;
+}
+
+export function deleteCustomStrategy(id: string): void {
+  localStorage.setItem(CUSTOM_STRATEGIES_KEY, JSON.stringify(loadCustomStrategies().filter(s => s.id !== id)));
 }
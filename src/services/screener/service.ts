@@ -5,6 +5,17 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { FieldDef, ScreenerType, ALL_FIELDS, getFieldsForScreener } from './fields';
+import {
+  ExpressionFilter,
+  FormulaColumn,
+  ScreenerFilter,
+  applyFormulas,
+  expressionFields,
+  isExpressionFilter,
+  isFormulaColumn,
+  matchesExpression,
+  parseExpression,
+} from './expressions';
 
 export interface FilterCondition {
   field: string;
@@ -12,9 +23,15 @@ export interface FilterCondition {
   value: any;
 }
 
+// Full scans for expression filters / formula sorts: rows per tv-screener request, and the most fetched
+const SCAN_PAGE_SIZE = 2000;
+const MAX_SCAN_ROWS = 20000;
+
 export class MarketScreener {
   private type: ScreenerType;
   private filters: FilterCondition[] = [];
+  private expressionFilters: ExpressionFilter[] = [];
+  private formulas: FormulaColumn[] = [];
   private selectedColumns: string[] = [];
   private sortConfig?: { field: string; direction: 'asc' | 'desc' };
   private rangeConfig: [number, number] = [0, 150];
@@ -31,8 +48,23 @@ export class MarketScreener {
     return this;
   }
 
-  where(condition: FilterCondition): this {
-    this.filters.push(condition);
+  /** Expression filters are validated here and evaluated client-side over the full result set */
+  where(condition: ScreenerFilter): this {
+    if (isExpressionFilter(condition)) {
+      parseExpression(condition.expression);
+      this.expressionFilters.push(condition);
+    } else {
+      this.filters.push(condition);
+    }
+    return this;
+  }
+
+  /** Add computed columns; their values appear on each row under `column.id` */
+  compute(...columns: FormulaColumn[]): this {
+    columns.forEach(column => {
+      parseExpression(column.formula);
+      this.formulas = [...this.formulas.filter(f => f.id !== column.id), column];
+    });
     return this;
   }
 
@@ -64,37 +96,126 @@ export class MarketScreener {
   getType(): ScreenerType { return this.type; }
   getFilters(): FilterCondition[] { return this.filters; }
   getColumns(): string[] { return this.selectedColumns; }
+  getExpressionFilters(): ExpressionFilter[] { return this.expressionFilters; }
+  getFormulas(): FormulaColumn[] { return this.formulas; }
+
+  /** Everything that decides which rows come back and in what order; stable across runs */
+  getDefinition(): string {
+    return JSON.stringify({
+      type: this.type,
+      filters: this.filters,
+      expressions: this.expressionFilters.map(f => f.expression),
+      formulas: this.formulas.map(f => [f.id, f.formula]),
+      sort: this.sortConfig ?? null,
+      markets: this.marketFilter ?? null,
+      index: this.indexFilter ?? null,
+      search: this.searchQuery ?? null,
+    });
+  }
 
-  async get(): Promise<{ data: any[]; totalCount: number; error?: string; fallback?: boolean }> {
-    try {
-      const response = await supabase.functions.invoke('tv-screener', {
-        body: {
-          type: this.type,
-          columns: this.selectedColumns,
-          filters: this.filters,
-          sort: this.sortConfig ? {
-            sortBy: this.sortConfig.field,
-            sortOrder: this.sortConfig.direction,
-          } : undefined,
-          range: this.rangeConfig,
-          search: this.searchQuery,
-          markets: this.marketFilter,
-          index: this.indexFilter,
-        },
+  private hasClientSideWork(): boolean {
+    return this.expressionFilters.length > 0 || this.formulas.length > 0;
+  }
+
+  // Formula columns are not TradingView fields: request the fields they reference instead
+  private extraColumns(): string[] {
+    const columns = new Set<string>();
+    [...this.formulas.map(f => f.formula), ...this.expressionFilters.map(f => f.expression)].forEach(source => {
+      expressionFields(parseExpression(source)).forEach(name => {
+        if (!isFormulaColumn(name)) columns.add(name);
       });
+    });
+    return [...columns];
+  }
 
-      if (response.error) {
-        console.warn('[MarketScreener] Edge function error, using fallback:', response.error);
-        return this.getFallbackData();
-      }
+  // Rows past the client-side filters; sorts locally when the sort key is a formula
+  private postProcess(data: any[]): any[] {
+    if (!this.hasClientSideWork()) return data;
+    let rows = data.map(row => applyFormulas(row, this.formulas));
+    if (this.expressionFilters.length > 0) {
+      rows = rows.filter(row => this.expressionFilters.every(f => matchesExpression(f.expression, row)));
+    }
+    if (this.sortConfig && isFormulaColumn(this.sortConfig.field)) {
+      const { field, direction } = this.sortConfig;
+      rows.sort((a, b) => {
+        const aVal = a[field] ?? -Infinity;
+        const bVal = b[field] ?? -Infinity;
+        return direction === 'asc' ? aVal - bVal : bVal - aVal;
+      });
+    }
+    return rows;
+  }
+
+  // Expression filters and formula sorts need every matching row, not just the requested page
+  private needsFullScan(): boolean {
+    return this.expressionFilters.length > 0 || (!!this.sortConfig && isFormulaColumn(this.sortConfig.field));
+  }
 
-      const result = response.data;
-      if (result.fallback || !result.data || result.data.length === 0) {
-        console.log('[MarketScreener] No API data, using fallback');
-        return this.getFallbackData();
+  // One tv-screener request; null when the API fails or has no data
+  private async scan(range: [number, number]): Promise<{ data: any[]; totalCount: number } | null> {
+    const response = await supabase.functions.invoke('tv-screener', {
+      body: {
+        type: this.type,
+        columns: this.selectedColumns.filter(c => !isFormulaColumn(c)),
+        extraColumns: this.extraColumns(),
+        filters: this.filters,
+        sort: this.sortConfig && !isFormulaColumn(this.sortConfig.field) ? {
+          sortBy: this.sortConfig.field,
+          sortOrder: this.sortConfig.direction,
+        } : undefined,
+        range,
+        search: this.searchQuery,
+        markets: this.marketFilter,
+        index: this.indexFilter,
+      },
+    });
+
+    if (response.error) {
+      console.warn('[MarketScreener] Edge function error:', response.error);
+      return null;
+    }
+    const result = response.data;
+    if (result.fallback || !result.data) return null;
+    return { data: result.data, totalCount: result.totalCount ?? result.data.length };
+  }
+
+  async get(): Promise<{ data: any[]; totalCount: number; error?: string; fallback?: boolean }> {
+    try {
+      if (!this.needsFullScan()) {
+        const result = await this.scan(this.rangeConfig);
+        if (!result || result.data.length === 0) {
+          console.log('[MarketScreener] No API data, using fallback');
+          return this.getFallbackData();
+        }
+        return { data: this.postProcess(result.data), totalCount: result.totalCount };
       }
 
-      return { data: result.data, totalCount: result.totalCount };
+      // Page through everything the server-side filters match, then filter / sort / slice here
+      const rows: any[] = [];
+      let totalCount = Infinity;
+      while (rows.length < Math.min(totalCount, MAX_SCAN_ROWS)) {
+        const page = await this.scan([rows.length, Math.min(rows.length + SCAN_PAGE_SIZE, MAX_SCAN_ROWS)]);
+        if (!page) {
+          if (rows.length > 0) throw new Error('Screener scan failed part-way');
+          console.log('[MarketScreener] No API data, using fallback');
+          return this.getFallbackData();
+        }
+        totalCount = page.totalCount;
+        rows.push(...page.data);
+        if (page.data.length === 0) break;
+      }
+      if (rows.length === 0) return this.getFallbackData();
+
+      const matched = this.postProcess(rows);
+      const [from, to] = this.rangeConfig;
+      const truncated = totalCount > rows.length;
+      return {
+        data: matched.slice(from, to),
+        totalCount: matched.length,
+        error: truncated
+          ? `Expressions were evaluated on the first ${rows.length.toLocaleString()} of ${totalCount.toLocaleString()} rows; narrow the filters for complete results`
+          : undefined,
+      };
     } catch (error) {
       console.warn('[MarketScreener] Error, using fallback:', error);
       return this.getFallbackData();
@@ -115,10 +236,10 @@ export class MarketScreener {
     }
 
     // Apply filters locally
-    data = data.filter(item => this.applyLocalFilters(item));
+    data = this.postProcess(data.filter(item => this.applyLocalFilters(item)));
 
     // Apply sort
-    if (this.sortConfig) {
+    if (this.sortConfig && !isFormulaColumn(this.sortConfig.field)) {
       const { field, direction } = this.sortConfig;
       data.sort((a, b) => {
         const aVal = a[field] ?? 0;
@@ -0,0 +1,350 @@
+// ============================================
+// Screener Snapshots - result history & diffing
+// localStorage cache, synced to Supabase when signed in
+// ============================================
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { ScreenerType } from './fields';
+import type { MarketScreener } from './service';
+
+export interface SnapshotRow {
+  symbol: string;
+  name: string;
+  /** 1-based position in the result list */
+  rank: number;
+  values: Record<string, number | string | null>;
+}
+
+export interface ScreenerSnapshot {
+  id: string;
+  /** Strategy id, or `filters:<type>:<hash>` for ad-hoc filter panel runs */
+  screenId: string;
+  screenLabel: string;
+  type: ScreenerType;
+  columns: string[];
+  rows: SnapshotRow[];
+  /** Matches on the screener side; more than `rows.length` when only the first page was captured */
+  totalCount: number;
+  createdAt: number;
+  source: 'local' | 'cloud';
+}
+
+export interface ScreenRef {
+  id: string;
+  label: string;
+}
+
+export interface RankChange {
+  symbol: string;
+  name: string;
+  from: number;
+  to: number;
+  /** Positive when the symbol moved up the list */
+  delta: number;
+}
+
+export interface MetricChange {
+  symbol: string;
+  name: string;
+  field: string;
+  from: number;
+  to: number;
+  change: number;
+  changePct: number | null;
+}
+
+export interface SnapshotDiff {
+  /**
+   * Set when either side holds only the first page of its matches: entries and exits are
+   * then into and out of the top N rows both captured, not the full match set
+   */
+  topN: number | null;
+  entered: SnapshotRow[];
+  dropped: SnapshotRow[];
+  rankChanges: RankChange[];
+  metricChanges: MetricChange[];
+}
+
+const SNAPSHOTS_KEY = 'screener-snapshots';
+const WATCHED_KEY = 'screener-snapshot-alerts';
+const MAX_LOCAL_SNAPSHOTS = 200;
+const MAX_SNAPSHOTS_PER_SCREEN = 60;
+const SKIP_COLUMNS = new Set(['symbol', 'name', 'description', 'logoid']);
+
+const MAX_LABEL_FILTERS = 3;
+
+// FNV-1a: short, stable ids for filter sets
+function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/** Filter panel runs get one history per filter set, so changing the filters starts a new one */
+export function adhocScreen(screener: MarketScreener): ScreenRef {
+  const type = screener.getType();
+  const names = [
+    ...screener.getFilters().map(f => f.field),
+    ...screener.getExpressionFilters().map(f => f.expression),
+  ];
+  const summary = names.length === 0
+    ? 'no filters'
+    : names.slice(0, MAX_LABEL_FILTERS).join(', ') + (names.length > MAX_LABEL_FILTERS ? ` +${names.length - MAX_LABEL_FILTERS}` : '');
+  return {
+    id: `filters:${type}:${hashString(screener.getDefinition())}`,
+    label: `Filter Panel (${type.toUpperCase()}): ${summary}`,
+  };
+}
+
+export const isPartialSnapshot = (snapshot: ScreenerSnapshot) => snapshot.totalCount > snapshot.rows.length;
+
+// ---- CAPTURE ----
+
+export function createSnapshot(
+  screen: ScreenRef,
+  type: ScreenerType,
+  columns: string[],
+  data: any[],
+  totalCount = data.length,
+): ScreenerSnapshot {
+  const snapshotColumns = (columns.length > 0 ? columns : Object.keys(data[0] ?? {}))
+    .filter(c => !SKIP_COLUMNS.has(c));
+
+  const rows: SnapshotRow[] = data.map((item, index) => {
+    const values: SnapshotRow['values'] = {};
+    snapshotColumns.forEach(col => {
+      const value = item[col];
+      values[col] = typeof value === 'number' || typeof value === 'string' ? value : null;
+    });
+    return {
+      symbol: item.symbol || item.name || `#${index + 1}`,
+      name: item.name || item.symbol?.split(':').pop() || `#${index + 1}`,
+      rank: index + 1,
+      values,
+    };
+  });
+
+  return {
+    id: crypto.randomUUID(),
+    screenId: screen.id,
+    screenLabel: screen.label,
+    type,
+    columns: snapshotColumns,
+    rows,
+    totalCount,
+    createdAt: Date.now(),
+    source: 'local',
+  };
+}
+
+// ---- STORAGE ----
+
+function loadLocalSnapshots(): ScreenerSnapshot[] {
+  try {
+    const saved = localStorage.getItem(SNAPSHOTS_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error('Failed to load screener snapshots:', e);
+  }
+  return [];
+}
+
+function saveLocalSnapshots(snapshots: ScreenerSnapshot[]): void {
+  // Keep the newest per screen, then cap the total to stay inside the quota
+  const perScreen = new Map<string, number>();
+  const kept = [...snapshots]
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .filter(s => {
+      const count = (perScreen.get(s.screenId) ?? 0) + 1;
+      perScreen.set(s.screenId, count);
+      return count <= MAX_SNAPSHOTS_PER_SCREEN;
+    })
+    .slice(0, MAX_LOCAL_SNAPSHOTS);
+  try {
+    localStorage.setItem(SNAPSHOTS_KEY, JSON.stringify(kept));
+  } catch (e) {
+    console.error('Failed to save screener snapshots:', e);
+  }
+}
+
+async function getUserId(): Promise<string | null> {
+  try {
+    const { data } = await supabase.auth.getUser();
+    return data.user?.id ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Saves locally, and to the cloud when `cloud` is set and a user is signed in */
+export async function saveSnapshot(snapshot: ScreenerSnapshot, cloud = true): Promise<ScreenerSnapshot> {
+  let saved = snapshot;
+  const userId = cloud ? await getUserId() : null;
+
+  if (userId) {
+    const { error } = await supabase.from('screener_snapshots').insert({
+      id: snapshot.id,
+      user_id: userId,
+      screen_id: snapshot.screenId,
+      screen_label: snapshot.screenLabel,
+      screener_type: snapshot.type,
+      columns: snapshot.columns,
+      rows: snapshot.rows as unknown as Json,
+      total_count: snapshot.totalCount,
+      created_at: new Date(snapshot.createdAt).toISOString(),
+    });
+    if (error) console.warn('[Snapshots] Cloud save failed, kept locally:', error.message);
+    else saved = { ...snapshot, source: 'cloud' };
+  }
+
+  saveLocalSnapshots([saved, ...loadLocalSnapshots().filter(s => s.id !== saved.id)]);
+  return saved;
+}
+
+/** Newest first; cloud rows win over their local copies */
+export async function loadSnapshots(screenId?: string): Promise<ScreenerSnapshot[]> {
+  const local = loadLocalSnapshots().filter(s => !screenId || s.screenId === screenId);
+  const userId = await getUserId();
+  if (!userId) return local;
+
+  try {
+    let query = supabase
+      .from('screener_snapshots')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(MAX_LOCAL_SNAPSHOTS);
+    if (screenId) query = query.eq('screen_id', screenId);
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const cloud: ScreenerSnapshot[] = (data || []).map(row => ({
+      id: row.id,
+      screenId: row.screen_id,
+      screenLabel: row.screen_label,
+      type: row.screener_type as ScreenerType,
+      columns: row.columns || [],
+      rows: (row.rows as unknown as SnapshotRow[]) || [],
+      totalCount: row.total_count ?? 0,
+      createdAt: new Date(row.created_at).getTime(),
+      source: 'cloud' as const,
+    }));
+    const cloudIds = new Set(cloud.map(s => s.id));
+    return [...cloud, ...local.filter(s => !cloudIds.has(s.id))]
+      .sort((a, b) => b.createdAt - a.createdAt);
+  } catch (e) {
+    console.warn('[Snapshots] Cloud load failed, using local history:', e);
+    return local;
+  }
+}
+
+export async function deleteSnapshot(snapshot: ScreenerSnapshot): Promise<void> {
+  saveLocalSnapshots(loadLocalSnapshots().filter(s => s.id !== snapshot.id));
+  if (snapshot.source === 'cloud') {
+    const { error } = await supabase.from('screener_snapshots').delete().eq('id', snapshot.id);
+    if (error) console.warn('[Snapshots] Cloud delete failed:', error.message);
+  }
+}
+
+// ---- DIFF ----
+
+/**
+ * What changed going from `previous` to `current`. When only the first page of
+ * matches was captured, the top N rows both sides hold are the watched list:
+ * a symbol past the page may still match, but it has left the top N.
+ * Rank and metric changes cover the symbols in both.
+ */
+export function diffSnapshots(previous: ScreenerSnapshot, current: ScreenerSnapshot, limit = 20): SnapshotDiff {
+  const before = new Map(previous.rows.map(r => [r.symbol, r]));
+  const after = new Map(current.rows.map(r => [r.symbol, r]));
+
+  const topN = isPartialSnapshot(previous) || isPartialSnapshot(current)
+    ? Math.min(previous.rows.length, current.rows.length)
+    : null;
+  const inTop = (row: SnapshotRow | undefined) => !!row && (topN === null || row.rank <= topN);
+  const entered = current.rows.filter(r => inTop(r) && !inTop(before.get(r.symbol)));
+  const dropped = previous.rows.filter(r => inTop(r) && !inTop(after.get(r.symbol)));
+
+  const rankChanges: RankChange[] = [];
+  const metricChanges: MetricChange[] = [];
+  const sharedColumns = current.columns.filter(c => previous.columns.includes(c));
+
+  current.rows.forEach(row => {
+    const old = before.get(row.symbol);
+    if (!old) return;
+    if (old.rank !== row.rank) {
+      rankChanges.push({ symbol: row.symbol, name: row.name, from: old.rank, to: row.rank, delta: old.rank - row.rank });
+    }
+    sharedColumns.forEach(field => {
+      const from = old.values[field];
+      const to = row.values[field];
+      if (typeof from !== 'number' || typeof to !== 'number' || from === to) return;
+      metricChanges.push({
+        symbol: row.symbol,
+        name: row.name,
+        field,
+        from,
+        to,
+        change: to - from,
+        changePct: from !== 0 ? ((to - from) / Math.abs(from)) * 100 : null,
+      });
+    });
+  });
+
+  rankChanges.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+  // Relative change ranks metrics of different scales together
+  metricChanges.sort((a, b) => Math.abs(b.changePct ?? 0) - Math.abs(a.changePct ?? 0));
+
+  return {
+    topN,
+    entered,
+    dropped,
+    rankChanges: rankChanges.slice(0, limit),
+    metricChanges: metricChanges.slice(0, limit),
+  };
+}
+
+// ---- ENTRY ALERTS ----
+
+export function getWatchedScreens(): ScreenRef[] {
+  try {
+    const saved = localStorage.getItem(WATCHED_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error('Failed to load watched screens:', e);
+  }
+  return [];
+}
+
+export function isScreenWatched(screenId: string): boolean {
+  return getWatchedScreens().some(s => s.id === screenId);
+}
+
+export function setScreenWatched(screen: ScreenRef, watched: boolean): void {
+  const others = getWatchedScreens().filter(s => s.id !== screen.id);
+  localStorage.setItem(WATCHED_KEY, JSON.stringify(watched ? [...others, screen] : others));
+}
+
+/**
+ * Snapshot a run of a watched screen and return the symbols that entered
+ * since its previous snapshot, or its top N when only a page was captured.
+ * The first snapshot of a screen is a baseline and reports nothing.
+ */
+export async function recordWatchedRun(
+  screen: ScreenRef,
+  type: ScreenerType,
+  columns: string[],
+  data: any[],
+  totalCount?: number,
+): Promise<{ snapshot: ScreenerSnapshot; entered: SnapshotRow[]; topN: number | null } | null> {
+  if (!isScreenWatched(screen.id) || data.length === 0) return null;
+  const [previous] = await loadSnapshots(screen.id);
+  const snapshot = await saveSnapshot(createSnapshot(screen, type, columns, data, totalCount));
+  if (!previous) return { snapshot, entered: [], topN: null };
+  const { entered, topN } = diffSnapshots(previous, snapshot);
+  return { snapshot, entered, topN };
+}
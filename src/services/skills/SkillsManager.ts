@@ -1,7 +1,11 @@
 // SkillsManager.ts - SuperClaw Skills System
 // Create, execute, and manage AI-powered automation skills
+// With several tabs open only the one holding the scheduler lock arms timers and
+// catches up missed runs; the others follow through storage events and take over
+// when it closes.
 
 import { supabase } from '@/integrations/supabase/client';
+import { cronRunsBetween, nextCronRun, nextCronRuns, parseCron } from './cron';
 
 export interface Skill {
   id: string;
@@ -11,7 +15,12 @@ export interface Skill {
   enabled: boolean;
   code: string;
   permissions: string[];
+  /** 5-field cron expression, e.g. "30 9 * * MON-FRI" */
   schedule?: string;
+  /** IANA zone for the schedule; defaults to the browser's zone */
+  timezone?: string;
+  /** Run once on load when scheduled runs were missed while the app was closed */
+  catchUp?: boolean;
   lastRun?: number;
   successRate?: number;
   runCount?: number;
@@ -35,11 +44,23 @@ export interface SkillExecutionResult {
   executionTime: number;
 }
 
+const LAST_RUN_STORAGE_KEY = 'skills-last-run';
+/** Bumped after a local edit so other tabs reload their skills */
+const CHANGED_STORAGE_KEY = 'skills-changed';
+const SCHEDULER_LOCK = 'able-skills-scheduler';
+// setTimeout overflows past ~24.8 days; longer waits re-arm in steps
+const MAX_TIMER_DELAY = 2_147_000_000;
+
 class SkillsManagerClass {
   private skills: Map<string, Skill> = new Map();
   private scheduledJobs: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private nextRuns: Map<string, number> = new Map();
+  private runningSkills: Set<string> = new Set();
+  private listeners: Set<() => void> = new Set();
   private skillsLoaded = false;
   private userId: string | null = null;
+  private scheduler = false;
+  private schedulerRequested = false;
 
   /**
    * Initialize with user ID
@@ -47,6 +68,7 @@ class SkillsManagerClass {
   async initialize(userId: string): Promise<void> {
     this.userId = userId;
     await this.loadSkills();
+    this.claimScheduler();
   }
 
   /**
@@ -71,8 +93,12 @@ class SkillsManagerClass {
       return;
     }
 
+    this.scheduledJobs.forEach((_, id) => this.unscheduleSkill(id));
     this.skills.clear();
+    const localLastRuns = this.loadLocalLastRuns();
     data?.forEach((skill: any) => {
+      const dbLastRun = skill.last_run ? new Date(skill.last_run).getTime() : undefined;
+      const lastRun = Math.max(dbLastRun ?? 0, localLastRuns[skill.id] ?? 0) || undefined;
       const loadedSkill: Skill = {
         id: skill.id,
         name: skill.name,
@@ -82,7 +108,9 @@ class SkillsManagerClass {
         code: skill.code,
         permissions: skill.permissions || [],
         schedule: skill.schedule,
-        lastRun: skill.last_run ? new Date(skill.last_run).getTime() : undefined,
+        timezone: skill.timezone || undefined,
+        catchUp: skill.catch_up || false,
+        lastRun,
         successRate: skill.success_rate || 0,
         runCount: skill.run_count || 0,
         createdBy: skill.created_by || 'system',
@@ -99,6 +127,12 @@ class SkillsManagerClass {
 
     this.skillsLoaded = true;
     console.log(`✅ Loaded ${this.skills.size} skills`);
+    this.notify();
+
+    if (!this.scheduler) return;
+    for (const skill of this.skills.values()) {
+      this.catchUpMissedRuns(skill);
+    }
   }
 
   /**
@@ -112,9 +146,17 @@ class SkillsManagerClass {
     if (!skill.enabled) {
       return { success: false, error: `Skill disabled: ${skill.name}`, executionTime: 0 };
     }
+    // Concurrency guard: a slow run never overlaps the next one
+    if (this.runningSkills.has(skillId)) {
+      return { success: false, error: `Skill already running: ${skill.name}`, executionTime: 0 };
+    }
 
     console.log(`⚡ Executing skill: ${skill.name}`);
     const startTime = Date.now();
+    this.runningSkills.add(skillId);
+    skill.lastRun = startTime;
+    this.saveLocalLastRun(skillId, startTime);
+    this.notify();
     let success = false;
     let result: any = null;
     let errorMessage: string | undefined;
@@ -134,6 +176,8 @@ class SkillsManagerClass {
       console.error(`❌ Skill failed: ${skill.name}`, error);
       errorMessage = error instanceof Error ? error.message : String(error);
       result = { error: errorMessage };
+    } finally {
+      this.runningSkills.delete(skillId);
     }
 
     const executionTime = Date.now() - startTime;
@@ -254,6 +298,8 @@ Return ONLY the function body code, no markdown, no explanation.`;
         code: skill.code,
         permissions: skill.permissions,
         schedule: skill.schedule,
+        timezone: skill.timezone,
+        catch_up: skill.catchUp ?? false,
         created_by: skill.createdBy || 'user',
         version: skill.version || 1
       });
@@ -262,6 +308,11 @@ Return ONLY the function body code, no markdown, no explanation.`;
     }
 
     this.skills.set(skill.id, skill);
+    if (skill.enabled && skill.schedule) {
+      this.scheduleSkill(skill.id, skill.schedule);
+    }
+    this.notify();
+    this.announceChange();
     return skill;
   }
 
@@ -302,6 +353,8 @@ Return ONLY the function body code, no markdown, no explanation.`;
     } else {
       this.unscheduleSkill(skillId);
     }
+    this.notify();
+    this.announceChange();
   }
 
   /**
@@ -323,9 +376,19 @@ Return ONLY the function body code, no markdown, no explanation.`;
         code: skill.code,
         permissions: skill.permissions,
         schedule: skill.schedule,
+        timezone: skill.timezone ?? null,
+        catch_up: skill.catchUp ?? false,
         version: skill.version
       })
       .eq('id', skillId);
+
+    if (skill.enabled && skill.schedule) {
+      this.scheduleSkill(skillId, skill.schedule);
+    } else {
+      this.unscheduleSkill(skillId);
+    }
+    this.notify();
+    this.announceChange();
   }
 
   /**
@@ -334,11 +397,48 @@ Return ONLY the function body code, no markdown, no explanation.`;
   async deleteSkill(skillId: string): Promise<void> {
     this.unscheduleSkill(skillId);
     this.skills.delete(skillId);
+    this.saveLocalLastRun(skillId, undefined);
+    this.notify();
 
     await supabase
       .from('agent_skills')
       .delete()
       .eq('id', skillId);
+    this.announceChange();
+  }
+
+  /**
+   * Upcoming scheduled runs, for previews
+   */
+  getNextRuns(skillId: string, count = 3): Date[] {
+    const skill = this.skills.get(skillId);
+    if (!skill?.schedule) return [];
+    try {
+      return nextCronRuns(skill.schedule, count, Date.now(), skill.timezone);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Next armed run, or undefined when the skill is not scheduled
+   */
+  getNextRun(skillId: string): number | undefined {
+    return this.nextRuns.get(skillId);
+  }
+
+  isRunning(skillId: string): boolean {
+    return this.runningSkills.has(skillId);
+  }
+
+  /**
+   * Subscribe to skill list / run state changes
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   /**
@@ -391,7 +491,7 @@ Return ONLY the function body code, no markdown, no explanation.`;
     if (!skill) return;
 
     skill.runCount = (skill.runCount || 0) + 1;
-    skill.lastRun = Date.now();
+    skill.lastRun = skill.lastRun ?? Date.now();
 
     // Update success rate (exponential moving average)
     const alpha = 0.2;
@@ -408,32 +508,152 @@ Return ONLY the function body code, no markdown, no explanation.`;
         run_count: skill.runCount
       })
       .eq('id', skillId);
+    this.notify();
   }
 
   private scheduleSkill(skillId: string, cronSchedule: string): void {
-    // Simple interval-based scheduling
-    // Parse simple cron patterns (e.g., "*/5 * * * *" = every 5 minutes)
-    const intervalMatch = cronSchedule.match(/^\*\/(\d+)/);
-    if (intervalMatch) {
-      const minutes = parseInt(intervalMatch[1]);
-      const intervalMs = minutes * 60 * 1000;
-      
-      const job = setInterval(async () => {
-        console.log(`⏰ Running scheduled skill: ${skillId}`);
-        await this.executeSkill(skillId);
-      }, intervalMs);
-
-      this.scheduledJobs.set(skillId, job as unknown as ReturnType<typeof setTimeout>);
-      console.log(`⏰ Scheduled skill ${skillId}: every ${minutes} minutes`);
+    this.unscheduleSkill(skillId);
+
+    let next: Date | null;
+    try {
+      next = nextCronRun(parseCron(cronSchedule), Date.now(), this.skills.get(skillId)?.timezone);
+    } catch (error) {
+      console.warn(`⚠️ Invalid schedule for skill ${skillId}: ${cronSchedule}`, error);
+      return;
+    }
+    if (!next) {
+      console.warn(`⚠️ Schedule for skill ${skillId} never fires: ${cronSchedule}`);
+      return;
     }
+
+    this.nextRuns.set(skillId, next.getTime());
+    // Other tabs only track the next slot for display
+    if (!this.scheduler) return;
+    this.armTimer(skillId, cronSchedule, next.getTime());
+    console.log(`⏰ Scheduled skill ${skillId}: next run ${next.toISOString()}`);
+  }
+
+  private armTimer(skillId: string, cronSchedule: string, runAt: number): void {
+    const delay = runAt - Date.now();
+    const job = setTimeout(async () => {
+      if (Date.now() < runAt) {
+        this.armTimer(skillId, cronSchedule, runAt);
+        return;
+      }
+      // Re-arm first so a slow run does not delay the following slot
+      this.scheduleSkill(skillId, cronSchedule);
+      if (this.runningSkills.has(skillId)) {
+        console.log(`⏭️ Skipping scheduled run of ${skillId}: previous run still active`);
+        return;
+      }
+      console.log(`⏰ Running scheduled skill: ${skillId}`);
+      await this.executeSkill(skillId);
+    }, Math.min(Math.max(delay, 0), MAX_TIMER_DELAY));
+
+    this.scheduledJobs.set(skillId, job);
   }
 
   private unscheduleSkill(skillId: string): void {
     const job = this.scheduledJobs.get(skillId);
     if (job) {
-      clearInterval(job);
+      clearTimeout(job);
       this.scheduledJobs.delete(skillId);
     }
+    this.nextRuns.delete(skillId);
+  }
+
+  /**
+   * Missed slots since the last run are coalesced into one run
+   */
+  private async catchUpMissedRuns(skill: Skill): Promise<void> {
+    if (!skill.enabled || !skill.catchUp || !skill.schedule || !skill.lastRun) return;
+
+    let missed: Date[];
+    try {
+      missed = cronRunsBetween(skill.schedule, skill.lastRun, Date.now(), skill.timezone, 100);
+    } catch {
+      return;
+    }
+    if (missed.length === 0) return;
+
+    console.log(`🔁 Catching up ${skill.name}: ${missed.length}${missed.length === 100 ? '+' : ''} missed run(s) since ${new Date(skill.lastRun).toISOString()}`);
+    await this.executeSkill(skill.id, { catchUp: true, missedRuns: missed.map(d => d.toISOString()) });
+  }
+
+  /**
+   * Queue for the scheduler lock; the browser grants it to one tab at a time and hands
+   * it to the next waiting tab when the holder closes. Without Web Locks, every tab schedules.
+   */
+  private claimScheduler(): void {
+    if (this.schedulerRequested || typeof window === 'undefined') return;
+    this.schedulerRequested = true;
+    window.addEventListener('storage', this.handleStorage);
+
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    if (!locks) {
+      void this.becomeScheduler();
+      return;
+    }
+    locks
+      .request(SCHEDULER_LOCK, () => {
+        void this.becomeScheduler();
+        // Held until the tab goes away
+        return new Promise<void>(() => {});
+      })
+      .catch(error => console.warn('⚠️ Skills scheduler lock failed:', error));
+  }
+
+  private async becomeScheduler(): Promise<void> {
+    this.scheduler = true;
+    console.log('⏰ This tab now runs scheduled skills');
+    // Reload so last runs written by the previous scheduler tab are picked up
+    await this.loadSkills();
+  }
+
+  private handleStorage = (event: StorageEvent): void => {
+    if (event.key === CHANGED_STORAGE_KEY) {
+      void this.loadSkills();
+      return;
+    }
+    if (event.key !== LAST_RUN_STORAGE_KEY) return;
+    const runs = this.loadLocalLastRuns();
+    for (const skill of this.skills.values()) {
+      if (runs[skill.id] === undefined || runs[skill.id] === skill.lastRun) continue;
+      skill.lastRun = runs[skill.id];
+      if (!this.scheduler && skill.enabled && skill.schedule) this.scheduleSkill(skill.id, skill.schedule);
+    }
+    this.notify();
+  };
+
+  private announceChange(): void {
+    try {
+      localStorage.setItem(CHANGED_STORAGE_KEY, String(Date.now()));
+    } catch (error) {
+      console.warn('Failed to announce skill change:', error);
+    }
+  }
+
+  private loadLocalLastRuns(): Record<string, number> {
+    try {
+      return JSON.parse(localStorage.getItem(LAST_RUN_STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private saveLocalLastRun(skillId: string, lastRun: number | undefined): void {
+    const runs = this.loadLocalLastRuns();
+    if (lastRun === undefined) delete runs[skillId];
+    else runs[skillId] = lastRun;
+    try {
+      localStorage.setItem(LAST_RUN_STORAGE_KEY, JSON.stringify(runs));
+    } catch (error) {
+      console.warn('Failed to persist skill last-run times:', error);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
   }
 }
 
@@ -0,0 +1,290 @@
+// cron.ts - 5-field cron expressions with timezone support
+// minute hour day-of-month month day-of-week, e.g. "30 9 * * MON-FRI"
+
+export interface CronSchedule {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Day-of-month / day-of-week were restricted (not `*`) */
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+  /** IANA zone from a `CRON_TZ=` prefix */
+  timezone?: string;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  { name: 'day-of-week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronError';
+  }
+}
+
+function parseValue(token: string, spec: FieldSpec): number {
+  // Number('') is 0, so "1,,5" or "1-" would otherwise parse
+  if (token === '') throw new CronError(`Missing ${spec.name} value`);
+  const upper = token.toUpperCase();
+  const named = spec.names?.indexOf(upper) ?? -1;
+  const value = named >= 0 ? named + (spec.name === 'month' ? 1 : 0) : Number(token);
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new CronError(`Invalid ${spec.name} value "${token}" (${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new CronError(`Invalid step "${stepText}" in ${spec.name}`);
+
+    let start: number;
+    let end: number;
+    if (range === '*' || range === '?') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (end < start) throw new CronError(`Invalid ${spec.name} range "${range}"`);
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means from 5 to the end in steps of 15
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  // 7 is an alias for Sunday
+  if (spec.name === 'day-of-week' && values.delete(7)) values.add(0);
+  return values;
+}
+
+/** Parse "m h dom mon dow", a macro like @daily, optionally prefixed with CRON_TZ=Zone */
+export function parseCron(expression: string): CronSchedule {
+  let source = expression.trim();
+  let timezone: string | undefined;
+
+  const tzMatch = source.match(/^(?:CRON_)?TZ=(\S+)\s+(.*)$/);
+  if (tzMatch) {
+    timezone = tzMatch[1];
+    source = tzMatch[2].trim();
+    if (!isValidTimezone(timezone)) throw new CronError(`Unknown timezone "${timezone}"`);
+  }
+
+  const expanded = MACROS[source.toLowerCase()] ?? source;
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronError(`Expected 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((f, i) => parseField(f, FIELDS[i]));
+  return {
+    source: expression.trim(),
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    daysRestricted: fields[2] !== '*' && fields[2] !== '?',
+    weekdaysRestricted: fields[4] !== '*' && fields[4] !== '?',
+    timezone,
+  };
+}
+
+/** Returns the error message, or null when the expression is valid */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// =================== Timezone helpers ===================
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function localTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/** Wall-clock time in `timezone`, encoded as if it were UTC */
+function wallClock(instant: number, timezone: string): number {
+  const parts: Record<string, number> = {};
+  formatterFor(timezone).formatToParts(new Date(instant)).forEach(p => {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  });
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+}
+
+/**
+ * Instant for a wall-clock time. Ambiguous times (DST fall-back) take the
+ * earlier instant; times inside a DST gap move forward by the gap.
+ */
+function toInstant(wall: number, timezone: string): number {
+  const offsetBefore = wallClock(wall - DAY, timezone) - (wall - DAY);
+  const offsetAfter = wallClock(wall + DAY, timezone) - (wall + DAY);
+  const candidates = [wall - offsetBefore, wall - offsetAfter];
+  const valid = candidates.filter(instant => wallClock(instant, timezone) === wall);
+  return valid.length > 0 ? Math.min(...valid) : Math.max(...candidates);
+}
+
+// =================== Matching ===================
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.days.has(date.getUTCDate());
+  const dow = schedule.weekdays.has(date.getUTCDay());
+  // Standard cron: when both are restricted, either one may match
+  if (schedule.daysRestricted && schedule.weekdaysRestricted) return dom || dow;
+  if (schedule.daysRestricted) return dom;
+  if (schedule.weekdaysRestricted) return dow;
+  return true;
+}
+
+/**
+ * First run strictly after `after`. Walks wall-clock time in the schedule's
+ * zone, skipping whole months/days/hours that cannot match.
+ */
+export function nextCronRun(
+  expression: string | CronSchedule,
+  after: Date | number = Date.now(),
+  timezone?: string,
+): Date | null {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const zone = schedule.timezone ?? timezone ?? localTimezone();
+  const afterMs = typeof after === 'number' ? after : after.getTime();
+
+  let wall = Math.floor(wallClock(afterMs, zone) / MINUTE) * MINUTE + MINUTE;
+  // Four years covers Feb 29; impossible dates (e.g. "0 0 30 2 *") give up
+  const limit = wall + 4 * 366 * DAY;
+
+  while (wall < limit) {
+    const d = new Date(wall);
+    if (!schedule.months.has(d.getUTCMonth() + 1)) {
+      wall = Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1);
+      continue;
+    }
+    if (!dayMatches(schedule, d)) {
+      wall = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1);
+      continue;
+    }
+    if (!schedule.hours.has(d.getUTCHours())) {
+      wall = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), d.getUTCHours() + 1);
+      continue;
+    }
+    if (!schedule.minutes.has(d.getUTCMinutes())) {
+      wall += MINUTE;
+      continue;
+    }
+
+    const instant = toInstant(wall, zone);
+    if (instant > afterMs) return new Date(instant);
+    wall += MINUTE;
+  }
+
+  return null;
+}
+
+/** The next `count` runs after `from`, for previews */
+export function nextCronRuns(
+  expression: string | CronSchedule,
+  count: number,
+  from: Date | number = Date.now(),
+  timezone?: string,
+): Date[] {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const runs: Date[] = [];
+  let cursor: Date | number = from;
+  while (runs.length < count) {
+    const next = nextCronRun(schedule, cursor, timezone);
+    if (!next) break;
+    runs.push(next);
+    cursor = next;
+  }
+  return runs;
+}
+
+/** Scheduled times in (from, to], capped at `max` */
+export function cronRunsBetween(
+  expression: string | CronSchedule,
+  from: Date | number,
+  to: Date | number,
+  timezone?: string,
+  max = 1000,
+): Date[] {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const end = typeof to === 'number' ? to : to.getTime();
+  const runs: Date[] = [];
+  let cursor: Date | number = from;
+  while (runs.length < max) {
+    const next = nextCronRun(schedule, cursor, timezone);
+    if (!next || next.getTime() > end) break;
+    runs.push(next);
+    cursor = next;
+  }
+  return runs;
+}
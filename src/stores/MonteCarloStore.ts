@@ -0,0 +1,15 @@
+import { create } from 'zustand';
+import type { BootstrapSource } from '@/types/monteCarlo';
+
+interface MonteCarloState {
+  // Trades sent from the Trading Journal, waiting for the simulator to pick them up
+  journalSource: BootstrapSource | null;
+  sendJournalTrades: (source: BootstrapSource) => void;
+  clearJournalSource: () => void;
+}
+
+export const useMonteCarloStore = create<MonteCarloState>((set) => ({
+  journalSource: null,
+  sendJournalTrades: (source) => set({ journalSource: source }),
+  clearJournalSource: () => set({ journalSource: null }),
+}));
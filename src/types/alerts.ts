@@ -0,0 +1,171 @@
+// Alert engine types - rules evaluated in the background across all watched symbols
+
+import type { ChartSymbol, Timeframe } from '@/services/ChartDataService';
+import type { PineInputValue } from '@/utils/pine';
+
+/**
+ * once: fire the first time, then disarm.
+ * once_per_bar: fire at most once per bar while the condition holds.
+ * every_time: fire each time the condition becomes true (every cross for cross operators).
+ */
+export type AlertFrequency = 'once' | 'once_per_bar' | 'every_time';
+
+export type AlertOperator = 'crosses' | 'crosses_above' | 'crosses_below' | 'greater_than' | 'less_than';
+
+export type CrossOperator = Extract<AlertOperator, 'crosses' | 'crosses_above' | 'crosses_below'>;
+
+export interface PriceAlertCondition {
+  kind: 'price';
+  operator: AlertOperator;
+  value: number;
+}
+
+/** A Pine expression such as `ta.rsi(close, 14)`, compared with a fixed value */
+export interface IndicatorAlertCondition {
+  kind: 'indicator';
+  expression: string;
+  operator: AlertOperator;
+  value: number;
+}
+
+/** An alertcondition() declared by a saved Pine script; the code is kept so edits don't change a live alert */
+export interface PineAlertRuleCondition {
+  kind: 'pine';
+  scriptId: string;
+  scriptName: string;
+  code: string;
+  conditionTitle: string;
+  inputValues?: Record<string, PineInputValue>;
+}
+
+/** Price crossing a trendline, ray, extended line or horizontal line drawn on the symbol */
+export interface DrawingAlertCondition {
+  kind: 'drawing';
+  drawingId: string;
+  drawingLabel: string;
+  operator: CrossOperator;
+}
+
+/** Close moved by at least `percent` (either direction) over the last `bars` bars */
+export interface PercentMoveAlertCondition {
+  kind: 'percent_move';
+  percent: number;
+  bars: number;
+}
+
+/** Current bar volume at least `multiplier` times the average of the previous `length` bars */
+export interface VolumeSpikeAlertCondition {
+  kind: 'volume_spike';
+  multiplier: number;
+  length: number;
+}
+
+export type AlertCondition =
+  | PriceAlertCondition
+  | IndicatorAlertCondition
+  | PineAlertRuleCondition
+  | DrawingAlertCondition
+  | PercentMoveAlertCondition
+  | VolumeSpikeAlertCondition;
+
+export type AlertConditionKind = AlertCondition['kind'];
+
+export type AlertStatus = 'active' | 'triggered' | 'expired';
+
+export interface AlertRule {
+  id: string;
+  symbol: ChartSymbol;
+  timeframe: Timeframe;
+  condition: AlertCondition;
+  frequency: AlertFrequency;
+  message: string;
+  enabled: boolean;
+  status: AlertStatus;
+  createdAt: number;
+  expiresAt: number | null;
+  triggerCount: number;
+  lastTriggeredAt: number | null;
+  /** Open time of the bar the rule last fired on, for once-per-bar */
+  lastTriggeredBar: number | null;
+  /** Delivery channels; unset uses the default route for chart alerts */
+  channels?: AlertChannelId[];
+}
+
+export type NewAlertRule = Pick<AlertRule, 'symbol' | 'timeframe' | 'condition' | 'frequency' | 'message' | 'expiresAt' | 'channels'>;
+
+/** One entry in the alert history log */
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  symbol: string;
+  timeframe: Timeframe;
+  message: string;
+  price: number;
+  /** The evaluated value (indicator, line level, % move, volume ratio) when there is one */
+  value: number | null;
+  barTime: number;
+  triggeredAt: number;
+}
+
+export interface AlertEngineSettings {
+  soundEnabled: boolean;
+}
+
+// ---- DELIVERY ----
+
+export type AlertChannelId = 'in_app' | 'browser' | 'webhook' | 'telegram' | 'line' | 'email';
+
+/** Where a notification came from; each source has its own default channels */
+export type AlertSource = 'chart' | 'news' | 'screener';
+
+export interface AlertNotification {
+  /** Stable id: a notification already in the delivery log is not sent again */
+  id: string;
+  source: AlertSource;
+  title: string;
+  message: string;
+  symbol?: string;
+  timeframe?: string;
+  price?: number;
+  value?: number | null;
+  severity?: 'info' | 'warning' | 'critical';
+  timestamp: number;
+  /** Overrides the source's default channels */
+  channels?: AlertChannelId[];
+}
+
+interface ChannelBase {
+  enabled: boolean;
+  /** At most `maxPerWindow` sends per `windowMinutes`; the rest are logged as rate limited */
+  maxPerWindow: number;
+  windowMinutes: number;
+}
+
+export interface AlertChannelSettings {
+  in_app: ChannelBase;
+  browser: ChannelBase;
+  /** `template` is JSON with {{title}}, {{message}}, {{symbol}}, ... placeholders */
+  webhook: ChannelBase & { url: string; template: string };
+  telegram: ChannelBase & { botToken: string; chatId: string };
+  line: ChannelBase & { channelAccessToken: string; to: string };
+  /** Always sent to the signed-in user's own address */
+  email: ChannelBase;
+}
+
+export interface AlertDispatchSettings {
+  channels: AlertChannelSettings;
+  routes: Record<AlertSource, AlertChannelId[]>;
+}
+
+export type DeliveryStatus = 'sent' | 'failed' | 'rate_limited' | 'skipped';
+
+export interface DeliveryRecord {
+  id: string;
+  notificationId: string;
+  source: AlertSource;
+  channel: AlertChannelId;
+  title: string;
+  status: DeliveryStatus;
+  detail?: string;
+  at: number;
+}
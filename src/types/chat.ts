@@ -44,11 +44,18 @@ export interface Message {
   created_at: string;
 }
 
+/** none = unsigned allowed, secret = shared secret required, hmac = signed + timestamped */
+export type WebhookAuthMode = 'none' | 'secret' | 'hmac';
+
 export interface Webhook {
   id: string;
   room_id: string;
   webhook_url: string;
   webhook_secret: string;
+  /** WebhookAuthMode */
+  auth_mode?: string;
+  replay_window_seconds?: number;
+  idempotency_window_seconds?: number;
   is_active: boolean;
   created_by: string;
   created_at: string;
@@ -22,6 +22,13 @@ export interface PortfolioAsset {
   avgLoss: number;
 }
 
+/** Journal trades to resample, in exit order so block bootstrap keeps real streaks */
+export interface BootstrapSource {
+  label: string;
+  rMultiples: number[];
+  pnls: number[];
+}
+
 export interface AdvancedSimConfig {
   // Basic (existing)
   startingCapital: number;
@@ -56,6 +63,15 @@ export interface AdvancedSimConfig {
   // NEW: Time Projection
   tradingDaysPerYear: number;
   avgTradesPerDay: number;
+  
+  // NEW: Bootstrap from journal trades
+  samplingMode: 'parametric' | 'bootstrap' | 'blockBootstrap';
+  bootstrapUnit: 'r' | 'pnl';
+  bootstrapSource: BootstrapSource | null;
+  blockSize: number;
+  
+  // NEW: Reproducibility (null = new random seed every run)
+  seed: number | null;
 }
 
 // ============ RESULTS ============
@@ -84,6 +100,30 @@ export interface AdvancedSimResult {
   monthlyReturns: number[];
 }
 
+// One path reduced to the figures the statistics need, so large runs don't keep every curve
+export interface SimPathSummary {
+  finalCapital: number;
+  totalReturn: number;
+  returnPercent: number;
+  maxDrawdown: number;
+  numWins: number;
+  numLosses: number;
+  profitFactor: number;
+  /** Trades taken before the path ended (drawdown stop or ruin can end it early) */
+  trades: number;
+  avgDDDuration: number;
+  maxDDDuration: number;
+  avgRecoveryTime: number;
+  timeInDrawdownPercent: number;
+  timeInEachRegime: Record<string, number>;
+}
+
+// A finished run: every path summarized, with full curves for an evenly spaced sample
+export interface MonteCarloRun {
+  summaries: SimPathSummary[];
+  samplePaths: AdvancedSimResult[];
+}
+
 export interface PercentileData {
   return: number;
   returnPercent: number;
@@ -181,7 +221,7 @@ export interface SimScenario {
   name: string;
   description: string;
   config: AdvancedSimConfig;
-  results: AdvancedSimResult[] | null;
+  results: MonteCarloRun | null;
   stats: AdvancedSimStats | null;
   status: 'idle' | 'running' | 'completed' | 'error';
   progress: number;
@@ -262,5 +302,10 @@ export const DEFAULT_ADVANCED_CONFIG: AdvancedSimConfig = {
   enablePortfolio: false,
   portfolioAssets: [],
   tradingDaysPerYear: 252,
-  avgTradesPerDay: 2
+  avgTradesPerDay: 2,
+  samplingMode: 'parametric',
+  bootstrapUnit: 'r',
+  bootstrapSource: null,
+  blockSize: 5,
+  seed: null
 };
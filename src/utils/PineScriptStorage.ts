@@ -1,5 +1,7 @@
 // Pine Script Storage System - v5/v6 Support
 
+import type { PineInputValue } from './pine';
+
 export interface SavedScript {
   id: string;
   name: string;
@@ -12,6 +14,8 @@ export interface SavedScript {
   updatedAt: number;
   author?: string;
   isPublic?: boolean;
+  /** input.*() overrides, per chart */
+  inputValues?: Record<string, Record<string, PineInputValue>>;
 }
 
 const SCRIPTS_STORAGE_KEY = 'pine-scripts-saved';
@@ -67,6 +71,32 @@ export const deleteScript = (id: string): void => {
   updateIndex(scripts);
 };
 
+// Input overrides of a script on one chart
+export const getScriptInputs = (script: SavedScript, chartKey: string): Record<string, PineInputValue> => {
+  return script.inputValues?.[chartKey] ?? {};
+};
+
+// Store input overrides without touching updatedAt: changing settings doesn't edit the script
+export const saveScriptInputs = (
+  id: string,
+  chartKey: string,
+  values: Record<string, PineInputValue>
+): SavedScript | null => {
+  const scripts = loadAllScripts();
+  const index = scripts.findIndex(s => s.id === id);
+  if (index < 0) return null;
+
+  const inputValues = { ...scripts[index].inputValues };
+  if (Object.keys(values).length > 0) {
+    inputValues[chartKey] = values;
+  } else {
+    delete inputValues[chartKey];
+  }
+  scripts[index] = { ...scripts[index], inputValues };
+  localStorage.setItem(SCRIPTS_STORAGE_KEY, JSON.stringify(scripts));
+  return scripts[index];
+};
+
 // Search scripts by query
 export const searchScripts = (query: string): SavedScript[] => {
   const scripts = loadAllScripts();
@@ -194,6 +194,43 @@ atr_value = ta.atr(atr_length)
 
 // Plot
 plot(atr_value, color=color.orange, title="ATR", linewidth=2)`
+  },
+  {
+    id: 'ma-cross-strategy',
+    name: 'MA Cross Strategy',
+    description: 'Long/short moving average crossover with ATR stop and take profit, backtested by the strategy tester',
+    category: 'strategy',
+    code: `//@version=5
+strategy("MA Cross Strategy", overlay=true, initial_capital=10000, default_qty_type=strategy.percent_of_equity, default_qty_value=10, commission_type=strategy.commission.percent, commission_value=0.05)
+
+// Input parameters
+fast_length = input.int(10, title="Fast MA Length", minval=1)
+slow_length = input.int(30, title="Slow MA Length", minval=1)
+atr_mult = input.float(2.0, title="ATR Stop Multiplier", step=0.5)
+rr = input.float(2.0, title="Reward/Risk", step=0.5)
+
+// Calculate MAs
+fast_ma = ta.ema(close, fast_length)
+slow_ma = ta.ema(close, slow_length)
+atr_value = ta.atr(14)
+
+// Entries
+if ta.crossover(fast_ma, slow_ma)
+    strategy.entry("Long", strategy.long)
+if ta.crossunder(fast_ma, slow_ma)
+    strategy.entry("Short", strategy.short)
+
+// Exits
+if strategy.position_size > 0
+    stop = strategy.position_avg_price - atr_value * atr_mult
+    strategy.exit("Long Exit", "Long", stop=stop, limit=strategy.position_avg_price + (strategy.position_avg_price - stop) * rr)
+if strategy.position_size < 0
+    stop = strategy.position_avg_price + atr_value * atr_mult
+    strategy.exit("Short Exit", "Short", stop=stop, limit=strategy.position_avg_price - (stop - strategy.position_avg_price) * rr)
+
+// Plot
+plot(fast_ma, color=color.blue, title="Fast MA", linewidth=2)
+plot(slow_ma, color=color.red, title="Slow MA", linewidth=2)`
   }
 ];
 
@@ -0,0 +1,424 @@
+// Strategy Optimizer - parameter search and walk-forward analysis for Pine strategies
+// Runs the script once per parameter set through the series interpreter and scores
+// the resulting journal trades with the same metrics the Trading Journal uses.
+
+import { PineInterpreter, parsePine, type PineRunOptions, type Program } from './pine';
+import type { OHLCData } from './PineScriptRunner';
+import { calculateMetrics, type Trade } from './tradingMetrics';
+import { createRng } from './random';
+
+export { createRng };
+
+export type OptimizeMethod = 'grid' | 'random' | 'genetic';
+export type OptimizeObjective = 'netProfit' | 'sharpe' | 'sqn' | 'maxDrawdown';
+
+export interface ParameterRange {
+  /** PineInput.id of the input to vary */
+  id: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface WalkForwardConfig {
+  windows: number;
+  /** Share of each window used for in-sample optimization, 0-1 */
+  inSampleRatio: number;
+}
+
+export interface OptimizerConfig {
+  code: string;
+  data: OHLCData[];
+  /** Serializable run options: symbol, timeframe, securityData and fixed input values */
+  runOptions?: PineRunOptions;
+  parameters: ParameterRange[];
+  method: OptimizeMethod;
+  objective: OptimizeObjective;
+  /** Upper bound on script runs per search */
+  maxRuns: number;
+  walkForward?: WalkForwardConfig;
+  seed?: number;
+}
+
+export interface ParameterScore {
+  netProfit: number;
+  sharpe: number;
+  sqn: number;
+  maxDrawdown: number;
+  winRate: number;
+  profitFactor: number;
+  trades: number;
+}
+
+export type ParameterSet = Record<string, number>;
+
+export interface OptimizationRun {
+  params: ParameterSet;
+  metrics: ParameterScore;
+  /** Objective value, higher is better (max drawdown is negated) */
+  score: number;
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  /** Timestamps of the first and last bar of each block */
+  inSampleRange: { from: number; to: number };
+  outOfSampleRange: { from: number; to: number };
+  /** Best in-sample parameters */
+  params: ParameterSet;
+  inSample: ParameterScore;
+  outOfSample: ParameterScore;
+}
+
+export interface OptimizationResult {
+  objective: OptimizeObjective;
+  /** Search over the full data set, best first */
+  runs: OptimizationRun[];
+  windows: WalkForwardWindow[];
+  /** Out-of-sample net profit summed over all walk-forward windows */
+  walkForwardNetProfit: number;
+  /** Out-of-sample vs in-sample objective, averaged over windows */
+  walkForwardEfficiency: number;
+  elapsedMs: number;
+}
+
+export interface OptimizerProgress {
+  done: number;
+  total: number;
+}
+
+export const OBJECTIVE_LABELS: Record<OptimizeObjective, string> = {
+  netProfit: 'Net Profit',
+  sharpe: 'Sharpe',
+  sqn: 'SQN',
+  maxDrawdown: 'Max Drawdown',
+};
+
+// ======= SCORING =======
+
+const EMPTY_SCORE: ParameterScore = {
+  netProfit: 0,
+  sharpe: 0,
+  sqn: 0,
+  maxDrawdown: 0,
+  winRate: 0,
+  profitFactor: 0,
+  trades: 0,
+};
+
+export function scoreTrades(trades: Trade[], initialCapital: number): ParameterScore {
+  const closed = trades.filter(t => t.status === 'CLOSED');
+  if (closed.length === 0) return EMPTY_SCORE;
+  const metrics = calculateMetrics(closed, initialCapital);
+  return {
+    netProfit: metrics.netProfit,
+    sharpe: metrics.sharpeRatio,
+    sqn: metrics.sqn,
+    maxDrawdown: metrics.maxDrawdown,
+    winRate: metrics.winRate,
+    profitFactor: Number.isFinite(metrics.profitFactor) ? metrics.profitFactor : 0,
+    trades: closed.length,
+  };
+}
+
+export function objectiveValue(metrics: ParameterScore, objective: OptimizeObjective): number {
+  if (metrics.trades === 0) return -Infinity;
+  switch (objective) {
+    case 'sharpe':
+      return metrics.sharpe;
+    case 'sqn':
+      return metrics.sqn;
+    case 'maxDrawdown':
+      return -metrics.maxDrawdown;
+    default:
+      return metrics.netProfit;
+  }
+}
+
+// ======= PARAMETER SPACE =======
+
+const decimals = (step: number) => (String(step).split('.')[1] ?? '').length;
+
+/** Every value a range can take, min to max in `step` increments */
+export function rangeValues(range: ParameterRange): number[] {
+  if (!(range.step > 0) || range.max < range.min) return [range.min];
+  const count = Math.floor((range.max - range.min) / range.step + 1e-9) + 1;
+  const places = decimals(range.step);
+  return Array.from({ length: count }, (_, i) => Number((range.min + i * range.step).toFixed(places)));
+}
+
+export function gridSize(parameters: ParameterRange[]): number {
+  return parameters.reduce((size, range) => size * rangeValues(range).length, 1);
+}
+
+const paramKey = (params: ParameterSet) =>
+  Object.keys(params).sort().map(k => `${k}=${params[k]}`).join('&');
+
+function gridParams(parameters: ParameterRange[]): ParameterSet[] {
+  return parameters.reduce<ParameterSet[]>(
+    (sets, range) => sets.flatMap(set => rangeValues(range).map(value => ({ ...set, [range.id]: value }))),
+    [{}]
+  );
+}
+
+const pick = <T>(values: T[], rng: () => number): T => values[Math.floor(rng() * values.length)];
+
+function randomParams(parameters: ParameterRange[], rng: () => number): ParameterSet {
+  return Object.fromEntries(parameters.map(range => [range.id, pick(rangeValues(range), rng)]));
+}
+
+// ======= SEARCH =======
+
+class Evaluator {
+  private program: Program;
+  private cache = new Map<string, OptimizationRun>();
+  runs = 0;
+
+  constructor(
+    private readonly config: OptimizerConfig,
+    private readonly onRun: () => void
+  ) {
+    this.program = parsePine(config.code);
+  }
+
+  /** Score a parameter set on bars [from, to), counting only trades entered at or after `scoreFrom` */
+  evaluate(params: ParameterSet, from: number, to: number, scoreFrom = from): OptimizationRun {
+    const key = `${from}:${to}:${scoreFrom}:${paramKey(params)}`;
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const { runOptions = {}, objective } = this.config;
+    const output = new PineInterpreter(this.program, this.config.data.slice(from, to), {
+      ...runOptions,
+      inputs: { ...runOptions.inputs, ...params },
+    }).run();
+    if (!output.strategy) {
+      throw new Error('Only strategy() scripts can be optimized');
+    }
+
+    const startTime = this.config.data[scoreFrom]?.timestamp ?? 0;
+    const trades = output.strategy.trades.filter(t => !t.entryTime || Date.parse(t.entryTime) >= startTime);
+    const metrics = scoreTrades(trades, output.strategy.initialCapital);
+    const run = { params, metrics, score: objectiveValue(metrics, objective) };
+    this.cache.set(key, run);
+    this.runs++;
+    this.onRun();
+    return run;
+  }
+}
+
+function search(
+  evaluator: Evaluator,
+  config: OptimizerConfig,
+  from: number,
+  to: number,
+  rng: () => number
+): OptimizationRun[] {
+  const { parameters, maxRuns } = config;
+  const evaluate = (params: ParameterSet) => evaluator.evaluate(params, from, to);
+
+  if (config.method === 'grid') {
+    // Grids larger than the budget are cut off; the optimizer dialog warns before that happens
+    return gridParams(parameters).slice(0, maxRuns).map(evaluate);
+  }
+
+  if (config.method === 'random') {
+    const seen = new Map<string, OptimizationRun>();
+    const budget = Math.min(maxRuns, gridSize(parameters));
+    for (let attempts = 0; seen.size < budget && attempts < budget * 20; attempts++) {
+      const params = randomParams(parameters, rng);
+      const key = paramKey(params);
+      if (!seen.has(key)) seen.set(key, evaluate(params));
+    }
+    return [...seen.values()];
+  }
+
+  // Genetic: tournament selection, uniform crossover, step mutation, two elites carried over
+  const populationSize = Math.max(4, Math.min(30, Math.round(Math.sqrt(maxRuns) * 2)));
+  const generations = Math.max(1, Math.floor(maxRuns / populationSize));
+  const seen = new Map<string, OptimizationRun>();
+  const score = (params: ParameterSet) => {
+    const key = paramKey(params);
+    let run = seen.get(key);
+    if (!run) {
+      run = evaluate(params);
+      seen.set(key, run);
+    }
+    return run;
+  };
+  const tournament = (population: OptimizationRun[]) => {
+    const a = pick(population, rng);
+    const b = pick(population, rng);
+    return a.score >= b.score ? a : b;
+  };
+  const mutate = (params: ParameterSet): ParameterSet => {
+    const next = { ...params };
+    parameters.forEach(range => {
+      if (rng() > 1 / parameters.length) return;
+      const values = rangeValues(range);
+      const index = values.indexOf(next[range.id]);
+      const jump = Math.max(1, Math.round(values.length * 0.15));
+      const moved = index + Math.round((rng() * 2 - 1) * jump);
+      next[range.id] = values[Math.min(values.length - 1, Math.max(0, moved))];
+    });
+    return next;
+  };
+
+  let population = Array.from({ length: populationSize }, () => score(randomParams(parameters, rng)));
+  for (let generation = 1; generation < generations && seen.size < maxRuns; generation++) {
+    const ranked = [...population].sort((a, b) => b.score - a.score);
+    const next = ranked.slice(0, 2);
+    while (next.length < populationSize && seen.size < maxRuns) {
+      const mother = tournament(ranked).params;
+      const father = tournament(ranked).params;
+      const child = Object.fromEntries(
+        parameters.map(range => [range.id, rng() < 0.5 ? mother[range.id] : father[range.id]])
+      );
+      next.push(score(mutate(child)));
+    }
+    population = next;
+  }
+  return [...seen.values()];
+}
+
+const sortRuns = (runs: OptimizationRun[]) => [...runs].sort((a, b) => b.score - a.score);
+
+/**
+ * Rolling walk-forward windows: each one optimizes on an in-sample block and
+ * is scored on the out-of-sample block right after it, then slides forward
+ */
+export function walkForwardSplits(bars: number, config: WalkForwardConfig) {
+  const ratio = Math.min(0.95, Math.max(0.05, config.inSampleRatio));
+  const windows = Math.max(1, Math.floor(config.windows));
+  const outLength = Math.floor(bars / (ratio / (1 - ratio) + windows));
+  const inLength = bars - outLength * windows;
+  if (outLength < 1 || inLength < 2) return [];
+  return Array.from({ length: windows }, (_, i) => {
+    const start = i * outLength;
+    return {
+      inSample: { from: start, to: start + inLength },
+      outOfSample: { from: start + inLength, to: start + inLength + outLength },
+    };
+  });
+}
+
+export function estimateRuns(config: OptimizerConfig): number {
+  const perSearch = Math.min(config.maxRuns, gridSize(config.parameters));
+  const windows = config.walkForward ? walkForwardSplits(config.data.length, config.walkForward).length : 0;
+  return perSearch * (1 + windows) + windows;
+}
+
+export function optimizeStrategy(
+  config: OptimizerConfig,
+  onProgress?: (progress: OptimizerProgress) => void
+): OptimizationResult {
+  const startTime = performance.now();
+  if (config.parameters.length === 0) throw new Error('Select at least one input to optimize');
+
+  const total = estimateRuns(config);
+  const evaluator = new Evaluator(config, () => onProgress?.({ done: Math.min(evaluator.runs, total), total }));
+  const rng = createRng(config.seed ?? 1);
+
+  const runs = sortRuns(search(evaluator, config, 0, config.data.length, rng));
+
+  const windows: WalkForwardWindow[] = [];
+  const efficiencies: number[] = [];
+  if (config.walkForward) {
+    walkForwardSplits(config.data.length, config.walkForward).forEach((split, index) => {
+      const best = sortRuns(search(evaluator, config, split.inSample.from, split.inSample.to, rng))[0];
+      if (!best) return;
+      // Run from the in-sample start so indicators are warmed up, score only the out-of-sample trades
+      const outOfSample = evaluator.evaluate(best.params, split.inSample.from, split.outOfSample.to, split.outOfSample.from);
+      windows.push({
+        index,
+        inSampleRange: {
+          from: config.data[split.inSample.from].timestamp,
+          to: config.data[split.inSample.to - 1].timestamp,
+        },
+        outOfSampleRange: {
+          from: config.data[split.outOfSample.from].timestamp,
+          to: config.data[split.outOfSample.to - 1].timestamp,
+        },
+        params: best.params,
+        inSample: best.metrics,
+        outOfSample: outOfSample.metrics,
+      });
+      if (Number.isFinite(best.score) && best.score !== 0 && Number.isFinite(outOfSample.score)) {
+        // Profit and drawdown grow with the block length: scale the out-of-sample block up to the in-sample one
+        const scale = (split.inSample.to - split.inSample.from) / (split.outOfSample.to - split.outOfSample.from);
+        const linear = config.objective === 'netProfit' || config.objective === 'maxDrawdown';
+        efficiencies.push((linear ? outOfSample.score * scale : outOfSample.score) / Math.abs(best.score));
+      }
+    });
+  }
+
+  onProgress?.({ done: total, total });
+  return {
+    objective: config.objective,
+    runs,
+    windows,
+    walkForwardNetProfit: windows.reduce((sum, w) => sum + w.outOfSample.netProfit, 0),
+    walkForwardEfficiency: efficiencies.length > 0 ? efficiencies.reduce((a, b) => a + b, 0) / efficiencies.length : 0,
+    elapsedMs: performance.now() - startTime,
+  };
+}
+
+// ======= WEB WORKER =======
+
+export type OptimizerWorkerMessage =
+  | { type: 'progress'; progress: OptimizerProgress }
+  | { type: 'result'; result: OptimizationResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Run the optimizer off the main thread. Falls back to running inline
+ * where workers are unavailable.
+ */
+export function runOptimizerInWorker(
+  config: OptimizerConfig,
+  onProgress?: (progress: OptimizerProgress) => void
+): { promise: Promise<OptimizationResult>; cancel: () => void } {
+  if (typeof Worker === 'undefined') {
+    let cancelled = false;
+    const promise = new Promise<OptimizationResult>((resolve, reject) => {
+      setTimeout(() => {
+        if (cancelled) return reject(new Error('Optimization cancelled'));
+        try {
+          resolve(optimizeStrategy(config, onProgress));
+        } catch (error) {
+          reject(error);
+        }
+      }, 0);
+    });
+    return { promise, cancel: () => { cancelled = true; } };
+  }
+
+  const worker = new Worker(new URL('./strategyOptimizer.worker.ts', import.meta.url), { type: 'module' });
+  let rejectRun: (error: Error) => void = () => {};
+  const promise = new Promise<OptimizationResult>((resolve, reject) => {
+    rejectRun = reject;
+    worker.onmessage = (event: MessageEvent<OptimizerWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'result') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Optimizer worker failed'));
+    };
+    worker.postMessage(config);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectRun(new Error('Optimization cancelled'));
+    },
+  };
+}
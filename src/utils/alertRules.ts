@@ -0,0 +1,105 @@
+// Alert rule evaluation helpers - pure functions shared by the alert engine and AlertsPanel
+
+import type { AlertCondition, AlertFrequency, AlertOperator } from '@/types/alerts';
+import type { OHLCVData } from '@/services/ChartDataService';
+import type { DrawingObject, DrawingType } from '@/components/TradingChart/ABLEChartEngine/types';
+import { timeToIndex } from '@/components/TradingChart/ABLEChartEngine/DrawingGeometry';
+
+export const OPERATOR_LABELS: Record<AlertOperator, string> = {
+  crosses: 'Crosses',
+  crosses_above: 'Crosses Above',
+  crosses_below: 'Crosses Below',
+  greater_than: 'Greater Than',
+  less_than: 'Less Than',
+};
+
+export const FREQUENCY_LABELS: Record<AlertFrequency, string> = {
+  once: 'Only once',
+  once_per_bar: 'Once per bar',
+  every_time: 'Every time',
+};
+
+/** Drawings whose line has a price at every bar */
+export const ALERTABLE_DRAWING_TYPES: DrawingType[] = ['trendline', 'ray', 'extended', 'horizontal'];
+
+export const isCrossOperator = (operator: AlertOperator): boolean => operator.startsWith('crosses');
+
+/**
+ * Compare the distance from the level (value - level) now and at the previous evaluation.
+ * Crosses need a previous sample; level comparisons only look at the current one.
+ */
+export function operatorHolds(operator: AlertOperator, prevDiff: number | null, diff: number): boolean {
+  switch (operator) {
+    case 'crosses_above':
+      return prevDiff !== null && prevDiff < 0 && diff >= 0;
+    case 'crosses_below':
+      return prevDiff !== null && prevDiff > 0 && diff <= 0;
+    case 'crosses':
+      return prevDiff !== null && ((prevDiff < 0 && diff >= 0) || (prevDiff > 0 && diff <= 0));
+    case 'greater_than':
+      return diff > 0;
+    case 'less_than':
+      return diff < 0;
+  }
+}
+
+/**
+ * Price of a line drawing at a (fractional) bar index, as the chart draws it:
+ * straight in bar-index space, limited to the segment for trendlines and to
+ * the far side of the first point for rays. Null when the line doesn't reach the bar.
+ */
+export function drawingLevel(drawing: DrawingObject, bars: OHLCVData[], index: number): number | null {
+  const [a, b] = drawing.points;
+  if (!a) return null;
+  if (drawing.type === 'horizontal') return a.price;
+  if (!ALERTABLE_DRAWING_TYPES.includes(drawing.type) || !b) return null;
+
+  const ia = timeToIndex(a.time, bars);
+  const ib = timeToIndex(b.time, bars);
+  if (ia === ib) return null;
+  const t = (index - ia) / (ib - ia);
+  if (drawing.type === 'trendline' && (t < 0 || t > 1)) return null;
+  if (drawing.type === 'ray' && t < 0) return null;
+  return a.price + (b.price - a.price) * t;
+}
+
+/** Percent change of the last close against the close `bars` bars earlier */
+export function percentMove(bars: OHLCVData[], lookback: number): number | null {
+  const n = bars.length;
+  if (lookback < 1 || n <= lookback) return null;
+  const base = bars[n - 1 - lookback].close;
+  return base > 0 ? ((bars[n - 1].close - base) / base) * 100 : null;
+}
+
+/** Current bar volume over the average volume of the `length` bars before it */
+export function volumeRatio(bars: OHLCVData[], length: number): number | null {
+  const n = bars.length;
+  if (length < 1 || n <= length) return null;
+  let sum = 0;
+  for (let i = n - 1 - length; i < n - 1; i++) sum += bars[i].volume;
+  const average = sum / length;
+  return average > 0 ? bars[n - 1].volume / average : null;
+}
+
+/** Wrap an indicator expression in a script whose only plot is the expression */
+export const indicatorScript = (expression: string): string =>
+  `//@version=6\nindicator("Alert indicator")\nplot(${expression})\n`;
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 8 });
+
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.kind) {
+    case 'price':
+      return `Price ${OPERATOR_LABELS[condition.operator].toLowerCase()} ${formatNumber(condition.value)}`;
+    case 'indicator':
+      return `${condition.expression} ${OPERATOR_LABELS[condition.operator].toLowerCase()} ${formatNumber(condition.value)}`;
+    case 'pine':
+      return `${condition.scriptName}: ${condition.conditionTitle}`;
+    case 'drawing':
+      return `Price ${OPERATOR_LABELS[condition.operator].toLowerCase()} ${condition.drawingLabel}`;
+    case 'percent_move':
+      return `Moves ${formatNumber(condition.percent)}% in ${condition.bars} bar${condition.bars === 1 ? '' : 's'}`;
+    case 'volume_spike':
+      return `Volume ≥ ${formatNumber(condition.multiplier)}× ${condition.length}-bar average`;
+  }
+}
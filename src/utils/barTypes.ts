@@ -0,0 +1,271 @@
+// ============================================
+// Derived bar types
+// Heikin-Ashi, Renko, range bars, Kagi and line break built from
+// regular OHLCV bars. Output is plain OHLCV so every chart renderer and
+// the Pine runner consume it unchanged.
+// ============================================
+
+export interface BarData {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type BarType = 'candles' | 'heikinAshi' | 'renko' | 'range' | 'kagi' | 'lineBreak';
+
+/** How brick/box sizes are chosen: ATR of the source bars or a fixed price amount */
+export type BoxSizing = 'atr' | 'fixed';
+
+export interface BarTypeConfig {
+  type: BarType;
+  /** Renko box, range-bar span and Kagi reversal sizing */
+  sizing: BoxSizing;
+  /** Price amount used when sizing is 'fixed' */
+  boxSize: number;
+  /** ATR length used when sizing is 'atr' */
+  atrLength: number;
+  /** Lines a close must break to reverse a line-break chart (classic is 3) */
+  lineBreakCount: number;
+}
+
+export const DEFAULT_BAR_TYPE_CONFIG: BarTypeConfig = {
+  type: 'candles',
+  sizing: 'atr',
+  boxSize: 0,
+  atrLength: 14,
+  lineBreakCount: 3,
+};
+
+export const BAR_TYPE_LABELS: Record<BarType, string> = {
+  candles: 'Candles',
+  heikinAshi: 'Heikin-Ashi',
+  renko: 'Renko',
+  range: 'Range',
+  kagi: 'Kagi',
+  lineBreak: 'Line Break',
+};
+
+/** Time-based types keep one output bar per source bar; the others are price-driven */
+export const isTimeBasedBarType = (type: BarType): boolean => type === 'candles' || type === 'heikinAshi';
+
+// ---- Helpers ----
+
+/** Wilder ATR at the last bar */
+export const averageTrueRange = <T extends BarData>(data: T[], length: number): number => {
+  if (data.length < 2) return data.length === 1 ? data[0].high - data[0].low : 0;
+  let atr = 0;
+  for (let i = 1; i < data.length; i++) {
+    const tr = Math.max(
+      data[i].high - data[i].low,
+      Math.abs(data[i].high - data[i - 1].close),
+      Math.abs(data[i].low - data[i - 1].close)
+    );
+    atr = i <= length ? atr + (tr - atr) / i : atr + (tr - atr) / length;
+  }
+  return atr;
+};
+
+/** Box size for price-driven types; never zero so the builders always terminate */
+export const resolveBoxSize = <T extends BarData>(data: T[], config: BarTypeConfig): number => {
+  const size = config.sizing === 'fixed' && config.boxSize > 0
+    ? config.boxSize
+    : averageTrueRange(data, Math.max(1, config.atrLength));
+  if (size > 0) return size;
+  const last = data[data.length - 1]?.close ?? 1;
+  return Math.abs(last) * 0.001 || 1;
+};
+
+/**
+ * Collects price-driven bars. Several bars can form inside one source bar, so
+ * timestamps are nudged forward to stay strictly increasing.
+ */
+class BarCollector {
+  readonly bars: BarData[] = [];
+  private pendingVolume = 0;
+
+  addVolume(volume: number) {
+    this.pendingVolume += volume;
+  }
+
+  push(timestamp: number, open: number, close: number, high = Math.max(open, close), low = Math.min(open, close)) {
+    const last = this.bars[this.bars.length - 1];
+    const time = last && timestamp <= last.timestamp ? last.timestamp + 1 : timestamp;
+    this.bars.push({ timestamp: time, open, high, low, close, volume: this.pendingVolume });
+    this.pendingVolume = 0;
+  }
+
+  /** Volume of the still-forming bar goes to the last finished one */
+  flushVolume() {
+    const last = this.bars[this.bars.length - 1];
+    if (last) last.volume += this.pendingVolume;
+    this.pendingVolume = 0;
+  }
+}
+
+// ---- Builders ----
+
+export const toHeikinAshi = <T extends BarData>(data: T[]): BarData[] => {
+  const out: BarData[] = [];
+  data.forEach((bar, i) => {
+    const close = (bar.open + bar.high + bar.low + bar.close) / 4;
+    const open = i === 0 ? (bar.open + bar.close) / 2 : (out[i - 1].open + out[i - 1].close) / 2;
+    out.push({
+      timestamp: bar.timestamp,
+      open,
+      high: Math.max(bar.high, open, close),
+      low: Math.min(bar.low, open, close),
+      close,
+      volume: bar.volume,
+    });
+  });
+  return out;
+};
+
+/** Close-based Renko: a brick forms above the last brick's top or below its bottom */
+export const toRenko = <T extends BarData>(data: T[], boxSize: number): BarData[] => {
+  if (data.length === 0 || !(boxSize > 0)) return [];
+  const collector = new BarCollector();
+  let bottom = Math.floor(data[0].close / boxSize) * boxSize;
+  let top = bottom;
+
+  for (const bar of data) {
+    collector.addVolume(bar.volume);
+    while (bar.close >= top + boxSize) {
+      collector.push(bar.timestamp, top, top + boxSize);
+      bottom = top;
+      top += boxSize;
+    }
+    while (bar.close <= bottom - boxSize) {
+      collector.push(bar.timestamp, bottom, bottom - boxSize);
+      top = bottom;
+      bottom -= boxSize;
+    }
+  }
+  collector.flushVolume();
+  return collector.bars;
+};
+
+/**
+ * Range bars: each bar spans exactly `rangeSize` from low to high. Source bars are
+ * walked open → nearer extreme → farther extreme → close; the last bar may be partial.
+ */
+export const toRangeBars = <T extends BarData>(data: T[], rangeSize: number): BarData[] => {
+  if (data.length === 0 || !(rangeSize > 0)) return [];
+  const collector = new BarCollector();
+  let open = data[0].open;
+  let high = open;
+  let low = open;
+  let close = open;
+  let time = data[0].timestamp;
+
+  const moveTo = (price: number, timestamp: number) => {
+    while (price > low + rangeSize || price < high - rangeSize) {
+      const up = price > low + rangeSize;
+      const edge = up ? low + rangeSize : high - rangeSize;
+      collector.push(time, open, edge, up ? edge : high, up ? low : edge);
+      open = edge;
+      high = edge;
+      low = edge;
+      time = timestamp;
+    }
+    high = Math.max(high, price);
+    low = Math.min(low, price);
+    close = price;
+  };
+
+  for (const bar of data) {
+    collector.addVolume(bar.volume);
+    const bullish = bar.close >= bar.open;
+    moveTo(bar.open, bar.timestamp);
+    moveTo(bullish ? bar.low : bar.high, bar.timestamp);
+    moveTo(bullish ? bar.high : bar.low, bar.timestamp);
+    moveTo(bar.close, bar.timestamp);
+  }
+  if (high !== low || collector.bars.length === 0) collector.push(time, open, close, high, low);
+  else collector.flushVolume();
+  return collector.bars;
+};
+
+/** Kagi on closes: each line becomes a bar from its start to its extreme */
+export const toKagi = <T extends BarData>(data: T[], reversal: number): BarData[] => {
+  if (data.length === 0 || !(reversal > 0)) return [];
+  const collector = new BarCollector();
+  let start = data[0].close;
+  let extreme = start;
+  let direction = 0;
+  let lineTime = data[0].timestamp;
+
+  for (const bar of data) {
+    collector.addVolume(bar.volume);
+    const price = bar.close;
+    if (direction === 0) {
+      if (Math.abs(price - start) >= reversal) {
+        direction = price > start ? 1 : -1;
+        extreme = price;
+      }
+      continue;
+    }
+    if (direction * (price - extreme) > 0) {
+      extreme = price;
+    } else if (direction * (extreme - price) >= reversal) {
+      collector.push(lineTime, start, extreme);
+      start = extreme;
+      extreme = price;
+      direction = -direction;
+      lineTime = bar.timestamp;
+    }
+  }
+  if (direction !== 0) collector.push(lineTime, start, extreme);
+  else collector.flushVolume();
+  return collector.bars;
+};
+
+/** N-line break on closes: new line on a new extreme, reversal only past the last N lines */
+export const toLineBreak = <T extends BarData>(data: T[], lineCount: number): BarData[] => {
+  if (data.length === 0) return [];
+  const collector = new BarCollector();
+  const count = Math.max(1, Math.round(lineCount));
+  collector.addVolume(data[0].volume);
+  collector.push(data[0].timestamp, data[0].open, data[0].close);
+
+  for (let i = 1; i < data.length; i++) {
+    const bar = data[i];
+    collector.addVolume(bar.volume);
+    const lines = collector.bars;
+    const last = lines[lines.length - 1];
+    const recent = lines.slice(-count);
+    const up = last.close >= last.open;
+    const recentHigh = Math.max(...recent.map(l => l.high));
+    const recentLow = Math.min(...recent.map(l => l.low));
+
+    if (up ? bar.close > last.close : bar.close < last.close) {
+      collector.push(bar.timestamp, last.close, bar.close);
+    } else if (up ? bar.close < recentLow : bar.close > recentHigh) {
+      collector.push(bar.timestamp, last.open, bar.close);
+    }
+  }
+  collector.flushVolume();
+  return collector.bars;
+};
+
+/** Transform regular bars into the configured bar type */
+export const applyBarType = <T extends BarData>(data: T[], config?: Partial<BarTypeConfig> | null): BarData[] => {
+  const resolved = { ...DEFAULT_BAR_TYPE_CONFIG, ...config };
+  switch (resolved.type) {
+    case 'heikinAshi':
+      return toHeikinAshi(data);
+    case 'renko':
+      return toRenko(data, resolveBoxSize(data, resolved));
+    case 'range':
+      return toRangeBars(data, resolveBoxSize(data, resolved));
+    case 'kagi':
+      return toKagi(data, resolveBoxSize(data, resolved));
+    case 'lineBreak':
+      return toLineBreak(data, resolved.lineBreakCount);
+    default:
+      return data;
+  }
+};
@@ -0,0 +1,100 @@
+// Binance trade history CSV: spot ("Pair / Executed / Amount" and newer "Market / Amount /
+// Total / Fee Coin" layouts) and USDⓈ-M futures (with Realized Profit). Times are UTC.
+
+import type { Fill, StatementImporter, StatementResult, StatementSource } from './types';
+import { pairFills } from './pairing';
+import { cellValue, columnIndex, findHeaderRow, parseNumber, rowRecord } from './parsing';
+
+const REQUIRED = [['date(utc)', 'date (utc)', 'time', 'date'], ['pair', 'market', 'symbol'], ['side', 'type'], ['price']];
+const QUOTE_ASSETS = ['USDT', 'USDC', 'FDUSD', 'BUSD', 'TUSD', 'BTC', 'ETH', 'BNB', 'EUR', 'TRY', 'BRL'];
+
+const parseUtc = (value: string): number | null => {
+  const text = value.trim().replace(' ', 'T');
+  const time = Date.parse(/[zZ]|[+-]\d{2}:?\d{2}$/.test(text) ? text : `${text}Z`);
+  return isNaN(time) ? null : time;
+};
+
+const quoteAsset = (symbol: string) => QUOTE_ASSETS.find(q => symbol.endsWith(q) && symbol.length > q.length);
+
+function isBinance(source: StatementSource): boolean {
+  const index = findHeaderRow(source.grid, REQUIRED);
+  if (index < 0) return false;
+  const header = source.grid[index];
+  return columnIndex(header, ['executed', 'realized profit', 'fee coin', 'date(utc)', 'date (utc)']) >= 0;
+}
+
+function parse(source: StatementSource): StatementResult {
+  const headerIndex = findHeaderRow(source.grid, REQUIRED);
+  const header = source.grid[headerIndex];
+  const col = (aliases: string[]) => columnIndex(header, aliases);
+  const futures = col(['realized profit']) >= 0;
+  const columns = {
+    time: col(['date(utc)', 'date (utc)', 'time', 'date']),
+    symbol: col(['pair', 'market', 'symbol']),
+    side: col(['side', 'type']),
+    price: col(['price']),
+    // Old spot layout: Executed = base quantity, Amount = quote total.
+    // Newer layouts: Amount (or Quantity) = base quantity, Total = quote total.
+    quantity: col(['executed']) >= 0 ? col(['executed']) : col(['quantity']) >= 0 ? col(['quantity']) : col(['amount']),
+    fee: col(['fee']),
+    feeCoin: col(['fee coin', 'fee asset']),
+    realized: col(['realized profit']),
+  };
+
+  const fills: Fill[] = [];
+  const rows: Record<string, string>[] = [];
+  const unconvertedFees = new Set<string>();
+
+  source.grid.slice(headerIndex + 1).forEach(row => {
+    const value = (i: number) => cellValue(header, row, i);
+    const time = parseUtc(value(columns.time));
+    const symbol = value(columns.symbol).replace(/[/_-]/g, '').toUpperCase();
+    const side = value(columns.side).toUpperCase();
+    const price = parseNumber(value(columns.price));
+    const quantity = parseNumber(value(columns.quantity));
+    if (time === null || !symbol || !price || !quantity || (side !== 'BUY' && side !== 'SELL')) return;
+    rows.push(rowRecord(header, row));
+
+    // Fees count only when paid in the quote asset; BNB and base-asset fees can't be priced here
+    const feeText = value(columns.fee);
+    const feeCoin = (value(columns.feeCoin) || feeText.replace(/[\d.,\s-]/g, '')).toUpperCase();
+    const fee = Math.abs(parseNumber(feeText) ?? 0);
+    const quote = quoteAsset(symbol);
+    let commission = 0;
+    if (fee > 0) {
+      if (!feeCoin || feeCoin === quote) commission = fee;
+      else unconvertedFees.add(feeCoin);
+    }
+
+    fills.push({
+      id: `${time}-${side[0]}-${quantity}`,
+      time,
+      symbol,
+      side: side as Fill['side'],
+      quantity: Math.abs(quantity),
+      price,
+      commission,
+      realizedPnl: futures ? parseNumber(value(columns.realized)) : undefined,
+    });
+  });
+
+  // Spot can't be short: sells before the first buy are holdings from before the export
+  const { trades, unmatchedFills } = pairFills(fills, {
+    idPrefix: futures ? 'binance-futures' : 'binance',
+    strategy: futures ? 'Binance Futures Import' : 'Binance Import',
+    assetType: 'CFD',
+    allowShort: futures,
+  });
+
+  const warnings: string[] = [];
+  if (unconvertedFees.size > 0) warnings.push(`Fees paid in ${Array.from(unconvertedFees).join(', ')} are not included in P&L`);
+  if (unmatchedFills > 0) warnings.push(`${unmatchedFills} sell fill(s) had no matching buy in this export and were skipped`);
+  return { format: 'binance', trades, rows, warnings };
+}
+
+export const binanceImporter: StatementImporter = {
+  format: 'binance',
+  label: 'Binance',
+  detect: isBinance,
+  parse,
+};
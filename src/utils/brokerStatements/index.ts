@@ -0,0 +1,134 @@
+// ============================================
+// Broker statement importers for the Trading Journal
+// Recognizes MT4/MT5, Tradovate, IBKR Flex XML, Binance and Settrade exports
+// and turns them into round-trip journal trades. None of these formats report
+// excursions within a trade, so imported trades carry no MAE/MFE; only the
+// TradingView strategy export (CSVImportDialog) has them.
+// ============================================
+
+import Papa from 'papaparse';
+import type { Trade } from '@/utils/tradingMetrics';
+import type { BrokerFormat, StatementImporter, StatementResult, StatementSource } from './types';
+import { htmlTableRows } from './parsing';
+import { metaTraderImporter } from './metatrader';
+import { tradovateImporter } from './tradovate';
+import { interactiveBrokersImporter } from './interactiveBrokers';
+import { binanceImporter } from './binance';
+import { settradeImporter } from './settrade';
+
+export type { BrokerFormat, Fill, StatementResult, StatementSource } from './types';
+export { pairFills } from './pairing';
+
+// Most specific first: Flex is the only XML format, and Settrade's generic headers go last
+const IMPORTERS: StatementImporter[] = [
+  interactiveBrokersImporter,
+  metaTraderImporter,
+  tradovateImporter,
+  binanceImporter,
+  settradeImporter,
+];
+
+export const BROKER_FORMAT_LABELS: Record<BrokerFormat, string> = {
+  metatrader4: 'MetaTrader 4',
+  metatrader5: 'MetaTrader 5',
+  tradovate: 'Tradovate',
+  ibkr_flex: 'IBKR Flex',
+  binance: 'Binance',
+  settrade: 'Settrade',
+};
+
+export const STATEMENT_FILE_ACCEPT = '.csv,.htm,.html,.xml,.txt';
+
+/** MT5 writes its reports as UTF-16; everything else is UTF-8 */
+function decode(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+/** Read a statement file into rows (CSV or HTML tables) and, for XML, a document */
+export async function readStatementFile(file: File): Promise<StatementSource> {
+  const text = decode(await file.arrayBuffer());
+  const head = text.slice(0, 2000).toLowerCase();
+
+  if (head.includes('<flexqueryresponse') || head.includes('<flexstatement') || (head.startsWith('<?xml') && !head.includes('<html'))) {
+    const xml = new DOMParser().parseFromString(text, 'application/xml');
+    return { fileName: file.name, text, grid: [], xml: xml.querySelector('parsererror') ? null : xml };
+  }
+  if (head.includes('<html') || head.includes('<table')) {
+    const doc = new DOMParser().parseFromString(text, 'text/html');
+    return { fileName: file.name, text, grid: htmlTableRows(doc), xml: null };
+  }
+  const parsed = Papa.parse<string[]>(text.replace(/^\uFEFF/, ''), { skipEmptyLines: true });
+  return { fileName: file.name, text, grid: parsed.data, xml: null };
+}
+
+/** Parse with the first importer that recognizes the file, or null for unknown layouts */
+export function parseBrokerStatement(source: StatementSource): StatementResult | null {
+  const importer = IMPORTERS.find(i => i.detect(source));
+  if (!importer) return null;
+  const result = importer.parse(source);
+  return result.trades.length > 0 || result.rows.length > 0 ? result : null;
+}
+
+const sameTrade = (a: Trade, b: Trade) => {
+  if (a.id === b.id) return true;
+  if (a.symbol !== b.symbol || a.side !== b.side || a.date !== b.date) return false;
+  if (a.entryTime && b.entryTime && a.entryTime !== b.entryTime) return false;
+  const priceTolerance = Math.max(0.01, Math.abs(a.entryPrice) * 1e-6);
+  return Math.abs(a.entryPrice - b.entryPrice) < priceTolerance
+    && Math.abs((a.quantity || 0) - (b.quantity || 0)) < 1e-9;
+};
+
+/** An OPEN journal trade that the statement now shows closed, or closed further */
+const progressed = (existing: Trade, incoming: Trade) =>
+  existing.status === 'OPEN' && (
+    incoming.status === 'CLOSED'
+    || (incoming.exitTime ?? '') > (existing.exitTime ?? '')
+    || incoming.quantity > existing.quantity
+  );
+
+/**
+ * Split imported trades into new ones, updates and duplicates of trades already in the
+ * journal (same id from an earlier import, or the same symbol, side, entry time, price
+ * and size). A match that was OPEN and has since closed, partly or fully, is an update:
+ * the statement's fields are laid over the journal trade, keeping its id and user notes.
+ * Repeated ids within the file itself are dropped; identical grid tickets are not.
+ */
+export function splitDuplicates<T extends Trade>(trades: T[], existing: Trade[]): {
+  fresh: T[];
+  updates: T[];
+  duplicates: { existing: Trade; new: T }[];
+} {
+  const fresh: T[] = [];
+  const updates: T[] = [];
+  const duplicates: { existing: Trade; new: T }[] = [];
+  trades.forEach(trade => {
+    const match = existing.find(e => sameTrade(e, trade));
+    if (match && progressed(match, trade)) {
+      const defined = Object.fromEntries(Object.entries(trade).filter(([, value]) => value !== undefined));
+      // The importer's own "Partially closed" note is stale once the trade moves on
+      const notes = match.notes && !match.notes.startsWith('Partially closed:') ? match.notes : trade.notes;
+      const update = { ...match, ...defined, id: match.id, notes } as T;
+      // A later row for the same trade in this file wins
+      const index = updates.findIndex(u => u.id === match.id);
+      if (index >= 0) updates[index] = update;
+      else updates.push(update);
+    } else if (match) duplicates.push({ existing: match, new: trade });
+    else if (!fresh.some(f => f.id === trade.id)) fresh.push(trade);
+  });
+  return { fresh, updates, duplicates };
+}
+
+/** Append imported trades, replacing journal trades with the same id in place (and room) */
+export function mergeImportedTrades<T extends Pick<Trade, 'id' | 'folderId'>>(journal: T[], imported: T[]): T[] {
+  const byId = new Map(imported.map(t => [t.id, t]));
+  const merged = journal.map(t => {
+    const update = byId.get(t.id);
+    if (!update) return t;
+    byId.delete(t.id);
+    return { ...update, folderId: t.folderId };
+  });
+  return [...merged, ...byId.values()];
+}
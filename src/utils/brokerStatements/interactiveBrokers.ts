@@ -0,0 +1,89 @@
+// Interactive Brokers Flex Query XML (Activity or Trade Confirmation flex with a Trades section).
+// Executions are paired FIFO per asset class, with P&L from prices × multiplier net of commission.
+
+import type { Trade } from '@/utils/tradingMetrics';
+import type { Fill, StatementImporter, StatementResult, StatementSource } from './types';
+import { pairFills } from './pairing';
+import { parseDateTime, parseNumber } from './parsing';
+
+interface FlexExecution {
+  fill: Fill;
+  assetCategory: string;
+  multiplier: number;
+  record: Record<string, string>;
+}
+
+function readExecutions(doc: Document): FlexExecution[] {
+  const executions: FlexExecution[] = [];
+  doc.querySelectorAll('Trade, TradeConfirm').forEach((element, index) => {
+    const attr = (name: string) => element.getAttribute(name) ?? '';
+    // Order-level and closed-lot rows summarize executions that are also listed
+    const detail = attr('levelOfDetail').toUpperCase();
+    if (detail && detail !== 'EXECUTION') return;
+
+    const time = parseDateTime(attr('dateTime') || attr('tradeDate'));
+    const quantity = parseNumber(attr('quantity'));
+    const price = parseNumber(attr('tradePrice') || attr('price'));
+    const symbol = attr('symbol').toUpperCase();
+    if (time === null || !quantity || !price || !symbol) return;
+
+    const buySell = attr('buySell').toUpperCase();
+    const openClose = attr('openCloseIndicator').toUpperCase();
+    const record: Record<string, string> = {};
+    Array.from(element.attributes).forEach(a => { record[a.name] = a.value; });
+
+    executions.push({
+      fill: {
+        id: attr('tradeID') || attr('transactionID') || attr('execID') || `${time}-${index}`,
+        time,
+        symbol,
+        side: buySell ? (buySell.startsWith('BUY') ? 'BUY' : 'SELL') : quantity > 0 ? 'BUY' : 'SELL',
+        quantity: Math.abs(quantity),
+        price,
+        commission: Math.abs(parseNumber(attr('ibCommission') || attr('commission')) ?? 0),
+        // 'C;O' is a reversal: it both closes and opens, so it isn't a pure close
+        openClose: openClose === 'O' ? 'O' : openClose === 'C' ? 'C' : undefined,
+      },
+      assetCategory: attr('assetCategory').toUpperCase() || 'STK',
+      multiplier: parseNumber(attr('multiplier')) || 1,
+      record,
+    });
+  });
+  return executions;
+}
+
+function parse(source: StatementSource): StatementResult {
+  const executions = source.xml ? readExecutions(source.xml) : [];
+  const multipliers = new Map(executions.map(e => [e.fill.symbol, e.multiplier]));
+  const trades: Trade[] = [];
+  let unmatched = 0;
+
+  // Stocks and derivatives are paired separately: journal type and P&L math differ
+  const categories = new Set(executions.map(e => e.assetCategory));
+  categories.forEach(category => {
+    const result = pairFills(
+      executions.filter(e => e.assetCategory === category).map(e => e.fill),
+      {
+        idPrefix: 'ibkr',
+        strategy: 'IBKR Import',
+        assetType: category === 'STK' ? 'STOCK' : 'CFD',
+        allowShort: true,
+        multiplier: symbol => multipliers.get(symbol) ?? 1,
+      }
+    );
+    trades.push(...result.trades);
+    unmatched += result.unmatchedFills;
+  });
+
+  const warnings: string[] = [];
+  if (executions.length === 0) warnings.push('No executions found. Include the Trades section at execution level in the Flex Query.');
+  if (unmatched > 0) warnings.push(`${unmatched} closing fill(s) belong to positions opened before this period`);
+  return { format: 'ibkr_flex', trades, rows: executions.map(e => e.record), warnings };
+}
+
+export const interactiveBrokersImporter: StatementImporter = {
+  format: 'ibkr_flex',
+  label: 'Interactive Brokers Flex',
+  detect: source => !!source.xml && !!source.xml.querySelector('FlexQueryResponse, FlexStatement, Trades'),
+  parse,
+};
@@ -0,0 +1,198 @@
+// MetaTrader 4 / 5 statements: the HTML account reports and CSV exports with the same columns.
+// MT4 "Closed Transactions" and MT5 "Positions" are already round trips; MT4 partial closes
+// (the remainder reopens under a new ticket commented "from #<ticket>") are merged back into one
+// trade. Tickets opened at the same time and price without that link stay separate (grids).
+
+import type { Trade } from '@/utils/tradingMetrics';
+import type { StatementImporter, StatementResult, StatementSource } from './types';
+import { cellValue, columnIndex, findHeaderRow, formatDate, formatDateTime, parseDateTime, parseNumber, rowRecord } from './parsing';
+
+const COLUMNS = {
+  ticket: ['ticket', 'position', 'order'],
+  openTime: ['open time', 'time'],
+  type: ['type'],
+  size: ['size', 'volume', 'lots'],
+  symbol: ['item', 'symbol'],
+  openPrice: ['open price', 'price'],
+  stopLoss: ['s / l', 's/l', 'sl', 'stop loss'],
+  takeProfit: ['t / p', 't/p', 'tp', 'take profit'],
+  closeTime: ['close time'],
+  closePrice: ['close price'],
+  commission: ['commission'],
+  taxes: ['taxes'],
+  swap: ['swap'],
+  profit: ['profit'],
+  comment: ['comment'],
+};
+
+const REQUIRED = [COLUMNS.ticket, COLUMNS.type, COLUMNS.size, COLUMNS.symbol, COLUMNS.profit];
+
+interface Leg {
+  ticket: string;
+  symbol: string;
+  side: Trade['side'];
+  openTime: number;
+  closeTime: number | null;
+  size: number;
+  openPrice: number;
+  closePrice?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  commission: number;
+  swap: number;
+  profit: number;
+  /** Ticket this one is the remainder of, from the "from #123" comment */
+  fromTicket?: string;
+}
+
+const isMT5 = (source: StatementSource, header: string[]) =>
+  columnIndex(header, ['position']) >= 0 || /metatrader\s*5|MT5/i.test(source.text.slice(0, 4000));
+
+function readLegs(source: StatementSource): { legs: Leg[]; rows: Record<string, string>[]; mt5: boolean } {
+  const legs: Leg[] = [];
+  const rows: Record<string, string>[] = [];
+  let mt5 = false;
+  let headerIndex = findHeaderRow(source.grid, REQUIRED);
+
+  while (headerIndex >= 0) {
+    const header = source.grid[headerIndex];
+    // MT5 "Deals" repeats what "Positions" already holds as round trips
+    if (columnIndex(header, ['deal', 'direction']) >= 0) {
+      headerIndex = findHeaderRow(source.grid, REQUIRED, headerIndex + 1);
+      continue;
+    }
+    mt5 = mt5 || isMT5(source, header);
+    // 'Time'/'Price' appear twice (open, close) when the columns aren't named explicitly
+    const col = {
+      ticket: columnIndex(header, COLUMNS.ticket),
+      openTime: columnIndex(header, ['open time']) >= 0 ? columnIndex(header, ['open time']) : columnIndex(header, ['time']),
+      type: columnIndex(header, COLUMNS.type),
+      size: columnIndex(header, COLUMNS.size),
+      symbol: columnIndex(header, COLUMNS.symbol),
+      openPrice: columnIndex(header, ['open price']) >= 0 ? columnIndex(header, ['open price']) : columnIndex(header, ['price']),
+      stopLoss: columnIndex(header, COLUMNS.stopLoss),
+      takeProfit: columnIndex(header, COLUMNS.takeProfit),
+      closeTime: columnIndex(header, COLUMNS.closeTime) >= 0 ? columnIndex(header, COLUMNS.closeTime) : columnIndex(header, ['time'], 1),
+      closePrice: columnIndex(header, COLUMNS.closePrice) >= 0 ? columnIndex(header, COLUMNS.closePrice) : columnIndex(header, ['price'], 1),
+      commission: columnIndex(header, COLUMNS.commission),
+      taxes: columnIndex(header, COLUMNS.taxes),
+      swap: columnIndex(header, COLUMNS.swap),
+      profit: columnIndex(header, COLUMNS.profit),
+      comment: columnIndex(header, COLUMNS.comment),
+    };
+
+    let i = headerIndex + 1;
+    for (; i < source.grid.length; i++) {
+      const row = source.grid[i];
+      const value = (index: number) => cellValue(header, row, index);
+      const ticket = value(col.ticket);
+      // A section ends at the first row without a numeric ticket (totals, next heading)
+      if (!/^\d+$/.test(ticket)) break;
+
+      const type = value(col.type).toLowerCase();
+      if (type !== 'buy' && type !== 'sell') continue; // balance, credit, cancelled pending orders
+      const openTime = parseDateTime(value(col.openTime));
+      const openPrice = parseNumber(value(col.openPrice));
+      const size = parseNumber(value(col.size).split('/').pop());
+      if (openTime === null || !openPrice || !size) continue;
+
+      const closeTime = parseDateTime(value(col.closeTime));
+      legs.push({
+        ticket,
+        symbol: value(col.symbol).toUpperCase(),
+        side: type === 'buy' ? 'LONG' : 'SHORT',
+        openTime,
+        closeTime,
+        size,
+        openPrice,
+        closePrice: closeTime !== null ? parseNumber(value(col.closePrice)) : undefined,
+        stopLoss: parseNumber(value(col.stopLoss)) || undefined,
+        takeProfit: parseNumber(value(col.takeProfit)) || undefined,
+        commission: -(parseNumber(value(col.commission)) ?? 0) - (parseNumber(value(col.taxes)) ?? 0),
+        swap: parseNumber(value(col.swap)) ?? 0,
+        profit: parseNumber(value(col.profit)) ?? 0,
+        fromTicket: value(col.comment).match(/from\s*#\s*(\d+)/i)?.[1],
+      });
+      rows.push(rowRecord(header, row));
+    }
+    headerIndex = findHeaderRow(source.grid, REQUIRED, i);
+  }
+  return { legs, rows, mt5 };
+}
+
+function legsToTrade(legs: Leg[], idPrefix: string, strategy: string): Trade {
+  const first = legs[0];
+  const closed = legs.filter(l => l.closeTime !== null && l.closePrice);
+  const allClosed = closed.length === legs.length;
+  const quantity = legs.reduce((sum, l) => sum + l.size, 0);
+  const closedQty = closed.reduce((sum, l) => sum + l.size, 0);
+  const exitPrice = allClosed ? closed.reduce((sum, l) => sum + l.closePrice! * l.size, 0) / closedQty : undefined;
+  const lastClose = Math.max(...closed.map(l => l.closeTime!));
+  const commission = legs.reduce((sum, l) => sum + l.commission, 0);
+  const swap = legs.reduce((sum, l) => sum + l.swap, 0);
+  const profit = legs.reduce((sum, l) => sum + l.profit, 0);
+  const direction = first.side === 'LONG' ? 1 : -1;
+
+  return {
+    id: `${idPrefix}-${first.ticket}`,
+    date: formatDate(first.openTime),
+    symbol: first.symbol,
+    side: first.side,
+    type: 'CFD',
+    entryPrice: first.openPrice,
+    exitPrice,
+    quantity,
+    lotSize: quantity,
+    pnl: allClosed ? profit - commission + swap : undefined,
+    pnlPercentage: exitPrice !== undefined ? ((exitPrice - first.openPrice) / first.openPrice) * 100 * direction : undefined,
+    status: allClosed ? 'CLOSED' : 'OPEN',
+    strategy,
+    commission: commission || undefined,
+    swap: swap || undefined,
+    stopLoss: first.stopLoss,
+    takeProfit: first.takeProfit,
+    entryTime: formatDateTime(first.openTime),
+    exitTime: allClosed ? formatDateTime(lastClose) : undefined,
+    notes: legs.length > 1 ? `Closed in ${legs.length} parts (tickets ${legs.map(l => l.ticket).join(', ')})` : undefined,
+  };
+}
+
+function parse(source: StatementSource): StatementResult {
+  const { legs, rows, mt5 } = readLegs(source);
+  const format = mt5 ? 'metatrader5' : 'metatrader4';
+  const idPrefix = mt5 ? 'mt5' : 'mt4';
+  const strategy = mt5 ? 'MT5 Import' : 'MT4 Import';
+
+  // Follow "from #ticket" links back to the ticket that opened the position
+  const byTicket = new Map(legs.map(leg => [leg.ticket, leg]));
+  const rootTicket = (leg: Leg): string => {
+    const seen = new Set<string>();
+    let current = leg;
+    while (current.fromTicket && byTicket.has(current.fromTicket) && !seen.has(current.ticket)) {
+      seen.add(current.ticket);
+      current = byTicket.get(current.fromTicket)!;
+    }
+    return current.ticket;
+  };
+
+  const groups = new Map<string, Leg[]>();
+  legs.forEach(leg => {
+    const key = rootTicket(leg);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(leg);
+  });
+
+  // Oldest ticket first: the trade takes its id, open and stops from the opening ticket
+  const trades = Array.from(groups.values()).map(group =>
+    legsToTrade([...group].sort((a, b) => Number(a.ticket) - Number(b.ticket)), idPrefix, strategy)
+  );
+  const warnings = trades.length === 0 ? ['No buy/sell rows found in the statement'] : [];
+  return { format, trades, rows, warnings };
+}
+
+export const metaTraderImporter: StatementImporter = {
+  format: 'metatrader4',
+  label: 'MetaTrader 4/5',
+  detect: source => findHeaderRow(source.grid, REQUIRED) >= 0,
+  parse,
+};
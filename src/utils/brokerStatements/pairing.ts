@@ -0,0 +1,173 @@
+import type { Trade } from '@/utils/tradingMetrics';
+import type { Fill } from './types';
+import { formatDate, formatDateTime } from './parsing';
+
+export interface PairingOptions {
+  /** Prefix for trade ids, so the same statement imported twice yields the same ids */
+  idPrefix: string;
+  strategy: string;
+  assetType: Trade['type'];
+  /**
+   * Cash accounts (spot crypto, Thai equities) can't go short: a sell with no open
+   * position closes holdings bought before the statement and is skipped
+   */
+  allowShort: boolean;
+  /** Contract multiplier per symbol (futures point value); 1 when omitted */
+  multiplier?: (symbol: string) => number;
+}
+
+export interface PairingResult {
+  trades: Trade[];
+  /** Fills that closed positions opened before the statement starts */
+  unmatchedFills: number;
+}
+
+interface OpenPosition {
+  side: Trade['side'];
+  firstFillId: string;
+  entryTime: number;
+  openQty: number;
+  entryQty: number;
+  entryCost: number;
+  exitQty: number;
+  exitValue: number;
+  exitTime: number;
+  exits: number;
+  commission: number;
+  swap: number;
+  realizedPnl: number;
+  brokerPnlExits: number;
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * Pair fills into round-trip trades, FIFO per symbol. A round trip runs from flat to
+ * flat: adds scale in, partial closes are folded into a volume-weighted exit, and a
+ * fill that crosses through zero closes the trade and opens the opposite one.
+ * Positions still open at the end of the statement become OPEN trades.
+ */
+export function pairFills(fills: Fill[], options: PairingOptions): PairingResult {
+  const trades: Trade[] = [];
+  const positions = new Map<string, OpenPosition>();
+  let unmatchedFills = 0;
+
+  const sorted = [...fills]
+    .filter(f => f.quantity > 0 && f.price > 0)
+    .sort((a, b) => a.time - b.time);
+
+  const open = (fill: Fill, quantity: number, share: number): OpenPosition => ({
+    side: fill.side === 'BUY' ? 'LONG' : 'SHORT',
+    firstFillId: fill.id,
+    entryTime: fill.time,
+    openQty: quantity,
+    entryQty: quantity,
+    entryCost: quantity * fill.price,
+    exitQty: 0,
+    exitValue: 0,
+    exitTime: 0,
+    exits: 0,
+    commission: (fill.commission ?? 0) * share,
+    swap: (fill.swap ?? 0) * share,
+    realizedPnl: 0,
+    brokerPnlExits: 0,
+  });
+
+  for (const fill of sorted) {
+    const position = positions.get(fill.symbol);
+    const direction: Trade['side'] = fill.side === 'BUY' ? 'LONG' : 'SHORT';
+
+    if (!position) {
+      if ((direction === 'SHORT' && !options.allowShort) || fill.openClose === 'C') {
+        unmatchedFills++;
+        continue;
+      }
+      positions.set(fill.symbol, open(fill, fill.quantity, 1));
+      continue;
+    }
+
+    if (position.side === direction) {
+      position.openQty += fill.quantity;
+      position.entryQty += fill.quantity;
+      position.entryCost += fill.quantity * fill.price;
+      position.commission += fill.commission ?? 0;
+      position.swap += fill.swap ?? 0;
+      continue;
+    }
+
+    // Opposite side: close up to the open quantity
+    const closeQty = Math.min(fill.quantity, position.openQty);
+    const share = closeQty / fill.quantity;
+    position.openQty -= closeQty;
+    position.exitQty += closeQty;
+    position.exitValue += closeQty * fill.price;
+    position.exitTime = fill.time;
+    position.exits++;
+    position.commission += (fill.commission ?? 0) * share;
+    position.swap += (fill.swap ?? 0) * share;
+    if (fill.realizedPnl !== undefined) {
+      position.realizedPnl += fill.realizedPnl * share;
+      position.brokerPnlExits++;
+    }
+
+    if (position.openQty <= EPSILON) {
+      trades.push(toTrade(fill.symbol, position, options, 'CLOSED'));
+      positions.delete(fill.symbol);
+
+      const remainder = fill.quantity - closeQty;
+      if (remainder > EPSILON && (direction === 'LONG' || options.allowShort)) {
+        positions.set(fill.symbol, open(fill, remainder, remainder / fill.quantity));
+      }
+    }
+  }
+
+  positions.forEach((position, symbol) => trades.push(toTrade(symbol, position, options, 'OPEN')));
+  trades.sort((a, b) => (a.entryTime || a.date).localeCompare(b.entryTime || b.date));
+  return { trades, unmatchedFills };
+}
+
+function toTrade(symbol: string, position: OpenPosition, options: PairingOptions, status: Trade['status']): Trade {
+  const multiplier = options.multiplier?.(symbol) ?? 1;
+  const entryPrice = position.entryCost / position.entryQty;
+  // An open trade's partial exits are noted but not booked until it is flat
+  const exitPrice = status === 'CLOSED' ? position.exitValue / position.exitQty : undefined;
+  const direction = position.side === 'LONG' ? 1 : -1;
+
+  // Net of costs; broker-reported P&L is used as-is when every close carried it
+  let pnl: number | undefined;
+  if (exitPrice !== undefined) {
+    const gross = position.brokerPnlExits === position.exits
+      ? position.realizedPnl
+      : (exitPrice - entryPrice) * position.exitQty * multiplier * direction;
+    pnl = gross - position.commission + position.swap;
+  }
+
+  const notes: string[] = [];
+  if (status === 'CLOSED' && position.exits > 1) notes.push(`Closed in ${position.exits} parts`);
+  if (status === 'OPEN' && position.exitQty > 0) {
+    notes.push(`Partially closed: ${round(position.exitQty)} of ${round(position.entryQty)}`);
+  }
+
+  return {
+    id: `${options.idPrefix}-${position.firstFillId}`,
+    date: formatDate(position.entryTime),
+    symbol,
+    side: position.side,
+    type: options.assetType,
+    entryPrice,
+    exitPrice,
+    quantity: position.entryQty,
+    contractSize: multiplier,
+    pnl,
+    pnlPercentage: exitPrice !== undefined ? ((exitPrice - entryPrice) / entryPrice) * 100 * direction : undefined,
+    status,
+    strategy: options.strategy,
+    commission: position.commission || undefined,
+    swap: position.swap || undefined,
+    entryTime: formatDateTime(position.entryTime),
+    exitTime: position.exitTime ? formatDateTime(position.exitTime) : undefined,
+    notes: notes.length > 0 ? notes.join('; ') : undefined,
+  };
+}
+
+const round = (value: number) => Math.round(value * 1e8) / 1e8;
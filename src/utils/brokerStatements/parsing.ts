@@ -0,0 +1,136 @@
+// Shared cell, number and date parsing for broker statements
+
+/** Numbers as brokers print them: '1 234.50', '1,234.50', '$(12.50)', '0.01BTC', '-3.5 USD' */
+export function parseNumber(value: string | undefined | null): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim();
+  if (!text) return undefined;
+  const negative = /\(.*\)/.test(text);
+  const match = text.replace(/[\s,\u00a0]/g, '').match(/-?\d+(?:\.\d+)?(?:[eE][-+]?\d+)?/);
+  if (!match) return undefined;
+  const number = parseFloat(match[0]);
+  if (isNaN(number)) return undefined;
+  return negative ? -Math.abs(number) : number;
+}
+
+export type DateOrder = 'ymd' | 'mdy' | 'dmy';
+
+/**
+ * Statement timestamps as local wall-clock time: '2024.01.15 10:30:45', '01/15/2024 10:30',
+ * '20240115;103045', '2024-01-15T10:30:45Z'. Buddhist-era years (Settrade) are converted.
+ */
+export function parseDateTime(value: string | undefined, order: DateOrder = 'ymd'): number | null {
+  if (!value) return null;
+  const text = value.trim();
+  if (!text) return null;
+
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})(?:[;\sT,]+(\d{2}):?(\d{2}):?(\d{2})?)?$/);
+  if (compact) {
+    const [, y, mo, d, h = '0', mi = '0', s = '0'] = compact;
+    return new Date(+y, +mo - 1, +d, +h, +mi, +s).getTime();
+  }
+
+  const match = text.match(/^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})(?:[\sT,;]+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(AM|PM)?)?/i);
+  if (!match) {
+    const parsed = Date.parse(text);
+    return isNaN(parsed) ? null : parsed;
+  }
+  const [, a, b, c, h = '0', mi = '0', s = '0', meridiem] = match;
+  let year: number, month: number, day: number;
+  if (a.length === 4) [year, month, day] = [+a, +b, +c];
+  else if (order === 'mdy') [month, day, year] = [+a, +b, +c];
+  else [day, month, year] = [+a, +b, +c];
+  if (year < 100) year += 2000;
+  if (year > 2400) year -= 543;
+
+  let hour = +h;
+  if (meridiem) {
+    const pm = meridiem.toUpperCase() === 'PM';
+    if (pm && hour < 12) hour += 12;
+    if (!pm && hour === 12) hour = 0;
+  }
+  const time = new Date(year, month - 1, day, hour, +mi, +s).getTime();
+  return isNaN(time) ? null : time;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export function formatDate(time: number): string {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function formatDateTime(time: number): string {
+  const d = new Date(time);
+  return `${formatDate(time)} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+}
+
+export const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Index of the first row containing every required header (case-insensitive), searched
+ * from `from`. Each entry in `required` is a list of accepted aliases.
+ */
+export function findHeaderRow(grid: string[][], required: string[][], from = 0): number {
+  for (let i = from; i < grid.length; i++) {
+    const cells = grid[i].map(normalizeHeader);
+    if (required.every(aliases => aliases.some(alias => cells.includes(alias)))) return i;
+  }
+  return -1;
+}
+
+/** Column index of the `occurrence`-th cell matching one of the aliases */
+export function columnIndex(header: string[], aliases: string[], occurrence = 0): number {
+  const cells = header.map(normalizeHeader);
+  let seen = 0;
+  for (let i = 0; i < cells.length; i++) {
+    if (aliases.includes(cells[i])) {
+      if (seen === occurrence) return i;
+      seen++;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Value under a header column. A spanned header covers several data columns, so the
+ * first non-empty cell under the span is used.
+ */
+export function cellValue(header: string[], row: string[], index: number): string {
+  if (index < 0) return '';
+  for (let i = index; i < header.length && header[i] === header[index]; i++) {
+    const value = (row[i] ?? '').trim();
+    if (value) return value;
+  }
+  return '';
+}
+
+/** Row as a header → value record; repeated headers get a numeric suffix ('Price', 'Price 2') */
+export function rowRecord(header: string[], row: string[]): Record<string, string> {
+  const record: Record<string, string> = {};
+  header.forEach((name, i) => {
+    const label = name.trim() || `Column ${i + 1}`;
+    let key = label;
+    for (let n = 2; key in record; n++) key = `${label} ${n}`;
+    record[key] = row[i] ?? '';
+  });
+  return record;
+}
+
+/**
+ * Rows of every <table> in an HTML document as cell text. A cell spanning several
+ * columns is repeated in each, so header and data cells line up by index.
+ */
+export function htmlTableRows(doc: Document): string[][] {
+  const rows: string[][] = [];
+  doc.querySelectorAll('tr').forEach(tr => {
+    const cells: string[] = [];
+    tr.querySelectorAll('td, th').forEach(cell => {
+      const text = (cell.textContent || '').replace(/\u00a0/g, ' ').trim();
+      const span = Math.max(1, parseInt(cell.getAttribute('colspan') || '1', 10) || 1);
+      for (let i = 0; i < span; i++) cells.push(text);
+    });
+    if (cells.some(c => c !== '')) rows.push(cells);
+  });
+  return rows;
+}
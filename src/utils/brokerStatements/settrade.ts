@@ -0,0 +1,92 @@
+// Settrade (Streaming / Click) deal and confirmation exports for Thai equities, in English or
+// Thai headers. Dates are day-first and may use Buddhist-era years; costs are commission,
+// VAT and exchange fees.
+
+import type { Fill, StatementImporter, StatementResult, StatementSource } from './types';
+import { pairFills } from './pairing';
+import { cellValue, columnIndex, findHeaderRow, normalizeHeader, parseDateTime, parseNumber, rowRecord } from './parsing';
+
+const ALIASES = {
+  date: ['trade date', 'date', 'วันที่', 'วันที่ซื้อขาย', 'วันที่ทำรายการ'],
+  time: ['time', 'เวลา', 'matched time'],
+  symbol: ['symbol', 'stock', 'หลักทรัพย์', 'ชื่อย่อหลักทรัพย์'],
+  side: ['side', 'b/s', 'buy/sell', 'ฝั่ง', 'ซื้อ/ขาย', 'ประเภท'],
+  volume: ['volume', 'matched volume', 'qty', 'quantity', 'จำนวน', 'จำนวนหุ้น', 'ปริมาณ'],
+  price: ['price', 'matched price', 'avg price', 'ราคา', 'ราคาที่ซื้อขาย'],
+  commission: ['comm', 'comm.', 'commission', 'brokerage fee', 'ค่านายหน้า', 'ค่าคอมมิชชั่น'],
+  vat: ['vat', 'ภาษีมูลค่าเพิ่ม', 'ภาษี'],
+  fees: ['trading fee', 'clearing fee', 'regulatory fee', 'fee', 'ค่าธรรมเนียม'],
+  dealId: ['deal no', 'deal no.', 'order no', 'order no.', 'เลขที่คำสั่ง'],
+};
+
+const REQUIRED = [ALIASES.date, ALIASES.symbol, ALIASES.side, ALIASES.volume, ALIASES.price];
+
+const sideOf = (value: string): Fill['side'] | null => {
+  const text = value.trim().toUpperCase();
+  if (text === 'B' || text.startsWith('BUY') || text.includes('ซื้อ')) return 'BUY';
+  if (text === 'S' || text.startsWith('SELL') || text.includes('ขาย')) return 'SELL';
+  return null;
+};
+
+function isSettrade(source: StatementSource): boolean {
+  const index = findHeaderRow(source.grid, REQUIRED);
+  if (index < 0) return false;
+  const header = source.grid[index];
+  // Costs broken out as commission + VAT, Thai headers, or an SET-style file name
+  return columnIndex(header, ALIASES.vat) >= 0
+    || header.some(h => /[\u0E00-\u0E7F]/.test(h))
+    || /settrade|streaming/i.test(source.fileName);
+}
+
+function parse(source: StatementSource): StatementResult {
+  const headerIndex = findHeaderRow(source.grid, REQUIRED);
+  const header = source.grid[headerIndex];
+  const col = (aliases: string[]) => columnIndex(header, aliases);
+  const feeColumns = header
+    .map((_, i) => i)
+    .filter(i => ALIASES.fees.includes(normalizeHeader(header[i])));
+
+  const fills: Fill[] = [];
+  const rows: Record<string, string>[] = [];
+  source.grid.slice(headerIndex + 1).forEach((row, index) => {
+    const value = (i: number) => cellValue(header, row, i);
+    const side = sideOf(value(col(ALIASES.side)));
+    const date = value(col(ALIASES.date));
+    const clock = value(col(ALIASES.time));
+    const time = parseDateTime(clock && !date.includes(':') ? `${date} ${clock}` : date, 'dmy');
+    const quantity = parseNumber(value(col(ALIASES.volume)));
+    const price = parseNumber(value(col(ALIASES.price)));
+    const symbol = value(col(ALIASES.symbol)).toUpperCase();
+    if (!side || time === null || !quantity || !price || !symbol) return;
+    rows.push(rowRecord(header, row));
+
+    const costs = [col(ALIASES.commission), col(ALIASES.vat), ...feeColumns]
+      .filter(i => i >= 0)
+      .reduce((sum, i) => sum + Math.abs(parseNumber(value(i)) ?? 0), 0);
+    fills.push({
+      id: value(col(ALIASES.dealId)) || `${time}-${index}`,
+      time,
+      symbol,
+      side,
+      quantity: Math.abs(quantity),
+      price,
+      commission: costs,
+    });
+  });
+
+  const { trades, unmatchedFills } = pairFills(fills, {
+    idPrefix: 'settrade',
+    strategy: 'Settrade Import',
+    assetType: 'STOCK',
+    allowShort: false,
+  });
+  const warnings = unmatchedFills > 0 ? [`${unmatchedFills} sell(s) of shares bought before this export were skipped`] : [];
+  return { format: 'settrade', trades, rows, warnings };
+}
+
+export const settradeImporter: StatementImporter = {
+  format: 'settrade',
+  label: 'Settrade',
+  detect: isSettrade,
+  parse,
+};
@@ -0,0 +1,152 @@
+// Tradovate exports: the Performance report (one row per matched buy/sell lot, already
+// round trips) and the Fills / Orders reports (executions, paired FIFO here).
+
+import type { Trade } from '@/utils/tradingMetrics';
+import type { Fill, StatementImporter, StatementResult, StatementSource } from './types';
+import { pairFills } from './pairing';
+import { cellValue, columnIndex, findHeaderRow, formatDate, formatDateTime, parseDateTime, parseNumber, rowRecord } from './parsing';
+
+// Dollar value of one point, by product root
+const POINT_VALUES: Record<string, number> = {
+  ES: 50, MES: 5, NQ: 20, MNQ: 2, YM: 5, MYM: 0.5, RTY: 50, M2K: 5,
+  CL: 1000, MCL: 100, QM: 500, NG: 10000, GC: 100, MGC: 10, SI: 5000, SIL: 1000, HG: 25000,
+  ZB: 1000, ZN: 1000, ZF: 1000, ZT: 2000, ZC: 50, ZS: 50, ZW: 50,
+  '6E': 125000, '6B': 62500, '6J': 12500000, '6A': 100000, '6C': 100000, M6E: 12500,
+  BTC: 5, MBT: 0.1, ETH: 50, MET: 0.1,
+};
+
+/** 'ESZ4' / 'MNQH25' → 'ES' / 'MNQ' */
+export const productRoot = (contract: string) => {
+  const symbol = contract.trim().toUpperCase();
+  return symbol.match(/^([A-Z0-9]+?)[FGHJKMNQUVXZ]\d{1,2}$/)?.[1] ?? symbol;
+};
+
+export const futuresPointValue = (contract: string) => POINT_VALUES[productRoot(contract)] ?? 1;
+
+const PERFORMANCE_REQUIRED = [['symbol'], ['qty'], ['buyprice'], ['sellprice'], ['boughttimestamp'], ['soldtimestamp']];
+const FILLS_REQUIRED = [['b/s'], ['contract', 'symbol'], ['filledqty', 'quantity', 'qty', 'filled qty'], ['avgprice', 'price', 'fill price', 'avg fill price']];
+
+function parsePerformance(source: StatementSource, headerIndex: number): StatementResult {
+  const header = source.grid[headerIndex];
+  const col = (name: string) => columnIndex(header, [name]);
+  const rows: Record<string, string>[] = [];
+  const groups = new Map<string, { symbol: string; side: Trade['side']; entryTime: number; entryPrice: number; lots: { qty: number; exitPrice: number; exitTime: number; pnl: number }[] }>();
+
+  for (const row of source.grid.slice(headerIndex + 1)) {
+    const value = (name: string) => cellValue(header, row, col(name));
+    const symbol = value('symbol').toUpperCase();
+    const qty = parseNumber(value('qty'));
+    const buyPrice = parseNumber(value('buyprice'));
+    const sellPrice = parseNumber(value('sellprice'));
+    const bought = parseDateTime(value('boughttimestamp'), 'mdy');
+    const sold = parseDateTime(value('soldtimestamp'), 'mdy');
+    if (!symbol || !qty || !buyPrice || !sellPrice || bought === null || sold === null) continue;
+    rows.push(rowRecord(header, row));
+
+    // The earlier leg opened the trade
+    const long = bought <= sold;
+    const entryFill = long ? value('buyfillid') : value('sellfillid');
+    const entryTime = long ? bought : sold;
+    const key = `${symbol}|${entryFill || entryTime}`;
+    if (!groups.has(key)) {
+      groups.set(key, { symbol, side: long ? 'LONG' : 'SHORT', entryTime, entryPrice: long ? buyPrice : sellPrice, lots: [] });
+    }
+    groups.get(key)!.lots.push({
+      qty,
+      exitPrice: long ? sellPrice : buyPrice,
+      exitTime: long ? sold : bought,
+      pnl: parseNumber(value('pnl')) ?? (sellPrice - buyPrice) * qty * futuresPointValue(symbol),
+    });
+  }
+
+  const trades: Trade[] = Array.from(groups.entries()).map(([key, group]) => {
+    const quantity = group.lots.reduce((sum, l) => sum + l.qty, 0);
+    const exitPrice = group.lots.reduce((sum, l) => sum + l.exitPrice * l.qty, 0) / quantity;
+    const direction = group.side === 'LONG' ? 1 : -1;
+    return {
+      id: `tradovate-${key.split('|')[1]}`,
+      date: formatDate(group.entryTime),
+      symbol: group.symbol,
+      side: group.side,
+      type: 'CFD',
+      entryPrice: group.entryPrice,
+      exitPrice,
+      quantity,
+      contractSize: futuresPointValue(group.symbol),
+      pnl: group.lots.reduce((sum, l) => sum + l.pnl, 0),
+      pnlPercentage: ((exitPrice - group.entryPrice) / group.entryPrice) * 100 * direction,
+      status: 'CLOSED',
+      strategy: 'Tradovate Import',
+      entryTime: formatDateTime(group.entryTime),
+      exitTime: formatDateTime(Math.max(...group.lots.map(l => l.exitTime))),
+      notes: group.lots.length > 1 ? `Closed in ${group.lots.length} parts` : undefined,
+    };
+  });
+
+  return {
+    format: 'tradovate',
+    trades,
+    rows,
+    warnings: ['The Performance report has no commissions; import the Fills report to include them'],
+  };
+}
+
+function parseFills(source: StatementSource, headerIndex: number): StatementResult {
+  const header = source.grid[headerIndex];
+  const col = (aliases: string[]) => columnIndex(header, aliases);
+  const columns = {
+    id: col(['fill id', 'fillid', 'id', 'order id', 'orderid']),
+    side: col(['b/s']),
+    contract: col(['contract', 'symbol']),
+    qty: col(['filledqty', 'filled qty', 'quantity', 'qty']),
+    price: col(['avgprice', 'avg fill price', 'fill price', 'price']),
+    time: col(['fill time', 'timestamp', 'time', 'date']),
+    commission: col(['commission', 'fees']),
+    status: col(['status']),
+  };
+
+  const fills: Fill[] = [];
+  const rows: Record<string, string>[] = [];
+  source.grid.slice(headerIndex + 1).forEach((row, index) => {
+    const value = (i: number) => cellValue(header, row, i);
+    const status = value(columns.status).toLowerCase();
+    if (columns.status >= 0 && status && status !== 'filled') return;
+    const side = value(columns.side).trim().toLowerCase();
+    const time = parseDateTime(value(columns.time), 'mdy');
+    const quantity = parseNumber(value(columns.qty));
+    const price = parseNumber(value(columns.price));
+    if (!side || time === null || !quantity || !price) return;
+    rows.push(rowRecord(header, row));
+    fills.push({
+      id: value(columns.id) || `${time}-${index}`,
+      time,
+      symbol: value(columns.contract).toUpperCase(),
+      side: side.startsWith('b') ? 'BUY' : 'SELL',
+      quantity: Math.abs(quantity),
+      price,
+      commission: Math.abs(parseNumber(value(columns.commission)) ?? 0),
+    });
+  });
+
+  const { trades, unmatchedFills } = pairFills(fills, {
+    idPrefix: 'tradovate',
+    strategy: 'Tradovate Import',
+    assetType: 'CFD',
+    allowShort: true,
+    multiplier: futuresPointValue,
+  });
+  const warnings = unmatchedFills > 0 ? [`${unmatchedFills} fill(s) closed positions opened before this report`] : [];
+  return { format: 'tradovate', trades, rows, warnings };
+}
+
+export const tradovateImporter: StatementImporter = {
+  format: 'tradovate',
+  label: 'Tradovate',
+  detect: source => findHeaderRow(source.grid, PERFORMANCE_REQUIRED) >= 0 || findHeaderRow(source.grid, FILLS_REQUIRED) >= 0,
+  parse: source => {
+    const performance = findHeaderRow(source.grid, PERFORMANCE_REQUIRED);
+    return performance >= 0
+      ? parsePerformance(source, performance)
+      : parseFills(source, findHeaderRow(source.grid, FILLS_REQUIRED));
+  },
+};
@@ -0,0 +1,42 @@
+import type { Trade } from '@/utils/tradingMetrics';
+
+export type BrokerFormat = 'metatrader4' | 'metatrader5' | 'tradovate' | 'ibkr_flex' | 'binance' | 'settrade';
+
+/** One execution from a statement. Commission is a positive cost; swap keeps the broker's sign. */
+export interface Fill {
+  id: string;
+  time: number;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  commission?: number;
+  swap?: number;
+  /** Broker-computed P&L on a closing fill (IB fifoPnlRealized, Binance futures Realized Profit) */
+  realizedPnl?: number;
+  /** Explicit open/close flag when the statement carries one (IB O/C, MT5 in/out) */
+  openClose?: 'O' | 'C';
+}
+
+/** A parsed file before a format is recognized: CSV rows, HTML table rows or an XML document */
+export interface StatementSource {
+  fileName: string;
+  text: string;
+  grid: string[][];
+  xml: Document | null;
+}
+
+export interface StatementResult {
+  format: BrokerFormat;
+  trades: Trade[];
+  /** Source rows as header → value records, for the preview table */
+  rows: Record<string, string>[];
+  warnings: string[];
+}
+
+export interface StatementImporter {
+  format: BrokerFormat;
+  label: string;
+  detect: (source: StatementSource) => boolean;
+  parse: (source: StatementSource) => StatementResult;
+}
@@ -0,0 +1,232 @@
+// ============================================
+// Pine Script AST node definitions
+// ============================================
+
+interface BaseNode {
+  /** Unique per parse, used to key call-site and series state */
+  id: number;
+  line: number;
+  column: number;
+}
+
+// ---- EXPRESSIONS ----
+
+export interface NumberLiteral extends BaseNode {
+  kind: 'Number';
+  value: number;
+  isInt: boolean;
+}
+
+export interface StringLiteral extends BaseNode {
+  kind: 'String';
+  value: string;
+}
+
+export interface BoolLiteral extends BaseNode {
+  kind: 'Bool';
+  value: boolean;
+}
+
+export interface ColorLiteral extends BaseNode {
+  kind: 'Color';
+  value: string;
+}
+
+export interface Identifier extends BaseNode {
+  kind: 'Identifier';
+  name: string;
+}
+
+export interface MemberExpr extends BaseNode {
+  kind: 'Member';
+  object: Expression;
+  property: string;
+}
+
+export interface CallArgument {
+  name?: string;
+  value: Expression;
+}
+
+export interface CallExpr extends BaseNode {
+  kind: 'Call';
+  callee: Expression;
+  args: CallArgument[];
+  typeArgs?: string[];
+}
+
+export interface HistoryExpr extends BaseNode {
+  kind: 'History';
+  target: Expression;
+  offset: Expression;
+}
+
+export interface UnaryExpr extends BaseNode {
+  kind: 'Unary';
+  operator: '-' | '+' | 'not';
+  operand: Expression;
+}
+
+export interface BinaryExpr extends BaseNode {
+  kind: 'Binary';
+  operator: string;
+  left: Expression;
+  right: Expression;
+}
+
+export interface TernaryExpr extends BaseNode {
+  kind: 'Ternary';
+  test: Expression;
+  consequent: Expression;
+  alternate: Expression;
+}
+
+export interface TupleExpr extends BaseNode {
+  kind: 'Tuple';
+  elements: Expression[];
+}
+
+export interface IfExpr extends BaseNode {
+  kind: 'If';
+  test: Expression;
+  consequent: Block;
+  alternate?: Block | IfExpr;
+}
+
+export interface SwitchCase {
+  test?: Expression;
+  body: Block;
+}
+
+export interface SwitchExpr extends BaseNode {
+  kind: 'Switch';
+  subject?: Expression;
+  cases: SwitchCase[];
+}
+
+export interface ForExpr extends BaseNode {
+  kind: 'For';
+  iterator: string;
+  from: Expression;
+  to: Expression;
+  step?: Expression;
+  body: Block;
+}
+
+export interface ForInExpr extends BaseNode {
+  kind: 'ForIn';
+  index?: string;
+  item: string;
+  iterable: Expression;
+  body: Block;
+}
+
+export interface WhileExpr extends BaseNode {
+  kind: 'While';
+  test: Expression;
+  body: Block;
+}
+
+export type Expression =
+  | NumberLiteral
+  | StringLiteral
+  | BoolLiteral
+  | ColorLiteral
+  | Identifier
+  | MemberExpr
+  | CallExpr
+  | HistoryExpr
+  | UnaryExpr
+  | BinaryExpr
+  | TernaryExpr
+  | TupleExpr
+  | IfExpr
+  | SwitchExpr
+  | ForExpr
+  | ForInExpr
+  | WhileExpr;
+
+// ---- STATEMENTS ----
+
+export type DeclarationMode = 'none' | 'var' | 'varip';
+
+export interface VarDecl extends BaseNode {
+  kind: 'VarDecl';
+  mode: DeclarationMode;
+  typeName?: string;
+  name: string;
+  init: Expression;
+}
+
+export interface TupleDecl extends BaseNode {
+  kind: 'TupleDecl';
+  names: string[];
+  init: Expression;
+}
+
+export interface Assignment extends BaseNode {
+  kind: 'Assign';
+  operator: ':=' | '+=' | '-=' | '*=' | '/=' | '%=';
+  target: Identifier | MemberExpr;
+  value: Expression;
+}
+
+export interface FunctionParam {
+  name: string;
+  typeName?: string;
+  defaultValue?: Expression;
+}
+
+export interface FunctionDecl extends BaseNode {
+  kind: 'FunctionDecl';
+  name: string;
+  params: FunctionParam[];
+  body: Block;
+  isMethod: boolean;
+}
+
+export interface TypeField {
+  name: string;
+  typeName: string;
+  defaultValue?: Expression;
+}
+
+export interface TypeDecl extends BaseNode {
+  kind: 'TypeDecl';
+  name: string;
+  fields: TypeField[];
+}
+
+export interface ExpressionStatement extends BaseNode {
+  kind: 'ExprStmt';
+  expression: Expression;
+}
+
+export interface BreakStatement extends BaseNode {
+  kind: 'Break';
+}
+
+export interface ContinueStatement extends BaseNode {
+  kind: 'Continue';
+}
+
+export type Statement =
+  | VarDecl
+  | TupleDecl
+  | Assignment
+  | FunctionDecl
+  | TypeDecl
+  | ExpressionStatement
+  | BreakStatement
+  | ContinueStatement;
+
+export interface Block extends BaseNode {
+  kind: 'Block';
+  body: Statement[];
+}
+
+export interface Program {
+  kind: 'Program';
+  version: number;
+  body: Statement[];
+}
@@ -0,0 +1,874 @@
+// ============================================
+// Pine Script built-in functions and variables
+// (ta.* lives in ./ta)
+// ============================================
+
+import type { PineScriptResult } from '../PineScriptRunner';
+import {
+  BuiltinContext,
+  BuiltinFunction,
+  BuiltinVariable,
+  PineDeclaration,
+  PineInputType,
+  barVariable,
+  builtin,
+} from './runtime';
+import { SOURCE_INPUTS, declareInput } from './inputs';
+import { chartPeriod } from './security';
+import { STRATEGY_FUNCTIONS, STRATEGY_VARIABLES, StrategyBroker } from './strategy';
+import { TA_FUNCTIONS, TA_VARIABLES } from './ta';
+import { PineObject, isNa, toBool, toNumber } from './values';
+
+/** Parameter list marker for functions taking any number of positional arguments */
+export const VARIADIC = '...';
+
+// ---- COLORS ----
+
+export const COLOR_CONSTANTS: Record<string, string> = {
+  aqua: '#00BCD4',
+  black: '#000000',
+  blue: '#2962FF',
+  fuchsia: '#E040FB',
+  gray: '#787B86',
+  green: '#089981',
+  lime: '#C6FF00',
+  maroon: '#880E4F',
+  navy: '#311B92',
+  olive: '#827717',
+  orange: '#FF9800',
+  purple: '#7B1FA2',
+  red: '#F23645',
+  silver: '#B2B5BE',
+  teal: '#00897B',
+  white: '#FFFFFF',
+  yellow: '#FFEB3B',
+};
+
+const DEFAULT_PLOT_COLOR = '#2962FF';
+const DEFAULT_HLINE_COLOR = '#787B86';
+
+interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+const parseColor = (value: unknown): RGBA | null => {
+  if (typeof value !== 'string') return null;
+  const hex = value.match(/^#([0-9a-fA-F]{6})([0-9a-fA-F]{2})?$/);
+  if (hex) {
+    const n = parseInt(hex[1], 16);
+    return { r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255, a: hex[2] ? parseInt(hex[2], 16) / 255 : 1 };
+  }
+  const rgb = value.match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/);
+  if (rgb) {
+    return { r: +rgb[1], g: +rgb[2], b: +rgb[3], a: rgb[4] !== undefined ? +rgb[4] : 1 };
+  }
+  return null;
+};
+
+const formatColor = ({ r, g, b, a }: RGBA): string => {
+  const hex = (n: number) => Math.round(Math.min(255, Math.max(0, n))).toString(16).padStart(2, '0').toUpperCase();
+  return `#${hex(r)}${hex(g)}${hex(b)}${a < 1 ? hex(a * 255) : ''}`;
+};
+
+const transparencyToAlpha = (transp: unknown) => (100 - Math.min(100, Math.max(0, toNumber(transp) || 0))) / 100;
+
+const COLOR_FUNCTIONS: Record<string, BuiltinFunction> = {
+  'color.new': builtin(['color', 'transp'], (ctx, color, transp) => {
+    const parsed = parseColor(color);
+    return parsed ? formatColor({ ...parsed, a: transparencyToAlpha(transp) }) : NaN;
+  }),
+  'color.rgb': builtin(['red', 'green', 'blue', 'transp'], (ctx, r, g, b, transp = 0) =>
+    formatColor({ r: toNumber(r), g: toNumber(g), b: toNumber(b), a: transparencyToAlpha(transp) })
+  ),
+  'color.r': builtin(['color'], (ctx, color) => parseColor(color)?.r ?? NaN),
+  'color.g': builtin(['color'], (ctx, color) => parseColor(color)?.g ?? NaN),
+  'color.b': builtin(['color'], (ctx, color) => parseColor(color)?.b ?? NaN),
+  'color.t': builtin(['color'], (ctx, color) => {
+    const parsed = parseColor(color);
+    return parsed ? Math.round((1 - parsed.a) * 100) : NaN;
+  }),
+  'color.from_gradient': builtin(
+    ['value', 'bottom_value', 'top_value', 'bottom_color', 'top_color'],
+    (ctx, value, bottom, top, bottomColor, topColor) => {
+      const from = parseColor(bottomColor);
+      const to = parseColor(topColor);
+      if (!from || !to || isNa(value)) return NaN;
+      const span = toNumber(top) - toNumber(bottom);
+      const t = span === 0 ? 0 : Math.min(1, Math.max(0, (toNumber(value) - toNumber(bottom)) / span));
+      return formatColor({
+        r: from.r + (to.r - from.r) * t,
+        g: from.g + (to.g - from.g) * t,
+        b: from.b + (to.b - from.b) * t,
+        a: from.a + (to.a - from.a) * t,
+      });
+    }
+  ),
+};
+
+// ---- MATH ----
+
+const variadicNumbers = (fn: (values: number[]) => number) => builtin([VARIADIC], (ctx, ...args) => fn(args.map(toNumber)));
+
+const MATH_FUNCTIONS: Record<string, BuiltinFunction> = {
+  'math.abs': builtin(['number'], (ctx, x) => Math.abs(toNumber(x))),
+  'math.acos': builtin(['angle'], (ctx, x) => Math.acos(toNumber(x))),
+  'math.asin': builtin(['angle'], (ctx, x) => Math.asin(toNumber(x))),
+  'math.atan': builtin(['angle'], (ctx, x) => Math.atan(toNumber(x))),
+  'math.ceil': builtin(['number'], (ctx, x) => Math.ceil(toNumber(x))),
+  'math.cos': builtin(['angle'], (ctx, x) => Math.cos(toNumber(x))),
+  'math.exp': builtin(['number'], (ctx, x) => Math.exp(toNumber(x))),
+  'math.floor': builtin(['number'], (ctx, x) => Math.floor(toNumber(x))),
+  'math.log': builtin(['number'], (ctx, x) => Math.log(toNumber(x))),
+  'math.log10': builtin(['number'], (ctx, x) => Math.log10(toNumber(x))),
+  'math.pow': builtin(['base', 'exponent'], (ctx, base, exponent) => Math.pow(toNumber(base), toNumber(exponent))),
+  'math.sign': builtin(['number'], (ctx, x) => Math.sign(toNumber(x))),
+  'math.sin': builtin(['angle'], (ctx, x) => Math.sin(toNumber(x))),
+  'math.sqrt': builtin(['number'], (ctx, x) => Math.sqrt(toNumber(x))),
+  'math.tan': builtin(['angle'], (ctx, x) => Math.tan(toNumber(x))),
+  'math.todegrees': builtin(['radians'], (ctx, x) => (toNumber(x) * 180) / Math.PI),
+  'math.toradians': builtin(['degrees'], (ctx, x) => (toNumber(x) * Math.PI) / 180),
+  'math.round': builtin(['number', 'precision'], (ctx, x, precision) => {
+    if (precision === undefined) return Math.round(toNumber(x));
+    const factor = Math.pow(10, toNumber(precision));
+    return Math.round(toNumber(x) * factor) / factor;
+  }),
+  'math.round_to_mintick': builtin(['number'], (ctx, x) => {
+    const tick = ctx.runtime.options.mintick ?? 0.01;
+    return Math.round(toNumber(x) / tick) * tick;
+  }),
+  'math.random': builtin(['min', 'max', 'seed'], (ctx, min = 0, max = 1) =>
+    toNumber(min) + Math.random() * (toNumber(max) - toNumber(min))
+  ),
+  'math.max': variadicNumbers(values => Math.max(...values)),
+  'math.min': variadicNumbers(values => Math.min(...values)),
+  'math.avg': variadicNumbers(values => values.reduce((a, b) => a + b, 0) / values.length),
+};
+
+// ---- STRINGS ----
+
+const formatNumber = (value: unknown, format?: unknown): string => {
+  if (isNa(value)) return 'NaN';
+  if (typeof value !== 'number') return String(value);
+  if (format === 'percent') return `${value.toFixed(2)}%`;
+  if (format === 'volume') {
+    const abs = Math.abs(value);
+    if (abs >= 1e9) return `${(value / 1e9).toFixed(2)}B`;
+    if (abs >= 1e6) return `${(value / 1e6).toFixed(2)}M`;
+    if (abs >= 1e3) return `${(value / 1e3).toFixed(2)}K`;
+    return String(value);
+  }
+  if (typeof format === 'string') {
+    const decimals = format.match(/\.([#0]+)/);
+    if (decimals) return value.toFixed(decimals[1].length);
+    if (/^[#0,]+$/.test(format)) return Math.round(value).toString();
+  }
+  return String(value);
+};
+
+const STRING_FUNCTIONS: Record<string, BuiltinFunction> = {
+  'str.tostring': builtin(['value', 'format'], (ctx, value, format) => formatNumber(value, format)),
+  'str.tonumber': builtin(['string'], (ctx, s) => {
+    const parsed = parseFloat(String(s));
+    return Number.isNaN(parsed) ? NaN : parsed;
+  }),
+  'str.format': builtin([VARIADIC], (ctx, format, ...args) =>
+    String(format).replace(/\{(\d+)(?:,\s*number,\s*([^}]+))?\}/g, (match, index, pattern) =>
+      formatNumber(args[Number(index)], pattern)
+    )
+  ),
+  'str.length': builtin(['string'], (ctx, s) => String(s).length),
+  'str.contains': builtin(['source', 'str'], (ctx, source, s) => String(source).includes(String(s))),
+  'str.startswith': builtin(['source', 'str'], (ctx, source, s) => String(source).startsWith(String(s))),
+  'str.endswith': builtin(['source', 'str'], (ctx, source, s) => String(source).endsWith(String(s))),
+  'str.pos': builtin(['source', 'str'], (ctx, source, s) => {
+    const index = String(source).indexOf(String(s));
+    return index < 0 ? NaN : index;
+  }),
+  'str.substring': builtin(['source', 'begin_pos', 'end_pos'], (ctx, source, begin, end) =>
+    String(source).substring(toNumber(begin), end === undefined ? undefined : toNumber(end))
+  ),
+  'str.replace': builtin(['source', 'target', 'replacement', 'occurrence'], (ctx, source, target, replacement, occurrence = 0) => {
+    const parts = String(source).split(String(target));
+    const index = toNumber(occurrence);
+    if (index >= parts.length - 1) return String(source);
+    return parts.slice(0, index + 1).join(String(target)) + String(replacement) + parts.slice(index + 1).join(String(target));
+  }),
+  'str.replace_all': builtin(['source', 'target', 'replacement'], (ctx, source, target, replacement) =>
+    String(source).split(String(target)).join(String(replacement))
+  ),
+  'str.lower': builtin(['source'], (ctx, s) => String(s).toLowerCase()),
+  'str.upper': builtin(['source'], (ctx, s) => String(s).toUpperCase()),
+  'str.trim': builtin(['source'], (ctx, s) => String(s).trim()),
+  'str.split': builtin(['string', 'separator'], (ctx, s, separator) => String(s).split(String(separator))),
+  'str.repeat': builtin(['source', 'repeat', 'separator'], (ctx, s, count, separator = '') =>
+    Array(Math.max(0, toNumber(count))).fill(String(s)).join(String(separator))
+  ),
+  'str.match': builtin(['source', 'regex'], (ctx, s, regex) => String(s).match(new RegExp(String(regex)))?.[0] ?? ''),
+};
+
+// ---- ARRAYS & MAPS ----
+
+const checkIndex = (ctx: BuiltinContext, arr: unknown[], index: unknown): number => {
+  const raw = Math.floor(toNumber(index));
+  const i = raw < 0 ? arr.length + raw : raw;
+  if (!(i >= 0 && i < arr.length)) {
+    throw ctx.error(`Index ${raw} is out of bounds. Array size is ${arr.length}`);
+  }
+  return i;
+};
+
+const asArray = (ctx: BuiltinContext, value: unknown): unknown[] => {
+  if (!Array.isArray(value)) throw ctx.error('Cannot call array methods on na or a non-array value');
+  return value;
+};
+
+const numbers = (ctx: BuiltinContext, value: unknown): number[] => asArray(ctx, value).map(toNumber);
+
+const newArray = builtin(['size', 'initial_value'], (ctx, size = 0, initial = NaN) =>
+  Array.from({ length: Math.max(0, toNumber(size)) }, () => initial)
+);
+
+const ARRAY_FUNCTIONS: Record<string, BuiltinFunction> = {
+  'array.new': newArray,
+  'array.new_float': newArray,
+  'array.new_int': newArray,
+  'array.new_bool': builtin(['size', 'initial_value'], (ctx, size = 0, initial = false) =>
+    Array.from({ length: Math.max(0, toNumber(size)) }, () => initial)
+  ),
+  'array.new_string': newArray,
+  'array.new_color': newArray,
+  'array.new_line': newArray,
+  'array.new_label': newArray,
+  'array.new_box': newArray,
+  'array.from': builtin([VARIADIC], (ctx, ...items) => items),
+  'array.size': builtin(['id'], (ctx, arr) => asArray(ctx, arr).length),
+  'array.get': builtin(['id', 'index'], (ctx, arr, index) => {
+    const a = asArray(ctx, arr);
+    return a[checkIndex(ctx, a, index)];
+  }),
+  'array.set': builtin(['id', 'index', 'value'], (ctx, arr, index, value) => {
+    const a = asArray(ctx, arr);
+    a[checkIndex(ctx, a, index)] = value;
+  }),
+  'array.push': builtin(['id', 'value'], (ctx, arr, value) => {
+    asArray(ctx, arr).push(value);
+  }),
+  'array.pop': builtin(['id'], (ctx, arr) => {
+    const a = asArray(ctx, arr);
+    if (!a.length) throw ctx.error('Cannot pop from an empty array');
+    return a.pop();
+  }),
+  'array.shift': builtin(['id'], (ctx, arr) => {
+    const a = asArray(ctx, arr);
+    if (!a.length) throw ctx.error('Cannot shift an empty array');
+    return a.shift();
+  }),
+  'array.unshift': builtin(['id', 'value'], (ctx, arr, value) => {
+    asArray(ctx, arr).unshift(value);
+  }),
+  'array.insert': builtin(['id', 'index', 'value'], (ctx, arr, index, value) => {
+    asArray(ctx, arr).splice(toNumber(index), 0, value);
+  }),
+  'array.remove': builtin(['id', 'index'], (ctx, arr, index) => {
+    const a = asArray(ctx, arr);
+    return a.splice(checkIndex(ctx, a, index), 1)[0];
+  }),
+  'array.clear': builtin(['id'], (ctx, arr) => {
+    asArray(ctx, arr).length = 0;
+  }),
+  'array.first': builtin(['id'], (ctx, arr) => {
+    const a = asArray(ctx, arr);
+    return a[checkIndex(ctx, a, 0)];
+  }),
+  'array.last': builtin(['id'], (ctx, arr) => {
+    const a = asArray(ctx, arr);
+    return a[checkIndex(ctx, a, -1)];
+  }),
+  'array.includes': builtin(['id', 'value'], (ctx, arr, value) => asArray(ctx, arr).includes(value)),
+  'array.indexof': builtin(['id', 'value'], (ctx, arr, value) => asArray(ctx, arr).indexOf(value)),
+  'array.lastindexof': builtin(['id', 'value'], (ctx, arr, value) => asArray(ctx, arr).lastIndexOf(value)),
+  'array.copy': builtin(['id'], (ctx, arr) => [...asArray(ctx, arr)]),
+  'array.slice': builtin(['id', 'index_from', 'index_to'], (ctx, arr, from, to) =>
+    asArray(ctx, arr).slice(toNumber(from), toNumber(to))
+  ),
+  'array.concat': builtin(['id1', 'id2'], (ctx, a, b) => {
+    const target = asArray(ctx, a);
+    target.push(...asArray(ctx, b));
+    return target;
+  }),
+  'array.fill': builtin(['id', 'value', 'index_from', 'index_to'], (ctx, arr, value, from = 0, to) => {
+    const a = asArray(ctx, arr);
+    a.fill(value, toNumber(from), to === undefined ? a.length : toNumber(to));
+  }),
+  'array.reverse': builtin(['id'], (ctx, arr) => {
+    asArray(ctx, arr).reverse();
+  }),
+  'array.sort': builtin(['id', 'order'], (ctx, arr, order = 'ascending') => {
+    const a = asArray(ctx, arr);
+    a.sort((x, y) => {
+      const diff = typeof x === 'string' ? String(x).localeCompare(String(y)) : toNumber(x) - toNumber(y);
+      return order === 'descending' ? -diff : diff;
+    });
+  }),
+  'array.join': builtin(['id', 'separator'], (ctx, arr, separator = '') =>
+    asArray(ctx, arr).map(v => formatNumber(v)).join(String(separator))
+  ),
+  'array.sum': builtin(['id'], (ctx, arr) => numbers(ctx, arr).reduce((a, b) => a + b, 0)),
+  'array.avg': builtin(['id'], (ctx, arr) => {
+    const values = numbers(ctx, arr);
+    return values.length ? values.reduce((a, b) => a + b, 0) / values.length : NaN;
+  }),
+  'array.min': builtin(['id'], (ctx, arr) => {
+    const values = numbers(ctx, arr);
+    return values.length ? Math.min(...values) : NaN;
+  }),
+  'array.max': builtin(['id'], (ctx, arr) => {
+    const values = numbers(ctx, arr);
+    return values.length ? Math.max(...values) : NaN;
+  }),
+  'array.range': builtin(['id'], (ctx, arr) => {
+    const values = numbers(ctx, arr);
+    return values.length ? Math.max(...values) - Math.min(...values) : NaN;
+  }),
+  'array.median': builtin(['id'], (ctx, arr) => {
+    const sorted = numbers(ctx, arr).sort((a, b) => a - b);
+    if (!sorted.length) return NaN;
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  }),
+  'array.stdev': builtin(['id', 'biased'], (ctx, arr, biased = true) => {
+    const values = numbers(ctx, arr);
+    if (!values.length) return NaN;
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const divisor = biased ? values.length : values.length - 1;
+    return Math.sqrt(values.reduce((a, b) => a + (b - mean) ** 2, 0) / divisor);
+  }),
+  'array.variance': builtin(['id', 'biased'], (ctx, arr, biased = true) => {
+    const values = numbers(ctx, arr);
+    if (!values.length) return NaN;
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const divisor = biased ? values.length : values.length - 1;
+    return values.reduce((a, b) => a + (b - mean) ** 2, 0) / divisor;
+  }),
+  'array.abs': builtin(['id'], (ctx, arr) => numbers(ctx, arr).map(Math.abs)),
+
+  'map.new': builtin([], () => new Map<unknown, unknown>()),
+  'map.put': builtin(['id', 'key', 'value'], (ctx, map, key, value) => {
+    const m = map as Map<unknown, unknown>;
+    const previous = m.has(key) ? m.get(key) : NaN;
+    m.set(key, value);
+    return previous;
+  }),
+  'map.get': builtin(['id', 'key'], (ctx, map, key) => {
+    const m = map as Map<unknown, unknown>;
+    return m.has(key) ? m.get(key) : NaN;
+  }),
+  'map.contains': builtin(['id', 'key'], (ctx, map, key) => (map as Map<unknown, unknown>).has(key)),
+  'map.remove': builtin(['id', 'key'], (ctx, map, key) => {
+    const m = map as Map<unknown, unknown>;
+    const previous = m.has(key) ? m.get(key) : NaN;
+    m.delete(key);
+    return previous;
+  }),
+  'map.size': builtin(['id'], (ctx, map) => (map as Map<unknown, unknown>).size),
+  'map.keys': builtin(['id'], (ctx, map) => [...(map as Map<unknown, unknown>).keys()]),
+  'map.values': builtin(['id'], (ctx, map) => [...(map as Map<unknown, unknown>).values()]),
+  'map.clear': builtin(['id'], (ctx, map) => {
+    (map as Map<unknown, unknown>).clear();
+  }),
+};
+
+// ---- DECLARATIONS & INPUTS ----
+
+const INDICATOR_PARAMS = [
+  'title', 'shorttitle', 'overlay', 'format', 'precision', 'scale', 'max_bars_back', 'timeframe',
+  'timeframe_gaps', 'explicit_plot_zorder', 'max_lines_count', 'max_labels_count', 'max_boxes_count',
+  'calc_bars_count', 'max_polylines_count', 'dynamic_requests', 'behind_chart',
+];
+
+const STRATEGY_PARAMS = [
+  'title', 'shorttitle', 'overlay', 'format', 'precision', 'scale', 'pyramiding', 'calc_on_order_fills',
+  'calc_on_every_tick', 'max_bars_back', 'backtest_fill_limits_assumption', 'default_qty_type',
+  'default_qty_value', 'initial_capital', 'currency', 'slippage', 'commission_type', 'commission_value',
+  'process_orders_on_close', 'close_entries_rule', 'margin_long', 'margin_short', 'explicit_plot_zorder',
+  'max_lines_count', 'max_labels_count', 'max_boxes_count', 'risk_free_rate', 'use_bar_magnifier',
+  'fill_orders_on_standard_ohlc', 'max_polylines_count', 'dynamic_requests', 'behind_chart',
+];
+
+const declaration = (kind: PineDeclaration['kind'], params: string[]) =>
+  builtin(params, (ctx, ...values) => {
+    if (ctx.runtime.declaration) return;
+    const args: Record<string, unknown> = {};
+    params.forEach((name, i) => {
+      if (values[i] !== undefined) args[name] = values[i];
+    });
+    ctx.runtime.declaration = {
+      kind,
+      title: String(args.title ?? kind),
+      overlay: args.overlay === true,
+      args,
+    };
+    if (kind === 'strategy') ctx.runtime.strategy = new StrategyBroker(ctx.runtime, args);
+  });
+
+const INPUT_PARAMS = ['defval', 'title', 'minval', 'maxval', 'step', 'tooltip', 'inline', 'group', 'confirm', 'display'];
+const OPTION_INPUT_PARAMS = ['defval', 'title', 'options', 'tooltip', 'inline', 'group', 'confirm', 'display'];
+
+const input = (type: PineInputType | null, params: string[]) =>
+  builtin(params, (ctx, ...values) => {
+    // One input per source location, even when evaluated again inside request.security()
+    const site = ctx.call ? new BuiltinContext(ctx.runtime, `input#${ctx.call.id}`, ctx.line, ctx.column, ctx.call) : ctx;
+    const declared = site.state(() => {
+      const args: Record<string, unknown> = {};
+      params.forEach((name, i) => (args[name] = values[i]));
+      return declareInput(ctx, type ?? inferInputType(ctx, values[0]), args);
+    });
+    if (declared.input.type !== 'source') return declared.value;
+    // Without an override the default expression is used as is, so input.source(ta.ema(close, 9)) keeps working
+    const overridden = ctx.runtime.options.inputs?.[declared.input.id] !== undefined;
+    return overridden ? BUILTIN_VARIABLES[String(declared.value)].get(ctx, ctx.bar) : values[0];
+  });
+
+/** Plain input() takes its type from the default value */
+const inferInputType = (ctx: BuiltinContext, defval: unknown): PineInputType => {
+  if (typeof defval === 'boolean') return 'bool';
+  if (typeof defval === 'string') return parseColor(defval) ? 'color' : 'string';
+  const node = ctx.call?.args[0]?.value;
+  if (node?.kind === 'Identifier' && SOURCE_INPUTS.includes(node.name)) return 'source';
+  return Number.isInteger(defval) ? 'int' : 'float';
+};
+
+const DECLARATION_FUNCTIONS: Record<string, BuiltinFunction> = {
+  indicator: declaration('indicator', INDICATOR_PARAMS),
+  strategy: declaration('strategy', STRATEGY_PARAMS),
+  library: declaration('library', ['title', 'overlay', 'dynamic_requests']),
+
+  input: input(null, ['defval', 'title', 'tooltip', 'inline', 'group', 'display']),
+  'input.int': input('int', INPUT_PARAMS),
+  'input.float': input('float', INPUT_PARAMS),
+  'input.bool': input('bool', ['defval', 'title', 'tooltip', 'inline', 'group', 'confirm', 'display']),
+  'input.string': input('string', OPTION_INPUT_PARAMS),
+  'input.color': input('color', ['defval', 'title', 'tooltip', 'inline', 'group', 'confirm', 'display']),
+  'input.source': input('source', ['defval', 'title', 'tooltip', 'inline', 'group', 'display']),
+  'input.timeframe': input('timeframe', OPTION_INPUT_PARAMS),
+  'input.symbol': input('symbol', ['defval', 'title', 'tooltip', 'inline', 'group', 'confirm', 'display']),
+  'input.session': input('session', OPTION_INPUT_PARAMS),
+  'input.price': input('price', ['defval', 'title', 'tooltip', 'inline', 'group', 'confirm', 'display']),
+  'input.time': input('time', ['defval', 'title', 'tooltip', 'inline', 'group', 'confirm', 'display']),
+  'input.text_area': input('text_area', ['defval', 'title', 'tooltip', 'group', 'confirm', 'display']),
+};
+
+// ---- PLOTTING ----
+
+const setValue = (ctx: BuiltinContext, result: PineScriptResult, value: number, offset: unknown = 0) => {
+  const index = ctx.bar + (toNumber(offset) || 0);
+  if (index >= 0 && index < result.values.length) result.values[index] = value;
+};
+
+const emptyValues = (ctx: BuiltinContext) => new Array<number>(ctx.data.length).fill(NaN);
+
+const adoptColor = (result: PineScriptResult, color: unknown) => {
+  if (!result.color && typeof color === 'string') result.color = color;
+};
+
+const shapeValue = (ctx: BuiltinContext, series: unknown, location: unknown): number => {
+  const active = typeof series === 'boolean' ? series : !isNa(series) && toNumber(series) !== 0;
+  if (!active) return NaN;
+  const current = ctx.data[ctx.bar];
+  switch (location) {
+    case 'absolute':
+      return toNumber(series);
+    case 'belowbar':
+    case 'bottom':
+      return current.low;
+    default:
+      return current.high;
+  }
+};
+
+const PLOT_FUNCTIONS: Record<string, BuiltinFunction> = {
+  plot: builtin(
+    ['series', 'title', 'color', 'linewidth', 'style', 'trackprice', 'histbase', 'offset', 'join', 'editable', 'show_last', 'display', 'format', 'precision', 'force_overlay'],
+    (ctx, series, title, color, linewidth, style, trackprice, histbase, offset, join, editable, showLast, display) => {
+      const handle = { plot: ctx.key };
+      if (display === 'none') return handle;
+      const result = ctx.runtime.plot(ctx.key, () => ({
+        name: typeof title === 'string' ? title : 'Plot',
+        values: emptyValues(ctx),
+        type: 'line',
+        lineWidth: toNumber(linewidth) || 1,
+        plotType: (typeof style === 'string' ? style : 'line') as PineScriptResult['plotType'],
+      }));
+      adoptColor(result, color);
+      setValue(ctx, result, toNumber(series), offset);
+      return handle;
+    }
+  ),
+  plotshape: builtin(
+    ['series', 'title', 'style', 'location', 'color', 'offset', 'text', 'textcolor', 'editable', 'size', 'show_last', 'display', 'format', 'precision', 'force_overlay'],
+    (ctx, series, title, style, location = 'abovebar', color, offset) => {
+      const result = ctx.runtime.plot(ctx.key, () => ({
+        name: typeof title === 'string' ? title : 'Shapes',
+        values: emptyValues(ctx),
+        type: 'arrow',
+        style: typeof style === 'string' ? style : 'xcross',
+      }));
+      adoptColor(result, color);
+      setValue(ctx, result, shapeValue(ctx, series, location), offset);
+    }
+  ),
+  plotchar: builtin(
+    ['series', 'title', 'char', 'location', 'color', 'offset', 'text', 'textcolor', 'editable', 'size', 'show_last', 'display', 'format', 'precision', 'force_overlay'],
+    (ctx, series, title, char = '★', location = 'abovebar', color, offset) => {
+      const result = ctx.runtime.plot(ctx.key, () => ({
+        name: typeof title === 'string' ? title : 'Chars',
+        values: emptyValues(ctx),
+        type: 'arrow',
+        style: String(char),
+      }));
+      adoptColor(result, color);
+      setValue(ctx, result, shapeValue(ctx, series, location), offset);
+    }
+  ),
+  plotarrow: builtin(
+    ['series', 'title', 'colorup', 'colordown', 'offset', 'minheight', 'maxheight', 'editable', 'show_last', 'display', 'format', 'precision', 'force_overlay'],
+    (ctx, series, title, colorUp, colorDown, offset) => {
+      const value = toNumber(series);
+      const result = ctx.runtime.plot(ctx.key, () => ({
+        name: typeof title === 'string' ? title : 'Arrows',
+        values: emptyValues(ctx),
+        type: 'arrow',
+        style: 'arrow',
+      }));
+      adoptColor(result, value < 0 ? colorDown : colorUp);
+      setValue(ctx, result, value === 0 ? NaN : value, offset);
+    }
+  ),
+  bgcolor: builtin(['color', 'offset', 'editable', 'show_last', 'title', 'display', 'force_overlay'], (ctx, color, offset, editable, showLast, title) => {
+    const result = ctx.runtime.plot(ctx.key, () => ({
+      name: typeof title === 'string' ? title : 'Background',
+      values: emptyValues(ctx),
+      type: 'bgcolor',
+    }));
+    adoptColor(result, color);
+    setValue(ctx, result, isNa(color) ? NaN : 1, offset);
+  }),
+  hline: builtin(['price', 'title', 'color', 'linestyle', 'linewidth', 'editable', 'display'], (ctx, price, title, color, linestyle, linewidth) => {
+    const value = toNumber(price);
+    const result = ctx.runtime.plot(ctx.key, () => ({
+      name: typeof title === 'string' ? title : `Level ${value}`,
+      values: new Array<number>(ctx.data.length).fill(value),
+      type: 'hline',
+      color: typeof color === 'string' ? color : DEFAULT_HLINE_COLOR,
+      lineWidth: toNumber(linewidth) || 1,
+      hlineValue: value,
+      style: typeof linestyle === 'string' ? linestyle : undefined,
+    }));
+    return { hline: result.name };
+  }),
+  fill: builtin([VARIADIC], ctx => {
+    ctx.runtime.debug('fill() is not rendered');
+  }),
+  barcolor: builtin(['color', 'offset', 'editable', 'show_last', 'title', 'display'], ctx => {
+    ctx.runtime.debug('barcolor() is not rendered');
+  }),
+  plotcandle: builtin([VARIADIC], ctx => {
+    ctx.runtime.debug('plotcandle() is not rendered');
+  }),
+  plotbar: builtin([VARIADIC], ctx => {
+    ctx.runtime.debug('plotbar() is not rendered');
+  }),
+  alertcondition: builtin(['condition', 'title', 'message'], (ctx, condition, title, message) => {
+    const output = ctx.runtime.alertCondition(ctx.key, () => ({
+      title: typeof title === 'string' ? title : `Alert ${ctx.line}`,
+      message: typeof message === 'string' ? message : '',
+      fired: new Array<boolean>(ctx.data.length).fill(false),
+    }));
+    output.fired[ctx.bar] = toBool(condition);
+  }),
+  alert: builtin(['message', 'freq'], (ctx, message) => {
+    ctx.runtime.debug('alert:', message);
+  }),
+  'log.info': builtin([VARIADIC], (ctx, ...args) => ctx.runtime.debug(...args)),
+  'log.warning': builtin([VARIADIC], (ctx, ...args) => ctx.runtime.debug(...args)),
+  'log.error': builtin([VARIADIC], (ctx, ...args) => ctx.runtime.debug(...args)),
+  'runtime.error': builtin(['message'], (ctx, message) => {
+    throw ctx.error(String(message));
+  }),
+};
+
+/** Fill in colors for plots that never received a non-na color */
+export const finalizeResult = (result: PineScriptResult): PineScriptResult => {
+  if (!result.color) result.color = result.type === 'hline' ? DEFAULT_HLINE_COLOR : DEFAULT_PLOT_COLOR;
+  return result;
+};
+
+// ---- TIME ----
+
+const barTime = (ctx: BuiltinContext, bar: number) => ctx.data[bar]?.timestamp ?? NaN;
+
+const datePart = (fn: (date: Date) => number) => (ctx: BuiltinContext, bar: number) => {
+  const time = barTime(ctx, bar);
+  return isNa(time) ? NaN : fn(new Date(time));
+};
+
+const weekOfYear = (date: Date): number => {
+  const start = Date.UTC(date.getUTCFullYear(), 0, 1);
+  return Math.ceil(((date.getTime() - start) / 86400000 + new Date(start).getUTCDay() + 1) / 7);
+};
+
+const DATE_PARTS: Record<string, (date: Date) => number> = {
+  year: d => d.getUTCFullYear(),
+  month: d => d.getUTCMonth() + 1,
+  weekofyear: weekOfYear,
+  dayofmonth: d => d.getUTCDate(),
+  dayofweek: d => d.getUTCDay() + 1,
+  hour: d => d.getUTCHours(),
+  minute: d => d.getUTCMinutes(),
+  second: d => d.getUTCSeconds(),
+};
+
+const TIME_FUNCTIONS: Record<string, BuiltinFunction> = {
+  ...Object.fromEntries(
+    Object.entries(DATE_PARTS).map(([name, part]) => [
+      name,
+      builtin(['time', 'timezone'], (ctx, time) => (isNa(time) ? NaN : part(new Date(toNumber(time))))),
+    ])
+  ),
+  time: builtin(['timeframe', 'session', 'timezone'], ctx => barTime(ctx, ctx.bar)),
+  timestamp: builtin([VARIADIC], (ctx, ...args) => {
+    const parts = typeof args[0] === 'string' && args.length > 1 ? args.slice(1) : args;
+    if (parts.length === 1 && typeof parts[0] === 'string') return Date.parse(parts[0]);
+    const [year, month, day, hour = 0, minute = 0, second = 0] = parts.map(toNumber);
+    return Date.UTC(year, month - 1, day, hour, minute, second);
+  }),
+};
+
+// ---- CORE ----
+
+const CORE_FUNCTIONS: Record<string, BuiltinFunction> = {
+  na: builtin(['x'], (ctx, x) => isNa(x)),
+  nz: builtin(['source', 'replacement'], (ctx, source, replacement = 0) => (isNa(source) ? replacement : source)),
+  fixnan: builtin(['source'], (ctx, source) => {
+    const memo = ctx.state(() => ({ bar: -1, last: NaN as unknown, previous: NaN as unknown }));
+    if (memo.bar !== ctx.bar) {
+      memo.previous = memo.last;
+      memo.bar = ctx.bar;
+    }
+    memo.last = isNa(source) ? memo.previous : source;
+    return memo.last;
+  }),
+  int: builtin(['x'], (ctx, x) => Math.trunc(toNumber(x))),
+  float: builtin(['x'], (ctx, x) => toNumber(x)),
+  bool: builtin(['x'], (ctx, x) => !isNa(x) && Boolean(x)),
+  color: builtin(['x'], (ctx, x) => x),
+  string: builtin(['x'], (ctx, x) => (isNa(x) ? NaN : String(x))),
+};
+
+// Ticker ids stay plain 'PREFIX:SYMBOL' strings; request.security() strips the prefix
+const TICKER_FUNCTIONS: Record<string, BuiltinFunction> = {
+  'ticker.new': builtin(['prefix', 'ticker', 'session', 'adjustment', 'backadjustment', 'settlement_as_close'], (ctx, prefix, ticker) =>
+    isNa(prefix) || prefix === '' ? String(ticker) : `${prefix}:${ticker}`
+  ),
+  'ticker.standard': builtin(['symbol'], (ctx, symbol) => (isNa(symbol) ? ctx.runtime.options.symbol ?? 'SYMBOL' : String(symbol))),
+  'ticker.modify': builtin(['tickerid', 'session', 'adjustment', 'backadjustment', 'settlement_as_close'], (ctx, tickerid) => tickerid),
+};
+
+export const BUILTIN_FUNCTIONS: Record<string, BuiltinFunction> = {
+  ...CORE_FUNCTIONS,
+  ...TA_FUNCTIONS,
+  ...MATH_FUNCTIONS,
+  ...STRING_FUNCTIONS,
+  ...COLOR_FUNCTIONS,
+  ...ARRAY_FUNCTIONS,
+  ...DECLARATION_FUNCTIONS,
+  ...PLOT_FUNCTIONS,
+  ...TIME_FUNCTIONS,
+  ...TICKER_FUNCTIONS,
+  ...STRATEGY_FUNCTIONS,
+};
+
+/** Drawing namespaces that are accepted but not rendered on our charts */
+export const DRAWING_NAMESPACES = new Set(['line', 'label', 'box', 'table', 'linefill', 'polyline', 'chart.point']);
+
+export const createDrawingHandle = (namespace: string) => new PineObject(namespace, {});
+
+// ---- VARIABLES ----
+
+const timeframeVariable = (fn: (period: string) => unknown) =>
+  barVariable(ctx => fn(chartPeriod(ctx.runtime.options, ctx.data)));
+
+const CONSTANTS: Record<string, unknown> = {
+  na: NaN,
+  'math.pi': Math.PI,
+  'math.e': Math.E,
+  'math.phi': 1.618033988749895,
+  'math.rphi': 0.618033988749895,
+  'plot.style_line': 'line',
+  'plot.style_linebr': 'line',
+  'plot.style_stepline': 'stepline',
+  'plot.style_stepline_diamond': 'stepline',
+  'plot.style_steplinebr': 'stepline',
+  'plot.style_histogram': 'histogram',
+  'plot.style_cross': 'cross',
+  'plot.style_area': 'area',
+  'plot.style_areabr': 'area',
+  'plot.style_columns': 'columns',
+  'plot.style_circles': 'circles',
+  'hline.style_solid': 'solid',
+  'hline.style_dotted': 'dotted',
+  'hline.style_dashed': 'dashed',
+  'line.style_solid': 'solid',
+  'line.style_dotted': 'dotted',
+  'line.style_dashed': 'dashed',
+  'line.style_arrow_left': 'arrow_left',
+  'line.style_arrow_right': 'arrow_right',
+  'line.style_arrow_both': 'arrow_both',
+  'location.abovebar': 'abovebar',
+  'location.belowbar': 'belowbar',
+  'location.top': 'top',
+  'location.bottom': 'bottom',
+  'location.absolute': 'absolute',
+  'size.auto': 'auto',
+  'size.tiny': 'tiny',
+  'size.small': 'small',
+  'size.normal': 'normal',
+  'size.large': 'large',
+  'size.huge': 'huge',
+  'display.all': 'all',
+  'display.none': 'none',
+  'display.data_window': 'data_window',
+  'display.pane': 'pane',
+  'display.price_scale': 'price_scale',
+  'display.status_line': 'status_line',
+  'order.ascending': 'ascending',
+  'order.descending': 'descending',
+  'extend.none': 'none',
+  'extend.left': 'left',
+  'extend.right': 'right',
+  'extend.both': 'both',
+  'xloc.bar_index': 'bar_index',
+  'xloc.bar_time': 'bar_time',
+  'yloc.price': 'price',
+  'yloc.abovebar': 'abovebar',
+  'yloc.belowbar': 'belowbar',
+  'format.inherit': 'inherit',
+  'format.price': 'price',
+  'format.volume': 'volume',
+  'format.percent': 'percent',
+  'format.mintick': '#.##',
+  'scale.right': 'right',
+  'scale.left': 'left',
+  'scale.none': 'none',
+  'position.top_left': 'top_left',
+  'position.top_center': 'top_center',
+  'position.top_right': 'top_right',
+  'position.middle_left': 'middle_left',
+  'position.middle_center': 'middle_center',
+  'position.middle_right': 'middle_right',
+  'position.bottom_left': 'bottom_left',
+  'position.bottom_center': 'bottom_center',
+  'position.bottom_right': 'bottom_right',
+  'text.align_left': 'left',
+  'text.align_center': 'center',
+  'text.align_right': 'right',
+  'barmerge.gaps_on': true,
+  'barmerge.gaps_off': false,
+  'barmerge.lookahead_on': true,
+  'barmerge.lookahead_off': false,
+  'alert.freq_all': 'all',
+  'alert.freq_once_per_bar': 'once_per_bar',
+  'alert.freq_once_per_bar_close': 'once_per_bar_close',
+  'dayofweek.sunday': 1,
+  'dayofweek.monday': 2,
+  'dayofweek.tuesday': 3,
+  'dayofweek.wednesday': 4,
+  'dayofweek.thursday': 5,
+  'dayofweek.friday': 6,
+  'dayofweek.saturday': 7,
+  'currency.USD': 'USD',
+  'currency.EUR': 'EUR',
+  'currency.THB': 'THB',
+  'currency.NONE': 'NONE',
+  ...Object.fromEntries(
+    ['xcross', 'cross', 'circle', 'triangleup', 'triangledown', 'flag', 'arrowup', 'arrowdown', 'labelup', 'labeldown', 'square', 'diamond'].map(
+      shape => [`shape.${shape}`, shape]
+    )
+  ),
+  ...Object.fromEntries(
+    [
+      'none', 'xcross', 'cross', 'circle', 'triangleup', 'triangledown', 'flag', 'arrowup', 'arrowdown', 'square', 'diamond',
+      'label_up', 'label_down', 'label_left', 'label_right', 'label_lower_left', 'label_lower_right', 'label_upper_left',
+      'label_upper_right', 'label_center', 'text_outline',
+    ].map(style => [`label.style_${style}`, style])
+  ),
+  ...Object.fromEntries(Object.entries(COLOR_CONSTANTS).map(([name, hex]) => [`color.${name}`, hex])),
+};
+
+const ohlc = (fn: (bar: { open: number; high: number; low: number; close: number; volume: number }) => number) =>
+  barVariable((ctx, bar) => {
+    const candle = ctx.data[bar];
+    return candle ? fn(candle) : NaN;
+  });
+
+export const BUILTIN_VARIABLES: Record<string, BuiltinVariable> = {
+  ...Object.fromEntries(Object.entries(CONSTANTS).map(([name, value]) => [name, barVariable(() => value)])),
+  ...TA_VARIABLES,
+  ...STRATEGY_VARIABLES,
+  // Drawings are not kept, so line.all, label.all, ... are always empty
+  ...Object.fromEntries([...DRAWING_NAMESPACES].map(namespace => [`${namespace}.all`, barVariable(() => [])])),
+
+  open: ohlc(b => b.open),
+  high: ohlc(b => b.high),
+  low: ohlc(b => b.low),
+  close: ohlc(b => b.close),
+  volume: ohlc(b => b.volume),
+  hl2: ohlc(b => (b.high + b.low) / 2),
+  hlc3: ohlc(b => (b.high + b.low + b.close) / 3),
+  ohlc4: ohlc(b => (b.open + b.high + b.low + b.close) / 4),
+  hlcc4: ohlc(b => (b.high + b.low + 2 * b.close) / 4),
+  bar_index: barVariable((ctx, bar) => (bar >= 0 ? bar : NaN)),
+  last_bar_index: barVariable(ctx => ctx.data.length - 1),
+  time: barVariable(barTime),
+  time_close: barVariable((ctx, bar) => {
+    const next = barTime(ctx, bar + 1);
+    if (!isNa(next)) return next;
+    const previous = barTime(ctx, bar - 1);
+    return isNa(previous) ? NaN : 2 * barTime(ctx, bar) - previous;
+  }),
+  last_bar_time: barVariable(ctx => barTime(ctx, ctx.data.length - 1)),
+  timenow: barVariable(() => Date.now()),
+  ...Object.fromEntries(Object.entries(DATE_PARTS).map(([name, part]) => [name, barVariable(datePart(part))])),
+
+  'barstate.isfirst': barVariable((ctx, bar) => bar === 0),
+  'barstate.islast': barVariable((ctx, bar) => bar === ctx.data.length - 1),
+  'barstate.ishistory': barVariable(() => true),
+  'barstate.isrealtime': barVariable(() => false),
+  'barstate.isnew': barVariable(() => true),
+  'barstate.isconfirmed': barVariable(() => true),
+  'barstate.islastconfirmedhistory': barVariable((ctx, bar) => bar === ctx.data.length - 1),
+
+  'syminfo.ticker': barVariable(ctx => ctx.runtime.options.symbol ?? 'SYMBOL'),
+  'syminfo.tickerid': barVariable(ctx => ctx.runtime.options.symbol ?? 'SYMBOL'),
+  'syminfo.root': barVariable(ctx => ctx.runtime.options.symbol ?? 'SYMBOL'),
+  'syminfo.description': barVariable(ctx => ctx.runtime.options.symbol ?? 'SYMBOL'),
+  'syminfo.currency': barVariable(() => 'USD'),
+  'syminfo.mintick': barVariable(ctx => ctx.runtime.options.mintick ?? 0.01),
+  'syminfo.pointvalue': barVariable(() => 1),
+  'syminfo.timezone': barVariable(() => 'UTC'),
+  'syminfo.session': barVariable(() => 'regular'),
+
+  'timeframe.period': timeframeVariable(period => period),
+  'timeframe.main_period': timeframeVariable(period => period),
+  'timeframe.multiplier': timeframeVariable(period => parseInt(period, 10) || 1),
+  'timeframe.isseconds': timeframeVariable(period => period.endsWith('S')),
+  'timeframe.isminutes': timeframeVariable(period => /^\d+$/.test(period)),
+  'timeframe.isintraday': timeframeVariable(period => /^\d+S?$/.test(period)),
+  'timeframe.isdaily': timeframeVariable(period => period.endsWith('D')),
+  'timeframe.isweekly': timeframeVariable(period => period.endsWith('W')),
+  'timeframe.ismonthly': timeframeVariable(period => period.endsWith('M')),
+  'timeframe.isdwm': timeframeVariable(period => /[DWM]$/.test(period)),
+};
@@ -0,0 +1,30 @@
+// ============================================
+// Pine Script errors
+// Carries a PineScriptError with exact line/column
+// ============================================
+
+import type { PineScriptError } from '../PineScriptRunner';
+
+export class PineError extends Error {
+  readonly detail: PineScriptError;
+
+  constructor(detail: PineScriptError) {
+    super(detail.message);
+    this.name = 'PineError';
+    this.detail = detail;
+  }
+
+  static syntax(message: string, line: number, column?: number, suggestion?: string): PineError {
+    return new PineError({ type: 'syntax', severity: 'error', message, line, column, suggestion });
+  }
+
+  static runtime(message: string, line: number, column?: number, suggestion?: string): PineError {
+    return new PineError({ type: 'runtime', severity: 'error', message, line, column, suggestion });
+  }
+}
+
+/** Format an error as "Line L:C: message" for toasts and terminal output */
+export const formatPineError = (error: PineScriptError): string => {
+  const location = error.column ? `Line ${error.line}:${error.column}` : `Line ${error.line}`;
+  return `${location}: ${error.message}${error.suggestion ? `\n💡 Suggestion: ${error.suggestion}` : ''}`;
+};
@@ -0,0 +1,26 @@
+export { tokenize, type Token } from './lexer';
+export { parsePine, detectPineVersion, PineParser } from './parser';
+export { PineInterpreter, runPineProgram } from './interpreter';
+export { PineError, formatPineError } from './errors';
+export {
+  toPineTimeframe,
+  timeframeToMs,
+  resampleBars,
+  baseTimeframeFor,
+  normalizeSymbol,
+  securityKey,
+  type SecurityRequest,
+  type SecurityDataProvider,
+} from './security';
+export { coerceInput, SOURCE_INPUTS } from './inputs';
+export type {
+  PineRunOptions,
+  PineRunOutput,
+  PineAlertCondition,
+  PineDeclaration,
+  PineInput,
+  PineInputType,
+  PineInputValue,
+} from './runtime';
+export type { StrategyReport, ClosedTrade } from './strategy';
+export type { Program } from './ast';
@@ -0,0 +1,75 @@
+// ============================================
+// Script inputs
+// Declaring input.*() calls as a settings schema and
+// applying user overrides on top of their defaults
+// ============================================
+
+import type { BuiltinContext, PineInput, PineInputType, PineInputValue } from './runtime';
+import { PineTuple, isNa, toNumber } from './values';
+
+/** Built-in series an input.source() can point at */
+export const SOURCE_INPUTS = ['open', 'high', 'low', 'close', 'hl2', 'hlc3', 'ohlc4', 'hlcc4', 'volume'];
+
+const NUMERIC_TYPES: PineInputType[] = ['int', 'float', 'price', 'time'];
+
+/** Clamp/round an override to what the input accepts; falls back to the default when it doesn't fit */
+export const coerceInput = (input: PineInput, value: unknown): PineInputValue => {
+  if (NUMERIC_TYPES.includes(input.type)) {
+    let n = typeof value === 'string' && value.trim() === '' ? NaN : Number(value);
+    if (!Number.isFinite(n)) return input.defval;
+    if (input.type === 'int') n = Math.round(n);
+    if (input.minval !== undefined) n = Math.max(input.minval, n);
+    if (input.maxval !== undefined) n = Math.min(input.maxval, n);
+    return n;
+  }
+  if (input.type === 'bool') return value === true || value === 'true';
+  const text = String(value);
+  if (input.options && !input.options.map(String).includes(text)) return input.defval;
+  return text;
+};
+
+const optional = <T>(value: unknown, convert: (v: unknown) => T): T | undefined =>
+  value === undefined || isNa(value) ? undefined : convert(value);
+
+/**
+ * Register an input on its first evaluation and resolve its value from the run options.
+ * For input.source() the value is the name of the selected series.
+ */
+export const declareInput = (
+  ctx: BuiltinContext,
+  type: PineInputType,
+  args: Record<string, unknown>
+): { input: PineInput; value: PineInputValue } => {
+  const { inputs, options } = ctx.runtime;
+  const title = optional(args.title, String) ?? '';
+  const base = title || `${type} ${inputs.length + 1}`;
+  let id = base;
+  for (let n = 2; inputs.some(i => i.id === id); n++) id = `${base} (${n})`;
+
+  let defval = args.defval as PineInputValue;
+  if (type === 'source') {
+    const node = ctx.call?.args.find(a => a.name === 'defval') ?? ctx.call?.args.find(a => !a.name);
+    defval = node?.value.kind === 'Identifier' && SOURCE_INPUTS.includes(node.value.name) ? node.value.name : 'close';
+  } else if (isNa(defval)) {
+    defval = NUMERIC_TYPES.includes(type) ? NaN : '';
+  }
+
+  const input: PineInput = { id, type, title: title || id, defval };
+  const minval = optional(args.minval, toNumber);
+  const maxval = optional(args.maxval, toNumber);
+  const step = optional(args.step, toNumber);
+  if (minval !== undefined) input.minval = minval;
+  if (maxval !== undefined) input.maxval = maxval;
+  if (step !== undefined) input.step = step;
+  // options=[...] arrives as a tuple literal
+  if (args.options instanceof PineTuple) input.options = args.options.items as PineInputValue[];
+  else if (type === 'source') input.options = SOURCE_INPUTS;
+  for (const key of ['tooltip', 'group', 'inline'] as const) {
+    const text = optional(args[key], String);
+    if (text) input[key] = text;
+  }
+  inputs.push(input);
+
+  const override = options.inputs?.[id];
+  return { input, value: override === undefined ? defval : coerceInput(input, override) };
+};
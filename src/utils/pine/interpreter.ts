@@ -0,0 +1,878 @@
+// ============================================
+// Pine Script series interpreter
+// Executes the AST once per bar, the way TradingView does:
+// every variable is a series with history, `var`/`varip`
+// variables initialize once and persist across bars
+// ============================================
+
+import type { OHLCData, PineScriptResult } from '../PineScriptRunner';
+import type {
+  Assignment,
+  Block,
+  CallArgument,
+  CallExpr,
+  Expression,
+  ForExpr,
+  ForInExpr,
+  FunctionDecl,
+  HistoryExpr,
+  MemberExpr,
+  Program,
+  Statement,
+  SwitchExpr,
+  TupleDecl,
+  TypeDecl,
+  VarDecl,
+} from './ast';
+import {
+  BUILTIN_FUNCTIONS,
+  BUILTIN_VARIABLES,
+  DRAWING_NAMESPACES,
+  VARIADIC,
+  createDrawingHandle,
+  finalizeResult,
+} from './builtins';
+import { PineError } from './errors';
+import {
+  BuiltinContext,
+  BuiltinFunction,
+  PineAlertCondition,
+  PineDeclaration,
+  PineInput,
+  PineRunOptions,
+  PineRunOutput,
+  PineRuntime,
+  PlotOutput,
+} from './runtime';
+import {
+  SecurityRequest,
+  bucketEnd,
+  bucketStart,
+  chartPeriod,
+  normalizeSymbol,
+  resampleBars,
+  securityKey,
+  timeframeToMs,
+  toPineTimeframe,
+} from './security';
+import type { StrategyBroker } from './strategy';
+import { PineObject, PineTuple, Series, isNa, toBool, toNumber } from './values';
+
+const DEFAULT_MAX_LOOP_ITERATIONS = 500_000;
+const MAX_CALL_DEPTH = 64;
+
+const SECURITY_PARAMS = ['symbol', 'timeframe', 'expression', 'gaps', 'lookahead', 'ignore_invalid_symbol', 'currency', 'calc_bars_count'];
+const SECURITY_LOWER_TF_PARAMS = ['symbol', 'timeframe', 'expression', 'ignore_invalid_symbol', 'currency', 'ignore_invalid_timeframe', 'calc_bars_count'];
+
+class BreakSignal {}
+class ContinueSignal {}
+
+class Scope {
+  private vars = new Map<string, Series>();
+
+  constructor(readonly parent: Scope | null) {}
+
+  lookup(name: string): Series | undefined {
+    return this.vars.get(name) ?? this.parent?.lookup(name);
+  }
+
+  declare(name: string, series: Series, node: { line: number; column: number }) {
+    if (this.vars.has(name) && this.vars.get(name) !== series) {
+      throw PineError.syntax(`'${name}' is already defined in this scope`, node.line, node.column, "Use ':=' to reassign it");
+    }
+    this.vars.set(name, series);
+  }
+}
+
+/**
+ * One request.security() call site: the requested bars, and the expression
+ * evaluated bar by bar on them with its own call-site state
+ */
+interface SecurityContext {
+  path: string;
+  symbol: string;
+  timeframe: string;
+  data: OHLCData[];
+  starts: number[];
+  ends: number[];
+  values: unknown[];
+  /** Last requested bar the expression was evaluated on */
+  evaluated: number;
+  /** Requested bar returned for the previous chart bar */
+  cursor: number;
+  /** Global declarations re-evaluated on the requested bars, by declaration node id */
+  deps: Map<number, { series: Series[]; bar: number }>;
+  scope: Scope;
+}
+
+interface Frame {
+  /** User-function call path, keeps call-site state separate per invocation site */
+  path: string;
+  scope: Scope;
+  /** Set while evaluating a request.security() expression */
+  security?: SecurityContext;
+}
+
+export class PineInterpreter implements PineRuntime {
+  readonly states = new Map<string, unknown>();
+  readonly inputs: PineInput[] = [];
+  declaration: PineDeclaration | null = null;
+  strategy: StrategyBroker | null = null;
+  bar = 0;
+
+  private store = new Map<string, Series>();
+  private plots = new Map<string, PlotOutput>();
+  private alertConditions = new Map<string, PineAlertCondition>();
+  private functions = new Map<string, FunctionDecl[]>();
+  private methods = new Map<string, FunctionDecl[]>();
+  private types = new Map<string, TypeDecl>();
+  private globalScope = new Scope(null);
+  private loopIterations = 0;
+  private callDepth = 0;
+  private warnings = new Set<string>();
+  private globalDecls = new Map<string, VarDecl | TupleDecl>();
+  private securityContexts = new Map<string, SecurityContext>();
+  private resampled = new Map<string, OHLCData[]>();
+  private missingData = new Map<string, SecurityRequest>();
+
+  constructor(
+    private readonly program: Program,
+    public data: OHLCData[],
+    public options: PineRunOptions = {}
+  ) {
+    program.body.forEach(statement => {
+      if (statement.kind === 'VarDecl' && statement.mode === 'none' && !this.globalDecls.has(statement.name)) {
+        this.globalDecls.set(statement.name, statement);
+      } else if (statement.kind === 'TupleDecl') {
+        statement.names.forEach(name => {
+          if (!this.globalDecls.has(name)) this.globalDecls.set(name, statement);
+        });
+      } else if (statement.kind === 'FunctionDecl') {
+        const registry = statement.isMethod ? this.methods : this.functions;
+        registry.set(statement.name, [...(registry.get(statement.name) ?? []), statement]);
+      } else if (statement.kind === 'TypeDecl') {
+        this.types.set(statement.name, statement);
+      }
+    });
+  }
+
+  run(): PineRunOutput {
+    for (let bar = 0; bar < this.data.length; bar++) {
+      this.bar = bar;
+      this.loopIterations = 0;
+      this.globalScope = new Scope(null);
+      try {
+        this.strategy?.onBarOpen();
+        this.executeStatements(this.program.body, { path: '', scope: this.globalScope });
+        this.strategy?.onBarClose();
+      } catch (error) {
+        if (error instanceof PineError && error.detail.type === 'runtime') {
+          throw new PineError({ ...error.detail, message: `${error.detail.message} (on bar ${bar})` });
+        }
+        throw error;
+      }
+    }
+
+    const results = [...this.plots.values()]
+      .sort((a, b) => a.order - b.order)
+      .map(output => finalizeResult(output.result));
+    return {
+      declaration: this.declaration,
+      results,
+      alertConditions: [...this.alertConditions.values()],
+      strategy: this.strategy?.report(),
+      missingData: [...this.missingData.values()],
+      inputs: this.inputs,
+    };
+  }
+
+  // ---- PineRuntime ----
+
+  plot(key: string, create: () => PineScriptResult): PineScriptResult {
+    let output = this.plots.get(key);
+    if (!output) {
+      output = { result: create(), order: this.plots.size };
+      this.plots.set(key, output);
+    }
+    return output.result;
+  }
+
+  alertCondition(key: string, create: () => PineAlertCondition): PineAlertCondition {
+    let output = this.alertConditions.get(key);
+    if (!output) {
+      output = create();
+      this.alertConditions.set(key, output);
+    }
+    return output;
+  }
+
+  debug(...args: unknown[]) {
+    if (this.options.debug) console.log('🐛', ...args);
+  }
+
+  // ---- STATEMENTS ----
+
+  private executeStatements(statements: Statement[], frame: Frame): unknown {
+    let last: unknown = NaN;
+    for (const statement of statements) {
+      last = this.executeStatement(statement, frame);
+    }
+    return last;
+  }
+
+  private executeBlock(block: Block, frame: Frame): unknown {
+    return this.executeStatements(block.body, { path: frame.path, scope: new Scope(frame.scope) });
+  }
+
+  private executeStatement(statement: Statement, frame: Frame): unknown {
+    try {
+      switch (statement.kind) {
+        case 'VarDecl': {
+          const key = `${frame.path}#${statement.id}`;
+          let series: Series;
+          if (statement.mode === 'none') {
+            const value = this.evaluate(statement.init, frame);
+            series = this.series(key, false);
+            series.set(this.bar, value);
+          } else {
+            series = this.series(key, true);
+            if (!series.initialized) {
+              series.initialized = true;
+              series.set(this.bar, this.evaluate(statement.init, frame));
+            } else {
+              series.set(this.bar, series.last);
+            }
+          }
+          frame.scope.declare(statement.name, series, statement);
+          return series.get(this.bar);
+        }
+        case 'TupleDecl': {
+          const value = this.evaluate(statement.init, frame);
+          const items = value instanceof PineTuple ? value.items : null;
+          if (!items || items.length !== statement.names.length) {
+            throw PineError.runtime(
+              `Expected a tuple of ${statement.names.length} values on the right side`,
+              statement.line,
+              statement.column
+            );
+          }
+          statement.names.forEach((name, i) => {
+            const series = this.series(`${frame.path}#${statement.id}:${i}`, false);
+            series.set(this.bar, items[i]);
+            if (name !== '_') frame.scope.declare(name, series, statement);
+          });
+          return value;
+        }
+        case 'Assign':
+          return this.assign(statement, frame);
+        case 'FunctionDecl':
+        case 'TypeDecl':
+          return NaN;
+        case 'ExprStmt':
+          return this.evaluate(statement.expression, frame);
+        case 'Break':
+          throw new BreakSignal();
+        case 'Continue':
+          throw new ContinueSignal();
+      }
+    } catch (error) {
+      if (error instanceof PineError || error instanceof BreakSignal || error instanceof ContinueSignal) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw PineError.runtime(message, statement.line, statement.column);
+    }
+  }
+
+  private assign(statement: Assignment, frame: Frame): unknown {
+    const value = this.evaluate(statement.value, frame);
+    const combine = (current: unknown) =>
+      statement.operator === ':=' ? value : this.binary(statement.operator[0], current, value, statement);
+
+    if (statement.target.kind === 'Identifier') {
+      const series = frame.scope.lookup(statement.target.name);
+      if (!series) {
+        throw PineError.runtime(
+          `Undeclared identifier '${statement.target.name}'`,
+          statement.line,
+          statement.column,
+          `Declare it first with '${statement.target.name} = ...'`
+        );
+      }
+      const next = combine(series.get(this.bar));
+      series.set(this.bar, next);
+      return next;
+    }
+
+    const target = this.evaluate(statement.target.object, frame);
+    if (!(target instanceof PineObject)) {
+      throw PineError.runtime(`Cannot assign field '${statement.target.property}' of a non-object value`, statement.line, statement.column);
+    }
+    const next = combine(target.fields[statement.target.property]);
+    target.fields[statement.target.property] = next;
+    return next;
+  }
+
+  private series(key: string, persistent: boolean): Series {
+    let series = this.store.get(key);
+    if (!series) {
+      series = new Series(persistent);
+      this.store.set(key, series);
+    }
+    return series;
+  }
+
+  // ---- EXPRESSIONS ----
+
+  private evaluate(expression: Expression, frame: Frame): unknown {
+    switch (expression.kind) {
+      case 'Number':
+      case 'String':
+      case 'Bool':
+      case 'Color':
+        return expression.value;
+
+      case 'Identifier': {
+        const series = this.lookup(expression.name, frame);
+        if (series) return series.get(this.bar);
+        const variable = BUILTIN_VARIABLES[expression.name];
+        if (variable) return variable.get(this.variableContext(expression.name, expression, frame), this.bar);
+        if (frame.security && frame.scope.lookup(expression.name) === undefined && this.globalScope.lookup(expression.name)) {
+          throw PineError.runtime(
+            `'${expression.name}' cannot be used inside request.security()`,
+            expression.line,
+            expression.column,
+            'Only variables declared with a plain `name = expression` can be recalculated on another symbol or timeframe'
+          );
+        }
+        throw PineError.runtime(`Undeclared identifier '${expression.name}'`, expression.line, expression.column);
+      }
+
+      case 'Member':
+        return this.evaluateMember(expression, frame);
+
+      case 'Call':
+        return this.call(expression, frame);
+
+      case 'History':
+        return this.evaluateHistory(expression, frame);
+
+      case 'Unary': {
+        const operand = this.evaluate(expression.operand, frame);
+        if (expression.operator === 'not') return !toBool(operand);
+        return expression.operator === '-' ? -toNumber(operand) : toNumber(operand);
+      }
+
+      case 'Binary': {
+        if (expression.operator === 'and') {
+          return toBool(this.evaluate(expression.left, frame)) && toBool(this.evaluate(expression.right, frame));
+        }
+        if (expression.operator === 'or') {
+          return toBool(this.evaluate(expression.left, frame)) || toBool(this.evaluate(expression.right, frame));
+        }
+        const left = this.evaluate(expression.left, frame);
+        const right = this.evaluate(expression.right, frame);
+        return this.binary(expression.operator, left, right, expression);
+      }
+
+      case 'Ternary':
+        return toBool(this.evaluate(expression.test, frame))
+          ? this.evaluate(expression.consequent, frame)
+          : this.evaluate(expression.alternate, frame);
+
+      case 'Tuple':
+        return new PineTuple(expression.elements.map(element => this.evaluate(element, frame)));
+
+      case 'If': {
+        if (toBool(this.evaluate(expression.test, frame))) return this.executeBlock(expression.consequent, frame);
+        if (!expression.alternate) return NaN;
+        return expression.alternate.kind === 'If'
+          ? this.evaluate(expression.alternate, frame)
+          : this.executeBlock(expression.alternate, frame);
+      }
+
+      case 'Switch':
+        return this.evaluateSwitch(expression, frame);
+
+      case 'For':
+        return this.evaluateFor(expression, frame);
+
+      case 'ForIn':
+        return this.evaluateForIn(expression, frame);
+
+      case 'While': {
+        let last: unknown = NaN;
+        while (toBool(this.evaluate(expression.test, frame))) {
+          this.countIteration(expression);
+          const outcome = this.runLoopBody(expression.body, { path: frame.path, scope: new Scope(frame.scope) });
+          if (outcome.broke) break;
+          last = outcome.value;
+        }
+        return last;
+      }
+    }
+  }
+
+  private binary(operator: string, left: unknown, right: unknown, node: { line: number; column: number }): unknown {
+    switch (operator) {
+      case '+':
+        if (typeof left === 'string' || typeof right === 'string') {
+          return isNa(left) || isNa(right) ? NaN : `${left}${right}`;
+        }
+        return toNumber(left) + toNumber(right);
+      case '-':
+        return toNumber(left) - toNumber(right);
+      case '*':
+        return toNumber(left) * toNumber(right);
+      case '/':
+        return toNumber(left) / toNumber(right);
+      case '%':
+        return toNumber(left) % toNumber(right);
+      case '==':
+        return this.equals(left, right);
+      case '!=':
+        return !this.equals(left, right);
+      case '<':
+        return toNumber(left) < toNumber(right);
+      case '>':
+        return toNumber(left) > toNumber(right);
+      case '<=':
+        return toNumber(left) <= toNumber(right);
+      case '>=':
+        return toNumber(left) >= toNumber(right);
+    }
+    throw PineError.runtime(`Unsupported operator '${operator}'`, node.line, node.column);
+  }
+
+  private equals(left: unknown, right: unknown): boolean {
+    if (typeof left === 'number' || typeof right === 'number') return toNumber(left) === toNumber(right);
+    return left === right;
+  }
+
+  private evaluateMember(expression: MemberExpr, frame: Frame): unknown {
+    const dotted = this.dottedName(expression, frame);
+    if (dotted) {
+      const variable = BUILTIN_VARIABLES[dotted];
+      if (variable) return variable.get(this.variableContext(dotted, expression, frame), this.bar);
+    }
+    const target = this.evaluate(expression.object, frame);
+    if (target instanceof PineObject && expression.property in target.fields) {
+      return target.fields[expression.property];
+    }
+    if (isNa(target)) return NaN;
+    throw PineError.runtime(`Unknown member '${dotted ?? expression.property}'`, expression.line, expression.column);
+  }
+
+  private evaluateHistory(expression: HistoryExpr, frame: Frame): unknown {
+    const offset = toNumber(this.evaluate(expression.offset, frame));
+    if (!(offset >= 0) || !Number.isInteger(offset)) {
+      throw PineError.runtime(
+        `Invalid history reference [${offset}]`,
+        expression.line,
+        expression.column,
+        'The offset must be a non-negative integer'
+      );
+    }
+
+    const target = expression.target;
+    if (target.kind === 'Identifier') {
+      const series = this.lookup(target.name, frame);
+      if (series) return series.get(this.bar, offset);
+    }
+    const name = target.kind === 'Identifier' ? target.name : target.kind === 'Member' ? this.dottedName(target, frame) : null;
+    const variable = name ? BUILTIN_VARIABLES[name] : undefined;
+    if (name && variable && !variable.stateful) {
+      return variable.get(this.variableContext(name, target, frame), this.bar - offset);
+    }
+
+    // Any other expression: record its value every bar it is evaluated and index into that history
+    const buffer = this.series(`${frame.path}#${expression.id}`, false);
+    buffer.set(this.bar, this.evaluate(target, frame));
+    return buffer.get(this.bar, offset);
+  }
+
+  private evaluateSwitch(expression: SwitchExpr, frame: Frame): unknown {
+    const subject = expression.subject ? this.evaluate(expression.subject, frame) : undefined;
+    for (const switchCase of expression.cases) {
+      if (!switchCase.test) return this.executeBlock(switchCase.body, frame);
+      const test = this.evaluate(switchCase.test, frame);
+      const matches = expression.subject ? this.equals(subject, test) : toBool(test);
+      if (matches) return this.executeBlock(switchCase.body, frame);
+    }
+    return NaN;
+  }
+
+  private evaluateFor(expression: ForExpr, frame: Frame): unknown {
+    const from = toNumber(this.evaluate(expression.from, frame));
+    const to = toNumber(this.evaluate(expression.to, frame));
+    if (isNa(from) || isNa(to)) return NaN;
+    const direction = to >= from ? 1 : -1;
+    const rawStep = expression.step ? Math.abs(toNumber(this.evaluate(expression.step, frame))) : 1;
+    if (!(rawStep > 0)) {
+      throw PineError.runtime('Loop step must be a positive number', expression.line, expression.column);
+    }
+    const step = rawStep * direction;
+
+    const loopScope = new Scope(frame.scope);
+    const iterator = this.series(`${frame.path}#${expression.id}:i`, false);
+    loopScope.declare(expression.iterator, iterator, expression);
+
+    let last: unknown = NaN;
+    for (let i = from; direction > 0 ? i <= to : i >= to; i += step) {
+      this.countIteration(expression);
+      iterator.set(this.bar, i);
+      const outcome = this.runLoopBody(expression.body, { path: frame.path, scope: new Scope(loopScope) });
+      if (outcome.broke) break;
+      last = outcome.value;
+    }
+    return last;
+  }
+
+  private evaluateForIn(expression: ForInExpr, frame: Frame): unknown {
+    const iterable = this.evaluate(expression.iterable, frame);
+    if (!Array.isArray(iterable)) {
+      throw PineError.runtime('for...in requires an array', expression.line, expression.column);
+    }
+    const loopScope = new Scope(frame.scope);
+    const item = this.series(`${frame.path}#${expression.id}:item`, false);
+    loopScope.declare(expression.item, item, expression);
+    const index = expression.index ? this.series(`${frame.path}#${expression.id}:index`, false) : null;
+    if (index && expression.index) loopScope.declare(expression.index, index, expression);
+
+    let last: unknown = NaN;
+    for (let i = 0; i < iterable.length; i++) {
+      this.countIteration(expression);
+      item.set(this.bar, iterable[i]);
+      index?.set(this.bar, i);
+      const outcome = this.runLoopBody(expression.body, { path: frame.path, scope: new Scope(loopScope) });
+      if (outcome.broke) break;
+      last = outcome.value;
+    }
+    return last;
+  }
+
+  private runLoopBody(body: Block, frame: Frame): { value: unknown; broke: boolean } {
+    try {
+      return { value: this.executeStatements(body.body, frame), broke: false };
+    } catch (signal) {
+      if (signal instanceof BreakSignal) return { value: NaN, broke: true };
+      if (signal instanceof ContinueSignal) return { value: NaN, broke: false };
+      throw signal;
+    }
+  }
+
+  private countIteration(node: { line: number; column: number }) {
+    const limit = this.options.maxLoopIterations ?? DEFAULT_MAX_LOOP_ITERATIONS;
+    if (++this.loopIterations > limit) {
+      throw PineError.runtime('Loop is too long', node.line, node.column, `Loops may run at most ${limit} iterations per bar`);
+    }
+  }
+
+  // ---- CALLS ----
+
+  /** `ta.sma` style names for member chains of plain identifiers that are not script variables */
+  private dottedName(expression: Expression, frame: Frame): string | null {
+    if (expression.kind === 'Identifier') {
+      return this.lookup(expression.name, frame) ? null : expression.name;
+    }
+    if (expression.kind === 'Member') {
+      const parent = this.dottedName(expression.object, frame);
+      return parent ? `${parent}.${expression.property}` : null;
+    }
+    return null;
+  }
+
+  private call(expression: CallExpr, frame: Frame): unknown {
+    const callee = expression.callee;
+
+    if (callee.kind === 'Identifier') {
+      const userFunctions = this.functions.get(callee.name);
+      if (userFunctions) return this.callUser(userFunctions, expression, frame);
+      const fn = BUILTIN_FUNCTIONS[callee.name];
+      if (fn) return this.callBuiltin(callee.name, fn, expression, frame);
+      throw PineError.runtime(`Could not find function '${callee.name}'`, expression.line, expression.column);
+    }
+
+    if (callee.kind !== 'Member') {
+      throw PineError.runtime('This expression is not callable', expression.line, expression.column);
+    }
+
+    const dotted = this.dottedName(callee, frame);
+    if (dotted === 'request.security' || dotted === 'request.security_lower_tf') {
+      return this.requestSecurity(expression, frame, dotted === 'request.security_lower_tf');
+    }
+    if (dotted) {
+      const typeName = dotted.slice(0, dotted.lastIndexOf('.'));
+      if (callee.property === 'new' && this.types.has(typeName)) {
+        return this.construct(this.types.get(typeName)!, expression, frame);
+      }
+      const fn = BUILTIN_FUNCTIONS[dotted];
+      if (fn) return this.callBuiltin(dotted, fn, expression, frame);
+      if (DRAWING_NAMESPACES.has(typeName)) {
+        this.warnOnce(typeName, `${typeName}.* drawings are not rendered on this chart`);
+        expression.args.forEach(arg => this.evaluate(arg.value, frame));
+        return callee.property === 'new' ? createDrawingHandle(typeName) : NaN;
+      }
+      if (!this.lookup(dotted.split('.')[0], frame) && !this.methods.has(callee.property)) {
+        throw PineError.runtime(`Could not find function '${dotted}'`, expression.line, expression.column);
+      }
+    }
+
+    // Method call syntax: value.method(args)
+    const receiver = this.evaluate(callee.object, frame);
+    const userMethods = this.methods.get(callee.property);
+    if (userMethods) return this.callUser(userMethods, expression, frame, receiver);
+    if (receiver instanceof PineObject) {
+      if (callee.property === 'copy') return new PineObject(receiver.typeName, { ...receiver.fields });
+      if (DRAWING_NAMESPACES.has(receiver.typeName)) return NaN;
+    }
+    const namespace = Array.isArray(receiver) ? 'array' : receiver instanceof Map ? 'map' : null;
+    const fn = namespace ? BUILTIN_FUNCTIONS[`${namespace}.${callee.property}`] : undefined;
+    if (namespace && fn) return this.callBuiltin(`${namespace}.${callee.property}`, fn, expression, frame, receiver);
+    throw PineError.runtime(`Could not find method '${callee.property}'`, expression.line, expression.column);
+  }
+
+  private callBuiltin(name: string, fn: BuiltinFunction, expression: CallExpr, frame: Frame, receiver?: unknown): unknown {
+    const args = this.mapArguments(name, fn.params, expression.args, frame, expression, receiver);
+    const ctx = new BuiltinContext(this, `${frame.path}#${expression.id}`, expression.line, expression.column, expression);
+    try {
+      return fn.fn(ctx, ...args);
+    } catch (error) {
+      if (error instanceof PineError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw PineError.runtime(`Error in ${name}(): ${message}`, expression.line, expression.column);
+    }
+  }
+
+  private mapArguments(
+    name: string,
+    params: string[],
+    args: CallArgument[],
+    frame: Frame,
+    node: CallExpr,
+    receiver?: unknown
+  ): unknown[] {
+    const leading = receiver !== undefined ? [receiver] : [];
+    if (params[0] === VARIADIC) {
+      return [...leading, ...args.map(arg => this.evaluate(arg.value, frame))];
+    }
+    const values: unknown[] = [...leading];
+    args.forEach((arg, i) => {
+      const index = arg.name ? params.indexOf(arg.name) : i + leading.length;
+      if (index < 0) {
+        throw PineError.runtime(`Unknown argument '${arg.name}' for ${name}()`, node.line, node.column);
+      }
+      if (index >= params.length) {
+        throw PineError.runtime(`Too many arguments for ${name}()`, node.line, node.column, `${name}() takes ${params.length} arguments`);
+      }
+      values[index] = this.evaluate(arg.value, frame);
+    });
+    return values;
+  }
+
+  private callUser(candidates: FunctionDecl[], expression: CallExpr, frame: Frame, receiver?: unknown): unknown {
+    const argCount = expression.args.length + (receiver !== undefined ? 1 : 0);
+    const decl =
+      candidates.find(
+        c => argCount <= c.params.length && argCount >= c.params.filter(p => p.defaultValue === undefined).length
+      ) ?? candidates[0];
+
+    if (++this.callDepth > MAX_CALL_DEPTH) {
+      this.callDepth = 0;
+      throw PineError.runtime(`Too many nested calls to '${decl.name}'`, expression.line, expression.column, 'Recursion is not supported in Pine');
+    }
+
+    try {
+      const path = `${frame.path}/${expression.id}`;
+      const scope = new Scope(frame.security ? frame.security.scope : this.globalScope);
+      const values = this.mapArguments(decl.name, decl.params.map(p => p.name), expression.args, frame, expression, receiver);
+      const callFrame: Frame = { path, scope, security: frame.security };
+
+      decl.params.forEach((param, i) => {
+        let value = values[i];
+        if (value === undefined) {
+          if (!param.defaultValue) {
+            throw PineError.runtime(`Missing argument '${param.name}' for ${decl.name}()`, expression.line, expression.column);
+          }
+          value = this.evaluate(param.defaultValue, callFrame);
+        }
+        const series = this.series(`${path}#param:${param.name}`, false);
+        series.set(this.bar, value);
+        scope.declare(param.name, series, decl);
+      });
+
+      return this.executeStatements(decl.body.body, callFrame);
+    } finally {
+      this.callDepth = Math.max(0, this.callDepth - 1);
+    }
+  }
+
+  private construct(type: TypeDecl, expression: CallExpr, frame: Frame): PineObject {
+    const values = this.mapArguments(`${type.name}.new`, type.fields.map(f => f.name), expression.args, frame, expression);
+    const fields: Record<string, unknown> = {};
+    type.fields.forEach((field, i) => {
+      fields[field.name] =
+        values[i] !== undefined ? values[i] : field.defaultValue ? this.evaluate(field.defaultValue, frame) : NaN;
+    });
+    return new PineObject(type.name, fields);
+  }
+
+  private variableContext(name: string, node: { line: number; column: number }, frame: Frame): BuiltinContext {
+    return new BuiltinContext(this, `${frame.security?.path ?? ''}var:${name}`, node.line, node.column);
+  }
+
+  private lookup(name: string, frame: Frame): Series | undefined {
+    return frame.scope.lookup(name) ?? (frame.security ? this.dependency(name, frame.security) : undefined);
+  }
+
+  // ---- request.security ----
+
+  private requestSecurity(expression: CallExpr, frame: Frame, lowerTf: boolean): unknown {
+    const params = lowerTf ? SECURITY_LOWER_TF_PARAMS : SECURITY_PARAMS;
+    const args = new Map<string, Expression>();
+    expression.args.forEach((arg, i) => args.set(arg.name ?? params[i], arg.value));
+    const source = args.get('expression');
+    if (!source) {
+      throw PineError.runtime('request.security() needs an expression to evaluate', expression.line, expression.column);
+    }
+    if (frame.security) {
+      throw PineError.runtime('request.security() calls cannot be nested', expression.line, expression.column);
+    }
+    const argument = (name: string, fallback: unknown) => {
+      const node = args.get(name);
+      const value = node ? this.evaluate(node, frame) : fallback;
+      return isNa(value) || value === '' ? fallback : value;
+    };
+
+    const chartSymbol = this.options.symbol ?? 'SYMBOL';
+    const period = chartPeriod(this.options, this.data);
+    const symbol = String(argument('symbol', chartSymbol));
+    const timeframe = toPineTimeframe(String(argument('timeframe', period)));
+    const sameSymbol = normalizeSymbol(symbol) === normalizeSymbol(chartSymbol);
+    if (sameSymbol && timeframe === period && !lowerTf) return this.evaluate(source, frame);
+
+    const key = `${frame.path}#${expression.id}`;
+    let context = this.securityContexts.get(key);
+    if (!context) {
+      const data = this.securityData({ symbol, timeframe }, sameSymbol, period);
+      if (!data) return lowerTf ? [] : this.naLike(source);
+      context = {
+        path: `${frame.path}@${expression.id}`,
+        symbol,
+        timeframe,
+        data,
+        starts: data.map(bar => bucketStart(bar.timestamp, timeframe)),
+        ends: data.map(bar => bucketEnd(bar.timestamp, timeframe)),
+        values: [],
+        evaluated: -1,
+        cursor: -1,
+        deps: new Map(),
+        scope: new Scope(null),
+      };
+      this.securityContexts.set(key, context);
+    }
+
+    // A requested bar is visible once it has closed (lookahead_off), or from the chart bar it opens on (lookahead_on).
+    // The chart bar closes when the next one opens, so the last bar of a session sees the session's daily bar.
+    const lookahead = !lowerTf && toBool(argument('lookahead', false));
+    const chartBar = this.data[this.bar];
+    const chartClose = this.data[this.bar + 1]?.timestamp ?? chartBar.timestamp + timeframeToMs(period);
+    const previous = context.cursor;
+    let index = previous;
+    while (
+      index + 1 < context.data.length &&
+      (lookahead ? context.starts[index + 1] <= chartBar.timestamp : context.ends[index + 1] <= chartClose)
+    ) {
+      index++;
+    }
+    context.cursor = index;
+    this.evaluateSecurity(context, source, index);
+
+    if (lowerTf) {
+      const values = index > previous ? context.values.slice(previous + 1, index + 1) : [];
+      if (values[0] instanceof PineTuple) {
+        return new PineTuple((values[0] as PineTuple).items.map((_, n) => values.map(v => (v as PineTuple).items[n])));
+      }
+      return values;
+    }
+    const gaps = toBool(argument('gaps', false));
+    if (index < 0 || (gaps && index === previous)) return this.naLike(source);
+    return context.values[index];
+  }
+
+  private evaluateSecurity(context: SecurityContext, source: Expression, upTo: number) {
+    if (context.evaluated >= upTo) return;
+    const saved = { data: this.data, bar: this.bar, options: this.options, loopIterations: this.loopIterations };
+    this.data = context.data;
+    this.options = { ...saved.options, symbol: context.symbol, timeframe: context.timeframe };
+    try {
+      for (let bar = context.evaluated + 1; bar <= upTo; bar++) {
+        this.bar = bar;
+        this.loopIterations = 0;
+        context.scope = new Scope(null);
+        context.values[bar] = this.evaluate(source, { path: context.path, scope: context.scope, security: context });
+        context.evaluated = bar;
+      }
+    } finally {
+      this.data = saved.data;
+      this.bar = saved.bar;
+      this.options = saved.options;
+      this.loopIterations = saved.loopIterations;
+    }
+  }
+
+  /** Re-evaluate a global `name = expression` declaration on the requested bars */
+  private dependency(name: string, context: SecurityContext): Series | undefined {
+    const decl = this.globalDecls.get(name);
+    if (!decl) return undefined;
+    let dep = context.deps.get(decl.id);
+    if (!dep) {
+      const count = decl.kind === 'VarDecl' ? 1 : decl.names.length;
+      dep = { series: Array.from({ length: count }, () => new Series(false)), bar: -1 };
+      context.deps.set(decl.id, dep);
+    }
+    if (dep.bar !== this.bar) {
+      dep.bar = this.bar;
+      const value = this.evaluate(decl.init, { path: context.path, scope: context.scope, security: context });
+      if (decl.kind === 'VarDecl') {
+        dep.series[0].set(this.bar, value);
+      } else {
+        const items = value instanceof PineTuple ? value.items : [];
+        dep.series.forEach((series, i) => series.set(this.bar, items[i]));
+      }
+    }
+    return dep.series[decl.kind === 'VarDecl' ? 0 : decl.names.indexOf(name)];
+  }
+
+  private securityData(request: SecurityRequest, sameSymbol: boolean, period: string): OHLCData[] | null {
+    const key = securityKey(request);
+    const supplied = this.options.securityData?.[key];
+    if (supplied) return supplied;
+    if (sameSymbol && timeframeToMs(request.timeframe) > timeframeToMs(period)) {
+      // Higher timeframe of the chart's own symbol: build it from the chart bars
+      let bars = this.resampled.get(key);
+      if (!bars) {
+        bars = resampleBars(this.data, request.timeframe);
+        this.resampled.set(key, bars);
+      }
+      return bars;
+    }
+    if (!this.missingData.has(key)) {
+      this.missingData.set(key, request);
+      this.debug(`request.security(${request.symbol}, ${request.timeframe}): no data, returning na`);
+    }
+    return null;
+  }
+
+  private naLike(expression: Expression): unknown {
+    return expression.kind === 'Tuple' ? new PineTuple(expression.elements.map(() => NaN)) : NaN;
+  }
+
+  private warnOnce(key: string, message: string) {
+    if (this.warnings.has(key)) return;
+    this.warnings.add(key);
+    this.debug(message);
+  }
+}
+
+/** Run a parsed program over the given bars */
+export const runPineProgram = (program: Program, data: OHLCData[], options?: PineRunOptions): PineRunOutput =>
+  new PineInterpreter(program, data, options).run();
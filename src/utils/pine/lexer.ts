@@ -0,0 +1,233 @@
+// ============================================
+// Pine Script tokenizer
+// Produces NEWLINE / INDENT / DEDENT tokens from
+// Pine's 4-space block indentation and joins
+// wrapped (continuation) lines
+// ============================================
+
+import { PineError } from './errors';
+
+export type TokenType =
+  | 'number'
+  | 'string'
+  | 'color'
+  | 'ident'
+  | 'keyword'
+  | 'op'
+  | 'newline'
+  | 'indent'
+  | 'dedent'
+  | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+  column: number;
+}
+
+export const KEYWORDS = new Set([
+  'if', 'else', 'for', 'while', 'switch', 'var', 'varip', 'and', 'or', 'not',
+  'true', 'false', 'in', 'break', 'continue', 'import', 'export', 'method', 'type',
+]);
+
+// Longest operators first so that ':=' wins over ':'
+const OPERATORS = [
+  ':=', '+=', '-=', '*=', '/=', '%=', '==', '!=', '<=', '>=', '=>',
+  '+', '-', '*', '/', '%', '<', '>', '=', '?', ':', ',', '.', '(', ')', '[', ']',
+];
+
+// A physical line ending in one of these always continues on the next line
+const CONTINUATION_ENDINGS = new Set([
+  '+', '-', '*', '/', '%', '<', '>', '<=', '>=', '==', '!=', '?', ':', ',', '=', ':=',
+  '+=', '-=', '*=', '/=', '%=', 'and', 'or', 'not',
+]);
+
+const INDENT_WIDTH = 4;
+
+const isIdentStart = (ch: string) => /[A-Za-z_]/.test(ch);
+const isIdentPart = (ch: string) => /[A-Za-z0-9_]/.test(ch);
+const isDigit = (ch: string) => ch >= '0' && ch <= '9';
+
+/**
+ * Tokenize a single physical line, starting after its indentation.
+ * Also returns the column just past its last token, where the line's NEWLINE sits.
+ */
+const tokenizeLine = (text: string, lineNum: number, startCol: number): { tokens: Token[]; end: number } => {
+  const tokens: Token[] = [];
+  let i = startCol;
+
+  while (i < text.length) {
+    const ch = text[i];
+    const column = i + 1;
+
+    if (ch === ' ' || ch === '\t' || ch === '\r') {
+      i++;
+      continue;
+    }
+
+    // Comments run to the end of the line
+    if (ch === '/' && text[i + 1] === '/') break;
+
+    if (isDigit(ch) || (ch === '.' && isDigit(text[i + 1] || ''))) {
+      const match = text.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+      const raw = match ? match[0] : ch;
+      tokens.push({ type: 'number', value: raw, line: lineNum, column });
+      i += raw.length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      let j = i + 1;
+      let closed = false;
+      while (j < text.length) {
+        const c = text[j];
+        if (c === '\\' && j + 1 < text.length) {
+          const next = text[j + 1];
+          value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+          j += 2;
+          continue;
+        }
+        if (c === ch) {
+          closed = true;
+          break;
+        }
+        value += c;
+        j++;
+      }
+      if (!closed) {
+        throw PineError.syntax('Unterminated string literal', lineNum, column, `Close the string with ${ch}`);
+      }
+      tokens.push({ type: 'string', value, line: lineNum, column });
+      i = j + 1;
+      continue;
+    }
+
+    if (ch === '#') {
+      const match = text.slice(i).match(/^#([0-9a-fA-F]{8}|[0-9a-fA-F]{6})(?![0-9a-fA-F])/);
+      if (!match) {
+        throw PineError.syntax('Invalid color literal', lineNum, column, 'Use #RRGGBB or #RRGGBBAA');
+      }
+      tokens.push({ type: 'color', value: match[0].toUpperCase(), line: lineNum, column });
+      i += match[0].length;
+      continue;
+    }
+
+    if (isIdentStart(ch)) {
+      let j = i + 1;
+      while (j < text.length && isIdentPart(text[j])) j++;
+      const word = text.slice(i, j);
+      tokens.push({ type: KEYWORDS.has(word) ? 'keyword' : 'ident', value: word, line: lineNum, column });
+      i = j;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => text.startsWith(o, i));
+    if (op) {
+      tokens.push({ type: 'op', value: op, line: lineNum, column });
+      i += op.length;
+      continue;
+    }
+
+    throw PineError.syntax(`Unexpected character '${ch}'`, lineNum, column);
+  }
+
+  // i stops at a trailing comment or the end of the line
+  return { tokens, end: text.slice(0, i).trimEnd().length + 1 };
+};
+
+const measureIndent = (text: string): { width: number; offset: number } => {
+  let width = 0;
+  let offset = 0;
+  while (offset < text.length && (text[offset] === ' ' || text[offset] === '\t')) {
+    width += text[offset] === '\t' ? INDENT_WIDTH : 1;
+    offset++;
+  }
+  return { width, offset };
+};
+
+/**
+ * Tokenize Pine Script source into a flat token stream.
+ *
+ * A line is treated as a continuation of the previous one when it is
+ * inside open brackets, when its indentation is not a multiple of four
+ * (Pine's wrapping rule) or when the previous line ended in an operator.
+ */
+export const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  const indentStack = [0];
+  const lines = source.split('\n');
+  let depth = 0;
+  let lastLine = 0;
+  let lastEnd = 1;
+
+  lines.forEach((rawLine, index) => {
+    const lineNum = index + 1;
+    const { width, offset } = measureIndent(rawLine);
+    const { tokens: lineTokens, end } = tokenizeLine(rawLine, lineNum, offset);
+    if (lineTokens.length === 0) return;
+
+    const previous = tokens[tokens.length - 1];
+    const endsWithOperator =
+      previous !== undefined &&
+      (previous.type === 'op' || previous.type === 'keyword') &&
+      CONTINUATION_ENDINGS.has(previous.value);
+    const currentIndent = indentStack[indentStack.length - 1];
+    const isContinuation =
+      tokens.length > 0 &&
+      (depth > 0 ||
+        (width > currentIndent && width % INDENT_WIDTH !== 0) ||
+        (width > currentIndent && endsWithOperator));
+
+    if (!isContinuation) {
+      if (tokens.length > 0) {
+        tokens.push({ type: 'newline', value: '\n', line: lastLine, column: lastEnd });
+      }
+      if (width % INDENT_WIDTH !== 0) {
+        throw PineError.syntax(
+          'Indentation must be a multiple of 4 spaces',
+          lineNum,
+          1,
+          'Indent local blocks with 4 spaces or a tab'
+        );
+      }
+      if (width > currentIndent) {
+        if (width - currentIndent !== INDENT_WIDTH) {
+          throw PineError.syntax('Unexpected indentation', lineNum, 1, 'Indent a local block by exactly 4 spaces');
+        }
+        indentStack.push(width);
+        tokens.push({ type: 'indent', value: '', line: lineNum, column: 1 });
+      } else {
+        while (width < indentStack[indentStack.length - 1]) {
+          indentStack.pop();
+          tokens.push({ type: 'dedent', value: '', line: lineNum, column: 1 });
+        }
+        if (width !== indentStack[indentStack.length - 1]) {
+          throw PineError.syntax('Inconsistent indentation', lineNum, 1);
+        }
+      }
+    }
+
+    for (const token of lineTokens) {
+      if (token.type === 'op') {
+        if (token.value === '(' || token.value === '[') depth++;
+        if (token.value === ')' || token.value === ']') depth = Math.max(0, depth - 1);
+      }
+      tokens.push(token);
+    }
+    lastLine = lineNum;
+    lastEnd = end;
+  });
+
+  const endLine = lastLine || 1;
+  if (tokens.length > 0) {
+    tokens.push({ type: 'newline', value: '\n', line: endLine, column: lastEnd });
+  }
+  while (indentStack.length > 1) {
+    indentStack.pop();
+    tokens.push({ type: 'dedent', value: '', line: endLine, column: lastEnd });
+  }
+  tokens.push({ type: 'eof', value: '', line: endLine, column: lastEnd });
+  return tokens;
+};
@@ -0,0 +1,609 @@
+// ============================================
+// Pine Script recursive-descent parser
+// Builds the AST consumed by the series interpreter
+// ============================================
+
+import type {
+  Assignment,
+  Block,
+  CallArgument,
+  Expression,
+  ForExpr,
+  ForInExpr,
+  FunctionDecl,
+  FunctionParam,
+  IfExpr,
+  Program,
+  Statement,
+  SwitchCase,
+  SwitchExpr,
+  TupleDecl,
+  TypeDecl,
+  TypeField,
+  VarDecl,
+  WhileExpr,
+} from './ast';
+import { PineError } from './errors';
+import { Token, tokenize } from './lexer';
+
+const TYPE_QUALIFIERS = new Set(['const', 'simple', 'series', 'input']);
+const ASSIGNMENT_OPERATORS = new Set([':=', '+=', '-=', '*=', '/=', '%=']);
+
+type NodeKind = Statement['kind'] | Expression['kind'] | 'Block';
+
+const describe = (token: Token): string => {
+  switch (token.type) {
+    case 'eof':
+      return 'end of script';
+    case 'newline':
+      return 'end of line';
+    case 'indent':
+      return 'indentation';
+    case 'dedent':
+      return 'end of block';
+    case 'string':
+      return `"${token.value}"`;
+    default:
+      return `'${token.value}'`;
+  }
+};
+
+export class PineParser {
+  private tokens: Token[];
+  private pos = 0;
+  private nextId = 1;
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parseProgram(version: number): Program {
+    const body: Statement[] = [];
+    while (!this.check('eof')) {
+      if (this.match('newline')) continue;
+      if (this.check('indent')) {
+        throw this.error(this.peek(), 'Unexpected indentation at global scope');
+      }
+      body.push(this.parseStatement());
+      this.endStatement();
+    }
+    return { kind: 'Program', version, body };
+  }
+
+  // ---- TOKEN HELPERS ----
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private previous(): Token | undefined {
+    return this.tokens[this.pos - 1];
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  private check(type: Token['type'], value?: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === type && (value === undefined || token.value === value);
+  }
+
+  private checkOp(value: string, offset = 0): boolean {
+    return this.check('op', value, offset);
+  }
+
+  private checkKeyword(value: string, offset = 0): boolean {
+    return this.check('keyword', value, offset);
+  }
+
+  private match(type: Token['type'], value?: string): boolean {
+    if (this.check(type, value)) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private expect(type: Token['type'], value: string | undefined, what: string): Token {
+    if (this.check(type, value)) return this.advance();
+    throw this.error(this.peek(), `Expected ${what} but found ${describe(this.peek())}`);
+  }
+
+  private expectIdent(what: string): string {
+    return this.expect('ident', undefined, what).value;
+  }
+
+  private error(token: Token, message: string, suggestion?: string): PineError {
+    const line = token.line || this.previous()?.line || 1;
+    return PineError.syntax(message, line, token.column || undefined, suggestion);
+  }
+
+  private node<K extends NodeKind>(kind: K, token: Token) {
+    return { kind, id: this.nextId++, line: token.line, column: token.column };
+  }
+
+  /** An if/switch/for/while expression just closed its block, nothing may continue it */
+  private endedBlock(): boolean {
+    return this.previous()?.type === 'dedent';
+  }
+
+  private endStatement() {
+    if (this.match('newline')) return;
+    // `float c = math.cos(x), float s = math.sin(x)` declares several variables on one line
+    if (this.match('op', ',')) return;
+    if (this.previous()?.type === 'dedent' || this.check('eof') || this.check('dedent')) return;
+    throw this.error(this.peek(), `Unexpected ${describe(this.peek())}`, 'Put each statement on its own line');
+  }
+
+  // ---- STATEMENTS ----
+
+  private parseStatement(): Statement {
+    const token = this.peek();
+
+    if (token.type === 'keyword') {
+      switch (token.value) {
+        case 'import':
+          throw this.error(token, 'Library imports are not supported', 'Copy the library functions into the script');
+        case 'export':
+          this.advance();
+          return this.parseStatement();
+        case 'type':
+          return this.parseTypeDecl();
+        case 'method':
+          this.advance();
+          return this.parseFunctionDecl(true);
+        case 'var':
+        case 'varip':
+          this.advance();
+          return this.parseVarDecl(token.value, token);
+        case 'break':
+          this.advance();
+          return this.node('Break', token);
+        case 'continue':
+          this.advance();
+          return this.node('Continue', token);
+      }
+    }
+
+    if (token.type === 'op' && token.value === '[' && this.isTupleDecl()) {
+      return this.parseTupleDecl();
+    }
+
+    if (token.type === 'ident') {
+      if (this.checkOp('(', 1) && this.isFunctionDecl()) {
+        return this.parseFunctionDecl(false);
+      }
+      if (this.checkOp('=', 1)) {
+        return this.parseVarDecl('none', token);
+      }
+      const typeEnd = this.scanTypeName(this.pos);
+      if (typeEnd !== null && this.check('ident', undefined, typeEnd - this.pos) && this.checkOp('=', typeEnd - this.pos + 1)) {
+        return this.parseVarDecl('none', token);
+      }
+    }
+
+    const expression = this.parseExpression();
+    if (this.check('op') && ASSIGNMENT_OPERATORS.has(this.peek().value)) {
+      const operator = this.advance().value as Assignment['operator'];
+      if (expression.kind !== 'Identifier' && expression.kind !== 'Member') {
+        throw this.error(token, `Cannot assign to this expression with '${operator}'`);
+      }
+      const value = this.parseExpression();
+      return { ...this.node('Assign', token), operator, target: expression, value };
+    }
+    if (this.checkOp('=')) {
+      throw this.error(this.peek(), "Unexpected '='", "Use ':=' to reassign an existing variable");
+    }
+    return { ...this.node('ExprStmt', token), expression };
+  }
+
+  private parseVarDecl(mode: VarDecl['mode'], token: Token): VarDecl {
+    let typeName: string | undefined;
+    if (!(this.check('ident') && this.checkOp('=', 1))) {
+      typeName = this.parseTypeName();
+    }
+    const name = this.expectIdent('variable name');
+    this.expect('op', '=', "'='");
+    const init = this.parseExpression();
+    return { ...this.node('VarDecl', token), mode, typeName, name, init };
+  }
+
+  private parseTupleDecl(): TupleDecl {
+    const token = this.expect('op', '[', "'['");
+    const names: string[] = [];
+    do {
+      names.push(this.expectIdent('tuple element name'));
+    } while (this.match('op', ','));
+    this.expect('op', ']', "']'");
+    this.expect('op', '=', "'='");
+    const init = this.parseExpression();
+    return { ...this.node('TupleDecl', token), names, init };
+  }
+
+  private parseFunctionDecl(isMethod: boolean): FunctionDecl {
+    const token = this.peek();
+    const name = this.expectIdent('function name');
+    this.expect('op', '(', "'('");
+    const params: FunctionParam[] = [];
+    if (!this.checkOp(')')) {
+      do {
+        params.push(this.parseParam());
+      } while (this.match('op', ','));
+    }
+    this.expect('op', ')', "')'");
+    this.expect('op', '=>', "'=>'");
+    const body = this.parseArrowBody(token);
+    return { ...this.node('FunctionDecl', token), name, params, body, isMethod };
+  }
+
+  private parseParam(): FunctionParam {
+    let typeName: string | undefined;
+    if (!(this.check('ident') && (this.checkOp(',', 1) || this.checkOp(')', 1) || this.checkOp('=', 1)))) {
+      typeName = this.parseTypeName();
+    }
+    const name = this.expectIdent('parameter name');
+    const defaultValue = this.match('op', '=') ? this.parseExpression() : undefined;
+    return { name, typeName, defaultValue };
+  }
+
+  private parseTypeDecl(): TypeDecl {
+    const token = this.advance();
+    const name = this.expectIdent('type name');
+    this.expect('newline', undefined, 'end of line');
+    this.expect('indent', undefined, 'indented field list');
+    const fields: TypeField[] = [];
+    while (!this.check('dedent') && !this.check('eof')) {
+      if (this.match('newline')) continue;
+      const typeName = this.parseTypeName();
+      const fieldName = this.expectIdent('field name');
+      const defaultValue = this.match('op', '=') ? this.parseExpression() : undefined;
+      fields.push({ name: fieldName, typeName, defaultValue });
+      this.endStatement();
+    }
+    this.match('dedent');
+    return { ...this.node('TypeDecl', token), name, fields };
+  }
+
+  /** Body after '=>': either an indented block or a single statement on the same line */
+  private parseArrowBody(token: Token): Block {
+    if (this.check('newline') && this.check('indent', undefined, 1)) {
+      return this.parseBlock();
+    }
+    const statement = this.parseStatement();
+    return { ...this.node('Block', token), body: [statement] };
+  }
+
+  private parseBlock(): Block {
+    const token = this.peek();
+    this.expect('newline', undefined, 'end of line');
+    this.expect('indent', undefined, 'an indented block');
+    const body: Statement[] = [];
+    while (!this.check('dedent') && !this.check('eof')) {
+      if (this.match('newline')) continue;
+      body.push(this.parseStatement());
+      this.endStatement();
+    }
+    this.match('dedent');
+    return { ...this.node('Block', token), body };
+  }
+
+  // ---- LOOKAHEAD ----
+
+  /** Returns the position just after a type name starting at `start`, or null */
+  private scanTypeName(start: number): number | null {
+    let i = start;
+    const at = (k: number) => this.tokens[k];
+    if (at(i)?.type === 'ident' && TYPE_QUALIFIERS.has(at(i).value) && at(i + 1)?.type === 'ident') i++;
+    if (at(i)?.type !== 'ident') return null;
+    i++;
+    while (at(i)?.type === 'op' && at(i).value === '.' && at(i + 1)?.type === 'ident') i += 2;
+    if (at(i)?.type === 'op' && at(i).value === '<') {
+      let depth = 0;
+      while (i < this.tokens.length) {
+        const t = at(i);
+        if (t.type === 'op' && t.value === '<') depth++;
+        else if (t.type === 'op' && t.value === '>') {
+          depth--;
+          if (depth === 0) break;
+        } else if (t.type !== 'ident' && !(t.type === 'op' && (t.value === ',' || t.value === '.'))) {
+          return null;
+        }
+        i++;
+      }
+      i++;
+    }
+    if (at(i)?.type === 'op' && at(i).value === '[' && at(i + 1)?.type === 'op' && at(i + 1).value === ']') i += 2;
+    return i;
+  }
+
+  private parseTypeName(): string {
+    const end = this.scanTypeName(this.pos);
+    if (end === null) {
+      throw this.error(this.peek(), `Expected a type or variable name but found ${describe(this.peek())}`);
+    }
+    const parts: string[] = [];
+    while (this.pos < end) {
+      const value = this.advance().value;
+      parts.push(TYPE_QUALIFIERS.has(value) && parts.length === 0 && this.pos < end ? `${value} ` : value);
+    }
+    return parts.join('');
+  }
+
+  private findClosing(openPos: number): number {
+    const open = this.tokens[openPos].value;
+    const close = open === '(' ? ')' : ']';
+    let depth = 0;
+    for (let i = openPos; i < this.tokens.length; i++) {
+      const t = this.tokens[i];
+      if (t.type !== 'op') continue;
+      if (t.value === open) depth++;
+      else if (t.value === close) {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+    return -1;
+  }
+
+  private isFunctionDecl(): boolean {
+    const close = this.findClosing(this.pos + 1);
+    const after = close >= 0 ? this.tokens[close + 1] : undefined;
+    return after?.type === 'op' && after.value === '=>';
+  }
+
+  private isTupleDecl(): boolean {
+    const close = this.findClosing(this.pos);
+    const after = close >= 0 ? this.tokens[close + 1] : undefined;
+    return after?.type === 'op' && after.value === '=';
+  }
+
+  private isTypeArgs(): boolean {
+    if (!this.checkOp('<')) return false;
+    const end = this.scanTypeName(this.pos - 1);
+    const closing = end !== null ? this.tokens[end] : undefined;
+    const previous = end !== null ? this.tokens[end - 1] : undefined;
+    return previous?.type === 'op' && previous.value === '>' && closing?.type === 'op' && closing.value === '(';
+  }
+
+  // ---- EXPRESSIONS ----
+
+  parseExpression(): Expression {
+    return this.parseTernary();
+  }
+
+  private parseTernary(): Expression {
+    const test = this.parseBinary(0);
+    if (this.checkOp('?') && !this.endedBlock()) {
+      const token = this.advance();
+      const consequent = this.parseTernary();
+      this.expect('op', ':', "':' in conditional expression");
+      const alternate = this.parseTernary();
+      return { ...this.node('Ternary', token), test, consequent, alternate };
+    }
+    return test;
+  }
+
+  // Precedence levels from lowest to highest, following the Pine manual
+  private static readonly BINARY_LEVELS: string[][] = [
+    ['or'],
+    ['and'],
+    ['==', '!='],
+    ['<', '>', '<=', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+  ];
+
+  private parseBinary(level: number): Expression {
+    if (level >= PineParser.BINARY_LEVELS.length) return this.parseUnary();
+    const operators = PineParser.BINARY_LEVELS[level];
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      const isOperator = (token.type === 'op' || token.type === 'keyword') && operators.includes(token.value);
+      if (!isOperator || this.endedBlock()) break;
+      this.advance();
+      const right = this.parseBinary(level + 1);
+      left = { ...this.node('Binary', token), operator: token.value, left, right };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    const token = this.peek();
+    if ((token.type === 'op' && (token.value === '-' || token.value === '+')) || (token.type === 'keyword' && token.value === 'not')) {
+      this.advance();
+      const operand = this.parseUnary();
+      return { ...this.node('Unary', token), operator: token.value as '-' | '+' | 'not', operand };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Expression {
+    let expression = this.parsePrimary();
+    for (;;) {
+      if (this.endedBlock()) return expression;
+      const token = this.peek();
+      if (this.checkOp('.')) {
+        this.advance();
+        const property = this.expectIdent('member name');
+        expression = { ...this.node('Member', token), object: expression, property };
+      } else if (this.checkOp('<') && (expression.kind === 'Member' || expression.kind === 'Identifier') && this.isTypeArgs()) {
+        this.advance();
+        const typeArgs: string[] = [];
+        do {
+          typeArgs.push(this.parseTypeName());
+        } while (this.match('op', ','));
+        this.expect('op', '>', "'>'");
+        expression = this.parseCall(expression, this.peek(), typeArgs);
+      } else if (this.checkOp('(')) {
+        expression = this.parseCall(expression, token);
+      } else if (this.checkOp('[')) {
+        this.advance();
+        const offset = this.parseExpression();
+        this.expect('op', ']', "']'");
+        expression = { ...this.node('History', token), target: expression, offset };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parseCall(callee: Expression, token: Token, typeArgs?: string[]): Expression {
+    this.expect('op', '(', "'('");
+    const args: CallArgument[] = [];
+    let sawNamed = false;
+    if (!this.checkOp(')')) {
+      do {
+        if (this.check('ident') && this.checkOp('=', 1)) {
+          const name = this.advance().value;
+          this.advance();
+          args.push({ name, value: this.parseExpression() });
+          sawNamed = true;
+        } else {
+          if (sawNamed) {
+            throw this.error(this.peek(), 'Positional argument after named argument');
+          }
+          args.push({ value: this.parseExpression() });
+        }
+      } while (this.match('op', ','));
+    }
+    this.expect('op', ')', "')' to close the argument list");
+    return { ...this.node('Call', token), callee, args, typeArgs };
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number': {
+        this.advance();
+        const isInt = !/[.eE]/.test(token.value);
+        return { ...this.node('Number', token), value: parseFloat(token.value), isInt };
+      }
+      case 'string':
+        this.advance();
+        return { ...this.node('String', token), value: token.value };
+      case 'color':
+        this.advance();
+        return { ...this.node('Color', token), value: token.value };
+      case 'ident':
+        this.advance();
+        return { ...this.node('Identifier', token), name: token.value };
+      case 'keyword':
+        switch (token.value) {
+          case 'true':
+          case 'false':
+            this.advance();
+            return { ...this.node('Bool', token), value: token.value === 'true' };
+          case 'if':
+            return this.parseIf();
+          case 'switch':
+            return this.parseSwitch();
+          case 'for':
+            return this.parseFor();
+          case 'while':
+            return this.parseWhile();
+        }
+        break;
+      case 'op':
+        if (token.value === '(') {
+          this.advance();
+          const inner = this.parseExpression();
+          this.expect('op', ')', "')'");
+          return inner;
+        }
+        if (token.value === '[') {
+          this.advance();
+          const elements: Expression[] = [];
+          if (!this.checkOp(']')) {
+            do {
+              elements.push(this.parseExpression());
+            } while (this.match('op', ','));
+          }
+          this.expect('op', ']', "']'");
+          return { ...this.node('Tuple', token), elements };
+        }
+        break;
+    }
+
+    throw this.error(token, `Unexpected ${describe(token)}`);
+  }
+
+  private parseIf(): IfExpr {
+    const token = this.advance();
+    const test = this.parseExpression();
+    const consequent = this.parseBlock();
+    let alternate: IfExpr['alternate'];
+    if (this.checkKeyword('else')) {
+      this.advance();
+      alternate = this.checkKeyword('if') ? this.parseIf() : this.parseBlock();
+    }
+    return { ...this.node('If', token), test, consequent, alternate };
+  }
+
+  private parseSwitch(): SwitchExpr {
+    const token = this.advance();
+    const subject = this.check('newline') ? undefined : this.parseExpression();
+    this.expect('newline', undefined, 'end of line after switch');
+    this.expect('indent', undefined, 'indented switch cases');
+    const cases: SwitchCase[] = [];
+    while (!this.check('dedent') && !this.check('eof')) {
+      if (this.match('newline')) continue;
+      const caseToken = this.peek();
+      const test = this.checkOp('=>') ? undefined : this.parseExpression();
+      this.expect('op', '=>', "'=>' after switch case");
+      cases.push({ test, body: this.parseArrowBody(caseToken) });
+      this.endStatement();
+    }
+    this.match('dedent');
+    return { ...this.node('Switch', token), subject, cases };
+  }
+
+  private parseFor(): ForExpr | ForInExpr {
+    const token = this.advance();
+
+    if (this.checkOp('[')) {
+      this.advance();
+      const index = this.expectIdent('index variable');
+      this.expect('op', ',', "','");
+      const item = this.expectIdent('item variable');
+      this.expect('op', ']', "']'");
+      this.expect('keyword', 'in', "'in'");
+      const iterable = this.parseExpression();
+      return { ...this.node('ForIn', token), index, item, iterable, body: this.parseBlock() };
+    }
+
+    const iterator = this.expectIdent('loop variable');
+    if (this.match('keyword', 'in')) {
+      const iterable = this.parseExpression();
+      return { ...this.node('ForIn', token), item: iterator, iterable, body: this.parseBlock() };
+    }
+
+    this.expect('op', '=', "'=' in for loop");
+    const from = this.parseExpression();
+    this.expect('ident', 'to', "'to' in for loop");
+    const to = this.parseExpression();
+    const step = this.match('ident', 'by') ? this.parseExpression() : undefined;
+    return { ...this.node('For', token), iterator, from, to, step, body: this.parseBlock() };
+  }
+
+  private parseWhile(): WhileExpr {
+    const token = this.advance();
+    const test = this.parseExpression();
+    return { ...this.node('While', token), test, body: this.parseBlock() };
+  }
+}
+
+/** Detect the //@version=N annotation (defaults to 6) */
+export const detectPineVersion = (source: string): number => {
+  const match = source.match(/\/\/\s*@version\s*=\s*(\d+)/);
+  return match ? parseInt(match[1], 10) : 6;
+};
+
+/** Parse Pine Script source into an AST, throwing PineError on syntax errors */
+export const parsePine = (source: string): Program => {
+  return new PineParser(source).parseProgram(detectPineVersion(source));
+};
@@ -0,0 +1,172 @@
+// ============================================
+// Pine Script runtime contracts
+// Shared between the interpreter and built-ins
+// ============================================
+
+import type { OHLCData, PineScriptResult } from '../PineScriptRunner';
+import type { CallExpr } from './ast';
+import { PineError } from './errors';
+import type { SecurityRequest } from './security';
+import type { StrategyBroker, StrategyReport } from './strategy';
+import { ExecutionBuffer } from './values';
+
+export interface PineRunOptions {
+  /** Ticker shown through syminfo.* */
+  symbol?: string;
+  /** Chart timeframe ('1m', '1h', '1D', ...) shown through timeframe.* */
+  timeframe?: string;
+  /** Minimum price movement, syminfo.mintick */
+  mintick?: number;
+  debug?: boolean;
+  /** Guard against runaway while/for loops, per bar */
+  maxLoopIterations?: number;
+  /** Bars for request.security(), keyed by securityKey() */
+  securityData?: Record<string, OHLCData[]>;
+  /** Overrides for input.*() values, keyed by PineInput.id */
+  inputs?: Record<string, PineInputValue>;
+}
+
+export type PineInputType =
+  | 'int' | 'float' | 'bool' | 'string' | 'color' | 'source'
+  | 'timeframe' | 'symbol' | 'session' | 'price' | 'time' | 'text_area';
+
+export type PineInputValue = number | boolean | string;
+
+/** A user-editable input declared by input.*(), in declaration order */
+export interface PineInput {
+  /** Key for overriding the value: the title, made unique; untitled inputs get '<type> <n>' */
+  id: string;
+  type: PineInputType;
+  title: string;
+  defval: PineInputValue;
+  minval?: number;
+  maxval?: number;
+  step?: number;
+  options?: PineInputValue[];
+  tooltip?: string;
+  group?: string;
+  inline?: string;
+}
+
+export interface PineDeclaration {
+  kind: 'indicator' | 'strategy' | 'library';
+  title: string;
+  overlay: boolean;
+  args: Record<string, unknown>;
+}
+
+/** An alertcondition() call: whether its condition held on each bar */
+export interface PineAlertCondition {
+  title: string;
+  message: string;
+  fired: boolean[];
+}
+
+/** Everything a script produced over a full bar-by-bar run */
+export interface PineRunOutput {
+  declaration: PineDeclaration | null;
+  results: PineScriptResult[];
+  /** alertcondition() outputs, in declaration order */
+  alertConditions: PineAlertCondition[];
+  /** Backtest of a strategy() script */
+  strategy?: StrategyReport;
+  /** request.security() data that was not in securityData; those calls returned na */
+  missingData: SecurityRequest[];
+  /** Settings form schema */
+  inputs: PineInput[];
+}
+
+/** Plot-like output accumulated across bars and converted into a PineScriptResult */
+export interface PlotOutput {
+  result: PineScriptResult;
+  order: number;
+}
+
+export interface PineRuntime {
+  readonly data: OHLCData[];
+  readonly bar: number;
+  readonly options: PineRunOptions;
+  declaration: PineDeclaration | null;
+  /** Broker emulator, created by strategy() */
+  strategy: StrategyBroker | null;
+  /** Shared per-call-site state store */
+  readonly states: Map<string, unknown>;
+  /** Inputs declared so far */
+  readonly inputs: PineInput[];
+  /** Get or create the plot output for a call site */
+  plot(key: string, create: () => PineScriptResult): PineScriptResult;
+  /** Get or create the alertcondition() output for a call site */
+  alertCondition(key: string, create: () => PineAlertCondition): PineAlertCondition;
+  debug(...args: unknown[]): void;
+}
+
+/**
+ * Execution context handed to every built-in call. State is keyed by the
+ * call site (AST node plus the user-function call path) so that two
+ * `ta.sma()` calls never share history.
+ */
+export class BuiltinContext {
+  constructor(
+    readonly runtime: PineRuntime,
+    readonly key: string,
+    readonly line: number,
+    readonly column: number,
+    /** The call being evaluated, for built-ins that look at argument expressions */
+    readonly call?: CallExpr
+  ) {}
+
+  get bar(): number {
+    return this.runtime.bar;
+  }
+
+  get data(): OHLCData[] {
+    return this.runtime.data;
+  }
+
+  state<T>(init: () => T): T {
+    const states = this.runtime.states;
+    if (!states.has(this.key)) states.set(this.key, init());
+    return states.get(this.key) as T;
+  }
+
+  /** Per-call-site history buffer, already advanced to the current bar */
+  buffer(name: string): ExecutionBuffer {
+    const key = `${this.key}/${name}`;
+    const states = this.runtime.states;
+    let buffer = states.get(key) as ExecutionBuffer | undefined;
+    if (!buffer) {
+      buffer = new ExecutionBuffer();
+      states.set(key, buffer);
+    }
+    return buffer.advance(this.bar);
+  }
+
+  /** Child context for a nested built-in call */
+  sub(name: string): BuiltinContext {
+    return new BuiltinContext(this.runtime, `${this.key}/${name}`, this.line, this.column);
+  }
+
+  error(message: string, suggestion?: string): PineError {
+    return PineError.runtime(message, this.line, this.column, suggestion);
+  }
+}
+
+export interface BuiltinFunction {
+  /** Parameter names, used to map named arguments onto positions */
+  params: string[];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- built-ins declare their own argument types
+  fn: (ctx: BuiltinContext, ...args: any[]) => unknown;
+}
+
+export interface BuiltinVariable {
+  /** Value at `bar`; bar-indexed variables support history lookups this way */
+  get: (ctx: BuiltinContext, bar: number) => unknown;
+  /** Stateful variables (ta.obv, ...) can only be computed for the current bar */
+  stateful?: boolean;
+}
+
+export const builtin = (params: string[], fn: BuiltinFunction['fn']): BuiltinFunction => ({ params, fn });
+
+export const barVariable = (get: BuiltinVariable['get']): BuiltinVariable => ({ get });
+
+export const statefulVariable = (get: BuiltinVariable['get']): BuiltinVariable => ({ get, stateful: true });
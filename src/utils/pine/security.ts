@@ -0,0 +1,160 @@
+// ============================================
+// request.security() data resolution
+// Timeframe math, calendar-aligned resampling and the
+// provider contract used to load other symbols/timeframes
+// ============================================
+
+import type { OHLCData } from '../PineScriptRunner';
+import type { PineRunOptions } from './runtime';
+
+/** A symbol/timeframe pair a script asked for, timeframe in Pine format ('60', 'D', 'W') */
+export interface SecurityRequest {
+  symbol: string;
+  timeframe: string;
+}
+
+/** Loads bars for a request.security() call; return null when the symbol is unknown */
+export type SecurityDataProvider = (request: SecurityRequest) => Promise<OHLCData[] | null>;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const WEEK = 7 * DAY;
+/** 1970-01-05 was the first Monday after the epoch: weekly bars open on Mondays */
+const WEEK_ANCHOR = 4 * DAY;
+
+/** Convert an app timeframe ('5m', '4h', '1D') to Pine's timeframe.period format ('5', '240', 'D') */
+export const toPineTimeframe = (timeframe: string): string => {
+  const match = timeframe.match(/^(\d*)([smhHdDwWM])$/);
+  if (!match) return timeframe;
+  const count = match[1] ? parseInt(match[1], 10) : 1;
+  switch (match[2]) {
+    case 's':
+      return `${count}S`;
+    case 'm':
+      return String(count);
+    case 'h':
+    case 'H':
+      return String(count * 60);
+    case 'd':
+    case 'D':
+      return count === 1 ? 'D' : `${count}D`;
+    case 'w':
+    case 'W':
+      return count === 1 ? 'W' : `${count}W`;
+    default:
+      return count === 1 ? 'M' : `${count}M`;
+  }
+};
+
+/** The chart's timeframe in Pine format, from the run options or inferred from bar spacing */
+export const chartPeriod = (options: PineRunOptions, data: OHLCData[]): string => {
+  if (options.timeframe) return toPineTimeframe(options.timeframe);
+  if (data.length < 2) return 'D';
+  const minutes = Math.round((data[data.length - 1].timestamp - data[data.length - 2].timestamp) / MINUTE);
+  if (minutes >= 43200) return 'M';
+  if (minutes >= 10080) return 'W';
+  if (minutes >= 1440) return 'D';
+  return String(Math.max(1, minutes));
+};
+
+const parsePeriod = (timeframe: string): { count: number; unit: '' | 'S' | 'D' | 'W' | 'M' } | null => {
+  const match = toPineTimeframe(timeframe).match(/^(\d*)([SDWM]?)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  return { count: match[1] ? parseInt(match[1], 10) : 1, unit: match[2] as '' | 'S' | 'D' | 'W' | 'M' };
+};
+
+/** Nominal length of a timeframe in ms (months count as 30 days), NaN when unparseable */
+export const timeframeToMs = (timeframe: string): number => {
+  const period = parsePeriod(timeframe);
+  if (!period) return NaN;
+  switch (period.unit) {
+    case 'S':
+      return period.count * 1000;
+    case 'D':
+      return period.count * DAY;
+    case 'W':
+      return period.count * WEEK;
+    case 'M':
+      return period.count * 30 * DAY;
+    default:
+      return period.count * MINUTE;
+  }
+};
+
+/** Open time of the bar of `timeframe` containing `timestamp` (UTC calendar aligned) */
+export const bucketStart = (timestamp: number, timeframe: string): number => {
+  const period = parsePeriod(timeframe);
+  if (!period) return timestamp;
+  if (period.unit === 'M') {
+    const date = new Date(timestamp);
+    const months = date.getUTCFullYear() * 12 + date.getUTCMonth();
+    const start = Math.floor(months / period.count) * period.count;
+    return Date.UTC(Math.floor(start / 12), start % 12, 1);
+  }
+  if (period.unit === 'W') {
+    const size = period.count * WEEK;
+    return Math.floor((timestamp - WEEK_ANCHOR) / size) * size + WEEK_ANCHOR;
+  }
+  const size = timeframeToMs(timeframe);
+  return Math.floor(timestamp / size) * size;
+};
+
+/** Close time of the bar of `timeframe` containing `timestamp` */
+export const bucketEnd = (timestamp: number, timeframe: string): number => {
+  const start = bucketStart(timestamp, timeframe);
+  const period = parsePeriod(timeframe);
+  if (period?.unit === 'M') {
+    const date = new Date(start);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + period.count, 1);
+  }
+  return start + timeframeToMs(timeframe);
+};
+
+/** Aggregate bars into a higher timeframe; bars are stamped with the bucket open time */
+export const resampleBars = (data: OHLCData[], timeframe: string): OHLCData[] => {
+  const out: OHLCData[] = [];
+  let current: OHLCData | null = null;
+  for (const bar of data) {
+    const start = bucketStart(bar.timestamp, timeframe);
+    if (!current || current.timestamp !== start) {
+      current = { timestamp: start, open: bar.open, high: bar.high, low: bar.low, close: bar.close, volume: bar.volume };
+      out.push(current);
+    } else {
+      current.high = Math.max(current.high, bar.high);
+      current.low = Math.min(current.low, bar.low);
+      current.close = bar.close;
+      current.volume += bar.volume;
+    }
+  }
+  return out;
+};
+
+/**
+ * Pick the coarsest of `available` app timeframes that evenly builds `timeframe`,
+ * e.g. '120' from ['1m', '5m', '1h', '4h'] → '1h'
+ */
+export const baseTimeframeFor = <T extends string>(timeframe: string, available: readonly T[]): T | null => {
+  const target = timeframeToMs(timeframe);
+  const monthly = parsePeriod(timeframe)?.unit === 'M';
+  let best: T | null = null;
+  let bestMs = 0;
+  for (const candidate of available) {
+    const ms = timeframeToMs(toPineTimeframe(candidate));
+    if (!(ms > 0) || ms > target) continue;
+    const divides = monthly ? ms <= DAY && DAY % ms === 0 : target % ms === 0;
+    if (divides && ms > bestMs) {
+      best = candidate;
+      bestMs = ms;
+    }
+  }
+  return best;
+};
+
+/** 'BINANCE:BTCUSDT' → 'BTCUSDT' */
+export const normalizeSymbol = (symbol: string): string => {
+  const bare = symbol.includes(':') ? symbol.slice(symbol.lastIndexOf(':') + 1) : symbol;
+  return bare.trim().toUpperCase();
+};
+
+export const securityKey = (request: SecurityRequest): string =>
+  `${normalizeSymbol(request.symbol)}|${toPineTimeframe(request.timeframe)}`;
@@ -0,0 +1,768 @@
+// ============================================
+// Pine Script strategy.* broker emulator
+// Orders placed on a bar fill on the next bar (or on the
+// bar close with process_orders_on_close), walking the bar
+// open → high/low → close the way TradingView does
+// ============================================
+
+import type { Trade } from '../tradingMetrics';
+import {
+  BuiltinContext,
+  BuiltinFunction,
+  BuiltinVariable,
+  PineRuntime,
+  barVariable,
+  builtin,
+  statefulVariable,
+} from './runtime';
+import { isNa, toNumber } from './values';
+
+type Direction = 'long' | 'short';
+
+interface PendingOrder {
+  id: string;
+  kind: 'entry' | 'order' | 'close';
+  direction: Direction;
+  /** NaN means the strategy default quantity */
+  qty: number;
+  qtyPercent: number;
+  limit: number;
+  stop: number;
+  comment?: string;
+  placedBar: number;
+  seq: number;
+}
+
+interface ExitOrder {
+  id: string;
+  /** Entry id the exit applies to, '' for every open entry */
+  fromEntry: string;
+  qty: number;
+  qtyPercent: number;
+  profit: number;
+  limit: number;
+  loss: number;
+  stop: number;
+  trailPrice: number;
+  trailPoints: number;
+  trailOffset: number;
+  comment?: string;
+  placedBar: number;
+  /** Set once the exit had an open entry to protect */
+  attached: boolean;
+  /** Entries (by seq) this exit already filled against */
+  done: Set<number>;
+}
+
+interface OpenEntry {
+  seq: number;
+  id: string;
+  direction: Direction;
+  qty: number;
+  price: number;
+  bar: number;
+  time: number;
+  /** Entry commission not yet charged to a closed trade */
+  commission: number;
+  highest: number;
+  lowest: number;
+  comment?: string;
+}
+
+export interface ClosedTrade {
+  entryId: string;
+  exitId: string;
+  direction: Direction;
+  qty: number;
+  entryPrice: number;
+  exitPrice: number;
+  entryBar: number;
+  exitBar: number;
+  entryTime: number;
+  exitTime: number;
+  profit: number;
+  commission: number;
+  /** Max adverse / favorable excursion in account currency */
+  mae: number;
+  mfe: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  comment?: string;
+}
+
+/** Backtest output, with trades shaped for calculateMetrics / equity curve / Monte Carlo */
+export interface StrategyReport {
+  title: string;
+  symbol: string;
+  currency: string;
+  initialCapital: number;
+  netProfit: number;
+  grossProfit: number;
+  grossLoss: number;
+  openProfit: number;
+  maxDrawdown: number;
+  maxRunUp: number;
+  positionSize: number;
+  /** Equity marked to each bar's close */
+  equity: number[];
+  closedTrades: ClosedTrade[];
+  trades: Trade[];
+}
+
+interface Fill {
+  time: number;
+  price: number;
+  priority: number;
+  apply: (price: number) => void;
+}
+
+const sign = (direction: Direction) => (direction === 'long' ? 1 : -1);
+
+const toDirection = (value: unknown): Direction | null => {
+  if (value === 'long' || value === true) return 'long';
+  if (value === 'short' || value === false) return 'short';
+  return null;
+};
+
+const num = (value: unknown): number => (value === undefined ? NaN : toNumber(value));
+
+/**
+ * Earliest point along the intrabar price path where price is at/above (or at/below) `level`.
+ * Time is measured in path segments; a gap through the level fills at the starting price.
+ */
+const reach = (path: number[], from: number, level: number, side: 'above' | 'below'): { time: number; price: number } | null => {
+  if (isNa(level)) return null;
+  const hit = (price: number) => (side === 'above' ? price >= level : price <= level);
+  const segment = Math.min(Math.floor(from), path.length - 2);
+  const offset = from - segment;
+  const start = path[segment] + (path[segment + 1] - path[segment]) * offset;
+  if (hit(start)) return { time: from, price: start };
+  for (let i = segment; i < path.length - 1; i++) {
+    const a = i === segment ? start : path[i];
+    const b = path[i + 1];
+    if (hit(b)) {
+      const span = b - a;
+      const fraction = span === 0 ? 0 : (level - a) / span;
+      const base = i === segment ? offset : 0;
+      return { time: i + base + fraction * (1 - base), price: level };
+    }
+  }
+  return null;
+};
+
+export class StrategyBroker {
+  readonly title: string;
+  readonly initialCapital: number;
+  private readonly pyramiding: number;
+  private readonly qtyType: string;
+  private readonly qtyValue: number;
+  private readonly commissionType: string;
+  private readonly commissionValue: number;
+  private readonly slippageTicks: number;
+  private readonly processOnClose: boolean;
+  private readonly currency: string;
+
+  private pending: PendingOrder[] = [];
+  private exits = new Map<string, ExitOrder>();
+  private trails = new Map<string, { active: boolean; extreme: number }>();
+  private entries: OpenEntry[] = [];
+  readonly closed: ClosedTrade[] = [];
+  private equityCurve: number[] = [];
+  private seq = 0;
+  private now = 0;
+
+  netProfit = 0;
+  grossProfit = 0;
+  grossLoss = 0;
+  maxDrawdown = 0;
+  maxRunUp = 0;
+  private peakEquity: number;
+  private troughEquity: number;
+
+  constructor(
+    private readonly runtime: PineRuntime,
+    args: Record<string, unknown>
+  ) {
+    this.title = String(args.title ?? 'Strategy');
+    this.initialCapital = num(args.initial_capital) || 1_000_000;
+    this.pyramiding = Math.max(1, Math.floor(num(args.pyramiding)) || 1);
+    this.qtyType = String(args.default_qty_type ?? 'fixed');
+    this.qtyValue = isNa(num(args.default_qty_value)) ? 1 : num(args.default_qty_value);
+    this.commissionType = String(args.commission_type ?? 'percent');
+    this.commissionValue = num(args.commission_value) || 0;
+    this.slippageTicks = num(args.slippage) || 0;
+    this.processOnClose = args.process_orders_on_close === true;
+    this.currency = String(args.currency ?? 'NONE');
+    this.peakEquity = this.initialCapital;
+    this.troughEquity = this.initialCapital;
+  }
+
+  // ---- STATE ----
+
+  private get tick(): number {
+    return this.runtime.options.mintick ?? 0.01;
+  }
+
+  private get bar() {
+    return this.runtime.data[this.runtime.bar];
+  }
+
+  get positionSize(): number {
+    return this.entries.reduce((sum, e) => sum + sign(e.direction) * e.qty, 0);
+  }
+
+  get positionAvgPrice(): number {
+    const qty = this.entries.reduce((sum, e) => sum + e.qty, 0);
+    return qty > 0 ? this.entries.reduce((sum, e) => sum + e.price * e.qty, 0) / qty : NaN;
+  }
+
+  get positionEntryName(): string {
+    return this.entries[this.entries.length - 1]?.id ?? '';
+  }
+
+  get openProfit(): number {
+    return this.entries.reduce((sum, e) => sum + this.entryProfit(e), 0);
+  }
+
+  /** Unrealized profit of an open entry at the current close, net of its entry commission */
+  entryProfit(entry: OpenEntry): number {
+    const close = this.bar?.close ?? NaN;
+    return sign(entry.direction) * (close - entry.price) * entry.qty - entry.commission;
+  }
+
+  get equity(): number {
+    return this.initialCapital + this.netProfit + this.openProfit;
+  }
+
+  get openEntries(): readonly OpenEntry[] {
+    return this.entries;
+  }
+
+  // ---- ORDER PLACEMENT (called from the script) ----
+
+  placeOrder(kind: 'entry' | 'order', id: string, direction: Direction, qty: number, limit: number, stop: number, comment?: string) {
+    this.pending = this.pending.filter(o => !(o.kind === kind && o.id === id));
+    this.pending.push({
+      id, kind, direction, qty, qtyPercent: 100, limit, stop, comment,
+      placedBar: this.runtime.bar, seq: this.seq++,
+    });
+  }
+
+  placeExit(exit: Omit<ExitOrder, 'placedBar' | 'attached' | 'done'>) {
+    const existing = this.exits.get(exit.id);
+    this.exits.set(exit.id, {
+      ...exit,
+      placedBar: existing?.placedBar ?? this.runtime.bar,
+      attached: existing?.attached ?? false,
+      done: existing?.done ?? new Set(),
+    });
+  }
+
+  close(id: string, qty: number, qtyPercent: number, comment: string | undefined, immediately: boolean) {
+    const targets = this.entries.filter(e => id === '' || e.id === id);
+    if (targets.length === 0) return;
+    if (immediately) {
+      this.closeEntries(this.takeQty(targets, qty, qtyPercent), this.bar.close, id || 'Close all', comment);
+      return;
+    }
+    this.pending = this.pending.filter(o => !(o.kind === 'close' && o.id === id));
+    this.pending.push({
+      id, kind: 'close', direction: targets[0].direction, qty, qtyPercent, limit: NaN, stop: NaN, comment,
+      placedBar: this.runtime.bar, seq: this.seq++,
+    });
+  }
+
+  cancel(id?: string) {
+    this.pending = this.pending.filter(o => id !== undefined && o.id !== id);
+    if (id === undefined) this.exits.clear();
+    else this.exits.delete(id);
+  }
+
+  // ---- BAR PROCESSING (called by the interpreter) ----
+
+  /** Fill orders carried over from previous bars against the current bar */
+  onBarOpen() {
+    const { open, high, low, close } = this.bar;
+    // TradingView assumes the extreme closer to the open is visited first
+    const path = Math.abs(high - open) < Math.abs(open - low) ? [open, high, low, close] : [open, low, high, close];
+    this.now = 0;
+
+    for (let guard = 0; guard < 1000; guard++) {
+      const fills = this.collectFills(path);
+      if (fills.length === 0) break;
+      fills.sort((a, b) => a.time - b.time || a.priority - b.priority);
+      const next = fills[0];
+      this.now = next.time;
+      next.apply(next.price);
+      this.pruneExits();
+    }
+  }
+
+  /** Fill on-close orders, track excursions and trailing stops, and mark equity */
+  onBarClose() {
+    const { high, low, close } = this.bar;
+    if (this.processOnClose) {
+      this.now = 3;
+      this.pending
+        .filter(o => isNa(o.limit) && isNa(o.stop))
+        .sort((a, b) => a.seq - b.seq)
+        .forEach(order => this.fillPending(order, close));
+      this.pruneExits();
+    }
+
+    this.entries.forEach(entry => {
+      entry.highest = Math.max(entry.highest, high);
+      entry.lowest = Math.min(entry.lowest, low);
+      this.exits.forEach(exit => {
+        if (!this.exitApplies(exit, entry)) return;
+        this.updateTrail(exit, entry, high, low);
+      });
+    });
+
+    const equity = this.equity;
+    this.equityCurve[this.runtime.bar] = equity;
+    if (equity > this.peakEquity) {
+      this.peakEquity = equity;
+      this.troughEquity = equity;
+    }
+    if (equity < this.troughEquity) this.troughEquity = equity;
+    this.maxDrawdown = Math.max(this.maxDrawdown, this.peakEquity - equity);
+    this.maxRunUp = Math.max(this.maxRunUp, equity - this.troughEquity);
+  }
+
+  private collectFills(path: number[]): Fill[] {
+    const fills: Fill[] = [];
+    const slip = this.slippageTicks * this.tick;
+    const currentBar = this.runtime.bar;
+
+    this.pending.forEach(order => {
+      if (order.placedBar >= currentBar) return;
+      const s = sign(order.direction);
+      if (order.kind === 'close') {
+        fills.push({ time: this.now, price: path[0] - s * slip, priority: 0, apply: price => this.fillPending(order, price) });
+        return;
+      }
+      const buying = order.direction === 'long';
+      const hasLimit = !isNa(order.limit);
+      const hasStop = !isNa(order.stop);
+      if (!hasLimit && !hasStop) {
+        fills.push({ time: this.now, price: path[0] + s * slip, priority: 1, apply: price => this.fillPending(order, price) });
+        return;
+      }
+      if (hasStop) {
+        const triggered = reach(path, this.now, order.stop, buying ? 'above' : 'below');
+        if (!triggered) return;
+        if (!hasLimit) {
+          fills.push({ time: triggered.time, price: triggered.price + s * slip, priority: 1, apply: price => this.fillPending(order, price) });
+          return;
+        }
+        // Stop-limit: once the stop triggers the order rests as a limit
+        const limited = reach(path, triggered.time, order.limit, buying ? 'below' : 'above');
+        if (limited) fills.push({ time: limited.time, price: limited.price, priority: 1, apply: price => this.fillPending(order, price) });
+        return;
+      }
+      const limited = reach(path, this.now, order.limit, buying ? 'below' : 'above');
+      if (limited) fills.push({ time: limited.time, price: limited.price, priority: 1, apply: price => this.fillPending(order, price) });
+    });
+
+    this.exits.forEach(exit => {
+      this.entries.forEach(entry => {
+        if (!this.exitApplies(exit, entry) || exit.done.has(entry.seq)) return;
+        const { limit, stop } = this.exitLevels(exit, entry);
+        const long = entry.direction === 'long';
+        const apply = (label: string) => (price: number) => {
+          exit.done.add(entry.seq);
+          const qty = isNa(exit.qty) ? (entry.qty * exit.qtyPercent) / 100 : Math.min(exit.qty, entry.qty);
+          this.closeEntries([{ entry, qty }], price, exit.id, exit.comment ?? label, stop, limit);
+        };
+        const take = reach(path, this.now, limit, long ? 'above' : 'below');
+        if (take) fills.push({ time: take.time, price: take.price, priority: 2, apply: apply('TP') });
+        const stopped = reach(path, this.now, stop, long ? 'below' : 'above');
+        if (stopped) {
+          fills.push({ time: stopped.time, price: stopped.price - sign(entry.direction) * slip, priority: 2, apply: apply('SL') });
+        }
+      });
+    });
+
+    return fills;
+  }
+
+  private exitApplies(exit: ExitOrder, entry: OpenEntry): boolean {
+    return exit.fromEntry === '' || exit.fromEntry === entry.id;
+  }
+
+  private exitLevels(exit: ExitOrder, entry: OpenEntry): { limit: number; stop: number } {
+    const s = sign(entry.direction);
+    const limit = !isNa(exit.limit) ? exit.limit : !isNa(exit.profit) ? entry.price + s * exit.profit * this.tick : NaN;
+    let stop = !isNa(exit.stop) ? exit.stop : !isNa(exit.loss) ? entry.price - s * exit.loss * this.tick : NaN;
+    const trail = this.trails.get(`${exit.id}:${entry.seq}`);
+    if (trail?.active) {
+      const trailStop = trail.extreme - s * exit.trailOffset * this.tick;
+      stop = isNa(stop) ? trailStop : s > 0 ? Math.max(stop, trailStop) : Math.min(stop, trailStop);
+    }
+    return { limit, stop };
+  }
+
+  private updateTrail(exit: ExitOrder, entry: OpenEntry, high: number, low: number) {
+    if (isNa(exit.trailOffset) || (isNa(exit.trailPrice) && isNa(exit.trailPoints))) return;
+    const s = sign(entry.direction);
+    const key = `${exit.id}:${entry.seq}`;
+    const activation = !isNa(exit.trailPrice) ? exit.trailPrice : entry.price + s * exit.trailPoints * this.tick;
+    const favorable = s > 0 ? high : low;
+    const trail = this.trails.get(key) ?? { active: false, extreme: favorable };
+    if (!trail.active && s * (favorable - activation) >= 0) trail.active = true;
+    trail.extreme = s > 0 ? Math.max(trail.extreme, high) : Math.min(trail.extreme, low);
+    this.trails.set(key, trail);
+  }
+
+  /** Drop exits whose entries are all gone, and exits waiting on nothing */
+  private pruneExits() {
+    this.exits.forEach((exit, id) => {
+      const open = this.entries.some(e => this.exitApplies(exit, e) && !exit.done.has(e.seq));
+      if (open) exit.attached = true;
+      else if (exit.attached) this.exits.delete(id);
+    });
+  }
+
+  // ---- FILLS ----
+
+  private fillPending(order: PendingOrder, price: number) {
+    this.pending = this.pending.filter(o => o !== order);
+
+    if (order.kind === 'close') {
+      const targets = this.entries.filter(e => order.id === '' || e.id === order.id);
+      this.closeEntries(this.takeQty(targets, order.qty, order.qtyPercent), price, order.id || 'Close all', order.comment);
+      return;
+    }
+
+    const opposite = this.entries.filter(e => e.direction !== order.direction);
+    const sameSide = this.entries.filter(e => e.direction === order.direction);
+    let qty = isNa(order.qty) ? this.defaultQty(price) : Math.abs(order.qty);
+    if (!(qty > 0)) return;
+
+    if (order.kind === 'entry') {
+      // strategy.entry reverses an opposite position and respects pyramiding
+      if (opposite.length > 0) {
+        this.closeEntries(opposite.map(entry => ({ entry, qty: entry.qty })), price, order.id, order.comment);
+      } else if (sameSide.length >= this.pyramiding) {
+        this.runtime.debug(`strategy.entry('${order.id}') ignored: pyramiding limit ${this.pyramiding} reached`);
+        return;
+      }
+    } else if (opposite.length > 0) {
+      // strategy.order nets against the opposite position first
+      const reduce = this.takeQty(opposite, qty, 100);
+      this.closeEntries(reduce, price, order.id, order.comment);
+      qty -= reduce.reduce((sum, r) => sum + r.qty, 0);
+      if (qty <= 1e-12) return;
+    }
+
+    const { high, low, timestamp } = this.bar;
+    this.entries.push({
+      seq: this.seq++,
+      id: order.id,
+      direction: order.direction,
+      qty,
+      price,
+      bar: this.runtime.bar,
+      time: timestamp,
+      commission: this.commission(price, qty),
+      highest: Math.max(price, this.now >= 3 ? price : high),
+      lowest: Math.min(price, this.now >= 3 ? price : low),
+      comment: order.comment,
+    });
+  }
+
+  private takeQty(targets: OpenEntry[], qty: number, qtyPercent: number): { entry: OpenEntry; qty: number }[] {
+    const total = targets.reduce((sum, e) => sum + e.qty, 0);
+    let remaining = isNa(qty) ? (total * (isNa(qtyPercent) ? 100 : qtyPercent)) / 100 : Math.min(Math.abs(qty), total);
+    const taken: { entry: OpenEntry; qty: number }[] = [];
+    for (const entry of targets) {
+      if (remaining <= 1e-12) break;
+      const part = Math.min(entry.qty, remaining);
+      taken.push({ entry, qty: part });
+      remaining -= part;
+    }
+    return taken;
+  }
+
+  private closeEntries(
+    targets: { entry: OpenEntry; qty: number }[],
+    price: number,
+    exitId: string,
+    comment?: string,
+    stopLoss?: number,
+    takeProfit?: number
+  ) {
+    const totalQty = targets.reduce((sum, t) => sum + t.qty, 0);
+    if (!(totalQty > 0)) return;
+    const exitFee = this.commission(price, totalQty);
+    const { timestamp } = this.bar;
+
+    targets.forEach(({ entry, qty }) => {
+      const share = qty / entry.qty;
+      const entryFee = entry.commission * share;
+      const fee = entryFee + (exitFee * qty) / totalQty;
+      const s = sign(entry.direction);
+      const profit = s * (price - entry.price) * qty - fee;
+      const best = s > 0 ? Math.max(entry.highest, price) : Math.min(entry.lowest, price);
+      const worst = s > 0 ? Math.min(entry.lowest, price) : Math.max(entry.highest, price);
+
+      this.closed.push({
+        entryId: entry.id,
+        exitId,
+        direction: entry.direction,
+        qty,
+        entryPrice: entry.price,
+        exitPrice: price,
+        entryBar: entry.bar,
+        exitBar: this.runtime.bar,
+        entryTime: entry.time,
+        exitTime: timestamp,
+        profit,
+        commission: fee,
+        mae: Math.max(0, s * (entry.price - worst) * qty),
+        mfe: Math.max(0, s * (best - entry.price) * qty),
+        stopLoss: stopLoss !== undefined && !isNa(stopLoss) ? stopLoss : undefined,
+        takeProfit: takeProfit !== undefined && !isNa(takeProfit) ? takeProfit : undefined,
+        comment: comment ?? entry.comment,
+      });
+
+      this.netProfit += profit;
+      if (profit > 0) this.grossProfit += profit;
+      else this.grossLoss += -profit;
+      entry.commission -= entryFee;
+      entry.qty -= qty;
+    });
+
+    this.entries = this.entries.filter(e => e.qty > 1e-12);
+  }
+
+  private defaultQty(price: number): number {
+    switch (this.qtyType) {
+      case 'cash':
+        return this.qtyValue / price;
+      case 'percent_of_equity':
+        return (this.equity * this.qtyValue) / 100 / price;
+      default:
+        return this.qtyValue;
+    }
+  }
+
+  private commission(price: number, qty: number): number {
+    switch (this.commissionType) {
+      case 'cash_per_contract':
+        return this.commissionValue * qty;
+      case 'cash_per_order':
+        return this.commissionValue;
+      default:
+        return (price * qty * this.commissionValue) / 100;
+    }
+  }
+
+  // ---- REPORT ----
+
+  report(): StrategyReport {
+    const symbol = this.runtime.options.symbol ?? 'CHART';
+    const timeframe = this.runtime.options.timeframe;
+    const toTrade = (t: ClosedTrade | null, open: OpenEntry | null, n: number): Trade => {
+      const direction = t?.direction ?? open!.direction;
+      const entryPrice = t?.entryPrice ?? open!.price;
+      const qty = t?.qty ?? open!.qty;
+      const entryTime = t?.entryTime ?? open!.time;
+      const exitTime = t?.exitTime;
+      const pnl = t ? t.profit : this.entryProfit(open!);
+      const notional = entryPrice * qty;
+      return {
+        id: `pine-${entryTime}-${n}`,
+        date: new Date(exitTime ?? entryTime).toISOString().slice(0, 10),
+        symbol,
+        side: direction === 'long' ? 'LONG' : 'SHORT',
+        type: 'STOCK',
+        entryPrice,
+        exitPrice: t?.exitPrice,
+        quantity: qty,
+        pnl,
+        pnlPercentage: notional > 0 ? (pnl / notional) * 100 : 0,
+        status: t ? 'CLOSED' : 'OPEN',
+        strategy: this.title,
+        notes: t?.comment ?? open?.comment,
+        tags: t ? [t.entryId, t.exitId] : [open!.id],
+        commission: t?.commission ?? open!.commission,
+        entryTime: new Date(entryTime).toISOString(),
+        exitTime: exitTime !== undefined ? new Date(exitTime).toISOString() : undefined,
+        holdingMinutes: exitTime !== undefined ? Math.round((exitTime - entryTime) / 60000) : undefined,
+        mae: t?.mae,
+        mfe: t?.mfe,
+        maePercent: t && notional > 0 ? (t.mae / notional) * 100 : undefined,
+        mfePercent: t && notional > 0 ? (t.mfe / notional) * 100 : undefined,
+        stopLoss: t?.stopLoss,
+        takeProfit: t?.takeProfit,
+        timeframe,
+      };
+    };
+
+    const trades = [
+      ...this.closed.map((t, i) => toTrade(t, null, i + 1)),
+      ...this.entries.map((e, i) => toTrade(null, e, this.closed.length + i + 1)),
+    ];
+
+    return {
+      title: this.title,
+      symbol,
+      currency: this.currency,
+      initialCapital: this.initialCapital,
+      netProfit: this.netProfit,
+      grossProfit: this.grossProfit,
+      grossLoss: this.grossLoss,
+      openProfit: this.openProfit,
+      maxDrawdown: this.maxDrawdown,
+      maxRunUp: this.maxRunUp,
+      positionSize: this.positionSize,
+      equity: this.equityCurve,
+      closedTrades: this.closed,
+      trades,
+    };
+  }
+}
+
+// ---- strategy.* BUILT-INS ----
+
+const broker = (ctx: BuiltinContext): StrategyBroker => {
+  const strategy = ctx.runtime.strategy;
+  if (!strategy) {
+    throw ctx.error('strategy.* functions can only be used in strategies', "Declare the script with strategy() instead of indicator()");
+  }
+  return strategy;
+};
+
+const direction = (ctx: BuiltinContext, value: unknown): Direction => {
+  const parsed = toDirection(value);
+  if (!parsed) throw ctx.error(`Invalid direction ${String(value)}`, 'Use strategy.long or strategy.short');
+  return parsed;
+};
+
+const optionalString = (value: unknown): string | undefined => (isNa(value) ? undefined : String(value));
+
+const ORDER_PARAMS = ['id', 'direction', 'qty', 'limit', 'stop', 'oca_name', 'oca_type', 'comment', 'alert_message', 'disable_alert'];
+
+const placeOrder = (kind: 'entry' | 'order') =>
+  builtin(ORDER_PARAMS, (ctx, id, dir, qty, limit, stop, ocaName, ocaType, comment) => {
+    broker(ctx).placeOrder(kind, String(id), direction(ctx, dir), num(qty), num(limit), num(stop), optionalString(comment));
+  });
+
+/** Closed-trade accessor: strategy.closedtrades.<name>(trade_num) */
+const closedTrade = (get: (t: ClosedTrade) => unknown) =>
+  builtin(['trade_num'], (ctx, n) => {
+    const trade = broker(ctx).closed[Math.floor(toNumber(n))];
+    return trade ? get(trade) : NaN;
+  });
+
+const openTrade = (get: (e: OpenEntry, b: StrategyBroker) => unknown) =>
+  builtin(['trade_num'], (ctx, n) => {
+    const b = broker(ctx);
+    const entry = b.openEntries[Math.floor(toNumber(n))];
+    return entry ? get(entry, b) : NaN;
+  });
+
+export const STRATEGY_FUNCTIONS: Record<string, BuiltinFunction> = {
+  'strategy.entry': placeOrder('entry'),
+  'strategy.order': placeOrder('order'),
+  'strategy.exit': builtin(
+    [
+      'id', 'from_entry', 'qty', 'qty_percent', 'profit', 'limit', 'loss', 'stop', 'trail_price', 'trail_points',
+      'trail_offset', 'oca_name', 'comment', 'comment_profit', 'comment_loss', 'comment_trailing', 'alert_message',
+      'alert_profit', 'alert_loss', 'alert_trailing', 'disable_alert',
+    ],
+    (ctx, id, fromEntry, qty, qtyPercent, profit, limit, loss, stop, trailPrice, trailPoints, trailOffset, ocaName, comment) => {
+      const exit = {
+        profit: num(profit), limit: num(limit), loss: num(loss), stop: num(stop),
+        trailPrice: num(trailPrice), trailPoints: num(trailPoints), trailOffset: num(trailOffset),
+      };
+      const hasTrail = !isNa(exit.trailOffset) && (!isNa(exit.trailPrice) || !isNa(exit.trailPoints));
+      if (isNa(exit.profit) && isNa(exit.limit) && isNa(exit.loss) && isNa(exit.stop) && !hasTrail) {
+        ctx.runtime.debug(`strategy.exit('${id}') has no price levels and is ignored`);
+        return;
+      }
+      broker(ctx).placeExit({
+        id: String(id),
+        fromEntry: isNa(fromEntry) ? '' : String(fromEntry),
+        qty: num(qty),
+        qtyPercent: isNa(num(qtyPercent)) ? 100 : num(qtyPercent),
+        ...exit,
+        comment: optionalString(comment),
+      });
+    }
+  ),
+  'strategy.close': builtin(
+    ['id', 'comment', 'qty', 'qty_percent', 'alert_message', 'immediately', 'disable_alert'],
+    (ctx, id, comment, qty, qtyPercent, alertMessage, immediately) => {
+      broker(ctx).close(String(id), num(qty), num(qtyPercent), optionalString(comment), immediately === true);
+    }
+  ),
+  'strategy.close_all': builtin(['comment', 'alert_message', 'immediately', 'disable_alert'], (ctx, comment, alertMessage, immediately) => {
+    broker(ctx).close('', NaN, 100, optionalString(comment), immediately === true);
+  }),
+  'strategy.cancel': builtin(['id'], (ctx, id) => broker(ctx).cancel(String(id))),
+  'strategy.cancel_all': builtin([], ctx => broker(ctx).cancel()),
+
+  'strategy.closedtrades.entry_price': closedTrade(t => t.entryPrice),
+  'strategy.closedtrades.exit_price': closedTrade(t => t.exitPrice),
+  'strategy.closedtrades.entry_bar_index': closedTrade(t => t.entryBar),
+  'strategy.closedtrades.exit_bar_index': closedTrade(t => t.exitBar),
+  'strategy.closedtrades.entry_time': closedTrade(t => t.entryTime),
+  'strategy.closedtrades.exit_time': closedTrade(t => t.exitTime),
+  'strategy.closedtrades.entry_id': closedTrade(t => t.entryId),
+  'strategy.closedtrades.exit_id': closedTrade(t => t.exitId),
+  'strategy.closedtrades.profit': closedTrade(t => t.profit),
+  'strategy.closedtrades.commission': closedTrade(t => t.commission),
+  'strategy.closedtrades.size': closedTrade(t => sign(t.direction) * t.qty),
+  'strategy.closedtrades.max_drawdown': closedTrade(t => t.mae),
+  'strategy.closedtrades.max_runup': closedTrade(t => t.mfe),
+  'strategy.opentrades.entry_price': openTrade(e => e.price),
+  'strategy.opentrades.entry_bar_index': openTrade(e => e.bar),
+  'strategy.opentrades.entry_time': openTrade(e => e.time),
+  'strategy.opentrades.entry_id': openTrade(e => e.id),
+  'strategy.opentrades.size': openTrade(e => sign(e.direction) * e.qty),
+  'strategy.opentrades.commission': openTrade(e => e.commission),
+  'strategy.opentrades.profit': openTrade((e, b) => b.entryProfit(e)),
+
+  'strategy.risk.allow_entry_in': builtin(['value'], ctx => ctx.runtime.debug('strategy.risk.* rules are not enforced')),
+  'strategy.risk.max_drawdown': builtin(['value', 'type', 'alert_message'], ctx => ctx.runtime.debug('strategy.risk.* rules are not enforced')),
+  'strategy.risk.max_position_size': builtin(['contracts'], ctx => ctx.runtime.debug('strategy.risk.* rules are not enforced')),
+};
+
+const state = (get: (b: StrategyBroker) => unknown) => statefulVariable(ctx => get(broker(ctx)));
+
+export const STRATEGY_VARIABLES: Record<string, BuiltinVariable> = {
+  'strategy.long': barVariable(() => 'long'),
+  'strategy.short': barVariable(() => 'short'),
+  'strategy.fixed': barVariable(() => 'fixed'),
+  'strategy.cash': barVariable(() => 'cash'),
+  'strategy.percent_of_equity': barVariable(() => 'percent_of_equity'),
+  'strategy.commission.percent': barVariable(() => 'percent'),
+  'strategy.commission.cash_per_contract': barVariable(() => 'cash_per_contract'),
+  'strategy.commission.cash_per_order': barVariable(() => 'cash_per_order'),
+  'strategy.direction.all': barVariable(() => 'all'),
+  'strategy.direction.long': barVariable(() => 'long'),
+  'strategy.direction.short': barVariable(() => 'short'),
+  'strategy.oca.none': barVariable(() => 'none'),
+  'strategy.oca.cancel': barVariable(() => 'cancel'),
+  'strategy.oca.reduce': barVariable(() => 'reduce'),
+
+  'strategy.position_size': state(b => b.positionSize),
+  'strategy.position_avg_price': state(b => b.positionAvgPrice),
+  'strategy.position_entry_name': state(b => b.positionEntryName),
+  'strategy.equity': state(b => b.equity),
+  'strategy.initial_capital': state(b => b.initialCapital),
+  'strategy.netprofit': state(b => b.netProfit),
+  'strategy.openprofit': state(b => b.openProfit),
+  'strategy.grossprofit': state(b => b.grossProfit),
+  'strategy.grossloss': state(b => b.grossLoss),
+  'strategy.max_drawdown': state(b => b.maxDrawdown),
+  'strategy.max_runup': state(b => b.maxRunUp),
+  'strategy.closedtrades': state(b => b.closed.length),
+  'strategy.opentrades': state(b => b.openEntries.length),
+  'strategy.wintrades': state(b => b.closed.filter(t => t.profit > 0).length),
+  'strategy.losstrades': state(b => b.closed.filter(t => t.profit < 0).length),
+  'strategy.eventrades': state(b => b.closed.filter(t => t.profit === 0).length),
+};
@@ -0,0 +1,567 @@
+// ============================================
+// Pine Script ta.* library
+// Bar-by-bar implementations: every function is called
+// once per bar and keeps its history per call site
+// ============================================
+
+import { BuiltinContext, BuiltinFunction, BuiltinVariable, builtin, statefulVariable } from './runtime';
+import { ExecutionBuffer, PineTuple, isNa, toNumber } from './values';
+
+const checkLength = (ctx: BuiltinContext, length: unknown, name = 'length'): number => {
+  const value = Math.floor(toNumber(length));
+  if (!(value >= 1)) {
+    throw ctx.error(`Invalid ${name} ${String(length)}`, `${name} must be a positive integer`);
+  }
+  return value;
+};
+
+const track = (ctx: BuiltinContext, name: string, value: unknown): ExecutionBuffer => {
+  const buffer = ctx.buffer(name);
+  buffer.set(toNumber(value));
+  return buffer;
+};
+
+const output = (ctx: BuiltinContext, value: number): number => {
+  ctx.buffer('out').set(value);
+  return value;
+};
+
+const bar = (ctx: BuiltinContext, offset = 0) => ctx.data[ctx.bar - offset];
+
+export const trueRange = (ctx: BuiltinContext, handleNa: boolean): number => {
+  const current = bar(ctx);
+  if (ctx.bar === 0) return handleNa ? current.high - current.low : NaN;
+  const prevClose = bar(ctx, 1).close;
+  return Math.max(current.high - current.low, Math.abs(current.high - prevClose), Math.abs(current.low - prevClose));
+};
+
+// ---- MOVING AVERAGES ----
+
+export const sma = (ctx: BuiltinContext, source: unknown, length: unknown): number => {
+  const values = track(ctx, 'src', source).window(checkLength(ctx, length));
+  if (!values) return NaN;
+  let sum = 0;
+  for (const v of values) sum += v;
+  return sum / values.length;
+};
+
+const smoothed = (ctx: BuiltinContext, source: unknown, length: unknown, alpha: number): number => {
+  const out = ctx.buffer('out');
+  const prev = out.get(1);
+  const seed = sma(ctx.sub('seed'), source, length);
+  const value = isNa(prev) ? seed : alpha * toNumber(source) + (1 - alpha) * prev;
+  out.set(value);
+  return value;
+};
+
+export const ema = (ctx: BuiltinContext, source: unknown, length: unknown): number =>
+  smoothed(ctx, source, length, 2 / (checkLength(ctx, length) + 1));
+
+export const rma = (ctx: BuiltinContext, source: unknown, length: unknown): number =>
+  smoothed(ctx, source, length, 1 / checkLength(ctx, length));
+
+export const wma = (ctx: BuiltinContext, source: unknown, length: unknown): number => {
+  const values = track(ctx, 'src', source).window(checkLength(ctx, length));
+  if (!values) return NaN;
+  let sum = 0;
+  let norm = 0;
+  values.forEach((v, i) => {
+    sum += v * (i + 1);
+    norm += i + 1;
+  });
+  return sum / norm;
+};
+
+const stdevOf = (values: number[], biased: boolean): number => {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const squares = values.reduce((a, b) => a + (b - mean) ** 2, 0);
+  const divisor = biased ? values.length : values.length - 1;
+  return divisor > 0 ? Math.sqrt(squares / divisor) : NaN;
+};
+
+export const stdev = (ctx: BuiltinContext, source: unknown, length: unknown, biased: unknown = true): number => {
+  const values = track(ctx, 'src', source).window(checkLength(ctx, length));
+  return values ? stdevOf(values, biased !== false) : NaN;
+};
+
+export const highest = (ctx: BuiltinContext, source: unknown, length: unknown): number => {
+  const values = track(ctx, 'src', source).window(checkLength(ctx, length));
+  if (!values) return NaN;
+  const valid = values.filter(v => !isNa(v));
+  return valid.length ? Math.max(...valid) : NaN;
+};
+
+export const lowest = (ctx: BuiltinContext, source: unknown, length: unknown): number => {
+  const values = track(ctx, 'src', source).window(checkLength(ctx, length));
+  if (!values) return NaN;
+  const valid = values.filter(v => !isNa(v));
+  return valid.length ? Math.min(...valid) : NaN;
+};
+
+const windowSum = (ctx: BuiltinContext, source: unknown, length: unknown): number => {
+  const values = track(ctx, 'src', source).window(checkLength(ctx, length));
+  return values ? values.reduce((a, b) => a + b, 0) : NaN;
+};
+
+const change = (ctx: BuiltinContext, source: unknown, length: unknown = 1): number | boolean => {
+  const buffer = track(ctx, 'src', source);
+  const diff = buffer.get(0) - buffer.get(Math.floor(toNumber(length)));
+  return typeof source === 'boolean' ? !isNa(diff) && diff !== 0 : diff;
+};
+
+/** `ta.highest(10)` uses `high` as the source, `ta.highest(src, 10)` is explicit */
+const withDefaultSource = (
+  fn: (ctx: BuiltinContext, source: unknown, length: unknown) => number,
+  field: 'high' | 'low'
+) => (ctx: BuiltinContext, a: unknown, b: unknown) =>
+  b === undefined ? fn(ctx, bar(ctx)[field], a) : fn(ctx, a, b);
+
+const barsToExtreme = (ctx: BuiltinContext, source: unknown, length: unknown, pick: 'max' | 'min'): number => {
+  const values = track(ctx, 'src', source).window(checkLength(ctx, length));
+  if (!values) return NaN;
+  let best = -1;
+  values.forEach((v, i) => {
+    if (isNa(v)) return;
+    if (best < 0 || (pick === 'max' ? v >= values[best] : v <= values[best])) best = i;
+  });
+  return best < 0 ? NaN : -(values.length - 1 - best);
+};
+
+const pivot = (ctx: BuiltinContext, args: unknown[], field: 'high' | 'low', isHigh: boolean): number => {
+  const [source, left, right] = args[2] === undefined ? [bar(ctx)[field], args[0], args[1]] : args;
+  const leftBars = Math.floor(toNumber(left));
+  const rightBars = Math.floor(toNumber(right));
+  const values = track(ctx, 'src', source).window(leftBars + rightBars + 1);
+  if (!values) return NaN;
+  const center = values[leftBars];
+  if (isNa(center)) return NaN;
+  const isPivot = values.every((v, i) => i === leftBars || (isHigh ? v < center : v > center));
+  return isPivot ? center : NaN;
+};
+
+// ---- OSCILLATORS ----
+
+const rsi = (ctx: BuiltinContext, source: unknown, length: unknown): number => {
+  const src = track(ctx, 'src', source);
+  const diff = src.get(0) - src.get(1);
+  const up = rma(ctx.sub('up'), isNa(diff) ? NaN : Math.max(diff, 0), length);
+  const down = rma(ctx.sub('down'), isNa(diff) ? NaN : Math.max(-diff, 0), length);
+  if (isNa(up) || isNa(down)) return NaN;
+  if (down === 0) return 100;
+  if (up === 0) return 0;
+  return 100 - 100 / (1 + up / down);
+};
+
+const cross = (ctx: BuiltinContext, a: unknown, b: unknown, direction: 'over' | 'under' | 'any'): boolean => {
+  const first = track(ctx, 'a', a);
+  const second = track(ctx, 'b', b);
+  const [cur1, prev1, cur2, prev2] = [first.get(0), first.get(1), second.get(0), second.get(1)];
+  if ([cur1, prev1, cur2, prev2].some(isNa)) return false;
+  const over = cur1 > cur2 && prev1 <= prev2;
+  const under = cur1 < cur2 && prev1 >= prev2;
+  return direction === 'over' ? over : direction === 'under' ? under : over || under;
+};
+
+const meanDeviation = (ctx: BuiltinContext, source: unknown, length: unknown): number => {
+  const values = track(ctx, 'src', source).window(checkLength(ctx, length));
+  if (!values) return NaN;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return values.reduce((a, b) => a + Math.abs(b - mean), 0) / values.length;
+};
+
+const atr = (ctx: BuiltinContext, length: unknown): number => rma(ctx.sub('rma'), trueRange(ctx, true), length);
+
+const dmi = (ctx: BuiltinContext, diLength: unknown, adxSmoothing: unknown): PineTuple => {
+  const current = bar(ctx);
+  const previous = ctx.bar > 0 ? bar(ctx, 1) : undefined;
+  const up = previous ? current.high - previous.high : NaN;
+  const down = previous ? previous.low - current.low : NaN;
+  const plusDM = isNa(up) ? NaN : up > down && up > 0 ? up : 0;
+  const minusDM = isNa(down) ? NaN : down > up && down > 0 ? down : 0;
+  const range = rma(ctx.sub('tr'), trueRange(ctx, false), diLength);
+  const plus = (100 * rma(ctx.sub('plus'), plusDM, diLength)) / range;
+  const minus = (100 * rma(ctx.sub('minus'), minusDM, diLength)) / range;
+  const sum = plus + minus;
+  const adx = 100 * rma(ctx.sub('adx'), Math.abs(plus - minus) / (sum === 0 ? 1 : sum), adxSmoothing);
+  return new PineTuple([plus, minus, adx]);
+};
+
+const supertrend = (ctx: BuiltinContext, factor: unknown, atrPeriod: unknown): PineTuple => {
+  const current = bar(ctx);
+  const mult = toNumber(factor);
+  const atrValue = track(ctx, 'atr', atr(ctx.sub('atr'), atrPeriod));
+  const src = (current.high + current.low) / 2;
+  const prevClose = ctx.bar > 0 ? bar(ctx, 1).close : NaN;
+
+  const lowerBuf = ctx.buffer('lower');
+  const upperBuf = ctx.buffer('upper');
+  const stBuf = ctx.buffer('st');
+  const prevLower = lowerBuf.get(1);
+  const prevUpper = upperBuf.get(1);
+  const prevSt = stBuf.get(1);
+
+  let lower = src - mult * atrValue.get(0);
+  let upper = src + mult * atrValue.get(0);
+  lower = lower > prevLower || prevClose < prevLower || isNa(prevLower) ? lower : prevLower;
+  upper = upper < prevUpper || prevClose > prevUpper || isNa(prevUpper) ? upper : prevUpper;
+
+  let direction: number;
+  if (isNa(atrValue.get(1))) direction = 1;
+  else if (prevSt === prevUpper) direction = current.close > upper ? -1 : 1;
+  else direction = current.close < lower ? 1 : -1;
+
+  const value = direction === -1 ? lower : upper;
+  lowerBuf.set(lower);
+  upperBuf.set(upper);
+  stBuf.set(value);
+  return new PineTuple([value, direction]);
+};
+
+interface SarState {
+  result: number;
+  maxMin: number;
+  acceleration: number;
+  isBelow: boolean;
+}
+
+/** Parabolic SAR, following the reference implementation in the Pine manual */
+const sar = (ctx: BuiltinContext, start: unknown, inc: unknown, max: unknown): number => {
+  const memo = ctx.state<{ bar: number; previous: SarState | null; current: SarState | null }>(() => ({
+    bar: -1,
+    previous: null,
+    current: null,
+  }));
+  if (memo.bar !== ctx.bar) {
+    memo.previous = memo.current;
+    memo.bar = ctx.bar;
+  }
+  if (ctx.bar === 0) {
+    memo.current = null;
+    return NaN;
+  }
+
+  const [s, step, cap] = [toNumber(start), toNumber(inc), toNumber(max)];
+  const current = bar(ctx);
+  const prev1 = bar(ctx, 1);
+  const prev2 = ctx.bar > 1 ? bar(ctx, 2) : undefined;
+  let isFirstTrendBar = false;
+  let state: SarState;
+
+  if (!memo.previous) {
+    const rising = current.close > prev1.close;
+    state = {
+      isBelow: rising,
+      maxMin: rising ? current.high : current.low,
+      result: rising ? prev1.low : prev1.high,
+      acceleration: s,
+    };
+    isFirstTrendBar = true;
+  } else {
+    state = { ...memo.previous };
+  }
+
+  state.result = state.result + state.acceleration * (state.maxMin - state.result);
+
+  if (state.isBelow) {
+    if (state.result > current.low) {
+      isFirstTrendBar = true;
+      state.isBelow = false;
+      state.result = Math.max(current.high, state.maxMin);
+      state.maxMin = current.low;
+      state.acceleration = s;
+    }
+  } else if (state.result < current.high) {
+    isFirstTrendBar = true;
+    state.isBelow = true;
+    state.result = Math.min(current.low, state.maxMin);
+    state.maxMin = current.high;
+    state.acceleration = s;
+  }
+
+  if (!isFirstTrendBar) {
+    if (state.isBelow && current.high > state.maxMin) {
+      state.maxMin = current.high;
+      state.acceleration = Math.min(state.acceleration + step, cap);
+    } else if (!state.isBelow && current.low < state.maxMin) {
+      state.maxMin = current.low;
+      state.acceleration = Math.min(state.acceleration + step, cap);
+    }
+  }
+
+  if (state.isBelow) {
+    state.result = Math.min(state.result, prev1.low, prev2 ? prev2.low : Infinity);
+  } else {
+    state.result = Math.max(state.result, prev1.high, prev2 ? prev2.high : -Infinity);
+  }
+
+  memo.current = state;
+  return state.result;
+};
+
+const vwap = (ctx: BuiltinContext, source: unknown, anchor?: unknown): number => {
+  const current = bar(ctx);
+  const memo = ctx.state(() => ({ bar: -1, sumPV: 0, sumV: 0, prevPV: 0, prevV: 0, prevDay: '' }));
+  if (memo.bar !== ctx.bar) {
+    const day = new Date(current.timestamp).toISOString().slice(0, 10);
+    const reset = anchor === undefined ? day !== memo.prevDay : anchor === true;
+    memo.prevPV = reset ? 0 : memo.sumPV;
+    memo.prevV = reset ? 0 : memo.sumV;
+    memo.prevDay = day;
+    memo.bar = ctx.bar;
+  }
+  const price = toNumber(source);
+  memo.sumPV = memo.prevPV + price * current.volume;
+  memo.sumV = memo.prevV + current.volume;
+  return memo.sumV > 0 ? memo.sumPV / memo.sumV : price;
+};
+
+const cumulative = (ctx: BuiltinContext, value: unknown): number => {
+  const out = ctx.buffer('out');
+  const prev = out.get(1);
+  const next = (isNa(prev) ? 0 : prev) + (isNa(value) ? 0 : toNumber(value));
+  out.set(next);
+  return next;
+};
+
+const linreg = (ctx: BuiltinContext, source: unknown, length: unknown, offset: unknown = 0): number => {
+  const values = track(ctx, 'src', source).window(checkLength(ctx, length));
+  if (!values) return NaN;
+  const n = values.length;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXY = 0;
+  let sumXX = 0;
+  values.forEach((y, x) => {
+    sumX += x;
+    sumY += y;
+    sumXY += x * y;
+    sumXX += x * x;
+  });
+  const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX || 1);
+  const intercept = (sumY - slope * sumX) / n;
+  return intercept + slope * (n - 1 - toNumber(offset));
+};
+
+const correlation = (ctx: BuiltinContext, a: unknown, b: unknown, length: unknown): number => {
+  const len = checkLength(ctx, length);
+  const xs = track(ctx, 'a', a).window(len);
+  const ys = track(ctx, 'b', b).window(len);
+  if (!xs || !ys) return NaN;
+  const meanX = xs.reduce((s, v) => s + v, 0) / len;
+  const meanY = ys.reduce((s, v) => s + v, 0) / len;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < len; i++) {
+    cov += (xs[i] - meanX) * (ys[i] - meanY);
+    varX += (xs[i] - meanX) ** 2;
+    varY += (ys[i] - meanY) ** 2;
+  }
+  return cov / Math.sqrt(varX * varY);
+};
+
+// ---- REGISTRY ----
+
+export const TA_FUNCTIONS: Record<string, BuiltinFunction> = {
+  'ta.sma': builtin(['source', 'length'], sma),
+  'ta.ema': builtin(['source', 'length'], ema),
+  'ta.rma': builtin(['source', 'length'], rma),
+  'ta.wma': builtin(['source', 'length'], wma),
+  'ta.vwma': builtin(['source', 'length'], (ctx, source, length) => {
+    const volume = bar(ctx).volume;
+    return sma(ctx.sub('pv'), toNumber(source) * volume, length) / sma(ctx.sub('v'), volume, length);
+  }),
+  'ta.swma': builtin(['source'], (ctx, source) => {
+    const values = track(ctx, 'src', source).window(4);
+    return values ? (values[0] + 2 * values[1] + 2 * values[2] + values[3]) / 6 : NaN;
+  }),
+  'ta.hma': builtin(['source', 'length'], (ctx, source, length) => {
+    const len = checkLength(ctx, length);
+    const half = wma(ctx.sub('half'), source, Math.max(1, Math.floor(len / 2)));
+    const full = wma(ctx.sub('full'), source, len);
+    return wma(ctx.sub('hull'), 2 * half - full, Math.max(1, Math.floor(Math.sqrt(len))));
+  }),
+  'ta.alma': builtin(['series', 'length', 'offset', 'sigma', 'floor'], (ctx, source, length, offset = 0.85, sigma = 6, floor = false) => {
+    const len = checkLength(ctx, length);
+    const values = track(ctx, 'src', source).window(len);
+    if (!values) return NaN;
+    const m = floor ? Math.floor(toNumber(offset) * (len - 1)) : toNumber(offset) * (len - 1);
+    const s = len / toNumber(sigma);
+    let norm = 0;
+    let sum = 0;
+    values.forEach((v, i) => {
+      const weight = Math.exp(-((i - m) ** 2) / (2 * s * s));
+      norm += weight;
+      sum += v * weight;
+    });
+    return sum / norm;
+  }),
+  'ta.stdev': builtin(['source', 'length', 'biased'], stdev),
+  'ta.variance': builtin(['source', 'length', 'biased'], (ctx, source, length, biased = true) => {
+    const sd = stdev(ctx, source, length, biased);
+    return sd * sd;
+  }),
+  'ta.dev': builtin(['source', 'length'], meanDeviation),
+  'ta.median': builtin(['source', 'length'], (ctx, source, length) => {
+    const values = track(ctx, 'src', source).window(checkLength(ctx, length));
+    if (!values) return NaN;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  }),
+  'ta.range': builtin(['source', 'length'], (ctx, source, length) =>
+    highest(ctx.sub('hi'), source, length) - lowest(ctx.sub('lo'), source, length)
+  ),
+  'ta.percentrank': builtin(['source', 'length'], (ctx, source, length) => {
+    const len = checkLength(ctx, length);
+    const values = track(ctx, 'src', source).window(len + 1);
+    if (!values) return NaN;
+    const current = values[len];
+    return (values.slice(0, len).filter(v => v <= current).length / len) * 100;
+  }),
+  'ta.linreg': builtin(['source', 'length', 'offset'], linreg),
+  'ta.correlation': builtin(['source1', 'source2', 'length'], correlation),
+
+  'ta.highest': builtin(['source', 'length'], withDefaultSource(highest, 'high')),
+  'ta.lowest': builtin(['source', 'length'], withDefaultSource(lowest, 'low')),
+  'ta.highestbars': builtin(['source', 'length'], withDefaultSource((ctx, s, l) => barsToExtreme(ctx, s, l, 'max'), 'high')),
+  'ta.lowestbars': builtin(['source', 'length'], withDefaultSource((ctx, s, l) => barsToExtreme(ctx, s, l, 'min'), 'low')),
+  'ta.pivothigh': builtin(['source', 'leftbars', 'rightbars'], (ctx, ...args) => pivot(ctx, args, 'high', true)),
+  'ta.pivotlow': builtin(['source', 'leftbars', 'rightbars'], (ctx, ...args) => pivot(ctx, args, 'low', false)),
+
+  'ta.change': builtin(['source', 'length'], change),
+  'ta.mom': builtin(['source', 'length'], (ctx, source, length) => change(ctx, source, length)),
+  'ta.roc': builtin(['source', 'length'], (ctx, source, length) => {
+    const buffer = track(ctx, 'src', source);
+    const prev = buffer.get(checkLength(ctx, length));
+    return (100 * (buffer.get(0) - prev)) / prev;
+  }),
+  'ta.rising': builtin(['source', 'length'], (ctx, source, length) => {
+    const len = checkLength(ctx, length);
+    const values = track(ctx, 'src', source).window(len + 1);
+    return values ? values.slice(0, len).every(v => values[len] > v) : false;
+  }),
+  'ta.falling': builtin(['source', 'length'], (ctx, source, length) => {
+    const len = checkLength(ctx, length);
+    const values = track(ctx, 'src', source).window(len + 1);
+    return values ? values.slice(0, len).every(v => values[len] < v) : false;
+  }),
+  'ta.cum': builtin(['source'], cumulative),
+  'ta.max': builtin(['source'], (ctx, source) => {
+    const out = ctx.buffer('out');
+    const prev = out.get(1);
+    const value = toNumber(source);
+    return output(ctx, isNa(prev) ? value : isNa(value) ? prev : Math.max(prev, value));
+  }),
+  'ta.min': builtin(['source'], (ctx, source) => {
+    const out = ctx.buffer('out');
+    const prev = out.get(1);
+    const value = toNumber(source);
+    return output(ctx, isNa(prev) ? value : isNa(value) ? prev : Math.min(prev, value));
+  }),
+  'ta.barssince': builtin(['condition'], (ctx, condition) => {
+    const out = ctx.buffer('out');
+    const prev = out.get(1);
+    return output(ctx, condition === true ? 0 : isNa(prev) ? NaN : prev + 1);
+  }),
+  'ta.valuewhen': builtin(['condition', 'source', 'occurrence'], (ctx, condition, source, occurrence = 0) => {
+    const memo = ctx.state(() => ({ bar: -1, values: [] as unknown[] }));
+    if (condition === true) {
+      if (memo.bar === ctx.bar) memo.values[memo.values.length - 1] = source;
+      else memo.values.push(source);
+      memo.bar = ctx.bar;
+    }
+    const index = memo.values.length - 1 - Math.floor(toNumber(occurrence));
+    return index >= 0 ? memo.values[index] : NaN;
+  }),
+
+  'ta.crossover': builtin(['source1', 'source2'], (ctx, a, b) => cross(ctx, a, b, 'over')),
+  'ta.crossunder': builtin(['source1', 'source2'], (ctx, a, b) => cross(ctx, a, b, 'under')),
+  'ta.cross': builtin(['source1', 'source2'], (ctx, a, b) => cross(ctx, a, b, 'any')),
+
+  'ta.rsi': builtin(['source', 'length'], rsi),
+  'ta.cci': builtin(['source', 'length'], (ctx, source, length) => {
+    const ma = sma(ctx.sub('ma'), source, length);
+    const dev = meanDeviation(ctx.sub('dev'), source, length);
+    return (toNumber(source) - ma) / (0.015 * dev);
+  }),
+  'ta.cmo': builtin(['series', 'length'], (ctx, source, length) => {
+    const src = track(ctx, 'src', source);
+    const diff = src.get(0) - src.get(1);
+    const gains = windowSum(ctx.sub('up'), diff >= 0 ? diff : 0, length);
+    const losses = windowSum(ctx.sub('down'), diff >= 0 ? 0 : -diff, length);
+    return (100 * (gains - losses)) / (gains + losses);
+  }),
+  'ta.mfi': builtin(['series', 'length'], (ctx, source, length) => {
+    const src = track(ctx, 'src', source);
+    const diff = src.get(0) - src.get(1);
+    const flow = bar(ctx).volume * src.get(0);
+    const upper = windowSum(ctx.sub('up'), diff <= 0 ? 0 : flow, length);
+    const lower = windowSum(ctx.sub('down'), diff >= 0 ? 0 : flow, length);
+    return 100 - 100 / (1 + upper / lower);
+  }),
+  'ta.tsi': builtin(['source', 'short_length', 'long_length'], (ctx, source, shortLength, longLength) => {
+    const src = track(ctx, 'src', source);
+    const diff = src.get(0) - src.get(1);
+    const smooth = (name: string, value: number) =>
+      ema(ctx.sub(`${name}2`), ema(ctx.sub(`${name}1`), value, longLength), shortLength);
+    return smooth('pc', diff) / smooth('apc', Math.abs(diff));
+  }),
+  'ta.stoch': builtin(['source', 'high', 'low', 'length'], (ctx, source, high, low, length) => {
+    const hh = highest(ctx.sub('hh'), high, length);
+    const ll = lowest(ctx.sub('ll'), low, length);
+    return (100 * (toNumber(source) - ll)) / (hh - ll);
+  }),
+  'ta.wpr': builtin(['length'], (ctx, length) => {
+    const hh = highest(ctx.sub('hh'), bar(ctx).high, length);
+    const ll = lowest(ctx.sub('ll'), bar(ctx).low, length);
+    return (100 * (bar(ctx).close - hh)) / (hh - ll);
+  }),
+  'ta.macd': builtin(['source', 'fastlen', 'slowlen', 'siglen'], (ctx, source, fast, slow, signal) => {
+    const macd = ema(ctx.sub('fast'), source, fast) - ema(ctx.sub('slow'), source, slow);
+    const sig = ema(ctx.sub('signal'), macd, signal);
+    return new PineTuple([macd, sig, macd - sig]);
+  }),
+  'ta.bb': builtin(['series', 'length', 'mult'], (ctx, source, length, mult) => {
+    const basis = sma(ctx.sub('basis'), source, length);
+    const dev = toNumber(mult) * stdev(ctx.sub('dev'), source, length);
+    return new PineTuple([basis, basis + dev, basis - dev]);
+  }),
+  'ta.bbw': builtin(['series', 'length', 'mult'], (ctx, source, length, mult) => {
+    const basis = sma(ctx.sub('basis'), source, length);
+    const dev = toNumber(mult) * stdev(ctx.sub('dev'), source, length);
+    return (2 * dev) / basis;
+  }),
+  'ta.kc': builtin(['series', 'length', 'mult', 'useTrueRange'], (ctx, source, length, mult, useTrueRange = true) => {
+    const basis = ema(ctx.sub('basis'), source, length);
+    const current = bar(ctx);
+    const range = useTrueRange ? trueRange(ctx, false) : current.high - current.low;
+    const width = ema(ctx.sub('range'), range, length) * toNumber(mult);
+    return new PineTuple([basis, basis + width, basis - width]);
+  }),
+  'ta.atr': builtin(['length'], atr),
+  'ta.tr': builtin(['handle_na'], (ctx, handleNa = false) => trueRange(ctx, handleNa === true)),
+  'ta.dmi': builtin(['diLength', 'adxSmoothing'], dmi),
+  'ta.supertrend': builtin(['factor', 'atrPeriod'], supertrend),
+  'ta.sar': builtin(['start', 'inc', 'max'], sar),
+  'ta.vwap': builtin(['source', 'anchor'], vwap),
+
+  'math.sum': builtin(['source', 'length'], windowSum),
+};
+
+export const TA_VARIABLES: Record<string, BuiltinVariable> = {
+  'ta.tr': statefulVariable(ctx => trueRange(ctx, false)),
+  'ta.vwap': statefulVariable(ctx => {
+    const current = bar(ctx);
+    return vwap(ctx, (current.high + current.low + current.close) / 3);
+  }),
+  'ta.obv': statefulVariable(ctx => {
+    const diff = ctx.bar > 0 ? bar(ctx).close - bar(ctx, 1).close : NaN;
+    return cumulative(ctx, isNa(diff) ? 0 : Math.sign(diff) * bar(ctx).volume);
+  }),
+  'ta.accdist': statefulVariable(ctx => {
+    const { high, low, close, volume } = bar(ctx);
+    const mfm = high === low ? 0 : (close - low - (high - close)) / (high - low);
+    return cumulative(ctx, mfm * volume);
+  }),
+};
@@ -0,0 +1,107 @@
+// ============================================
+// Pine Script runtime values
+// Series storage, tuples, user-defined objects
+// ============================================
+
+/** Pine's `na` is represented as NaN (or a missing value) */
+export const NA = NaN;
+
+export const isNa = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'number' && Number.isNaN(value));
+
+export const nz = (value: unknown, replacement: number = 0) => (isNa(value) ? replacement : value);
+
+export const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (isNa(value)) return NaN;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? NaN : parsed;
+};
+
+export const toBool = (value: unknown): boolean => {
+  if (isNa(value)) return false;
+  return Boolean(value);
+};
+
+/** Multiple return values of a function, destructured with `[a, b] = f()` */
+export class PineTuple {
+  constructor(public readonly items: unknown[]) {}
+}
+
+/** Instance of a user-defined `type` */
+export class PineObject {
+  constructor(
+    public readonly typeName: string,
+    public readonly fields: Record<string, unknown>
+  ) {}
+}
+
+/**
+ * Bar-indexed history of a script variable.
+ * `var` series carry their last value forward on bars where they were not assigned.
+ */
+export class Series {
+  private values: unknown[] = [];
+  private lastValue: unknown = NA;
+  initialized = false;
+
+  constructor(public readonly persistent: boolean) {}
+
+  set(bar: number, value: unknown) {
+    this.values[bar] = value;
+    this.lastValue = value;
+  }
+
+  /** Value `offset` bars back from `bar` */
+  get(bar: number, offset: number = 0): unknown {
+    let index = bar - offset;
+    if (index < 0) return NA;
+    let value = this.values[index];
+    if (value === undefined && this.persistent) {
+      while (index > 0 && value === undefined) value = this.values[--index];
+    }
+    return value === undefined ? NA : value;
+  }
+
+  get last(): unknown {
+    return this.lastValue;
+  }
+}
+
+/**
+ * Per-execution history used by built-in functions: one slot per bar on which the
+ * call site ran. Calling again on the same bar overwrites the current slot.
+ */
+export class ExecutionBuffer {
+  private values: number[] = [];
+  private lastBar = -1;
+
+  advance(bar: number): this {
+    if (bar !== this.lastBar) {
+      this.values.push(NaN);
+      this.lastBar = bar;
+    }
+    return this;
+  }
+
+  set(value: number) {
+    this.values[this.values.length - 1] = value;
+  }
+
+  /** Value `offset` executions back (0 = current) */
+  get(offset: number = 0): number {
+    const index = this.values.length - 1 - offset;
+    return index >= 0 ? this.values[index] : NaN;
+  }
+
+  get length(): number {
+    return this.values.length;
+  }
+
+  /** The last `length` values, oldest first, or null while there is not enough history */
+  window(length: number): number[] | null {
+    if (length <= 0 || this.values.length < length) return null;
+    return this.values.slice(this.values.length - length);
+  }
+}
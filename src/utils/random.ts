@@ -0,0 +1,26 @@
+// Seedable random numbers for reproducible simulations and parameter searches
+
+// mulberry32: small, fast and good enough to make searches reproducible
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Independent seed for stream `index` of a run, so path i gets the same numbers
+ * however the paths are split across workers (murmur3 finalizer).
+ */
+export function deriveSeed(seed: number, index: number): number {
+  let h = (seed ^ Math.imul(index + 1, 0x9e3779b1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
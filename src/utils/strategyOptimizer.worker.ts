@@ -0,0 +1,21 @@
+// Strategy Optimizer worker - runs parameter searches off the chart's UI thread
+
+import { optimizeStrategy, type OptimizerConfig, type OptimizerWorkerMessage } from './StrategyOptimizer';
+
+const post = (message: OptimizerWorkerMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<OptimizerConfig>) => {
+  let lastReport = 0;
+  try {
+    const result = optimizeStrategy(event.data, progress => {
+      // Throttle progress messages to ~10 per second
+      const now = performance.now();
+      if (now - lastReport < 100 && progress.done < progress.total) return;
+      lastReport = now;
+      post({ type: 'progress', progress });
+    });
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,204 @@
+// Bloomberg-style command line grammar - pure parsing shared by TerminalCommandBar and its service.
+//
+//   AAPL US <GO>          load a security
+//   GP 4h <GO>            run a function on the loaded security
+//   PTT TB EQUITY DES     security and function on one line
+//   CF US EQUITY <GO>     a ticker spelled like a function, told apart by its market or yellow key
+//   cot                   open any panel by id
+//   ALIAS CH4 = GP 4h     user-defined shorthand, UNALIAS CH4 removes it
+
+import { parseTimeframe, type ChartSymbol, type Timeframe } from '@/services/ChartDataService';
+import type { PanelSettings } from '@/contexts/PanelSettingsContext';
+import { AVAILABLE_PANELS } from '@/contexts/PanelCommanderContext';
+
+export type YellowKey = 'EQUITY' | 'CURNCY' | 'CRYPTO' | 'INDEX' | 'COMDTY';
+
+export const YELLOW_KEYS: YellowKey[] = ['EQUITY', 'CURNCY', 'CRYPTO', 'INDEX', 'COMDTY'];
+
+/** Market codes as typed after the ticker, with the exchanges tv-symbol-search reports for them */
+export const MARKET_CODES: Record<string, { label: string; exchanges: string[] }> = {
+  US: { label: 'United States', exchanges: ['NASDAQ', 'NYSE', 'AMEX', 'NYSE ARCA', 'CBOE', 'OTC'] },
+  TB: { label: 'Thailand', exchanges: ['SET', 'MAI'] },
+  TH: { label: 'Thailand', exchanges: ['SET', 'MAI'] },
+  HK: { label: 'Hong Kong', exchanges: ['HKEX'] },
+  JP: { label: 'Japan', exchanges: ['TSE'] },
+  LN: { label: 'London', exchanges: ['LSE'] },
+  GR: { label: 'Germany', exchanges: ['XETR', 'FWB'] },
+  SP: { label: 'Singapore', exchanges: ['SGX'] },
+  AU: { label: 'Australia', exchanges: ['ASX'] },
+};
+
+export interface Mnemonic {
+  code: string;
+  description: string;
+  panelId: string;
+  /** Takes a chart interval ('GP 4h') */
+  acceptsTimeframe?: boolean;
+}
+
+export const MNEMONICS: Mnemonic[] = [
+  { code: 'GP', description: 'Price graph', panelId: 'trading-chart', acceptsTimeframe: true },
+  { code: 'GIP', description: 'Intraday price graph', panelId: 'trading-chart', acceptsTimeframe: true },
+  { code: 'DES', description: 'Security description', panelId: 'screeners' },
+  { code: 'FA', description: 'Financial analysis', panelId: 'screeners' },
+  { code: 'CF', description: 'Company filings', panelId: 'screeners' },
+  { code: 'CN', description: 'Company news', panelId: 'topnews' },
+  { code: 'DOM', description: 'Depth of market', panelId: 'depth' },
+];
+
+const META_COMMANDS = ['ALIAS', 'UNALIAS', 'HELP'];
+
+export const findMnemonic = (token: string): Mnemonic | undefined =>
+  MNEMONICS.find(m => m.code === token.toUpperCase());
+
+const isSecurityQualifier = (token: string | undefined): boolean =>
+  !!token && (!!MARKET_CODES[token.toUpperCase()] || YELLOW_KEYS.includes(token.toUpperCase() as YellowKey));
+
+export interface SecurityRef {
+  /** Ticker as typed: 'AAPL', 'PTT', 'BINANCE:BTCUSDT' */
+  symbol: string;
+  market?: string;
+  yellowKey?: YellowKey;
+}
+
+/** A security after symbol search */
+export interface ResolvedSecurity {
+  /** 'NASDAQ:AAPL', 'SET:PTT', 'BINANCE:BTCUSDT' - the form link groups carry */
+  ticker: string;
+  name: string;
+  chartSymbol: ChartSymbol;
+}
+
+export type TerminalCommand =
+  | { kind: 'function'; mnemonic: Mnemonic; security?: SecurityRef; timeframe?: Timeframe }
+  | { kind: 'load'; security: SecurityRef }
+  | { kind: 'panel'; panelId: string }
+  | { kind: 'alias'; name: string; expansion: string }
+  | { kind: 'unalias'; name: string }
+  | { kind: 'help' };
+
+export type ParseResult = { command: TerminalCommand } | { error: string };
+
+/** Split a command line, dropping the <GO> key however it was typed */
+export const tokenize = (input: string): string[] =>
+  input
+    .replace(/<\s*GO\s*>/gi, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .filter((token, i, all) => !(i === all.length - 1 && i > 0 && token.toUpperCase() === 'GO'));
+
+const MAX_ALIAS_DEPTH = 5;
+
+/** Replace alias tokens with their expansion; nested aliases expand up to a fixed depth */
+export const expandAliases = (tokens: string[], aliases: Record<string, string>, depth = 0): string[] => {
+  if (depth >= MAX_ALIAS_DEPTH) return tokens;
+  let changed = false;
+  const expanded = tokens.flatMap(token => {
+    const expansion = aliases[token.toUpperCase()];
+    if (expansion === undefined) return [token];
+    changed = true;
+    return tokenize(expansion);
+  });
+  return changed ? expandAliases(expanded, aliases, depth + 1) : expanded;
+};
+
+/** Alias names are single tokens that don't shadow functions or meta commands */
+export const validateAliasName = (name: string): string | null => {
+  const upper = name.toUpperCase();
+  if (!/^[A-Z0-9._-]+$/.test(upper)) return 'Alias names are letters, digits, ".", "_" or "-"';
+  if (findMnemonic(upper) || META_COMMANDS.includes(upper)) return `${upper} is a built-in command`;
+  return null;
+};
+
+const parseMeta = (input: string): ParseResult | null => {
+  const [head, ...rest] = input.trim().split(/\s+/);
+  switch (head?.toUpperCase()) {
+    case 'HELP':
+    case '?':
+      return { command: { kind: 'help' } };
+    case 'UNALIAS':
+      return rest.length === 1 ? { command: { kind: 'unalias', name: rest[0].toUpperCase() } } : { error: 'Usage: UNALIAS NAME' };
+    case 'ALIAS': {
+      // Bare ALIAS lists them in the help view
+      if (rest.length === 0) return { command: { kind: 'help' } };
+      const match = input.trim().match(/^alias\s+(\S+)\s*=\s*(.+)$/i);
+      if (!match) return { error: 'Usage: ALIAS NAME = COMMAND' };
+      const invalid = validateAliasName(match[1]);
+      return invalid ? { error: invalid } : { command: { kind: 'alias', name: match[1].toUpperCase(), expansion: match[2].trim() } };
+    }
+    default:
+      return null;
+  }
+};
+
+/** Parse one command line; aliases are expanded first */
+export function parseTerminalCommand(input: string, aliases: Record<string, string> = {}): ParseResult {
+  const meta = parseMeta(input);
+  if (meta) return meta;
+
+  const tokens = expandAliases(tokenize(input), aliases);
+  if (tokens.length === 0) return { error: 'Empty command' };
+
+  // A bare panel id opens that panel ('cot', 'heatmap', 'trading-chart')
+  if (tokens.length === 1) {
+    const panel = AVAILABLE_PANELS.find(p => p.id === tokens[0].toLowerCase());
+    if (panel) return { command: { kind: 'panel', panelId: panel.id } };
+  }
+
+  let i = 0;
+  let security: SecurityRef | undefined;
+  // 'CF' runs filings, 'CF US' loads CF Industries
+  if (!findMnemonic(tokens[0]) || isSecurityQualifier(tokens[1])) {
+    security = { symbol: tokens[0].toUpperCase() };
+    i = 1;
+    const market = tokens[i]?.toUpperCase();
+    if (market && MARKET_CODES[market]) {
+      security.market = market;
+      i++;
+    }
+    const yellowKey = tokens[i]?.toUpperCase() as YellowKey;
+    if (YELLOW_KEYS.includes(yellowKey)) {
+      security.yellowKey = yellowKey;
+      i++;
+    }
+  }
+
+  if (i >= tokens.length) {
+    return security ? { command: { kind: 'load', security } } : { error: 'Empty command' };
+  }
+
+  const mnemonic = findMnemonic(tokens[i]);
+  if (!mnemonic) return { error: `Unknown function ${tokens[i].toUpperCase()}` };
+
+  const params = tokens.slice(i + 1);
+  if (params.length === 0) return { command: { kind: 'function', mnemonic, security } };
+
+  const timeframe = params.length === 1 && mnemonic.acceptsTimeframe ? parseTimeframe(params[0]) : null;
+  if (!timeframe) return { error: `${mnemonic.code} does not take "${params.join(' ')}"` };
+  return { command: { kind: 'function', mnemonic, security, timeframe } };
+}
+
+/** Settings the target panel reads on mount (see each panel's usePanelSettings type) */
+export function buildPanelSettings(mnemonic: Mnemonic, security: ResolvedSecurity, timeframe?: Timeframe): PanelSettings {
+  switch (mnemonic.code) {
+    case 'GP':
+      return { symbol: security.chartSymbol, timeframe: timeframe ?? '1D' };
+    case 'GIP':
+      return { symbol: security.chartSymbol, timeframe: timeframe ?? '5m' };
+    case 'DES':
+      return { tab: 'filings', ticker: security.ticker, view: 'statements', statementTab: 'overview' };
+    case 'FA':
+      return { tab: 'filings', ticker: security.ticker, view: 'statements', statementTab: 'income' };
+    case 'CF':
+      return { tab: 'filings', ticker: security.ticker, view: 'filings' };
+    default:
+      return { ticker: security.ticker };
+  }
+}
+
+/** Short Bloomberg-style label: 'AAPL US Equity', 'BTCUSDT Crypto' */
+export const describeSecurity = (ref: SecurityRef): string =>
+  [ref.symbol, ref.market, ref.yellowKey && ref.yellowKey[0] + ref.yellowKey.slice(1).toLowerCase()]
+    .filter(Boolean)
+    .join(' ');
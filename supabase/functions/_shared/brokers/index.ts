@@ -0,0 +1,18 @@
+import type { BrokerAdapter } from './types.ts'
+import { tradovateAdapter } from './tradovate.ts'
+import { settradeAdapter } from './settrade.ts'
+import { paperAdapter } from './paper.ts'
+
+export * from './types.ts'
+export * from './session.ts'
+
+// MT5 is not listed: it is driven by the EA polling mt5-poll, not by API calls
+const adapters: Record<string, BrokerAdapter> = {
+  tradovate: tradovateAdapter,
+  settrade: settradeAdapter,
+  paper: paperAdapter
+}
+
+export function getBrokerAdapter(brokerType: string): BrokerAdapter | null {
+  return adapters[brokerType] ?? null
+}
@@ -0,0 +1,271 @@
+// Paper broker: simulated account kept in broker_connections.session_data.
+// Market orders fill at the signal price (webhooks send the bar close), or walk
+// the Binance order book when no price is given. Limit/stop orders rest until a
+// later order's price or a status check's Binance last price crosses them.
+// Reconnecting keeps the book; credentials.resetBook starts the account over.
+// Callers store a returned book with saveSession, which rejects stale writes.
+
+import type { BrokerAdapter, BrokerFill, BrokerOrderRequest, BrokerPosition } from './types.ts'
+
+interface PaperOrder {
+  id: string
+  symbol: string
+  side: 'buy' | 'sell'
+  quantity: number
+  orderType: 'Market' | 'Limit' | 'Stop'
+  price?: number
+  createdAt: string
+}
+
+interface PaperBook {
+  paper: true
+  token_expiry: number
+  startingBalance: number
+  slippageBps: number
+  realizedPnl: number
+  positions: Record<string, { quantity: number; avgPrice: number }>
+  working: PaperOrder[]
+  fills: BrokerFill[]
+  marks: Record<string, number>
+  seq: number
+  /** Write revision, bumped by saveSession */
+  rev?: number
+}
+
+const MAX_FILLS = 500
+// Paper sessions never expire
+const NO_EXPIRY = 8.64e15
+
+function loadBook(session: any): PaperBook {
+  return {
+    paper: true,
+    token_expiry: NO_EXPIRY,
+    startingBalance: 100000,
+    slippageBps: 0,
+    realizedPnl: 0,
+    positions: {},
+    working: [],
+    fills: [],
+    marks: {},
+    seq: 0,
+    // A copy: fills mutate nested positions and marks, and the caller's session must stay as read
+    ...structuredClone(session || {})
+  }
+}
+
+/** Average fill price for `quantity` taken from the Binance book, or null */
+async function bookPrice(symbol: string, side: 'buy' | 'sell', quantity: number): Promise<number | null> {
+  try {
+    const response = await fetch(`https://api.binance.com/api/v3/depth?symbol=${symbol.toUpperCase()}&limit=100`)
+    if (!response.ok) return null
+    const book = await response.json()
+    const levels: [string, string][] = side === 'buy' ? book.asks : book.bids
+
+    let remaining = quantity
+    let cost = 0
+    for (const [price, qty] of levels) {
+      const take = Math.min(remaining, Number(qty))
+      cost += take * Number(price)
+      remaining -= take
+      if (remaining <= 0) break
+    }
+    // Thin book: price the remainder at the last level
+    if (remaining > 0 && levels.length > 0) cost += remaining * Number(levels[levels.length - 1][0])
+    return levels.length > 0 ? cost / quantity : null
+  } catch {
+    return null
+  }
+}
+
+/** Last traded price from Binance, or null for symbols it doesn't list */
+async function lastPrice(symbol: string): Promise<number | null> {
+  try {
+    const response = await fetch(`https://api.binance.com/api/v3/ticker/price?symbol=${symbol.toUpperCase()}`)
+    if (!response.ok) return null
+    const price = Number((await response.json()).price)
+    return price > 0 ? price : null
+  } catch {
+    return null
+  }
+}
+
+function applyFill(book: PaperBook, order: PaperOrder, rawPrice: number): BrokerFill {
+  const slip = rawPrice * book.slippageBps / 10000
+  const price = order.side === 'buy' ? rawPrice + slip : rawPrice - slip
+  const signed = order.side === 'buy' ? order.quantity : -order.quantity
+  const position = book.positions[order.symbol] || { quantity: 0, avgPrice: 0 }
+
+  if (position.quantity === 0 || Math.sign(position.quantity) === Math.sign(signed)) {
+    // Opening or adding: blend the average price
+    const total = position.quantity + signed
+    position.avgPrice = (position.avgPrice * Math.abs(position.quantity) + price * order.quantity) / Math.abs(total)
+    position.quantity = total
+  } else {
+    // Reducing, closing or flipping
+    const closing = Math.min(Math.abs(position.quantity), order.quantity)
+    book.realizedPnl += closing * (price - position.avgPrice) * Math.sign(position.quantity)
+    position.quantity += signed
+    if (Math.abs(signed) > closing) position.avgPrice = price
+  }
+
+  if (position.quantity === 0) delete book.positions[order.symbol]
+  else book.positions[order.symbol] = position
+
+  const fill: BrokerFill = {
+    orderId: order.id,
+    symbol: order.symbol,
+    side: order.side,
+    quantity: order.quantity,
+    price,
+    time: new Date().toISOString()
+  }
+  book.fills = [fill, ...book.fills].slice(0, MAX_FILLS)
+  book.marks[order.symbol] = rawPrice
+  return fill
+}
+
+function crosses(order: PaperOrder, price: number): boolean {
+  if (order.orderType === 'Limit') return order.side === 'buy' ? price <= order.price! : price >= order.price!
+  if (order.orderType === 'Stop') return order.side === 'buy' ? price >= order.price! : price <= order.price!
+  return true
+}
+
+/** Fill resting orders for `symbol` that `price` has crossed */
+function sweep(book: PaperBook, symbol: string, price: number) {
+  book.marks[symbol] = price
+  book.working = book.working.filter(order => {
+    if (order.symbol !== symbol || !crosses(order, price)) return true
+    // Limits fill at their price; stops become market orders at the trigger
+    applyFill(book, order, order.orderType === 'Limit' ? order.price! : price)
+    return false
+  })
+}
+
+function equity(book: PaperBook) {
+  const unrealized = Object.entries(book.positions).reduce((sum, [symbol, p]) =>
+    sum + (book.marks[symbol] !== undefined ? (book.marks[symbol] - p.avgPrice) * p.quantity : 0), 0)
+  return book.startingBalance + book.realizedPnl + unrealized
+}
+
+export const paperAdapter: BrokerAdapter = {
+  type: 'paper',
+
+  async connect(credentials, previous) {
+    const slippageBps = Math.max(0, Number(credentials?.slippageBps) || 0)
+    if (previous?.paper && !credentials?.resetBook) {
+      return { session: { ...loadBook(previous), slippageBps } }
+    }
+    const startingBalance = Number(credentials?.startingBalance) || 100000
+    return { session: loadBook({ startingBalance, slippageBps }) }
+  },
+
+  async status(ctx) {
+    const book = loadBook(ctx.session)
+    const start = Date.now()
+    // Re-mark open symbols and fill resting orders the market has crossed since the last check
+    const symbols = [...new Set([...book.working.map(o => o.symbol), ...Object.keys(book.positions)])]
+    const prices = await Promise.all(symbols.map(lastPrice))
+    symbols.forEach((symbol, i) => {
+      const price = prices[i]
+      if (price) sweep(book, symbol, price)
+    })
+
+    const balance = book.startingBalance + book.realizedPnl
+    return {
+      connected: true,
+      latency: Date.now() - start,
+      account: {
+        name: 'Paper',
+        balance,
+        equity: equity(book),
+        positions: Object.keys(book.positions).length
+      },
+      session: symbols.length > 0 ? book : undefined
+    }
+  },
+
+  async placeOrder(ctx, order: BrokerOrderRequest) {
+    const book = loadBook(ctx.session)
+    const symbol = (order.symbol || '').toUpperCase()
+    if (!symbol) return { success: false, latency: 0, error: 'Symbol required' }
+
+    const orderType = (order.orderType === 'Limit' || order.orderType === 'Stop') && order.action !== 'close'
+      ? order.orderType
+      : 'Market'
+    // For market orders `price` is the signal's reference price
+    if (orderType === 'Market' && order.price) sweep(book, symbol, order.price)
+
+    let side: 'buy' | 'sell' = order.action === 'sell' ? 'sell' : 'buy'
+    let quantity = order.quantity || 0
+    if (order.action === 'close') {
+      const position = book.positions[symbol]
+      if (!position) return { success: false, latency: 0, error: 'No position found' }
+      side = position.quantity > 0 ? 'sell' : 'buy'
+      quantity = Math.abs(position.quantity)
+    }
+    if (quantity <= 0) return { success: false, latency: 0, error: 'Quantity must be positive' }
+
+    book.seq += 1
+    const paperOrder: PaperOrder = {
+      id: `PAPER-${book.seq}`,
+      symbol,
+      side,
+      quantity,
+      orderType,
+      price: orderType === 'Market' ? undefined : order.price,
+      createdAt: new Date().toISOString()
+    }
+
+    if (orderType !== 'Market') {
+      if (!order.price) return { success: false, latency: 0, error: `${orderType} order requires a price` }
+      const mark = book.marks[symbol]
+      if (mark !== undefined && crosses(paperOrder, mark)) {
+        applyFill(book, paperOrder, orderType === 'Limit' ? Math.min(mark, order.price) : mark)
+        return { success: true, orderId: paperOrder.id, orderStatus: 'Filled', latency: 0, session: book }
+      }
+      book.working.push(paperOrder)
+      return { success: true, orderId: paperOrder.id, orderStatus: 'Working', latency: 0, session: book }
+    }
+
+    const start = Date.now()
+    // Never the stored mark: it can be hours old. applyFill re-marks the symbol at the fill
+    const fillPrice = order.price ?? await bookPrice(symbol, side, quantity)
+    if (!fillPrice) {
+      return { success: false, latency: Date.now() - start, error: `No price for ${symbol}; send a price with the order` }
+    }
+
+    const fill = applyFill(book, paperOrder, fillPrice)
+    return {
+      success: true,
+      orderId: paperOrder.id,
+      orderStatus: 'Filled',
+      latency: Date.now() - start,
+      rawResponse: fill,
+      session: book
+    }
+  },
+
+  async cancel(ctx, orderId) {
+    const book = loadBook(ctx.session)
+    const before = book.working.length
+    book.working = book.working.filter(o => o.id !== orderId)
+    if (book.working.length === before) {
+      return { success: false, latency: 0, error: 'Order not found or already filled' }
+    }
+    return { success: true, orderId, orderStatus: 'Cancelled', latency: 0, session: book }
+  },
+
+  async positions(ctx): Promise<BrokerPosition[]> {
+    const book = loadBook(ctx.session)
+    return Object.entries(book.positions).map(([symbol, p]) => ({
+      symbol,
+      quantity: p.quantity,
+      avgPrice: p.avgPrice,
+      unrealizedPnl: book.marks[symbol] !== undefined ? (book.marks[symbol] - p.avgPrice) * p.quantity : undefined
+    }))
+  },
+
+  async fills(ctx) {
+    return loadBook(ctx.session).fills
+  }
+}
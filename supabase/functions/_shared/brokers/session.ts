@@ -0,0 +1,30 @@
+// Compare-and-swap writes of broker_connections.session_data. The paper broker keeps
+// its whole book there, so concurrent webhook orders and status sweeps would otherwise
+// overwrite each other's fills. Every write bumps session_data.rev.
+
+/**
+ * Store `next` unless session_data changed since `previous` was read.
+ * Returns false on a conflict; the caller re-reads and retries or drops its change.
+ */
+export async function saveSession(supabase: any, connectionId: string, previous: any, next: any): Promise<boolean> {
+  const rev = typeof previous?.rev === 'number' ? previous.rev : null
+  let query = supabase
+    .from('broker_connections')
+    .update({ session_data: { ...next, rev: (rev ?? 0) + 1 } })
+    .eq('id', connectionId)
+  query = rev === null ? query.is('session_data->>rev', null) : query.eq('session_data->>rev', String(rev))
+
+  const { data, error } = await query.select('id')
+  if (error) throw new Error(`Could not save session: ${error.message}`)
+  return (data?.length ?? 0) > 0
+}
+
+export async function loadSession(supabase: any, connectionId: string): Promise<any> {
+  const { data, error } = await supabase
+    .from('broker_connections')
+    .select('session_data')
+    .eq('id', connectionId)
+    .single()
+  if (error) throw new Error(`Could not read session: ${error.message}`)
+  return data.session_data
+}
@@ -0,0 +1,221 @@
+import type { BrokerAdapter, BrokerContext, BrokerFill, BrokerOrderRequest, BrokerPosition } from './types.ts'
+
+function baseUrl(credentials: any) {
+  return credentials.env === 'prod'
+    ? 'https://open-api.settrade.com/api'
+    : 'https://open-api-uat.settrade.com/api'
+}
+
+function accountUrl(credentials: any) {
+  return `${baseUrl(credentials)}/equity/${credentials.brokerId}/accounts/${credentials.accountNo}`
+}
+
+function authHeader(session: any) {
+  return `${session.token_type} ${session.access_token}`
+}
+
+async function fetchPortfolio(ctx: BrokerContext) {
+  const response = await fetch(`${accountUrl(ctx.credentials)}/portfolios`, {
+    headers: { 'Authorization': authHeader(ctx.session) }
+  })
+  return response.ok ? await response.json() : null
+}
+
+export const settradeAdapter: BrokerAdapter = {
+  type: 'settrade',
+
+  async connect(credentials) {
+    try {
+      console.log('🔐 Settrade: Attempting authentication...')
+
+      const formData = new URLSearchParams()
+      formData.append('grant_type', 'client_credentials')
+      formData.append('client_id', credentials.appId)
+      formData.append('client_secret', credentials.appSecret)
+      formData.append('scope', 'EQUITY')
+
+      const response = await fetch(`${baseUrl(credentials)}/oauth/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: formData.toString()
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        console.error('❌ Settrade auth failed:', errorData)
+        return {
+          error: errorData.error_description || errorData.message || `HTTP ${response.status}`
+        }
+      }
+
+      const data = await response.json()
+      console.log('✅ Settrade: Authentication successful')
+
+      return {
+        session: {
+          access_token: data.access_token,
+          token_expiry: Date.now() + ((data.expires_in || 3600) * 1000) - 60000,
+          token_type: data.token_type || 'Bearer',
+          account_no: credentials.accountNo,
+          broker_id: credentials.brokerId
+        }
+      }
+    } catch (err: any) {
+      console.error('❌ Settrade connect error:', err)
+      return { error: err.message }
+    }
+  },
+
+  async status(ctx) {
+    const start = Date.now()
+
+    try {
+      const data = await fetchPortfolio(ctx)
+      const latency = Date.now() - start
+
+      if (!data) {
+        return { connected: false, latency, error: 'Failed to get account info' }
+      }
+
+      return {
+        connected: true,
+        latency,
+        account: {
+          accountNo: ctx.credentials.accountNo,
+          balance: data.cashBalance || data.cash || 0,
+          equity: data.equity || data.totalValue || 0,
+          buyingPower: data.buyingPower || data.purchasingPower || 0,
+          positions: data.positions?.length || data.portfolios?.length || 0
+        }
+      }
+    } catch (err: any) {
+      return { connected: false, latency: Date.now() - start, error: err.message }
+    }
+  },
+
+  async placeOrder(ctx, order: BrokerOrderRequest) {
+    const { action, symbol, price } = order
+    const start = Date.now()
+    let side = action === 'buy' ? 'B' : 'S'
+    let quantity = order.quantity
+
+    try {
+      // Cash equities are long-only: closing means selling the whole holding
+      if (action === 'close') {
+        const holding = (await this.positions(ctx)).find(p => p.symbol === symbol?.toUpperCase())
+        if (!holding) {
+          return { success: false, latency: Date.now() - start, error: 'No position found' }
+        }
+        side = 'S'
+        quantity = holding.quantity
+      }
+
+      console.log('📤 Settrade: Placing order...', { action, symbol, quantity })
+
+      const orderPayload: any = {
+        symbol: symbol?.toUpperCase(),
+        side,
+        volume: quantity,
+        priceType: price && action !== 'close' ? 'LMT' : 'MP',
+        validity: 'DAY'
+      }
+
+      if (price && action !== 'close') {
+        orderPayload.price = price
+      }
+      if (ctx.credentials.pin) {
+        orderPayload.pin = ctx.credentials.pin
+      }
+
+      console.log('📦 Order payload:', JSON.stringify(orderPayload))
+
+      const response = await fetch(`${accountUrl(ctx.credentials)}/orders`, {
+        method: 'POST',
+        headers: {
+          'Authorization': authHeader(ctx.session),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(orderPayload)
+      })
+
+      const latency = Date.now() - start
+      const data = await response.json()
+
+      if (!response.ok) {
+        console.error('❌ Settrade order failed:', data)
+        return {
+          success: false,
+          latency,
+          error: data.message || data.error_description || `HTTP ${response.status}`,
+          rawResponse: data
+        }
+      }
+
+      console.log('✅ Settrade order success:', data)
+      return {
+        success: true,
+        orderId: data.orderNo || data.orderId,
+        orderStatus: data.status || 'Submitted',
+        latency,
+        rawResponse: data
+      }
+    } catch (err: any) {
+      console.error('❌ Settrade order error:', err)
+      return { success: false, latency: Date.now() - start, error: err.message }
+    }
+  },
+
+  async cancel(ctx, orderId) {
+    const start = Date.now()
+
+    try {
+      const response = await fetch(`${accountUrl(ctx.credentials)}/orders/${orderId}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': authHeader(ctx.session) }
+      })
+
+      const latency = Date.now() - start
+
+      if (!response.ok) {
+        const data = await response.json()
+        return { success: false, latency, error: data.message || 'Cancel failed' }
+      }
+
+      return { success: true, orderId, latency }
+    } catch (err: any) {
+      return { success: false, latency: Date.now() - start, error: err.message }
+    }
+  },
+
+  async positions(ctx): Promise<BrokerPosition[]> {
+    const data = await fetchPortfolio(ctx)
+    if (!data) throw new Error('Failed to get positions')
+
+    const rows = data.portfolioList || data.portfolios || data.positions || []
+    return rows
+      .map((p: any) => ({
+        symbol: String(p.symbol).toUpperCase(),
+        quantity: p.actualVolume ?? p.currentVolume ?? p.volume ?? 0,
+        avgPrice: p.averagePrice ?? p.avgCost,
+        unrealizedPnl: p.profit ?? p.unrealizedProfit
+      }))
+      .filter((p: BrokerPosition) => p.quantity !== 0)
+  },
+
+  async fills(ctx): Promise<BrokerFill[]> {
+    const response = await fetch(`${accountUrl(ctx.credentials)}/trades`, {
+      headers: { 'Authorization': authHeader(ctx.session) }
+    })
+    if (!response.ok) throw new Error('Failed to get fills')
+
+    const trades = await response.json()
+    return (Array.isArray(trades) ? trades : trades.trades || []).map((t: any) => ({
+      orderId: String(t.orderNo),
+      symbol: t.symbol,
+      side: t.side === 'B' || t.side === 'Buy' ? 'buy' : 'sell',
+      quantity: t.volume ?? t.qty,
+      price: t.price,
+      time: t.tradeDateTime || t.tradeTime
+    }))
+  }
+}
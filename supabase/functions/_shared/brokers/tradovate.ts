@@ -0,0 +1,268 @@
+import type { BrokerAdapter, BrokerContext, BrokerFill, BrokerOrderRequest, BrokerPosition } from './types.ts'
+
+function baseUrl(credentials: any) {
+  return credentials.env === 'live'
+    ? 'https://live.tradovateapi.com/v1'
+    : 'https://demo.tradovateapi.com/v1'
+}
+
+function authHeaders(session: any) {
+  return {
+    'Authorization': `Bearer ${session.access_token}`,
+    'Content-Type': 'application/json'
+  }
+}
+
+async function fetchRawPositions(ctx: BrokerContext): Promise<any[] | null> {
+  const response = await fetch(`${baseUrl(ctx.credentials)}/position/list`, {
+    headers: authHeaders(ctx.session)
+  })
+  return response.ok ? await response.json() : null
+}
+
+async function submitOrder(ctx: BrokerContext, payload: Record<string, unknown>, start: number) {
+  const response = await fetch(`${baseUrl(ctx.credentials)}/order/placeorder`, {
+    method: 'POST',
+    headers: authHeaders(ctx.session),
+    body: JSON.stringify(payload)
+  })
+
+  const latency = Date.now() - start
+  const data = await response.json()
+
+  if (!response.ok) {
+    console.error('❌ Tradovate order failed:', data)
+    return {
+      success: false,
+      latency,
+      error: data.errorText || data.message || `HTTP ${response.status}`,
+      rawResponse: data
+    }
+  }
+
+  console.log('✅ Tradovate order success:', data)
+  return {
+    success: true,
+    orderId: data.orderId?.toString(),
+    orderStatus: data.orderStatus || 'Submitted',
+    latency,
+    rawResponse: data
+  }
+}
+
+export const tradovateAdapter: BrokerAdapter = {
+  type: 'tradovate',
+
+  async connect(credentials) {
+    try {
+      const url = baseUrl(credentials)
+      console.log('🔐 Tradovate: Attempting login...')
+
+      const response = await fetch(`${url}/auth/accesstokenrequest`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: credentials.username,
+          password: credentials.password,
+          appId: 'ABLE-Terminal',
+          appVersion: '1.0',
+          deviceId: credentials.deviceId || 'ABLE-WebAPI',
+          cid: credentials.cid
+        })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        console.error('❌ Tradovate login failed:', errorData)
+        return {
+          error: errorData.errorText || errorData.message || `HTTP ${response.status}`
+        }
+      }
+
+      const data = await response.json()
+      console.log('✅ Tradovate: Login successful')
+
+      // Get account info
+      let accountId = 0
+      try {
+        const accResponse = await fetch(`${url}/account/list`, {
+          headers: { 'Authorization': `Bearer ${data.accessToken}` }
+        })
+        if (accResponse.ok) {
+          const accounts = await accResponse.json()
+          if (accounts.length > 0) {
+            accountId = accounts[0].id
+            console.log('📊 Tradovate: Found account:', accounts[0].name)
+          }
+        }
+      } catch (e) {
+        console.warn('Could not fetch account info:', e)
+      }
+
+      return {
+        session: {
+          access_token: data.accessToken,
+          token_expiry: Date.now() + (data.expirationTime || 7200000) - 60000,
+          account_id: accountId,
+          account_spec: credentials.env === 'live' ? 'Live' : 'Demo'
+        }
+      }
+    } catch (err: any) {
+      console.error('❌ Tradovate connect error:', err)
+      return { error: err.message }
+    }
+  },
+
+  async status(ctx) {
+    const start = Date.now()
+
+    try {
+      const accResponse = await fetch(`${baseUrl(ctx.credentials)}/account/list`, {
+        headers: { 'Authorization': `Bearer ${ctx.session.access_token}` }
+      })
+
+      const latency = Date.now() - start
+
+      if (!accResponse.ok) {
+        return { connected: false, latency, error: 'Failed to get account info' }
+      }
+
+      const accounts = await accResponse.json()
+      const account = accounts[0]
+
+      let positionsCount = 0
+      try {
+        const positions = await fetchRawPositions(ctx)
+        positionsCount = (positions || []).filter((p: any) => p.netPos !== 0).length
+      } catch (e) {
+        console.warn('Could not fetch positions:', e)
+      }
+
+      return {
+        connected: true,
+        latency,
+        account: {
+          id: account?.id,
+          name: account?.name,
+          balance: account?.cashBalance || 0,
+          equity: account?.netLiq || 0,
+          margin: account?.marginUsed || 0,
+          positions: positionsCount
+        }
+      }
+    } catch (err: any) {
+      return { connected: false, latency: Date.now() - start, error: err.message }
+    }
+  },
+
+  async placeOrder(ctx, order: BrokerOrderRequest) {
+    const { session } = ctx
+    const { action, symbol, quantity, price, orderType } = order
+    const start = Date.now()
+
+    try {
+      if (action === 'close') {
+        const positions = await fetchRawPositions(ctx)
+        if (!positions) {
+          return { success: false, latency: Date.now() - start, error: 'Failed to get positions' }
+        }
+
+        const position = positions.find((p: any) =>
+          p.netPos !== 0 && (p.contract?.name === symbol || p.symbol === symbol)
+        )
+        if (!position) {
+          return { success: false, latency: Date.now() - start, error: 'No position found' }
+        }
+
+        // Place opposite order to close
+        return await submitOrder(ctx, {
+          accountSpec: session.account_spec,
+          accountId: session.account_id,
+          action: position.netPos > 0 ? 'Sell' : 'Buy',
+          symbol,
+          orderQty: Math.abs(position.netPos),
+          orderType: 'Market',
+          isAutomated: true
+        }, start)
+      }
+
+      console.log('📤 Tradovate: Placing order...', { action, symbol, quantity })
+
+      const orderPayload: any = {
+        accountSpec: session.account_spec,
+        accountId: session.account_id,
+        action: action === 'buy' ? 'Buy' : 'Sell',
+        symbol,
+        orderQty: quantity,
+        orderType: orderType || 'Market',
+        isAutomated: true
+      }
+
+      if (orderType === 'Limit' && price) {
+        orderPayload.price = price
+      }
+      if (orderType === 'Stop' && price) {
+        orderPayload.stopPrice = price
+      }
+
+      console.log('📦 Order payload:', JSON.stringify(orderPayload))
+      return await submitOrder(ctx, orderPayload, start)
+    } catch (err: any) {
+      console.error('❌ Tradovate order error:', err)
+      return { success: false, latency: Date.now() - start, error: err.message }
+    }
+  },
+
+  async cancel(ctx, orderId) {
+    const start = Date.now()
+
+    try {
+      const response = await fetch(`${baseUrl(ctx.credentials)}/order/cancelorder`, {
+        method: 'POST',
+        headers: authHeaders(ctx.session),
+        body: JSON.stringify({ orderId: parseInt(orderId || '0') })
+      })
+
+      const latency = Date.now() - start
+
+      if (!response.ok) {
+        const data = await response.json()
+        return { success: false, latency, error: data.errorText || 'Cancel failed' }
+      }
+
+      return { success: true, orderId, latency }
+    } catch (err: any) {
+      return { success: false, latency: Date.now() - start, error: err.message }
+    }
+  },
+
+  async positions(ctx): Promise<BrokerPosition[]> {
+    const positions = await fetchRawPositions(ctx)
+    if (!positions) throw new Error('Failed to get positions')
+
+    return positions
+      .filter((p: any) => p.netPos !== 0)
+      .map((p: any) => ({
+        symbol: p.contract?.name || p.symbol || String(p.contractId),
+        quantity: p.netPos,
+        avgPrice: p.netPrice
+      }))
+  },
+
+  async fills(ctx): Promise<BrokerFill[]> {
+    const response = await fetch(`${baseUrl(ctx.credentials)}/fill/list`, {
+      headers: authHeaders(ctx.session)
+    })
+    if (!response.ok) throw new Error('Failed to get fills')
+
+    const fills = await response.json()
+    return fills.map((f: any) => ({
+      orderId: String(f.orderId),
+      symbol: f.contract?.name || String(f.contractId),
+      side: f.action === 'Buy' ? 'buy' : 'sell',
+      quantity: f.qty,
+      price: f.price,
+      time: f.timestamp
+    }))
+  }
+}
@@ -0,0 +1,74 @@
+// Broker adapter contract shared by broker-connect, broker-status and broker-order.
+// Adapters are stateless; everything they need comes from the broker_connections row.
+
+export interface BrokerContext {
+  credentials: any
+  session: any
+}
+
+export interface BrokerOrderRequest {
+  action: 'buy' | 'sell' | 'close'
+  symbol?: string
+  quantity?: number
+  price?: number
+  orderType?: string
+}
+
+export interface BrokerOrderResult {
+  success: boolean
+  orderId?: string
+  orderStatus?: string
+  latency: number
+  error?: string
+  rawResponse?: unknown
+  /** New session_data to persist (paper broker keeps its book there) */
+  session?: any
+}
+
+export interface BrokerAccount {
+  id?: number | string
+  name?: string
+  accountNo?: string
+  balance: number
+  equity: number
+  margin?: number
+  buyingPower?: number
+  positions: number
+}
+
+export interface BrokerStatusResult {
+  connected: boolean
+  latency: number
+  account?: BrokerAccount
+  error?: string
+  /** New session_data to persist (paper broker fills resting orders on a status check) */
+  session?: any
+}
+
+export interface BrokerPosition {
+  symbol: string
+  /** Signed: positive long, negative short */
+  quantity: number
+  avgPrice?: number
+  unrealizedPnl?: number
+}
+
+export interface BrokerFill {
+  orderId: string
+  symbol: string
+  side: 'buy' | 'sell'
+  quantity: number
+  price: number
+  time: string
+}
+
+export interface BrokerAdapter {
+  type: string
+  /** `previous` is the connection's current session_data (the paper broker keeps its book) */
+  connect(credentials: any, previous?: any): Promise<{ session?: any; error?: string }>
+  status(ctx: BrokerContext): Promise<BrokerStatusResult>
+  placeOrder(ctx: BrokerContext, order: BrokerOrderRequest): Promise<BrokerOrderResult>
+  cancel(ctx: BrokerContext, orderId: string): Promise<BrokerOrderResult>
+  positions(ctx: BrokerContext): Promise<BrokerPosition[]>
+  fills(ctx: BrokerContext): Promise<BrokerFill[]>
+}
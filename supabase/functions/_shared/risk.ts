@@ -0,0 +1,257 @@
+// Pre-trade risk engine for broker-order.
+// Limits live in broker_connections.risk_limits (all optional), the kill switch in
+// broker_connections.kill_switch and the daily P&L baseline in risk_state. The baseline is
+// snapshotted at session start (connect, and the risk-session-start job at 00:00 UTC).
+// Closing and cancelling reduce risk, so only new buy/sell orders are checked.
+
+import type { BrokerAdapter, BrokerContext, BrokerPosition } from './brokers/index.ts'
+
+export interface TradingWindow {
+  /** 0 = Sunday ... 6 = Saturday */
+  days: number[]
+  /** "HH:MM"; a window with end < start runs overnight */
+  start: string
+  end: string
+}
+
+export interface RiskLimits {
+  maxDailyLoss?: number
+  maxOpenPositions?: number
+  /** Max absolute position size per symbol, in contracts/shares */
+  maxSymbolExposure?: number
+  /** Per-symbol overrides of maxSymbolExposure */
+  symbolExposure?: Record<string, number>
+  maxOrdersPerMinute?: number
+  tradingHours?: { timezone: string; windows: TradingWindow[] }
+  /** Reject an identical action/symbol/quantity seen within this many seconds */
+  duplicateWindowSec?: number
+}
+
+export type RiskCheck =
+  | 'kill_switch'
+  | 'trading_hours'
+  | 'duplicate'
+  | 'rate_limit'
+  | 'max_position_size'
+  | 'daily_loss'
+  | 'max_positions'
+  | 'symbol_exposure'
+  | 'risk_data'
+
+export interface RiskUsage {
+  killSwitch: boolean
+  withinTradingHours: boolean | null
+  ordersLastMinute: number
+  dailyLoss: number | null
+  openPositions: number | null
+  exposure: Record<string, number>
+}
+
+export interface RiskDecision {
+  allowed: boolean
+  check?: RiskCheck
+  reason?: string
+}
+
+export interface RiskOrder {
+  action: string
+  symbol?: string
+  quantity?: number
+}
+
+const minutesOf = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number)
+  return h * 60 + (m || 0)
+}
+
+export function isWithinTradingHours(hours: RiskLimits['tradingHours'], now = new Date()): boolean {
+  if (!hours?.windows?.length) return true
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: hours.timezone || 'UTC',
+    weekday: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(now)
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? ''
+  const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday'))
+  const minute = Number(get('hour')) * 60 + Number(get('minute'))
+
+  return hours.windows.some(w => {
+    const start = minutesOf(w.start)
+    const end = minutesOf(w.end)
+    if (start <= end) return w.days.includes(day) && minute >= start && minute < end
+    // Overnight: the part after midnight belongs to the previous day's session
+    return (w.days.includes(day) && minute >= start) || (w.days.includes((day + 6) % 7) && minute < end)
+  })
+}
+
+async function ordersSince(supabase: any, connectionId: string, sinceMs: number) {
+  const { data, error } = await supabase
+    .from('api_forward_logs')
+    .select('action, symbol, quantity, status, created_at')
+    .eq('connection_id', connectionId)
+    .neq('status', 'rejected')
+    .gte('created_at', new Date(Date.now() - sinceMs).toISOString())
+  if (error) throw new Error(`Could not read order history: ${error.message}`)
+  return data || []
+}
+
+const utcDay = (now = new Date()) => now.toISOString().slice(0, 10)
+
+async function accountEquity(adapter: BrokerAdapter, ctx: BrokerContext): Promise<number> {
+  const status = await adapter.status(ctx)
+  // The paper broker fills crossed orders on a status check; orders placed on this
+  // context must see that book, and broker-order stores it with the order
+  if (status.session) ctx.session = status.session
+  if (!status.connected || !status.account) throw new Error(status.error || 'Account equity unavailable')
+  return status.account.equity || status.account.balance
+}
+
+async function saveBaseline(supabase: any, connection: any, equity: number) {
+  const state = { ...(connection.risk_state || {}), day: utcDay(), startEquity: equity }
+  await supabase.from('broker_connections').update({ risk_state: state }).eq('id', connection.id)
+}
+
+const hasBaseline = (connection: any) =>
+  connection.risk_state?.day === utcDay() && typeof connection.risk_state?.startEquity === 'number'
+
+/**
+ * Record the day's starting equity when a session starts: on connect and from the
+ * risk-session-start job at 00:00 UTC. Keeps an existing baseline for today
+ */
+export async function snapshotSessionEquity(
+  supabase: any,
+  connection: any,
+  adapter: BrokerAdapter,
+  ctx: BrokerContext
+): Promise<void> {
+  if (hasBaseline(connection)) return
+  await saveBaseline(supabase, connection, await accountEquity(adapter, ctx))
+}
+
+/** Loss since the session-start baseline. Falls back to a baseline taken now if the day has none yet */
+async function dailyLoss(supabase: any, connection: any, adapter: BrokerAdapter, ctx: BrokerContext): Promise<number> {
+  const equity = await accountEquity(adapter, ctx)
+  if (!hasBaseline(connection)) {
+    await saveBaseline(supabase, connection, equity)
+    return 0
+  }
+  return Math.max(0, connection.risk_state.startEquity - equity)
+}
+
+const exposureLimit = (limits: RiskLimits, symbol: string) =>
+  limits.symbolExposure?.[symbol] ?? limits.maxSymbolExposure
+
+const findPosition = (positions: BrokerPosition[], symbol: string) =>
+  positions.find(p => p.symbol.toUpperCase() === symbol)
+
+export async function evaluatePreTradeRisk(
+  supabase: any,
+  connection: any,
+  adapter: BrokerAdapter,
+  ctx: BrokerContext,
+  order: RiskOrder
+): Promise<RiskDecision> {
+  const action = order.action.toLowerCase()
+  if (action !== 'buy' && action !== 'sell') return { allowed: true }
+
+  const limits: RiskLimits = connection.risk_limits || {}
+  const symbol = (order.symbol || '').toUpperCase()
+  const quantity = order.quantity || 0
+
+  if (connection.kill_switch) {
+    return { allowed: false, check: 'kill_switch', reason: 'Kill switch is on: new orders are blocked' }
+  }
+
+  if (!isWithinTradingHours(limits.tradingHours)) {
+    return { allowed: false, check: 'trading_hours', reason: `Outside trading hours (${limits.tradingHours!.timezone})` }
+  }
+
+  if (quantity > (connection.max_position_size || 100)) {
+    return { allowed: false, check: 'max_position_size', reason: `Quantity exceeds max limit (${connection.max_position_size})` }
+  }
+
+  try {
+    if (limits.duplicateWindowSec || limits.maxOrdersPerMinute) {
+      const windowMs = Math.max(60, limits.duplicateWindowSec || 0) * 1000
+      const recent = await ordersSince(supabase, connection.id, windowMs)
+
+      if (limits.duplicateWindowSec) {
+        const cutoff = Date.now() - limits.duplicateWindowSec * 1000
+        const duplicate = recent.find((log: any) =>
+          new Date(log.created_at).getTime() >= cutoff &&
+          log.action.toLowerCase() === action &&
+          log.symbol.toUpperCase() === symbol &&
+          Number(log.quantity) === quantity
+        )
+        if (duplicate) {
+          return {
+            allowed: false,
+            check: 'duplicate',
+            reason: `Duplicate ${action.toUpperCase()} ${quantity} ${symbol} within ${limits.duplicateWindowSec}s`
+          }
+        }
+      }
+
+      if (limits.maxOrdersPerMinute) {
+        const lastMinute = recent.filter((log: any) => new Date(log.created_at).getTime() >= Date.now() - 60000).length
+        if (lastMinute >= limits.maxOrdersPerMinute) {
+          return { allowed: false, check: 'rate_limit', reason: `Rate limit: ${lastMinute}/${limits.maxOrdersPerMinute} orders in the last minute` }
+        }
+      }
+    }
+
+    if (limits.maxDailyLoss) {
+      const loss = await dailyLoss(supabase, connection, adapter, ctx)
+      if (loss >= limits.maxDailyLoss) {
+        return { allowed: false, check: 'daily_loss', reason: `Daily loss ${loss.toFixed(2)} reached limit ${limits.maxDailyLoss}` }
+      }
+    }
+
+    const symbolLimit = exposureLimit(limits, symbol)
+    if (limits.maxOpenPositions || symbolLimit) {
+      const positions = await adapter.positions(ctx)
+      const current = findPosition(positions, symbol)?.quantity || 0
+      const next = current + (action === 'buy' ? quantity : -quantity)
+
+      if (limits.maxOpenPositions && current === 0 && positions.length >= limits.maxOpenPositions) {
+        return { allowed: false, check: 'max_positions', reason: `Max open positions reached (${positions.length}/${limits.maxOpenPositions})` }
+      }
+      // Only block orders that grow the position
+      if (symbolLimit && Math.abs(next) > symbolLimit && Math.abs(next) > Math.abs(current)) {
+        return { allowed: false, check: 'symbol_exposure', reason: `${symbol} exposure ${Math.abs(next)} would exceed cap ${symbolLimit}` }
+      }
+    }
+  } catch (err: any) {
+    // Fail closed: if a limit can't be verified the order doesn't go out
+    return { allowed: false, check: 'risk_data', reason: err.message }
+  }
+
+  return { allowed: true }
+}
+
+/** Current usage of every configured limit, for the API Bridge panel */
+export async function getRiskUsage(
+  supabase: any,
+  connection: any,
+  adapter: BrokerAdapter,
+  ctx: BrokerContext
+): Promise<RiskUsage> {
+  const limits: RiskLimits = connection.risk_limits || {}
+  const [recent, loss, positions] = await Promise.all([
+    ordersSince(supabase, connection.id, 60000).catch(() => []),
+    dailyLoss(supabase, connection, adapter, ctx).catch(() => null),
+    adapter.positions(ctx).catch(() => null)
+  ])
+
+  return {
+    killSwitch: !!connection.kill_switch,
+    withinTradingHours: limits.tradingHours?.windows?.length ? isWithinTradingHours(limits.tradingHours) : null,
+    ordersLastMinute: recent.length,
+    dailyLoss: loss,
+    openPositions: positions ? positions.length : null,
+    exposure: Object.fromEntries((positions || []).map(p => [p.symbol.toUpperCase(), Math.abs(p.quantity)]))
+  }
+}
@@ -0,0 +1,243 @@
+// Authentication, replay protection and idempotency for inbound webhooks.
+//
+// Per-room auth_mode (webhooks.auth_mode):
+//   none   - accepted unsigned, but a secret/signature that IS sent must be valid
+//   secret - shared secret in the X-Webhook-Secret header, ?secret= or a
+//            "secret"/"passphrase" field (what TradingView alerts can send)
+//   hmac   - X-Signature: hex HMAC-SHA256 of "<X-Timestamp>.<body>" (or of the
+//            body when the timestamp is a payload field); a timestamp is required
+//
+// The replay window checks the X-Timestamp header in every mode, and a payload
+// timestamp only in hmac mode, where it is signed.
+//
+// Nonces and idempotency keys are claimed in webhook_replay_keys, whose primary
+// key makes the claim atomic across concurrent retries. Only keys the sender
+// supplies are de-duplicated by default; a room can opt in to dropping identical
+// bodies (webhooks.idempotency_window_seconds > 0), since the same signal may
+// legitimately fire twice.
+
+export type WebhookAuthMode = 'none' | 'secret' | 'hmac'
+
+export interface WebhookSecurityConfig {
+  auth_mode?: WebhookAuthMode | null
+  webhook_secret?: string | null
+  replay_window_seconds?: number | null
+  idempotency_window_seconds?: number | null
+}
+
+export type WebhookRejectReason =
+  | 'missing_secret'
+  | 'bad_secret'
+  | 'missing_signature'
+  | 'bad_signature'
+  | 'missing_timestamp'
+  | 'stale_timestamp'
+  | 'replayed_nonce'
+
+export interface WebhookAuthResult {
+  ok: boolean
+  reason?: WebhookRejectReason
+  detail?: string
+  nonce?: string
+}
+
+export interface IdempotencyKey {
+  key: string
+  /** Sent by the caller, as opposed to derived from the body hash */
+  explicit: boolean
+}
+
+export type ReplayKeyKind = 'nonce' | 'idempotency'
+
+const SECRET_FIELDS = ['secret', 'passphrase', 'webhook_secret']
+const DEFAULT_REPLAY_WINDOW_SEC = 300
+const EXPLICIT_KEY_TTL_SEC = 24 * 60 * 60
+
+const encoder = new TextEncoder()
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('')
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(message)))
+}
+
+export async function sha256Hex(message: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(message)))
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a)
+  const right = encoder.encode(b)
+  let diff = left.length ^ right.length
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0)
+  }
+  return diff === 0
+}
+
+/** Epoch seconds, epoch millis or an ISO string (TradingView's {{timenow}}) -> millis */
+export function parseTimestamp(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null
+  const numeric = Number(value)
+  if (Number.isFinite(numeric)) return numeric < 1e12 ? numeric * 1000 : numeric
+  const parsed = Date.parse(String(value))
+  return Number.isNaN(parsed) ? null : parsed
+}
+
+/** Copy of the payload without secret fields, safe to store in messages and logs */
+export function stripSecrets(body: any): any {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return body
+  const clean = { ...body }
+  for (const field of SECRET_FIELDS) delete clean[field]
+  return clean
+}
+
+export async function verifyWebhookRequest(
+  config: WebhookSecurityConfig | null,
+  req: Request,
+  bodyText: string,
+  body: any,
+  now = Date.now()
+): Promise<WebhookAuthResult> {
+  const mode: WebhookAuthMode = config?.auth_mode || 'none'
+  const expectedSecret = config?.webhook_secret || ''
+  const url = new URL(req.url)
+  const field = (name: string) => (body && typeof body === 'object' ? body[name] : undefined)
+
+  const providedSecret =
+    req.headers.get('x-webhook-secret') ||
+    url.searchParams.get('secret') ||
+    SECRET_FIELDS.map(field).find(v => typeof v === 'string' && v !== '') ||
+    ''
+  const signature = (req.headers.get('x-signature') || req.headers.get('x-hub-signature-256') || '')
+    .replace(/^sha256=/i, '')
+    .toLowerCase()
+  const headerTimestamp = req.headers.get('x-timestamp')
+  const rawTimestamp = headerTimestamp ?? field('timestamp') ?? field('ts')
+  const timestamp = parseTimestamp(rawTimestamp)
+  const nonce = req.headers.get('x-nonce') || (field('nonce') != null ? String(field('nonce')) : undefined)
+
+  if (mode === 'secret' && !providedSecret) {
+    return { ok: false, reason: 'missing_secret', detail: 'Room requires a shared secret' }
+  }
+  if (providedSecret && (!expectedSecret || !timingSafeEqual(providedSecret, expectedSecret))) {
+    return { ok: false, reason: 'bad_secret', detail: 'Shared secret does not match' }
+  }
+
+  if (mode === 'hmac' && !signature) {
+    return { ok: false, reason: 'missing_signature', detail: 'Room requires an X-Signature header' }
+  }
+  if (mode === 'hmac' && timestamp === null) {
+    return { ok: false, reason: 'missing_timestamp', detail: 'Signed requests must carry a timestamp' }
+  }
+  if (signature) {
+    const signed = headerTimestamp ? `${headerTimestamp}.${bodyText}` : bodyText
+    const expected = expectedSecret ? await hmacHex(expectedSecret, signed) : ''
+    if (!expected || !timingSafeEqual(signature, expected)) {
+      return { ok: false, reason: 'bad_signature', detail: 'HMAC signature does not match' }
+    }
+  }
+
+  // Unsigned alerts often carry TradingView's {{time}} (the bar's open, not the send
+  // time), so body timestamps only count when signed; an X-Timestamp header always does
+  const checkedTimestamp = mode === 'hmac' ? rawTimestamp : headerTimestamp
+  if (checkedTimestamp != null && checkedTimestamp !== '') {
+    const windowMs = (config?.replay_window_seconds || DEFAULT_REPLAY_WINDOW_SEC) * 1000
+    const sentAt = parseTimestamp(checkedTimestamp)
+    if (sentAt === null) {
+      return { ok: false, reason: 'stale_timestamp', detail: `Unreadable timestamp: ${checkedTimestamp}` }
+    }
+    const skew = Math.abs(now - sentAt)
+    if (skew > windowMs) {
+      return { ok: false, reason: 'stale_timestamp', detail: `Timestamp is ${Math.round(skew / 1000)}s off (window ${windowMs / 1000}s)` }
+    }
+  }
+
+  return { ok: true, nonce }
+}
+
+/**
+ * The caller's Idempotency-Key header or idempotency_key field. Not alert_id: TradingView
+ * templates send a fixed one, which would drop every later signal. Without a key, a hash
+ * of the raw body when the room opted in to body de-duplication (TradingView resends the
+ * exact same body when it retries), otherwise null: nothing is de-duplicated.
+ */
+export async function getIdempotencyKey(
+  req: Request,
+  bodyText: string,
+  body: any,
+  config: WebhookSecurityConfig | null
+): Promise<IdempotencyKey | null> {
+  const explicit =
+    req.headers.get('idempotency-key') ||
+    req.headers.get('x-idempotency-key') ||
+    (body && typeof body === 'object' ? body.idempotency_key : undefined)
+  if (explicit != null && String(explicit) !== '') return { key: String(explicit), explicit: true }
+  if (!config?.idempotency_window_seconds || config.idempotency_window_seconds <= 0) return null
+  return { key: `sha256:${await sha256Hex(bodyText)}`, explicit: false }
+}
+
+export function replayKeyTtl(config: WebhookSecurityConfig | null, kind: ReplayKeyKind, explicit = true): number {
+  if (kind === 'nonce') return Math.max(config?.replay_window_seconds || DEFAULT_REPLAY_WINDOW_SEC, 60) * 2
+  return explicit ? EXPLICIT_KEY_TTL_SEC : config?.idempotency_window_seconds || 0
+}
+
+/**
+ * Atomically claim a nonce or idempotency key for a room. When it is already
+ * taken, returns the message the first delivery produced (null while that
+ * delivery is still in flight).
+ */
+export async function claimReplayKey(
+  supabase: any,
+  roomId: string,
+  kind: ReplayKeyKind,
+  key: string,
+  ttlSeconds: number
+): Promise<{ claimed: boolean; messageId?: string | null; firstSeenAt?: string }> {
+  const now = new Date()
+  // Expired keys must not block a fresh claim
+  await supabase
+    .from('webhook_replay_keys')
+    .delete()
+    .eq('room_id', roomId)
+    .lt('expires_at', now.toISOString())
+
+  const { error } = await supabase.from('webhook_replay_keys').insert({
+    room_id: roomId,
+    kind,
+    key,
+    expires_at: new Date(now.getTime() + ttlSeconds * 1000).toISOString()
+  })
+  if (!error) return { claimed: true }
+  if (error.code !== '23505') throw error
+
+  const { data } = await supabase
+    .from('webhook_replay_keys')
+    .select('message_id, created_at')
+    .eq('room_id', roomId)
+    .eq('kind', kind)
+    .eq('key', key)
+    .maybeSingle()
+  return { claimed: false, messageId: data?.message_id ?? null, firstSeenAt: data?.created_at }
+}
+
+export async function attachReplayKeyMessage(supabase: any, roomId: string, key: string, messageId: string) {
+  await supabase
+    .from('webhook_replay_keys')
+    .update({ message_id: messageId })
+    .eq('room_id', roomId)
+    .eq('kind', 'idempotency')
+    .eq('key', key)
+}
+
+/** Give a key back after a failed delivery so the sender's retry can go through */
+export async function releaseReplayKey(supabase: any, roomId: string, kind: ReplayKeyKind, key: string) {
+  await supabase
+    .from('webhook_replay_keys')
+    .delete()
+    .eq('room_id', roomId)
+    .eq('kind', kind)
+    .eq('key', key)
+}
@@ -1,5 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getBrokerAdapter } from '../_shared/brokers/index.ts'
+import { snapshotSessionEquity } from '../_shared/risk.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -42,14 +44,16 @@ serve(async (req) => {
     let error: string | null = null
 
     // Connect based on broker type
-    if (brokerType === 'tradovate') {
-      const result = await connectTradovate(credentials)
-      session = result.session
-      error = result.error
-    } else if (brokerType === 'settrade') {
-      const result = await connectSettrade(credentials)
+    const adapter = getBrokerAdapter(brokerType)
+    if (adapter) {
+      const { data: existing } = await supabase
+        .from('broker_connections')
+        .select('session_data')
+        .eq('id', connectionId)
+        .maybeSingle()
+      const result = await adapter.connect(credentials, existing?.session_data)
       session = result.session
-      error = result.error
+      error = result.error ?? null
     } else if (brokerType === 'mt5') {
       // MT5 uses polling mechanism - just mark as active
       session = {
@@ -95,6 +99,19 @@ serve(async (req) => {
       })
       .eq('id', connectionId)
 
+    // A new session starts the day's daily-loss baseline if it has none yet
+    if (adapter) {
+      const { data: connection } = await supabase
+        .from('broker_connections')
+        .select('id, risk_state')
+        .eq('id', connectionId)
+        .single()
+      if (connection) {
+        await snapshotSessionEquity(supabase, connection, adapter, { credentials, session })
+          .catch((err: any) => console.warn('Session equity snapshot failed:', err.message))
+      }
+    }
+
     console.log(`✅ Connected to ${brokerType}`)
 
     return new Response(
@@ -117,126 +134,3 @@ serve(async (req) => {
     )
   }
 })
-
-// Tradovate connection
-async function connectTradovate(credentials: {
-  username: string
-  password: string
-  cid: string
-  deviceId?: string
-  env: 'demo' | 'live'
-}): Promise<{ session?: any; error?: string }> {
-  try {
-    const baseUrl = credentials.env === 'live'
-      ? 'https://live.tradovateapi.com/v1'
-      : 'https://demo.tradovateapi.com/v1'
-
-    console.log('🔐 Tradovate: Attempting login...')
-
-    const response = await fetch(`${baseUrl}/auth/accesstokenrequest`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        name: credentials.username,
-        password: credentials.password,
-        appId: 'ABLE-Terminal',
-        appVersion: '1.0',
-        deviceId: credentials.deviceId || 'ABLE-WebAPI',
-        cid: credentials.cid
-      })
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      console.error('❌ Tradovate login failed:', errorData)
-      return {
-        error: errorData.errorText || errorData.message || `HTTP ${response.status}`
-      }
-    }
-
-    const data = await response.json()
-    console.log('✅ Tradovate: Login successful')
-
-    // Get account info
-    let accountId = 0
-    try {
-      const accResponse = await fetch(`${baseUrl}/account/list`, {
-        headers: { 'Authorization': `Bearer ${data.accessToken}` }
-      })
-      if (accResponse.ok) {
-        const accounts = await accResponse.json()
-        if (accounts.length > 0) {
-          accountId = accounts[0].id
-          console.log('📊 Tradovate: Found account:', accounts[0].name)
-        }
-      }
-    } catch (e) {
-      console.warn('Could not fetch account info:', e)
-    }
-
-    return {
-      session: {
-        access_token: data.accessToken,
-        token_expiry: Date.now() + (data.expirationTime || 7200000) - 60000,
-        account_id: accountId,
-        account_spec: credentials.env === 'live' ? 'Live' : 'Demo'
-      }
-    }
-  } catch (err: any) {
-    console.error('❌ Tradovate connect error:', err)
-    return { error: err.message }
-  }
-}
-
-// Settrade connection
-async function connectSettrade(credentials: {
-  appId: string
-  appSecret: string
-  brokerId: string
-  accountNo: string
-  env: 'uat' | 'prod'
-}): Promise<{ session?: any; error?: string }> {
-  try {
-    const baseUrl = credentials.env === 'prod'
-      ? 'https://open-api.settrade.com/api'
-      : 'https://open-api-uat.settrade.com/api'
-
-    console.log('🔐 Settrade: Attempting authentication...')
-
-    const formData = new URLSearchParams()
-    formData.append('grant_type', 'client_credentials')
-    formData.append('client_id', credentials.appId)
-    formData.append('client_secret', credentials.appSecret)
-    formData.append('scope', 'EQUITY')
-
-    const response = await fetch(`${baseUrl}/oauth/token`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: formData.toString()
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      console.error('❌ Settrade auth failed:', errorData)
-      return {
-        error: errorData.error_description || errorData.message || `HTTP ${response.status}`
-      }
-    }
-
-    const data = await response.json()
-    console.log('✅ Settrade: Authentication successful')
-
-    return {
-      session: {
-        access_token: data.access_token,
-        token_expiry: Date.now() + ((data.expires_in || 3600) * 1000) - 60000,
-        token_type: data.token_type || 'Bearer',
-        account_no: credentials.accountNo,
-        broker_id: credentials.brokerId
-      }
-    }
-  } catch (err: any) {
-    console.error('❌ Settrade connect error:', err)
-    return { error: err.message }
-  }
-}
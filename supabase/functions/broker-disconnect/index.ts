@@ -27,13 +27,19 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
-    // Clear session and mark as disconnected
+    const { data: connection } = await supabase
+      .from('broker_connections')
+      .select('broker_type')
+      .eq('id', connectionId)
+      .maybeSingle()
+
+    // Clear session and mark as disconnected; a paper account keeps its book for the next connect
     const { error } = await supabase
       .from('broker_connections')
       .update({
         is_active: false,
         is_connected: false,
-        session_data: null,
+        ...(connection?.broker_type === 'paper' ? {} : { session_data: null }),
         updated_at: new Date().toISOString()
       })
       .eq('id', connectionId)
@@ -1,5 +1,9 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getBrokerAdapter, loadSession, saveSession } from '../_shared/brokers/index.ts'
+import { evaluatePreTradeRisk, getRiskUsage } from '../_shared/risk.ts'
+
+const MAX_SESSION_RETRIES = 3
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -68,18 +72,16 @@ serve(async (req) => {
       )
     }
 
-    // Check position size limit
-    if (quantity && quantity > (connection.max_position_size || 100)) {
+    const adapter = getBrokerAdapter(connection.broker_type)
+    if (!adapter) {
       return new Response(
-        JSON.stringify({
-          success: false,
-          error: `Quantity exceeds max limit (${connection.max_position_size})`
-        }),
+        JSON.stringify({ success: false, error: 'Unknown broker type' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
     const session = connection.session_data as any
+    const normalizedAction = String(action).toLowerCase()
 
     // Check if token is valid
     if (Date.now() >= session.token_expiry) {
@@ -99,6 +101,69 @@ serve(async (req) => {
       )
     }
 
+    const ctx = { credentials: connection.credentials, session }
+
+    // Read-only queries: no forward log, no order stats
+    if (normalizedAction === 'positions' || normalizedAction === 'fills') {
+      const data = normalizedAction === 'positions'
+        ? await adapter.positions(ctx)
+        : await adapter.fills(ctx)
+      return new Response(
+        JSON.stringify({ success: true, [normalizedAction]: data }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (normalizedAction === 'risk') {
+      const usage = await getRiskUsage(supabase, connection, adapter, ctx)
+      return new Response(
+        JSON.stringify({ success: true, limits: connection.risk_limits || {}, usage }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!['buy', 'sell', 'close', 'cancel'].includes(normalizedAction)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid action' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Pre-trade risk checks; rejections are logged but never reach the broker
+    const risk = await evaluatePreTradeRisk(supabase, connection, adapter, ctx, { action: normalizedAction, symbol, quantity })
+    if (!risk.allowed) {
+      console.warn(`🛑 Risk rejected (${risk.check}): ${risk.reason}`)
+      const { data: rejectedLog } = await supabase
+        .from('api_forward_logs')
+        .insert({
+          connection_id: connectionId,
+          room_id: roomId || connection.room_id,
+          message_id: messageId,
+          broker_type: connection.broker_type,
+          action,
+          symbol: symbol || '',
+          quantity: quantity || 0,
+          price,
+          status: 'rejected',
+          error_message: `[${risk.check}] ${risk.reason}`,
+          response_data: { risk_check: risk.check },
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single()
+
+      return new Response(
+        JSON.stringify({
+          success: false,
+          rejected: true,
+          check: risk.check,
+          error: risk.reason,
+          logId: rejectedLog?.id
+        }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
     // Create forward log (pending)
     const { data: forwardLog } = await supabase
       .from('api_forward_logs')
@@ -117,32 +182,28 @@ serve(async (req) => {
       .select()
       .single()
 
-    let result: any
+    const submit = () => normalizedAction === 'cancel'
+      ? adapter.cancel(ctx, orderId)
+      : adapter.placeOrder(ctx, {
+          action: normalizedAction as 'buy' | 'sell' | 'close',
+          symbol,
+          quantity,
+          price,
+          orderType
+        })
 
-    // Execute order based on broker type and action
-    if (connection.broker_type === 'tradovate') {
-      result = await executeTradovateOrder({
-        credentials: connection.credentials,
-        session,
-        action,
-        symbol,
-        quantity,
-        price,
-        orderType,
-        orderId
-      })
-    } else if (connection.broker_type === 'settrade') {
-      result = await executeSettradeOrder({
-        credentials: connection.credentials,
-        session,
-        action,
-        symbol,
-        quantity,
-        price,
-        orderId
-      })
-    } else {
-      result = { success: false, latency: 0, error: 'Unknown broker type' }
+    // Adapters that keep state in the session (paper) return a new one: store it only if
+    // nothing else wrote the session since it was read, else redo the order on the fresh one
+    let base = session
+    let result = await submit()
+    for (let attempt = 1; result.session && !(await saveSession(supabase, connectionId, base, result.session)); attempt++) {
+      if (attempt >= MAX_SESSION_RETRIES) {
+        result = { success: false, latency: result.latency, error: 'Account changed concurrently; order not placed' }
+        break
+      }
+      base = await loadSession(supabase, connectionId)
+      ctx.session = base
+      result = await submit()
     }
 
     // Update forward log
@@ -196,262 +257,3 @@ serve(async (req) => {
     )
   }
 })
-
-async function executeTradovateOrder(params: {
-  credentials: any
-  session: any
-  action: string
-  symbol?: string
-  quantity?: number
-  price?: number
-  orderType?: string
-  orderId?: string
-}) {
-  const { credentials, session, action, symbol, quantity, price, orderType, orderId } = params
-  const baseUrl = credentials.env === 'live'
-    ? 'https://live.tradovateapi.com/v1'
-    : 'https://demo.tradovateapi.com/v1'
-
-  const start = Date.now()
-
-  try {
-    switch (action.toLowerCase()) {
-      case 'buy':
-      case 'sell': {
-        console.log('📤 Tradovate: Placing order...', { action, symbol, quantity })
-
-        const orderPayload: any = {
-          accountSpec: session.account_spec,
-          accountId: session.account_id,
-          action: action.toLowerCase() === 'buy' ? 'Buy' : 'Sell',
-          symbol,
-          orderQty: quantity,
-          orderType: orderType || 'Market',
-          isAutomated: true
-        }
-
-        if (orderType === 'Limit' && price) {
-          orderPayload.price = price
-        }
-        if (orderType === 'Stop' && price) {
-          orderPayload.stopPrice = price
-        }
-
-        console.log('📦 Order payload:', JSON.stringify(orderPayload))
-
-        const response = await fetch(`${baseUrl}/order/placeorder`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${session.access_token}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify(orderPayload)
-        })
-
-        const latency = Date.now() - start
-        const data = await response.json()
-
-        if (!response.ok) {
-          console.error('❌ Tradovate order failed:', data)
-          return {
-            success: false,
-            latency,
-            error: data.errorText || data.message || `HTTP ${response.status}`,
-            rawResponse: data
-          }
-        }
-
-        console.log('✅ Tradovate order success:', data)
-        return {
-          success: true,
-          orderId: data.orderId?.toString(),
-          orderStatus: data.orderStatus || 'Submitted',
-          latency,
-          rawResponse: data
-        }
-      }
-
-      case 'close': {
-        // Get current position first
-        const posResponse = await fetch(`${baseUrl}/position/list`, {
-          headers: { 'Authorization': `Bearer ${session.access_token}` }
-        })
-
-        if (!posResponse.ok) {
-          return { success: false, latency: Date.now() - start, error: 'Failed to get positions' }
-        }
-
-        const positions = await posResponse.json()
-        const position = positions.find((p: any) =>
-          p.netPos !== 0 && (p.contract?.name === symbol || p.symbol === symbol)
-        )
-
-        if (!position) {
-          return { success: false, latency: Date.now() - start, error: 'No position found' }
-        }
-
-        // Place opposite order to close
-        const closeAction = position.netPos > 0 ? 'Sell' : 'Buy'
-        const closeQty = Math.abs(position.netPos)
-
-        const closePayload = {
-          accountSpec: session.account_spec,
-          accountId: session.account_id,
-          action: closeAction,
-          symbol,
-          orderQty: closeQty,
-          orderType: 'Market',
-          isAutomated: true
-        }
-
-        const response = await fetch(`${baseUrl}/order/placeorder`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${session.access_token}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify(closePayload)
-        })
-
-        const latency = Date.now() - start
-        const data = await response.json()
-
-        if (!response.ok) {
-          return { success: false, latency, error: data.errorText || 'Close failed', rawResponse: data }
-        }
-
-        return { success: true, orderId: data.orderId?.toString(), latency, rawResponse: data }
-      }
-
-      case 'cancel': {
-        const response = await fetch(`${baseUrl}/order/cancelorder`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${session.access_token}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({ orderId: parseInt(orderId || '0') })
-        })
-
-        const latency = Date.now() - start
-
-        if (!response.ok) {
-          const data = await response.json()
-          return { success: false, latency, error: data.errorText || 'Cancel failed' }
-        }
-
-        return { success: true, latency }
-      }
-
-      default:
-        return { success: false, latency: 0, error: 'Invalid action' }
-    }
-  } catch (err: any) {
-    console.error('❌ Tradovate order error:', err)
-    return { success: false, latency: Date.now() - start, error: err.message }
-  }
-}
-
-async function executeSettradeOrder(params: {
-  credentials: any
-  session: any
-  action: string
-  symbol?: string
-  quantity?: number
-  price?: number
-  orderId?: string
-}) {
-  const { credentials, session, action, symbol, quantity, price, orderId } = params
-  const baseUrl = credentials.env === 'prod'
-    ? 'https://open-api.settrade.com/api'
-    : 'https://open-api-uat.settrade.com/api'
-
-  const { brokerId, accountNo, pin } = credentials
-  const authHeader = `${session.token_type} ${session.access_token}`
-  const start = Date.now()
-
-  try {
-    switch (action.toLowerCase()) {
-      case 'buy':
-      case 'sell': {
-        console.log('📤 Settrade: Placing order...', { action, symbol, quantity })
-
-        const orderPayload: any = {
-          symbol: symbol?.toUpperCase(),
-          side: action.toLowerCase() === 'buy' ? 'B' : 'S',
-          volume: quantity,
-          priceType: price ? 'LMT' : 'MP',
-          validity: 'DAY'
-        }
-
-        if (price) {
-          orderPayload.price = price
-        }
-        if (pin) {
-          orderPayload.pin = pin
-        }
-
-        console.log('📦 Order payload:', JSON.stringify(orderPayload))
-
-        const response = await fetch(
-          `${baseUrl}/equity/${brokerId}/accounts/${accountNo}/orders`,
-          {
-            method: 'POST',
-            headers: {
-              'Authorization': authHeader,
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify(orderPayload)
-          }
-        )
-
-        const latency = Date.now() - start
-        const data = await response.json()
-
-        if (!response.ok) {
-          console.error('❌ Settrade order failed:', data)
-          return {
-            success: false,
-            latency,
-            error: data.message || data.error_description || `HTTP ${response.status}`,
-            rawResponse: data
-          }
-        }
-
-        console.log('✅ Settrade order success:', data)
-        return {
-          success: true,
-          orderId: data.orderNo || data.orderId,
-          orderStatus: data.status || 'Submitted',
-          latency,
-          rawResponse: data
-        }
-      }
-
-      case 'cancel': {
-        const response = await fetch(
-          `${baseUrl}/equity/${brokerId}/accounts/${accountNo}/orders/${orderId}`,
-          {
-            method: 'DELETE',
-            headers: { 'Authorization': authHeader }
-          }
-        )
-
-        const latency = Date.now() - start
-
-        if (!response.ok) {
-          const data = await response.json()
-          return { success: false, latency, error: data.message || 'Cancel failed' }
-        }
-
-        return { success: true, latency }
-      }
-
-      default:
-        return { success: false, latency: 0, error: 'Invalid action for Settrade' }
-    }
-  } catch (err: any) {
-    console.error('❌ Settrade order error:', err)
-    return { success: false, latency: Date.now() - start, error: err.message }
-  }
-}
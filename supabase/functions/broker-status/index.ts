@@ -1,5 +1,6 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getBrokerAdapter, saveSession } from '../_shared/brokers/index.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -66,14 +67,20 @@ serve(async (req) => {
     }
 
     // Get status based on broker type
-    let status: any
-
-    if (connection.broker_type === 'tradovate') {
-      status = await getTradovateStatus(connection.credentials, session)
-    } else if (connection.broker_type === 'settrade') {
-      status = await getSettradeStatus(connection.credentials, session)
-    } else {
-      status = { connected: false, latency: 0, error: 'Unknown broker type' }
+    const adapter = getBrokerAdapter(connection.broker_type)
+    const { session: nextSession, ...status } = adapter
+      ? await adapter.status({ credentials: connection.credentials, session })
+      : { connected: false, latency: 0, error: 'Unknown broker type', session: undefined }
+
+    // A conflict means an order changed the book meanwhile; the next check sweeps again
+    if (nextSession) {
+      try {
+        if (!(await saveSession(supabase, connectionId, session, nextSession))) {
+          console.warn('⚠️ Session changed during status check, sweep not saved')
+        }
+      } catch (saveError) {
+        console.error('❌ Failed to save session:', saveError)
+      }
     }
 
     return new Response(
@@ -89,98 +96,3 @@ serve(async (req) => {
     )
   }
 })
-
-async function getTradovateStatus(credentials: any, session: any) {
-  const baseUrl = credentials.env === 'live'
-    ? 'https://live.tradovateapi.com/v1'
-    : 'https://demo.tradovateapi.com/v1'
-
-  const start = Date.now()
-
-  try {
-    // Get account details
-    const accResponse = await fetch(`${baseUrl}/account/list`, {
-      headers: { 'Authorization': `Bearer ${session.access_token}` }
-    })
-
-    const latency = Date.now() - start
-
-    if (!accResponse.ok) {
-      return { connected: false, latency, error: 'Failed to get account info' }
-    }
-
-    const accounts = await accResponse.json()
-    const account = accounts[0]
-
-    // Get positions
-    let positionsCount = 0
-    try {
-      const posResponse = await fetch(`${baseUrl}/position/list`, {
-        headers: { 'Authorization': `Bearer ${session.access_token}` }
-      })
-      if (posResponse.ok) {
-        const positions = await posResponse.json()
-        positionsCount = positions.filter((p: any) => p.netPos !== 0).length
-      }
-    } catch (e) {
-      console.warn('Could not fetch positions:', e)
-    }
-
-    return {
-      connected: true,
-      latency,
-      account: {
-        id: account?.id,
-        name: account?.name,
-        balance: account?.cashBalance || 0,
-        equity: account?.netLiq || 0,
-        margin: account?.marginUsed || 0,
-        positions: positionsCount
-      }
-    }
-  } catch (err: any) {
-    return { connected: false, latency: Date.now() - start, error: err.message }
-  }
-}
-
-async function getSettradeStatus(credentials: any, session: any) {
-  const baseUrl = credentials.env === 'prod'
-    ? 'https://open-api.settrade.com/api'
-    : 'https://open-api-uat.settrade.com/api'
-
-  const start = Date.now()
-  const { brokerId, accountNo } = credentials
-
-  try {
-    const response = await fetch(
-      `${baseUrl}/equity/${brokerId}/accounts/${accountNo}/portfolios`,
-      {
-        headers: {
-          'Authorization': `${session.token_type} ${session.access_token}`
-        }
-      }
-    )
-
-    const latency = Date.now() - start
-
-    if (!response.ok) {
-      return { connected: false, latency, error: 'Failed to get account info' }
-    }
-
-    const data = await response.json()
-
-    return {
-      connected: true,
-      latency,
-      account: {
-        accountNo: accountNo,
-        balance: data.cashBalance || data.cash || 0,
-        equity: data.equity || data.totalValue || 0,
-        buyingPower: data.buyingPower || data.purchasingPower || 0,
-        positions: data.positions?.length || data.portfolios?.length || 0
-      }
-    }
-  } catch (err: any) {
-    return { connected: false, latency: Date.now() - start, error: err.message }
-  }
-}
@@ -0,0 +1,67 @@
+// Daily session start for the pre-trade risk engine: snapshots each active
+// connection's equity as the day's daily-loss baseline. Scheduled at 00:00 UTC by
+// pg_cron; safe to re-run, connections that already have today's baseline are skipped.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getBrokerAdapter } from '../_shared/brokers/index.ts'
+import { snapshotSessionEquity } from '../_shared/risk.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, GET, OPTIONS, DELETE',
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { data: connections, error } = await supabase
+      .from('broker_connections')
+      .select('id, broker_type, credentials, session_data, risk_state')
+      .eq('is_active', true)
+      .not('session_data', 'is', null)
+
+    if (error) throw new Error(error.message)
+
+    let snapshotted = 0
+    const failed: string[] = []
+    for (const connection of connections || []) {
+      // MT5 has no adapter: its orders go through the EA, not the risk engine
+      const adapter = getBrokerAdapter(connection.broker_type)
+      if (!adapter) continue
+      try {
+        await snapshotSessionEquity(supabase, connection, adapter, {
+          credentials: connection.credentials,
+          session: connection.session_data
+        })
+        snapshotted++
+      } catch (err: any) {
+        console.warn(`Session equity snapshot failed for ${connection.id}:`, err.message)
+        failed.push(connection.id)
+      }
+    }
+
+    console.log(`📊 Session start: ${snapshotted} baselines, ${failed.length} failed`)
+
+    return new Response(
+      JSON.stringify({ success: true, snapshotted, failed }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (err: any) {
+    console.error('❌ Session start error:', err)
+    return new Response(
+      JSON.stringify({ success: false, error: err.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,340 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY')
+// Server-side bot credentials, used when the client doesn't send its own
+const TELEGRAM_BOT_TOKEN = Deno.env.get('TELEGRAM_BOT_TOKEN')
+const LINE_CHANNEL_ACCESS_TOKEN = Deno.env.get('LINE_CHANNEL_ACCESS_TOKEN')
+
+// Per-user sends allowed per channel in the trailing window, whatever the client's own limits say
+const SERVER_RATE_LIMITS: Record<string, { max: number; windowMinutes: number }> = {
+  email: { max: 30, windowMinutes: 60 },
+  telegram: { max: 120, windowMinutes: 60 },
+  line: { max: 60, windowMinutes: 60 },
+  webhook: { max: 240, windowMinutes: 60 },
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+interface AlertPayload {
+  title: string
+  message: string
+  symbol?: string
+  timeframe?: string
+  price?: number
+  source?: string
+  timestamp?: number
+}
+
+const plainText = (alert: AlertPayload) =>
+  [
+    `🔔 ${alert.title}`,
+    alert.message,
+    alert.price !== undefined ? `Price: ${alert.price}` : '',
+    alert.timestamp ? new Date(alert.timestamp).toISOString() : '',
+  ].filter(Boolean).join('\n')
+
+async function sendEmail(alert: AlertPayload, to: string) {
+  if (!RESEND_API_KEY) {
+    console.log('⚠️ RESEND_API_KEY not configured, returning mock success')
+    return json({ success: true, message: 'Email notification simulated (RESEND_API_KEY not configured)', demo: true })
+  }
+
+  const formattedDate = new Date(alert.timestamp ?? Date.now()).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+  const emailResponse = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${RESEND_API_KEY}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      from: 'ABLE Terminal <notifications@able.com>',
+      to,
+      subject: `🔔 ${alert.title}`,
+      html: `
+        <div style="font-family: 'Courier New', monospace; background: #0a0a0a; color: #00ff00; padding: 30px; border: 1px solid #00ff00;">
+          <div style="text-align: center; margin-bottom: 20px;">
+            <h1 style="color: #00ff00; margin: 0; font-size: 24px;">🔔 ABLE TERMINAL</h1>
+            <p style="color: #666; margin: 5px 0;">Alert Triggered</p>
+          </div>
+
+          <div style="background: #111; padding: 20px; border: 1px solid #333; border-radius: 4px;">
+            <h2 style="color: #00ff00; margin: 0 0 15px 0; font-size: 20px;">${escapeHtml(alert.title)}</h2>
+            <p style="color: #ccc; margin: 0 0 15px 0;">${escapeHtml(alert.message)}</p>
+
+            <table style="width: 100%; color: #ccc;">
+              ${alert.symbol ? `
+              <tr>
+                <td style="padding: 8px 0; color: #888;">Symbol:</td>
+                <td style="padding: 8px 0;">${escapeHtml(alert.symbol)}${alert.timeframe ? ` · ${escapeHtml(alert.timeframe)}` : ''}</td>
+              </tr>
+              ` : ''}
+              ${alert.price !== undefined ? `
+              <tr>
+                <td style="padding: 8px 0; color: #888;">Price:</td>
+                <td style="padding: 8px 0;">${alert.price}</td>
+              </tr>
+              ` : ''}
+              <tr>
+                <td style="padding: 8px 0; color: #888;">Time:</td>
+                <td style="padding: 8px 0;">${formattedDate}</td>
+              </tr>
+            </table>
+          </div>
+
+          <div style="margin-top: 20px; padding-top: 20px; border-top: 1px solid #333; text-align: center;">
+            <p style="color: #666; font-size: 12px; margin: 0;">
+              This alert was sent from ABLE Terminal.
+            </p>
+          </div>
+        </div>
+      `
+    })
+  })
+
+  const result = await emailResponse.json()
+  if (!emailResponse.ok) {
+    console.error('❌ Resend API error:', result)
+    throw new Error(result.message || 'Failed to send email')
+  }
+  return json({ success: true, messageId: result.id })
+}
+
+async function sendTelegram(alert: AlertPayload, botToken: string, chatId: string) {
+  const response = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ chat_id: chatId, text: plainText(alert), disable_web_page_preview: true }),
+  })
+  const result = await response.json()
+  if (!response.ok || !result.ok) {
+    throw new Error(result.description || `Telegram API error ${response.status}`)
+  }
+  return json({ success: true, messageId: result.result?.message_id })
+}
+
+async function sendLine(alert: AlertPayload, accessToken: string, to: string) {
+  const response = await fetch('https://api.line.me/v2/bot/message/push', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ to, messages: [{ type: 'text', text: plainText(alert).slice(0, 5000) }] }),
+  })
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}))
+    throw new Error(result.message || `LINE API error ${response.status}`)
+  }
+  return json({ success: true })
+}
+
+// ---- Webhook target checks (no requests into private or internal networks) ----
+
+const ipv4ToInt = (ip: string) => ip.split('.').reduce((acc, part) => acc * 256 + Number(part), 0)
+
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+]
+
+const isPrivateIPv4 = (ip: string) => {
+  const value = ipv4ToInt(ip)
+  return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits)
+    const start = ipv4ToInt(base)
+    return value >= start && value < start + size
+  })
+}
+
+const isPrivateIPv6 = (ip: string) => {
+  const lower = ip.toLowerCase()
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isPrivateIPv4(mapped[1])
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || /^ff/.test(lower)
+}
+
+const isIPv4 = (host: string) => /^\d+\.\d+\.\d+\.\d+$/.test(host)
+
+/** Throws unless every address the host resolves to is public */
+async function assertPublicHost(hostname: string) {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '')
+  if (host === 'localhost' || /\.(localhost|local|internal|lan|home\.arpa)$/.test(host)) {
+    throw new Error('Webhook host is not public')
+  }
+  if (isIPv4(host) || host.includes(':')) {
+    if (isIPv4(host) ? isPrivateIPv4(host) : isPrivateIPv6(host)) throw new Error('Webhook host is not public')
+    return
+  }
+  const [v4, v6] = await Promise.all([
+    Deno.resolveDns(host, 'A').catch(() => [] as string[]),
+    Deno.resolveDns(host, 'AAAA').catch(() => [] as string[]),
+  ])
+  if (v4.length + v6.length === 0) throw new Error('Webhook host does not resolve')
+  if (v4.some(isPrivateIPv4) || v6.some(isPrivateIPv6)) throw new Error('Webhook host is not public')
+}
+
+async function sendWebhook(url: string, body: string) {
+  let target: URL
+  try {
+    target = new URL(url)
+  } catch {
+    return json({ error: 'Invalid webhook URL' }, 400)
+  }
+  if (target.protocol !== 'https:') {
+    return json({ error: 'Webhook URL must use https' }, 400)
+  }
+  try {
+    await assertPublicHost(target.hostname)
+  } catch (error) {
+    return json({ error: (error as Error).message }, 400)
+  }
+
+  // Redirects are not followed: they could point back into a private network
+  const response = await fetch(target, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'User-Agent': 'ABLE-Terminal-Alerts/1.0' },
+    body,
+    redirect: 'manual',
+  })
+  if (!response.ok) {
+    throw new Error(`Webhook responded ${response.status} ${response.statusText}`)
+  }
+  return json({ success: true, status: response.status })
+}
+
+// ---- Per-user checks ----
+
+/**
+ * Server credentials only reach recipients the user has confirmed they own. Rows are
+ * written by the service role once verified; users can't insert or mark them themselves
+ */
+async function isVerifiedRecipient(supabase: SupabaseClient, userId: string, channel: string, address: string) {
+  const { data, error } = await supabase
+    .from('alert_recipients')
+    .select('address')
+    .eq('user_id', userId)
+    .eq('channel', channel)
+    .eq('address', address)
+    .not('verified_at', 'is', null)
+    .maybeSingle()
+  if (error) throw error
+  return !!data
+}
+
+/** Records the send when the user is under the channel's server-side limit */
+async function takeRateLimitSlot(supabase: SupabaseClient, userId: string, channel: string) {
+  const { max, windowMinutes } = SERVER_RATE_LIMITS[channel]
+  const since = new Date(Date.now() - windowMinutes * 60_000).toISOString()
+  const { count, error } = await supabase
+    .from('alert_delivery_log')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('channel', channel)
+    .gte('created_at', since)
+  if (error) throw error
+  if ((count ?? 0) >= max) return false
+
+  const { error: insertError } = await supabase.from('alert_delivery_log').insert({ user_id: userId, channel })
+  if (insertError) throw insertError
+  return true
+}
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) return json({ error: 'Unauthorized' }, 401)
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+    const { data: { user } } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+    if (!user) return json({ error: 'Unauthorized' }, 401)
+
+    const { channel, alert, target = {} } = await req.json()
+
+    console.log('🔔 Sending alert notification:', { channel, title: alert?.title, user: user.id })
+
+    if (!channel || !alert?.title) {
+      return json({ error: 'Missing required fields: channel and alert.title' }, 400)
+    }
+    if (!SERVER_RATE_LIMITS[channel]) {
+      return json({ error: `Unknown channel: ${channel}` }, 400)
+    }
+
+    // Validate the target before spending a rate-limit slot on it
+    switch (channel) {
+      // Until recipients can verify an address, the server's email key only mails the account itself
+      case 'email':
+        if (!user.email) return json({ error: 'This account has no email address' }, 400)
+        if (target.to && target.to !== user.email) {
+          return json({ error: 'Email alerts can only be sent to your account email' }, 403)
+        }
+        break
+
+      case 'telegram':
+        if (!target.chatId || !(target.botToken || TELEGRAM_BOT_TOKEN)) {
+          return json({ error: 'Missing Telegram bot token or chat id' }, 400)
+        }
+        if (!target.botToken && !(await isVerifiedRecipient(supabase, user.id, 'telegram', String(target.chatId)))) {
+          return json({ error: 'Telegram chat is not verified for this account' }, 403)
+        }
+        break
+
+      case 'line':
+        if (!target.to || !(target.channelAccessToken || LINE_CHANNEL_ACCESS_TOKEN)) {
+          return json({ error: 'Missing LINE channel access token or recipient' }, 400)
+        }
+        if (!target.channelAccessToken && !(await isVerifiedRecipient(supabase, user.id, 'line', target.to))) {
+          return json({ error: 'LINE recipient is not verified for this account' }, 403)
+        }
+        break
+
+      case 'webhook':
+        if (!target.url || typeof target.body !== 'string') return json({ error: 'Missing webhook url or body' }, 400)
+        break
+    }
+
+    if (!(await takeRateLimitSlot(supabase, user.id, channel))) {
+      const { max, windowMinutes } = SERVER_RATE_LIMITS[channel]
+      return json({ error: `Rate limited: over ${max} ${channel} sends per ${windowMinutes} min` }, 429)
+    }
+
+    switch (channel) {
+      case 'email':
+        return await sendEmail(alert, user.email!)
+      case 'telegram':
+        return await sendTelegram(alert, target.botToken || TELEGRAM_BOT_TOKEN!, String(target.chatId))
+      case 'line':
+        return await sendLine(alert, target.channelAccessToken || LINE_CHANNEL_ACCESS_TOKEN!, target.to)
+      default:
+        return await sendWebhook(target.url, target.body)
+    }
+
+  } catch (error: any) {
+    console.error('❌ Error sending alert notification:', error)
+    return json({ error: error.message }, 500)
+  }
+})
@@ -1,9 +1,20 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  verifyWebhookRequest,
+  getIdempotencyKey,
+  claimReplayKey,
+  attachReplayKeyMessage,
+  releaseReplayKey,
+  replayKeyTtl,
+  stripSecrets,
+  type ReplayKeyKind,
+  type WebhookSecurityConfig
+} from '../_shared/webhookAuth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-webhook-secret, x-signature, x-timestamp, x-nonce, idempotency-key',
 }
 
 interface TradeSignal {
@@ -166,7 +177,7 @@ function detectSymbolFromText(text: string): string {
 // Sanitize log output
 function sanitizeLog(obj: any): any {
   if (!obj || typeof obj !== 'object') return obj;
-  const sensitive = ['password', 'secret', 'token', 'appSecret', 'pin', 'cid', 'credentials', 'apiKey'];
+  const sensitive = ['password', 'secret', 'passphrase', 'token', 'appSecret', 'pin', 'cid', 'credentials', 'apiKey'];
   const sanitized = { ...obj };
   for (const key of sensitive) {
     if (sanitized[key]) sanitized[key] = '[REDACTED]';
@@ -197,6 +208,7 @@ serve(async (req) => {
   let parsedBody: any = null;
   let roomId = '';
   let webhookId: string | null = null;
+  const claimedKeys: { kind: ReplayKeyKind; key: string }[] = [];
   
   try {
     console.log(`🔗 [${requestId}] ============ WEBHOOK START ============`)
@@ -270,7 +282,7 @@ serve(async (req) => {
         console.log(`⚠️ [${requestId}] Received plain text, converted to JSON structure`);
       }
       
-      console.log(`📦 [${requestId}] Parsed payload:`, JSON.stringify(parsedBody, null, 2))
+      console.log(`📦 [${requestId}] Parsed payload:`, JSON.stringify(sanitizeLog(parsedBody), null, 2))
     } catch (e) {
       console.error(`❌ [${requestId}] Body processing error:`, e)
       
@@ -297,46 +309,73 @@ serve(async (req) => {
     // ========================================================================
     // STEP 3: Verify Webhook Room Exists (with fallback)
     // ========================================================================
+    // A room without a webhook record has no auth configured. A lookup that fails
+    // is different: the room may require a secret or HMAC, so never continue without it.
     let webhook: any = null;
-    
+
+    const securityUnavailable = async (detail: string) => {
+      await logWebhookDelivery(supabase, {
+        request_id: requestId,
+        room_id: roomId,
+        payload: stripSecrets(parsedBody),
+        status: 'failed',
+        error_message: detail,
+        execution_time_ms: Date.now() - startTime
+      });
+      return new Response(JSON.stringify({
+        error: 'Webhook security configuration unavailable, retry later',
+        requestId,
+        roomId
+      }), {
+        status: 503,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': '5' }
+      });
+    };
+
     try {
       webhook = await retryOperation(async () => {
         console.log(`🔍 [${requestId}] Looking for webhook with room_id: ${roomId}`)
         
         const { data, error } = await supabase
           .from('webhooks')
-          .select('id, room_id, is_active, webhook_url')
+          .select('id, room_id, is_active, webhook_url, webhook_secret, auth_mode, replay_window_seconds, idempotency_window_seconds')
           .eq('room_id', roomId)
-          .single()
+          .maybeSingle()
         
         if (error) {
           console.error(`❌ [${requestId}] Webhook lookup error:`, error)
           throw error
         }
-        if (!data) {
-          throw new Error(`Webhook not found for room: ${roomId}`)
-        }
         
-        console.log(`✅ [${requestId}] Found webhook:`, data.id)
+        if (data) console.log(`✅ [${requestId}] Found webhook:`, data.id)
         return data
       }, 3, 100, 5000);
       
       webhookId = webhook?.id || null;
     } catch (webhookError) {
-      console.warn(`⚠️ [${requestId}] Webhook lookup failed, checking if room exists directly...`);
+      console.error(`❌ [${requestId}] Webhook lookup failed, refusing to continue without its auth settings`);
+      return await securityUnavailable(`Webhook lookup failed: ${webhookError instanceof Error ? webhookError.message : String(webhookError)}`);
+    }
+
+    if (!webhook) {
+      console.warn(`⚠️ [${requestId}] No webhook record, checking if room exists directly...`);
       
       // Fallback: check if room exists in chat_rooms
-      const { data: room } = await supabase
+      const { data: room, error: roomError } = await supabase
         .from('chat_rooms')
         .select('id, name, type')
         .eq('id', roomId)
-        .single();
+        .maybeSingle();
       
+      if (roomError) {
+        return await securityUnavailable(`Room lookup failed: ${roomError.message}`);
+      }
+
       if (!room) {
         await logWebhookDelivery(supabase, {
           request_id: requestId,
           room_id: roomId,
-          payload: parsedBody,
+          payload: stripSecrets(parsedBody),
           status: 'failed',
           error_message: `Room not found: ${roomId}`,
           execution_time_ms: Date.now() - startTime
@@ -355,6 +394,75 @@ serve(async (req) => {
       console.log(`✅ [${requestId}] Room exists, proceeding without webhook record:`, room.name);
     }
 
+    // ========================================================================
+    // STEP 3.5: Authenticate, reject replays, drop retried deliveries
+    // ========================================================================
+    const security: WebhookSecurityConfig | null = webhook;
+    const auth = await verifyWebhookRequest(security, req, bodyText, parsedBody);
+    const safePayload = stripSecrets(parsedBody);
+
+    const reject = async (reason: string, detail: string, status: number) => {
+      console.warn(`🛡️ [${requestId}] Rejected (${reason}): ${detail}`);
+      await logWebhookDelivery(supabase, {
+        request_id: requestId,
+        room_id: roomId,
+        webhook_id: webhookId,
+        payload: safePayload,
+        status: 'rejected',
+        error_message: `[${reason}] ${detail}`,
+        execution_time_ms: Date.now() - startTime
+      });
+      return new Response(JSON.stringify({ success: false, rejected: true, reason, error: detail, requestId }), {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    };
+
+    if (!auth.ok) {
+      const status = auth.reason === 'stale_timestamp' ? 409 : 401;
+      return await reject(auth.reason!, auth.detail || 'Unauthorized', status);
+    }
+
+    if (auth.nonce) {
+      const nonceClaim = await claimReplayKey(supabase, roomId, 'nonce', auth.nonce, replayKeyTtl(security, 'nonce'));
+      if (!nonceClaim.claimed) {
+        return await reject('replayed_nonce', `Nonce ${auth.nonce} was already used`, 409);
+      }
+      claimedKeys.push({ kind: 'nonce', key: auth.nonce });
+    }
+
+    // Only explicit keys are de-duplicated, plus identical bodies in rooms that opted in
+    const idempotency = await getIdempotencyKey(req, bodyText, parsedBody, security);
+    const idempotencyClaim = idempotency
+      ? await claimReplayKey(supabase, roomId, 'idempotency', idempotency.key, replayKeyTtl(security, 'idempotency', idempotency.explicit))
+      : null;
+    if (idempotency && idempotencyClaim && !idempotencyClaim.claimed) {
+      console.log(`♻️ [${requestId}] Duplicate delivery for key ${idempotency.key}`);
+      await logWebhookDelivery(supabase, {
+        request_id: requestId,
+        room_id: roomId,
+        webhook_id: webhookId,
+        message_id: idempotencyClaim.messageId || undefined,
+        idempotency_key: idempotency.key,
+        payload: safePayload,
+        status: 'duplicate',
+        error_message: `Duplicate of delivery first seen at ${idempotencyClaim.firstSeenAt ?? 'unknown'}`,
+        execution_time_ms: Date.now() - startTime
+      });
+      // 200 so the sender stops retrying; nothing new is posted
+      return new Response(JSON.stringify({
+        success: true,
+        duplicate: true,
+        requestId,
+        messageId: idempotencyClaim.messageId ?? null,
+        idempotencyKey: idempotency.key
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+    if (idempotency) claimedKeys.push({ kind: 'idempotency', key: idempotency.key });
+    parsedBody = safePayload;
+
     // ========================================================================
     // STEP 4: Ensure TradingView User (background, don't block)
     // ========================================================================
@@ -396,6 +504,7 @@ serve(async (req) => {
             ...parsedBody,
             parsed_trade: tradeSignal,
             request_id: requestId,
+            idempotency_key: idempotency?.key,
             received_at: new Date().toISOString()
           }
         })
@@ -423,6 +532,7 @@ serve(async (req) => {
     }, 5, 200, 8000);  // 5 retries, 200ms base delay, 8s timeout
 
     const executionTime = Date.now() - startTime;
+    if (idempotency) await attachReplayKeyMessage(supabase, roomId, idempotency.key, message?.id || messageId);
     
     // ========================================================================
     // STEP 8: Log Successful Delivery
@@ -432,6 +542,7 @@ serve(async (req) => {
       room_id: roomId,
       webhook_id: webhookId,
       message_id: message?.id || messageId,
+      idempotency_key: idempotency?.key,
       payload: parsedBody,
       status: 'success',
       execution_time_ms: executionTime
@@ -457,13 +568,20 @@ serve(async (req) => {
     console.error(`💥 [${requestId}] ============ WEBHOOK FAILED ============`)
     console.error(`💥 [${requestId}] Error:`, error.message || error)
     console.error(`💥 [${requestId}] Stack:`, error.stack)
+
+    // Nothing was posted, so let the sender's retry through
+    for (const { kind, key } of claimedKeys) {
+      await releaseReplayKey(supabase, roomId, kind, key).catch(e =>
+        console.warn(`⚠️ [${requestId}] Failed to release ${kind} key:`, e)
+      );
+    }
     
     // Log failed webhook
     await logWebhookDelivery(supabase, {
       request_id: requestId,
       room_id: roomId || null,
       webhook_id: webhookId,
-      payload: parsedBody || { raw: bodyText },
+      payload: stripSecrets(parsedBody) || { raw: bodyText },
       status: 'failed',
       error_message: error.message || 'Unknown error',
       error_stack: error.stack,
@@ -493,8 +611,9 @@ async function logWebhookDelivery(
     room_id: string | null;
     webhook_id?: string | null;
     message_id?: string;
+    idempotency_key?: string;
     payload: any;
-    status: 'success' | 'failed';
+    status: 'success' | 'failed' | 'rejected' | 'duplicate';
     error_message?: string;
     error_stack?: string;
     execution_time_ms: number;
@@ -506,6 +625,7 @@ async function logWebhookDelivery(
       room_id: data.room_id,
       webhook_id: data.webhook_id || null,
       message_id: data.message_id || null,
+      idempotency_key: data.idempotency_key || null,
       payload: data.payload,
       status: data.status,
       error_message: data.error_message || null,
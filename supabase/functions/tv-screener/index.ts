@@ -97,6 +97,7 @@ serve(async (req) => {
     const {
       type = "stock",
       columns = [],
+      extraColumns = [],
       filters = [],
       sort,
       range = [0, 150],
@@ -133,9 +134,13 @@ serve(async (req) => {
       return filter;
     });
 
+    // Fields referenced by client-side formulas / expression filters
+    const baseColumns: string[] = columns.length > 0 ? columns : getDefaultColumns(type);
+    const requestedColumns = [...baseColumns, ...extraColumns.filter((c: string) => !baseColumns.includes(c))];
+
     // Build request body
     const tvBody: any = {
-      columns: columns.length > 0 ? columns : getDefaultColumns(type),
+      columns: requestedColumns,
       filter: tvFilters,
       sort: sort || { sortBy: getDefaultSort(type), sortOrder: "desc" },
       range: range,
@@ -188,7 +193,6 @@ serve(async (req) => {
     const tvData = await tvResponse.json();
 
     // Transform TV response to our format
-    const requestedColumns = columns.length > 0 ? columns : getDefaultColumns(type);
     const results = (tvData.data || []).map((item: any) => {
       const row: any = { symbol: item.s };
       if (item.d && Array.isArray(item.d)) {
@@ -0,0 +1,22 @@
+-- Screener result snapshots for history & diffing
+CREATE TABLE public.screener_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  screen_id TEXT NOT NULL,
+  screen_label TEXT NOT NULL DEFAULT '',
+  screener_type TEXT NOT NULL,
+  columns TEXT[] DEFAULT '{}',
+  rows JSONB NOT NULL DEFAULT '[]',
+  total_count INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_screener_snapshots_user_screen ON public.screener_snapshots(user_id, screen_id, created_at DESC);
+
+-- RLS
+ALTER TABLE public.screener_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can CRUD own screener snapshots" ON public.screener_snapshots
+  FOR ALL TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
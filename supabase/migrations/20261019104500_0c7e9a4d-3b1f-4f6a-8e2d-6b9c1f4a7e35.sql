@@ -0,0 +1,3 @@
+-- Cron scheduling options for agent skills
+ALTER TABLE public.agent_skills ADD COLUMN IF NOT EXISTS timezone TEXT;
+ALTER TABLE public.agent_skills ADD COLUMN IF NOT EXISTS catch_up BOOLEAN DEFAULT false;
@@ -0,0 +1,7 @@
+-- Allow simulated 'paper' broker connections
+ALTER TABLE public.broker_connections 
+DROP CONSTRAINT IF EXISTS broker_connections_broker_type_check;
+
+ALTER TABLE public.broker_connections 
+ADD CONSTRAINT broker_connections_broker_type_check 
+CHECK (broker_type = ANY (ARRAY['tradovate'::text, 'settrade'::text, 'mt5'::text, 'paper'::text]));
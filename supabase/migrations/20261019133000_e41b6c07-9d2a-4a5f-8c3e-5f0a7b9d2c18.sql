@@ -0,0 +1,9 @@
+-- Pre-trade risk limits per broker connection
+ALTER TABLE public.broker_connections
+  ADD COLUMN IF NOT EXISTS risk_limits JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS kill_switch BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS risk_state JSONB;
+
+-- Rate-limit and duplicate checks scan recent orders per connection
+CREATE INDEX IF NOT EXISTS idx_api_forward_logs_connection_created
+  ON public.api_forward_logs(connection_id, created_at DESC);
@@ -0,0 +1,33 @@
+-- Signed, replay-protected and idempotent webhook ingestion
+ALTER TABLE public.webhooks
+  ADD COLUMN IF NOT EXISTS auth_mode TEXT NOT NULL DEFAULT 'none' CHECK (auth_mode IN ('none', 'secret', 'hmac')),
+  ADD COLUMN IF NOT EXISTS replay_window_seconds INTEGER NOT NULL DEFAULT 300,
+  ADD COLUMN IF NOT EXISTS idempotency_window_seconds INTEGER NOT NULL DEFAULT 0;
+
+-- The same signal may legitimately fire twice, so identical-body de-duplication is opt-in per room
+COMMENT ON COLUMN public.webhooks.idempotency_window_seconds IS 'Seconds to drop repeats of an identical body; 0 = only explicit idempotency keys are de-duplicated';
+
+-- Rejected (auth/replay) and duplicate (retried) deliveries are logged too
+ALTER TABLE public.webhook_delivery_logs DROP CONSTRAINT IF EXISTS webhook_delivery_logs_status_check;
+ALTER TABLE public.webhook_delivery_logs
+  ADD CONSTRAINT webhook_delivery_logs_status_check
+  CHECK (status IN ('success', 'failed', 'retry', 'rejected', 'duplicate'));
+ALTER TABLE public.webhook_delivery_logs ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+COMMENT ON COLUMN public.webhook_delivery_logs.status IS 'success = inserted, failed = error occurred, retry = retrying, rejected = auth/replay check failed, duplicate = idempotency key already delivered';
+
+-- Nonces and idempotency keys; the primary key makes each claim atomic
+CREATE TABLE IF NOT EXISTS public.webhook_replay_keys (
+  room_id UUID NOT NULL REFERENCES public.chat_rooms(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('nonce', 'idempotency')),
+  key TEXT NOT NULL,
+  message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (room_id, kind, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_replay_keys_expires ON public.webhook_replay_keys(room_id, expires_at);
+
+-- Only the edge function (service role) touches this table
+ALTER TABLE public.webhook_replay_keys ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,16 @@
+-- Chart drawings, one row per user and symbol
+CREATE TABLE public.chart_drawings (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  symbol TEXT NOT NULL,
+  drawings JSONB NOT NULL DEFAULT '[]',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, symbol)
+);
+
+-- RLS
+ALTER TABLE public.chart_drawings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can CRUD own chart drawings" ON public.chart_drawings
+  FOR ALL TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
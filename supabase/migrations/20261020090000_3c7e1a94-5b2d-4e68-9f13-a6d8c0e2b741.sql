@@ -0,0 +1,38 @@
+-- Alert delivery: recipients a user has verified for the server's email / Telegram / LINE credentials,
+-- and a send log the send-alert-notification function rate-limits on
+CREATE TABLE public.alert_recipients (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'telegram', 'line')),
+  address TEXT NOT NULL,
+  -- Set once the owner confirms the address; only verified rows unlock the server's credentials
+  verified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, channel, address)
+);
+
+CREATE TABLE public.alert_delivery_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  channel TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_alert_delivery_log_user_channel ON public.alert_delivery_log(user_id, channel, created_at DESC);
+
+-- RLS
+ALTER TABLE public.alert_recipients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_delivery_log ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the service role, so users can't register or verify addresses themselves
+CREATE POLICY "Users can view own alert recipients" ON public.alert_recipients
+  FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove own alert recipients" ON public.alert_recipients
+  FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Written by the edge function only, so users can't clear their own rate limit
+CREATE POLICY "Users can view own alert deliveries" ON public.alert_delivery_log
+  FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
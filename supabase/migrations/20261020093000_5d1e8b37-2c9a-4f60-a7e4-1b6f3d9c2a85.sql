@@ -0,0 +1,16 @@
+-- Snapshot each broker connection's equity at the start of the UTC day, so the
+-- daily-loss limit measures from session start rather than the day's first order
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'risk-session-start',
+  '0 0 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://sovyrqzpavkuuycnfyac.supabase.co/functions/v1/risk-session-start',
+    body := '{}'::jsonb,
+    headers := '{"Content-Type": "application/json"}'::jsonb
+  );
+  $$
+);